@@ -14,6 +14,9 @@ const Dashboard = lazy(() => import("./pages/dashboard"));
 const Projects = lazy(() => import("./pages/projects"));
 const ProjectDetails = lazy(() => import("./pages/project-details"));
 const ProjectEdit = lazy(() => import("./pages/project-edit-contacts"));
+const InspectionDetail = lazy(() => import("./pages/inspection-detail"));
+const DiaryEntry = lazy(() => import("./pages/diary-entry"));
+const AcceptanceProtocol = lazy(() => import("./pages/acceptance-protocol"));
 const Maps = lazy(() => import("./pages/maps"));
 const Camera = lazy(() => import("./pages/camera"));
 const AudioRecorder = lazy(() => import("./pages/audio-recorder"));
@@ -22,6 +25,7 @@ const AIAssistantPage = lazy(() => import("./pages/ai-assistant"));
 const Profile = lazy(() => import("./pages/profile"));
 const Customers = lazy(() => import("./pages/customers"));
 const Companies = lazy(() => import("./pages/companies"));
+const ContactDuplicates = lazy(() => import("./pages/contact-duplicates"));
 const FloodProtectionNew = lazy(() => import("./pages/flood-protection"));
 const ChecklistDetail = lazy(() => import("./pages/checklist-detail"));
 const HochwasserAnleitung = lazy(() => import("./pages/hochwasser-anleitung"));
@@ -118,6 +122,27 @@ function Router() {
           </Suspense>
         )}
       </Route>
+      <Route path="/projects/:id/inspections/:inspectionId">
+        {() => (
+          <Suspense fallback={<PageLoader />}>
+            <InspectionDetail />
+          </Suspense>
+        )}
+      </Route>
+      <Route path="/projects/:id/diary/:entryId">
+        {() => (
+          <Suspense fallback={<PageLoader />}>
+            <DiaryEntry />
+          </Suspense>
+        )}
+      </Route>
+      <Route path="/projects/:id/acceptance/:protocolId">
+        {() => (
+          <Suspense fallback={<PageLoader />}>
+            <AcceptanceProtocol />
+          </Suspense>
+        )}
+      </Route>
       <Route path="/maps">
         {() => (
           <Suspense fallback={<PageLoader />}>
@@ -181,6 +206,13 @@ function Router() {
           </Suspense>
         )}
       </Route>
+      <Route path="/contacts/duplicates">
+        {() => (
+          <Suspense fallback={<PageLoader />}>
+            <ContactDuplicates />
+          </Suspense>
+        )}
+      </Route>
       <Route path="/flood-protection/checklist/:id">
         {() => (
           <Suspense fallback={<PageLoader />}>
@@ -0,0 +1,327 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileSpreadsheet, Upload } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+export type AddressEntity = "customers" | "companies" | "customer-contacts" | "company-contacts";
+
+export const ADDRESS_ENTITY_LABELS: Record<AddressEntity, string> = {
+  customers: "Kunden",
+  companies: "Firmen",
+  "customer-contacts": "Kunden-Ansprechpartner",
+  "company-contacts": "Firmen-Ansprechpartner",
+};
+
+type DuplicateReason = "email" | "name_postal_code" | "name";
+
+const DUPLICATE_REASONS: Record<DuplicateReason, string> = {
+  email: "gleiche E-Mail",
+  name_postal_code: "gleicher Name und PLZ",
+  name: "gleicher Name",
+};
+
+interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+interface ImportPreviewRow {
+  row: number;
+  values: Record<string, string>;
+  errors: string[];
+  duplicate: { reason: DuplicateReason; existingId: number | null; row: number | null; name: string } | null;
+}
+
+interface ImportPreview {
+  fileName: string;
+  headers: string[];
+  fields: ImportField[];
+  mapping: Record<string, number | null>;
+  rows: ImportPreviewRow[];
+  summary: { total: number; valid: number; invalid: number; duplicates: number };
+}
+
+interface AddressImportWizardProps {
+  entities: AddressEntity[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+async function postImport(url: string, file: File, fields: Record<string, string>) {
+  const formData = new FormData();
+  formData.append("file", file);
+  Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+  const response = await fetch(url, { method: "POST", body: formData, credentials: "same-origin" });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message || "Import fehlgeschlagen");
+  }
+  return body;
+}
+
+/**
+ * Import in drei Schritten: Datei wählen, Spalten zuordnen, Vorschau mit Fehlern und Dubletten prüfen
+ */
+export function AddressImportWizard({ entities, open, onOpenChange, onImported }: AddressImportWizardProps) {
+  const [entity, setEntity] = useState<AddressEntity>(entities[0]);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, number | null>>({});
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setMapping({});
+    setIncludeDuplicates(false);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const loadPreview = async (nextMapping?: Record<string, number | null>) => {
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const result: ImportPreview = await postImport(
+        `/api/address-book/${entity}/import/preview`,
+        file,
+        nextMapping ? { mapping: JSON.stringify(nextMapping) } : {},
+      );
+      setPreview(result);
+      setMapping(result.mapping);
+    } catch (error) {
+      toast({ title: "Fehler", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runImport = async () => {
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const result = await postImport(`/api/address-book/${entity}/import`, file, {
+        mapping: JSON.stringify(mapping),
+        includeDuplicates: String(includeDuplicates),
+      });
+      toast({
+        title: `${result.created} ${ADDRESS_ENTITY_LABELS[entity]} importiert`,
+        description: `${result.skippedInvalid} fehlerhafte und ${result.skippedDuplicates} doppelte Zeilen übersprungen`,
+      });
+      onImported();
+      handleOpenChange(false);
+    } catch (error) {
+      toast({ title: "Fehler", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const mappingChanged = !!preview && preview.fields.some((field) => (mapping[field.key] ?? null) !== (preview.mapping[field.key] ?? null));
+  const importCount = preview ? preview.summary.valid + (includeDuplicates ? preview.summary.duplicates : 0) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ADDRESS_ENTITY_LABELS[entity]} importieren</DialogTitle>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4">
+            {entities.length > 1 && (
+              <div>
+                <Label>Was wird importiert?</Label>
+                <Select value={entity} onValueChange={(value) => setEntity(value as AddressEntity)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {entities.map((option) => (
+                      <SelectItem key={option} value={option}>{ADDRESS_ENTITY_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="address-import-file">CSV- oder Excel-Datei (.csv, .xlsx)</Label>
+              <Input
+                id="address-import-file"
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Die erste Zeile muss die Spaltenüberschriften enthalten. Ansprechpartner werden über den Namen des Kunden bzw. der Firma zugeordnet.
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => loadPreview()} disabled={!file || isLoading}>
+                <Upload className="h-4 w-4 mr-2" />
+                {isLoading ? "Wird gelesen..." : "Weiter"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h3 className="font-semibold mb-2">Spalten zuordnen ({preview.fileName})</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {preview.fields.map((field) => (
+                  <div key={field.key} className="flex items-center space-x-2">
+                    <Label className="w-32 shrink-0">{field.label}{field.required && " *"}</Label>
+                    <Select
+                      value={mapping[field.key] === null || mapping[field.key] === undefined ? "none" : String(mapping[field.key])}
+                      onValueChange={(value) => setMapping({ ...mapping, [field.key]: value === "none" ? null : Number(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">— nicht importieren —</SelectItem>
+                        {preview.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header || `Spalte ${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {mappingChanged && (
+                <Button variant="outline" size="sm" className="mt-3" onClick={() => loadPreview(mapping)} disabled={isLoading}>
+                  Vorschau aktualisieren
+                </Button>
+              )}
+            </div>
+
+            <div>
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <h3 className="font-semibold">Vorschau</h3>
+                <Badge variant="outline">{preview.summary.total} Zeilen</Badge>
+                <Badge className="bg-green-100 text-green-800">{preview.summary.valid} gültig</Badge>
+                {preview.summary.invalid > 0 && <Badge variant="destructive">{preview.summary.invalid} fehlerhaft</Badge>}
+                {preview.summary.duplicates > 0 && <Badge className="bg-yellow-100 text-yellow-800">{preview.summary.duplicates} Dubletten</Badge>}
+              </div>
+              <div className="border rounded-lg max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Zeile</TableHead>
+                      {preview.fields.map((field) => (
+                        <TableHead key={field.key}>{field.label}</TableHead>
+                      ))}
+                      <TableHead>Prüfung</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.row} className={row.errors.length > 0 ? "bg-red-50" : row.duplicate ? "bg-yellow-50" : ""}>
+                        <TableCell>{row.row}</TableCell>
+                        {preview.fields.map((field) => (
+                          <TableCell key={field.key} className="max-w-[160px] truncate">{row.values[field.key]}</TableCell>
+                        ))}
+                        <TableCell className="text-xs">
+                          {row.errors.length > 0 ? (
+                            <ul className="text-red-700 space-y-0.5">
+                              {row.errors.map((error) => <li key={error}>{error}</li>)}
+                            </ul>
+                          ) : row.duplicate ? (
+                            <span className="text-yellow-800">
+                              Dublette ({DUPLICATE_REASONS[row.duplicate.reason]}): {row.duplicate.name}
+                              {row.duplicate.row ? ` in Zeile ${row.duplicate.row}` : " bereits vorhanden"}
+                            </span>
+                          ) : (
+                            <span className="text-green-700">OK</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="address-import-duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                  disabled={preview.summary.duplicates === 0}
+                />
+                <Label htmlFor="address-import-duplicates">Dubletten trotzdem importieren</Label>
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={reset}>Andere Datei</Button>
+                <Button onClick={runImport} disabled={isLoading || mappingChanged || importCount === 0}>
+                  {isLoading ? "Wird importiert..." : `${importCount} Einträge importieren`}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Export als CSV (Excel, Semikolon) oder XLSX; die Dateien lassen sich ohne Zuordnung wieder importieren
+ */
+export function AddressExportMenu({ entities, archived = false }: { entities: AddressEntity[]; archived?: boolean }) {
+  const exportUrl = (entity: AddressEntity, format: "csv" | "xlsx") =>
+    `/api/address-book/${entity}/export?format=${format}${archived ? "&archived=true" : ""}`;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {entities.map((entity, index) => (
+          <div key={entity}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{ADDRESS_ENTITY_LABELS[entity]}{archived && " (Archiv)"}</DropdownMenuLabel>
+            <DropdownMenuItem asChild>
+              <a href={exportUrl(entity, "csv")} download>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                CSV (Excel)
+              </a>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <a href={exportUrl(entity, "xlsx")} download>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                XLSX
+              </a>
+            </DropdownMenuItem>
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,83 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Contact, Upload } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+export type ContactKind = "person" | "customer-contact" | "company-contact";
+
+export const CONTACT_KIND_LABELS: Record<ContactKind, string> = {
+  person: "Person",
+  "customer-contact": "Kunden-Ansprechpartner",
+  "company-contact": "Firmen-Ansprechpartner",
+};
+
+/**
+ * vCard 3.0 eines Kontakts herunterladen (Outlook, Smartphone-Adressbuch)
+ */
+export function VCardDownloadButton({ kind, id, iconClassName = "h-4 w-4" }: { kind: ContactKind; id: number; iconClassName?: string }) {
+  return (
+    <Button variant="ghost" size="sm" title="Als vCard speichern" asChild>
+      <a href={`/api/address-book/contacts/${kind}/${id}/vcard`} download>
+        <Contact className={iconClassName} />
+      </a>
+    </Button>
+  );
+}
+
+interface VCardImportButtonProps {
+  target: "persons" | "customer-contacts" | "company-contacts";
+  parentId?: number;
+  onImported: () => void;
+}
+
+/**
+ * Liest eine .vcf-Datei mit einer oder mehreren Karten ein
+ */
+export function VCardImportButton({ target, parentId, onImported }: VCardImportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("target", target);
+      if (parentId) formData.append("parentId", String(parentId));
+      const response = await fetch("/api/address-book/vcard", { method: "POST", body: formData, credentials: "same-origin" });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.message || "vCard-Import fehlgeschlagen");
+      }
+      toast({
+        title: `${body.created} Kontakt(e) importiert`,
+        description: body.skipped.length > 0
+          ? `Übersprungen: ${body.skipped.map((entry: { name: string; reason: string }) => `${entry.name} (${entry.reason})`).join(", ")}`
+          : undefined,
+      });
+      onImported();
+    } catch (error) {
+      toast({ title: "Fehler", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".vcf,text/vcard"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isImporting}>
+        <Upload className="h-4 w-4 mr-1" />
+        vCard
+      </Button>
+    </>
+  );
+}
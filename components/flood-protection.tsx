@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Checkbox } from "../components/ui/checkbox";
 import { useToast } from "../hooks/use-toast";
 import { apiRequest, queryClient } from "../lib/queryClient";
+import { SchadensfallDialog } from "./flood/schadensfall-dialog";
 import {
   AlertTriangle,
   CheckCircle,
@@ -35,6 +36,7 @@ export function FloodProtection({ projectId }: FloodProtectionProps) {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("checklists");
   const [searchTerm, setSearchTerm] = useState("");
+  const [selectedSchadensfallId, setSelectedSchadensfallId] = useState<number | null>(null);
 
   // Queries
   const { data: checklists = [], isLoading: checklistsLoading } = useQuery({
@@ -45,8 +47,8 @@ export function FloodProtection({ projectId }: FloodProtectionProps) {
     queryKey: ["/api/flood/absperrschieber"],
   });
 
-  const { data: schadensfaelle = [], isLoading: schadenLoading } = useQuery({
-    queryKey: ["/api/flood/schadensfaelle", projectId],
+  const { data: schadensfaelle = [], isLoading: schadenLoading } = useQuery<any[]>({
+    queryKey: [`/api/flood/schadensfaelle?projectId=${projectId}`],
   });
 
   // Demo-Daten für die Darstellung
@@ -99,25 +101,6 @@ export function FloodProtection({ projectId }: FloodProtectionProps) {
     }
   ];
 
-  const demoSchadensfaelle = [
-    {
-      id: "1",
-      problem_beschreibung: "Festsitzender Deckel bei Schieber Nr. 1",
-      status: "behoben",
-      prioritaet: 2,
-      gemeldet_am: "2025-06-25T09:15:00Z",
-      gemeldet_von: "Klaus Werner"
-    },
-    {
-      id: "2",
-      problem_beschreibung: "Kein Zulauf in Mühlgraben bei Schieber Nr. 2",
-      status: "in_bearbeitung", 
-      prioritaet: 1,
-      gemeldet_am: "2025-06-28T11:30:00Z",
-      gemeldet_von: "Anna Schmidt"
-    }
-  ];
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case "offen": return "bg-blue-500";
@@ -126,7 +109,9 @@ export function FloodProtection({ projectId }: FloodProtectionProps) {
       case "funktionsfähig": return "bg-green-500";
       case "wartung_erforderlich": return "bg-orange-500";
       case "defekt": return "bg-red-500";
+      case "gemeldet": return "bg-blue-500";
       case "behoben": return "bg-green-500";
+      case "geprueft": return "bg-gray-700";
       default: return "bg-gray-500";
     }
   };
@@ -139,7 +124,9 @@ export function FloodProtection({ projectId }: FloodProtectionProps) {
       case "funktionsfähig": return "Funktionsfähig";
       case "wartung_erforderlich": return "Wartung erforderlich";
       case "defekt": return "Defekt";
+      case "gemeldet": return "Gemeldet";
       case "behoben": return "Behoben";
+      case "geprueft": return "Geprüft";
       default: return status;
     }
   };
@@ -322,7 +309,7 @@ export function FloodProtection({ projectId }: FloodProtectionProps) {
 
         <TabsContent value="schadensfaelle" className="space-y-6">
           <div className="space-y-4">
-            {demoSchadensfaelle.map((schaden) => (
+            {schadensfaelle.map((schaden) => (
               <Card key={schaden.id} className="hover:shadow-md transition-shadow">
                 <CardHeader className="pb-4">
                   <div className="flex items-start justify-between">
@@ -351,12 +338,12 @@ export function FloodProtection({ projectId }: FloodProtectionProps) {
                 </CardHeader>
                 <CardContent>
                   <div className="flex gap-2">
-                    <Button size="sm" variant="outline">
+                    <Button size="sm" variant="outline" onClick={() => setSelectedSchadensfallId(schaden.id)}>
                       <FileText className="h-4 w-4 mr-1" />
                       Details
                     </Button>
-                    {schaden.status !== "behoben" && (
-                      <Button size="sm">
+                    {schaden.status !== "geprueft" && (
+                      <Button size="sm" onClick={() => setSelectedSchadensfallId(schaden.id)}>
                         <CheckCircle className="h-4 w-4 mr-1" />
                         Bearbeiten
                       </Button>
@@ -390,6 +377,11 @@ export function FloodProtection({ projectId }: FloodProtectionProps) {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <SchadensfallDialog
+        schadensfallId={selectedSchadensfallId}
+        onOpenChange={(open) => !open && setSelectedSchadensfallId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
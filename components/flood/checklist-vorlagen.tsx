@@ -0,0 +1,429 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
+import { Button } from "../../components/ui/button";
+import { Badge } from "../../components/ui/badge";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { Checkbox } from "../../components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { ArrowDown, ArrowUp, Download, Edit, History, Plus, Save, Trash2, Upload } from "lucide-react";
+
+type Abschnitt = "beginn" | "ende";
+
+type VorlageAufgabe = { beschreibung: string; pflichtfelder: string[] };
+
+type VorlageEntwurf = {
+  name: string;
+  beschreibung: string;
+  abschnitte: Record<Abschnitt, VorlageAufgabe[]>;
+};
+
+const TYPEN = [
+  { value: "hochwasser", label: "Hochwasserereignis" },
+  { value: "uebung", label: "Übung" },
+  { value: "starkregen", label: "Starkregen" },
+];
+
+const ABSCHNITTE: { value: Abschnitt; label: string }[] = [
+  { value: "beginn", label: "Beginn des Betriebes" },
+  { value: "ende", label: "Ende des Betriebes" },
+];
+
+const PFLICHTFELDER = [
+  { value: "datum", label: "Datum" },
+  { value: "pegelstand", label: "Pegelstand" },
+  { value: "foto", label: "Foto" },
+  { value: "bemerkung", label: "Bemerkung" },
+];
+
+export function ChecklistVorlagen() {
+  const { toast } = useToast();
+  const [typ, setTyp] = useState("hochwasser");
+  const [entwurf, setEntwurf] = useState<VorlageEntwurf | null>(null);
+
+  const { data: aktiveVorlage } = useQuery<any>({
+    queryKey: [`/api/flood/checklist-vorlagen/aktiv/${typ}`],
+  });
+
+  const { data: versionen = [] } = useQuery<any[]>({
+    queryKey: [`/api/flood/checklist-vorlagen?typ=${typ}`],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/flood/checklist-vorlagen/aktiv/${typ}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/flood/checklist-vorlagen?typ=${typ}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (daten: VorlageEntwurf) => {
+      const response = await apiRequest("POST", "/api/flood/checklist-vorlagen", { ...daten, typ });
+      return response.json();
+    },
+    onSuccess: (vorlage) => {
+      invalidate();
+      setEntwurf(null);
+      toast({
+        title: "Vorlage gespeichert",
+        description: `${vorlage.name} ist jetzt als Version ${vorlage.version} aktiv.`,
+      });
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (datei: File) => {
+      const response = await apiRequest("POST", "/api/flood/import-checklist", {
+        jsonData: await datei.text(),
+        typ
+      });
+      return response.json();
+    },
+    onSuccess: (ergebnis) => {
+      invalidate();
+      toast({
+        title: "Vorlage importiert",
+        description: ergebnis.message,
+      });
+    },
+    onError,
+  });
+
+  const aktivierenMutation = useMutation({
+    mutationFn: async (vorlageId: number) => {
+      const response = await apiRequest("POST", `/api/flood/checklist-vorlagen/${vorlageId}/aktivieren`);
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (vorlageId: number) => {
+      await apiRequest("DELETE", `/api/flood/checklist-vorlagen/${vorlageId}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const startBearbeiten = () => {
+    if (!aktiveVorlage) return;
+    setEntwurf({
+      name: aktiveVorlage.name,
+      beschreibung: aktiveVorlage.beschreibung || "",
+      abschnitte: {
+        beginn: aktiveVorlage.abschnitte.beginn.map((aufgabe: VorlageAufgabe) => ({ ...aufgabe })),
+        ende: aktiveVorlage.abschnitte.ende.map((aufgabe: VorlageAufgabe) => ({ ...aufgabe })),
+      },
+    });
+  };
+
+  const updateAufgaben = (abschnitt: Abschnitt, update: (aufgaben: VorlageAufgabe[]) => VorlageAufgabe[]) => {
+    setEntwurf((prev) => prev && { ...prev, abschnitte: { ...prev.abschnitte, [abschnitt]: update(prev.abschnitte[abschnitt]) } });
+  };
+
+  const verschiebeAufgabe = (abschnitt: Abschnitt, index: number, richtung: -1 | 1) => {
+    updateAufgaben(abschnitt, (aufgaben) => {
+      const ziel = index + richtung;
+      if (ziel < 0 || ziel >= aufgaben.length) return aufgaben;
+      const neu = [...aufgaben];
+      [neu[index], neu[ziel]] = [neu[ziel], neu[index]];
+      return neu;
+    });
+  };
+
+  const togglePflichtfeld = (abschnitt: Abschnitt, index: number, feld: string) => {
+    updateAufgaben(abschnitt, (aufgaben) =>
+      aufgaben.map((aufgabe, i) =>
+        i !== index
+          ? aufgabe
+          : {
+              ...aufgabe,
+              pflichtfelder: aufgabe.pflichtfelder.includes(feld)
+                ? aufgabe.pflichtfelder.filter((f) => f !== feld)
+                : [...aufgabe.pflichtfelder, feld],
+            },
+      ),
+    );
+  };
+
+  const handleSave = () => {
+    if (!entwurf) return;
+    saveMutation.mutate({
+      ...entwurf,
+      abschnitte: {
+        beginn: entwurf.abschnitte.beginn.filter((aufgabe) => aufgabe.beschreibung.trim()),
+        ende: entwurf.abschnitte.ende.filter((aufgabe) => aufgabe.beschreibung.trim()),
+      },
+    });
+  };
+
+  const renderPflichtfeldBadges = (aufgabe: VorlageAufgabe) =>
+    aufgabe.pflichtfelder.map((feld) => (
+      <Badge key={feld} variant="outline" className="text-xs">
+        {PFLICHTFELDER.find((p) => p.value === feld)?.label || feld}
+      </Badge>
+    ));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <div className="w-56">
+          <Label className="text-sm font-medium">Checklisten-Typ</Label>
+          <Select
+            value={typ}
+            onValueChange={(value) => {
+              setTyp(value);
+              setEntwurf(null);
+            }}
+          >
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TYPEN.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!entwurf && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={startBearbeiten} disabled={!aktiveVorlage}>
+              <Edit className="h-4 w-4 mr-2" />
+              Bearbeiten
+            </Button>
+            <Button variant="outline" asChild disabled={importMutation.isPending}>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                JSON importieren
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const datei = e.target.files?.[0];
+                    if (datei) importMutation.mutate(datei);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </Button>
+            {aktiveVorlage?.id && (
+              <Button variant="outline" asChild>
+                <a href={`/api/flood/checklist-vorlagen/${aktiveVorlage.id}/export`} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  JSON exportieren
+                </a>
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {entwurf ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Vorlage bearbeiten</CardTitle>
+            <p className="text-sm text-gray-600">
+              Beim Speichern entsteht eine neue Version. Bestehende Checklisten behalten ihre Aufgaben.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <Label className="text-sm font-medium">Name</Label>
+                <Input
+                  value={entwurf.name}
+                  onChange={(e) => setEntwurf({ ...entwurf, name: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Beschreibung</Label>
+                <Input
+                  value={entwurf.beschreibung}
+                  onChange={(e) => setEntwurf({ ...entwurf, beschreibung: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            {ABSCHNITTE.map(({ value: abschnitt, label }) => (
+              <div key={abschnitt} className="space-y-3">
+                <h4 className="font-medium text-gray-900">{label}</h4>
+                {entwurf.abschnitte[abschnitt].map((aufgabe, index) => (
+                  <div key={index} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-500 w-6">{index + 1}.</span>
+                      <Input
+                        value={aufgabe.beschreibung}
+                        onChange={(e) =>
+                          updateAufgaben(abschnitt, (aufgaben) =>
+                            aufgaben.map((a, i) => (i === index ? { ...a, beschreibung: e.target.value } : a)),
+                          )
+                        }
+                        placeholder="Aufgabe beschreiben..."
+                        className="h-8 text-sm"
+                      />
+                      <Button size="sm" variant="ghost" onClick={() => verschiebeAufgabe(abschnitt, index, -1)} disabled={index === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => verschiebeAufgabe(abschnitt, index, 1)}
+                        disabled={index === entwurf.abschnitte[abschnitt].length - 1}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateAufgaben(abschnitt, (aufgaben) => aufgaben.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 ml-8">
+                      <span className="text-xs text-gray-500">Pflichtfelder:</span>
+                      {PFLICHTFELDER.map((feld) => (
+                        <div key={feld.value} className="flex items-center space-x-1">
+                          <Checkbox
+                            id={`${abschnitt}-${index}-${feld.value}`}
+                            checked={aufgabe.pflichtfelder.includes(feld.value)}
+                            onCheckedChange={() => togglePflichtfeld(abschnitt, index, feld.value)}
+                          />
+                          <label htmlFor={`${abschnitt}-${index}-${feld.value}`} className="text-xs">
+                            {feld.label}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => updateAufgaben(abschnitt, (aufgaben) => [...aufgaben, { beschreibung: "", pflichtfelder: [] }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Aufgabe hinzufügen
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEntwurf(null)}>
+                Abbrechen
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending || !entwurf.name.trim()}>
+                <Save className="h-4 w-4 mr-2" />
+                Als neue Version speichern
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : aktiveVorlage && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex flex-wrap items-center gap-2">
+              {aktiveVorlage.name}
+              <Badge className="bg-blue-600 text-white">
+                {aktiveVorlage.id ? `Version ${aktiveVorlage.version}` : "Standardaufgaben"}
+              </Badge>
+            </CardTitle>
+            {aktiveVorlage.beschreibung && (
+              <p className="text-sm text-gray-600">{aktiveVorlage.beschreibung}</p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {ABSCHNITTE.map(({ value: abschnitt, label }) => (
+              <div key={abschnitt}>
+                <h4 className="font-medium text-gray-900 mb-2">{label}</h4>
+                {aktiveVorlage.abschnitte[abschnitt].length === 0 ? (
+                  <p className="text-sm text-gray-500">Keine Aufgaben</p>
+                ) : (
+                  <ol className="space-y-1">
+                    {aktiveVorlage.abschnitte[abschnitt].map((aufgabe: VorlageAufgabe, index: number) => (
+                      <li key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="text-gray-500">{index + 1}.</span>
+                        <span>{aufgabe.beschreibung}</span>
+                        {renderPflichtfeldBadges(aufgabe)}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {versionen.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Versionen
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {versionen.map((vorlage) => (
+              <div key={vorlage.id} className="flex flex-wrap items-center justify-between gap-2 border rounded-lg p-3">
+                <div className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Version {vorlage.version}</span>
+                    <span className="text-gray-600">{vorlage.name}</span>
+                    {vorlage.aktiv && <Badge className="bg-green-600 text-white text-xs">Aktiv</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {vorlage.aufgaben_gesamt} Aufgaben · {new Date(vorlage.erstellt_am).toLocaleString('de-DE')}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {!vorlage.aktiv && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => aktivierenMutation.mutate(vorlage.id)}
+                      disabled={aktivierenMutation.isPending}
+                    >
+                      Aktivieren
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={`/api/flood/checklist-vorlagen/${vorlage.id}/export`} download>
+                      <Download className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  {!vorlage.aktiv && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => deleteMutation.mutate(vorlage.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
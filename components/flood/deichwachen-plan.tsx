@@ -0,0 +1,471 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
+import { Button } from "../../components/ui/button";
+import { Badge } from "../../components/ui/badge";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { Textarea } from "../../components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../../components/ui/dialog";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { AlertTriangle, Edit, Mail, MapPin, Plus, Trash2 } from "lucide-react";
+import type { Person } from "../../shared/schema";
+
+const emptyWacheForm = {
+  deichabschnitt_id: "",
+  person_id: "",
+  schicht_beginn: "",
+  schicht_ende: "",
+  bemerkung: ""
+};
+
+const emptyAbschnittForm = {
+  bezeichnung: "",
+  km_von: "",
+  km_bis: "",
+  mindest_besetzung: "1"
+};
+
+// Wandelt einen Zeitstempel in den Wert eines datetime-local Eingabefelds um
+const toDateTimeInput = (value: string) => {
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const formatZeit = (value: string) =>
+  `${new Date(value).toLocaleDateString('de-DE')} ${new Date(value).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}`;
+
+export function DeichwachenPlan() {
+  const { toast } = useToast();
+  const [editWacheId, setEditWacheId] = useState<number | null>(null);
+  const [isWacheDialogOpen, setIsWacheDialogOpen] = useState(false);
+  const [isAbschnittDialogOpen, setIsAbschnittDialogOpen] = useState(false);
+  const [wacheForm, setWacheForm] = useState(emptyWacheForm);
+  const [abschnittForm, setAbschnittForm] = useState(emptyAbschnittForm);
+
+  const { data: abschnitte = [] } = useQuery<any[]>({
+    queryKey: ["/api/flood/deichabschnitte"],
+  });
+
+  const { data: wachen = [] } = useQuery<any[]>({
+    queryKey: ["/api/flood/deichwachen"],
+  });
+
+  const { data: konflikte } = useQuery<any>({
+    queryKey: ["/api/flood/deichwachen/konflikte"],
+  });
+
+  const { data: persons = [] } = useQuery<Person[]>({
+    queryKey: ["/api/persons"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/flood/deichwachen"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/flood/deichwachen/konflikte"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveWacheMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        deichabschnittId: parseInt(wacheForm.deichabschnitt_id),
+        personId: parseInt(wacheForm.person_id),
+        schichtBeginn: new Date(wacheForm.schicht_beginn).toISOString(),
+        schichtEnde: new Date(wacheForm.schicht_ende).toISOString(),
+        bemerkung: wacheForm.bemerkung || null
+      };
+      const response = editWacheId
+        ? await apiRequest("PATCH", `/api/flood/deichwachen/${editWacheId}`, data)
+        : await apiRequest("POST", "/api/flood/deichwachen", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setIsWacheDialogOpen(false);
+      toast({
+        title: "Schicht gespeichert",
+        description: "Die Deichwache wurde eingeteilt.",
+      });
+    },
+    onError,
+  });
+
+  const deleteWacheMutation = useMutation({
+    mutationFn: async (wacheId: number) => {
+      await apiRequest("DELETE", `/api/flood/deichwachen/${wacheId}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const createAbschnittMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/flood/deichabschnitte", {
+        bezeichnung: abschnittForm.bezeichnung,
+        kmVon: abschnittForm.km_von.replace(",", "."),
+        kmBis: abschnittForm.km_bis.replace(",", "."),
+        mindestBesetzung: parseInt(abschnittForm.mindest_besetzung) || 1
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flood/deichabschnitte"] });
+      invalidate();
+      setIsAbschnittDialogOpen(false);
+      setAbschnittForm(emptyAbschnittForm);
+    },
+    onError,
+  });
+
+  const reminderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/flood/deichwachen/erinnerungen", {});
+      return response.json();
+    },
+    onSuccess: (ergebnis) => {
+      invalidate();
+      toast({
+        title: "Erinnerungen versendet",
+        description: `${ergebnis.gesendet} gesendet, ${ergebnis.ohneEmail} ohne E-Mail-Adresse, ${ergebnis.fehlgeschlagen} fehlgeschlagen.`,
+      });
+    },
+    onError,
+  });
+
+  const openWacheDialog = (wache?: any) => {
+    setEditWacheId(wache ? wache.id : null);
+    setWacheForm(wache ? {
+      deichabschnitt_id: wache.deichabschnitt_id.toString(),
+      person_id: wache.person_id.toString(),
+      schicht_beginn: toDateTimeInput(wache.schicht_beginn),
+      schicht_ende: toDateTimeInput(wache.schicht_ende),
+      bemerkung: wache.bemerkung
+    } : emptyWacheForm);
+    setIsWacheDialogOpen(true);
+  };
+
+  const handleDeleteWache = (wache: any) => {
+    if (window.confirm(`Möchten Sie die Schicht von ${wache.name} wirklich entfernen?`)) {
+      deleteWacheMutation.mutate(wache.id);
+    }
+  };
+
+  const ueberschneidungen = konflikte?.ueberschneidungen || [];
+  const unbesetzt = konflikte?.unbesetzt || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" onClick={() => reminderMutation.mutate()} disabled={reminderMutation.isPending}>
+          <Mail className="h-4 w-4 mr-2" />
+          Erinnerungen senden
+        </Button>
+        <Button variant="outline" onClick={() => setIsAbschnittDialogOpen(true)}>
+          <MapPin className="h-4 w-4 mr-2" />
+          Neuer Abschnitt
+        </Button>
+        <Button onClick={() => openWacheDialog()} disabled={abschnitte.length === 0}>
+          <Plus className="h-4 w-4 mr-2" />
+          Schicht einteilen
+        </Button>
+      </div>
+
+      {(ueberschneidungen.length > 0 || unbesetzt.length > 0) && (
+        <Card className="border-orange-300 bg-orange-50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center text-orange-800">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Konflikte in den nächsten 7 Tagen
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm text-orange-900">
+            {ueberschneidungen.map((konflikt: any, index: number) => (
+              <p key={`ueberschneidung-${index}`}>
+                <strong>{konflikt.name}</strong> ist doppelt eingeteilt: {konflikt.schichten[0].bereich} und {konflikt.schichten[1].bereich}
+              </p>
+            ))}
+            {unbesetzt.map((luecke: any, index: number) => (
+              <p key={`luecke-${index}`}>
+                <strong>{luecke.bereich}</strong> unterbesetzt ({luecke.besetzung}/{luecke.mindest_besetzung}):{" "}
+                {formatZeit(luecke.von)} - {formatZeit(luecke.bis)}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {abschnitte.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {abschnitte.map((abschnitt) => (
+            <Badge key={abschnitt.id} variant="outline">
+              {abschnitt.bereich} • mind. {abschnitt.mindest_besetzung}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {wachen.length === 0 && (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-500">
+            {abschnitte.length === 0
+              ? "Legen Sie zuerst einen Deichabschnitt an, um Schichten einzuteilen."
+              : "Noch keine Deichwachen eingeteilt."}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {wachen.map((wache) => (
+          <Card key={wache.id} className="hover:shadow-md transition-shadow">
+            <CardHeader className="pb-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="text-lg">{wache.name}</CardTitle>
+                  <p className="text-sm text-gray-600">{wache.telefon}</p>
+                </div>
+                <Badge variant="outline">
+                  {wache.erinnerung_gesendet_am ? "Erinnert" : "Eingeteilt"}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600">Schicht</span>
+                  <span className="font-medium">
+                    {formatZeit(wache.schicht_beginn)} - {new Date(wache.schicht_ende).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+
+                <div className="flex items-start space-x-2">
+                  <MapPin className="h-4 w-4 text-gray-500 mt-0.5 flex-shrink-0" />
+                  <span className="text-sm text-gray-600">{wache.bereich}</span>
+                </div>
+
+                {wache.bemerkung && (
+                  <div className="text-sm text-gray-600 bg-gray-50 p-2 rounded">
+                    {wache.bemerkung}
+                  </div>
+                )}
+
+                <div className="flex gap-2 pt-2">
+                  <Button size="sm" variant="outline" className="flex-1" onClick={() => openWacheDialog(wache)}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Bearbeiten
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => handleDeleteWache(wache)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Entfernen
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Dialog für Schichteinteilung */}
+      <Dialog open={isWacheDialogOpen} onOpenChange={setIsWacheDialogOpen}>
+        <DialogContent className="max-w-md mx-4 max-h-[90vh] overflow-y-auto" aria-describedby="wache-dialog-description">
+          <DialogHeader>
+            <DialogTitle className="text-lg">{editWacheId ? "Schicht bearbeiten" : "Schicht einteilen"}</DialogTitle>
+            <p id="wache-dialog-description" className="text-sm text-gray-600">
+              Doppelbelegungen einer Person werden automatisch abgelehnt
+            </p>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label className="text-sm font-medium">
+                Deichabschnitt <span className="text-red-500">*</span>
+              </Label>
+              <Select
+                value={wacheForm.deichabschnitt_id}
+                onValueChange={(value) => setWacheForm(prev => ({ ...prev, deichabschnitt_id: value }))}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Abschnitt wählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {abschnitte.map((abschnitt) => (
+                    <SelectItem key={abschnitt.id} value={abschnitt.id.toString()}>
+                      {abschnitt.bereich}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium">
+                Person <span className="text-red-500">*</span>
+              </Label>
+              <Select
+                value={wacheForm.person_id}
+                onValueChange={(value) => setWacheForm(prev => ({ ...prev, person_id: value }))}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Person wählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {persons.map((person) => (
+                    <SelectItem key={person.id} value={person.id.toString()}>
+                      {person.firstName} {person.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="schicht-beginn" className="text-sm font-medium">
+                  Beginn <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="schicht-beginn"
+                  type="datetime-local"
+                  value={wacheForm.schicht_beginn}
+                  onChange={(e) => setWacheForm(prev => ({ ...prev, schicht_beginn: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="schicht-ende" className="text-sm font-medium">
+                  Ende <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="schicht-ende"
+                  type="datetime-local"
+                  value={wacheForm.schicht_ende}
+                  onChange={(e) => setWacheForm(prev => ({ ...prev, schicht_ende: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="schicht-bemerkung" className="text-sm font-medium">
+                Bemerkung
+              </Label>
+              <Textarea
+                id="schicht-bemerkung"
+                value={wacheForm.bemerkung}
+                onChange={(e) => setWacheForm(prev => ({ ...prev, bemerkung: e.target.value }))}
+                placeholder="z.B. Nachtschicht"
+                rows={2}
+                className="mt-1 text-base resize-none"
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => setIsWacheDialogOpen(false)} className="order-2 sm:order-1">
+                Abbrechen
+              </Button>
+              <Button
+                onClick={() => saveWacheMutation.mutate()}
+                disabled={
+                  !wacheForm.deichabschnitt_id || !wacheForm.person_id ||
+                  !wacheForm.schicht_beginn || !wacheForm.schicht_ende || saveWacheMutation.isPending
+                }
+                className="order-1 sm:order-2"
+              >
+                Speichern
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog für neuen Deichabschnitt */}
+      <Dialog open={isAbschnittDialogOpen} onOpenChange={setIsAbschnittDialogOpen}>
+        <DialogContent className="max-w-md mx-4 max-h-[90vh] overflow-y-auto" aria-describedby="abschnitt-dialog-description">
+          <DialogHeader>
+            <DialogTitle className="text-lg">Neuer Deichabschnitt</DialogTitle>
+            <p id="abschnitt-dialog-description" className="text-sm text-gray-600">
+              Abschnitte werden über ihre Kilometrierung definiert
+            </p>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="abschnitt-bezeichnung" className="text-sm font-medium">
+                Bezeichnung <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="abschnitt-bezeichnung"
+                value={abschnittForm.bezeichnung}
+                onChange={(e) => setAbschnittForm(prev => ({ ...prev, bezeichnung: e.target.value }))}
+                placeholder="z.B. Deichabschnitt A"
+                className="mt-1 text-base"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="abschnitt-km-von" className="text-sm font-medium">km von</Label>
+                <Input
+                  id="abschnitt-km-von"
+                  value={abschnittForm.km_von}
+                  onChange={(e) => setAbschnittForm(prev => ({ ...prev, km_von: e.target.value }))}
+                  placeholder="0,0"
+                  className="mt-1 text-base"
+                />
+              </div>
+              <div>
+                <Label htmlFor="abschnitt-km-bis" className="text-sm font-medium">km bis</Label>
+                <Input
+                  id="abschnitt-km-bis"
+                  value={abschnittForm.km_bis}
+                  onChange={(e) => setAbschnittForm(prev => ({ ...prev, km_bis: e.target.value }))}
+                  placeholder="2,5"
+                  className="mt-1 text-base"
+                />
+              </div>
+              <div>
+                <Label htmlFor="abschnitt-besetzung" className="text-sm font-medium">Mind. Wachen</Label>
+                <Input
+                  id="abschnitt-besetzung"
+                  type="number"
+                  min={1}
+                  value={abschnittForm.mindest_besetzung}
+                  onChange={(e) => setAbschnittForm(prev => ({ ...prev, mindest_besetzung: e.target.value }))}
+                  className="mt-1 text-base"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => setIsAbschnittDialogOpen(false)} className="order-2 sm:order-1">
+                Abbrechen
+              </Button>
+              <Button
+                onClick={() => createAbschnittMutation.mutate()}
+                disabled={
+                  !abschnittForm.bezeichnung || !abschnittForm.km_von || !abschnittForm.km_bis ||
+                  createAbschnittMutation.isPending
+                }
+                className="order-1 sm:order-2"
+              >
+                Abschnitt anlegen
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,484 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
+import { Button } from "../../components/ui/button";
+import { Badge } from "../../components/ui/badge";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../../components/ui/dialog";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "../../components/ui/chart";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { AlertTriangle, Plus, RefreshCw, Trash2, Upload, Waves } from "lucide-react";
+
+const emptyPegelForm = {
+  bezeichnung: "",
+  pegelnummer: "",
+  gewaesser: "",
+  meldestufen: ["", "", "", ""],
+  quelle: "datei",
+  quelle_url: "",
+  abrufintervall_minuten: "15",
+  alarm_empfaenger: ""
+};
+
+// Farben der Meldestufen 0–4 nach Hochwassernachrichtendienst
+const MELDESTUFE_FARBEN = ["#16a34a", "#eab308", "#f97316", "#dc2626", "#7e22ce"];
+
+const chartConfig = {
+  wasserstand_cm: { label: "Wasserstand (cm)", color: "#2563eb" },
+} satisfies ChartConfig;
+
+const formatZeit = (value: string) =>
+  `${new Date(value).toLocaleDateString('de-DE')} ${new Date(value).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}`;
+
+const parseCm = (value: string) => (value.trim() ? parseInt(value) : null);
+
+export function PegelUebersicht() {
+  const { toast } = useToast();
+  const [selectedPegelId, setSelectedPegelId] = useState<number | null>(null);
+  const [isPegelDialogOpen, setIsPegelDialogOpen] = useState(false);
+  const [pegelForm, setPegelForm] = useState(emptyPegelForm);
+  const [ablesung, setAblesung] = useState("");
+
+  const { data: pegelListe = [] } = useQuery<any[]>({
+    queryKey: ["/api/flood/pegel"],
+    refetchInterval: 60000,
+  });
+
+  const { data: alarme = [] } = useQuery<any[]>({
+    queryKey: ["/api/flood/pegel/alarme"],
+  });
+
+  const selectedPegel = pegelListe.find((pegel) => pegel.id === selectedPegelId) ?? pegelListe[0];
+
+  const { data: messwerte = [] } = useQuery<any[]>({
+    queryKey: [`/api/flood/pegel/${selectedPegel?.id}/messwerte`],
+    enabled: !!selectedPegel,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/flood/pegel"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/flood/pegel/alarme"] });
+    if (selectedPegel) {
+      queryClient.invalidateQueries({ queryKey: [`/api/flood/pegel/${selectedPegel.id}/messwerte`] });
+    }
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const meldeAlarme = (neueAlarme: any[]) => {
+    if (neueAlarme.length > 0) {
+      toast({
+        title: "Meldestufe erreicht",
+        description: neueAlarme.map((alarm) => `Meldestufe ${alarm.meldestufe} bei ${alarm.wasserstand_cm} cm`).join(", "),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const createPegelMutation = useMutation({
+    mutationFn: async () => {
+      const [meldestufe1Cm, meldestufe2Cm, meldestufe3Cm, meldestufe4Cm] = pegelForm.meldestufen.map(parseCm);
+      const response = await apiRequest("POST", "/api/flood/pegel", {
+        bezeichnung: pegelForm.bezeichnung,
+        pegelnummer: pegelForm.pegelnummer,
+        gewaesser: pegelForm.gewaesser || null,
+        meldestufe1Cm,
+        meldestufe2Cm,
+        meldestufe3Cm,
+        meldestufe4Cm,
+        quelle: pegelForm.quelle,
+        quelleUrl: pegelForm.quelle === "http" ? pegelForm.quelle_url : null,
+        abrufintervallMinuten: parseInt(pegelForm.abrufintervall_minuten) || 15,
+        alarmEmpfaenger: pegelForm.alarm_empfaenger.split(/[,;\s]+/).filter(Boolean)
+      });
+      return response.json();
+    },
+    onSuccess: (pegel) => {
+      invalidate();
+      setSelectedPegelId(pegel.id);
+      setIsPegelDialogOpen(false);
+      setPegelForm(emptyPegelForm);
+    },
+    onError,
+  });
+
+  const deletePegelMutation = useMutation({
+    mutationFn: async (pegelId: number) => {
+      await apiRequest("DELETE", `/api/flood/pegel/${pegelId}`);
+    },
+    onSuccess: () => {
+      setSelectedPegelId(null);
+      invalidate();
+    },
+    onError,
+  });
+
+  const ablesungMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/flood/pegel/${selectedPegel.id}/messwerte`, {
+        wasserstandCm: parseInt(ablesung)
+      });
+      return response.json();
+    },
+    onSuccess: (ergebnis) => {
+      setAblesung("");
+      invalidate();
+      meldeAlarme(ergebnis.alarme);
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (datei: File) => {
+      const response = await apiRequest("POST", "/api/flood/pegel/import", {
+        daten: await datei.text(),
+        pegelnummer: selectedPegel?.pegelnummer
+      });
+      return response.json();
+    },
+    onSuccess: (ergebnis) => {
+      invalidate();
+      toast({
+        title: "Pegeldaten importiert",
+        description: `${ergebnis.gespeichert} von ${ergebnis.gelesen} Messwerten gespeichert${ergebnis.unbekannte_pegel.length > 0 ? `, unbekannte Pegel: ${ergebnis.unbekannte_pegel.join(", ")}` : ""}.`,
+      });
+      meldeAlarme(ergebnis.alarme);
+    },
+    onError,
+  });
+
+  const abrufMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/flood/pegel/abruf", {});
+      return response.json();
+    },
+    onSuccess: (ergebnis) => {
+      invalidate();
+      toast({
+        title: "Abruf abgeschlossen",
+        description: `${ergebnis.messwerte} neue Messwerte, ${ergebnis.alarme} Alarme, ${ergebnis.fehler} Fehler.`,
+      });
+    },
+    onError,
+  });
+
+  const handleDeletePegel = (pegel: any) => {
+    if (window.confirm(`Möchten Sie den Pegel ${pegel.bezeichnung} mit allen Messwerten wirklich löschen?`)) {
+      deletePegelMutation.mutate(pegel.id);
+    }
+  };
+
+  const chartDaten = messwerte.map((messwert) => ({
+    zeit: new Date(messwert.gemessen_am).getTime(),
+    wasserstand_cm: messwert.wasserstand_cm
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" onClick={() => abrufMutation.mutate()} disabled={abrufMutation.isPending}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Jetzt abrufen
+        </Button>
+        <Button variant="outline" asChild disabled={importMutation.isPending}>
+          <label className="cursor-pointer">
+            <Upload className="h-4 w-4 mr-2" />
+            CSV/JSON importieren
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const datei = e.target.files?.[0];
+                if (datei) importMutation.mutate(datei);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </Button>
+        <Button onClick={() => setIsPegelDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Neuer Pegel
+        </Button>
+      </div>
+
+      {pegelListe.length === 0 && (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-500">
+            Noch keine Pegel angelegt.
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {pegelListe.map((pegel) => (
+          <Card
+            key={pegel.id}
+            className={`cursor-pointer hover:shadow-md transition-shadow ${selectedPegel?.id === pegel.id ? "ring-2 ring-blue-500" : ""}`}
+            onClick={() => setSelectedPegelId(pegel.id)}
+          >
+            <CardHeader className="pb-2">
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="text-lg">{pegel.bezeichnung}</CardTitle>
+                  <p className="text-sm text-gray-600">{pegel.gewaesser} • Nr. {pegel.pegelnummer}</p>
+                </div>
+                <Badge style={{ backgroundColor: MELDESTUFE_FARBEN[pegel.aktuelle_meldestufe], color: "white" }}>
+                  {pegel.aktuelle_meldestufe > 0 ? `Meldestufe ${pegel.aktuelle_meldestufe}` : "Normal"}
+                </Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Wasserstand</span>
+                <span className="font-medium">{pegel.wasserstand_cm !== null ? `${pegel.wasserstand_cm} cm` : "–"}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Gemessen</span>
+                <span>{pegel.gemessen_am ? formatZeit(pegel.gemessen_am) : "–"}</span>
+              </div>
+              {pegel.letzter_abruf_fehler && (
+                <p className="text-red-600 flex items-center">
+                  <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                  {pegel.letzter_abruf_fehler}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {selectedPegel && (
+        <Card>
+          <CardHeader className="pb-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-base flex items-center">
+                <Waves className="h-4 w-4 mr-2 text-blue-600" />
+                Ganglinie {selectedPegel.bezeichnung} (7 Tage)
+              </CardTitle>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  value={ablesung}
+                  onChange={(e) => setAblesung(e.target.value)}
+                  placeholder="Ablesung cm"
+                  className="w-32"
+                />
+                <Button size="sm" onClick={() => ablesungMutation.mutate()} disabled={!ablesung || ablesungMutation.isPending}>
+                  Erfassen
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => handleDeletePegel(selectedPegel)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {chartDaten.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-8">Keine Messwerte im Zeitraum.</p>
+            ) : (
+              <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                <LineChart data={chartDaten}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="zeit"
+                    type="number"
+                    scale="time"
+                    domain={["dataMin", "dataMax"]}
+                    tickFormatter={(zeit) => new Date(zeit).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' })}
+                  />
+                  <YAxis width={40} domain={["auto", "auto"]} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatZeit(payload?.[0]?.payload.zeit)} />} />
+                  {selectedPegel.meldestufen_cm.map((cm: number | null, index: number) => cm !== null && (
+                    <ReferenceLine
+                      key={index}
+                      y={cm}
+                      stroke={MELDESTUFE_FARBEN[index + 1]}
+                      strokeDasharray="4 4"
+                      label={{ value: `MS ${index + 1}`, position: "insideTopRight", fontSize: 10 }}
+                    />
+                  ))}
+                  <Line dataKey="wasserstand_cm" stroke="var(--color-wasserstand_cm)" dot={false} strokeWidth={2} />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {alarme.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Letzte Alarme</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            {alarme.slice(0, 10).map((alarm) => (
+              <p key={alarm.id}>
+                <strong>{pegelListe.find((pegel) => pegel.id === alarm.pegel_id)?.bezeichnung}</strong>:{" "}
+                Meldestufe {alarm.meldestufe} bei {alarm.wasserstand_cm} cm ({formatZeit(alarm.gemessen_am)})
+                {alarm.benachrichtigt > 0 && ` • ${alarm.benachrichtigt} benachrichtigt`}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dialog für neuen Pegel */}
+      <Dialog open={isPegelDialogOpen} onOpenChange={setIsPegelDialogOpen}>
+        <DialogContent className="max-w-md mx-4 max-h-[90vh] overflow-y-auto" aria-describedby="pegel-dialog-description">
+          <DialogHeader>
+            <DialogTitle className="text-lg">Neuer Pegel</DialogTitle>
+            <p id="pegel-dialog-description" className="text-sm text-gray-600">
+              Beim Überschreiten einer Meldestufe wird automatisch eine Hochwasser-Checkliste angelegt
+            </p>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="pegel-bezeichnung" className="text-sm font-medium">
+                  Bezeichnung <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="pegel-bezeichnung"
+                  value={pegelForm.bezeichnung}
+                  onChange={(e) => setPegelForm(prev => ({ ...prev, bezeichnung: e.target.value }))}
+                  placeholder="z.B. Steinbach"
+                  className="mt-1 text-base"
+                />
+              </div>
+              <div>
+                <Label htmlFor="pegel-nummer" className="text-sm font-medium">
+                  Pegelnummer <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="pegel-nummer"
+                  value={pegelForm.pegelnummer}
+                  onChange={(e) => setPegelForm(prev => ({ ...prev, pegelnummer: e.target.value }))}
+                  placeholder="z.B. 24211005"
+                  className="mt-1 text-base"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="pegel-gewaesser" className="text-sm font-medium">Gewässer</Label>
+              <Input
+                id="pegel-gewaesser"
+                value={pegelForm.gewaesser}
+                onChange={(e) => setPegelForm(prev => ({ ...prev, gewaesser: e.target.value }))}
+                placeholder="z.B. Main"
+                className="mt-1 text-base"
+              />
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              {pegelForm.meldestufen.map((wert, index) => (
+                <div key={index}>
+                  <Label htmlFor={`pegel-ms${index + 1}`} className="text-sm font-medium">MS {index + 1} (cm)</Label>
+                  <Input
+                    id={`pegel-ms${index + 1}`}
+                    type="number"
+                    value={wert}
+                    onChange={(e) => setPegelForm(prev => ({
+                      ...prev,
+                      meldestufen: prev.meldestufen.map((alt, i) => (i === index ? e.target.value : alt))
+                    }))}
+                    className="mt-1 text-base"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm font-medium">Datenquelle</Label>
+                <Select
+                  value={pegelForm.quelle}
+                  onValueChange={(value) => setPegelForm(prev => ({ ...prev, quelle: value }))}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="datei">Dateiablage / Import</SelectItem>
+                    <SelectItem value="http">HTTP-Abruf</SelectItem>
+                    <SelectItem value="manuell">Manuelle Ablesung</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="pegel-intervall" className="text-sm font-medium">Intervall (min)</Label>
+                <Input
+                  id="pegel-intervall"
+                  type="number"
+                  min={1}
+                  value={pegelForm.abrufintervall_minuten}
+                  onChange={(e) => setPegelForm(prev => ({ ...prev, abrufintervall_minuten: e.target.value }))}
+                  disabled={pegelForm.quelle !== "http"}
+                  className="mt-1 text-base"
+                />
+              </div>
+            </div>
+
+            {pegelForm.quelle === "http" && (
+              <div>
+                <Label htmlFor="pegel-url" className="text-sm font-medium">
+                  Quell-URL <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="pegel-url"
+                  value={pegelForm.quelle_url}
+                  onChange={(e) => setPegelForm(prev => ({ ...prev, quelle_url: e.target.value }))}
+                  placeholder="https://..."
+                  className="mt-1 text-base"
+                />
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="pegel-empfaenger" className="text-sm font-medium">Alarm-Empfänger (E-Mail)</Label>
+              <Input
+                id="pegel-empfaenger"
+                value={pegelForm.alarm_empfaenger}
+                onChange={(e) => setPegelForm(prev => ({ ...prev, alarm_empfaenger: e.target.value }))}
+                placeholder="einsatzleitung@example.de, bauhof@example.de"
+                className="mt-1 text-base"
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => setIsPegelDialogOpen(false)} className="order-2 sm:order-1">
+                Abbrechen
+              </Button>
+              <Button
+                onClick={() => createPegelMutation.mutate()}
+                disabled={
+                  !pegelForm.bezeichnung || !pegelForm.pegelnummer ||
+                  (pegelForm.quelle === "http" && !pegelForm.quelle_url) || createPegelMutation.isPending
+                }
+                className="order-1 sm:order-2"
+              >
+                Pegel anlegen
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
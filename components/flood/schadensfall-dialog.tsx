@@ -0,0 +1,332 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "../../components/ui/button";
+import { Badge } from "../../components/ui/badge";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { Textarea } from "../../components/ui/textarea";
+import { Checkbox } from "../../components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../../components/ui/dialog";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { Camera, CheckCircle, Clock, MessageSquare, RotateCcw, Save } from "lucide-react";
+import type { Person, Photo } from "../../shared/schema";
+
+// Nächste Schritte im Schadensfall-Workflow (gemeldet → in Bearbeitung → behoben → geprüft)
+const NEXT_STATUS: Record<string, { status: string; label: string }[]> = {
+  gemeldet: [{ status: "in_bearbeitung", label: "Bearbeitung beginnen" }],
+  in_bearbeitung: [{ status: "behoben", label: "Als behoben melden" }],
+  behoben: [
+    { status: "geprueft", label: "Prüfung bestätigen" },
+    { status: "in_bearbeitung", label: "Zurückweisen" },
+  ],
+  geprueft: [],
+};
+
+export const getSchadensfallStatusColor = (status: string) => {
+  switch (status) {
+    case "gemeldet": return "bg-blue-500";
+    case "in_bearbeitung": return "bg-orange-500";
+    case "behoben": return "bg-green-500";
+    case "geprueft": return "bg-gray-700";
+    default: return "bg-gray-500";
+  }
+};
+
+interface SchadensfallDialogProps {
+  schadensfallId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SchadensfallDialog({ schadensfallId, onOpenChange }: SchadensfallDialogProps) {
+  const { toast } = useToast();
+  const [kommentar, setKommentar] = useState("");
+  const [form, setForm] = useState({
+    prioritaet: "3",
+    zugewiesen_an: "",
+    massnahme: "",
+    foto_ids_vorher: [] as number[],
+    foto_ids_nachher: [] as number[],
+  });
+
+  const { data: schadensfall, isLoading } = useQuery<any>({
+    queryKey: [`/api/flood/schadensfaelle/${schadensfallId}`],
+    enabled: schadensfallId !== null,
+  });
+
+  const { data: persons = [] } = useQuery<Person[]>({
+    queryKey: ["/api/persons"],
+    enabled: schadensfallId !== null,
+  });
+
+  const { data: photos = [] } = useQuery<Photo[]>({
+    queryKey: ["/api/photos"],
+    enabled: schadensfallId !== null,
+  });
+
+  useEffect(() => {
+    if (schadensfall) {
+      setForm({
+        prioritaet: schadensfall.prioritaet.toString(),
+        zugewiesen_an: schadensfall.zugewiesen_an_id ? schadensfall.zugewiesen_an_id.toString() : "",
+        massnahme: schadensfall.massnahme || "",
+        foto_ids_vorher: schadensfall.foto_ids_vorher,
+        foto_ids_nachher: schadensfall.foto_ids_nachher,
+      });
+    }
+  }, [schadensfall]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/flood/schadensfaelle"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/flood/schadensfaelle/${schadensfallId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/flood/schadensfaelle/${schadensfallId}`, {
+        prioritaet: parseInt(form.prioritaet),
+        zugewiesen_an: form.zugewiesen_an ? parseInt(form.zugewiesen_an) : null,
+        massnahme: form.massnahme,
+        foto_ids_vorher: form.foto_ids_vorher,
+        foto_ids_nachher: form.foto_ids_nachher,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Gespeichert", description: "Der Schadensfall wurde aktualisiert." });
+    },
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: string) => {
+      const response = await apiRequest("POST", `/api/flood/schadensfaelle/${schadensfallId}/status`, {
+        status,
+        kommentar: kommentar || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setKommentar("");
+      invalidate();
+      toast({ title: "Status geändert", description: `Neuer Status: ${data.status_text}` });
+    },
+    onError,
+  });
+
+  const kommentarMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/flood/schadensfaelle/${schadensfallId}/kommentare`, {
+        text: kommentar,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setKommentar("");
+      invalidate();
+    },
+    onError,
+  });
+
+  const toggleFoto = (key: "foto_ids_vorher" | "foto_ids_nachher", fotoId: number) => {
+    setForm((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(fotoId) ? prev[key].filter((id) => id !== fotoId) : [...prev[key], fotoId],
+    }));
+  };
+
+  const isLocked = schadensfall?.status === "geprueft";
+
+  const renderFotoAuswahl = (key: "foto_ids_vorher" | "foto_ids_nachher", label: string) => (
+    <div>
+      <Label className="text-sm font-medium flex items-center">
+        <Camera className="h-4 w-4 mr-1" />
+        {label}
+      </Label>
+      {photos.length === 0 ? (
+        <p className="text-xs text-gray-500 mt-1">Keine Fotos vorhanden</p>
+      ) : (
+        <div className="mt-1 max-h-32 overflow-y-auto space-y-1 border rounded p-2">
+          {photos.map((photo) => (
+            <div key={photo.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${key}-${photo.id}`}
+                checked={form[key].includes(photo.id)}
+                disabled={isLocked}
+                onCheckedChange={() => toggleFoto(key, photo.id)}
+              />
+              <label htmlFor={`${key}-${photo.id}`} className="text-sm">
+                {photo.description || photo.fileName}
+              </label>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={schadensfallId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg mx-4 max-h-[90vh] overflow-y-auto" aria-describedby="schadensfall-dialog-description">
+        <DialogHeader>
+          <DialogTitle className="text-lg">
+            {schadensfall ? schadensfall.problem_beschreibung : "Schadensfall"}
+          </DialogTitle>
+          <p id="schadensfall-dialog-description" className="text-sm text-gray-600">
+            {schadensfall && (
+              <>
+                {schadensfall.absperrschieber_nummer && `Schieber Nr. ${schadensfall.absperrschieber_nummer} • `}
+                Gemeldet am {new Date(schadensfall.gemeldet_am).toLocaleDateString('de-DE')} von {schadensfall.gemeldet_von}
+              </>
+            )}
+          </p>
+        </DialogHeader>
+
+        {isLoading || !schadensfall ? (
+          <div className="py-8 text-center text-gray-500">Lädt...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Badge className={`${getSchadensfallStatusColor(schadensfall.status)} text-white`}>
+                {schadensfall.status_text}
+              </Badge>
+              <div className="flex gap-2">
+                {(NEXT_STATUS[schadensfall.status] || []).map((next) => (
+                  <Button
+                    key={next.status}
+                    size="sm"
+                    variant={next.status === "in_bearbeitung" && schadensfall.status === "behoben" ? "outline" : "default"}
+                    onClick={() => statusMutation.mutate(next.status)}
+                    disabled={statusMutation.isPending}
+                  >
+                    {next.status === "in_bearbeitung" && schadensfall.status === "behoben" ? (
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                    ) : (
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                    )}
+                    {next.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm font-medium">Priorität</Label>
+                <Select
+                  value={form.prioritaet}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, prioritaet: value }))}
+                  disabled={isLocked}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5].map((stufe) => (
+                      <SelectItem key={stufe} value={stufe.toString()}>Priorität {stufe}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Zuständig</Label>
+                <Select
+                  value={form.zugewiesen_an}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, zugewiesen_an: value }))}
+                  disabled={isLocked}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Person wählen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {persons.map((person) => (
+                      <SelectItem key={person.id} value={person.id.toString()}>
+                        {person.firstName} {person.lastName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="schaden-massnahme" className="text-sm font-medium">
+                Ergriffene Maßnahmen
+              </Label>
+              <Textarea
+                id="schaden-massnahme"
+                value={form.massnahme}
+                onChange={(e) => setForm((prev) => ({ ...prev, massnahme: e.target.value }))}
+                rows={3}
+                className="mt-1 text-base resize-none"
+                disabled={isLocked}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderFotoAuswahl("foto_ids_vorher", "Fotos vorher")}
+              {renderFotoAuswahl("foto_ids_nachher", "Fotos nachher")}
+            </div>
+
+            {!isLocked && (
+              <div className="flex justify-end">
+                <Button onClick={() => updateMutation.mutate()} disabled={updateMutation.isPending}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Speichern
+                </Button>
+              </div>
+            )}
+
+            <div className="border-t pt-4">
+              <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+                <Clock className="h-4 w-4 mr-1" />
+                Verlauf
+              </h4>
+              <ul className="space-y-2">
+                {schadensfall.verlauf.map((ereignis: any) => (
+                  <li key={ereignis.id} className="text-sm border-l-2 border-gray-200 pl-3">
+                    <div className="text-xs text-gray-500">
+                      {new Date(ereignis.zeitpunkt).toLocaleString('de-DE')}
+                      {ereignis.benutzer && ` • ${ereignis.benutzer}`}
+                    </div>
+                    <div className="text-gray-700">
+                      {ereignis.typ === "status" && ereignis.von_status
+                        ? `Status geändert: ${ereignis.von_status} → ${ereignis.nach_status}`
+                        : ereignis.text}
+                      {ereignis.typ === "status" && ereignis.von_status && ereignis.text && ` – ${ereignis.text}`}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex gap-2 mt-3">
+                <Input
+                  value={kommentar}
+                  onChange={(e) => setKommentar(e.target.value)}
+                  placeholder="Kommentar hinzufügen..."
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => kommentarMutation.mutate()}
+                  disabled={!kommentar.trim() || kommentarMutation.isPending}
+                >
+                  <MessageSquare className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
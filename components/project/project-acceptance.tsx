@@ -0,0 +1,120 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { FileSignature, Lock, Plus } from "lucide-react";
+import type { AcceptanceProtocol } from "../../shared/schema";
+
+export const ACCEPTANCE_RESULTS = [
+  { value: "accepted", label: "Abnahme ohne Vorbehalt" },
+  { value: "accepted_with_reservations", label: "Abnahme unter Vorbehalt der Mängelbeseitigung" },
+  { value: "refused", label: "Abnahme verweigert" },
+];
+
+export const getAcceptanceResultLabel = (result: string) => ACCEPTANCE_RESULTS.find((option) => option.value === result)?.label || result;
+
+export type AcceptanceProtocolListItem = Omit<AcceptanceProtocol, "customerSignature" | "contractorSignature"> & {
+  hasCustomerSignature: boolean;
+  hasContractorSignature: boolean;
+};
+
+interface ProjectAcceptanceProps {
+  projectId: number;
+  canManage: boolean;
+}
+
+/**
+ * Abnahme: Protokoll aus offenen Mängeln und Prüfergebnissen, Unterschriften von Auftraggeber und Auftragnehmer
+ */
+export function ProjectAcceptance({ projectId, canManage }: ProjectAcceptanceProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const protocolsKey = [`/api/projects/${projectId}/acceptance`];
+
+  const { data: protocols = [], isLoading } = useQuery<AcceptanceProtocolListItem[]>({
+    queryKey: protocolsKey,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/acceptance`, {});
+      return response.json();
+    },
+    onSuccess: (protocol: AcceptanceProtocolListItem) => {
+      queryClient.invalidateQueries({ queryKey: protocolsKey });
+      setLocation(`/projects/${projectId}/acceptance/${protocol.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Das Abnahmeprotokoll konnte nicht angelegt werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const draft = protocols.find((protocol) => protocol.status === "draft");
+  const accepted = protocols.find((protocol) => protocol.status === "signed" && protocol.result !== "refused");
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+            <FileSignature className="h-4 w-4 text-green-600" />
+            Abnahme
+          </h3>
+          {canManage && !accepted && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => (draft ? setLocation(`/projects/${projectId}/acceptance/${draft.id}`) : createMutation.mutate())}
+              disabled={createMutation.isPending}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              {draft ? "Entwurf fortsetzen" : "Abnahme vorbereiten"}
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Lade Abnahmeprotokolle...</p>
+        ) : protocols.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Noch keine Abnahme. Das Projekt kann erst nach unterzeichnetem Abnahmeprotokoll abgeschlossen werden.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {protocols.map((protocol) => (
+              <button
+                key={protocol.id}
+                type="button"
+                className="flex w-full items-center gap-3 rounded-lg border border-gray-200 p-3 text-left hover:bg-gray-50"
+                onClick={() => setLocation(`/projects/${projectId}/acceptance/${protocol.id}`)}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{getAcceptanceResultLabel(protocol.result)}</p>
+                  <p className="text-xs text-gray-600">
+                    Abnahmetermin {new Date(`${protocol.acceptanceDate}T00:00:00`).toLocaleDateString("de-DE")}
+                    {` · ${protocol.snapshot.defects.length} vorbehaltene Mängel`}
+                  </p>
+                </div>
+                {protocol.status === "signed" ? (
+                  <Badge className="bg-green-600 text-white">
+                    <Lock className="h-3 w-3 mr-1" />
+                    Unterzeichnet
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">Entwurf</Badge>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Progress } from "../ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "../ui/chart";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { AlertTriangle, Euro, Pencil, Plus, Save, Trash2 } from "lucide-react";
+import type { Company, ProjectCostWithCompany } from "../../shared/schema";
+
+const COST_CATEGORIES = [
+  { value: "material", label: "Material" },
+  { value: "labor", label: "Lohn" },
+  { value: "subcontractor", label: "Nachunternehmer" },
+  { value: "equipment", label: "Geräte" },
+  { value: "fees", label: "Gebühren" },
+  { value: "other", label: "Sonstiges" },
+];
+
+const getCategoryLabel = (category: string) => COST_CATEGORIES.find((option) => option.value === category)?.label || category;
+
+type BudgetSummary = {
+  budget: number | null;
+  committed: number;
+  actual: number;
+  remaining: number | null;
+  usedPercent: number | null;
+  burnRatePerDay: number;
+  forecastAtCompletion: number | null;
+  budgetExhaustedAt: string | null;
+  isOverBudget: boolean;
+  isForecastOverBudget: boolean;
+  byCategory: { category: string; committed: number; actual: number }[];
+  warnings: { level: "warning" | "critical"; message: string }[];
+};
+
+type CostDraft = {
+  id: number | null;
+  category: string;
+  status: string;
+  companyId: string;
+  description: string;
+  invoiceNumber: string;
+  amount: string;
+  costDate: string;
+};
+
+const chartConfig = {
+  actual: { label: "Ist-Kosten", color: "#16a34a" },
+  committed: { label: "Obligo", color: "#f97316" },
+} satisfies ChartConfig;
+
+const formatEuro = (value: number | null) =>
+  value === null ? "–" : value.toLocaleString("de-DE", { style: "currency", currency: "EUR" });
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Deutsche Eingabe wie "1.234,56" in "1234.56" umwandeln
+const normalizeAmount = (value: string) =>
+  value.includes(",") ? value.replace(/\./g, "").replace(",", ".") : value;
+
+interface ProjectBudgetProps {
+  projectId: number;
+  canManage: boolean;
+}
+
+/**
+ * Budgetverfolgung: Budget, Obligo und Ist-Kosten, Prognose nach Mittelabfluss, Warnungen und Kosten nach Kategorie
+ */
+export function ProjectBudget({ projectId, canManage }: ProjectBudgetProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CostDraft | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const costsKey = [`/api/projects/${projectId}/costs`];
+
+  const { data, isLoading } = useQuery<{ costs: ProjectCostWithCompany[]; summary: BudgetSummary }>({
+    queryKey: costsKey,
+  });
+
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+    enabled: draft !== null,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: costsKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (cost: CostDraft) => {
+      const payload = {
+        category: cost.category,
+        status: cost.status,
+        companyId: cost.companyId ? parseInt(cost.companyId) : null,
+        description: cost.description.trim() || null,
+        invoiceNumber: cost.invoiceNumber.trim() || null,
+        amount: normalizeAmount(cost.amount.trim()),
+        costDate: cost.costDate,
+      };
+      const response = cost.id
+        ? await apiRequest("PATCH", `/api/projects/${projectId}/costs/${cost.id}`, payload)
+        : await apiRequest("POST", `/api/projects/${projectId}/costs`, payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setDraft(null);
+      toast({ title: "Kosten gespeichert" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (costId: number) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/costs/${costId}`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const openCost = (cost: ProjectCostWithCompany) =>
+    setDraft({
+      id: cost.id,
+      category: cost.category,
+      status: cost.status,
+      companyId: cost.companyId?.toString() ?? "",
+      description: cost.description || "",
+      invoiceNumber: cost.invoiceNumber || "",
+      amount: Number(cost.amount).toLocaleString("de-DE", { minimumFractionDigits: 2 }),
+      costDate: cost.costDate,
+    });
+
+  const summary = data?.summary;
+  const costs = data?.costs || [];
+  const visibleCosts = showAll ? costs : costs.slice(0, 5);
+  const chartData = (summary?.byCategory || []).map((row) => ({ ...row, label: getCategoryLabel(row.category) }));
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+            <Euro className="h-4 w-4 text-green-600" />
+            Budget und Kosten
+          </h3>
+          {canManage && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setDraft({ id: null, category: "material", status: "actual", companyId: "", description: "", invoiceNumber: "", amount: "", costDate: today() })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Kosten
+            </Button>
+          )}
+        </div>
+
+        {isLoading || !summary ? (
+          <p className="text-sm text-gray-500">Lade Kosten...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs text-gray-600 uppercase tracking-wide mb-1">Budget</p>
+                <p className="font-semibold text-gray-900">{summary.budget === null ? "Nicht festgelegt" : formatEuro(summary.budget)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600 uppercase tracking-wide mb-1">Ist-Kosten</p>
+                <p className="font-semibold text-gray-900">{formatEuro(summary.actual)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600 uppercase tracking-wide mb-1">Obligo</p>
+                <p className="font-semibold text-gray-900">{formatEuro(summary.committed)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600 uppercase tracking-wide mb-1">Verfügbar</p>
+                <p className={`font-semibold ${summary.remaining !== null && summary.remaining < 0 ? "text-red-600" : "text-gray-900"}`}>
+                  {formatEuro(summary.remaining)}
+                </p>
+              </div>
+            </div>
+
+            {summary.usedPercent !== null && (
+              <div>
+                <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+                  <span>Gebunden (Ist + Obligo)</span>
+                  <span>{summary.usedPercent}%</span>
+                </div>
+                <Progress value={Math.min(summary.usedPercent, 100)} className={`h-3 ${summary.isOverBudget ? "[&>div]:bg-red-500" : ""}`} />
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Mittelabfluss {formatEuro(summary.burnRatePerDay)} pro Tag
+              {summary.forecastAtCompletion !== null && ` · Prognose zum Bauende ${formatEuro(summary.forecastAtCompletion)}`}
+              {summary.forecastAtCompletion === null && " · Für eine Prognose wird ein Enddatum des Projekts benötigt"}
+            </p>
+
+            {summary.warnings.length > 0 && (
+              <ul className="space-y-1">
+                {summary.warnings.map((warning) => (
+                  <li
+                    key={warning.message}
+                    className={`flex items-start gap-2 rounded p-2 text-sm ${warning.level === "critical" ? "bg-red-50 text-red-800" : "bg-orange-50 text-orange-800"}`}
+                  >
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    {warning.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {chartData.length > 0 && (
+              <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} fontSize={10} />
+                  <YAxis width={60} tickFormatter={(value) => `${(Number(value) / 1000).toLocaleString("de-DE")} T€`} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label}: ${formatEuro(Number(value))}`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="actual" stackId="kosten" fill="var(--color-actual)" />
+                  <Bar dataKey="committed" stackId="kosten" fill="var(--color-committed)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            )}
+
+            {costs.length === 0 ? (
+              <p className="text-sm text-gray-500">Noch keine Kosten erfasst.</p>
+            ) : (
+              <div className="space-y-2">
+                {visibleCosts.map((cost) => (
+                  <div key={cost.id} className="flex items-center gap-3 rounded-lg border border-gray-200 p-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {cost.description || getCategoryLabel(cost.category)}
+                      </p>
+                      <p className="text-xs text-gray-600 truncate">
+                        {new Date(`${cost.costDate}T00:00:00`).toLocaleDateString("de-DE")} · {getCategoryLabel(cost.category)}
+                        {cost.companyName && ` · ${cost.companyName}`}
+                        {cost.invoiceNumber && ` · Re.-Nr. ${cost.invoiceNumber}`}
+                      </p>
+                    </div>
+                    {cost.status === "committed" && <Badge className="bg-orange-500 text-white">Obligo</Badge>}
+                    <span className="text-sm font-semibold text-gray-900 whitespace-nowrap">{formatEuro(Number(cost.amount))}</span>
+                    {canManage && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => openCost(cost)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(cost.id)} disabled={deleteMutation.isPending}>
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))}
+                {costs.length > 5 && (
+                  <Button variant="link" size="sm" className="text-green-600 p-0" onClick={() => setShowAll(!showAll)}>
+                    {showAll ? "Weniger anzeigen" : `Alle ${costs.length} Kostenpositionen anzeigen`}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Kosten bearbeiten" : "Kosten erfassen"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Kategorie</Label>
+                  <Select value={draft.category} onValueChange={(category) => setDraft({ ...draft, category })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COST_CATEGORIES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Art</Label>
+                  <Select value={draft.status} onValueChange={(status) => setDraft({ ...draft, status })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="actual">Ist-Kosten (Rechnung)</SelectItem>
+                      <SelectItem value="committed">Obligo (Auftrag)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Firma</Label>
+                <Select value={draft.companyId || "none"} onValueChange={(companyId) => setDraft({ ...draft, companyId: companyId === "none" ? "" : companyId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Keine Firma</SelectItem>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id.toString()}>{company.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Beschreibung</Label>
+                <Input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="z.B. Betonrohre DN 300" />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label>Betrag (€)</Label>
+                  <Input inputMode="decimal" value={draft.amount} onChange={(e) => setDraft({ ...draft, amount: e.target.value })} placeholder="0,00" />
+                </div>
+                <div>
+                  <Label>Datum</Label>
+                  <Input type="date" value={draft.costDate} onChange={(e) => setDraft({ ...draft, costDate: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Rechnungs-Nr.</Label>
+                  <Input value={draft.invoiceNumber} onChange={(e) => setDraft({ ...draft, invoiceNumber: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setDraft(null)}>
+                  Abbrechen
+                </Button>
+                <Button onClick={() => saveMutation.mutate(draft)} disabled={!draft.amount.trim() || !draft.costDate || saveMutation.isPending}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Speichern
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -6,8 +6,11 @@ import { Calendar, Euro, ChevronRight, Users } from "lucide-react";
 import { Link } from "wouter";
 import type { Project } from "../../shared/schema";
 
+// GET /api/projects liefert zusätzlich Terminverzug (Bauzeitenplan) und Budgetüberschreitung (Kosten)
+export type ProjectListItem = Project & { isDelayed?: boolean; delayDays?: number; isOverBudget?: boolean };
+
 interface ProjectCardProps {
-  project: Project;
+  project: ProjectListItem;
 }
 
 export function ProjectCard({ project }: ProjectCardProps) {
@@ -38,9 +41,21 @@ export function ProjectCard({ project }: ProjectCardProps) {
             <h3 className="font-medium text-gray-900 text-sm mb-1 line-clamp-1">{project.name}</h3>
             <p className="text-xs text-gray-500">Projekt-ID: {project.id}</p>
           </div>
-          <Badge className={`${getStatusColor(project.status)} text-white text-xs px-2 py-1`}>
-            {getStatusLabel(project.status)}
-          </Badge>
+          <div className="flex flex-col items-end gap-1">
+            <Badge className={`${getStatusColor(project.status)} text-white text-xs px-2 py-1`}>
+              {getStatusLabel(project.status)}
+            </Badge>
+            {project.isDelayed && (
+              <Badge className="bg-red-500 text-white text-xs px-2 py-1">
+                Verzug {project.delayDays} Tg.
+              </Badge>
+            )}
+            {project.isOverBudget && (
+              <Badge className="bg-red-500 text-white text-xs px-2 py-1">
+                Budget überschritten
+              </Badge>
+            )}
+          </div>
         </div>
         
         <div className="flex items-center justify-between">
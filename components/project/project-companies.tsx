@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { HardHat, Pencil, Plus, Save, Trash2 } from "lucide-react";
+import type { Company, Person, ProjectCompanyWithDetails } from "../../shared/schema";
+
+// Häufige Gewerke im Tiefbau als Vorschläge, freie Eingabe bleibt möglich
+const TRADE_SUGGESTIONS = ["Erdbau", "Kanalbau", "Rohrleitungsbau", "Straßenbau", "Elektro", "Vermessung", "Verbau", "Asphalt"];
+
+type ProjectCompanySummary = { companies: number; onSite: number; contractValue: string };
+
+type AssignmentDraft = {
+  id: number | null;
+  companyId: string;
+  trade: string;
+  contractValue: string;
+  contactPersonId: string;
+  startDate: string;
+  endDate: string;
+  notes: string;
+};
+
+export const formatEuro = (value: string | number | null) =>
+  value === null ? "–" : Number(value).toLocaleString("de-DE", { style: "currency", currency: "EUR" });
+
+export const formatPeriod = (startDate: string | null, endDate: string | null) => {
+  const format = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString("de-DE");
+  if (!startDate && !endDate) return "Einsatz noch nicht terminiert";
+  if (!endDate) return `ab ${format(startDate!)}`;
+  if (!startDate) return `bis ${format(endDate)}`;
+  return `${format(startDate)} – ${format(endDate)}`;
+};
+
+// Deutsche Eingabe wie "1.234,56" in "1234.56" umwandeln
+const normalizeAmount = (value: string) =>
+  value.includes(",") ? value.replace(/\./g, "").replace(",", ".") : value;
+
+interface ProjectCompaniesProps {
+  projectId: number;
+  canManage: boolean;
+}
+
+/**
+ * Nachunternehmer: beauftragte Firmen mit Gewerk, Auftragswert, Ansprechpartner und Einsatzzeitraum
+ */
+export function ProjectCompanies({ projectId, canManage }: ProjectCompaniesProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AssignmentDraft | null>(null);
+  const companiesKey = [`/api/projects/${projectId}/companies`];
+
+  const { data, isLoading } = useQuery<{ assignments: (ProjectCompanyWithDetails & { isOnSite: boolean })[]; summary: ProjectCompanySummary }>({
+    queryKey: companiesKey,
+  });
+
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+    enabled: draft !== null,
+  });
+
+  const { data: persons = [] } = useQuery<Person[]>({
+    queryKey: ["/api/persons"],
+    enabled: draft !== null,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = (companyId?: number) => {
+    queryClient.invalidateQueries({ queryKey: companiesKey });
+    if (companyId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/companies/${companyId}/projects`] });
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (assignment: AssignmentDraft) => {
+      const payload = {
+        companyId: parseInt(assignment.companyId),
+        trade: assignment.trade.trim(),
+        contractValue: assignment.contractValue.trim() ? normalizeAmount(assignment.contractValue.trim()) : null,
+        contactPersonId: assignment.contactPersonId ? parseInt(assignment.contactPersonId) : null,
+        startDate: assignment.startDate || null,
+        endDate: assignment.endDate || null,
+        notes: assignment.notes.trim() || null,
+      };
+      const response = assignment.id
+        ? await apiRequest("PATCH", `/api/projects/${projectId}/companies/${assignment.id}`, payload)
+        : await apiRequest("POST", `/api/projects/${projectId}/companies`, payload);
+      return response.json();
+    },
+    onSuccess: (assignment: ProjectCompanyWithDetails) => {
+      refresh(assignment.companyId);
+      setDraft(null);
+      toast({ title: "Firma zugeordnet" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (assignment: ProjectCompanyWithDetails) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/companies/${assignment.id}`);
+      return assignment;
+    },
+    onSuccess: (assignment) => refresh(assignment.companyId),
+    onError,
+  });
+
+  const openAssignment = (assignment: ProjectCompanyWithDetails) =>
+    setDraft({
+      id: assignment.id,
+      companyId: assignment.companyId.toString(),
+      trade: assignment.trade,
+      contractValue: assignment.contractValue ? Number(assignment.contractValue).toLocaleString("de-DE", { minimumFractionDigits: 2 }) : "",
+      contactPersonId: assignment.contactPersonId?.toString() ?? "",
+      startDate: assignment.startDate || "",
+      endDate: assignment.endDate || "",
+      notes: assignment.notes || "",
+    });
+
+  const assignments = data?.assignments || [];
+  const summary = data?.summary;
+  // Ansprechpartner der gewählten Firma sowie Personen ohne Firmenzuordnung
+  const contactOptions = draft
+    ? persons.filter((person) => !person.companyId || person.companyId.toString() === draft.companyId)
+    : [];
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+            <HardHat className="h-4 w-4 text-green-600" />
+            Firmen und Nachunternehmer
+          </h3>
+          {canManage && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setDraft({ id: null, companyId: "", trade: "", contractValue: "", contactPersonId: "", startDate: "", endDate: "", notes: "" })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Firma
+            </Button>
+          )}
+        </div>
+
+        {isLoading || !summary ? (
+          <p className="text-sm text-gray-500">Lade Firmen...</p>
+        ) : assignments.length === 0 ? (
+          <p className="text-sm text-gray-500">Noch keine Firmen zugeordnet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <p className="text-xs text-gray-600 uppercase tracking-wide mb-1">Firmen</p>
+                <p className="font-semibold text-gray-900">{summary.companies}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600 uppercase tracking-wide mb-1">Heute vor Ort</p>
+                <p className="font-semibold text-gray-900">{summary.onSite}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-600 uppercase tracking-wide mb-1">Auftragswert</p>
+                <p className="font-semibold text-gray-900">{formatEuro(summary.contractValue)}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {assignments.map((assignment) => (
+                <div key={assignment.id} className="flex items-center gap-3 rounded-lg border border-gray-200 p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {assignment.companyName} · {assignment.trade}
+                    </p>
+                    <p className="text-xs text-gray-600 truncate">
+                      {formatPeriod(assignment.startDate, assignment.endDate)}
+                      {assignment.contactPersonName && ` · ${assignment.contactPersonName}`}
+                      {assignment.contactPersonPhone && ` · ${assignment.contactPersonPhone}`}
+                    </p>
+                  </div>
+                  {assignment.isOnSite && <Badge className="bg-green-600 text-white">Vor Ort</Badge>}
+                  {assignment.contractValue && (
+                    <span className="text-sm font-semibold text-gray-900 whitespace-nowrap">{formatEuro(assignment.contractValue)}</span>
+                  )}
+                  {canManage && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => openAssignment(assignment)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(assignment)} disabled={deleteMutation.isPending}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Zuordnung bearbeiten" : "Firma zuordnen"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div>
+                <Label>Firma *</Label>
+                <Select
+                  value={draft.companyId}
+                  onValueChange={(companyId) => setDraft({ ...draft, companyId, contactPersonId: "" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Firma auswählen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id.toString()}>{company.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Gewerk *</Label>
+                <Input
+                  list="gewerke"
+                  value={draft.trade}
+                  onChange={(e) => setDraft({ ...draft, trade: e.target.value })}
+                  placeholder="z.B. Kanalbau"
+                />
+                <datalist id="gewerke">
+                  {TRADE_SUGGESTIONS.map((trade) => (
+                    <option key={trade} value={trade} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Auftragswert (€)</Label>
+                  <Input inputMode="decimal" value={draft.contractValue} onChange={(e) => setDraft({ ...draft, contractValue: e.target.value })} placeholder="0,00" />
+                </div>
+                <div>
+                  <Label>Ansprechpartner</Label>
+                  <Select
+                    value={draft.contactPersonId || "none"}
+                    onValueChange={(contactPersonId) => setDraft({ ...draft, contactPersonId: contactPersonId === "none" ? "" : contactPersonId })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Kein Ansprechpartner</SelectItem>
+                      {contactOptions.map((person) => (
+                        <SelectItem key={person.id} value={person.id.toString()}>{person.firstName} {person.lastName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Auf der Baustelle ab</Label>
+                  <Input type="date" value={draft.startDate} onChange={(e) => setDraft({ ...draft, startDate: e.target.value })} />
+                </div>
+                <div>
+                  <Label>bis</Label>
+                  <Input type="date" value={draft.endDate} min={draft.startDate || undefined} onChange={(e) => setDraft({ ...draft, endDate: e.target.value })} />
+                </div>
+              </div>
+              <div>
+                <Label>Notizen</Label>
+                <Textarea value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} rows={2} placeholder="z.B. Leistungsverzeichnis Pos. 01.02–01.14" />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setDraft(null)}>
+                  Abbrechen
+                </Button>
+                <Button
+                  onClick={() => saveMutation.mutate(draft)}
+                  disabled={!draft.companyId || !draft.trade.trim() || (!!draft.startDate && !!draft.endDate && draft.endDate < draft.startDate) || saveMutation.isPending}
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Speichern
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,636 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Textarea } from "../ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { Bug, CheckCircle2, Download, Mail, MapPin, Navigation, Plus, Save, Trash2, Undo2, Wrench } from "lucide-react";
+import type { Attachment, Company, DefectEvent, DefectWithDetails, Photo } from "../../shared/schema";
+
+export const DEFECT_STATUSES = [
+  { value: "open", label: "Offen", className: "bg-red-500" },
+  { value: "in_progress", label: "In Behebung", className: "bg-orange-500" },
+  { value: "resolved", label: "Behoben", className: "bg-blue-500" },
+  { value: "accepted", label: "Abgenommen", className: "bg-green-600" },
+];
+
+export const getDefectStatus = (status: string) => DEFECT_STATUSES.find((option) => option.value === status) ?? DEFECT_STATUSES[0];
+
+type DefectListItem = DefectWithDetails & { isOverdue: boolean };
+
+type DefectSummary = { total: number; byStatus: Record<string, number>; overdue: number };
+
+type DefectDetails = DefectListItem & {
+  photos: Photo[];
+  events: (DefectEvent & { userName: string | null })[];
+};
+
+type DefectDraft = {
+  id: number | null;
+  title: string;
+  description: string;
+  companyId: string;
+  deadline: string;
+  latitude: string;
+  longitude: string;
+  planAttachmentId: string;
+  pinX: number | null;
+  pinY: number | null;
+  photoIds: number[];
+};
+
+const EMPTY_DRAFT: DefectDraft = {
+  id: null,
+  title: "",
+  description: "",
+  companyId: "",
+  deadline: "",
+  latitude: "",
+  longitude: "",
+  planAttachmentId: "",
+  pinX: null,
+  pinY: null,
+  photoIds: [],
+};
+
+const formatDay = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString("de-DE");
+
+const EVENT_TEXT: Record<string, (event: DefectEvent) => string> = {
+  status: (event) => event.fromStatus
+    ? `${getDefectStatus(event.fromStatus).label} → ${getDefectStatus(event.toStatus || "").label}`
+    : "Mangel erfasst",
+  reminder: () => "Erinnerung versendet",
+  comment: () => "Kommentar",
+};
+
+// Planformate, die der Browser darstellen kann (DWG/DXF/HEIC nicht)
+const PLAN_MIME_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf"];
+
+interface DefectPlanProps {
+  attachmentId: number;
+  mimeType: string | null;
+  pins: { id: number; number: number; x: number; y: number; active?: boolean }[];
+  onPlace?: (x: number, y: number) => void;
+  onSelectPin?: (id: number) => void;
+}
+
+// Plan mit nummerierten Pins; ein Klick auf den Plan setzt den Pin (Position relativ zur Plangröße).
+// PDF-Pläne werden mit der ersten Seite eingepasst in einem Rahmen im A-Querformat angezeigt.
+function DefectPlan({ attachmentId, mimeType, pins, onPlace, onSelectPin }: DefectPlanProps) {
+  const src = `/api/attachments/${attachmentId}/file`;
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPlace) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
+    onPlace(Number(x.toFixed(5)), Number(y.toFixed(5)));
+  };
+
+  return (
+    <div
+      className={`relative rounded border border-gray-200 ${mimeType === "application/pdf" ? "aspect-[1.414]" : ""} ${onPlace ? "cursor-crosshair" : ""}`}
+      onClick={handleClick}
+    >
+      {mimeType === "application/pdf" ? (
+        <object
+          data={`${src}#page=1&view=Fit&toolbar=0&navpanes=0`}
+          type="application/pdf"
+          aria-label="Plan"
+          className="pointer-events-none absolute inset-0 h-full w-full"
+        />
+      ) : (
+        <img src={src} alt="Plan" className="w-full select-none" draggable={false} />
+      )}
+      {pins.map((pin) => (
+        <button
+          key={pin.id}
+          type="button"
+          className={`absolute flex h-6 w-6 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full text-[10px] font-bold text-white shadow ${pin.active ? "bg-red-600 ring-2 ring-white" : "bg-red-500/80"}`}
+          style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }}
+          onClick={(event) => {
+            if (!onSelectPin) return;
+            event.stopPropagation();
+            onSelectPin(pin.id);
+          }}
+        >
+          {pin.number}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface ProjectDefectsProps {
+  projectId: number;
+  canEdit: boolean;
+  canManage: boolean;
+}
+
+/**
+ * Mängelmanagement: Mängel mit Ort (GPS oder Pin auf einem Plan), verantwortlicher Firma, Frist, Fotos und Status-Workflow
+ */
+export function ProjectDefects({ projectId, canEdit, canManage }: ProjectDefectsProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<DefectDraft | null>(null);
+  const [statusFilter, setStatusFilter] = useState("unfinished");
+  const [planView, setPlanView] = useState("");
+  const [comment, setComment] = useState("");
+  const defectsKey = [`/api/projects/${projectId}/defects`];
+
+  const { data, isLoading } = useQuery<{ defects: DefectListItem[]; summary: DefectSummary }>({
+    queryKey: defectsKey,
+  });
+
+  const { data: attachments = [] } = useQuery<Attachment[]>({
+    queryKey: [`/api/projects/${projectId}/attachments`],
+  });
+
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ["/api/companies"],
+    enabled: draft !== null,
+  });
+
+  const { data: photos = [] } = useQuery<Photo[]>({
+    queryKey: [`/api/projects/${projectId}/photos`],
+    enabled: draft !== null,
+  });
+
+  const { data: details } = useQuery<DefectDetails>({
+    queryKey: [`/api/defects/${draft?.id}`],
+    enabled: !!draft?.id,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = (defectId?: number | null) => {
+    queryClient.invalidateQueries({ queryKey: defectsKey });
+    if (defectId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/defects/${defectId}`] });
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (defect: DefectDraft) => {
+      const payload = {
+        title: defect.title.trim(),
+        description: defect.description.trim() || null,
+        companyId: defect.companyId ? parseInt(defect.companyId) : null,
+        deadline: defect.deadline || null,
+        latitude: defect.latitude || null,
+        longitude: defect.longitude || null,
+        planAttachmentId: defect.planAttachmentId ? parseInt(defect.planAttachmentId) : null,
+        pinX: defect.planAttachmentId ? defect.pinX : null,
+        pinY: defect.planAttachmentId ? defect.pinY : null,
+        photoIds: defect.photoIds,
+      };
+      const response = defect.id
+        ? await apiRequest("PATCH", `/api/defects/${defect.id}`, payload)
+        : await apiRequest("POST", `/api/projects/${projectId}/defects`, payload);
+      return response.json();
+    },
+    onSuccess: (defect: DefectWithDetails) => {
+      refresh(defect.id);
+      setDraft(null);
+      toast({ title: `Mangel Nr. ${defect.number} gespeichert` });
+    },
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ defectId, status }: { defectId: number; status: string }) => {
+      const response = await apiRequest("POST", `/api/defects/${defectId}/status`, { status, comment });
+      return response.json();
+    },
+    onSuccess: (defect: DefectWithDetails) => {
+      refresh(defect.id);
+      setComment("");
+      toast({ title: `Mangel Nr. ${defect.number}: ${getDefectStatus(defect.status).label}` });
+    },
+    onError,
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async (defectId: number) => {
+      await apiRequest("POST", `/api/defects/${defectId}/comments`, { text: comment });
+      return defectId;
+    },
+    onSuccess: (defectId: number) => {
+      refresh(defectId);
+      setComment("");
+    },
+    onError,
+  });
+
+  const remindMutation = useMutation({
+    mutationFn: async (defectId: number) => {
+      const response = await apiRequest("POST", `/api/defects/${defectId}/remind`);
+      return response.json();
+    },
+    onSuccess: (defect: DefectWithDetails) => {
+      refresh(defect.id);
+      toast({ title: "Erinnerung versendet", description: `${defect.companyName} wurde per E-Mail erinnert.` });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (defectId: number) => {
+      await apiRequest("DELETE", `/api/defects/${defectId}`);
+    },
+    onSuccess: () => {
+      refresh();
+      setDraft(null);
+    },
+    onError,
+  });
+
+  const handleDownloadPdf = async () => {
+    try {
+      const query = statusFilter === "unfinished" ? "?status=open,in_progress,resolved" : statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const response = await fetch(`/api/projects/${projectId}/defects/pdf${query}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("PDF konnte nicht erstellt werden");
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Maengelliste_${projectId}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  const handleLocate = () => {
+    if (!draft) return;
+    if (!navigator.geolocation) {
+      onError(new Error("Geolocation wird von Ihrem Browser nicht unterstützt"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => setDraft((current) => current && ({
+        ...current,
+        latitude: position.coords.latitude.toFixed(8),
+        longitude: position.coords.longitude.toFixed(8),
+      })),
+      () => onError(new Error("Position konnte nicht ermittelt werden")),
+      { enableHighAccuracy: true, timeout: 10000 },
+    );
+  };
+
+  const openDefect = (defect: DefectListItem) => {
+    setComment("");
+    setDraft({
+      id: defect.id,
+      title: defect.title,
+      description: defect.description || "",
+      companyId: defect.companyId?.toString() ?? "",
+      deadline: defect.deadline || "",
+      latitude: defect.latitude || "",
+      longitude: defect.longitude || "",
+      planAttachmentId: defect.planAttachmentId?.toString() ?? "",
+      pinX: defect.pinX !== null ? Number(defect.pinX) : null,
+      pinY: defect.pinY !== null ? Number(defect.pinY) : null,
+      photoIds: defect.photoIds,
+    });
+  };
+
+  const defects = data?.defects || [];
+  const summary = data?.summary;
+  const plans = attachments.filter((attachment) => PLAN_MIME_TYPES.includes(attachment.mimeType ?? ""));
+  const planMimeType = (planId: string) => plans.find((plan) => plan.id.toString() === planId)?.mimeType ?? null;
+  const visibleDefects = defects.filter((defect) =>
+    statusFilter === "all" ? true : statusFilter === "unfinished" ? defect.status !== "accepted" : defect.status === statusFilter,
+  );
+  const planPins = (planId: number) => visibleDefects
+    .filter((defect) => defect.planAttachmentId === planId && defect.pinX !== null && defect.pinY !== null)
+    .map((defect) => ({ id: defect.id, number: defect.number, x: Number(defect.pinX), y: Number(defect.pinY) }));
+
+  const current = draft?.id ? defects.find((defect) => defect.id === draft.id) : undefined;
+  const isLocked = current?.status === "accepted" || !canEdit;
+  const canSave = !!draft?.title.trim() && (!draft.planAttachmentId || draft.pinX !== null) && !saveMutation.isPending;
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+            <Bug className="h-4 w-4 text-green-600" />
+            Mängel
+          </h3>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleDownloadPdf} disabled={defects.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              PDF
+            </Button>
+            {canEdit && (
+              <Button size="sm" variant="outline" onClick={() => { setComment(""); setDraft({ ...EMPTY_DRAFT }); }}>
+                <Plus className="h-4 w-4 mr-1" />
+                Mangel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading || !summary ? (
+          <p className="text-sm text-gray-500">Lade Mängel...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {DEFECT_STATUSES.map((status) => (
+                <Badge key={status.value} variant="outline">
+                  {status.label}: {summary.byStatus[status.value] ?? 0}
+                </Badge>
+              ))}
+              {summary.overdue > 0 && <Badge className="bg-red-600 text-white">Frist überschritten: {summary.overdue}</Badge>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unfinished">Nicht abgenommen</SelectItem>
+                  <SelectItem value="all">Alle Mängel</SelectItem>
+                  {DEFECT_STATUSES.map((status) => (
+                    <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={planView || "none"} onValueChange={(value) => setPlanView(value === "none" ? "" : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Liste</SelectItem>
+                  {plans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id.toString()}>Plan: {plan.fileName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {planView && (
+              <DefectPlan
+                attachmentId={parseInt(planView)}
+                mimeType={planMimeType(planView)}
+                pins={planPins(parseInt(planView))}
+                onSelectPin={(id) => {
+                  const defect = defects.find((item) => item.id === id);
+                  if (defect) openDefect(defect);
+                }}
+              />
+            )}
+
+            {visibleDefects.length === 0 ? (
+              <p className="text-sm text-gray-500">{defects.length === 0 ? "Noch keine Mängel erfasst." : "Keine Mängel für diesen Filter."}</p>
+            ) : (
+              <div className="space-y-2">
+                {visibleDefects.map((defect) => (
+                  <button
+                    key={defect.id}
+                    type="button"
+                    className="flex w-full items-center gap-3 rounded-lg border border-gray-200 p-3 text-left hover:bg-gray-50"
+                    onClick={() => openDefect(defect)}
+                  >
+                    <span className="text-sm font-semibold text-gray-500 w-8">{defect.number}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{defect.title}</p>
+                      <p className="text-xs text-gray-600 truncate">
+                        {defect.companyName || "Keine Firma zugeordnet"}
+                        {defect.deadline && (
+                          <span className={defect.isOverdue ? "text-red-600 font-medium" : ""}> · Frist {formatDay(defect.deadline)}</span>
+                        )}
+                        {defect.planFileName && ` · ${defect.planFileName}`}
+                      </p>
+                    </div>
+                    {(defect.latitude || defect.planAttachmentId) && <MapPin className="h-4 w-4 text-gray-400" />}
+                    <Badge className={`${getDefectStatus(defect.status).className} text-white`}>{getDefectStatus(defect.status).label}</Badge>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{current ? `Mangel Nr. ${current.number}` : "Mangel erfassen"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div>
+                <Label>Mangel</Label>
+                <Input value={draft.title} disabled={isLocked} onChange={(e) => setDraft({ ...draft, title: e.target.value })} placeholder="z.B. Riss in Schachtwand" />
+              </div>
+              <div>
+                <Label>Beschreibung</Label>
+                <Textarea rows={3} value={draft.description} disabled={isLocked} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Verantwortliche Firma</Label>
+                  <Select value={draft.companyId || "none"} disabled={isLocked} onValueChange={(companyId) => setDraft({ ...draft, companyId: companyId === "none" ? "" : companyId })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Keine Firma</SelectItem>
+                      {companies.map((company) => (
+                        <SelectItem key={company.id} value={company.id.toString()}>{company.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Frist</Label>
+                  <Input type="date" value={draft.deadline} disabled={isLocked} onChange={(e) => setDraft({ ...draft, deadline: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Ort</Label>
+                <div className="flex items-center gap-2">
+                  <Button type="button" variant="outline" size="sm" disabled={isLocked} onClick={handleLocate}>
+                    <Navigation className="h-4 w-4 mr-1" />
+                    GPS-Position
+                  </Button>
+                  <span className="text-xs text-gray-600 flex-1">
+                    {draft.latitude && draft.longitude ? `${Number(draft.latitude).toFixed(6)}, ${Number(draft.longitude).toFixed(6)}` : "Keine GPS-Position"}
+                  </span>
+                  {draft.latitude && !isLocked && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setDraft({ ...draft, latitude: "", longitude: "" })}>
+                      Entfernen
+                    </Button>
+                  )}
+                </div>
+                <Select
+                  value={draft.planAttachmentId || "none"}
+                  disabled={isLocked}
+                  onValueChange={(planAttachmentId) => setDraft({ ...draft, planAttachmentId: planAttachmentId === "none" ? "" : planAttachmentId, pinX: null, pinY: null })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Ohne Plan</SelectItem>
+                    {plans.map((plan) => (
+                      <SelectItem key={plan.id} value={plan.id.toString()}>{plan.fileName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {plans.length === 0 && (
+                  <p className="text-xs text-gray-500">Laden Sie einen Plan als Bild (PNG/JPG) oder PDF in die Projektanhänge hoch, um Mängel darauf zu markieren.</p>
+                )}
+                {draft.planAttachmentId && (
+                  <>
+                    <p className="text-xs text-gray-600">{isLocked ? "Lage des Mangels im Plan" : "Tippen Sie auf den Plan, um die Lage des Mangels zu markieren."}</p>
+                    <DefectPlan
+                      attachmentId={parseInt(draft.planAttachmentId)}
+                      mimeType={planMimeType(draft.planAttachmentId)}
+                      pins={draft.pinX !== null && draft.pinY !== null ? [{ id: 0, number: current?.number ?? 0, x: draft.pinX, y: draft.pinY, active: true }] : []}
+                      onPlace={isLocked ? undefined : (pinX, pinY) => setDraft({ ...draft, pinX, pinY })}
+                    />
+                  </>
+                )}
+              </div>
+
+              <div>
+                <Label>Fotos ({draft.photoIds.length})</Label>
+                {photos.length === 0 ? (
+                  <p className="text-xs text-gray-500">Für dieses Projekt sind noch keine Fotos vorhanden.</p>
+                ) : (
+                  <div className="grid grid-cols-4 gap-2 mt-1">
+                    {photos.map((photo) => {
+                      const selected = draft.photoIds.includes(photo.id);
+                      return (
+                        <button
+                          key={photo.id}
+                          type="button"
+                          disabled={isLocked}
+                          className={`overflow-hidden rounded border-2 ${selected ? "border-green-600" : "border-transparent opacity-70"}`}
+                          onClick={() => setDraft({
+                            ...draft,
+                            photoIds: selected ? draft.photoIds.filter((id) => id !== photo.id) : [...draft.photoIds, photo.id],
+                          })}
+                        >
+                          <img src={`/api/photos/${photo.id}/thumbnail`} alt={photo.description || photo.fileName} className="h-16 w-full object-cover" />
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {!isLocked && (
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setDraft(null)}>
+                    Abbrechen
+                  </Button>
+                  <Button onClick={() => saveMutation.mutate(draft)} disabled={!canSave}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Speichern
+                  </Button>
+                </div>
+              )}
+
+              {current && (
+                <div className="space-y-3 border-t pt-4">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-600">Status:</span>
+                    <Badge className={`${getDefectStatus(current.status).className} text-white`}>{getDefectStatus(current.status).label}</Badge>
+                    {current.isOverdue && <Badge className="bg-red-600 text-white">Frist überschritten</Badge>}
+                  </div>
+
+                  {canEdit && current.status !== "accepted" && (
+                    <>
+                      <Input value={comment} onChange={(e) => setComment(e.target.value)} placeholder="Kommentar (optional)" />
+                      <div className="flex flex-wrap gap-2">
+                        {current.status === "open" && (
+                          <Button size="sm" variant="outline" disabled={statusMutation.isPending} onClick={() => statusMutation.mutate({ defectId: current.id, status: "in_progress" })}>
+                            <Wrench className="h-4 w-4 mr-1" />
+                            In Behebung
+                          </Button>
+                        )}
+                        {["open", "in_progress"].includes(current.status) && (
+                          <Button size="sm" variant="outline" disabled={statusMutation.isPending} onClick={() => statusMutation.mutate({ defectId: current.id, status: "resolved" })}>
+                            <CheckCircle2 className="h-4 w-4 mr-1" />
+                            Als behoben melden
+                          </Button>
+                        )}
+                        {current.status === "resolved" && canManage && (
+                          <>
+                            <Button size="sm" className="bg-green-600 hover:bg-green-700" disabled={statusMutation.isPending} onClick={() => statusMutation.mutate({ defectId: current.id, status: "accepted" })}>
+                              <CheckCircle2 className="h-4 w-4 mr-1" />
+                              Abnehmen
+                            </Button>
+                            <Button size="sm" variant="outline" disabled={statusMutation.isPending} onClick={() => statusMutation.mutate({ defectId: current.id, status: "in_progress" })}>
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Zurückweisen
+                            </Button>
+                          </>
+                        )}
+                        <Button size="sm" variant="ghost" disabled={!comment.trim() || commentMutation.isPending} onClick={() => commentMutation.mutate(current.id)}>
+                          Kommentieren
+                        </Button>
+                        {canManage && current.companyId && ["open", "in_progress"].includes(current.status) && (
+                          <Button size="sm" variant="ghost" disabled={remindMutation.isPending} onClick={() => remindMutation.mutate(current.id)}>
+                            <Mail className="h-4 w-4 mr-1" />
+                            Firma erinnern
+                          </Button>
+                        )}
+                      </div>
+                    </>
+                  )}
+
+                  {details?.events && details.events.length > 0 && (
+                    <ul className="space-y-1 text-xs text-gray-600">
+                      {details.events.map((event) => (
+                        <li key={event.id}>
+                          <span className="text-gray-500">{new Date(event.createdAt).toLocaleString("de-DE")}</span>
+                          {" · "}
+                          {(EVENT_TEXT[event.type] ?? EVENT_TEXT.comment)(event)}
+                          {event.userName && ` (${event.userName})`}
+                          {event.text && `: ${event.text}`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {canManage && (
+                    <div className="flex justify-end">
+                      <Button variant="ghost" size="sm" disabled={deleteMutation.isPending} onClick={() => deleteMutation.mutate(current.id)}>
+                        <Trash2 className="h-4 w-4 mr-1 text-red-600" />
+                        Löschen
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { BookOpen, ChevronRight, Download, Lock, Plus } from "lucide-react";
+import type { ConstructionDiaryEntryWithAuthor } from "../../shared/schema";
+
+export const DIARY_WEATHER = [
+  { value: "sunny", label: "Sonnig" },
+  { value: "cloudy", label: "Bewölkt" },
+  { value: "rain", label: "Regen" },
+  { value: "snow", label: "Schnee" },
+  { value: "frost", label: "Frost" },
+  { value: "storm", label: "Sturm" },
+];
+
+export const getWeatherLabel = (weather: string | null) =>
+  DIARY_WEATHER.find((option) => option.value === weather)?.label || weather || "–";
+
+// Kalendertag in lokaler Zeit (YYYY-MM-DD), wie ihn der Server für Tagesberichte erwartet
+export const toDiaryDate = (value: Date) =>
+  `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+
+export const formatDiaryDate = (entryDate: string) =>
+  new Date(`${entryDate}T00:00:00`).toLocaleDateString("de-DE", { weekday: "short", day: "2-digit", month: "2-digit", year: "numeric" });
+
+interface ProjectDiaryProps {
+  projectId: number;
+  canEdit: boolean;
+}
+
+/**
+ * Bautagebuch eines Projekts: Tagesberichte je Tag, Anlage neuer Berichte und PDF-Export für die VOB-Dokumentation
+ */
+export function ProjectDiary({ projectId, canEdit }: ProjectDiaryProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [entryDate, setEntryDate] = useState(toDiaryDate(new Date()));
+  const [showAll, setShowAll] = useState(false);
+
+  const { data: entries = [], isLoading } = useQuery<ConstructionDiaryEntryWithAuthor[]>({
+    queryKey: [`/api/projects/${projectId}/diary`],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/diary`, { entryDate });
+      return response.json();
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/diary`] });
+      setLocation(`/projects/${projectId}/diary/${entry.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Der Tagesbericht konnte nicht angelegt werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Pro Tag gibt es genau einen Bericht; ist er schon angelegt, wird er geöffnet
+  const handleOpenDay = () => {
+    const existing = entries.find((entry) => entry.entryDate === entryDate);
+    if (existing) {
+      setLocation(`/projects/${projectId}/diary/${existing.id}`);
+    } else {
+      createMutation.mutate();
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/diary/pdf`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("PDF konnte nicht erstellt werden");
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Bautagebuch_${projectId}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const visibleEntries = showAll ? entries : entries.slice(0, 5);
+  const hasEntryForDate = entries.some((entry) => entry.entryDate === entryDate);
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+            <BookOpen className="h-4 w-4 text-green-600" />
+            Bautagebuch
+          </h3>
+          {entries.length > 0 && (
+            <Button size="sm" variant="outline" onClick={handleDownloadPdf}>
+              <Download className="h-4 w-4 mr-1" />
+              PDF
+            </Button>
+          )}
+        </div>
+
+        {canEdit && (
+          <div className="flex gap-2 mb-4">
+            <Input type="date" value={entryDate} onChange={(e) => setEntryDate(e.target.value)} className="flex-1" />
+            <Button onClick={handleOpenDay} disabled={!entryDate || createMutation.isPending}>
+              {hasEntryForDate ? (
+                "Öffnen"
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Tagesbericht
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Lade Bautagebuch...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">Für dieses Projekt wurden noch keine Tagesberichte erfasst.</p>
+        ) : (
+          <div className="space-y-2">
+            {visibleEntries.map((entry) => {
+              const workers = entry.staff.reduce((sum, row) => sum + row.count, 0);
+              return (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => setLocation(`/projects/${projectId}/diary/${entry.id}`)}
+                  className="w-full flex items-center gap-3 rounded-lg border border-gray-200 p-3 text-left hover:bg-gray-50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      Nr. {entry.reportNumber} · {formatDiaryDate(entry.entryDate)}
+                    </p>
+                    <p className="text-xs text-gray-600 truncate">
+                      {getWeatherLabel(entry.weather)} · {workers} AK · {entry.workPerformed || "Noch keine Leistungen erfasst"}
+                    </p>
+                  </div>
+                  {entry.status === "signed" ? (
+                    <Badge className="bg-green-500 text-white">
+                      <Lock className="h-3 w-3 mr-1" />
+                      Abgezeichnet
+                    </Badge>
+                  ) : (
+                    <Badge className="bg-orange-500 text-white">Entwurf</Badge>
+                  )}
+                  <ChevronRight className="h-4 w-4 text-gray-400" />
+                </button>
+              );
+            })}
+            {entries.length > 5 && (
+              <Button variant="link" size="sm" className="text-green-600 p-0" onClick={() => setShowAll(!showAll)}>
+                {showAll ? "Weniger anzeigen" : `Alle ${entries.length} Tagesberichte anzeigen`}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { ClipboardCheck, Plus, ChevronRight } from "lucide-react";
+import type { InspectionWithDetails } from "../../shared/schema";
+
+export const INSPECTION_TYPES = [
+  { value: "sigeko", label: "SiGeKo-Begehung" },
+  { value: "excavation", label: "Baugruben-/Grabenabnahme" },
+  { value: "equipment", label: "Geräteprüfung" },
+];
+
+export const getInspectionTypeLabel = (type: string) =>
+  INSPECTION_TYPES.find((option) => option.value === type)?.label || type;
+
+interface ProjectInspectionsProps {
+  projectId: number;
+  canEdit?: boolean;
+}
+
+/**
+ * Prüfungen eines Projekts (SiGeKo, Graben, Geräte) mit Anlage neuer Prüfungen aus der aktiven Vorlage
+ */
+export function ProjectInspections({ projectId, canEdit = true }: ProjectInspectionsProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [showDialog, setShowDialog] = useState(false);
+  const [type, setType] = useState("sigeko");
+  const [title, setTitle] = useState("");
+  const [location, setLocationText] = useState("");
+
+  const { data: inspections = [], isLoading } = useQuery<InspectionWithDetails[]>({
+    queryKey: [`/api/projects/${projectId}/inspections`],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/inspections`, {
+        type,
+        title: title.trim() || undefined,
+        location: location.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (inspection) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/inspections`] });
+      setShowDialog(false);
+      setTitle("");
+      setLocationText("");
+      setLocation(`/projects/${projectId}/inspections/${inspection.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Die Prüfung konnte nicht angelegt werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-900">Prüfungen</h3>
+          {canEdit && (
+            <Button size="sm" variant="outline" onClick={() => setShowDialog(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Neue Prüfung
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Lade Prüfungen...</p>
+        ) : inspections.length === 0 ? (
+          <p className="text-sm text-gray-500">Für dieses Projekt wurden noch keine Prüfungen angelegt.</p>
+        ) : (
+          <div className="space-y-2">
+            {inspections.map((inspection) => (
+              <button
+                key={inspection.id}
+                type="button"
+                onClick={() => setLocation(`/projects/${projectId}/inspections/${inspection.id}`)}
+                className="w-full flex items-center gap-3 rounded-lg border border-gray-200 p-3 text-left hover:bg-gray-50"
+              >
+                <ClipboardCheck className={`h-5 w-5 flex-shrink-0 ${inspection.status === "completed" ? "text-green-600" : "text-gray-400"}`} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{inspection.title}</p>
+                  <p className="text-xs text-gray-600">
+                    {getInspectionTypeLabel(inspection.type)} · {new Date(inspection.inspectedAt).toLocaleDateString("de-DE")} ·{" "}
+                    {inspection.itemsAnswered}/{inspection.itemsTotal} Prüfpunkte
+                  </p>
+                </div>
+                {inspection.itemsFailed > 0 && (
+                  <Badge className="bg-red-500 text-white">{inspection.itemsFailed} n. i. O.</Badge>
+                )}
+                <Badge className={inspection.status === "completed" ? "bg-green-500 text-white" : "bg-orange-500 text-white"}>
+                  {inspection.status === "completed" ? "Abgeschlossen" : "Entwurf"}
+                </Badge>
+                <ChevronRight className="h-4 w-4 text-gray-400" />
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Neue Prüfung</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Art der Prüfung</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INSPECTION_TYPES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Bezeichnung</Label>
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder={`${getInspectionTypeLabel(type)} ${new Date().toLocaleDateString("de-DE")}`}
+              />
+            </div>
+            <div>
+              <Label>Ort / Bauabschnitt</Label>
+              <Input
+                value={location}
+                onChange={(e) => setLocationText(e.target.value)}
+                placeholder="z.B. Baugrube Nord, Kran 2"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Die Prüfpunkte werden aus der aktiven Vorlage der gewählten Prüfungsart übernommen.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setShowDialog(false)}>
+                Abbrechen
+              </Button>
+              <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+                {createMutation.isPending ? "Lege an..." : "Prüfung anlegen"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { Trash2, UserPlus, Users } from "lucide-react";
+import type { ProjectMemberWithUser } from "../../shared/schema";
+
+const PROJECT_ROLES = [
+  { value: "bauleiter", label: "Bauleiter" },
+  { value: "polier", label: "Polier" },
+  { value: "gast", label: "Gast" },
+];
+
+const getRoleLabel = (role: string) => PROJECT_ROLES.find((option) => option.value === role)?.label || role;
+
+type TeamUser = { firstName: string | null; lastName: string | null; email: string | null };
+
+type ProjectTeam = {
+  manager: (TeamUser & { id: string }) | null;
+  members: ProjectMemberWithUser[];
+};
+
+const getDisplayName = (user: TeamUser) =>
+  [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Unbekannt";
+
+interface ProjectTeamProps {
+  projectId: number;
+  canManage: boolean;
+}
+
+/**
+ * Projektteam mit Rollen; Bauleiter können Mitglieder per E-Mail hinzufügen, Rollen ändern und entfernen
+ */
+export function ProjectTeam({ projectId, canManage }: ProjectTeamProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState("polier");
+  const membersKey = [`/api/projects/${projectId}/members`];
+
+  const { data: team, isLoading } = useQuery<ProjectTeam>({
+    queryKey: membersKey,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/members`, { email: email.trim(), role });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      setEmail("");
+      toast({ title: "Mitglied hinzugefügt" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: number; role: string }) => {
+      const response = await apiRequest("PATCH", `/api/projects/${projectId}/members/${memberId}`, { role });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: membersKey }),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (memberId: number) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/members/${memberId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      toast({ title: "Mitglied entfernt" });
+    },
+    onError,
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <h3 className="flex items-center gap-2 font-semibold text-gray-900 mb-4">
+          <Users className="h-4 w-4 text-green-600" />
+          Projektteam
+        </h3>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Lade Projektteam...</p>
+        ) : (
+          <div className="space-y-2">
+            {team?.manager && (
+              <div className="flex items-center gap-3 rounded-lg border border-gray-200 p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{getDisplayName(team.manager)}</p>
+                  <p className="text-xs text-gray-600 truncate">{team.manager.email}</p>
+                </div>
+                <Badge className="bg-green-500 text-white">Projektleiter · Bauleiter</Badge>
+              </div>
+            )}
+            {team?.members.map((member) => (
+              <div key={member.id} className="flex items-center gap-3 rounded-lg border border-gray-200 p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{getDisplayName(member)}</p>
+                  <p className="text-xs text-gray-600 truncate">{member.email}</p>
+                </div>
+                {canManage ? (
+                  <>
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => updateMutation.mutate({ memberId: member.id, role: value })}
+                    >
+                      <SelectTrigger className="w-32 h-8 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PROJECT_ROLES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMutation.mutate(member.id)}
+                      disabled={removeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant="outline">{getRoleLabel(member.role)}</Badge>
+                )}
+              </div>
+            ))}
+            {team && team.members.length === 0 && (
+              <p className="text-sm text-gray-500">Noch keine weiteren Mitglieder.</p>
+            )}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="mt-4 flex flex-col sm:flex-row gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="E-Mail-Adresse des Benutzers"
+              className="flex-1"
+            />
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger className="sm:w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROJECT_ROLES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => addMutation.mutate()} disabled={!email.trim() || addMutation.isPending}>
+              <UserPlus className="h-4 w-4 mr-1" />
+              Hinzufügen
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
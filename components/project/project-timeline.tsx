@@ -0,0 +1,436 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Checkbox } from "../ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { useToast } from "../../hooks/use-toast";
+import { apiRequest, queryClient } from "../../lib/queryClient";
+import { AlertTriangle, CalendarRange, Plus, Save, Trash2 } from "lucide-react";
+import type { ProjectPhase } from "../../shared/schema";
+
+type PhaseWithStatus = ProjectPhase & {
+  status: "planned" | "in_progress" | "done" | "delayed";
+  delayDays: number;
+  effectiveProgress: number;
+};
+
+type ProjectSchedule = {
+  phases: PhaseWithStatus[];
+  summary: { completion: number | null; delayedPhases: number; delayDays: number; isDelayed: boolean };
+  conflicts: { phaseId: number; dependsOnId: number; message: string }[];
+};
+
+type PhaseDraft = {
+  id: number | null;
+  kind: string;
+  name: string;
+  weight: string;
+  progress: string;
+  plannedStart: string;
+  plannedEnd: string;
+  actualStart: string;
+  actualEnd: string;
+  dependsOn: number[];
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  planned: "Geplant",
+  in_progress: "In Arbeit",
+  done: "Fertig",
+  delayed: "Verzug",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  planned: "bg-gray-400",
+  in_progress: "bg-blue-500",
+  done: "bg-green-500",
+  delayed: "bg-red-500",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (value: string | Date | null) => (value ? new Date(value).toISOString().slice(0, 10) : "");
+
+const emptyDraft = (): PhaseDraft => ({
+  id: null,
+  kind: "phase",
+  name: "",
+  weight: "1",
+  progress: "0",
+  plannedStart: "",
+  plannedEnd: "",
+  actualStart: "",
+  actualEnd: "",
+  dependsOn: [],
+});
+
+interface ProjectTimelineProps {
+  projectId: number;
+  canEdit: boolean;
+  canManage: boolean;
+}
+
+/**
+ * Bauzeitenplan als Gantt-Diagramm: Soll-Balken grau, Ist-Balken nach Status eingefärbt, Meilensteine als Raute
+ */
+export function ProjectTimeline({ projectId, canEdit, canManage }: ProjectTimelineProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<PhaseDraft | null>(null);
+  const phasesKey = [`/api/projects/${projectId}/phases`];
+
+  const { data: schedule, isLoading } = useQuery<ProjectSchedule>({
+    queryKey: phasesKey,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: phasesKey });
+    // Der Fertigstellungsgrad des Projekts wird aus den Vorgängen berechnet
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (phase: PhaseDraft) => {
+      const progressData = {
+        progress: parseInt(phase.progress) || 0,
+        actualStart: phase.kind === "phase" && phase.actualStart ? phase.actualStart : null,
+        actualEnd: phase.actualEnd || null,
+      };
+      const planData = {
+        kind: phase.kind,
+        name: phase.name.trim(),
+        weight: parseInt(phase.weight) || 0,
+        plannedStart: phase.kind === "phase" && phase.plannedStart ? phase.plannedStart : null,
+        plannedEnd: phase.plannedEnd,
+        dependsOn: phase.dependsOn,
+      };
+      const data = canManage ? { ...planData, ...progressData } : progressData;
+      const response = phase.id
+        ? await apiRequest("PATCH", `/api/projects/${projectId}/phases/${phase.id}`, data)
+        : await apiRequest("POST", `/api/projects/${projectId}/phases`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setDraft(null);
+      toast({ title: "Gespeichert" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (phaseId: number) => {
+      await apiRequest("DELETE", `/api/projects/${projectId}/phases/${phaseId}`);
+    },
+    onSuccess: () => {
+      refresh();
+      setDraft(null);
+    },
+    onError,
+  });
+
+  const phases = schedule?.phases || [];
+
+  const openPhase = (phase: PhaseWithStatus) => {
+    if (!canEdit) return;
+    setDraft({
+      id: phase.id,
+      kind: phase.kind,
+      name: phase.name,
+      weight: String(phase.weight),
+      progress: String(phase.progress),
+      plannedStart: toDateInput(phase.plannedStart),
+      plannedEnd: toDateInput(phase.plannedEnd),
+      actualStart: toDateInput(phase.actualStart),
+      actualEnd: toDateInput(phase.actualEnd),
+      dependsOn: phase.dependsOn,
+    });
+  };
+
+  // Zeitachse über alle Soll- und Ist-Termine, ergänzt um heute
+  const today = new Date();
+  const timestamps = phases
+    .flatMap((phase) => [phase.plannedStart, phase.plannedEnd, phase.actualStart, phase.actualEnd])
+    .filter((value): value is Date => !!value)
+    .map((value) => new Date(value).getTime());
+  const rangeStart = timestamps.length > 0 ? Math.min(...timestamps, today.getTime()) - 2 * DAY_MS : today.getTime();
+  const rangeEnd = timestamps.length > 0 ? Math.max(...timestamps, today.getTime()) + 3 * DAY_MS : today.getTime() + DAY_MS;
+  const span = rangeEnd - rangeStart;
+  const toPercent = (value: string | Date) => ((new Date(value).getTime() - rangeStart) / span) * 100;
+
+  const months: Date[] = [];
+  for (let month = new Date(new Date(rangeStart).getFullYear(), new Date(rangeStart).getMonth() + 1, 1); month.getTime() < rangeEnd; month = new Date(month.getFullYear(), month.getMonth() + 1, 1)) {
+    months.push(month);
+  }
+
+  const renderBar = (phase: PhaseWithStatus) => {
+    if (phase.kind === "milestone") {
+      return (
+        <>
+          <div
+            className="absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rotate-45 border-2 border-gray-500 bg-white"
+            style={{ left: `${toPercent(phase.plannedEnd)}%` }}
+            title={`Soll: ${new Date(phase.plannedEnd).toLocaleDateString("de-DE")}`}
+          />
+          {phase.actualEnd && (
+            <div
+              className={`absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rotate-45 ${STATUS_COLORS[phase.status]}`}
+              style={{ left: `${toPercent(phase.actualEnd)}%` }}
+              title={`Ist: ${new Date(phase.actualEnd).toLocaleDateString("de-DE")}`}
+            />
+          )}
+        </>
+      );
+    }
+
+    const plannedStart = phase.plannedStart ?? phase.plannedEnd;
+    const actualStart = phase.actualStart;
+    const actualEnd = phase.actualEnd ?? today;
+    return (
+      <>
+        <div
+          className="absolute top-1 h-2 rounded bg-gray-200 border border-gray-300"
+          style={{ left: `${toPercent(plannedStart)}%`, width: `${Math.max(toPercent(phase.plannedEnd) - toPercent(plannedStart), 0.5)}%` }}
+          title={`Soll: ${new Date(plannedStart).toLocaleDateString("de-DE")} – ${new Date(phase.plannedEnd).toLocaleDateString("de-DE")}`}
+        />
+        {actualStart && (
+          <div
+            className="absolute bottom-1 h-2 rounded bg-gray-100 overflow-hidden"
+            style={{ left: `${toPercent(actualStart)}%`, width: `${Math.max(toPercent(actualEnd) - toPercent(actualStart), 0.5)}%` }}
+            title={`Ist: ${new Date(actualStart).toLocaleDateString("de-DE")} – ${phase.actualEnd ? new Date(phase.actualEnd).toLocaleDateString("de-DE") : "laufend"}`}
+          >
+            <div className={`h-full ${STATUS_COLORS[phase.status]}`} style={{ width: `${phase.effectiveProgress}%` }} />
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const conflictPhaseIds = new Set((schedule?.conflicts || []).map((conflict) => conflict.phaseId));
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900">
+            <CalendarRange className="h-4 w-4 text-green-600" />
+            Bauzeitenplan
+          </h3>
+          <div className="flex items-center gap-2">
+            {schedule?.summary.isDelayed && (
+              <Badge className="bg-red-500 text-white">Verzug {schedule.summary.delayDays} Tg.</Badge>
+            )}
+            {canManage && (
+              <Button size="sm" variant="outline" onClick={() => setDraft(emptyDraft())}>
+                <Plus className="h-4 w-4 mr-1" />
+                Vorgang
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Lade Bauzeitenplan...</p>
+        ) : phases.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Noch keine Phasen oder Meilensteine geplant. Der Fertigstellungsgrad wird dann aus dem gewichteten Fortschritt berechnet.
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <div className="min-w-[560px]">
+                <div className="flex text-[10px] text-gray-500 mb-1">
+                  <div className="w-40 flex-shrink-0" />
+                  <div className="relative flex-1 h-4">
+                    {months.map((month) => (
+                      <span key={month.getTime()} className="absolute -translate-x-1/2" style={{ left: `${toPercent(month)}%` }}>
+                        {month.toLocaleDateString("de-DE", { month: "short", year: "2-digit" })}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                {phases.map((phase) => (
+                  <div
+                    key={phase.id}
+                    className={`flex items-center border-t border-gray-100 ${canEdit ? "cursor-pointer hover:bg-gray-50" : ""}`}
+                    onClick={() => openPhase(phase)}
+                  >
+                    <div className="w-40 flex-shrink-0 py-1 pr-2">
+                      <p className="text-xs font-medium text-gray-900 truncate">
+                        {phase.name}
+                        {conflictPhaseIds.has(phase.id) && <AlertTriangle className="inline h-3 w-3 ml-1 text-orange-500" />}
+                      </p>
+                      <p className="text-[10px] text-gray-500">
+                        {STATUS_LABELS[phase.status]}
+                        {phase.kind === "phase" && ` · ${phase.effectiveProgress}%`}
+                        {phase.delayDays > 0 && ` · +${phase.delayDays} Tg.`}
+                      </p>
+                    </div>
+                    <div className="relative flex-1 h-8">
+                      {months.map((month) => (
+                        <div key={month.getTime()} className="absolute top-0 bottom-0 border-l border-gray-100" style={{ left: `${toPercent(month)}%` }} />
+                      ))}
+                      <div className="absolute top-0 bottom-0 border-l border-dashed border-red-400" style={{ left: `${toPercent(today)}%` }} />
+                      {renderBar(phase)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4 mt-3 text-[10px] text-gray-500">
+              <span className="flex items-center gap-1"><span className="h-2 w-4 rounded bg-gray-200 border border-gray-300" /> Soll</span>
+              <span className="flex items-center gap-1"><span className="h-2 w-4 rounded bg-blue-500" /> Ist</span>
+              <span className="flex items-center gap-1"><span className="h-2 w-2 rotate-45 border-2 border-gray-500" /> Meilenstein</span>
+              <span className="flex items-center gap-1"><span className="h-3 border-l border-dashed border-red-400" /> Heute</span>
+            </div>
+            {(schedule?.conflicts || []).length > 0 && (
+              <ul className="mt-3 space-y-1 text-xs text-orange-700">
+                {schedule!.conflicts.map((conflict) => (
+                  <li key={`${conflict.phaseId}-${conflict.dependsOnId}`} className="flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    {conflict.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Vorgang bearbeiten" : "Neuer Vorgang"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2">
+                  <Label>Bezeichnung</Label>
+                  <Input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="z.B. Erdarbeiten"
+                    disabled={!canManage}
+                  />
+                </div>
+                <div>
+                  <Label>Art</Label>
+                  <Select value={draft.kind} onValueChange={(kind) => setDraft({ ...draft, kind })} disabled={!canManage}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="phase">Phase</SelectItem>
+                      <SelectItem value="milestone">Meilenstein</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {draft.kind === "phase" && (
+                  <div>
+                    <Label>Soll-Beginn</Label>
+                    <Input type="date" value={draft.plannedStart} onChange={(e) => setDraft({ ...draft, plannedStart: e.target.value })} disabled={!canManage} />
+                  </div>
+                )}
+                <div>
+                  <Label>{draft.kind === "phase" ? "Soll-Ende" : "Soll-Termin"}</Label>
+                  <Input type="date" value={draft.plannedEnd} onChange={(e) => setDraft({ ...draft, plannedEnd: e.target.value })} disabled={!canManage} />
+                </div>
+                {draft.kind === "phase" && (
+                  <div>
+                    <Label>Ist-Beginn</Label>
+                    <Input type="date" value={draft.actualStart} onChange={(e) => setDraft({ ...draft, actualStart: e.target.value })} />
+                  </div>
+                )}
+                <div>
+                  <Label>{draft.kind === "phase" ? "Ist-Ende" : "Erreicht am"}</Label>
+                  <Input type="date" value={draft.actualEnd} onChange={(e) => setDraft({ ...draft, actualEnd: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {draft.kind === "phase" && (
+                  <div>
+                    <Label>Fortschritt (%)</Label>
+                    <Input type="number" min={0} max={100} value={draft.progress} onChange={(e) => setDraft({ ...draft, progress: e.target.value })} />
+                  </div>
+                )}
+                <div>
+                  <Label>Gewichtung</Label>
+                  <Input type="number" min={0} max={100} value={draft.weight} onChange={(e) => setDraft({ ...draft, weight: e.target.value })} disabled={!canManage} />
+                </div>
+              </div>
+
+              {phases.filter((phase) => phase.id !== draft.id).length > 0 && (
+                <div>
+                  <Label>Abhängig von</Label>
+                  <div className="max-h-40 overflow-y-auto space-y-2 border rounded p-2 mt-1">
+                    {phases
+                      .filter((phase) => phase.id !== draft.id)
+                      .map((phase) => (
+                        <div key={phase.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`vorgaenger-${phase.id}`}
+                            checked={draft.dependsOn.includes(phase.id)}
+                            disabled={!canManage}
+                            onCheckedChange={() =>
+                              setDraft({
+                                ...draft,
+                                dependsOn: draft.dependsOn.includes(phase.id)
+                                  ? draft.dependsOn.filter((id) => id !== phase.id)
+                                  : [...draft.dependsOn, phase.id],
+                              })
+                            }
+                          />
+                          <label htmlFor={`vorgaenger-${phase.id}`} className="text-sm">{phase.name}</label>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-between gap-2">
+                {draft.id && canManage ? (
+                  <Button variant="outline" onClick={() => deleteMutation.mutate(draft.id!)} disabled={deleteMutation.isPending}>
+                    <Trash2 className="h-4 w-4 mr-2 text-red-600" />
+                    Löschen
+                  </Button>
+                ) : (
+                  <span />
+                )}
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setDraft(null)}>
+                    Abbrechen
+                  </Button>
+                  <Button
+                    onClick={() => saveMutation.mutate(draft)}
+                    disabled={!draft.name.trim() || !draft.plannedEnd || saveMutation.isPending}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Speichern
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Eraser } from "lucide-react";
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void;
+  height?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Unterschriftenfeld für Finger, Stift und Maus; liefert die Unterschrift als PNG-Data-URL
+ */
+export function SignaturePad({ onChange, height = 160, disabled = false }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const hasStrokeRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Canvas an die Pixeldichte des Geräts anpassen, damit die Linie auf Tablets nicht verschwimmt
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext("2d");
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = "round";
+      context.lineJoin = "round";
+      context.strokeStyle = "#111827";
+    }
+  }, [height]);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+    hasStrokeRef.current = true;
+    setIsEmpty(false);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    if (hasStrokeRef.current) {
+      onChange(event.currentTarget.toDataURL("image/png"));
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    hasStrokeRef.current = false;
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        style={{ height, touchAction: "none" }}
+        className={`w-full rounded border border-dashed border-gray-300 bg-white ${disabled ? "opacity-50" : "cursor-crosshair"}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>{isEmpty ? "Bitte im Feld unterschreiben" : "Unterschrift erfasst"}</span>
+        <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={disabled || isEmpty}>
+          <Eraser className="h-3 w-3 mr-1" />
+          Löschen
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { apiRequest } from "./queryClient";
+
+// Große PDF-/DWG-Pläne werden in Chunks hochgeladen und können nach Abbrüchen fortgesetzt werden
+const CHUNKED_UPLOAD_THRESHOLD = 20 * 1024 * 1024;
+const CHUNKED_EXTENSIONS = [".pdf", ".dwg"];
+const MAX_CHUNK_RETRIES = 3;
+
+type ProgressCallback = (percent: number) => void;
+
+async function readError(res: Response): Promise<Error> {
+  const text = await res.text();
+  try {
+    return new Error(JSON.parse(text).message || text);
+  } catch {
+    return new Error(text || res.statusText);
+  }
+}
+
+function resumeKey(file: File, projectId: number) {
+  return `attachment-upload:${projectId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function uploadDirect(file: File, projectId: number, onProgress?: ProgressCallback) {
+  const formData = new FormData();
+  formData.append("projectId", projectId.toString());
+  formData.append("file", file);
+
+  const res = await fetch("/api/attachments", {
+    method: "POST",
+    body: formData,
+    credentials: "same-origin",
+  });
+  if (!res.ok) throw await readError(res);
+  onProgress?.(100);
+  return res.json();
+}
+
+async function uploadChunked(file: File, projectId: number, onProgress?: ProgressCallback) {
+  const key = resumeKey(file, projectId);
+  let session: { id: string; receivedBytes: number; chunkSize: number } | null = null;
+
+  // Begonnenen Upload derselben Datei fortsetzen
+  const savedId = localStorage.getItem(key);
+  if (savedId) {
+    const res = await fetch(`/api/attachments/uploads/${savedId}`, { credentials: "same-origin" });
+    if (res.ok) {
+      session = await res.json();
+    } else {
+      localStorage.removeItem(key);
+    }
+  }
+
+  if (!session) {
+    const res = await apiRequest("POST", "/api/attachments/uploads", {
+      projectId,
+      fileName: file.name,
+      fileSize: file.size,
+      mimeType: file.type || undefined,
+    });
+    session = await res.json();
+    localStorage.setItem(key, session!.id);
+  }
+
+  let offset = session!.receivedBytes;
+  let retries = 0;
+  while (offset < file.size) {
+    onProgress?.(Math.round((offset / file.size) * 100));
+    const chunk = file.slice(offset, offset + session!.chunkSize);
+    const res = await fetch(`/api/attachments/uploads/${session!.id}?offset=${offset}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: chunk,
+      credentials: "same-origin",
+    }).catch(() => null);
+
+    if (res?.ok) {
+      offset = (await res.json()).receivedBytes;
+      retries = 0;
+      continue;
+    }
+
+    if (res && res.status !== 409 && res.status < 500) throw await readError(res);
+    if (++retries > MAX_CHUNK_RETRIES) throw new Error("Upload unterbrochen – bitte erneut versuchen, er wird fortgesetzt.");
+
+    // Nach Netzwerkfehlern oder Offset-Konflikten den tatsächlichen Stand beim Server erfragen
+    const status = await fetch(`/api/attachments/uploads/${session!.id}`, { credentials: "same-origin" }).catch(() => null);
+    if (status?.ok) offset = (await status.json()).receivedBytes;
+  }
+
+  const res = await apiRequest("POST", `/api/attachments/uploads/${session!.id}/complete`);
+  localStorage.removeItem(key);
+  onProgress?.(100);
+  return res.json();
+}
+
+/**
+ * Lädt ein Dokument zu einem Projekt hoch; große PDF-/DWG-Dateien fortsetzbar in Chunks
+ */
+export async function uploadAttachment(file: File, projectId: number, onProgress?: ProgressCallback) {
+  const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+  if (file.size > CHUNKED_UPLOAD_THRESHOLD && CHUNKED_EXTENSIONS.includes(extension)) {
+    return uploadChunked(file, projectId, onProgress);
+  }
+  return uploadDirect(file, projectId, onProgress);
+}
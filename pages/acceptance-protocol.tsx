@@ -0,0 +1,505 @@
+import { useEffect, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Textarea } from "../components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { PageHeader } from "../components/layout/page-header";
+import { MobileNav } from "../components/layout/mobile-nav";
+import { SignaturePad } from "../components/signature-pad";
+import { ACCEPTANCE_RESULTS, getAcceptanceResultLabel } from "../components/project/project-acceptance";
+import { formatDiaryDate } from "../components/project/project-diary";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import {
+  ArrowLeft,
+  AlertTriangle,
+  CheckCircle,
+  Download,
+  Lock,
+  PenLine,
+  Save,
+  ShieldCheck,
+  Trash2,
+} from "lucide-react";
+import type { AcceptanceProtocol } from "../shared/schema";
+
+type AcceptanceProtocolDetail = AcceptanceProtocol & { problems: string[] };
+
+type AcceptanceDraft = {
+  acceptanceDate: string;
+  result: string;
+  participants: string;
+  remarks: string;
+};
+
+type SignatureRole = "customer" | "contractor";
+
+const SIGNATURE_ROLES: Array<{ role: SignatureRole; label: string }> = [
+  { role: "customer", label: "Auftraggeber" },
+  { role: "contractor", label: "Auftragnehmer" },
+];
+
+const toDraft = (protocol: AcceptanceProtocolDetail): AcceptanceDraft => ({
+  acceptanceDate: protocol.acceptanceDate,
+  result: protocol.result,
+  participants: protocol.participants || "",
+  remarks: protocol.remarks || "",
+});
+
+export default function AcceptanceProtocolPage() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AcceptanceDraft | null>(null);
+  const [signRole, setSignRole] = useState<SignatureRole | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+
+  const projectId = params.id;
+  const protocolId = params.protocolId;
+  const protocolKey = [`/api/acceptance-protocols/${protocolId}`];
+
+  const { data: protocol, isLoading } = useQuery<AcceptanceProtocolDetail>({
+    queryKey: protocolKey,
+    enabled: !!protocolId,
+  });
+
+  const { data: project } = useQuery<{ name: string; projectPermissions?: string[] }>({
+    queryKey: [`/api/projects/${projectId}`],
+    enabled: !!projectId,
+  });
+
+  const { data: verification, refetch: verify, isFetching: isVerifying } = useQuery<{ valid: boolean; pdfHash: string | null; signedAt: string | null }>({
+    queryKey: [`/api/acceptance-protocols/${protocolId}/verify`],
+    enabled: false,
+  });
+
+  useEffect(() => {
+    if (protocol) setDraft(toDraft(protocol));
+  }, [protocol]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: protocolKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/acceptance`] });
+  };
+
+  // Speichern übernimmt den aktuellen Stand der Mängel und Prüfungen und verwirft bereits geleistete Unterschriften
+  const saveMutation = useMutation({
+    mutationFn: async (data: AcceptanceDraft) => {
+      const response = await apiRequest("PATCH", `/api/acceptance-protocols/${protocolId}`, {
+        acceptanceDate: data.acceptanceDate,
+        result: data.result,
+        participants: data.participants.trim() || null,
+        remarks: data.remarks.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Abnahmeprotokoll gespeichert" });
+    },
+    onError,
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async (role: SignatureRole) => {
+      const response = await apiRequest("POST", `/api/acceptance-protocols/${protocolId}/signatures`, {
+        role,
+        name: signerName.trim(),
+        image: signatureImage,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setSignRole(null);
+    },
+    onError,
+  });
+
+  const finalizeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/acceptance-protocols/${protocolId}/finalize`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({
+        title: "Abnahme abgeschlossen",
+        description: "Das Protokoll ist unterzeichnet und gegen Änderungen gesichert.",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/acceptance-protocols/${protocolId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/acceptance`] });
+      setLocation(`/projects/${projectId}`);
+    },
+    onError,
+  });
+
+  const handleDownloadPdf = async () => {
+    try {
+      const response = await fetch(`/api/acceptance-protocols/${protocolId}/pdf`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("PDF konnte nicht erstellt werden");
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Abnahmeprotokoll_${projectId}_${protocolId}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  if (isLoading || (protocol && !draft)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  if (!protocol || !draft) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">Abnahmeprotokoll nicht gefunden.</p>
+        <Button variant="outline" onClick={() => setLocation(`/projects/${projectId}`)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Zurück zum Projekt
+        </Button>
+      </div>
+    );
+  }
+
+  const isSigned = protocol.status === "signed";
+  const isLocked = isSigned || !project?.projectPermissions?.includes("manage");
+  const hasSignatures = !!protocol.customerSignature || !!protocol.contractorSignature;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(toDraft(protocol));
+  const { defects, inspections } = protocol.snapshot;
+
+  const signatureOf = (role: SignatureRole) =>
+    role === "customer"
+      ? { name: protocol.customerName, image: protocol.customerSignature, signedAt: protocol.customerSignedAt }
+      : { name: protocol.contractorName, image: protocol.contractorSignature, signedAt: protocol.contractorSignedAt };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => setLocation(`/projects/${projectId}`)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold text-gray-900 truncate">Abnahmeprotokoll</h1>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 mt-1">
+              <span>{formatDiaryDate(protocol.acceptanceDate)}</span>
+              {project?.name && <span className="truncate">{project.name}</span>}
+              {isSigned ? (
+                <Badge className="bg-green-600 text-white">
+                  <Lock className="h-3 w-3 mr-1" />
+                  Unterzeichnet
+                </Badge>
+              ) : (
+                <Badge variant="outline">Entwurf</Badge>
+              )}
+            </div>
+          </div>
+        </div>
+      </PageHeader>
+
+      <div className="p-4 pb-20 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Abnahme</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label>Abnahmetermin *</Label>
+              <Input
+                type="date"
+                value={draft.acceptanceDate}
+                onChange={(e) => setDraft({ ...draft, acceptanceDate: e.target.value })}
+                disabled={isLocked}
+              />
+            </div>
+            <div>
+              <Label>Ergebnis *</Label>
+              <Select value={draft.result} onValueChange={(result) => setDraft({ ...draft, result })} disabled={isLocked}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCEPTANCE_RESULTS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-2">
+              <Label>Teilnehmer</Label>
+              <Textarea
+                value={draft.participants}
+                onChange={(e) => setDraft({ ...draft, participants: e.target.value })}
+                placeholder="z.B. Herr Müller (Stadtwerke), Frau Schmidt (Bauleitung)"
+                rows={2}
+                disabled={isLocked}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label>Bemerkungen</Label>
+              <Textarea
+                value={draft.remarks}
+                onChange={(e) => setDraft({ ...draft, remarks: e.target.value })}
+                placeholder="z.B. Vertragsstrafe vorbehalten, Restarbeiten bis KW 42"
+                rows={3}
+                disabled={isLocked}
+              />
+            </div>
+            {!isLocked && (
+              <div className="md:col-span-2 flex flex-wrap items-center justify-end gap-3">
+                {hasSignatures && isDirty && (
+                  <p className="text-xs text-orange-700">Beim Speichern werden die bisherigen Unterschriften verworfen.</p>
+                )}
+                <Button variant="outline" onClick={() => saveMutation.mutate(draft)} disabled={!draft.acceptanceDate || saveMutation.isPending}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Speichern und Mängel aktualisieren
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {protocol.result === "refused" ? "Festgestellte Mängel" : "Vorbehaltene Mängel"} ({defects.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {defects.length === 0 && <p className="text-sm text-gray-500">Keine offenen Mängel.</p>}
+            {defects.map((defect) => (
+              <div key={defect.number} className="rounded-lg border border-gray-200 p-3">
+                <p className="text-sm font-medium text-gray-900">
+                  Nr. {defect.number} · {defect.title}
+                </p>
+                {defect.description && <p className="text-xs text-gray-600 mt-1">{defect.description}</p>}
+                <p className="text-xs text-gray-500 mt-1">
+                  {[
+                    defect.companyName,
+                    defect.deadline && `Frist ${formatDiaryDate(defect.deadline)}`,
+                    defect.location,
+                  ].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Prüfungen ({inspections.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {inspections.length === 0 && <p className="text-sm text-gray-500">Keine Prüfungen im Projekt.</p>}
+            {inspections.map((inspection) => (
+              <div key={inspection.id} className="rounded-lg border border-gray-200 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900 truncate">{inspection.title}</p>
+                  <span className="text-xs text-gray-600 whitespace-nowrap">
+                    {inspection.pass} i.O. · {inspection.fail} n.i.O. · {inspection.open} offen
+                  </span>
+                </div>
+                {inspection.failedItems.length > 0 && (
+                  <ul className="list-disc pl-5 mt-1 text-xs text-red-700 space-y-1">
+                    {inspection.failedItems.map((item, index) => (
+                      <li key={index}>
+                        {item.question}
+                        {item.comment && ` – ${item.comment}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Unterschriften</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {SIGNATURE_ROLES.map(({ role, label }) => {
+              const signature = signatureOf(role);
+              return (
+                <div key={role} className="rounded-lg border border-gray-200 p-3 space-y-2">
+                  <p className="text-sm font-medium text-gray-900">{label}</p>
+                  {signature.image ? (
+                    <>
+                      <img src={signature.image} alt={`Unterschrift ${label}`} className="h-16 object-contain bg-white" />
+                      <p className="text-xs text-gray-600">
+                        {signature.name} · {signature.signedAt && new Date(signature.signedAt).toLocaleString("de-DE")}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-xs text-gray-500">Noch nicht unterschrieben.</p>
+                  )}
+                  {!isLocked && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isDirty}
+                      onClick={() => {
+                        setSignerName(signature.name || "");
+                        setSignatureImage(null);
+                        setSignRole(role);
+                      }}
+                    >
+                      <PenLine className="h-4 w-4 mr-1" />
+                      {signature.image ? "Neu unterschreiben" : "Unterschreiben"}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+            {!isLocked && isDirty && (
+              <p className="md:col-span-2 text-xs text-orange-700">Bitte zuerst die Änderungen speichern.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {isSigned ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Prüfsumme</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-gray-700">
+                {getAcceptanceResultLabel(protocol.result)} · unterzeichnet am {protocol.signedAt && new Date(protocol.signedAt).toLocaleString("de-DE")}
+              </p>
+              <p className="font-mono text-xs text-gray-600 break-all">SHA-256 {protocol.pdfHash}</p>
+              <div className="flex flex-wrap items-center gap-3">
+                <Button size="sm" variant="outline" onClick={() => verify()} disabled={isVerifying}>
+                  <ShieldCheck className="h-4 w-4 mr-1" />
+                  Unversehrtheit prüfen
+                </Button>
+                {verification && (
+                  verification.valid ? (
+                    <span className="flex items-center gap-1 text-sm text-green-700">
+                      <CheckCircle className="h-4 w-4" />
+                      Das gespeicherte PDF ist unverändert.
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-sm text-red-700">
+                      <AlertTriangle className="h-4 w-4" />
+                      Das gespeicherte PDF wurde verändert oder fehlt.
+                    </span>
+                  )
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          !isLocked && protocol.problems.length > 0 && (
+            <Card className="border-orange-200 bg-orange-50">
+              <CardContent className="p-4">
+                <p className="flex items-center gap-2 text-sm font-medium text-orange-800 mb-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  Vor dem Abschluss noch offen
+                </p>
+                <ul className="list-disc pl-5 text-sm text-orange-800 space-y-1">
+                  {protocol.problems.map((problem) => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {!isLocked && (
+            <Button variant="outline" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending}>
+              <Trash2 className="h-4 w-4 mr-2 text-red-600" />
+              Löschen
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleDownloadPdf}>
+            <Download className="h-4 w-4 mr-2" />
+            {isSigned ? "PDF" : "PDF-Vorschau"}
+          </Button>
+          {!isLocked && (
+            <Button
+              onClick={() => finalizeMutation.mutate()}
+              disabled={isDirty || protocol.problems.length > 0 || finalizeMutation.isPending}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              <Lock className="h-4 w-4 mr-2" />
+              Abnahme abschließen
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={!!signRole} onOpenChange={(open) => !open && setSignRole(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Unterschrift {SIGNATURE_ROLES.find((option) => option.role === signRole)?.label}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Mit der Unterschrift wird das Protokoll im aktuellen Stand mit {defects.length} vorbehaltenen Mängeln bestätigt.
+            </p>
+            <div>
+              <Label>Name</Label>
+              <Input value={signerName} onChange={(e) => setSignerName(e.target.value)} placeholder="Vor- und Nachname" />
+            </div>
+            <SignaturePad onChange={setSignatureImage} />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSignRole(null)}>
+                Abbrechen
+              </Button>
+              <Button
+                onClick={() => signRole && signMutation.mutate(signRole)}
+                disabled={!signerName.trim() || !signatureImage || signMutation.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Unterschreiben
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <MobileNav />
+    </div>
+  );
+}
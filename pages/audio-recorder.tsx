@@ -33,12 +33,61 @@ interface AudioRecording {
   duration: number;
   description: string;
   transcription?: string;
+  transcriptionConfidence?: string | null;
+  transcriptionSegments?: TranscriptSegment[] | null;
   gpsLatitude?: string;
   gpsLongitude?: string;
-  recordedAt: Date;
+  createdAt: string;
   recordedBy: string;
 }
 
+interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  confidence: number | null;
+}
+
+interface TranscriptionResult {
+  transcription: string;
+  confidence: number | null;
+  language: string | null;
+  segments: TranscriptSegment[];
+  provider: string;
+}
+
+const formatTimestamp = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Segmente mit Zeitstempel; unsichere Erkennung (< 60 %) wird hervorgehoben
+function TranscriptSegments({ segments, onSeek }: { segments: TranscriptSegment[]; onSeek?: (seconds: number) => void }) {
+  return (
+    <div className="space-y-1">
+      {segments.map((segment, index) => (
+        <button
+          key={index}
+          type="button"
+          onClick={() => onSeek?.(segment.start)}
+          className="w-full text-left flex items-start space-x-2 rounded p-1 text-sm hover:bg-gray-100"
+        >
+          <span className="font-mono text-xs text-gray-500 pt-0.5 whitespace-nowrap">
+            {formatTimestamp(segment.start)}–{formatTimestamp(segment.end)}
+          </span>
+          <span className={`flex-1 ${segment.confidence !== null && segment.confidence < 0.6 ? 'text-orange-600' : ''}`}>
+            {segment.text}
+          </span>
+          {segment.confidence !== null && (
+            <span className="text-xs text-gray-400 pt-0.5">{Math.round(segment.confidence * 100)}%</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export default function AudioRecorder() {
   const [, setLocation] = useLocation();
   const [isRecording, setIsRecording] = useState(false);
@@ -51,6 +100,8 @@ export default function AudioRecorder() {
   const [transcription, setTranscription] = useState("");
   const [gpsLocation, setGpsLocation] = useState<{lat: number; lng: number} | null>(null);
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcriptionResult, setTranscriptionResult] = useState<TranscriptionResult | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
@@ -76,10 +127,11 @@ export default function AudioRecorder() {
       audioData: string;
       duration: number;
       transcription?: string;
+      transcriptionResult?: TranscriptionResult;
       latitude?: number;
       longitude?: number;
     }) => {
-      return await apiRequest("/api/audio-records", "POST", data);
+      return await apiRequest("POST", "/api/audio-records", data);
     },
     onSuccess: () => {
       toast({
@@ -101,10 +153,12 @@ export default function AudioRecorder() {
   // Audio transkribieren
   const transcribeMutation = useMutation({
     mutationFn: async (audioData: string) => {
-      return await apiRequest("/api/audio/transcribe", "POST", { audioData });
+      const res = await apiRequest("POST", "/api/audio/transcribe", { audioData, language: "de" });
+      return await res.json() as TranscriptionResult;
     },
-    onSuccess: (data: any) => {
+    onSuccess: (data) => {
       setTranscription(data.transcription);
+      setTranscriptionResult(data);
       setIsTranscribing(false);
     },
     onError: (error) => {
@@ -117,6 +171,30 @@ export default function AudioRecorder() {
     },
   });
 
+  // Gespeicherte Aufnahme nachträglich transkribieren
+  const transcribeRecordingMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("POST", `/api/audio-records/${id}/transcribe`, { language: "de" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audio-records"] });
+    },
+    onError: () => {
+      toast({
+        title: "Transkription fehlgeschlagen",
+        description: "Die Spracherkennung konnte nicht durchgeführt werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const seekTo = (seconds: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = seconds;
+      audioRef.current.play();
+    }
+  };
+
   useEffect(() => {
     getCurrentLocation();
     return () => {
@@ -228,6 +306,7 @@ export default function AudioRecorder() {
     setDuration(0);
     setDescription("");
     setTranscription("");
+    setTranscriptionResult(null);
     setSelectedProject("");
     setIsRecording(false);
     setIsPaused(false);
@@ -260,6 +339,7 @@ export default function AudioRecorder() {
         audioData: base64Data,
         duration,
         transcription: transcription || undefined,
+        transcriptionResult: transcriptionResult || undefined,
         latitude: gpsLocation?.lat,
         longitude: gpsLocation?.lng,
       });
@@ -376,7 +456,7 @@ export default function AudioRecorder() {
             {/* Audio Playback */}
             {audioUrl && (
               <div className="space-y-4">
-                <audio controls className="w-full">
+                <audio ref={audioRef} controls className="w-full">
                   <source src={audioUrl} type="audio/webm" />
                   Ihr Browser unterstützt das Audio-Element nicht.
                 </audio>
@@ -439,6 +519,16 @@ export default function AudioRecorder() {
                     rows={4}
                     placeholder="Automatisch generierte Transkription..."
                   />
+                  {transcriptionResult && transcriptionResult.segments.length > 0 && (
+                    <div className="mt-2">
+                      <p className="text-xs text-gray-500 mb-1">
+                        Segmente ({transcriptionResult.provider}
+                        {transcriptionResult.confidence !== null && `, Konfidenz ${Math.round(transcriptionResult.confidence * 100)}%`})
+                        – Klick springt zur Stelle
+                      </p>
+                      <TranscriptSegments segments={transcriptionResult.segments} onSeek={seekTo} />
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -463,19 +553,46 @@ export default function AudioRecorder() {
             <CardContent>
               <div className="space-y-3">
                 {recordings.slice(0, 5).map((recording) => (
-                  <div key={recording.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                    <div className="flex-1">
-                      <p className="font-medium text-sm">{recording.description || 'Unbenannte Aufnahme'}</p>
-                      <div className="flex items-center space-x-2 text-xs text-gray-500">
-                        <Clock className="h-3 w-3" />
-                        <span>{formatTime(recording.duration)}</span>
-                        <span>•</span>
-                        <span>{new Date(recording.recordedAt).toLocaleDateString('de-DE')}</span>
+                  <div key={recording.id} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <p className="font-medium text-sm">{recording.description || 'Unbenannte Aufnahme'}</p>
+                        <div className="flex items-center space-x-2 text-xs text-gray-500">
+                          <Clock className="h-3 w-3" />
+                          <span>{formatTime(recording.duration)}</span>
+                          <span>•</span>
+                          <span>{new Date(recording.createdAt).toLocaleDateString('de-DE')}</span>
+                        </div>
                       </div>
+                      {!recording.transcription && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => transcribeRecordingMutation.mutate(recording.id!)}
+                          disabled={transcribeRecordingMutation.isPending}
+                          title="Transkribieren"
+                        >
+                          <FileAudio className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/audio-records/${recording.id}/file?download=1`}>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
                     </div>
-                    <Button variant="ghost" size="sm">
-                      <Download className="h-4 w-4" />
-                    </Button>
+                    {recording.transcriptionSegments && recording.transcriptionSegments.length > 0 ? (
+                      <details className="mt-2">
+                        <summary className="text-xs text-gray-600 cursor-pointer">
+                          Transkript ({recording.transcriptionSegments.length} Segmente)
+                        </summary>
+                        <div className="mt-1">
+                          <TranscriptSegments segments={recording.transcriptionSegments} />
+                        </div>
+                      </details>
+                    ) : recording.transcription ? (
+                      <p className="mt-2 text-xs text-gray-600">{recording.transcription}</p>
+                    ) : null}
                   </div>
                 ))}
               </div>
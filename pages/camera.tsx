@@ -33,6 +33,19 @@ export default function Camera() {
     queryKey: ["/api/projects"],
   });
 
+  // Projektvorschlag anhand der aktuellen GPS-Position
+  const { data: suggestion } = useQuery<{ suggestedProject: { projectId: number; projectName: string; distanceMeters: number } | null }>({
+    queryKey: [`/api/photos/project-suggestion?latitude=${gpsLocation?.lat}&longitude=${gpsLocation?.lng}`],
+    enabled: !!gpsLocation && showSaveDialog,
+  });
+  const suggestedProject = suggestion?.suggestedProject ?? null;
+
+  useEffect(() => {
+    if (suggestedProject && !selectedProject) {
+      setSelectedProject(suggestedProject.projectId.toString());
+    }
+  }, [suggestedProject]);
+
   // Foto speichern Mutation
   const savePhotoMutation = useMutation({
     mutationFn: async (data: {
@@ -42,7 +55,7 @@ export default function Camera() {
       latitude?: number;
       longitude?: number;
     }) => {
-      return await apiRequest("/api/photos", "POST", data);
+      return await apiRequest("POST", "/api/photos", data);
     },
     onSuccess: () => {
       toast({
@@ -359,6 +372,11 @@ export default function Camera() {
                       ))}
                     </SelectContent>
                   </Select>
+                  {suggestedProject && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Vorschlag per GPS: {suggestedProject.projectName} (ca. {suggestedProject.distanceMeters} m entfernt)
+                    </p>
+                  )}
                 </div>
 
                 {/* Beschreibung */}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Badge } from "../components/ui/badge";
@@ -8,9 +9,11 @@ import { Input } from "../components/ui/input";
 import { Label } from "../components/ui/label";
 import { Textarea } from "../components/ui/textarea";
 import { Checkbox } from "../components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/dialog";
 import { PageHeader } from "../components/layout/page-header";
 import { MobileNav } from "../components/layout/mobile-nav";
 import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
 import {
   ArrowLeft,
   CheckCircle,
@@ -24,123 +27,69 @@ import {
   FileText,
   Droplets
 } from "lucide-react";
+import type { Photo } from "../shared/schema";
+
+const TYP_TEXT: Record<string, string> = {
+  hochwasser: "Hochwasserereignis",
+  uebung: "Übung",
+  starkregen: "Starkregen",
+};
+
+const PFLICHTFELD_TEXT: Record<string, string> = {
+  datum: "Datum",
+  pegelstand: "Pegelstand",
+  foto: "Foto",
+  bemerkung: "Bemerkung",
+};
 
 export default function ChecklistDetail() {
   const params = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("aufgaben");
+  const [taskDrafts, setTaskDrafts] = useState<Record<number, { datum?: string; pegelstand_cm?: string; bemerkung?: string }>>({});
+  const [fotoAufgabe, setFotoAufgabe] = useState<any | null>(null);
+  const [fotoAuswahl, setFotoAuswahl] = useState<number[]>([]);
 
   const checklistId = params.id;
 
-  // Demo-Daten für eine vollständige Checkliste
-  const checklist = {
-    id: checklistId,
-    titel: "Hochwasserereignis Juni 2025",
-    typ: "hochwasser",
-    status: "in_bearbeitung",
-    erstellt_am: "2025-06-29T17:35:00Z",
-    erstellt_von: "Lea Zimmer",
-    beginn_pegelstand_cm: 245,
-    beschreibung: "Starkregen-Event nach Unwetterwarnung",
-    fortschritt: 45,
-    aufgaben_gesamt: 11,
-    aufgaben_erledigt: 5
-  };
+  const { data: checklist, isLoading } = useQuery<any>({
+    queryKey: [`/api/flood/checklists/${checklistId}`],
+    enabled: !!checklistId,
+  });
 
-  const aufgabenBeginn = [
-    {
-      id: 1,
-      nr: 1,
-      beschreibung: "Pegelstand dokumentieren und melden",
-      erledigt: true,
-      erledigt_am: "2025-06-29T17:40:00Z",
-      erledigt_von: "Lea Zimmer",
-      datum: "2025-06-29",
-      pegelstand_cm: 245,
-      bemerkung: "Pegelstand steigt kontinuierlich"
-    },
-    {
-      id: 2,
-      nr: 2,
-      beschreibung: "Einsatzleitung informieren",
-      erledigt: true,
-      erledigt_am: "2025-06-29T17:45:00Z",
-      erledigt_von: "Lea Zimmer",
-      datum: "2025-06-29",
-      bemerkung: "Herr Müller telefonisch erreicht"
-    },
-    {
-      id: 3,
-      nr: 3,
-      beschreibung: "Absperrschieber auf Funktionsfähigkeit prüfen",
-      erledigt: true,
-      erledigt_am: "2025-06-29T18:00:00Z",
-      erledigt_von: "Lea Zimmer",
-      bemerkung: "Alle 8 Schieber getestet, 1 defekt (Nr. 3)"
-    },
-    {
-      id: 4,
-      nr: 4,
-      beschreibung: "Notfallausrüstung überprüfen",
-      erledigt: true,
-      erledigt_am: "2025-06-29T18:15:00Z",
-      erledigt_von: "Lea Zimmer",
-      bemerkung: "Sandsäcke und Pumpen einsatzbereit"
-    },
-    {
-      id: 5,
-      nr: 5,
-      beschreibung: "Deichwachen einteilen und briefen",
-      erledigt: true,
-      erledigt_am: "2025-06-29T18:30:00Z",
-      erledigt_von: "Lea Zimmer",
-      bemerkung: "4 Teams à 2 Personen eingeteilt"
-    },
-    {
-      id: 6,
-      nr: 6,
-      beschreibung: "Evakuierungspläne aktualisieren",
-      erledigt: false,
-      bemerkung: ""
-    }
-  ];
-
-  const aufgabenEnde = [
-    {
-      id: 7,
-      nr: 1,
-      beschreibung: "Endpegelstand dokumentieren",
-      erledigt: false
-    },
-    {
-      id: 8,
-      nr: 2,
-      beschreibung: "Absperrschieber zurücksetzen",
-      erledigt: false
-    },
-    {
-      id: 9,
-      nr: 3,
-      beschreibung: "Ausrüstung reinigen und verstauen",
-      erledigt: false
+  const { data: photos = [] } = useQuery<Photo[]>({
+    queryKey: ["/api/photos"],
+    enabled: fotoAufgabe !== null,
+  });
+
+  const aufgaben: any[] = checklist?.aufgaben || [];
+  const aufgabenBeginn = aufgaben.filter((aufgabe) => aufgabe.abschnitt === "beginn");
+  const aufgabenEnde = aufgaben.filter((aufgabe) => aufgabe.abschnitt === "ende");
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ taskId, data }: { taskId: number; data: Record<string, unknown> }) => {
+      const response = await apiRequest("PATCH", `/api/flood/checklists/${checklistId}/tasks/${taskId}`, data);
+      return response.json();
     },
-    {
-      id: 10,
-      nr: 4,
-      beschreibung: "Schadensdokumentation erstellen",
-      erledigt: false
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/flood/checklists/${checklistId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/flood/checklists"] });
     },
-    {
-      id: 11,
-      nr: 5,
-      beschreibung: "Abschlussbericht verfassen",
-      erledigt: false
-    }
-  ];
+  });
+
+  const getDraftValue = (aufgabe: any, field: "datum" | "pegelstand_cm" | "bemerkung") => {
+    const draft = taskDrafts[aufgabe.id]?.[field];
+    return draft !== undefined ? draft : (aufgabe[field] ?? "").toString();
+  };
+
+  const setDraftValue = (taskId: number, field: "datum" | "pegelstand_cm" | "bemerkung", value: string) => {
+    setTaskDrafts((prev) => ({ ...prev, [taskId]: { ...prev[taskId], [field]: value } }));
+  };
 
   const handleTaskToggle = async (taskId: number, checked: boolean) => {
     try {
+      await updateTaskMutation.mutateAsync({ taskId, data: { erledigt: checked } });
       toast({
         title: "Aufgabe aktualisiert",
         description: checked ? "Aufgabe als erledigt markiert" : "Aufgabe als offen markiert",
@@ -148,19 +97,184 @@ export default function ChecklistDetail() {
     } catch (error) {
       toast({
         title: "Fehler",
-        description: "Fehler beim Aktualisieren der Aufgabe.",
+        description: error instanceof Error ? error.message : "Fehler beim Aktualisieren der Aufgabe.",
         variant: "destructive",
       });
     }
   };
 
-  const handleSaveTask = async (taskId: number) => {
-    toast({
-      title: "Gespeichert",
-      description: "Aufgaben-Details wurden gespeichert.",
+  const isPflichtfeld = (aufgabe: any, feld: string) => (aufgabe.pflichtfelder || []).includes(feld);
+
+  // Offene Pflichtangaben anhand der gespeicherten Werte, wie sie der Server beim Abhaken prüft
+  const getFehlendePflichtfelder = (aufgabe: any) =>
+    (aufgabe.pflichtfelder || []).filter((feld: string) => {
+      if (feld === "datum") return !aufgabe.datum;
+      if (feld === "pegelstand") return aufgabe.pegelstand_cm == null;
+      if (feld === "foto") return (aufgabe.foto_ids || []).length === 0;
+      if (feld === "bemerkung") return !aufgabe.bemerkung?.trim();
+      return false;
     });
+
+  const openFotoDialog = (aufgabe: any) => {
+    setFotoAufgabe(aufgabe);
+    setFotoAuswahl(aufgabe.foto_ids || []);
+  };
+
+  const handleSaveFotos = async () => {
+    if (!fotoAufgabe) return;
+
+    try {
+      await updateTaskMutation.mutateAsync({ taskId: fotoAufgabe.id, data: { foto_ids: fotoAuswahl } });
+      setFotoAufgabe(null);
+      toast({
+        title: "Gespeichert",
+        description: "Fotos wurden der Aufgabe zugeordnet.",
+      });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Fotos konnten nicht zugeordnet werden.",
+        variant: "destructive",
+      });
+    }
   };
 
+  const handleSaveTask = async (taskId: number) => {
+    const draft = taskDrafts[taskId];
+    if (!draft) return;
+
+    try {
+      await updateTaskMutation.mutateAsync({ taskId, data: draft });
+      setTaskDrafts((prev) => {
+        const { [taskId]: _saved, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: "Gespeichert",
+        description: "Aufgaben-Details wurden gespeichert.",
+      });
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Aufgaben-Details konnten nicht gespeichert werden.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderTask = (aufgabe: any) => {
+    const fehlend = getFehlendePflichtfelder(aufgabe);
+    const withPegelstand = isPflichtfeld(aufgabe, "pegelstand") || aufgabe.pegelstand_cm != null;
+
+    return (
+      <Card key={aufgabe.id} className="p-4 border border-gray-200">
+        <div className="space-y-3">
+          <div className="flex items-start gap-3">
+            <Checkbox 
+              checked={aufgabe.erledigt}
+              onCheckedChange={(checked) => handleTaskToggle(aufgabe.id, !!checked)}
+              disabled={updateTaskMutation.isPending}
+              className="mt-1"
+            />
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm text-gray-900">
+                  {aufgabe.nr}. {aufgabe.beschreibung}
+                </span>
+                {aufgabe.erledigt && (
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                )}
+              </div>
+              
+              {aufgabe.erledigt && aufgabe.erledigt_am && (
+                <div className="text-xs text-gray-500 mt-1">
+                  Erledigt: {new Date(aufgabe.erledigt_am).toLocaleString('de-DE')} von {aufgabe.erledigt_von}
+                </div>
+              )}
+              {!aufgabe.erledigt && fehlend.length > 0 && (
+                <div className="text-xs text-orange-600 mt-1">
+                  Vor dem Abhaken erforderlich: {fehlend.map((feld: string) => PFLICHTFELD_TEXT[feld] || feld).join(", ")}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Eingabefelder für Details */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 ml-6">
+            <div>
+              <Label className="text-xs">Datum{isPflichtfeld(aufgabe, "datum") ? " *" : ""}</Label>
+              <Input 
+                type="date" 
+                value={getDraftValue(aufgabe, "datum")} 
+                onChange={(e) => setDraftValue(aufgabe.id, "datum", e.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+            {withPegelstand && (
+              <div>
+                <Label className="text-xs">Pegelstand (cm){isPflichtfeld(aufgabe, "pegelstand") ? " *" : ""}</Label>
+                <Input 
+                  type="number" 
+                  value={getDraftValue(aufgabe, "pegelstand_cm")} 
+                  onChange={(e) => setDraftValue(aufgabe.id, "pegelstand_cm", e.target.value)}
+                  placeholder="z.B. 245"
+                  className="h-8 text-sm"
+                />
+              </div>
+            )}
+            <div className="md:col-span-2">
+              <Label className="text-xs">Bemerkung{isPflichtfeld(aufgabe, "bemerkung") ? " *" : ""}</Label>
+              <Textarea 
+                value={getDraftValue(aufgabe, "bemerkung")} 
+                onChange={(e) => setDraftValue(aufgabe.id, "bemerkung", e.target.value)}
+                placeholder="Zusätzliche Informationen..."
+                rows={2}
+                className="text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2 ml-6">
+            <Button 
+              size="sm" 
+              variant="outline"
+              onClick={() => handleSaveTask(aufgabe.id)}
+              disabled={!taskDrafts[aufgabe.id] || updateTaskMutation.isPending}
+            >
+              <Save className="h-3 w-3 mr-1" />
+              Speichern
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => openFotoDialog(aufgabe)}>
+              <Camera className="h-3 w-3 mr-1" />
+              Foto{isPflichtfeld(aufgabe, "foto") ? " *" : ""}
+              {(aufgabe.foto_ids || []).length > 0 && ` (${aufgabe.foto_ids.length})`}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!checklist) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">Checkliste nicht gefunden.</p>
+        <Button variant="outline" onClick={() => setLocation("/flood-protection")}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Zurück zum Hochwasserschutz
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <PageHeader>
@@ -177,9 +291,11 @@ export default function ChecklistDetail() {
             <div className="flex items-center gap-4 text-sm text-gray-600 mt-1">
               <span>Erstellt: {new Date(checklist.erstellt_am).toLocaleDateString('de-DE')}</span>
               <Badge className="bg-blue-600 text-white">
-                {checklist.typ === "hochwasser" ? "Hochwasser" : "Übung"}
+                {TYP_TEXT[checklist.typ] || checklist.typ}
               </Badge>
-              <span>Pegelstand: {checklist.beginn_pegelstand_cm} cm</span>
+              {checklist.beginn_pegelstand_cm != null && (
+                <span>Pegelstand: {checklist.beginn_pegelstand_cm} cm</span>
+              )}
             </div>
           </div>
         </div>
@@ -220,94 +336,10 @@ export default function ChecklistDetail() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {aufgabenBeginn.map((aufgabe) => (
-                  <Card key={aufgabe.id} className="p-4 border border-gray-200">
-                    <div className="space-y-3">
-                      <div className="flex items-start gap-3">
-                        <Checkbox 
-                          checked={aufgabe.erledigt}
-                          onCheckedChange={(checked) => handleTaskToggle(aufgabe.id, !!checked)}
-                          className="mt-1"
-                        />
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2">
-                            <span className="font-medium text-sm text-gray-900">
-                              {aufgabe.nr}. {aufgabe.beschreibung}
-                            </span>
-                            {aufgabe.erledigt && (
-                              <CheckCircle className="h-4 w-4 text-green-600" />
-                            )}
-                          </div>
-                          
-                          {aufgabe.erledigt && (
-                            <div className="text-xs text-gray-500 mt-1">
-                              Erledigt: {new Date(aufgabe.erledigt_am!).toLocaleString('de-DE')} von {aufgabe.erledigt_von}
-                            </div>
-                          )}
-                        </div>
-                      </div>
-
-                      {/* Eingabefelder für Details */}
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 ml-6">
-                        {aufgabe.nr === 1 && (
-                          <>
-                            <div>
-                              <Label className="text-xs">Datum *</Label>
-                              <Input 
-                                type="date" 
-                                value={aufgabe.datum || ""} 
-                                className="h-8 text-sm"
-                              />
-                            </div>
-                            <div>
-                              <Label className="text-xs">Pegelstand (cm) *</Label>
-                              <Input 
-                                type="number" 
-                                value={aufgabe.pegelstand_cm || ""} 
-                                placeholder="z.B. 245"
-                                className="h-8 text-sm"
-                              />
-                            </div>
-                          </>
-                        )}
-                        {aufgabe.nr !== 1 && (
-                          <div>
-                            <Label className="text-xs">Datum</Label>
-                            <Input 
-                              type="date" 
-                              value={aufgabe.datum || ""} 
-                              className="h-8 text-sm"
-                            />
-                          </div>
-                        )}
-                        <div className="md:col-span-2">
-                          <Label className="text-xs">Bemerkung</Label>
-                          <Textarea 
-                            value={aufgabe.bemerkung || ""} 
-                            placeholder="Zusätzliche Informationen..."
-                            rows={2}
-                            className="text-sm"
-                          />
-                        </div>
-                      </div>
-
-                      <div className="flex gap-2 ml-6">
-                        <Button 
-                          size="sm" 
-                          variant="outline"
-                          onClick={() => handleSaveTask(aufgabe.id)}
-                        >
-                          <Save className="h-3 w-3 mr-1" />
-                          Speichern
-                        </Button>
-                        <Button size="sm" variant="outline">
-                          <Camera className="h-3 w-3 mr-1" />
-                          Foto
-                        </Button>
-                      </div>
-                    </div>
-                  </Card>
-                ))}
+                {aufgabenBeginn.map((aufgabe) => renderTask(aufgabe))}
+                {aufgabenBeginn.length === 0 && (
+                  <p className="text-sm text-gray-500">Keine Aufgaben in diesem Abschnitt.</p>
+                )}
               </CardContent>
             </Card>
 
@@ -320,53 +352,10 @@ export default function ChecklistDetail() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {aufgabenEnde.map((aufgabe) => (
-                  <Card key={aufgabe.id} className="p-4 border border-gray-200">
-                    <div className="space-y-3">
-                      <div className="flex items-start gap-3">
-                        <Checkbox 
-                          checked={aufgabe.erledigt}
-                          onCheckedChange={(checked) => handleTaskToggle(aufgabe.id, !!checked)}
-                          className="mt-1"
-                        />
-                        <div className="flex-1">
-                          <span className="font-medium text-sm text-gray-900">
-                            {aufgabe.nr}. {aufgabe.beschreibung}
-                          </span>
-                        </div>
-                      </div>
-
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 ml-6">
-                        <div>
-                          <Label className="text-xs">Datum</Label>
-                          <Input 
-                            type="date" 
-                            className="h-8 text-sm"
-                          />
-                        </div>
-                        <div className="md:col-span-2">
-                          <Label className="text-xs">Bemerkung</Label>
-                          <Textarea 
-                            placeholder="Zusätzliche Informationen..."
-                            rows={2}
-                            className="text-sm"
-                          />
-                        </div>
-                      </div>
-
-                      <div className="flex gap-2 ml-6">
-                        <Button size="sm" variant="outline">
-                          <Save className="h-3 w-3 mr-1" />
-                          Speichern
-                        </Button>
-                        <Button size="sm" variant="outline">
-                          <Camera className="h-3 w-3 mr-1" />
-                          Foto
-                        </Button>
-                      </div>
-                    </div>
-                  </Card>
-                ))}
+                {aufgabenEnde.map((aufgabe) => renderTask(aufgabe))}
+                {aufgabenEnde.length === 0 && (
+                  <p className="text-sm text-gray-500">Keine Aufgaben in diesem Abschnitt.</p>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -399,7 +388,11 @@ export default function ChecklistDetail() {
                   </div>
                   <div>
                     <Label className="text-sm font-medium text-gray-600">Typ</Label>
-                    <p className="text-sm">{checklist.typ === "hochwasser" ? "Hochwasserereignis" : "Übung"}</p>
+                    <p className="text-sm">{TYP_TEXT[checklist.typ] || checklist.typ}</p>
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium text-gray-600">Vorlage</Label>
+                    <p className="text-sm">{checklist.vorlage_version ? `Version ${checklist.vorlage_version}` : "Standardaufgaben"}</p>
                   </div>
                   <div>
                     <Label className="text-sm font-medium text-gray-600">Status</Label>
@@ -408,7 +401,7 @@ export default function ChecklistDetail() {
                 </div>
                 <div>
                   <Label className="text-sm font-medium text-gray-600">Beschreibung</Label>
-                  <p className="text-sm">{checklist.beschreibung}</p>
+                  <p className="text-sm">{checklist.beschreibung || "Keine Beschreibung"}</p>
                 </div>
               </CardContent>
             </Card>
@@ -416,6 +409,53 @@ export default function ChecklistDetail() {
         </Tabs>
       </div>
 
+      <Dialog open={fotoAufgabe !== null} onOpenChange={(open) => !open && setFotoAufgabe(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Fotos zur Aufgabe</DialogTitle>
+            {fotoAufgabe && (
+              <p className="text-sm text-gray-600">{fotoAufgabe.nr}. {fotoAufgabe.beschreibung}</p>
+            )}
+          </DialogHeader>
+          {photos.length === 0 ? (
+            <p className="text-sm text-gray-500">Keine Fotos vorhanden. Fotos können über die Kamera aufgenommen werden.</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto space-y-2 border rounded p-2">
+              {photos.map((photo) => (
+                <div key={photo.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`aufgabe-foto-${photo.id}`}
+                    checked={fotoAuswahl.includes(photo.id)}
+                    onCheckedChange={() =>
+                      setFotoAuswahl((prev) =>
+                        prev.includes(photo.id) ? prev.filter((id) => id !== photo.id) : [...prev, photo.id],
+                      )
+                    }
+                  />
+                  <img
+                    src={`/api/photos/${photo.id}/thumbnail`}
+                    alt=""
+                    className="h-10 w-10 rounded object-cover bg-gray-100"
+                  />
+                  <label htmlFor={`aufgabe-foto-${photo.id}`} className="text-sm">
+                    {photo.description || photo.fileName}
+                  </label>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setFotoAufgabe(null)}>
+              Abbrechen
+            </Button>
+            <Button onClick={handleSaveFotos} disabled={updateTaskMutation.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              Speichern
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <MobileNav />
     </div>
   );
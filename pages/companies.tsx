@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,18 +9,24 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Building2, Plus, Edit, Trash2, User, Mail, Phone, MapPin } from "lucide-react";
+import { Building2, Plus, Edit, Trash2, User, Mail, Phone, MapPin, HardHat, Archive, ArchiveRestore, Upload, Copy } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
-import type { Company, CompanyContact } from "@shared/schema";
+import { AddressExportMenu, AddressImportWizard } from "@/components/address-book/address-import-wizard";
+import { VCardDownloadButton, VCardImportButton } from "@/components/address-book/contact-vcard";
+import { formatEuro, formatPeriod } from "@/components/project/project-companies";
+import type { Company, CompanyContact, CompanyProjectAssignment } from "@shared/schema";
 
 export default function CompaniesPage() {
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
   const [isCompanyDialogOpen, setIsCompanyDialogOpen] = useState(false);
   const [isContactDialogOpen, setIsContactDialogOpen] = useState(false);
   const [editingCompany, setEditingCompany] = useState<Company | null>(null);
   const [editingContact, setEditingContact] = useState<CompanyContact | null>(null);
   const [selectedCompanyId, setSelectedCompanyId] = useState<number | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   // Company form state
   const [companyForm, setCompanyForm] = useState({
@@ -30,6 +37,7 @@ export default function CompaniesPage() {
     houseNumber: "",
     postalCode: "",
     city: "",
+    country: "DE",
     website: ""
   });
 
@@ -44,65 +52,115 @@ export default function CompaniesPage() {
 
   // Fetch companies
   const { data: companies = [] } = useQuery<Company[]>({
-    queryKey: ["/api/companies"]
+    queryKey: [showArchived ? "/api/companies?archived=true" : "/api/companies"]
   });
 
+  // Refresh active and archived list together
+  const refreshCompanies = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/companies?archived=true"] });
+  };
+
+  const showError = (description: string) => () => {
+    toast({ title: "Fehler", description, variant: "destructive" });
+  };
+
   // Fetch contacts for selected company
   const { data: contacts = [] } = useQuery<CompanyContact[]>({
     queryKey: [`/api/companies/${selectedCompanyId}/contacts`],
     enabled: !!selectedCompanyId
   });
 
+  // Projects the selected company is assigned to (subcontractor view)
+  const { data: companyProjects = [] } = useQuery<(CompanyProjectAssignment & { isOnSite: boolean })[]>({
+    queryKey: [`/api/companies/${selectedCompanyId}/projects`],
+    enabled: !!selectedCompanyId
+  });
+
   // Company mutations
   const createCompanyMutation = useMutation({
-    mutationFn: (data: any) => apiRequest("/api/companies", "POST", data),
+    mutationFn: (data: any) => apiRequest("POST", "/api/companies", data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      refreshCompanies();
       setIsCompanyDialogOpen(false);
       resetCompanyForm();
       toast({ title: "Firma erfolgreich erstellt" });
-    }
+    },
+    onError: showError("Firma konnte nicht erstellt werden")
   });
 
   const updateCompanyMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number, data: any }) => apiRequest(`/api/companies/${id}`, "PATCH", data),
+    mutationFn: ({ id, data }: { id: number, data: any }) => apiRequest("PATCH", `/api/companies/${id}`, data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+      refreshCompanies();
       setIsCompanyDialogOpen(false);
       setEditingCompany(null);
       resetCompanyForm();
       toast({ title: "Firma erfolgreich aktualisiert" });
+    },
+    onError: showError("Firma konnte nicht aktualisiert werden")
+  });
+
+  const archiveCompanyMutation = useMutation({
+    mutationFn: ({ id, archived }: { id: number, archived: boolean }) =>
+      apiRequest("POST", `/api/companies/${id}/${archived ? "archive" : "restore"}`),
+    onSuccess: (_, { archived }) => {
+      refreshCompanies();
+      setSelectedCompanyId(null);
+      toast({ title: archived ? "Firma archiviert" : "Firma wiederhergestellt" });
+    },
+    onError: showError("Firma konnte nicht archiviert werden")
+  });
+
+  const deleteCompanyMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/companies/${id}`),
+    onSuccess: () => {
+      refreshCompanies();
+      setSelectedCompanyId(null);
+      toast({ title: "Firma endgültig gelöscht" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message.startsWith("409")
+          ? "Die Firma ist noch Projekten, Kosten, Mängeln oder Personen zugeordnet und kann nur archiviert werden."
+          : "Firma konnte nicht gelöscht werden",
+        variant: "destructive"
+      });
     }
   });
 
   // Contact mutations
   const createContactMutation = useMutation({
-    mutationFn: (data: any) => apiRequest("/api/company-contacts", "POST", data),
+    mutationFn: (data: any) => apiRequest("POST", "/api/company-contacts", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/companies/${selectedCompanyId}/contacts`] });
       setIsContactDialogOpen(false);
       resetContactForm();
       toast({ title: "Ansprechpartner erfolgreich erstellt" });
-    }
+    },
+    onError: showError("Ansprechpartner konnte nicht erstellt werden")
   });
 
   const updateContactMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number, data: any }) => apiRequest(`/api/company-contacts/${id}`, "PATCH", data),
+    mutationFn: ({ id, data }: { id: number, data: any }) => apiRequest("PATCH", `/api/company-contacts/${id}`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/companies/${selectedCompanyId}/contacts`] });
       setIsContactDialogOpen(false);
       setEditingContact(null);
       resetContactForm();
       toast({ title: "Ansprechpartner erfolgreich aktualisiert" });
-    }
+    },
+    onError: showError("Ansprechpartner konnte nicht aktualisiert werden")
   });
 
   const deleteContactMutation = useMutation({
-    mutationFn: (id: number) => apiRequest(`/api/company-contacts/${id}`, "DELETE"),
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/company-contacts/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/companies/${selectedCompanyId}/contacts`] });
       toast({ title: "Ansprechpartner erfolgreich gelöscht" });
-    }
+    },
+    onError: showError("Ansprechpartner konnte nicht gelöscht werden")
   });
 
   const resetCompanyForm = () => {
@@ -114,6 +172,7 @@ export default function CompaniesPage() {
       houseNumber: "",
       postalCode: "",
       city: "",
+      country: "DE",
       website: ""
     });
   };
@@ -161,6 +220,7 @@ export default function CompaniesPage() {
       houseNumber: company.houseNumber || "",
       postalCode: company.postalCode || "",
       city: company.city || "",
+      country: company.country || "DE",
       website: company.website || ""
     });
     setIsCompanyDialogOpen(true);
@@ -197,115 +257,160 @@ export default function CompaniesPage() {
           <Building2 className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600" />
           <h1 className="text-xl sm:text-3xl font-bold">Firmen-Verwaltung</h1>
         </div>
-        <Dialog open={isCompanyDialogOpen} onOpenChange={setIsCompanyDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={openNewCompanyDialog} className="flex items-center space-x-2">
-              <Plus className="h-4 w-4" />
-              <span>Neue Firma</span>
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>
-                {editingCompany ? "Firma bearbeiten" : "Neue Firma erstellen"}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleCompanySubmit} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="name">Firmenname *</Label>
-                  <Input
-                    id="name"
-                    value={companyForm.name}
-                    onChange={(e) => setCompanyForm(prev => ({ ...prev, name: e.target.value }))}
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="email">E-Mail</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    value={companyForm.email}
-                    onChange={(e) => setCompanyForm(prev => ({ ...prev, email: e.target.value }))}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="phone">Telefon</Label>
-                  <Input
-                    id="phone"
-                    value={companyForm.phone}
-                    onChange={(e) => setCompanyForm(prev => ({ ...prev, phone: e.target.value }))}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="website">Website</Label>
-                  <Input
-                    id="website"
-                    value={companyForm.website}
-                    onChange={(e) => setCompanyForm(prev => ({ ...prev, website: e.target.value }))}
-                  />
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <AddressExportMenu entities={["companies", "company-contacts"]} archived={showArchived} />
+          <Button variant="outline" onClick={() => setLocation("/contacts/duplicates")}>
+            <Copy className="h-4 w-4 mr-2" />
+            Dubletten
+          </Button>
+          <Dialog open={isCompanyDialogOpen} onOpenChange={setIsCompanyDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={openNewCompanyDialog} className="flex items-center space-x-2">
+                <Plus className="h-4 w-4" />
+                <span>Neue Firma</span>
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingCompany ? "Firma bearbeiten" : "Neue Firma erstellen"}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleCompanySubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="name">Firmenname *</Label>
+                    <Input
+                      id="name"
+                      value={companyForm.name}
+                      onChange={(e) => setCompanyForm(prev => ({ ...prev, name: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="email">E-Mail</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={companyForm.email}
+                      onChange={(e) => setCompanyForm(prev => ({ ...prev, email: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="phone">Telefon</Label>
+                    <Input
+                      id="phone"
+                      value={companyForm.phone}
+                      onChange={(e) => setCompanyForm(prev => ({ ...prev, phone: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="website">Website</Label>
+                    <Input
+                      id="website"
+                      value={companyForm.website}
+                      onChange={(e) => setCompanyForm(prev => ({ ...prev, website: e.target.value }))}
+                    />
+                  </div>
                 </div>
-              </div>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="street">Straße</Label>
-                  <Input
-                    id="street"
-                    value={companyForm.street}
-                    onChange={(e) => setCompanyForm(prev => ({ ...prev, street: e.target.value }))}
-                  />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="street">Straße</Label>
+                    <Input
+                      id="street"
+                      value={companyForm.street}
+                      onChange={(e) => setCompanyForm(prev => ({ ...prev, street: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="houseNumber">Hausnummer</Label>
+                    <Input
+                      id="houseNumber"
+                      value={companyForm.houseNumber}
+                      onChange={(e) => setCompanyForm(prev => ({ ...prev, houseNumber: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="postalCode">PLZ</Label>
+                    <Input
+                      id="postalCode"
+                      value={companyForm.postalCode}
+                      onChange={(e) => setCompanyForm(prev => ({ ...prev, postalCode: e.target.value }))}
+                    />
+                  </div>
                 </div>
-                <div>
-                  <Label htmlFor="houseNumber">Hausnummer</Label>
-                  <Input
-                    id="houseNumber"
-                    value={companyForm.houseNumber}
-                    onChange={(e) => setCompanyForm(prev => ({ ...prev, houseNumber: e.target.value }))}
-                  />
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2">
+                    <Label htmlFor="city">Stadt</Label>
+                    <Input
+                      id="city"
+                      value={companyForm.city}
+                      onChange={(e) => setCompanyForm(prev => ({ ...prev, city: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="country">Land</Label>
+                    <Input
+                      id="country"
+                      value={companyForm.country}
+                      maxLength={2}
+                      placeholder="DE"
+                      onChange={(e) => setCompanyForm(prev => ({ ...prev, country: e.target.value.toUpperCase() }))}
+                    />
+                  </div>
                 </div>
-                <div>
-                  <Label htmlFor="postalCode">PLZ</Label>
-                  <Input
-                    id="postalCode"
-                    value={companyForm.postalCode}
-                    onChange={(e) => setCompanyForm(prev => ({ ...prev, postalCode: e.target.value }))}
-                  />
+                <div className="flex justify-end space-x-2">
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    onClick={() => setIsCompanyDialogOpen(false)}
+                  >
+                    Abbrechen
+                  </Button>
+                  <Button 
+                    type="submit" 
+                    disabled={createCompanyMutation.isPending || updateCompanyMutation.isPending}
+                  >
+                    {editingCompany ? "Aktualisieren" : "Erstellen"}
+                  </Button>
                 </div>
-              </div>
-              <div>
-                <Label htmlFor="city">Stadt</Label>
-                <Input
-                  id="city"
-                  value={companyForm.city}
-                  onChange={(e) => setCompanyForm(prev => ({ ...prev, city: e.target.value }))}
-                />
-              </div>
-              <div className="flex justify-end space-x-2">
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={() => setIsCompanyDialogOpen(false)}
-                >
-                  Abbrechen
-                </Button>
-                <Button 
-                  type="submit" 
-                  disabled={createCompanyMutation.isPending || updateCompanyMutation.isPending}
-                >
-                  {editingCompany ? "Aktualisieren" : "Erstellen"}
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+        <AddressImportWizard
+          entities={["companies", "company-contacts"]}
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onImported={() => {
+            refreshCompanies();
+            queryClient.invalidateQueries({ queryKey: [`/api/companies/${selectedCompanyId}/contacts`] });
+          }}
+        />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Companies List */}
         <Card>
           <CardHeader>
-            <CardTitle>Firmen ({companies.length})</CardTitle>
+            <CardTitle className="flex items-center justify-between">
+              <span>{showArchived ? "Archivierte Firmen" : "Firmen"} ({companies.length})</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setShowArchived(!showArchived);
+                  setSelectedCompanyId(null);
+                }}
+              >
+                <Archive className="h-4 w-4 mr-1" />
+                {showArchived ? "Aktive anzeigen" : "Archiv"}
+              </Button>
+            </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
@@ -348,22 +453,52 @@ export default function CompaniesPage() {
                         </div>
                       )}
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        editCompany(company);
-                      }}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
+                    <div className="flex space-x-1">
+                      {!showArchived && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            editCompany(company);
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={showArchived ? "Wiederherstellen" : "Archivieren"}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          archiveCompanyMutation.mutate({ id: company.id, archived: !showArchived });
+                        }}
+                      >
+                        {showArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </Button>
+                      {showArchived && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Endgültig löschen"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (confirm(`${company.name} endgültig löschen? Ansprechpartner werden mitgelöscht.`)) {
+                              deleteCompanyMutation.mutate(company.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
               {companies.length === 0 && (
                 <p className="text-gray-500 text-center py-8">
-                  Noch keine Firmen vorhanden. Erstellen Sie Ihre erste Firma.
+                  {showArchived ? "Keine archivierten Firmen." : "Noch keine Firmen vorhanden. Erstellen Sie Ihre erste Firma."}
                 </p>
               )}
             </div>
@@ -381,83 +516,90 @@ export default function CompaniesPage() {
                 }
               </CardTitle>
               {selectedCompanyId && (
-                <Dialog open={isContactDialogOpen} onOpenChange={setIsContactDialogOpen}>
-                  <DialogTrigger asChild>
-                    <Button onClick={openNewContactDialog} size="sm">
-                      <Plus className="h-4 w-4 mr-1" />
-                      Hinzufügen
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent>
-                    <DialogHeader>
-                      <DialogTitle>
-                        {editingContact ? "Ansprechpartner bearbeiten" : "Neuen Ansprechpartner hinzufügen"}
-                      </DialogTitle>
-                    </DialogHeader>
-                    <form onSubmit={handleContactSubmit} className="space-y-4">
-                      <div>
-                        <Label htmlFor="contactName">Name *</Label>
-                        <Input
-                          id="contactName"
-                          value={contactForm.name}
-                          onChange={(e) => setContactForm(prev => ({ ...prev, name: e.target.value }))}
-                          required
-                        />
-                      </div>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div>
-                          <Label htmlFor="contactEmail">E-Mail</Label>
-                          <Input
-                            id="contactEmail"
-                            type="email"
-                            value={contactForm.email}
-                            onChange={(e) => setContactForm(prev => ({ ...prev, email: e.target.value }))}
-                          />
-                        </div>
-                        <div>
-                          <Label htmlFor="contactPhone">Telefon</Label>
-                          <Input
-                            id="contactPhone"
-                            value={contactForm.phone}
-                            onChange={(e) => setContactForm(prev => ({ ...prev, phone: e.target.value }))}
-                          />
-                        </div>
+                <div className="flex items-center space-x-2">
+                  <VCardImportButton
+                    target="company-contacts"
+                    parentId={selectedCompanyId}
+                    onImported={() => queryClient.invalidateQueries({ queryKey: [`/api/companies/${selectedCompanyId}/contacts`] })}
+                  />
+                  <Dialog open={isContactDialogOpen} onOpenChange={setIsContactDialogOpen}>
+                    <DialogTrigger asChild>
+                      <Button onClick={openNewContactDialog} size="sm">
+                        <Plus className="h-4 w-4 mr-1" />
+                        Hinzufügen
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>
+                          {editingContact ? "Ansprechpartner bearbeiten" : "Neuen Ansprechpartner hinzufügen"}
+                        </DialogTitle>
+                      </DialogHeader>
+                      <form onSubmit={handleContactSubmit} className="space-y-4">
                         <div>
-                          <Label htmlFor="department">Abteilung</Label>
+                          <Label htmlFor="contactName">Name *</Label>
                           <Input
-                            id="department"
-                            value={contactForm.department}
-                            onChange={(e) => setContactForm(prev => ({ ...prev, department: e.target.value }))}
+                            id="contactName"
+                            value={contactForm.name}
+                            onChange={(e) => setContactForm(prev => ({ ...prev, name: e.target.value }))}
+                            required
                           />
                         </div>
-                        <div>
-                          <Label htmlFor="position">Position</Label>
-                          <Input
-                            id="position"
-                            value={contactForm.position}
-                            onChange={(e) => setContactForm(prev => ({ ...prev, position: e.target.value }))}
-                          />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor="contactEmail">E-Mail</Label>
+                            <Input
+                              id="contactEmail"
+                              type="email"
+                              value={contactForm.email}
+                              onChange={(e) => setContactForm(prev => ({ ...prev, email: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="contactPhone">Telefon</Label>
+                            <Input
+                              id="contactPhone"
+                              value={contactForm.phone}
+                              onChange={(e) => setContactForm(prev => ({ ...prev, phone: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="department">Abteilung</Label>
+                            <Input
+                              id="department"
+                              value={contactForm.department}
+                              onChange={(e) => setContactForm(prev => ({ ...prev, department: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="position">Position</Label>
+                            <Input
+                              id="position"
+                              value={contactForm.position}
+                              onChange={(e) => setContactForm(prev => ({ ...prev, position: e.target.value }))}
+                            />
+                          </div>
                         </div>
-                      </div>
 
-                      <div className="flex justify-end space-x-2">
-                        <Button 
-                          type="button" 
-                          variant="outline" 
-                          onClick={() => setIsContactDialogOpen(false)}
-                        >
-                          Abbrechen
-                        </Button>
-                        <Button 
-                          type="submit" 
-                          disabled={createContactMutation.isPending || updateContactMutation.isPending}
-                        >
-                          {editingContact ? "Aktualisieren" : "Hinzufügen"}
-                        </Button>
-                      </div>
-                    </form>
-                  </DialogContent>
-                </Dialog>
+                        <div className="flex justify-end space-x-2">
+                          <Button 
+                            type="button" 
+                            variant="outline" 
+                            onClick={() => setIsContactDialogOpen(false)}
+                          >
+                            Abbrechen
+                          </Button>
+                          <Button 
+                            type="submit" 
+                            disabled={createContactMutation.isPending || updateContactMutation.isPending}
+                          >
+                            {editingContact ? "Aktualisieren" : "Hinzufügen"}
+                          </Button>
+                        </div>
+                      </form>
+                    </DialogContent>
+                  </Dialog>
+                </div>
               )}
             </div>
           </CardHeader>
@@ -492,6 +634,7 @@ export default function CompaniesPage() {
                         )}
                       </div>
                       <div className="flex space-x-1">
+                        <VCardDownloadButton kind="company-contact" id={contact.id} iconClassName="h-3 w-3" />
                         <Button
                           variant="ghost"
                           size="sm"
@@ -523,6 +666,54 @@ export default function CompaniesPage() {
             )}
           </CardContent>
         </Card>
+
+        {/* Projects of the selected company */}
+        {selectedCompanyId && (
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <HardHat className="h-5 w-5 text-blue-600" />
+                <span>Projekte - {companies.find(c => c.id === selectedCompanyId)?.name}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {companyProjects.map((assignment) => (
+                  <div
+                    key={assignment.id}
+                    className="p-3 border rounded-lg cursor-pointer hover:bg-gray-50"
+                    onClick={() => setLocation(`/projects/${assignment.projectId}`)}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <span className="font-medium truncate">{assignment.projectName}</span>
+                          <Badge variant="outline">{assignment.trade}</Badge>
+                          {assignment.isOnSite && <Badge className="bg-green-600 text-white">Vor Ort</Badge>}
+                        </div>
+                        <p className="text-sm text-gray-600">{formatPeriod(assignment.startDate, assignment.endDate)}</p>
+                        {assignment.projectAddress && (
+                          <div className="flex items-center space-x-2 text-sm text-gray-500">
+                            <MapPin className="h-3 w-3" />
+                            <span className="truncate">{assignment.projectAddress}</span>
+                          </div>
+                        )}
+                      </div>
+                      {assignment.contractValue && (
+                        <span className="text-sm font-semibold whitespace-nowrap">{formatEuro(assignment.contractValue)}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {companyProjects.length === 0 && (
+                  <p className="text-gray-500 text-center py-6">
+                    Diese Firma ist keinem Projekt zugeordnet.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Mail, Phone, GitMerge } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { CONTACT_KIND_LABELS, VCardDownloadButton, VCardImportButton, type ContactKind } from "@/components/address-book/contact-vcard";
+
+interface ContactRecord {
+  kind: ContactKind;
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  parentId: number | null;
+  parentName: string | null;
+}
+
+interface DuplicateGroup {
+  members: ContactRecord[];
+  reasons: Array<"email" | "phone" | "name">;
+}
+
+const REASON_LABELS = {
+  email: "gleiche E-Mail",
+  phone: "gleiche Telefonnummer",
+  name: "ähnlicher Name",
+};
+
+const recordKey = (record: ContactRecord) => `${record.kind}:${record.id}`;
+
+// Personen übernehmen Personen und Firmen-Ansprechpartner derselben Firma; Ansprechpartner sonst nur innerhalb
+// ihrer Art beim selben Kunden bzw. derselben Firma
+const canMergeInto = (survivor: ContactRecord, record: ContactRecord) => {
+  if (recordKey(record) === recordKey(survivor)) return false;
+  if (survivor.kind === "person") {
+    return (record.kind === "person" || record.kind === "company-contact") &&
+      (record.parentId === null || survivor.parentId === null || record.parentId === survivor.parentId);
+  }
+  return record.kind === survivor.kind && record.parentId === survivor.parentId;
+};
+
+// apiRequest wirft "400: {json}"; die Meldung des Servers anzeigen, falls vorhanden
+const serverMessage = (error: Error) => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).message as string;
+  } catch {
+    return "Zusammenführen fehlgeschlagen";
+  }
+};
+
+function DuplicateGroupCard({ group, onMerge, isMerging }: {
+  group: DuplicateGroup;
+  onMerge: (survivor: ContactRecord, duplicates: ContactRecord[]) => void;
+  isMerging: boolean;
+}) {
+  const [survivorKey, setSurvivorKey] = useState(recordKey(group.members.find((member) => member.kind === "person") ?? group.members[0]));
+  const survivor = group.members.find((member) => recordKey(member) === survivorKey) ?? group.members[0];
+  const duplicates = group.members.filter((member) => canMergeInto(survivor, member));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {group.reasons.map((reason) => (
+            <Badge key={reason} variant="outline">{REASON_LABELS[reason]}</Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {group.members.map((member) => (
+          <label
+            key={recordKey(member)}
+            className={`flex items-start justify-between p-3 border rounded-lg cursor-pointer ${
+              recordKey(member) === survivorKey ? "bg-blue-50 border-blue-200" : "hover:bg-gray-50"
+            }`}
+          >
+            <div className="flex items-start space-x-3">
+              <input
+                type="radio"
+                className="mt-1"
+                checked={recordKey(member) === survivorKey}
+                onChange={() => setSurvivorKey(recordKey(member))}
+              />
+              <div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{member.name}</span>
+                  <Badge variant="secondary">{CONTACT_KIND_LABELS[member.kind]}</Badge>
+                  {recordKey(member) !== survivorKey && !canMergeInto(survivor, member) && (
+                    <span className="text-xs text-gray-500">wird nicht zusammengeführt</span>
+                  )}
+                </div>
+                {member.parentName && <p className="text-sm text-gray-600">{member.parentName}</p>}
+                <div className="flex flex-wrap gap-x-4 text-sm text-gray-600">
+                  {member.email && (
+                    <span className="flex items-center space-x-1"><Mail className="h-3 w-3" /><span>{member.email}</span></span>
+                  )}
+                  {member.phone && (
+                    <span className="flex items-center space-x-1"><Phone className="h-3 w-3" /><span>{member.phone}</span></span>
+                  )}
+                </div>
+              </div>
+            </div>
+            <VCardDownloadButton kind={member.kind} id={member.id} />
+          </label>
+        ))}
+        <div className="flex justify-end">
+          <Button
+            onClick={() => onMerge(survivor, duplicates)}
+            disabled={duplicates.length === 0 || isMerging}
+          >
+            <GitMerge className="h-4 w-4 mr-2" />
+            {duplicates.length === 0 ? "Nichts zusammenzuführen" : `${duplicates.length + 1} Datensätze zusammenführen`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ContactDuplicatesPage() {
+  const queryClient = useQueryClient();
+
+  const { data: groups = [], isLoading } = useQuery<DuplicateGroup[]>({
+    queryKey: ["/api/address-book/duplicates"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/address-book/duplicates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/persons"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ survivor, duplicates }: { survivor: ContactRecord; duplicates: ContactRecord[] }) =>
+      apiRequest("POST", "/api/address-book/merge", {
+        kind: survivor.kind,
+        survivorId: survivor.id,
+        duplicates: duplicates.map(({ kind, id }) => ({ kind, id })),
+      }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Datensätze zusammengeführt" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fehler", description: serverMessage(error), variant: "destructive" });
+    }
+  });
+
+  const handleMerge = (survivor: ContactRecord, duplicates: ContactRecord[]) => {
+    if (confirm(`${duplicates.length} Dublette(n) in "${survivor.name}" zusammenführen? Die Dubletten werden gelöscht, Verweise zeigen danach auf "${survivor.name}".`)) {
+      mergeMutation.mutate({ survivor, duplicates });
+    }
+  };
+
+  return (
+    <div className="container mx-auto mobile-spacing max-w-5xl">
+      <div className="flex items-center justify-between mb-4 sm:mb-6">
+        <div className="flex items-center space-x-2 sm:space-x-3">
+          <Copy className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600" />
+          <h1 className="text-xl sm:text-3xl font-bold">Kontakt-Dubletten</h1>
+        </div>
+        <VCardImportButton target="persons" onImported={refresh} />
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle className="text-base">So funktioniert's</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-gray-600">
+          Personen, Kunden- und Firmen-Ansprechpartner werden nach gleicher E-Mail, gleicher Telefonnummer
+          und ähnlichem Namen verglichen. Wählen Sie den Datensatz, der erhalten bleibt; leere Felder werden aus
+          den Dubletten ergänzt und Verweise (Kunden, Projektfirmen, Schadensfälle, Deichwachen) umgehängt.
+          Firmen-Ansprechpartner können in eine Person derselben Firma übernommen werden. Kunden-Ansprechpartner
+          gehören fest zu ihrem Kunden und werden daher nur untereinander verglichen.
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <p className="text-gray-500 text-center py-8">Dubletten werden gesucht...</p>
+      ) : groups.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">Keine Dubletten gefunden.</p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <DuplicateGroupCard
+              key={group.members.map(recordKey).join("|")}
+              group={group}
+              onMerge={handleMerge}
+              isMerging={mergeMutation.isPending}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
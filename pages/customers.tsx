@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "../lib/queryClient";
 import { useToast } from "../hooks/use-toast";
@@ -9,6 +10,8 @@ import { Label } from "../components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "../components/ui/dialog";
 import { Badge } from "../components/ui/badge";
 import { Separator } from "../components/ui/separator";
+import { AddressExportMenu, AddressImportWizard } from "../components/address-book/address-import-wizard";
+import { VCardDownloadButton, VCardImportButton } from "../components/address-book/contact-vcard";
 import {
   Plus,
   Mail,
@@ -17,7 +20,11 @@ import {
   Edit,
   Trash2,
   Users,
-  Building2
+  Building2,
+  Archive,
+  ArchiveRestore,
+  Upload,
+  Copy
 } from "lucide-react";
 import type { Customer } from "../../shared/schema";
 
@@ -27,6 +34,8 @@ export default function Customers() {
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [editingContact, setEditingContact] = useState<any>(null);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [customerForm, setCustomerForm] = useState({
     name: "",
     email: "",
@@ -34,7 +43,8 @@ export default function Customers() {
     street: "",
     houseNumber: "",
     postalCode: "",
-    city: ""
+    city: "",
+    country: "DE"
   });
   const [contactForm, setContactForm] = useState({
     name: "",
@@ -46,20 +56,27 @@ export default function Customers() {
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
 
   const { data: customers = [], isLoading } = useQuery<Customer[]>({
-    queryKey: ["/api/customers"],
+    queryKey: [showArchived ? "/api/customers?archived=true" : "/api/customers"],
   });
 
+  // Aktive und archivierte Liste gemeinsam aktualisieren
+  const refreshCustomers = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/customers?archived=true"] });
+  };
+
   const { data: contacts = [] } = useQuery({
-    queryKey: ["/api/customers", selectedCustomer?.id, "contacts"],
+    queryKey: [`/api/customers/${selectedCustomer?.id}/contacts`],
     enabled: !!selectedCustomer?.id,
   });
 
   const createCustomerMutation = useMutation({
-    mutationFn: (data: any) => apiRequest(`/api/customers`, "POST", data),
+    mutationFn: (data: any) => apiRequest("POST", "/api/customers", data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      refreshCustomers();
       setIsCustomerDialogOpen(false);
       resetCustomerForm();
       toast({ description: "Kunde erfolgreich erstellt" });
@@ -71,9 +88,9 @@ export default function Customers() {
 
   const updateCustomerMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: any }) => 
-      apiRequest(`/api/customers/${id}`, "PUT", data),
+      apiRequest("PUT", `/api/customers/${id}`, data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      refreshCustomers();
       setIsCustomerDialogOpen(false);
       setEditingCustomer(null);
       resetCustomerForm();
@@ -84,11 +101,41 @@ export default function Customers() {
     }
   });
 
+  const archiveCustomerMutation = useMutation({
+    mutationFn: ({ id, archived }: { id: number; archived: boolean }) =>
+      apiRequest("POST", `/api/customers/${id}/${archived ? "archive" : "restore"}`),
+    onSuccess: (_, { archived }) => {
+      refreshCustomers();
+      setSelectedCustomer(null);
+      toast({ description: archived ? "Kunde archiviert" : "Kunde wiederhergestellt" });
+    },
+    onError: () => {
+      toast({ variant: "destructive", description: "Fehler beim Archivieren des Kunden" });
+    }
+  });
+
+  const deleteCustomerMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/customers/${id}`),
+    onSuccess: () => {
+      refreshCustomers();
+      setSelectedCustomer(null);
+      toast({ description: "Kunde endgültig gelöscht" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        description: error.message.startsWith("409")
+          ? "Dem Kunden sind noch Projekte zugeordnet. Er kann nur archiviert werden."
+          : "Fehler beim Löschen des Kunden"
+      });
+    }
+  });
+
   const createContactMutation = useMutation({
     mutationFn: (data: any) => 
-      apiRequest(`/api/customers/${selectedCustomer?.id}/contacts`, "POST", data),
+      apiRequest("POST", `/api/customers/${selectedCustomer?.id}/contacts`, data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/customers", selectedCustomer?.id, "contacts"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${selectedCustomer?.id}/contacts`] });
       setIsContactDialogOpen(false);
       resetContactForm();
       toast({ description: "Ansprechpartner erfolgreich erstellt" });
@@ -100,9 +147,9 @@ export default function Customers() {
 
   const updateContactMutation = useMutation({
     mutationFn: ({ id, data }: { id: number; data: any }) =>
-      apiRequest(`/api/customers/${selectedCustomer?.id}/contacts/${id}`, "PUT", data),
+      apiRequest("PUT", `/api/customers/${selectedCustomer?.id}/contacts/${id}`, data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/customers", selectedCustomer?.id, "contacts"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${selectedCustomer?.id}/contacts`] });
       setIsContactDialogOpen(false);
       setEditingContact(null);
       resetContactForm();
@@ -115,9 +162,9 @@ export default function Customers() {
 
   const deleteContactMutation = useMutation({
     mutationFn: (id: number) =>
-      apiRequest(`/api/customers/${selectedCustomer?.id}/contacts/${id}`, "DELETE"),
+      apiRequest("DELETE", `/api/customers/${selectedCustomer?.id}/contacts/${id}`),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/customers", selectedCustomer?.id, "contacts"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${selectedCustomer?.id}/contacts`] });
       toast({ description: "Ansprechpartner erfolgreich gelöscht" });
     },
     onError: () => {
@@ -158,7 +205,8 @@ export default function Customers() {
       street: "",
       houseNumber: "",
       postalCode: "",
-      city: ""
+      city: "",
+      country: "DE"
     });
   };
 
@@ -181,7 +229,8 @@ export default function Customers() {
       street: customer.street || "",
       houseNumber: customer.houseNumber || "",
       postalCode: customer.postalCode || "",
-      city: customer.city || ""
+      city: customer.city || "",
+      country: customer.country || "DE"
     });
     setIsCustomerDialogOpen(true);
   };
@@ -217,111 +266,154 @@ export default function Customers() {
           <Users className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600" />
           <h1 className="text-xl sm:text-3xl font-bold">Kunden-Verwaltung</h1>
         </div>
-        <Dialog open={isCustomerDialogOpen} onOpenChange={setIsCustomerDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={openNewCustomerDialog} className="flex items-center space-x-2">
-              <Plus className="h-4 w-4" />
-              <span>Neuer Kunde</span>
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>
-                {editingCustomer ? "Kunde bearbeiten" : "Neuen Kunden erstellen"}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleCustomerSubmit} className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="name">Kundenname *</Label>
-                  <Input
-                    id="name"
-                    value={customerForm.name}
-                    onChange={(e) => setCustomerForm(prev => ({ ...prev, name: e.target.value }))}
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="email">E-Mail</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    value={customerForm.email}
-                    onChange={(e) => setCustomerForm(prev => ({ ...prev, email: e.target.value }))}
-                  />
-                </div>
-              </div>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="phone">Telefon</Label>
-                  <Input
-                    id="phone"
-                    value={customerForm.phone}
-                    onChange={(e) => setCustomerForm(prev => ({ ...prev, phone: e.target.value }))}
-                  />
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <AddressExportMenu entities={["customers", "customer-contacts"]} archived={showArchived} />
+          <Button variant="outline" onClick={() => setLocation("/contacts/duplicates")}>
+            <Copy className="h-4 w-4 mr-2" />
+            Dubletten
+          </Button>
+          <Dialog open={isCustomerDialogOpen} onOpenChange={setIsCustomerDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={openNewCustomerDialog} className="flex items-center space-x-2">
+                <Plus className="h-4 w-4" />
+                <span>Neuer Kunde</span>
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingCustomer ? "Kunde bearbeiten" : "Neuen Kunden erstellen"}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleCustomerSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="name">Kundenname *</Label>
+                    <Input
+                      id="name"
+                      value={customerForm.name}
+                      onChange={(e) => setCustomerForm(prev => ({ ...prev, name: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="email">E-Mail</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={customerForm.email}
+                      onChange={(e) => setCustomerForm(prev => ({ ...prev, email: e.target.value }))}
+                    />
+                  </div>
                 </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="phone">Telefon</Label>
+                    <Input
+                      id="phone"
+                      value={customerForm.phone}
+                      onChange={(e) => setCustomerForm(prev => ({ ...prev, phone: e.target.value }))}
+                    />
+                  </div>
 
-              </div>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="street">Straße</Label>
-                  <Input
-                    id="street"
-                    value={customerForm.street}
-                    onChange={(e) => setCustomerForm(prev => ({ ...prev, street: e.target.value }))}
-                  />
                 </div>
-                <div>
-                  <Label htmlFor="houseNumber">Hausnummer</Label>
-                  <Input
-                    id="houseNumber"
-                    value={customerForm.houseNumber}
-                    onChange={(e) => setCustomerForm(prev => ({ ...prev, houseNumber: e.target.value }))}
-                  />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="street">Straße</Label>
+                    <Input
+                      id="street"
+                      value={customerForm.street}
+                      onChange={(e) => setCustomerForm(prev => ({ ...prev, street: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="houseNumber">Hausnummer</Label>
+                    <Input
+                      id="houseNumber"
+                      value={customerForm.houseNumber}
+                      onChange={(e) => setCustomerForm(prev => ({ ...prev, houseNumber: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="postalCode">PLZ</Label>
+                    <Input
+                      id="postalCode"
+                      value={customerForm.postalCode}
+                      onChange={(e) => setCustomerForm(prev => ({ ...prev, postalCode: e.target.value }))}
+                    />
+                  </div>
                 </div>
-                <div>
-                  <Label htmlFor="postalCode">PLZ</Label>
-                  <Input
-                    id="postalCode"
-                    value={customerForm.postalCode}
-                    onChange={(e) => setCustomerForm(prev => ({ ...prev, postalCode: e.target.value }))}
-                  />
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2">
+                    <Label htmlFor="city">Stadt</Label>
+                    <Input
+                      id="city"
+                      value={customerForm.city}
+                      onChange={(e) => setCustomerForm(prev => ({ ...prev, city: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="country">Land</Label>
+                    <Input
+                      id="country"
+                      value={customerForm.country}
+                      maxLength={2}
+                      placeholder="DE"
+                      onChange={(e) => setCustomerForm(prev => ({ ...prev, country: e.target.value.toUpperCase() }))}
+                    />
+                  </div>
                 </div>
-              </div>
-              <div>
-                <Label htmlFor="city">Stadt</Label>
-                <Input
-                  id="city"
-                  value={customerForm.city}
-                  onChange={(e) => setCustomerForm(prev => ({ ...prev, city: e.target.value }))}
-                />
-              </div>
-              <div className="flex justify-end space-x-2">
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={() => setIsCustomerDialogOpen(false)}
-                >
-                  Abbrechen
-                </Button>
-                <Button 
-                  type="submit"
-                  disabled={!customerForm.name.trim()}
-                >
-                  {editingCustomer ? "Aktualisieren" : "Erstellen"}
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="flex justify-end space-x-2">
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    onClick={() => setIsCustomerDialogOpen(false)}
+                  >
+                    Abbrechen
+                  </Button>
+                  <Button 
+                    type="submit"
+                    disabled={!customerForm.name.trim()}
+                  >
+                    {editingCustomer ? "Aktualisieren" : "Erstellen"}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+        <AddressImportWizard
+          entities={["customers", "customer-contacts"]}
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onImported={() => {
+            refreshCustomers();
+            queryClient.invalidateQueries({ queryKey: [`/api/customers/${selectedCustomer?.id}/contacts`] });
+          }}
+        />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Kunden Liste */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <span>Kunden ({customers.length})</span>
+            <CardTitle className="flex items-center justify-between">
+              <span>{showArchived ? "Archivierte Kunden" : "Kunden"} ({customers.length})</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setShowArchived(!showArchived);
+                  setSelectedCustomer(null);
+                }}
+              >
+                <Archive className="h-4 w-4 mr-1" />
+                {showArchived ? "Aktive anzeigen" : "Archiv"}
+              </Button>
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -334,14 +426,16 @@ export default function Customers() {
               ) : customers.length === 0 ? (
                 <div className="text-center py-8">
                   <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <p className="text-gray-600">Noch keine Kunden erstellt</p>
-                  <Button 
-                    onClick={openNewCustomerDialog}
-                    className="mt-4"
-                  >
-                    <Plus className="h-4 w-4 mr-2" />
-                    Ersten Kunden erstellen
-                  </Button>
+                  <p className="text-gray-600">{showArchived ? "Keine archivierten Kunden" : "Noch keine Kunden erstellt"}</p>
+                  {!showArchived && (
+                    <Button 
+                      onClick={openNewCustomerDialog}
+                      className="mt-4"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Ersten Kunden erstellen
+                    </Button>
+                  )}
                 </div>
               ) : (
                 customers.map((customer) => (
@@ -388,16 +482,46 @@ export default function Customers() {
                             )}
                           </div>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            editCustomer(customer);
-                          }}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
+                        <div className="flex space-x-1">
+                          {!showArchived && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                editCustomer(customer);
+                              }}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={showArchived ? "Wiederherstellen" : "Archivieren"}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              archiveCustomerMutation.mutate({ id: customer.id, archived: !showArchived });
+                            }}
+                          >
+                            {showArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                          </Button>
+                          {showArchived && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Endgültig löschen"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                if (confirm(`${customer.name} endgültig löschen? Ansprechpartner werden mitgelöscht.`)) {
+                                  deleteCustomerMutation.mutate(customer.id);
+                                }
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -413,87 +537,94 @@ export default function Customers() {
             <CardTitle className="flex items-center justify-between">
               <span>Ansprechpartner</span>
               {selectedCustomer && (
-                <Dialog open={isContactDialogOpen} onOpenChange={setIsContactDialogOpen}>
-                  <DialogTrigger asChild>
-                    <Button 
-                      size="sm" 
-                      onClick={openNewContactDialog}
-                      className="flex items-center space-x-1"
-                    >
-                      <Plus className="h-4 w-4" />
-                      <span>Hinzufügen</span>
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent>
-                    <DialogHeader>
-                      <DialogTitle>
-                        {editingContact ? "Ansprechpartner bearbeiten" : "Neuer Ansprechpartner"}
-                      </DialogTitle>
-                    </DialogHeader>
-                    <form onSubmit={handleContactSubmit} className="space-y-4">
-                      <div>
-                        <Label htmlFor="contactName">Name *</Label>
-                        <Input
-                          id="contactName"
-                          value={contactForm.name}
-                          onChange={(e) => setContactForm(prev => ({ ...prev, name: e.target.value }))}
-                          required
-                        />
-                      </div>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div>
-                          <Label htmlFor="contactEmail">E-Mail</Label>
-                          <Input
-                            id="contactEmail"
-                            type="email"
-                            value={contactForm.email}
-                            onChange={(e) => setContactForm(prev => ({ ...prev, email: e.target.value }))}
-                          />
-                        </div>
-                        <div>
-                          <Label htmlFor="contactPhone">Telefon</Label>
-                          <Input
-                            id="contactPhone"
-                            value={contactForm.phone}
-                            onChange={(e) => setContactForm(prev => ({ ...prev, phone: e.target.value }))}
-                          />
-                        </div>
+                <div className="flex items-center space-x-2">
+                  <VCardImportButton
+                    target="customer-contacts"
+                    parentId={selectedCustomer.id}
+                    onImported={() => queryClient.invalidateQueries({ queryKey: [`/api/customers/${selectedCustomer.id}/contacts`] })}
+                  />
+                  <Dialog open={isContactDialogOpen} onOpenChange={setIsContactDialogOpen}>
+                    <DialogTrigger asChild>
+                      <Button 
+                        size="sm" 
+                        onClick={openNewContactDialog}
+                        className="flex items-center space-x-1"
+                      >
+                        <Plus className="h-4 w-4" />
+                        <span>Hinzufügen</span>
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>
+                          {editingContact ? "Ansprechpartner bearbeiten" : "Neuer Ansprechpartner"}
+                        </DialogTitle>
+                      </DialogHeader>
+                      <form onSubmit={handleContactSubmit} className="space-y-4">
                         <div>
-                          <Label htmlFor="department">Abteilung</Label>
+                          <Label htmlFor="contactName">Name *</Label>
                           <Input
-                            id="department"
-                            value={contactForm.department}
-                            onChange={(e) => setContactForm(prev => ({ ...prev, department: e.target.value }))}
+                            id="contactName"
+                            value={contactForm.name}
+                            onChange={(e) => setContactForm(prev => ({ ...prev, name: e.target.value }))}
+                            required
                           />
                         </div>
-                        <div>
-                          <Label htmlFor="position">Position</Label>
-                          <Input
-                            id="position"
-                            value={contactForm.position}
-                            onChange={(e) => setContactForm(prev => ({ ...prev, position: e.target.value }))}
-                          />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor="contactEmail">E-Mail</Label>
+                            <Input
+                              id="contactEmail"
+                              type="email"
+                              value={contactForm.email}
+                              onChange={(e) => setContactForm(prev => ({ ...prev, email: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="contactPhone">Telefon</Label>
+                            <Input
+                              id="contactPhone"
+                              value={contactForm.phone}
+                              onChange={(e) => setContactForm(prev => ({ ...prev, phone: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="department">Abteilung</Label>
+                            <Input
+                              id="department"
+                              value={contactForm.department}
+                              onChange={(e) => setContactForm(prev => ({ ...prev, department: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="position">Position</Label>
+                            <Input
+                              id="position"
+                              value={contactForm.position}
+                              onChange={(e) => setContactForm(prev => ({ ...prev, position: e.target.value }))}
+                            />
+                          </div>
                         </div>
-                      </div>
 
-                      <div className="flex justify-end space-x-2">
-                        <Button 
-                          type="button" 
-                          variant="outline" 
-                          onClick={() => setIsContactDialogOpen(false)}
-                        >
-                          Abbrechen
-                        </Button>
-                        <Button 
-                          type="submit"
-                          disabled={!contactForm.name.trim()}
-                        >
-                          {editingContact ? "Aktualisieren" : "Erstellen"}
-                        </Button>
-                      </div>
-                    </form>
-                  </DialogContent>
-                </Dialog>
+                        <div className="flex justify-end space-x-2">
+                          <Button 
+                            type="button" 
+                            variant="outline" 
+                            onClick={() => setIsContactDialogOpen(false)}
+                          >
+                            Abbrechen
+                          </Button>
+                          <Button 
+                            type="submit"
+                            disabled={!contactForm.name.trim()}
+                          >
+                            {editingContact ? "Aktualisieren" : "Erstellen"}
+                          </Button>
+                        </div>
+                      </form>
+                    </DialogContent>
+                  </Dialog>
+                </div>
               )}
             </CardTitle>
           </CardHeader>
@@ -548,6 +679,7 @@ export default function Customers() {
                           </div>
                         </div>
                         <div className="flex space-x-1">
+                          <VCardDownloadButton kind="customer-contact" id={contact.id} />
                           <Button
                             variant="ghost"
                             size="sm"
@@ -6,7 +6,7 @@ import { Card, CardContent } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Badge } from "../components/ui/badge";
 import { Progress } from "../components/ui/progress";
-import { ProjectCard } from "../components/project/project-card";
+import { ProjectCard, type ProjectListItem } from "../components/project/project-card";
 import { ProjectStats } from "../components/project/project-stats";
 import { PageHeader } from "../components/layout/page-header";
 import { MobileNav } from "../components/layout/mobile-nav";
@@ -23,10 +23,10 @@ import {
   Server,
   Mic,
   Settings,
-  Building2
+  Building2,
+  Clock
 } from "lucide-react";
 import { Link } from "wouter";
-import type { Project } from "../../shared/schema";
 
 export default function Dashboard() {
   const { user } = useAuth();
@@ -36,12 +36,13 @@ export default function Dashboard() {
   useMemoryMonitor();
   const [, setLocation] = useLocation();
   
-  const { data: projects = [], isLoading } = useQuery<Project[]>({
+  const { data: projects = [], isLoading } = useQuery<ProjectListItem[]>({
     queryKey: ["/api/projects"],
   });
 
   const activeProjects = projects.filter(p => p.status === "active").length;
   const pendingTasks = projects.filter(p => p.status === "planning").length;
+  const delayedProjects = projects.filter(p => p.isDelayed).length;
 
   const recentProjects = projects.slice(0, 2);
 
@@ -120,6 +121,16 @@ export default function Dashboard() {
             icon={<AlertCircle className="h-5 w-5" />}
             color="bg-orange-500"
           />
+          {delayedProjects > 0 && (
+            <div className="col-span-2">
+              <ProjectStats
+                title="Verzögert"
+                value={delayedProjects}
+                icon={<Clock className="h-5 w-5" />}
+                color="bg-red-500"
+              />
+            </div>
+          )}
         </div>
 
         {/* Recent Projects */}
@@ -0,0 +1,538 @@
+import { useEffect, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Textarea } from "../components/ui/textarea";
+import { Checkbox } from "../components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { PageHeader } from "../components/layout/page-header";
+import { MobileNav } from "../components/layout/mobile-nav";
+import { SignaturePad } from "../components/signature-pad";
+import { DIARY_WEATHER, formatDiaryDate, toDiaryDate } from "../components/project/project-diary";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import {
+  ArrowLeft,
+  AlertTriangle,
+  Download,
+  Lock,
+  Mic,
+  PenLine,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+import type {
+  AudioRecord,
+  ConstructionDiaryEntryWithAuthor,
+  DiaryEquipmentEntry,
+  DiaryStaffEntry,
+  Photo,
+} from "../shared/schema";
+
+type DiaryEntryDetail = ConstructionDiaryEntryWithAuthor & {
+  photos: Photo[];
+  audioRecords: AudioRecord[];
+  problems: string[];
+};
+
+type DiaryDraft = {
+  weather: string;
+  temperatureMin: string;
+  temperatureMax: string;
+  weatherNotes: string;
+  staff: DiaryStaffEntry[];
+  equipment: DiaryEquipmentEntry[];
+  workPerformed: string;
+  deliveries: string;
+  hindrances: string;
+  instructions: string;
+  incidents: string;
+  photoIds: number[];
+  audioRecordIds: number[];
+};
+
+const TEXT_SECTIONS: Array<{ field: "workPerformed" | "deliveries" | "hindrances" | "instructions" | "incidents"; label: string; placeholder: string }> = [
+  { field: "workPerformed", label: "Ausgeführte Arbeiten *", placeholder: "z.B. Kanal DN 300 von Schacht 4 bis 5 verlegt, Graben verfüllt" },
+  { field: "deliveries", label: "Materiallieferungen", placeholder: "z.B. 24 m Betonrohr DN 300, 2 Schachtringe" },
+  { field: "hindrances", label: "Behinderungen / Unterbrechungen", placeholder: "z.B. Arbeitsunterbrechung 10–12 Uhr wegen Starkregen" },
+  { field: "instructions", label: "Anordnungen des Auftraggebers", placeholder: "z.B. Zusätzliche Sondierung an Station 0+120 angeordnet" },
+  { field: "incidents", label: "Besondere Vorkommnisse", placeholder: "Unfälle, Schäden, Besuche, Prüfungen" },
+];
+
+const toDraft = (entry: DiaryEntryDetail): DiaryDraft => ({
+  weather: entry.weather || "",
+  temperatureMin: entry.temperatureMin?.toString() ?? "",
+  temperatureMax: entry.temperatureMax?.toString() ?? "",
+  weatherNotes: entry.weatherNotes || "",
+  staff: entry.staff,
+  equipment: entry.equipment,
+  workPerformed: entry.workPerformed || "",
+  deliveries: entry.deliveries || "",
+  hindrances: entry.hindrances || "",
+  instructions: entry.instructions || "",
+  incidents: entry.incidents || "",
+  photoIds: entry.photoIds,
+  audioRecordIds: entry.audioRecordIds,
+});
+
+const parseNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export default function DiaryEntry() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<DiaryDraft | null>(null);
+  const [showSignDialog, setShowSignDialog] = useState(false);
+  const [signerName, setSignerName] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+
+  const projectId = params.id;
+  const entryId = params.entryId;
+  const entryKey = [`/api/diary-entries/${entryId}`];
+
+  const { data: entry, isLoading } = useQuery<DiaryEntryDetail>({
+    queryKey: entryKey,
+    enabled: !!entryId,
+  });
+
+  const { data: project } = useQuery<{ name: string; projectPermissions?: string[] }>({
+    queryKey: [`/api/projects/${projectId}`],
+    enabled: !!projectId,
+  });
+
+  const { data: projectPhotos = [] } = useQuery<Photo[]>({
+    queryKey: [`/api/projects/${projectId}/photos`],
+    enabled: !!projectId,
+  });
+
+  const { data: projectAudio = [] } = useQuery<AudioRecord[]>({
+    queryKey: [`/api/projects/${projectId}/audio`],
+    enabled: !!projectId,
+  });
+
+  useEffect(() => {
+    if (entry) setDraft(toDraft(entry));
+  }, [entry]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: entryKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/diary`] });
+  };
+
+  const saveDraft = async (data: DiaryDraft) => {
+    const response = await apiRequest("PATCH", `/api/diary-entries/${entryId}`, {
+      weather: data.weather || null,
+      temperatureMin: parseNumber(data.temperatureMin),
+      temperatureMax: parseNumber(data.temperatureMax),
+      weatherNotes: data.weatherNotes.trim() || null,
+      staff: data.staff.filter((row) => row.company.trim()),
+      equipment: data.equipment.filter((row) => row.name.trim()),
+      workPerformed: data.workPerformed.trim() || null,
+      deliveries: data.deliveries.trim() || null,
+      hindrances: data.hindrances.trim() || null,
+      instructions: data.instructions.trim() || null,
+      incidents: data.incidents.trim() || null,
+      photoIds: data.photoIds,
+      audioRecordIds: data.audioRecordIds,
+    });
+    return response.json();
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveDraft,
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Tagesbericht gespeichert" });
+    },
+    onError,
+  });
+
+  // Vor dem Abzeichnen wird der aktuelle Stand gespeichert, damit genau er gesperrt wird
+  const signMutation = useMutation({
+    mutationFn: async (data: DiaryDraft) => {
+      await saveDraft(data);
+      const response = await apiRequest("POST", `/api/diary-entries/${entryId}/sign`, {
+        name: signerName.trim(),
+        image: signatureImage,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setShowSignDialog(false);
+      toast({
+        title: "Tagesbericht abgezeichnet",
+        description: "Der Bericht ist jetzt gesperrt und kann als PDF exportiert werden.",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/diary-entries/${entryId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/diary`] });
+      setLocation(`/projects/${projectId}`);
+    },
+    onError,
+  });
+
+  const handleDownloadPdf = async () => {
+    try {
+      const response = await fetch(`/api/diary-entries/${entryId}/pdf`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("PDF konnte nicht erstellt werden");
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Bautagebuch_${projectId}_${entry?.entryDate}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  if (isLoading || (entry && !draft)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  if (!entry || !draft) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">Tagesbericht nicht gefunden.</p>
+        <Button variant="outline" onClick={() => setLocation(`/projects/${projectId}`)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Zurück zum Projekt
+        </Button>
+      </div>
+    );
+  }
+
+  const canManage = project?.projectPermissions?.includes("manage") ?? false;
+  // Abgezeichnete Berichte sind gesperrt, Gäste lesen nur
+  const isLocked = entry.status === "signed" || !project?.projectPermissions?.includes("edit");
+
+  // Zur Auswahl stehen die Medien des Tages sowie bereits verknüpfte Medien
+  const dayPhotos = projectPhotos.filter(
+    (photo) => (photo.createdAt && toDiaryDate(new Date(photo.createdAt)) === entry.entryDate) || draft.photoIds.includes(photo.id),
+  );
+  const dayAudio = projectAudio.filter(
+    (record) => (record.createdAt && toDiaryDate(new Date(record.createdAt)) === entry.entryDate) || draft.audioRecordIds.includes(record.id),
+  );
+
+  const toggleId = (ids: number[], id: number) => (ids.includes(id) ? ids.filter((value) => value !== id) : [...ids, id]);
+
+  const updateStaff = (index: number, row: Partial<DiaryStaffEntry>) =>
+    setDraft({ ...draft, staff: draft.staff.map((existing, i) => (i === index ? { ...existing, ...row } : existing)) });
+
+  const updateEquipment = (index: number, row: Partial<DiaryEquipmentEntry>) =>
+    setDraft({ ...draft, equipment: draft.equipment.map((existing, i) => (i === index ? { ...existing, ...row } : existing)) });
+
+  const workers = draft.staff.reduce((sum, row) => sum + (row.count || 0), 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => setLocation(`/projects/${projectId}`)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold text-gray-900 truncate">Tagesbericht Nr. {entry.reportNumber}</h1>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 mt-1">
+              <span>{formatDiaryDate(entry.entryDate)}</span>
+              {project?.name && <span className="truncate">{project.name}</span>}
+              {entry.status === "signed" && (
+                <Badge className="bg-green-600 text-white">
+                  <Lock className="h-3 w-3 mr-1" />
+                  Abgezeichnet
+                </Badge>
+              )}
+            </div>
+          </div>
+        </div>
+      </PageHeader>
+
+      <div className="p-4 pb-20 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Wetter</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="col-span-2 md:col-span-2">
+              <Label>Witterung *</Label>
+              <Select value={draft.weather} onValueChange={(weather) => setDraft({ ...draft, weather })} disabled={isLocked}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Auswählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIARY_WEATHER.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Temp. min (°C)</Label>
+              <Input type="number" value={draft.temperatureMin} onChange={(e) => setDraft({ ...draft, temperatureMin: e.target.value })} disabled={isLocked} />
+            </div>
+            <div>
+              <Label>Temp. max (°C)</Label>
+              <Input type="number" value={draft.temperatureMax} onChange={(e) => setDraft({ ...draft, temperatureMax: e.target.value })} disabled={isLocked} />
+            </div>
+            <div className="col-span-2 md:col-span-4">
+              <Label>Bemerkung</Label>
+              <Input
+                value={draft.weatherNotes}
+                onChange={(e) => setDraft({ ...draft, weatherNotes: e.target.value })}
+                placeholder="z.B. Dauerregen ab Mittag, Wind aus West"
+                disabled={isLocked}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Personal ({workers} AK)</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {draft.staff.map((row, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <Input className="col-span-4" value={row.company} placeholder="Firma" onChange={(e) => updateStaff(index, { company: e.target.value })} disabled={isLocked} />
+                <Input className="col-span-3" value={row.trade || ""} placeholder="Gewerk" onChange={(e) => updateStaff(index, { trade: e.target.value || null })} disabled={isLocked} />
+                <Input className="col-span-2" type="number" min={0} value={row.count} onChange={(e) => updateStaff(index, { count: parseInt(e.target.value) || 0 })} disabled={isLocked} />
+                <Input className="col-span-2" type="number" min={0} max={24} value={row.hours ?? ""} placeholder="Std." onChange={(e) => updateStaff(index, { hours: parseNumber(e.target.value) })} disabled={isLocked} />
+                {!isLocked && (
+                  <Button variant="ghost" size="sm" className="col-span-1" onClick={() => setDraft({ ...draft, staff: draft.staff.filter((_, i) => i !== index) })}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {draft.staff.length === 0 && <p className="text-sm text-gray-500">Kein Personal erfasst.</p>}
+            {!isLocked && (
+              <Button size="sm" variant="outline" onClick={() => setDraft({ ...draft, staff: [...draft.staff, { company: "", trade: null, count: 1, hours: 8 }] })}>
+                <Plus className="h-4 w-4 mr-1" />
+                Firma / Kolonne
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Geräte</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {draft.equipment.map((row, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <Input className="col-span-7" value={row.name} placeholder="z.B. Mobilbagger 14 t" onChange={(e) => updateEquipment(index, { name: e.target.value })} disabled={isLocked} />
+                <Input className="col-span-2" type="number" min={1} value={row.count} onChange={(e) => updateEquipment(index, { count: parseInt(e.target.value) || 1 })} disabled={isLocked} />
+                <Input className="col-span-2" type="number" min={0} max={24} value={row.hours ?? ""} placeholder="Std." onChange={(e) => updateEquipment(index, { hours: parseNumber(e.target.value) })} disabled={isLocked} />
+                {!isLocked && (
+                  <Button variant="ghost" size="sm" className="col-span-1" onClick={() => setDraft({ ...draft, equipment: draft.equipment.filter((_, i) => i !== index) })}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {draft.equipment.length === 0 && <p className="text-sm text-gray-500">Keine Geräte erfasst.</p>}
+            {!isLocked && (
+              <Button size="sm" variant="outline" onClick={() => setDraft({ ...draft, equipment: [...draft.equipment, { name: "", count: 1, hours: null }] })}>
+                <Plus className="h-4 w-4 mr-1" />
+                Gerät
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Leistungen und Vorkommnisse</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {TEXT_SECTIONS.map((section) => (
+              <div key={section.field}>
+                <Label>{section.label}</Label>
+                <Textarea
+                  value={draft[section.field]}
+                  onChange={(e) => setDraft({ ...draft, [section.field]: e.target.value })}
+                  placeholder={section.placeholder}
+                  rows={section.field === "workPerformed" ? 4 : 2}
+                  disabled={isLocked}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Fotos und Sprachnotizen des Tages</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {dayPhotos.length === 0 && dayAudio.length === 0 && (
+              <p className="text-sm text-gray-500">An diesem Tag wurden im Projekt keine Fotos oder Sprachnotizen aufgenommen.</p>
+            )}
+            {dayPhotos.length > 0 && (
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                {dayPhotos.map((photo) => (
+                  <label key={photo.id} className="relative block cursor-pointer">
+                    <img
+                      src={`/api/photos/${photo.id}/thumbnail`}
+                      alt={photo.description || photo.fileName}
+                      className={`h-20 w-full rounded object-cover bg-gray-100 ${draft.photoIds.includes(photo.id) ? "ring-2 ring-green-500" : "opacity-60"}`}
+                    />
+                    <Checkbox
+                      className="absolute top-1 left-1 bg-white"
+                      checked={draft.photoIds.includes(photo.id)}
+                      disabled={isLocked}
+                      onCheckedChange={() => setDraft({ ...draft, photoIds: toggleId(draft.photoIds, photo.id) })}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+            {dayAudio.map((record) => (
+              <div key={record.id} className="flex items-start space-x-2 rounded border border-gray-200 p-2">
+                <Checkbox
+                  id={`sprachnotiz-${record.id}`}
+                  checked={draft.audioRecordIds.includes(record.id)}
+                  disabled={isLocked}
+                  onCheckedChange={() => setDraft({ ...draft, audioRecordIds: toggleId(draft.audioRecordIds, record.id) })}
+                />
+                <label htmlFor={`sprachnotiz-${record.id}`} className="text-sm min-w-0">
+                  <span className="flex items-center gap-1 font-medium text-gray-900">
+                    <Mic className="h-3 w-3" />
+                    {record.description || record.fileName}
+                  </span>
+                  {record.transcription && <span className="block text-xs text-gray-600 line-clamp-2">{record.transcription}</span>}
+                </label>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {entry.status === "signed" ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Abzeichnung Bauleiter</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {entry.signature && <img src={entry.signature} alt="Unterschrift Bauleiter" className="h-16 object-contain bg-white" />}
+              <p className="text-xs text-gray-600">
+                {entry.signerName} · {entry.signedAt && new Date(entry.signedAt).toLocaleString("de-DE")}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          !isLocked && entry.problems.length > 0 && (
+            <Card className="border-orange-200 bg-orange-50">
+              <CardContent className="p-4">
+                <p className="flex items-center gap-2 text-sm font-medium text-orange-800 mb-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  Vor der Abzeichnung noch offen
+                </p>
+                <ul className="list-disc pl-5 text-sm text-orange-800 space-y-1">
+                  {entry.problems.map((problem) => (
+                    <li key={problem}>{problem}</li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {!isLocked && canManage && (
+            <Button variant="outline" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending}>
+              <Trash2 className="h-4 w-4 mr-2 text-red-600" />
+              Löschen
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleDownloadPdf}>
+            <Download className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+          {!isLocked && (
+            <Button variant="outline" onClick={() => saveMutation.mutate(draft)} disabled={saveMutation.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              Speichern
+            </Button>
+          )}
+          {!isLocked && canManage && (
+            <Button
+              onClick={() => {
+                setSignatureImage(null);
+                setShowSignDialog(true);
+              }}
+              disabled={!draft.weather || !draft.workPerformed.trim()}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              <PenLine className="h-4 w-4 mr-2" />
+              Abzeichnen
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={showSignDialog} onOpenChange={setShowSignDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Tagesbericht abzeichnen</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Der aktuelle Stand wird gespeichert. Nach der Abzeichnung ist der Bericht gesperrt.
+            </p>
+            <div>
+              <Label>Name des Bauleiters</Label>
+              <Input value={signerName} onChange={(e) => setSignerName(e.target.value)} placeholder="Vor- und Nachname" />
+            </div>
+            <SignaturePad onChange={setSignatureImage} />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setShowSignDialog(false)}>
+                Abbrechen
+              </Button>
+              <Button
+                onClick={() => signMutation.mutate(draft)}
+                disabled={!signerName.trim() || !signatureImage || signMutation.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Abzeichnen
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <MobileNav />
+    </div>
+  );
+}
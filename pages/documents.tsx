@@ -1,6 +1,7 @@
 import { useState, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "../lib/queryClient";
+import { uploadAttachment } from "../lib/attachmentUpload";
 import { useToast } from "../hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Button } from "../components/ui/button";
@@ -28,6 +29,7 @@ import {
   FolderOpen,
   Mic,
   Camera,
+  MapPin,
   Play,
   Pause
 } from "lucide-react";
@@ -44,6 +46,7 @@ export default function Documents() {
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState("all");
   const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -73,33 +76,35 @@ export default function Documents() {
 
   const uploadMutation = useMutation({
     mutationFn: async (data: { projectId: number; file: File }) => {
-      // For now, simulate upload success since backend upload isn't implemented yet
-      return new Promise((resolve) => {
-        setTimeout(() => {
-          resolve({ ok: true });
-        }, 1000);
-      });
+      setUploadProgress(0);
+      return await uploadAttachment(data.file, data.projectId, setUploadProgress);
     },
-    onSuccess: () => {
+    onSuccess: (_attachment, data) => {
       toast({
         title: "Datei hochgeladen",
         description: "Die Datei wurde erfolgreich hochgeladen.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/attachments"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${data.projectId}/attachments`] });
       handleCloseDialog();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Fehler",
-        description: "Die Datei konnte nicht hochgeladen werden.",
+        description: error.message || "Die Datei konnte nicht hochgeladen werden.",
         variant: "destructive",
       });
     },
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async (id: number) => {
-      return await apiRequest(`/api/attachments/${id}`, "DELETE");
+    mutationFn: async ({ type, id }: { type: string; id: number }) => {
+      const endpoints: Record<string, string> = {
+        attachment: "/api/attachments",
+        audio: "/api/audio-records",
+        photo: "/api/photos",
+      };
+      return await apiRequest("DELETE", `${endpoints[type]}/${id}`);
     },
     onSuccess: () => {
       toast({
@@ -107,6 +112,8 @@ export default function Documents() {
         description: "Die Datei wurde erfolgreich gelöscht.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/attachments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audio-records"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/photos"] });
     },
     onError: () => {
       toast({
@@ -201,7 +208,7 @@ export default function Documents() {
         fileSize: attachment.fileSize,
         icon: getFileIcon(attachment.mimeType),
         filterType: getFileTypeFilter(attachment.mimeType),
-        downloadUrl: attachment.filePath
+        downloadUrl: `/api/attachments/${attachment.id}/file`
       });
     });
 
@@ -218,7 +225,7 @@ export default function Documents() {
         transcription: record.transcription,
         icon: <Mic className="h-8 w-8 text-red-500" />,
         filterType: 'audio',
-        downloadUrl: record.filePath
+        downloadUrl: `/api/audio-records/${record.id}/file`
       });
     });
 
@@ -231,9 +238,19 @@ export default function Documents() {
         createdAt: photo.createdAt,
         projectId: photo.projectId,
         description: photo.description,
-        icon: <Camera className="h-8 w-8 text-blue-500" />,
+        capturedAt: photo.metadata?.capturedAt,
+        camera: [photo.metadata?.cameraMake, photo.metadata?.cameraModel].filter(Boolean).join(' '),
+        hasGps: !!(photo.gpsLatitude && photo.gpsLongitude),
+        icon: (
+          <img
+            src={`/api/photos/${photo.id}/thumbnail`}
+            alt={photo.description || photo.fileName}
+            loading="lazy"
+            className="h-16 w-16 rounded object-cover bg-gray-100"
+          />
+        ),
         filterType: 'images',
-        downloadUrl: photo.filePath
+        downloadUrl: `/api/photos/${photo.id}/file`
       });
     });
 
@@ -400,6 +417,19 @@ export default function Documents() {
                           {formatFileSize(media.fileSize)}
                         </span>
                       )}
+                      {media.type === 'photo' && media.capturedAt && (
+                        <span className="text-xs text-gray-500">
+                          Aufgenommen: {new Date(media.capturedAt).toLocaleString('de-DE')}
+                        </span>
+                      )}
+                      {media.type === 'photo' && media.camera && (
+                        <span className="text-xs text-gray-500">{media.camera}</span>
+                      )}
+                      {media.type === 'photo' && media.hasGps && (
+                        <span className="text-xs text-gray-500 flex items-center">
+                          <MapPin className="h-3 w-3 mr-1" />GPS
+                        </span>
+                      )}
                       {media.type === 'audio' && media.duration && (
                         <span className="text-xs text-gray-500">
                           {formatDuration(media.duration)}
@@ -420,25 +450,36 @@ export default function Documents() {
                   
                   <div className="flex items-center space-x-2">
                     {media.type === 'audio' && (
-                      <Button variant="ghost" size="sm" title="Audio abspielen">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Audio abspielen"
+                        onClick={() => new Audio(media.downloadUrl).play()}
+                      >
                         <Play className="h-4 w-4" />
                       </Button>
                     )}
-                    <Button variant="ghost" size="sm" title="Anzeigen/Öffnen">
-                      <Eye className="h-4 w-4" />
+                    <Button variant="ghost" size="sm" title="Anzeigen/Öffnen" asChild>
+                      <a href={media.downloadUrl} target="_blank" rel="noopener noreferrer">
+                        <Eye className="h-4 w-4" />
+                      </a>
                     </Button>
-                    <Button variant="ghost" size="sm" title="Herunterladen">
-                      <Download className="h-4 w-4" />
+                    <Button variant="ghost" size="sm" title="Herunterladen" asChild>
+                      <a href={`${media.downloadUrl}?download=1`} download={media.name}>
+                        <Download className="h-4 w-4" />
+                      </a>
                     </Button>
                     <Button 
                       variant="ghost" 
                       size="sm"
                       title="Löschen"
                       onClick={() => {
-                        if (media.type === 'attachment') {
-                          deleteMutation.mutate(parseInt(media.id.split('-')[1]));
+                        if (confirm(`Möchten Sie "${media.name}" wirklich löschen?`)) {
+                          deleteMutation.mutate({
+                            type: media.type,
+                            id: parseInt(media.id.split('-')[1]),
+                          });
                         }
-                        // TODO: Audio und Photo delete mutations
                       }}
                       disabled={deleteMutation.isPending}
                     >
@@ -490,20 +531,30 @@ export default function Documents() {
                 <Input
                   type="file"
                   ref={fileInputRef}
-                  accept=".pdf,.doc,.docx,.jpg,.jpeg,.png,.gif,.txt,.csv,.xls,.xlsx"
+                  accept=".pdf,.dwg,.dxf,.doc,.docx,.jpg,.jpeg,.png,.gif,.webp,.txt,.csv,.xls,.xlsx,.ppt,.pptx,.zip"
                   className="cursor-pointer"
                 />
                 <p className="text-sm text-gray-500">
-                  Unterstützte Formate: PDF, DOC, DOCX, JPG, PNG, GIF, TXT, CSV, XLS, XLSX
+                  Unterstützte Formate: PDF, DWG, DXF, DOC, DOCX, JPG, PNG, GIF, TXT, CSV, XLS, XLSX, ZIP.
+                  Große PDF- und DWG-Pläne werden in Teilen übertragen und nach Abbrüchen fortgesetzt.
                 </p>
               </div>
 
+              {uploadMutation.isPending && (
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-green-600 h-2 rounded-full transition-all"
+                    style={{ width: `${uploadProgress}%` }}
+                  />
+                </div>
+              )}
+
               <DialogFooter>
                 <Button 
                   type="submit" 
                   disabled={uploadMutation.isPending}
                 >
-                  {uploadMutation.isPending ? "Lädt hoch..." : "Hochladen"}
+                  {uploadMutation.isPending ? `Lädt hoch... ${uploadProgress}%` : "Hochladen"}
                 </Button>
               </DialogFooter>
             </form>
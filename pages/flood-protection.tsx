@@ -14,6 +14,10 @@ import { useToast } from "../hooks/use-toast";
 import { apiRequest, queryClient } from "../lib/queryClient";
 import { PageHeader } from "../components/layout/page-header";
 import { MobileNav } from "../components/layout/mobile-nav";
+import { SchadensfallDialog } from "../components/flood/schadensfall-dialog";
+import { DeichwachenPlan } from "../components/flood/deichwachen-plan";
+import { PegelUebersicht } from "../components/flood/pegel-uebersicht";
+import { ChecklistVorlagen } from "../components/flood/checklist-vorlagen";
 import {
   AlertTriangle,
   CheckCircle,
@@ -43,6 +47,8 @@ export default function FloodProtection() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("checklists");
   const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState("alle");
+  const [exportChecklistId, setExportChecklistId] = useState<string>("");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newChecklistForm, setNewChecklistForm] = useState({
     titel: "",
@@ -51,17 +57,86 @@ export default function FloodProtection() {
     beschreibung: ""
   });
 
+  const [pruefungSchieber, setPruefungSchieber] = useState<any | null>(null);
+  const [pruefungForm, setPruefungForm] = useState({
+    funktionsstatus: "funktionsfähig",
+    bemerkung: ""
+  });
+  const [isCreateSchieberDialogOpen, setIsCreateSchieberDialogOpen] = useState(false);
+  const [selectedSchadensfallId, setSelectedSchadensfallId] = useState<number | null>(null);
+  const [isCreateSchadenDialogOpen, setIsCreateSchadenDialogOpen] = useState(false);
+  const [newSchadenForm, setNewSchadenForm] = useState({
+    problem_beschreibung: "",
+    absperrschieber_id: "",
+    prioritaet: "3"
+  });
+  const [newSchieberForm, setNewSchieberForm] = useState({
+    nummer: "",
+    bezeichnung: "",
+    lage: "",
+    beschreibung: "",
+    nennweiteDn: "",
+    pruefintervallTage: "90"
+  });
+
+  const { data: checklists = [] } = useQuery<any[]>({
+    queryKey: ["/api/flood/checklists"],
+  });
+
+  const { data: absperrschieber = [] } = useQuery<any[]>({
+    queryKey: ["/api/flood/absperrschieber"],
+  });
+
+  // Aufgaben, die eine neue Checkliste des gewählten Typs aus der aktiven Vorlage erhält
+  const { data: aktiveVorlage } = useQuery<any>({
+    queryKey: [`/api/flood/checklist-vorlagen/aktiv/${newChecklistForm.typ}`],
+    enabled: isCreateDialogOpen,
+  });
+
+  const { data: schadensfaelle = [] } = useQuery<any[]>({
+    queryKey: ["/api/flood/schadensfaelle"],
+  });
+
+  const { data: deichwachen = [] } = useQuery<any[]>({
+    queryKey: ["/api/flood/deichwachen"],
+  });
+
+  const aktuelleDeichwachen = deichwachen.filter(
+    (wache) => new Date(wache.schicht_beginn) <= new Date() && new Date(wache.schicht_ende) > new Date()
+  );
+
+  const offeneSchadensfaelle = schadensfaelle.filter(
+    (schaden) => schaden.status === "gemeldet" || schaden.status === "in_bearbeitung"
+  );
+
+  const filteredChecklists = checklists.filter((checklist) => {
+    const matchesSearch = checklist.titel.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesStatus = statusFilter === "alle" || checklist.status === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  const getExportChecklist = () =>
+    checklists.find((checklist) => checklist.id.toString() === exportChecklistId) || checklists[0];
+
   // PDF Export Handler
   const handlePDFExport = async () => {
     try {
-      const selectedChecklist = demoChecklists[0]; // Später aus dem Select-Element
+      const selectedChecklist = getExportChecklist();
+      if (!selectedChecklist) {
+        toast({
+          title: "Keine Checkliste",
+          description: "Bitte erstellen oder wählen Sie zuerst eine Checkliste.",
+          variant: "destructive",
+        });
+        return;
+      }
       
       // PDF-Daten zusammenstellen
       const pdfData = {
         checklist: selectedChecklist,
-        schieber: demoAbsperrschieber,
-        schaeden: demoSchadensfaelle,
-        wachen: demoDeichwachen,
+        schieber: absperrschieber,
+        schaeden: schadensfaelle,
+        wachen: deichwachen,
         exportedAt: new Date().toLocaleString('de-DE'),
         exportedBy: "Aktueller Benutzer"
       };
@@ -112,16 +187,24 @@ export default function FloodProtection() {
         return;
       }
 
-      const selectedChecklist = demoChecklists[0]; // Später aus dem Select-Element
+      const selectedChecklist = getExportChecklist();
+      if (!selectedChecklist) {
+        toast({
+          title: "Keine Checkliste",
+          description: "Bitte erstellen oder wählen Sie zuerst eine Checkliste.",
+          variant: "destructive",
+        });
+        return;
+      }
       
       const emailData = {
         to: emailTo,
         subject: emailSubject,
         message: emailMessage,
         checklist: selectedChecklist,
-        schieber: demoAbsperrschieber,
-        schaeden: demoSchadensfaelle,
-        wachen: demoDeichwachen,
+        schieber: absperrschieber,
+        schaeden: schadensfaelle,
+        wachen: deichwachen,
         includePdf: true
       };
 
@@ -147,8 +230,6 @@ export default function FloodProtection() {
     try {
       const { titel, typ, pegelstand, beschreibung } = newChecklistForm;
 
-      console.log("Erstelle Checkliste mit Daten:", { titel, typ, pegelstand, beschreibung });
-
       if (!titel || !pegelstand) {
         toast({
           title: "Fehler",
@@ -159,18 +240,13 @@ export default function FloodProtection() {
       }
 
       // API-Aufruf zum Erstellen der Checkliste
-      const response = await apiRequest("POST", "/api/flood/create-checklist", {
+      await apiRequest("POST", "/api/flood/create-checklist", {
         titel,
         typ,
         beginn_pegelstand_cm: parseInt(pegelstand),
         beschreibung
       });
 
-      console.log("API Response:", response.status, response.statusText);
-
-      const result = await response.json();
-      console.log("API Result:", result);
-
       toast({
         title: "Erfolgreich",
         description: `Checkliste "${titel}" wurde erstellt.`,
@@ -187,7 +263,7 @@ export default function FloodProtection() {
       });
 
       // Query invalidieren um die Liste zu aktualisieren
-      queryClient.invalidateQueries(['/api/flood/checklists']);
+      queryClient.invalidateQueries({ queryKey: ["/api/flood/checklists"] });
 
     } catch (error) {
       console.error("Fehler beim Erstellen der Checkliste:", error);
@@ -200,28 +276,25 @@ export default function FloodProtection() {
   };
 
   // Handler für das Bearbeiten einer Checkliste
-  const handleEditChecklist = (checklistId: string) => {
+  const handleEditChecklist = (checklistId: number) => {
     setLocation(`/flood-protection/checklist/${checklistId}`);
   };
 
   // Handler für das Löschen einer einzelnen Checkliste
-  const handleDeleteChecklist = async (checklistId: string, titel: string) => {
+  const handleDeleteChecklist = async (checklistId: number, titel: string) => {
     const confirmed = window.confirm(`Möchten Sie die Checkliste "${titel}" wirklich löschen? Diese Aktion kann nicht rückgängig gemacht werden.`);
     
     if (!confirmed) return;
 
     try {
-      await fetch(`/api/flood/checklists/${checklistId}`, {
-        method: "DELETE",
-      });
+      await apiRequest("DELETE", `/api/flood/checklists/${checklistId}`);
 
       toast({
         title: "Checkliste gelöscht",
         description: `"${titel}" wurde erfolgreich gelöscht.`,
       });
 
-      // Hier würden wir normalerweise die Query invalidieren
-      // queryClient.invalidateQueries(['/api/flood/checklists']);
+      queryClient.invalidateQueries({ queryKey: ["/api/flood/checklists"] });
 
     } catch (error) {
       toast({
@@ -240,22 +313,22 @@ export default function FloodProtection() {
     
     if (!confirmed) return;
 
-    const doubleConfirmed = window.confirm(
+    const bestaetigung = window.prompt(
       `Sind Sie sich absolut sicher? Geben Sie zur Bestätigung "ALLE LÖSCHEN" ein.`
     );
 
-    if (!doubleConfirmed) return;
+    if (bestaetigung !== "ALLE LÖSCHEN") return;
 
     try {
-      await fetch("/api/flood/checklists/delete-all", {
-        method: "DELETE",
-      });
+      await apiRequest("DELETE", `/api/flood/checklists/delete-all?confirm=${encodeURIComponent(bestaetigung)}`);
 
       toast({
         title: "Alle Checklisten gelöscht",
         description: "Alle Checklisten wurden erfolgreich gelöscht.",
       });
 
+      queryClient.invalidateQueries({ queryKey: ["/api/flood/checklists"] });
+
     } catch (error) {
       toast({
         title: "Fehler",
@@ -266,21 +339,17 @@ export default function FloodProtection() {
   };
 
   // Handler für das Duplizieren einer Checkliste
-  const handleDuplicateChecklist = async (checklistId: string) => {
+  const handleDuplicateChecklist = async (checklistId: number) => {
     try {
-      await fetch("/api/flood/checklists/duplicate", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ checklistId }),
-      });
+      await apiRequest("POST", "/api/flood/checklists/duplicate", { checklistId });
 
       toast({
         title: "Checkliste dupliziert",
         description: "Eine Kopie der Checkliste wurde erstellt.",
       });
 
+      queryClient.invalidateQueries({ queryKey: ["/api/flood/checklists"] });
+
     } catch (error) {
       toast({
         title: "Fehler",
@@ -290,113 +359,133 @@ export default function FloodProtection() {
     }
   };
 
-  // Demo-Daten
-  const demoChecklists = [
-    {
-      id: "1",
-      titel: "Hochwasserereignis Mai 2025",
-      typ: "hochwasser",
-      status: "in_bearbeitung",
-      erstellt_am: "2025-05-15T08:00:00Z",
-      erstellt_von: "Thomas Müller",
-      beginn_pegelstand_cm: 245,
-      fortschritt: 68,
-      aufgaben_gesamt: 11,
-      aufgaben_erledigt: 7
-    },
-    {
-      id: "2",
-      titel: "Präventive Kontrolle Deichanlage",
-      typ: "kontrolle",
-      status: "offen",
-      erstellt_am: "2025-06-01T14:15:00Z",
-      erstellt_von: "Dr. Klein",
-      beginn_pegelstand_cm: 150,
-      fortschritt: 33,
-      aufgaben_gesamt: 6,
-      aufgaben_erledigt: 2
-    }
-  ];
-
-  const demoAbsperrschieber = [
-    {
-      id: 1,
-      nummer: 1,
-      bezeichnung: "Absperrschieber DN 300",
-      lage: "Lohr km 1,470, Nähe Kupfermühle",
-      beschreibung: "Absperrschieber DN 300 mit Festspindel bis unter die Schachtdeckelunterkante",
-      status: "funktionsfähig",
-      letzte_pruefung: "2025-06-25",
-      koordinaten_lat: 49.7962,
-      koordinaten_lng: 9.9332
-    },
-    {
-      id: 2,
-      nummer: 2,
-      bezeichnung: "Absperrschütz bei ehem. Grundwehr", 
-      lage: "Lohr km 1,320",
-      beschreibung: "Absperrschütz bei ehem. Grundwehr",
-      status: "wartung_erforderlich",
-      letzte_pruefung: "2025-06-20",
-      koordinaten_lat: 49.7951,
-      koordinaten_lng: 9.9318
-    },
-    {
-      id: 3,
-      nummer: 3,
-      bezeichnung: "Absperrschieber DN 1800",
-      lage: "Mutterbach, Überführungsbauwerk Nähe Parkplatz Augenklinik, Grundstück Weierich",
-      beschreibung: "Absperrschieber DN1800 im Mutterbach mit aufgesetztem Schieber DN 300 (Nr.4)",
-      status: "funktionsfähig",
-      letzte_pruefung: "2025-06-26",
-      koordinaten_lat: 49.7945,
-      koordinaten_lng: 9.9305
+  // Handler für das Anlegen eines neuen Absperrschiebers
+  const handleCreateSchieber = async () => {
+    try {
+      const { nummer, bezeichnung, lage, beschreibung, nennweiteDn, pruefintervallTage } = newSchieberForm;
+
+      if (!nummer || !bezeichnung) {
+        toast({
+          title: "Fehler",
+          description: "Bitte füllen Sie alle Pflichtfelder aus.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await apiRequest("POST", "/api/flood/absperrschieber", {
+        nummer: parseInt(nummer),
+        bezeichnung,
+        lage: lage || null,
+        beschreibung: beschreibung || null,
+        nennweiteDn: nennweiteDn ? parseInt(nennweiteDn) : null,
+        pruefintervallTage: parseInt(pruefintervallTage) || 90
+      });
+
+      toast({
+        title: "Erfolgreich",
+        description: `Schieber Nr. ${nummer} wurde angelegt.`,
+      });
+
+      setIsCreateSchieberDialogOpen(false);
+      setNewSchieberForm({
+        nummer: "",
+        bezeichnung: "",
+        lage: "",
+        beschreibung: "",
+        nennweiteDn: "",
+        pruefintervallTage: "90"
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/flood/absperrschieber"] });
+
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Fehler beim Anlegen des Absperrschiebers.",
+        variant: "destructive",
+      });
     }
-  ];
-
-  const demoSchadensfaelle = [
-    {
-      id: "1",
-      absperrschieber_nummer: 1,
-      problem_beschreibung: "Festsitzender Deckel bei Schieber Nr. 1",
-      status: "behoben",
-      prioritaet: 2,
-      gemeldet_am: "2025-06-25T09:15:00Z",
-      gemeldet_von: "Klaus Werner",
-      massnahme: "Mit Vorschlaghammer den Schacht freischlagen"
-    },
-    {
-      id: "2",
-      absperrschieber_nummer: 2,
-      problem_beschreibung: "Kein Zulauf in Mühlgraben bei Schieber Nr. 2",
-      status: "in_bearbeitung", 
-      prioritaet: 1,
-      gemeldet_am: "2025-06-28T11:30:00Z",
-      gemeldet_von: "Anna Schmidt",
-      massnahme: "Prüfen ob Schieber geschlossen ist >> öffnen; Rechen am Zulaufrohr in Lohr räumen"
+  };
+
+  // Handler für das Speichern einer Schieber-Prüfung
+  const handleCreatePruefung = async () => {
+    if (!pruefungSchieber) return;
+
+    try {
+      await apiRequest("POST", `/api/flood/absperrschieber/${pruefungSchieber.id}/pruefungen`, {
+        funktionsstatus: pruefungForm.funktionsstatus,
+        bemerkung: pruefungForm.bemerkung
+      });
+
+      toast({
+        title: "Prüfung gespeichert",
+        description: `Die Prüfung für Schieber Nr. ${pruefungSchieber.nummer} wurde dokumentiert.`,
+      });
+
+      setPruefungSchieber(null);
+      setPruefungForm({ funktionsstatus: "funktionsfähig", bemerkung: "" });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/flood/absperrschieber"] });
+
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Fehler beim Speichern der Prüfung.",
+        variant: "destructive",
+      });
     }
-  ];
-
-  const demoDeichwachen = [
-    {
-      id: "1",
-      name: "Klaus Werner",
-      telefon: "0171-1234567",
-      schicht_beginn: "2025-06-29T06:00:00Z",
-      schicht_ende: "2025-06-29T18:00:00Z",
-      bereich: "Deichabschnitt A (km 0,0 - 2,5)",
-      bemerkung: "Erfahrener Deichwächter"
-    },
-    {
-      id: "2",
-      name: "Anna Schmidt",
-      telefon: "0172-9876543",
-      schicht_beginn: "2025-06-29T18:00:00Z",
-      schicht_ende: "2025-06-30T06:00:00Z",
-      bereich: "Deichabschnitt B (km 2,5 - 5,0)",
-      bemerkung: "Nachtschicht"
+  };
+
+  // Handler für das Melden eines neuen Schadensfalls
+  const openCreateSchadenDialog = (absperrschieberId?: number) => {
+    setNewSchadenForm({
+      problem_beschreibung: "",
+      absperrschieber_id: absperrschieberId ? absperrschieberId.toString() : "",
+      prioritaet: "3"
+    });
+    setIsCreateSchadenDialogOpen(true);
+  };
+
+  const handleCreateSchaden = async () => {
+    try {
+      const { problem_beschreibung, absperrschieber_id, prioritaet } = newSchadenForm;
+
+      if (!problem_beschreibung) {
+        toast({
+          title: "Fehler",
+          description: "Bitte beschreiben Sie das Problem.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const response = await apiRequest("POST", "/api/flood/schadensfaelle", {
+        problem_beschreibung,
+        absperrschieber_id: absperrschieber_id ? parseInt(absperrschieber_id) : null,
+        prioritaet: parseInt(prioritaet)
+      });
+      const schadensfall = await response.json();
+
+      toast({
+        title: "Schaden gemeldet",
+        description: "Der Schadensfall wurde erfasst.",
+      });
+
+      setIsCreateSchadenDialogOpen(false);
+      setActiveTab("schaden");
+      setSelectedSchadensfallId(schadensfall.id);
+
+      queryClient.invalidateQueries({ queryKey: ["/api/flood/schadensfaelle"] });
+
+    } catch (error) {
+      toast({
+        title: "Fehler",
+        description: "Fehler beim Melden des Schadensfalls.",
+        variant: "destructive",
+      });
     }
-  ];
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -406,7 +495,10 @@ export default function FloodProtection() {
       case "funktionsfähig": return "bg-green-500";
       case "wartung_erforderlich": return "bg-orange-500";
       case "defekt": return "bg-red-500";
+      case "gemeldet": return "bg-blue-500";
       case "behoben": return "bg-green-500";
+      case "geprueft": return "bg-gray-700";
+      case "ungeprueft": return "bg-gray-500";
       default: return "bg-gray-500";
     }
   };
@@ -419,7 +511,10 @@ export default function FloodProtection() {
       case "funktionsfähig": return "Funktionsfähig";
       case "wartung_erforderlich": return "Wartung erforderlich";
       case "defekt": return "Defekt";
+      case "gemeldet": return "Gemeldet";
       case "behoben": return "Behoben";
+      case "geprueft": return "Geprüft";
+      case "ungeprueft": return "Ungeprüft";
       default: return status;
     }
   };
@@ -473,7 +568,9 @@ export default function FloodProtection() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-600">Checklisten</p>
-                  <p className="text-2xl font-bold text-blue-600">2</p>
+                  <p className="text-2xl font-bold text-blue-600">
+                    {checklists.filter((checklist) => checklist.status !== "abgeschlossen").length}
+                  </p>
                   <p className="text-xs text-gray-500">aktiv</p>
                 </div>
                 <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
@@ -488,8 +585,13 @@ export default function FloodProtection() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-600">Schieber</p>
-                  <p className="text-2xl font-bold text-green-600">5</p>
-                  <p className="text-xs text-gray-500">bereit</p>
+                  <p className="text-2xl font-bold text-green-600">
+                    {absperrschieber.filter((schieber) => schieber.aktiv && schieber.funktionsfaehig).length}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    bereit{absperrschieber.some((schieber) => schieber.ueberfaellig) &&
+                      `, ${absperrschieber.filter((schieber) => schieber.ueberfaellig).length} Prüfung überfällig`}
+                  </p>
                 </div>
                 <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
                   <Settings className="h-6 w-6 text-green-600" />
@@ -503,7 +605,7 @@ export default function FloodProtection() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-600">Schäden</p>
-                  <p className="text-2xl font-bold text-orange-600">0</p>
+                  <p className="text-2xl font-bold text-orange-600">{offeneSchadensfaelle.length}</p>
                   <p className="text-xs text-gray-500">gemeldet</p>
                 </div>
                 <div className="w-12 h-12 bg-orange-100 rounded-lg flex items-center justify-center">
@@ -518,7 +620,7 @@ export default function FloodProtection() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-600">Wachen</p>
-                  <p className="text-2xl font-bold text-purple-600">3</p>
+                  <p className="text-2xl font-bold text-purple-600">{aktuelleDeichwachen.length}</p>
                   <p className="text-xs text-gray-500">besetzt</p>
                 </div>
                 <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center">
@@ -531,11 +633,13 @@ export default function FloodProtection() {
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <div className="flex items-center justify-between">
-            <TabsList className="grid w-full max-w-lg grid-cols-5">
+            <TabsList className="grid w-full max-w-2xl grid-cols-7">
               <TabsTrigger value="checklists">Checklisten</TabsTrigger>
               <TabsTrigger value="schieber">Schieber</TabsTrigger>
               <TabsTrigger value="schaden">Schäden</TabsTrigger>
               <TabsTrigger value="wachen">Wachen</TabsTrigger>
+              <TabsTrigger value="pegel">Pegel</TabsTrigger>
+              <TabsTrigger value="vorlagen">Vorlagen</TabsTrigger>
               <TabsTrigger value="verwalten">Verwalten</TabsTrigger>
             </TabsList>
             <div className="flex gap-2 flex-wrap">
@@ -561,13 +665,13 @@ export default function FloodProtection() {
                   <div className="space-y-4">
                     <div>
                       <Label>Checkliste auswählen:</Label>
-                      <Select>
+                      <Select value={exportChecklistId} onValueChange={setExportChecklistId}>
                         <SelectTrigger>
                           <SelectValue placeholder="Wählen Sie eine Checkliste" />
                         </SelectTrigger>
                         <SelectContent>
-                          {demoChecklists.map((checklist: any) => (
-                            <SelectItem key={checklist.id} value={checklist.id}>
+                          {checklists.map((checklist: any) => (
+                            <SelectItem key={checklist.id} value={checklist.id.toString()}>
                               {checklist.titel} ({checklist.typ})
                             </SelectItem>
                           ))}
@@ -623,13 +727,13 @@ export default function FloodProtection() {
                   <div className="space-y-4">
                     <div>
                       <Label>Checkliste auswählen:</Label>
-                      <Select>
+                      <Select value={exportChecklistId} onValueChange={setExportChecklistId}>
                         <SelectTrigger>
                           <SelectValue placeholder="Wählen Sie eine Checkliste" />
                         </SelectTrigger>
                         <SelectContent>
-                          {demoChecklists.map((checklist: any) => (
-                            <SelectItem key={checklist.id} value={checklist.id}>
+                          {checklists.map((checklist: any) => (
+                            <SelectItem key={checklist.id} value={checklist.id.toString()}>
                               {checklist.titel} ({checklist.typ})
                             </SelectItem>
                           ))}
@@ -693,7 +797,7 @@ export default function FloodProtection() {
                   className="pl-10 h-11"
                 />
               </div>
-              <Select defaultValue="alle">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
                 <SelectTrigger className="h-11 sm:w-48">
                   <SelectValue placeholder="Status filtern" />
                 </SelectTrigger>
@@ -707,7 +811,7 @@ export default function FloodProtection() {
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-              {demoChecklists.map((checklist) => (
+              {filteredChecklists.map((checklist) => (
                 <Card key={checklist.id} className="hover:shadow-md transition-shadow">
                   <CardHeader className="pb-3 sm:pb-4">
                     <div className="flex items-start justify-between">
@@ -728,6 +832,7 @@ export default function FloodProtection() {
                         <span className="text-gray-600">Typ</span>
                         <Badge variant="outline">
                           {checklist.typ === "hochwasser" ? "Hochwasser" : 
+                           checklist.typ === "starkregen" ? "Starkregen" :
                            checklist.typ === "kontrolle" ? "Kontrolle" : "Übung"}
                         </Badge>
                       </div>
@@ -786,8 +891,23 @@ export default function FloodProtection() {
           </TabsContent>
 
           <TabsContent value="schieber" className="space-y-6">
+            <div className="flex justify-end">
+              <Button onClick={() => setIsCreateSchieberDialogOpen(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Neuer Schieber
+              </Button>
+            </div>
+
+            {absperrschieber.length === 0 && (
+              <Card>
+                <CardContent className="p-6 text-center text-gray-500">
+                  Noch keine Absperrschieber erfasst.
+                </CardContent>
+              </Card>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {demoAbsperrschieber.map((schieber) => (
+              {absperrschieber.map((schieber) => (
                 <Card key={schieber.id} className="hover:shadow-md transition-shadow">
                   <CardHeader className="pb-4">
                     <div className="flex items-start justify-between">
@@ -795,9 +915,16 @@ export default function FloodProtection() {
                         <CardTitle className="text-lg">Schieber Nr. {schieber.nummer}</CardTitle>
                         <p className="text-sm text-gray-600 font-medium">{schieber.bezeichnung}</p>
                       </div>
-                      <Badge className={`${getStatusColor(schieber.status)} text-white`}>
-                        {getStatusText(schieber.status)}
-                      </Badge>
+                      <div className="flex flex-col items-end gap-1">
+                        <Badge className={`${getStatusColor(schieber.status)} text-white`}>
+                          {getStatusText(schieber.status)}
+                        </Badge>
+                        {schieber.ueberfaellig && (
+                          <Badge className="bg-red-500 text-white">
+                            Prüfung überfällig
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent>
@@ -807,14 +934,27 @@ export default function FloodProtection() {
                         <span className="text-sm text-gray-600">{schieber.lage}</span>
                       </div>
                       
-                      <div className="text-sm text-gray-600 bg-gray-50 p-2 rounded">
-                        {schieber.beschreibung}
-                      </div>
+                      {schieber.beschreibung && (
+                        <div className="text-sm text-gray-600 bg-gray-50 p-2 rounded">
+                          {schieber.beschreibung}
+                        </div>
+                      )}
 
                       <div className="flex items-center justify-between text-sm">
                         <span className="text-gray-600">Letzte Prüfung</span>
                         <span className="font-medium">
-                          {new Date(schieber.letzte_pruefung).toLocaleDateString('de-DE')}
+                          {schieber.letzte_pruefung
+                            ? new Date(schieber.letzte_pruefung).toLocaleDateString('de-DE')
+                            : "–"}
+                        </span>
+                      </div>
+
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-gray-600">Nächste Prüfung</span>
+                        <span className={`font-medium ${schieber.ueberfaellig ? "text-red-600" : ""}`}>
+                          {schieber.naechste_pruefung
+                            ? new Date(schieber.naechste_pruefung).toLocaleDateString('de-DE')
+                            : "sofort"}
                         </span>
                       </div>
 
@@ -825,11 +965,21 @@ export default function FloodProtection() {
                       )}
 
                       <div className="flex gap-2 pt-2">
-                        <Button size="sm" variant="outline" className="flex-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1"
+                          onClick={() => setPruefungSchieber(schieber)}
+                        >
                           <Camera className="h-4 w-4 mr-1" />
                           Prüfen
                         </Button>
-                        <Button size="sm" variant="outline" className="flex-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1"
+                          onClick={() => openCreateSchadenDialog(schieber.id)}
+                        >
                           <AlertTriangle className="h-4 w-4 mr-1" />
                           Schaden
                         </Button>
@@ -842,18 +992,34 @@ export default function FloodProtection() {
           </TabsContent>
 
           <TabsContent value="schaden" className="space-y-6">
+            <div className="flex justify-end">
+              <Button onClick={() => openCreateSchadenDialog()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Schaden melden
+              </Button>
+            </div>
+
             <div className="space-y-4">
-              {demoSchadensfaelle.map((schaden) => (
+              {schadensfaelle.length === 0 && (
+                <Card>
+                  <CardContent className="p-6 text-center text-gray-500">
+                    Keine Schadensfälle gemeldet.
+                  </CardContent>
+                </Card>
+              )}
+              {schadensfaelle.map((schaden) => (
                 <Card key={schaden.id} className="hover:shadow-md transition-shadow">
                   <CardHeader className="pb-4">
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
                         <CardTitle className="text-lg">{schaden.problem_beschreibung}</CardTitle>
                         <div className="flex items-center space-x-4 mt-2 text-sm text-gray-600">
-                          <span className="flex items-center space-x-1">
-                            <Settings className="h-4 w-4" />
-                            <span>Schieber Nr. {schaden.absperrschieber_nummer}</span>
-                          </span>
+                          {schaden.absperrschieber_nummer && (
+                            <span className="flex items-center space-x-1">
+                              <Settings className="h-4 w-4" />
+                              <span>Schieber Nr. {schaden.absperrschieber_nummer}</span>
+                            </span>
+                          )}
                           <span className="flex items-center space-x-1">
                             <Calendar className="h-4 w-4" />
                             <span>{new Date(schaden.gemeldet_am).toLocaleDateString('de-DE')}</span>
@@ -875,18 +1041,25 @@ export default function FloodProtection() {
                     </div>
                   </CardHeader>
                   <CardContent>
-                    <div className="bg-gray-50 p-3 rounded mb-4">
-                      <p className="text-sm text-gray-700">
-                        <strong>Maßnahme:</strong> {schaden.massnahme}
+                    {schaden.massnahme && (
+                      <div className="bg-gray-50 p-3 rounded mb-4">
+                        <p className="text-sm text-gray-700">
+                          <strong>Maßnahme:</strong> {schaden.massnahme}
+                        </p>
+                      </div>
+                    )}
+                    {schaden.zugewiesen_an && (
+                      <p className="text-sm text-gray-600 mb-4">
+                        <strong>Zuständig:</strong> {schaden.zugewiesen_an}
                       </p>
-                    </div>
+                    )}
                     <div className="flex gap-2">
-                      <Button size="sm" variant="outline">
+                      <Button size="sm" variant="outline" onClick={() => setSelectedSchadensfallId(schaden.id)}>
                         <FileText className="h-4 w-4 mr-1" />
                         Details
                       </Button>
-                      {schaden.status !== "behoben" && (
-                        <Button size="sm">
+                      {schaden.status !== "geprueft" && (
+                        <Button size="sm" onClick={() => setSelectedSchadensfallId(schaden.id)}>
                           <CheckCircle className="h-4 w-4 mr-1" />
                           Bearbeiten
                         </Button>
@@ -899,54 +1072,15 @@ export default function FloodProtection() {
           </TabsContent>
 
           <TabsContent value="wachen" className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {demoDeichwachen.map((wache) => (
-                <Card key={wache.id} className="hover:shadow-md transition-shadow">
-                  <CardHeader className="pb-4">
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <CardTitle className="text-lg">{wache.name}</CardTitle>
-                        <p className="text-sm text-gray-600">{wache.telefon}</p>
-                      </div>
-                      <Badge variant="outline">Eingeteilt</Badge>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="text-gray-600">Schicht</span>
-                        <span className="font-medium">
-                          {new Date(wache.schicht_beginn).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })} - 
-                          {new Date(wache.schicht_ende).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}
-                        </span>
-                      </div>
-                      
-                      <div className="flex items-start space-x-2">
-                        <MapPin className="h-4 w-4 text-gray-500 mt-0.5 flex-shrink-0" />
-                        <span className="text-sm text-gray-600">{wache.bereich}</span>
-                      </div>
+            <DeichwachenPlan />
+          </TabsContent>
 
-                      {wache.bemerkung && (
-                        <div className="text-sm text-gray-600 bg-gray-50 p-2 rounded">
-                          {wache.bemerkung}
-                        </div>
-                      )}
+          <TabsContent value="pegel" className="space-y-6">
+            <PegelUebersicht />
+          </TabsContent>
 
-                      <div className="flex gap-2 pt-2">
-                        <Button size="sm" variant="outline" className="flex-1">
-                          <Edit className="h-4 w-4 mr-1" />
-                          Bearbeiten
-                        </Button>
-                        <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700">
-                          <Trash2 className="h-4 w-4 mr-1" />
-                          Entfernen
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+          <TabsContent value="vorlagen" className="space-y-6">
+            <ChecklistVorlagen />
           </TabsContent>
 
           <TabsContent value="verwalten" className="space-y-6">
@@ -964,7 +1098,7 @@ export default function FloodProtection() {
               </div>
 
               <div className="space-y-3">
-                {demoChecklists.map((checklist) => (
+                {checklists.map((checklist) => (
                   <Card key={checklist.id} className="p-4 border border-gray-200 hover:shadow-sm transition-shadow">
                     <div className="flex items-center justify-between">
                       <div className="flex-1">
@@ -975,6 +1109,7 @@ export default function FloodProtection() {
                               <span>ID: {checklist.id}</span>
                               <Badge variant="outline" className="text-xs">
                                 {checklist.typ === "hochwasser" ? "Hochwasser" : 
+                                 checklist.typ === "starkregen" ? "Starkregen" :
                                  checklist.typ === "kontrolle" ? "Kontrolle" : "Übung"}
                               </Badge>
                               <Badge className={`${getStatusColor(checklist.status)} text-white text-xs`}>
@@ -1029,7 +1164,7 @@ export default function FloodProtection() {
                   </Card>
                 ))}
 
-                {demoChecklists.length === 0 && (
+                {checklists.length === 0 && (
                   <Card className="p-8 text-center">
                     <div className="text-gray-500">
                       <FileText className="h-12 w-12 mx-auto mb-4 text-gray-400" />
@@ -1097,6 +1232,7 @@ export default function FloodProtection() {
                 <SelectContent>
                   <SelectItem value="hochwasser">Hochwasserereignis</SelectItem>
                   <SelectItem value="uebung">Übung</SelectItem>
+                  <SelectItem value="starkregen">Starkregen</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -1133,7 +1269,11 @@ export default function FloodProtection() {
             <div className="bg-blue-50 p-3 rounded-lg">
               <h4 className="font-medium text-blue-900 mb-2">Automatisch erstellt:</h4>
               <ul className="text-sm text-blue-800 space-y-1">
-                <li>• 11 Standardaufgaben (Beginn + Ende)</li>
+                <li>
+                  • {aktiveVorlage
+                    ? `${aktiveVorlage.aufgaben_gesamt} Aufgaben aus ${aktiveVorlage.id ? `Vorlage "${aktiveVorlage.name}" (Version ${aktiveVorlage.version})` : "den Standardaufgaben"}`
+                    : "Aufgaben aus der aktiven Vorlage"} (Beginn + Ende)
+                </li>
                 <li>• Schieber-Prüfungen für alle aktiven Anlagen</li>
                 <li>• Schadensmelde-System</li>
                 <li>• Deichwachen-Verwaltung</li>
@@ -1160,6 +1300,271 @@ export default function FloodProtection() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Dialog für Schadensfall-Details und Workflow */}
+      <SchadensfallDialog
+        schadensfallId={selectedSchadensfallId}
+        onOpenChange={(open) => !open && setSelectedSchadensfallId(null)}
+      />
+
+      {/* Dialog für neuen Schadensfall */}
+      <Dialog open={isCreateSchadenDialogOpen} onOpenChange={setIsCreateSchadenDialogOpen}>
+        <DialogContent className="max-w-md mx-4 max-h-[90vh] overflow-y-auto" aria-describedby="schaden-dialog-description">
+          <DialogHeader>
+            <DialogTitle className="text-lg">Schaden melden</DialogTitle>
+            <p id="schaden-dialog-description" className="text-sm text-gray-600">
+              Erfassen Sie einen neuen Schadensfall
+            </p>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="schaden-problem" className="text-sm font-medium">
+                Problembeschreibung <span className="text-red-500">*</span>
+              </Label>
+              <Textarea 
+                id="schaden-problem"
+                value={newSchadenForm.problem_beschreibung}
+                onChange={(e) => setNewSchadenForm(prev => ({ ...prev, problem_beschreibung: e.target.value }))}
+                placeholder="z.B. Festsitzender Deckel bei Schieber Nr. 1"
+                rows={3}
+                className="mt-1 text-base resize-none"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm font-medium">Absperrschieber</Label>
+                <Select 
+                  value={newSchadenForm.absperrschieber_id} 
+                  onValueChange={(value) => setNewSchadenForm(prev => ({ ...prev, absperrschieber_id: value }))}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Optional" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {absperrschieber.map((schieber) => (
+                      <SelectItem key={schieber.id} value={schieber.id.toString()}>
+                        Nr. {schieber.nummer} – {schieber.bezeichnung}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Priorität</Label>
+                <Select 
+                  value={newSchadenForm.prioritaet} 
+                  onValueChange={(value) => setNewSchadenForm(prev => ({ ...prev, prioritaet: value }))}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[1, 2, 3, 4, 5].map((stufe) => (
+                      <SelectItem key={stufe} value={stufe.toString()}>Priorität {stufe}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-2 pt-2">
+              <Button 
+                variant="outline" 
+                onClick={() => setIsCreateSchadenDialogOpen(false)}
+                className="order-2 sm:order-1"
+              >
+                Abbrechen
+              </Button>
+              <Button 
+                onClick={handleCreateSchaden}
+                className="order-1 sm:order-2"
+              >
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                Schaden melden
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog für Schieber-Prüfung */}
+      <Dialog open={!!pruefungSchieber} onOpenChange={(open) => !open && setPruefungSchieber(null)}>
+        <DialogContent className="max-w-md mx-4 max-h-[90vh] overflow-y-auto" aria-describedby="pruefung-dialog-description">
+          <DialogHeader>
+            <DialogTitle className="text-lg">
+              Prüfung Schieber Nr. {pruefungSchieber?.nummer}
+            </DialogTitle>
+            <p id="pruefung-dialog-description" className="text-sm text-gray-600">
+              {pruefungSchieber?.bezeichnung}
+            </p>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="funktionsstatus" className="text-sm font-medium">
+                Funktionsstatus <span className="text-red-500">*</span>
+              </Label>
+              <Select 
+                value={pruefungForm.funktionsstatus} 
+                onValueChange={(value) => setPruefungForm(prev => ({ ...prev, funktionsstatus: value }))}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Status auswählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="funktionsfähig">Funktionsfähig</SelectItem>
+                  <SelectItem value="wartung_erforderlich">Wartung erforderlich</SelectItem>
+                  <SelectItem value="defekt">Defekt</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="pruefung-bemerkung" className="text-sm font-medium">
+                Bemerkung
+              </Label>
+              <Textarea 
+                id="pruefung-bemerkung"
+                value={pruefungForm.bemerkung}
+                onChange={(e) => setPruefungForm(prev => ({ ...prev, bemerkung: e.target.value }))}
+                placeholder="z.B. Spindel schwergängig, Deckel festsitzend..."
+                rows={3}
+                className="mt-1 text-base resize-none"
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-2 pt-2">
+              <Button 
+                variant="outline" 
+                onClick={() => setPruefungSchieber(null)}
+                className="order-2 sm:order-1"
+              >
+                Abbrechen
+              </Button>
+              <Button 
+                onClick={handleCreatePruefung}
+                className="order-1 sm:order-2"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Prüfung speichern
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog für neuen Absperrschieber */}
+      <Dialog open={isCreateSchieberDialogOpen} onOpenChange={setIsCreateSchieberDialogOpen}>
+        <DialogContent className="max-w-md mx-4 max-h-[90vh] overflow-y-auto" aria-describedby="schieber-dialog-description">
+          <DialogHeader>
+            <DialogTitle className="text-lg">Neuen Absperrschieber anlegen</DialogTitle>
+            <p id="schieber-dialog-description" className="text-sm text-gray-600">
+              Erfassen Sie einen Schieber für das Prüfregister
+            </p>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="schieber-nummer" className="text-sm font-medium">
+                  Nummer <span className="text-red-500">*</span>
+                </Label>
+                <Input 
+                  id="schieber-nummer"
+                  type="number"
+                  value={newSchieberForm.nummer}
+                  onChange={(e) => setNewSchieberForm(prev => ({ ...prev, nummer: e.target.value }))}
+                  className="mt-1 text-base"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="schieber-dn" className="text-sm font-medium">
+                  Nennweite (DN)
+                </Label>
+                <Input 
+                  id="schieber-dn"
+                  type="number"
+                  value={newSchieberForm.nennweiteDn}
+                  onChange={(e) => setNewSchieberForm(prev => ({ ...prev, nennweiteDn: e.target.value }))}
+                  placeholder="z.B. 300"
+                  className="mt-1 text-base"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="schieber-bezeichnung" className="text-sm font-medium">
+                Bezeichnung <span className="text-red-500">*</span>
+              </Label>
+              <Input 
+                id="schieber-bezeichnung"
+                value={newSchieberForm.bezeichnung}
+                onChange={(e) => setNewSchieberForm(prev => ({ ...prev, bezeichnung: e.target.value }))}
+                placeholder="z.B. Absperrschieber DN 300"
+                className="mt-1 text-base"
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="schieber-lage" className="text-sm font-medium">
+                Lage
+              </Label>
+              <Input 
+                id="schieber-lage"
+                value={newSchieberForm.lage}
+                onChange={(e) => setNewSchieberForm(prev => ({ ...prev, lage: e.target.value }))}
+                placeholder="z.B. Lohr km 1,470, Nähe Kupfermühle"
+                className="mt-1 text-base"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="schieber-beschreibung" className="text-sm font-medium">
+                Beschreibung
+              </Label>
+              <Textarea 
+                id="schieber-beschreibung"
+                value={newSchieberForm.beschreibung}
+                onChange={(e) => setNewSchieberForm(prev => ({ ...prev, beschreibung: e.target.value }))}
+                rows={2}
+                className="mt-1 text-base resize-none"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="schieber-intervall" className="text-sm font-medium">
+                Prüfintervall (Tage)
+              </Label>
+              <Input 
+                id="schieber-intervall"
+                type="number"
+                value={newSchieberForm.pruefintervallTage}
+                onChange={(e) => setNewSchieberForm(prev => ({ ...prev, pruefintervallTage: e.target.value }))}
+                className="mt-1 text-base"
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-end gap-2 pt-2">
+              <Button 
+                variant="outline" 
+                onClick={() => setIsCreateSchieberDialogOpen(false)}
+                className="order-2 sm:order-1"
+              >
+                Abbrechen
+              </Button>
+              <Button 
+                onClick={handleCreateSchieber}
+                className="order-1 sm:order-2"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Schieber anlegen
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
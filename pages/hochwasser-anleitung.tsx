@@ -1,216 +1,212 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Search, MapPin, Wrench, Clock, User, FileText, AlertTriangle } from "lucide-react";
-
-// Wartungsdaten aus der bereitgestellten JSON
-const wartungsDaten = {
-  "title": "Wartungs- und Unterhaltungsanweisung für den Hochwasserschutz Lohr",
-  "version": "3.1",
-  "bauteile": [
-    {
-      "nummer": 1,
-      "bauteil": "Lohr km 1.470 Nahe Kupfermühle",
-      "bauteilbeschreibung": "Absperrschieber DN 300",
-      "unterlagen": "Lageplan, Bauwerksplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": [
-          "Sichtkontrolle Schieberbauwerk, Schwimmbaken und Rechen am Einlauf; bei Bedarf Räumung",
-          "Überprüfung der Gangbarkeit des Schiebers und Überprüfung der Dichtheit der Schräche",
-          "Wartung der Einbauteile gemäß Herstellervorgaben",
-          "Entleeren der Haltorungen des Schieberbügelbügels gemäß Herstellervorgaben"
-        ],
-        "turnus": "Vierteljährlich und nach Hochwasser, Jährlich im Oktober, Vierteljährlich und nach Hochwasser",
-        "zuständigkeit": "auf Bauwerksverzeichnis Stadt Lohr"
-      }
-    },
-    {
-      "nummer": 2,
-      "bauteil": "Lohr km 1.320",
-      "bauteilbeschreibung": "Absperrschieb bei ehern. Feuerwehr",
-      "unterlagen": "Lageplan, Bauwerksplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": [
-          "Sichtkontrolle, ggf. Wartung und Überprüfung der Gangbarkeit der Schieber und bei Bedarf Räumung",
-          "Überprüfung der Gangbarkeit des Schiebers",
-          "Wartung der Einbauteile gemäß Herstellervorgaben"
-        ],
-        "turnus": "Jährlich im Oktober, Vierteljährlich und nach Hochwasser",
-        "zuständigkeit": "auf Vereinbarung von Bezirk und Stadt Lohr von 2009 Stadt Lohr"
-      }
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, Search, MapPin, Wrench, Clock, User, FileText, AlertTriangle, CheckCircle, Mail, Upload, Waves } from "lucide-react";
+import wartungsanweisungLohr from "@shared/wartungsanweisungen/hochwasserschutz-lohr.json";
+
+const STATUS_BADGE: Record<string, { label: string; className: string }> = {
+  ueberfaellig: { label: "Überfällig", className: "bg-red-100 text-red-800" },
+  faellig: { label: "Fällig", className: "bg-orange-100 text-orange-800" },
+  geplant: { label: "Geplant", className: "bg-gray-100 text-gray-800" },
+  erledigt: { label: "Erledigt", className: "bg-green-100 text-green-800" }
+};
+
+const formatDatum = (value: string) => new Date(value).toLocaleDateString('de-DE');
+
+export default function HochwasserAnleitung() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedBauteil, setSelectedBauteil] = useState<number | null>(null);
+  const [selectedAnweisungId, setSelectedAnweisungId] = useState<number | null>(null);
+  const [erledigenAufgabe, setErledigenAufgabe] = useState<any | null>(null);
+  const [bemerkung, setBemerkung] = useState("");
+  const [empfaenger, setEmpfaenger] = useState<string | null>(null);
+
+  const { data: anweisungen = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/flood/wartung/anweisungen"],
+  });
+
+  const anweisungId = selectedAnweisungId ?? anweisungen[0]?.id;
+
+  const { data: wartungsDaten } = useQuery<any>({
+    queryKey: [`/api/flood/wartung/anweisungen/${anweisungId}`],
+    enabled: !!anweisungId,
+  });
+
+  const { data: aufgaben = [] } = useQuery<any[]>({
+    queryKey: [`/api/flood/wartung/aufgaben?anweisungId=${anweisungId}`],
+    enabled: !!anweisungId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/flood/wartung/anweisungen"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/flood/wartung/anweisungen/${anweisungId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/flood/wartung/aufgaben?anweisungId=${anweisungId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (daten: unknown) => {
+      const response = await apiRequest("POST", "/api/flood/wartung/anweisungen/import", { daten });
+      return response.json();
     },
-    {
-      "nummer": 3,
-      "bauteil": "Mutterbach Parkplatz Augenthal (Grundstück Weisrock)",
-      "bauteilbeschreibung": "Absperrschieber DN 1800",
-      "unterlagen": "Lageplan, Bauwerksplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": [
-          "Sichtkontrolle Absperrbauwerk und bei Bedarf Räumung",
-          "Überprüfung der Gangbarkeit des Schiebers",
-          "Wartung der Einbauteile gemäß Herstellervorgaben"
-        ],
-        "turnus": "Vierteljährlich und nach Hochwasser",
-        "zuständigkeit": "auf Vereinbarung von Bezirk und Stadt Lohr von 2009 Stadt Lohr"
-      }
+    onSuccess: (ergebnis) => {
+      setSelectedAnweisungId(ergebnis.anweisung.id);
+      invalidate();
+      toast({
+        title: "Wartungsanweisung importiert",
+        description: `${ergebnis.bauteile} Bauteile, ${ergebnis.plaene_neu} neue Maßnahmen, ${ergebnis.aufgaben_neu} Termine angelegt.`,
+      });
     },
-    {
-      "nummer": 4,
-      "bauteil": "Mutterbach Parkplatz Augentlink am Wertstoffhof",
-      "bauteilbeschreibung": "Absperrschieber DN 300",
-      "unterlagen": "Lageplan, Bauwerksplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": [
-          "Überprüfung der Gangbarkeit des Schiebers",
-          "Wartung gemäß Herstellervorgaben"
-        ],
-        "turnus": "Vierteljährlich",
-        "zuständigkeit": "auf Vereinbarung von Bezirk und Stadt Lohr von 2009 Stadt Lohr"
-      }
+    onError,
+  });
+
+  const erledigenMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/flood/wartung/aufgaben/${erledigenAufgabe.id}/erledigen`, {
+        bemerkung: bemerkung || null
+      });
+      return response.json();
     },
-    {
-      "nummer": 5,
-      "bauteil": "Am Mühlbach Parkplatz Augentlink (Grundstück Brückner)",
-      "bauteilbeschreibung": "Einlauf Verrohrung mit Siebrechenvorrichtung",
-      "unterlagen": "Lageplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": "Sichtkontrolle, bei Bedarf Räumung",
-        "turnus": "Jährlich",
-        "zuständigkeit": "laut ev. Auer der Betriebsanleitung an die Stadt Lohr übertragen"
-      }
+    onSuccess: (ergebnis) => {
+      invalidate();
+      setErledigenAufgabe(null);
+      setBemerkung("");
+      toast({
+        title: "Wartung dokumentiert",
+        description: ergebnis.folgeaufgabe
+          ? `Nächster Termin: ${formatDatum(ergebnis.folgeaufgabe.faellig_am)}`
+          : "Die Aufgabe wurde abgeschlossen.",
+      });
     },
-    {
-      "nummer": 6,
-      "bauteil": "Straßendamm B26",
-      "bauteilbeschreibung": "Absperrschieber DN 1000",
-      "unterlagen": "Lageplan, Bauwerksplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": [
-          "Sichtkontrolle Schieberbauwerk und Rechen am Einlauf; bei Bedarf Räumung",
-          "Überprüfung der Gangbarkeit des Schiebers und Überprüfung der Dichtheit der Schräche",
-          "Wartung der Einbauteile gemäß Herstellervorgaben",
-          "Entleeren der Haltorungen des Schieberbügels und des Schiebengangtrages"
-        ],
-        "turnus": "Vierteljährlich und nach Hochwasser, Jährlich im Oktober, Vierteljährlich und nach Hochwasser",
-        "zuständigkeit": "auf Vereinbarung von Bezirk und Stadt Lohr von 2009 Stadt Lohr"
-      }
+    onError,
+  });
+
+  const nachHochwasserMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/flood/wartung/nach-hochwasser", { anweisungId });
+      return response.json();
     },
-    {
-      "nummer": 7,
-      "bauteil": "Straßendamm B26",
-      "bauteilbeschreibung": "Absperrschieber DN 500",
-      "unterlagen": "Lageplan, Bauwerksplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": [
-          "Sichtkontrolle Schieberbauwerk und Rechen am Einlauf; bei Bedarf Räumung",
-          "Überprüfung der Gangbarkeit des Schiebers und Überprüfung der Dichtheit der Schräche",
-          "Wartung der Einbauteile gemäß Herstellervorgaben",
-          "Entleeren der Haltorungen des Schieberbügels und des Schiebengangtrages"
-        ],
-        "turnus": "Vierteljährlich und nach Hochwasser, Jährlich im Oktober",
-        "zuständigkeit": "auf Vereinbarung von Bezirk und Stadt Lohr von 2009 Stadt Lohr"
-      }
+    onSuccess: (ergebnis) => {
+      invalidate();
+      toast({
+        title: "Kontrollen eingeplant",
+        description: `${ergebnis.angelegt} Kontrollen nach Hochwasser angelegt.`,
+      });
     },
-    {
-      "nummer": 8,
-      "bauteil": "Linker Lohrdeilch Lohr km 0.750 (landsetitig bei Autohaus Brass)",
-      "bauteilbeschreibung": "Absperrschieber DN 600",
-      "unterlagen": "Lageplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": [
-          "Sichtkontrolle Bauwerk und Rechen; bei Bedarf Räumung",
-          "Überprüfung der Gangbarkeit des Schiebers",
-          "Wartung der Einbauteile gemäß Herstellervorgaben"
-        ],
-        "turnus": "Vierteljährlich und nach Hochwasser",
-        "zuständigkeit": "auf Vereinbarung zw. Bezirk und Stadt Lohr 1990: Unterhaltung Stadt Lohr"
-      }
+    onError,
+  });
+
+  const erinnerungMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/flood/wartung/erinnerungen", {});
+      return response.json();
     },
-    {
-      "nummer": 9,
-      "bauteil": "Linker Lohrdeilch Lohr km 0.750 (landsetitig bei Autohaus Brass)",
-      "bauteilbeschreibung": "Pumpensumpf: Einsatz mobiler Pumpen",
-      "unterlagen": "Lageplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": "Sichtkontrolle, bei Bedarf Räumung",
-        "turnus": "Jährlich",
-        "zuständigkeit": "auf Vereinbarung zw. Bezirk und Stadt Lohr 1990: Unterhaltung Stadt Lohr"
-      }
+    onSuccess: (ergebnis) => {
+      invalidate();
+      toast({
+        title: "Erinnerungen versendet",
+        description: `${ergebnis.gesendet} E-Mails zu ${ergebnis.aufgaben} Aufgaben, ${ergebnis.ohneEmpfaenger} Aufgaben ohne Empfänger.`,
+      });
     },
-    {
-      "nummer": 10,
-      "bauteil": "Rechter Lohrdeilch Lohr km 0.70 Gewerbgebiete Würzburg Mutterbach in Lohr",
-      "bauteilbeschreibung": "elektrisch und manuell betriebener Absperrschieber 1500/1250",
-      "unterlagen": "Lageplan, Bauwerksplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": "In Absprache mit Firma Rexroth durchführen (Betrieb durch Firma Rexroth)",
-        "turnus": "",
-        "zuständigkeit": "auf Vereinbarung zw. Bezirk und Stadt Lohr 1990: Unterhaltung Stadt Lohr"
-      }
+    onError,
+  });
+
+  const empfaengerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/flood/wartung/anweisungen/${anweisungId}`, {
+        erinnerungEmpfaenger: (empfaenger || "").split(/[,;\s]+/).filter(Boolean)
+      });
+      return response.json();
     },
-    {
-      "nummer": 11,
-      "bauteil": "Deiche entlang der Lohr (linkes Flusshufer) Lohr km 0.750 bis 1.610. Deich entlang der B26 Lohr km 0.000. HWS-Mauer entlang der Lohr km Bereich der Kupfermühle. Deichdämme Parkplätze Park Parkplatz Widerich",
-      "bauteilbeschreibung": "Deichbauwerk HWS-Mauer",
-      "unterlagen": "Lageplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": [
-          "Deiche allgemein: Deichböschungen wasserseitig und landseitig kontrollieren; Schäden markieren und sofort den Betriebsbeauftragten informieren.",
-          "Deiche abrufen",
-          "Deiche nähen: Möhgut sofort beseitigen",
-          "Sichtkontrolle HWS-Mauer"
-        ],
-        "turnus": "Jährlich, 2 x jährlich (Frühjahr, Herbst), Jährlich",
-        "zuständigkeit": "nach der Rexroth-Vereinbarung 1990: Bezirk (WG Stadt Lohr Unterhaltung ihrer nicht)"
-      }
+    onSuccess: () => {
+      invalidate();
+      setEmpfaenger(null);
     },
-    {
-      "nummer": 12,
-      "bauteil": "Deichdämme mit Parkplatz Widerich",
-      "bauteilbeschreibung": "Deichbauwerk",
-      "unterlagen": "Lageplan, Arbeitsanweisung",
-      "wartung": {
-        "massnahme": [
-          "Deiche allgemein: Deichböschungen wasserseitig und landseitig kontrollieren; Schäden markieren und sofort den Betriebsbeauftragten informieren.",
-          "Deiche abrufen",
-          "Deiche nähen: Möhgut sofort beseitigen"
-        ],
-        "turnus": "Jährlich, 2 x jährlich (Frühjahr, Herbst)",
-        "zuständigkeit": "auf Planfeststellung Anlage 7a vom 30.10.2008 und Vereinbarung von Bezirk und Stadt Lohr vom 2010 Stadt Lohr"
-      }
+    onError,
+  });
+
+  const handleImportDatei = async (datei: File) => {
+    try {
+      importMutation.mutate(JSON.parse(await datei.text()));
+    } catch {
+      onError(new Error("Die Datei enthält kein gültiges JSON"));
     }
-  ],
-  "sonstige_bauwerke": {
-    "ohne_wartung": [
-      {
-        "beschreibung": "Zwischen Jakobstal und B26",
-        "gewässer": "Gewässer",
-        "lageplan": "Lageplan, Brückenkennzeichneh",
-        "massnahme": "Die Stadt Lohr veranlasst und trägt die Kosten für die Entladegarantienahmen des Altflughafens. Eine Erstohung muss erfolgen, bevor eine Genehmigt im Bereich der Brücke wie im Plan Nr. 4.13 'Brückenkennzeichneh' dargestellt, nicht mehr eingehalten ist.",
-        "turnus": "1 x jährlich und nach Hochwasser",
-        "zuständigkeit": "auf Vereinbarung zw. Bezirk und Stadt Lohr 1990"
-      }
-    ]
-  },
-  "footer": {
-    "title": "Hochwasserschutz Lohr",
-    "subtitle": "Wartungs- und Unterhaltungsanweisung",
-    "anlage": "Anlage 3.1",
-    "aufgestellt": "Wasserwirtschaftsamt Aschaffenburg"
+  };
+
+  const importButton = (
+    <Button variant="outline" asChild disabled={importMutation.isPending}>
+      <label className="cursor-pointer">
+        <Upload className="w-4 h-4 mr-2" />
+        JSON importieren
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const datei = e.target.files?.[0];
+            if (datei) handleImportDatei(datei);
+            e.target.value = "";
+          }}
+        />
+      </label>
+    </Button>
+  );
+
+  if (!isLoading && anweisungen.length === 0) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-3xl mx-auto px-4 py-12">
+          <Button variant="ghost" size="sm" onClick={() => setLocation("/flood-protection")} className="mb-6">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Zurück
+          </Button>
+          <Card>
+            <CardHeader>
+              <CardTitle>Noch keine Wartungsanweisung hinterlegt</CardTitle>
+              <CardDescription>
+                Importieren Sie die Wartungs- und Unterhaltungsanweisung einer Schutzanlage, um daraus die Wartungstermine zu erzeugen.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              <Button onClick={() => importMutation.mutate(wartungsanweisungLohr)} disabled={importMutation.isPending}>
+                <Wrench className="w-4 h-4 mr-2" />
+                {wartungsanweisungLohr.footer.title} übernehmen
+              </Button>
+              {importButton}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
   }
-};
 
-export default function HochwasserAnleitung() {
-  const [, setLocation] = useLocation();
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedBauteil, setSelectedBauteil] = useState<number | null>(null);
+  if (!wartungsDaten) {
+    return <div className="min-h-screen bg-gray-50 flex items-center justify-center text-gray-500">Lade Wartungsanweisung...</div>;
+  }
+
+  const anzahl = (status: string) => aufgaben.filter((aufgabe) => aufgabe.status === status).length;
 
   // Bauteile filtern basierend auf Suchbegriff
-  const filteredBauteile = wartungsDaten.bauteile.filter(bauteil =>
+  const filteredBauteile: any[] = wartungsDaten.bauteile.filter((bauteil: any) =>
     bauteil.bauteil.toLowerCase().includes(searchTerm.toLowerCase()) ||
     bauteil.bauteilbeschreibung.toLowerCase().includes(searchTerm.toLowerCase()) ||
     bauteil.nummer.toString().includes(searchTerm)
@@ -262,20 +258,108 @@ export default function HochwasserAnleitung() {
                 </p>
               </div>
             </div>
-            <Badge variant="secondary" className="hidden sm:flex">
-              {wartungsDaten.footer.anlage}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {anweisungen.length > 1 && (
+                <Select value={String(anweisungId)} onValueChange={(value) => setSelectedAnweisungId(parseInt(value))}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {anweisungen.map((anweisung) => (
+                      <SelectItem key={anweisung.id} value={String(anweisung.id)}>
+                        {anweisung.schutzanlage}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Badge variant="secondary" className="hidden sm:flex">
+                {wartungsDaten.footer.anlage}
+              </Badge>
+            </div>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Tabs defaultValue="bauteile" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+        <Tabs defaultValue="termine" className="space-y-6">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="termine">Wartungstermine</TabsTrigger>
             <TabsTrigger value="bauteile">Wartungspflichtige Bauteile</TabsTrigger>
             <TabsTrigger value="sonstige">Sonstige Bauwerke</TabsTrigger>
           </TabsList>
 
+          <TabsContent value="termine" className="space-y-6">
+            <div className="grid grid-cols-3 gap-4">
+              {["ueberfaellig", "faellig", "geplant"].map((status) => (
+                <Card key={status}>
+                  <CardContent className="p-4 text-center">
+                    <p className="text-2xl font-semibold">{anzahl(status)}</p>
+                    <Badge className={STATUS_BADGE[status].className}>{STATUS_BADGE[status].label}</Badge>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button variant="outline" onClick={() => nachHochwasserMutation.mutate()} disabled={nachHochwasserMutation.isPending}>
+                <Waves className="w-4 h-4 mr-2" />
+                Kontrolle nach Hochwasser
+              </Button>
+              <Button variant="outline" onClick={() => erinnerungMutation.mutate()} disabled={erinnerungMutation.isPending}>
+                <Mail className="w-4 h-4 mr-2" />
+                Erinnerungen senden
+              </Button>
+              {importButton}
+            </div>
+
+            <div className="bg-white p-4 rounded-lg border border-gray-200 flex flex-col sm:flex-row gap-2 sm:items-center">
+              <span className="text-sm text-gray-600 whitespace-nowrap">Erinnerungen an:</span>
+              <Input
+                value={empfaenger ?? wartungsDaten.erinnerung_empfaenger.join(", ")}
+                onChange={(e) => setEmpfaenger(e.target.value)}
+                placeholder="bauhof@example.de, betriebsbeauftragter@example.de"
+              />
+              <Button size="sm" onClick={() => empfaengerMutation.mutate()} disabled={empfaenger === null || empfaengerMutation.isPending}>
+                Speichern
+              </Button>
+            </div>
+
+            {aufgaben.length === 0 ? (
+              <Card>
+                <CardContent className="p-6 text-center text-gray-500">
+                  Keine offenen Wartungstermine.
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {aufgaben.map((aufgabe) => (
+                  <Card key={aufgabe.id}>
+                    <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <Badge className={STATUS_BADGE[aufgabe.status].className}>{STATUS_BADGE[aufgabe.status].label}</Badge>
+                          {aufgabe.anlass === "hochwasser" && <Badge variant="outline">Nach Hochwasser</Badge>}
+                          <span className="text-sm font-medium">
+                            Bauteil {aufgabe.bauteil_nummer} – {aufgabe.bauteilbeschreibung}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-700">{aufgabe.massnahme}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Fällig bis {formatDatum(aufgabe.faellig_am)}{aufgabe.turnus && ` • ${aufgabe.turnus}`}
+                        </p>
+                      </div>
+                      <Button size="sm" onClick={() => setErledigenAufgabe(aufgabe)}>
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Erledigt
+                      </Button>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
           <TabsContent value="bauteile" className="space-y-6">
             {/* Suchbereich */}
             <div className="bg-white p-6 rounded-lg border border-gray-200">
@@ -330,7 +414,7 @@ export default function HochwasserAnleitung() {
                         </div>
                         <div className="flex flex-wrap gap-1">
                           {Array.isArray(bauteil.wartung.turnus) ? 
-                            bauteil.wartung.turnus.map((turnus, idx) => (
+                            bauteil.wartung.turnus.map((turnus: string, idx: number) => (
                               <Badge 
                                 key={idx} 
                                 variant="outline" 
@@ -339,7 +423,7 @@ export default function HochwasserAnleitung() {
                                 {turnus.split(',')[0]}
                               </Badge>
                             )) :
-                            bauteil.wartung.turnus.split(',').map((turnus, idx) => (
+                            bauteil.wartung.turnus.split(',').map((turnus: string, idx: number) => (
                               <Badge 
                                 key={idx} 
                                 variant="outline" 
@@ -360,7 +444,7 @@ export default function HochwasserAnleitung() {
               <div className="lg:col-span-7">
                 {selectedBauteil ? (
                   (() => {
-                    const bauteil = wartungsDaten.bauteile.find(b => b.nummer === selectedBauteil);
+                    const bauteil = wartungsDaten.bauteile.find((b: any) => b.nummer === selectedBauteil);
                     if (!bauteil) return null;
                     
                     return (
@@ -400,25 +484,29 @@ export default function HochwasserAnleitung() {
                               Wartungsmaßnahmen
                             </h4>
                             <div className="space-y-2">
-                              {Array.isArray(bauteil.wartung.massnahme) ? 
-                                bauteil.wartung.massnahme.map((massnahme, idx) => (
-                                  <div 
-                                    key={idx}
-                                    className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg"
-                                  >
-                                    <div className="w-6 h-6 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
-                                      <span className="text-xs font-medium text-blue-600">{idx + 1}</span>
-                                    </div>
-                                    <p className="text-sm text-gray-700">{massnahme}</p>
-                                  </div>
-                                )) :
-                                <div className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
+                              {bauteil.plaene.map((plan: any, idx: number) => (
+                                <div 
+                                  key={plan.id}
+                                  className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg"
+                                >
                                   <div className="w-6 h-6 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
-                                    <span className="text-xs font-medium text-blue-600">1</span>
+                                    <span className="text-xs font-medium text-blue-600">{idx + 1}</span>
+                                  </div>
+                                  <div className="flex-1">
+                                    <p className="text-sm text-gray-700">{plan.massnahme}</p>
+                                    <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                                      {plan.turnus && <span>{plan.turnus}</span>}
+                                      {plan.naechste_aufgabe ? (
+                                        <Badge className={STATUS_BADGE[plan.naechste_aufgabe.status].className}>
+                                          {STATUS_BADGE[plan.naechste_aufgabe.status].label} bis {formatDatum(plan.naechste_aufgabe.faellig_am)}
+                                        </Badge>
+                                      ) : (
+                                        <span>Kein fester Termin</span>
+                                      )}
+                                    </div>
                                   </div>
-                                  <p className="text-sm text-gray-700">{bauteil.wartung.massnahme}</p>
                                 </div>
-                              }
+                              ))}
                             </div>
                           </div>
 
@@ -430,7 +518,7 @@ export default function HochwasserAnleitung() {
                             </h4>
                             <div className="flex flex-wrap gap-2">
                               {Array.isArray(bauteil.wartung.turnus) ? 
-                                bauteil.wartung.turnus.map((turnus, idx) => (
+                                bauteil.wartung.turnus.map((turnus: string, idx: number) => (
                                   <Badge 
                                     key={idx} 
                                     className={getTurnusColor(turnus)}
@@ -438,7 +526,7 @@ export default function HochwasserAnleitung() {
                                     {turnus}
                                   </Badge>
                                 )) :
-                                bauteil.wartung.turnus.split(',').map((turnus, idx) => (
+                                bauteil.wartung.turnus.split(',').map((turnus: string, idx: number) => (
                                   <Badge 
                                     key={idx} 
                                     className={getTurnusColor(turnus.trim())}
@@ -492,7 +580,7 @@ export default function HochwasserAnleitung() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {wartungsDaten.sonstige_bauwerke.ohne_wartung.map((bauwerk, idx) => (
+                  {wartungsDaten.sonstige_bauwerke.ohne_wartung.map((bauwerk: any, idx: number) => (
                     <div key={idx} className="p-4 bg-gray-50 rounded-lg">
                       <h4 className="font-medium text-gray-900 mb-2">{bauwerk.beschreibung}</h4>
                       {bauwerk.massnahme && (
@@ -512,6 +600,35 @@ export default function HochwasserAnleitung() {
           </TabsContent>
         </Tabs>
       </div>
+
+      {/* Dialog zum Dokumentieren einer durchgeführten Wartung */}
+      <Dialog open={!!erledigenAufgabe} onOpenChange={(open) => !open && setErledigenAufgabe(null)}>
+        <DialogContent className="max-w-md mx-4" aria-describedby="erledigen-dialog-description">
+          <DialogHeader>
+            <DialogTitle className="text-lg">Wartung dokumentieren</DialogTitle>
+            <p id="erledigen-dialog-description" className="text-sm text-gray-600">
+              {erledigenAufgabe && `Bauteil ${erledigenAufgabe.bauteil_nummer}: ${erledigenAufgabe.massnahme}`}
+            </p>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Textarea
+              value={bemerkung}
+              onChange={(e) => setBemerkung(e.target.value)}
+              placeholder="Bemerkung, z.B. Rechen geräumt, Schieber gangbar"
+              rows={3}
+              className="text-base resize-none"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setErledigenAufgabe(null)}>
+                Abbrechen
+              </Button>
+              <Button onClick={() => erledigenMutation.mutate()} disabled={erledigenMutation.isPending}>
+                Als erledigt speichern
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,477 @@
+import { useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { Textarea } from "../components/ui/textarea";
+import { Checkbox } from "../components/ui/checkbox";
+import { Progress } from "../components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../components/ui/dialog";
+import { PageHeader } from "../components/layout/page-header";
+import { MobileNav } from "../components/layout/mobile-nav";
+import { SignaturePad } from "../components/signature-pad";
+import { getInspectionTypeLabel } from "../components/project/project-inspections";
+import { useToast } from "../hooks/use-toast";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import {
+  ArrowLeft,
+  AlertTriangle,
+  Camera,
+  CheckCircle,
+  Download,
+  Lock,
+  PenLine,
+  Save,
+} from "lucide-react";
+import type { InspectionItem, InspectionSignature, InspectionWithDetails, Photo } from "../shared/schema";
+
+type InspectionDetail = InspectionWithDetails & {
+  items: InspectionItem[];
+  signatures: InspectionSignature[];
+  problems: string[];
+};
+
+const RESULTS = [
+  { value: "pass", label: "i. O.", activeClass: "bg-green-600 hover:bg-green-700 text-white" },
+  { value: "fail", label: "n. i. O.", activeClass: "bg-red-600 hover:bg-red-700 text-white" },
+  { value: "na", label: "entfällt", activeClass: "bg-gray-600 hover:bg-gray-700 text-white" },
+];
+
+const SIGNATURE_ROLES = [
+  { value: "inspector", label: "Prüfer" },
+  { value: "contractor", label: "Auftragnehmer" },
+  { value: "client", label: "Bauherr" },
+];
+
+export default function InspectionDetail() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [photoItem, setPhotoItem] = useState<InspectionItem | null>(null);
+  const [photoSelection, setPhotoSelection] = useState<number[]>([]);
+  const [signatureRole, setSignatureRole] = useState<string | null>(null);
+  const [signatureName, setSignatureName] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+
+  const projectId = params.id;
+  const inspectionId = params.inspectionId;
+  const inspectionKey = [`/api/inspections/${inspectionId}`];
+
+  const { data: inspection, isLoading } = useQuery<InspectionDetail>({
+    queryKey: inspectionKey,
+    enabled: !!inspectionId,
+  });
+
+  const { data: project } = useQuery<{ projectPermissions?: string[] }>({
+    queryKey: [`/api/projects/${projectId}`],
+    enabled: !!projectId,
+  });
+
+  const { data: photos = [] } = useQuery<Photo[]>({
+    queryKey: [`/api/projects/${projectId}/photos`],
+    enabled: photoItem !== null,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Fehler",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: inspectionKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/inspections`] });
+  };
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ itemId, data }: { itemId: number; data: Record<string, unknown> }) => {
+      const response = await apiRequest("PATCH", `/api/inspections/${inspectionId}/items/${itemId}`, data);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/inspections/${inspectionId}/signatures`, {
+        role: signatureRole,
+        name: signatureName.trim(),
+        image: signatureImage,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setSignatureRole(null);
+      toast({ title: "Unterschrift gespeichert" });
+    },
+    onError,
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/inspections/${inspectionId}/complete`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Prüfung abgeschlossen",
+        description: "Die Prüfung ist jetzt gesperrt und kann als PDF-Protokoll exportiert werden.",
+      });
+    },
+    onError,
+  });
+
+  // Gäste sehen die Prüfung nur lesend
+  const isLocked = inspection?.status === "completed" || !project?.projectPermissions?.includes("edit");
+
+  const handleSaveComment = (item: InspectionItem) => {
+    const comment = comments[item.id];
+    if (comment === undefined || comment === (item.comment ?? "")) return;
+    updateItemMutation.mutate(
+      { itemId: item.id, data: { comment: comment.trim() || null } },
+      {
+        onSuccess: () =>
+          setComments((prev) => {
+            const { [item.id]: _saved, ...rest } = prev;
+            return rest;
+          }),
+      },
+    );
+  };
+
+  const openPhotoDialog = (item: InspectionItem) => {
+    setPhotoItem(item);
+    setPhotoSelection(item.photoIds || []);
+  };
+
+  const handleSavePhotos = () => {
+    if (!photoItem) return;
+    updateItemMutation.mutate(
+      { itemId: photoItem.id, data: { photoIds: photoSelection } },
+      { onSuccess: () => setPhotoItem(null) },
+    );
+  };
+
+  const openSignatureDialog = (role: string) => {
+    setSignatureRole(role);
+    setSignatureName(inspection?.signatures.find((signature) => signature.role === role)?.name || "");
+    setSignatureImage(null);
+  };
+
+  const handleDownloadPdf = async () => {
+    try {
+      const response = await fetch(`/api/inspections/${inspectionId}/pdf`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error("PDF konnte nicht erstellt werden");
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `Pruefprotokoll_${inspectionId}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  if (!inspection) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4">
+        <p className="text-gray-600">Prüfung nicht gefunden.</p>
+        <Button variant="outline" onClick={() => setLocation(`/projects/${projectId}`)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Zurück zum Projekt
+        </Button>
+      </div>
+    );
+  }
+
+  const sections = Array.from(new Set(inspection.items.map((item) => item.section)));
+  const signatureRoles = SIGNATURE_ROLES.filter(
+    (role) =>
+      inspection.requiredSignatures.includes(role.value) ||
+      inspection.signatures.some((signature) => signature.role === role.value) ||
+      !isLocked,
+  );
+  const progress = inspection.itemsTotal > 0 ? Math.round((inspection.itemsAnswered / inspection.itemsTotal) * 100) : 0;
+
+  const renderItem = (item: InspectionItem) => {
+    const photoCount = (item.photoIds || []).length;
+    const photoRequired = item.photoRequirement === "always" || (item.photoRequirement === "on_fail" && item.result === "fail");
+    const comment = comments[item.id] ?? item.comment ?? "";
+
+    return (
+      <div key={item.id} className="rounded-lg border border-gray-200 p-3 space-y-3">
+        <p className="text-sm font-medium text-gray-900">
+          {item.position}. {item.question}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {RESULTS.map((result) => (
+            <Button
+              key={result.value}
+              size="sm"
+              variant={item.result === result.value ? "default" : "outline"}
+              className={item.result === result.value ? result.activeClass : ""}
+              disabled={isLocked || updateItemMutation.isPending}
+              onClick={() =>
+                updateItemMutation.mutate({
+                  itemId: item.id,
+                  data: { result: item.result === result.value ? null : result.value },
+                })
+              }
+            >
+              {result.label}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isLocked && photoCount === 0}
+            onClick={() => openPhotoDialog(item)}
+            className={photoRequired && photoCount === 0 ? "border-orange-400 text-orange-700" : ""}
+          >
+            <Camera className="h-3 w-3 mr-1" />
+            Foto{photoRequired ? " *" : ""}
+            {photoCount > 0 && ` (${photoCount})`}
+          </Button>
+        </div>
+        <Textarea
+          value={comment}
+          onChange={(e) => setComments((prev) => ({ ...prev, [item.id]: e.target.value }))}
+          onBlur={() => handleSaveComment(item)}
+          placeholder={item.result === "fail" ? "Festgestellter Mangel, Maßnahme..." : "Bemerkung"}
+          rows={2}
+          className="text-sm"
+          disabled={isLocked}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <PageHeader>
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => setLocation(`/projects/${projectId}`)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold text-gray-900 truncate">{inspection.title}</h1>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 mt-1">
+              <Badge className="bg-blue-600 text-white">{getInspectionTypeLabel(inspection.type)}</Badge>
+              <span>{new Date(inspection.inspectedAt).toLocaleDateString("de-DE")}</span>
+              {inspection.location && <span>{inspection.location}</span>}
+              {inspection.status === "completed" && (
+                <Badge className="bg-green-600 text-white">
+                  <Lock className="h-3 w-3 mr-1" />
+                  Abgeschlossen
+                </Badge>
+              )}
+            </div>
+          </div>
+        </div>
+      </PageHeader>
+
+      <div className="p-4 pb-20 space-y-6">
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-600">Beantwortet</span>
+              <span className="font-medium">
+                {inspection.itemsAnswered}/{inspection.itemsTotal} Prüfpunkte
+                {inspection.itemsFailed > 0 && <span className="text-red-600"> · {inspection.itemsFailed} n. i. O.</span>}
+              </span>
+            </div>
+            <Progress value={progress} className="h-3" />
+            <div className="text-xs text-gray-500">
+              Prüfer: {inspection.inspectorName || "—"} · Vorlage:{" "}
+              {inspection.templateVersion ? `Version ${inspection.templateVersion}` : "Standardvorlage"}
+            </div>
+          </CardContent>
+        </Card>
+
+        {sections.map((section) => (
+          <Card key={section}>
+            <CardHeader>
+              <CardTitle className="text-lg">{section}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {inspection.items.filter((item) => item.section === section).map(renderItem)}
+            </CardContent>
+          </Card>
+        ))}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Unterschriften</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {signatureRoles.map((role) => {
+              const signature = inspection.signatures.find((entry) => entry.role === role.value);
+              const required = inspection.requiredSignatures.includes(role.value);
+              return (
+                <div key={role.value} className="rounded-lg border border-gray-200 p-3 space-y-2">
+                  <p className="text-sm font-medium text-gray-900">
+                    {role.label}
+                    {required ? " *" : ""}
+                  </p>
+                  {signature ? (
+                    <>
+                      <img src={signature.image} alt={`Unterschrift ${role.label}`} className="h-16 w-full object-contain bg-white" />
+                      <p className="text-xs text-gray-600">
+                        {signature.name} · {new Date(signature.signedAt).toLocaleString("de-DE")}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-xs text-gray-500">Noch nicht unterschrieben</p>
+                  )}
+                  {!isLocked && (
+                    <Button size="sm" variant="outline" onClick={() => openSignatureDialog(role.value)}>
+                      <PenLine className="h-3 w-3 mr-1" />
+                      {signature ? "Neu unterschreiben" : "Unterschreiben"}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        {!isLocked && inspection.problems.length > 0 && (
+          <Card className="border-orange-200 bg-orange-50">
+            <CardContent className="p-4">
+              <p className="flex items-center gap-2 text-sm font-medium text-orange-800 mb-2">
+                <AlertTriangle className="h-4 w-4" />
+                Vor dem Abschluss noch offen
+              </p>
+              <ul className="list-disc pl-5 text-sm text-orange-800 space-y-1">
+                {inspection.problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={handleDownloadPdf}>
+            <Download className="h-4 w-4 mr-2" />
+            PDF-Protokoll
+          </Button>
+          {!isLocked && (
+            <Button
+              onClick={() => completeMutation.mutate()}
+              disabled={inspection.problems.length > 0 || completeMutation.isPending}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Prüfung abschließen
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={photoItem !== null} onOpenChange={(open) => !open && setPhotoItem(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Fotos zum Prüfpunkt</DialogTitle>
+            {photoItem && (
+              <p className="text-sm text-gray-600">{photoItem.position}. {photoItem.question}</p>
+            )}
+          </DialogHeader>
+          {photos.length === 0 ? (
+            <p className="text-sm text-gray-500">Keine Fotos im Projekt vorhanden. Fotos können über die Kamera aufgenommen werden.</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto space-y-2 border rounded p-2">
+              {photos.map((photo) => (
+                <div key={photo.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`pruefpunkt-foto-${photo.id}`}
+                    checked={photoSelection.includes(photo.id)}
+                    disabled={isLocked}
+                    onCheckedChange={() =>
+                      setPhotoSelection((prev) =>
+                        prev.includes(photo.id) ? prev.filter((id) => id !== photo.id) : [...prev, photo.id],
+                      )
+                    }
+                  />
+                  <img
+                    src={`/api/photos/${photo.id}/thumbnail`}
+                    alt=""
+                    className="h-10 w-10 rounded object-cover bg-gray-100"
+                  />
+                  <label htmlFor={`pruefpunkt-foto-${photo.id}`} className="text-sm">
+                    {photo.description || photo.fileName}
+                  </label>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setPhotoItem(null)}>
+              {isLocked ? "Schließen" : "Abbrechen"}
+            </Button>
+            {!isLocked && (
+              <Button onClick={handleSavePhotos} disabled={updateItemMutation.isPending}>
+                <Save className="h-4 w-4 mr-2" />
+                Speichern
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={signatureRole !== null} onOpenChange={(open) => !open && setSignatureRole(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              Unterschrift {SIGNATURE_ROLES.find((role) => role.value === signatureRole)?.label}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Name</Label>
+              <Input value={signatureName} onChange={(e) => setSignatureName(e.target.value)} placeholder="Vor- und Nachname" />
+            </div>
+            <SignaturePad onChange={setSignatureImage} />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSignatureRole(null)}>
+                Abbrechen
+              </Button>
+              <Button
+                onClick={() => signMutation.mutate()}
+                disabled={!signatureName.trim() || !signatureImage || signMutation.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Unterschrift speichern
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <MobileNav />
+    </div>
+  );
+}
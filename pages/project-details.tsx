@@ -6,6 +6,14 @@ import { Badge } from "../components/ui/badge";
 import { Progress } from "../components/ui/progress";
 import { PageHeader } from "../components/layout/page-header";
 import { MobileNav } from "../components/layout/mobile-nav";
+import { ProjectInspections } from "../components/project/project-inspections";
+import { ProjectTeam } from "../components/project/project-team";
+import { ProjectTimeline } from "../components/project/project-timeline";
+import { ProjectDiary } from "../components/project/project-diary";
+import { ProjectBudget } from "../components/project/project-budget";
+import { ProjectDefects } from "../components/project/project-defects";
+import { ProjectAcceptance } from "../components/project/project-acceptance";
+import { ProjectCompanies } from "../components/project/project-companies";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -33,13 +41,19 @@ import {
 import { Link } from "wouter";
 import type { Project } from "../../shared/schema";
 
+// Der Server liefert die Rolle und Rechte des angemeldeten Benutzers im Projekt mit
+type ProjectWithAccess = Project & {
+  projectRole?: string;
+  projectPermissions?: string[];
+};
+
 export default function ProjectDetails() {
   const { id } = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
-  const { data: project, isLoading } = useQuery<Project>({
+  const { data: project, isLoading } = useQuery<ProjectWithAccess>({
     queryKey: [`/api/projects/${id}`],
     enabled: !!id,
   });
@@ -153,6 +167,9 @@ export default function ProjectDetails() {
     );
   }
 
+  const canEdit = project.projectPermissions?.includes("edit") ?? false;
+  const canManage = project.projectPermissions?.includes("manage") ?? false;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "active": return "bg-green-500";
@@ -198,10 +215,12 @@ export default function ProjectDetails() {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-48">
-                <DropdownMenuItem onClick={() => setLocation(`/projects/${id}/edit`)}>
-                  <Edit className="h-4 w-4 mr-2" />
-                  Projekt bearbeiten
-                </DropdownMenuItem>
+                {canManage && (
+                  <DropdownMenuItem onClick={() => setLocation(`/projects/${id}/edit`)}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Projekt bearbeiten
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={handleShare}>
                   <Share className="h-4 w-4 mr-2" />
                   Projekt teilen
@@ -287,6 +306,30 @@ export default function ProjectDetails() {
           </Card>
         )}
 
+        {/* Schedule */}
+        <ProjectTimeline projectId={project.id} canEdit={canEdit} canManage={canManage} />
+
+        {/* Budget */}
+        <ProjectBudget projectId={project.id} canManage={canManage} />
+
+        {/* Defects */}
+        <ProjectDefects projectId={project.id} canEdit={canEdit} canManage={canManage} />
+
+        {/* Construction diary */}
+        <ProjectDiary projectId={project.id} canEdit={canEdit} />
+
+        {/* Inspections */}
+        <ProjectInspections projectId={project.id} canEdit={canEdit} />
+
+        {/* Acceptance */}
+        <ProjectAcceptance projectId={project.id} canManage={canManage} />
+
+        {/* Team */}
+        <ProjectTeam projectId={project.id} canManage={canManage} />
+
+        {/* Subcontractors */}
+        <ProjectCompanies projectId={project.id} canManage={canManage} />
+
         {/* Quick Actions */}
         <div className="grid grid-cols-3 gap-3 mb-6">
           <Link href="/camera">
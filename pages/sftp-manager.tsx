@@ -23,7 +23,10 @@ import {
   RefreshCw,
   HardDrive,
   Calendar,
-  Eye
+  Eye,
+  Pencil,
+  CloudUpload,
+  AlertTriangle
 } from "lucide-react";
 import { useLocation, Link } from "wouter";
 import { useEffect } from "react";
@@ -41,6 +44,33 @@ interface SftpListResponse {
   files: SftpFile[];
 }
 
+interface SftpSyncCounts {
+  pending: number;
+  synced: number;
+  failed: number;
+}
+
+interface SftpSyncStatus {
+  totals: SftpSyncCounts;
+  byKind: Record<'attachment' | 'photo' | 'audio', SftpSyncCounts>;
+  issues: {
+    kind: 'attachment' | 'photo' | 'audio';
+    id: number;
+    fileName: string;
+    projectName: string | null;
+    status: string;
+    attempts: number;
+    error: string | null;
+    nextAttemptAt: string | null;
+  }[];
+}
+
+const SYNC_KIND_LABELS: Record<string, string> = {
+  attachment: 'Dokumente',
+  photo: 'Fotos',
+  audio: 'Audio',
+};
+
 export default function SftpManager() {
   const [, setLocation] = useLocation();
   const { user, isAuthenticated, isLoading } = useAuth();
@@ -80,15 +110,53 @@ export default function SftpManager() {
 
   // Fetch SFTP files
   const { data: sftpData, isLoading: isLoadingFiles, refetch } = useQuery<SftpListResponse>({
-    queryKey: ['/api/sftp/files', currentPath],
+    queryKey: [`/api/sftp/files?path=${encodeURIComponent(currentPath)}`],
     enabled: !!user && (user as any).role !== 'user',
     retry: false,
   });
 
-  // Upload file mutation
+  // Status der automatischen Spiegelung von Projektdateien
+  const { data: syncStatus } = useQuery<SftpSyncStatus>({
+    queryKey: ['/api/sftp/sync/status'],
+    enabled: !!user && (user as any).role !== 'user',
+    refetchInterval: 60000,
+  });
+
+  const retrySyncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/sftp/sync/retry');
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Synchronisierung gestartet",
+        description: `${data.synchronisiert} Datei(en) übertragen, ${data.erneutVersuchen + data.fehlgeschlagen} mit Fehlern.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/sftp/sync/status'] });
+    },
+    onError: () => {
+      toast({
+        title: "Synchronisierung fehlgeschlagen",
+        description: "Die Spiegelung konnte nicht gestartet werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Upload file mutation - der Dateiinhalt wird unverändert als Request-Body gestreamt
   const uploadMutation = useMutation({
-    mutationFn: async (data: { fileName: string; path: string; fileSize: number }) => {
-      return await apiRequest('/api/sftp/upload', 'POST', data);
+    mutationFn: async (file: File) => {
+      const params = new URLSearchParams({ path: currentPath, fileName: file.name });
+      const res = await fetch(`/api/sftp/upload?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
+        credentials: 'same-origin',
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json();
     },
     onSuccess: () => {
       toast({
@@ -122,7 +190,7 @@ export default function SftpManager() {
   // Delete file mutation
   const deleteMutation = useMutation({
     mutationFn: async (fileName: string) => {
-      return await apiRequest(`/api/sftp/files/${fileName}?path=${encodeURIComponent(currentPath)}`, 'DELETE');
+      return await apiRequest('DELETE', `/api/sftp/files/${encodeURIComponent(fileName)}?path=${encodeURIComponent(currentPath)}`);
     },
     onSuccess: () => {
       toast({
@@ -154,7 +222,7 @@ export default function SftpManager() {
   // Create folder mutation
   const createFolderMutation = useMutation({
     mutationFn: async (data: { folderName: string; path: string }) => {
-      return await apiRequest('/api/sftp/create-folder', 'POST', data);
+      return await apiRequest('POST', '/api/sftp/create-folder', data);
     },
     onSuccess: () => {
       toast({
@@ -185,6 +253,38 @@ export default function SftpManager() {
     },
   });
 
+  // Rename mutation
+  const renameMutation = useMutation({
+    mutationFn: async (data: { oldName: string; newName: string }) => {
+      return await apiRequest('POST', '/api/sftp/rename', { ...data, path: currentPath });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Umbenannt",
+        description: "Eintrag wurde erfolgreich umbenannt.",
+      });
+      refetch();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Nicht autorisiert",
+          description: "Sie sind abgemeldet. Melden Sie sich erneut an...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Umbenennen fehlgeschlagen",
+        description: "Eintrag konnte nicht umbenannt werden.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -225,11 +325,19 @@ export default function SftpManager() {
   const handleUpload = () => {
     if (!selectedFile) return;
     
-    uploadMutation.mutate({
-      fileName: selectedFile.name,
-      path: currentPath,
-      fileSize: selectedFile.size
-    });
+    uploadMutation.mutate(selectedFile);
+  };
+
+  const handleRename = (oldName: string) => {
+    const newName = prompt(`Neuer Name für "${oldName}":`, oldName)?.trim();
+    if (!newName || newName === oldName) return;
+
+    renameMutation.mutate({ oldName, newName });
+  };
+
+  const getDownloadUrl = (fileName: string) => {
+    const filePath = currentPath === '/' ? `/${fileName}` : `${currentPath}/${fileName}`;
+    return `/api/sftp/download?path=${encodeURIComponent(filePath)}`;
   };
 
   const handleCreateFolder = () => {
@@ -491,35 +599,37 @@ export default function SftpManager() {
                         </div>
                       </div>
                       
-                      {file.type === 'file' && (
-                        <div className="flex items-center space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              toast({
-                                title: "Download",
-                                description: `Download von ${file.name} wird gestartet...`,
-                              });
-                            }}
-                          >
-                            <Download className="h-4 w-4" />
+                      <div className="flex items-center space-x-2">
+                        {file.type === 'file' && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={getDownloadUrl(file.name)} download={file.name}>
+                              <Download className="h-4 w-4" />
+                            </a>
                           </Button>
-                          
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              if (confirm(`Sind Sie sicher, dass Sie "${file.name}" löschen möchten?`)) {
-                                deleteMutation.mutate(file.name);
-                              }
-                            }}
-                            disabled={deleteMutation.isPending}
-                          >
-                            <Trash2 className="h-4 w-4 text-red-600" />
-                          </Button>
-                        </div>
-                      )}
+                        )}
+
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRename(file.name)}
+                          disabled={renameMutation.isPending}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm(`Sind Sie sicher, dass Sie "${file.name}" löschen möchten?`)) {
+                              deleteMutation.mutate(file.name);
+                            }
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
                     </div>
                   ))}
                   
@@ -535,6 +645,74 @@ export default function SftpManager() {
           </CardContent>
         </Card>
 
+        {/* Automatische Spiegelung */}
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center gap-4">
+              <CardTitle className="flex items-center space-x-2">
+                <CloudUpload className="h-5 w-5 text-green-600" />
+                <span>Automatische Spiegelung</span>
+              </CardTitle>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => retrySyncMutation.mutate()}
+                disabled={retrySyncMutation.isPending}
+              >
+                <RefreshCw className={`h-4 w-4 mr-1 ${retrySyncMutation.isPending ? 'animate-spin' : ''}`} />
+                Jetzt synchronisieren
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600 mb-4">
+              Neue Dokumente, Fotos und Audioaufnahmen werden automatisch unter
+              <span className="font-mono"> /projekte/&lt;Projekt&gt;/</span> auf den SFTP-Server des Projektmanagers kopiert.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {(['attachment', 'photo', 'audio'] as const).map((kind) => {
+                const counts = syncStatus?.byKind[kind] || { pending: 0, synced: 0, failed: 0 };
+                return (
+                  <div key={kind} className="p-3 border rounded-lg">
+                    <p className="font-medium text-gray-900 mb-2">{SYNC_KIND_LABELS[kind]}</p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge className="bg-green-600 text-white">{counts.synced} gesichert</Badge>
+                      <Badge className="bg-orange-500 text-white">{counts.pending} ausstehend</Badge>
+                      {counts.failed > 0 && (
+                        <Badge className="bg-red-600 text-white">{counts.failed} fehlgeschlagen</Badge>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {syncStatus && syncStatus.issues.length > 0 && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm font-medium text-gray-700 flex items-center">
+                  <AlertTriangle className="h-4 w-4 mr-1 text-orange-500" />
+                  Probleme bei der Übertragung
+                </p>
+                {syncStatus.issues.map((issue) => (
+                  <div key={`${issue.kind}-${issue.id}`} className="p-2 border rounded text-sm">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium truncate">{issue.fileName}</span>
+                      <Badge variant="outline">
+                        {issue.status === 'failed' ? 'Fehlgeschlagen' : `Versuch ${issue.attempts}`}
+                      </Badge>
+                    </div>
+                    <p className="text-gray-500">
+                      {SYNC_KIND_LABELS[issue.kind]}{issue.projectName && ` • ${issue.projectName}`}
+                      {issue.nextAttemptAt && ` • nächster Versuch ${formatDate(new Date(issue.nextAttemptAt))}`}
+                    </p>
+                    {issue.error && <p className="text-red-600 text-xs mt-1">{issue.error}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Quick Actions */}
         <Card>
           <CardHeader>
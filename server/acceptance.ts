@@ -0,0 +1,109 @@
+import type { AcceptanceProtocol, AcceptanceSnapshot, DefectWithDetails, InspectionItem, InspectionWithDetails } from "@shared/schema";
+import { formatDefectLocation } from "./defects";
+import { summarizeInspection } from "./inspections";
+import { hashContent } from "./fileStorage";
+
+export const ACCEPTANCE_RESULTS = ["accepted", "accepted_with_reservations", "refused"] as const;
+
+export const ACCEPTANCE_RESULT_LABELS: Record<string, string> = {
+  accepted: "Abnahme ohne Vorbehalt",
+  accepted_with_reservations: "Abnahme unter Vorbehalt der Mängelbeseitigung",
+  refused: "Abnahme verweigert",
+};
+
+export const ACCEPTANCE_SIGNATURE_ROLES = ["customer", "contractor"] as const;
+
+export type AcceptanceSignatureRole = (typeof ACCEPTANCE_SIGNATURE_ROLES)[number];
+
+export const ACCEPTANCE_SIGNATURE_LABELS: Record<AcceptanceSignatureRole, string> = {
+  customer: "Auftraggeber",
+  contractor: "Auftragnehmer",
+};
+
+export class AcceptanceError extends Error {}
+
+/**
+ * Friert die Mängel, die noch nicht abgenommen sind, und die Ergebnisse der Prüfungen zum Zeitpunkt der Abnahme ein
+ */
+export function buildAcceptanceSnapshot(
+  defects: DefectWithDetails[],
+  inspections: Array<{ inspection: InspectionWithDetails; items: Pick<InspectionItem, "question" | "result" | "comment">[] }>,
+  now: Date = new Date(),
+): AcceptanceSnapshot {
+  return {
+    defects: defects
+      .filter((defect) => defect.status !== "accepted")
+      .map((defect) => ({
+        number: defect.number,
+        title: defect.title,
+        description: defect.description,
+        status: defect.status,
+        companyName: defect.companyName,
+        deadline: defect.deadline,
+        location: formatDefectLocation(defect),
+      })),
+    inspections: inspections.map(({ inspection, items }) => {
+      const { pass, fail, na, open } = summarizeInspection(items);
+      return {
+        id: inspection.id,
+        title: inspection.title,
+        type: inspection.type,
+        status: inspection.status,
+        inspectedAt: new Date(inspection.inspectedAt).toISOString(),
+        pass,
+        fail,
+        na,
+        open,
+        failedItems: items.filter((item) => item.result === "fail").map((item) => ({ question: item.question, comment: item.comment })),
+      };
+    }),
+    createdAt: now.toISOString(),
+  };
+}
+
+/**
+ * Listet alles, was das Festschreiben des Protokolls noch verhindert
+ */
+export function getAcceptanceSignProblems(
+  protocol: Pick<AcceptanceProtocol, "result" | "snapshot" | "customerSignature" | "customerName" | "contractorSignature" | "contractorName">,
+): string[] {
+  const problems: string[] = [];
+  if (protocol.result === "accepted" && protocol.snapshot.defects.length > 0) {
+    // Bekannte Mängel müssen vorbehalten werden, sonst entfallen die Mängelrechte (§ 640 Abs. 3 BGB)
+    problems.push(`${protocol.snapshot.defects.length} bekannte(r) Mangel/Mängel: Abnahme nur unter Vorbehalt möglich`);
+  }
+  if (!protocol.customerSignature || !protocol.customerName) {
+    problems.push(`Unterschrift fehlt: ${ACCEPTANCE_SIGNATURE_LABELS.customer}`);
+  }
+  if (!protocol.contractorSignature || !protocol.contractorName) {
+    problems.push(`Unterschrift fehlt: ${ACCEPTANCE_SIGNATURE_LABELS.contractor}`);
+  }
+  return problems;
+}
+
+/**
+ * Nur eine unterschriebene, nicht verweigerte Abnahme erlaubt den Projektabschluss
+ */
+export function isProjectAccepted(protocol: Pick<AcceptanceProtocol, "status" | "result"> | undefined): boolean {
+  return !!protocol && protocol.status === "signed" && protocol.result !== "refused";
+}
+
+/**
+ * Prüft ein (gespeichertes oder vorgelegtes) PDF gegen die beim Abschluss hinterlegte Prüfsumme
+ */
+export function verifyAcceptancePdf(pdf: Buffer, pdfHash: string | null): boolean {
+  return !!pdfHash && hashContent(pdf) === pdfHash;
+}
+
+/**
+ * Lädt Mängel und Prüfungen des Projekts für den Entwurf eines Abnahmeprotokolls
+ */
+export async function createAcceptanceSnapshot(projectId: number, now: Date = new Date()): Promise<AcceptanceSnapshot> {
+  const { storage } = await import("./storage");
+  const [defects, inspections] = await Promise.all([storage.getDefects(projectId), storage.getInspections(projectId)]);
+  const withItems = await Promise.all(inspections.map(async (inspection) => ({
+    inspection,
+    items: await storage.getInspectionItems(inspection.id),
+  })));
+  return buildAcceptanceSnapshot(defects, withItems, now);
+}
@@ -0,0 +1,29 @@
+export type CustomerReferences = { projects: number };
+
+export type CompanyReferences = { projects: number; costs: number; defects: number; persons: number };
+
+/**
+ * Gründe, die ein endgültiges Löschen des Kunden verhindern; Ansprechpartner werden mitgelöscht
+ */
+export function getCustomerDeleteBlockers(references: CustomerReferences): string[] {
+  return references.projects > 0 ? [`${references.projects} Projekt(e) sind dem Kunden zugeordnet`] : [];
+}
+
+/**
+ * Zuordnungen, Kosten und Mängel bleiben als Historie erhalten; solche Firmen können nur archiviert werden
+ */
+export function getCompanyDeleteBlockers(references: CompanyReferences): string[] {
+  const blockers: string[] = [];
+  if (references.projects > 0) blockers.push(`${references.projects} Projektzuordnung(en)`);
+  if (references.costs > 0) blockers.push(`${references.costs} Kostenposition(en)`);
+  if (references.defects > 0) blockers.push(`${references.defects} Mangel/Mängel`);
+  if (references.persons > 0) blockers.push(`${references.persons} Person(en)`);
+  return blockers;
+}
+
+/**
+ * Adresslisten zeigen ohne Angabe nur aktive Einträge, mit ?archived=true nur archivierte
+ */
+export function parseArchivedFilter(value: unknown): boolean {
+  return value === "true" || value === "1";
+}
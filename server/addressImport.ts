@@ -0,0 +1,455 @@
+import ExcelJS from "exceljs";
+import { extname } from "path";
+import { Readable } from "stream";
+import type { z } from "zod";
+import {
+  insertCompanyContactSchema,
+  insertCompanySchema,
+  insertCustomerContactSchema,
+  insertCustomerSchema,
+  refinePostalCode,
+  type InsertCompany,
+  type InsertCompanyContact,
+  type InsertCustomer,
+  type InsertCustomerContact,
+} from "@shared/schema";
+
+export class AddressImportError extends Error {}
+
+export const ADDRESS_ENTITIES = ["customers", "companies", "customer-contacts", "company-contacts"] as const;
+export type AddressEntity = (typeof ADDRESS_ENTITIES)[number];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+/** Spaltenindex der Datei je Feld; null = nicht importieren */
+export type ColumnMapping = Record<string, number | null>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: Array<{ row: number; values: string[] }>;
+}
+
+export interface ImportDuplicate {
+  reason: "email" | "name_postal_code" | "name";
+  /** vorhandener Datensatz oder, bei Dubletten innerhalb der Datei, die frühere Zeile */
+  existingId: number | null;
+  row: number | null;
+  name: string;
+}
+
+/** Geprüfter Datensatz je Importziel */
+export interface AddressRecords {
+  customers: InsertCustomer;
+  companies: InsertCompany;
+  "customer-contacts": InsertCustomerContact;
+  "company-contacts": InsertCompanyContact;
+}
+
+export interface ImportPreviewRow<E extends AddressEntity = AddressEntity> {
+  row: number;
+  values: Record<string, string>;
+  errors: string[];
+  duplicate: ImportDuplicate | null;
+  record: AddressRecords[E] | null;
+}
+
+/** Vorhandener Datensatz für die Dublettenprüfung; parentId nur bei Ansprechpartnern */
+export interface DuplicateCandidate {
+  id: number;
+  name: string;
+  email: string | null;
+  postalCode?: string | null;
+  parentId?: number;
+}
+
+const field = (key: string, label: string, aliases: string[], required = false): ImportField => ({ key, label, required, aliases });
+
+const ADDRESS_FIELDS = [
+  field("email", "E-Mail", ["email", "mail", "emailadresse"]),
+  field("phone", "Telefon", ["telefon", "tel", "phone", "telefonnummer", "rufnummer"]),
+  field("street", "Straße", ["strasse", "str", "street"]),
+  field("houseNumber", "Hausnummer", ["hausnummer", "hausnr", "nr", "housenumber"]),
+  field("postalCode", "PLZ", ["plz", "postleitzahl", "postalcode", "zip"]),
+  field("city", "Ort", ["ort", "stadt", "city", "wohnort"]),
+  field("country", "Land", ["land", "staat", "country", "laendercode"]),
+];
+
+// Ländernamen, wie sie in Adresslisten vorkommen, auf ISO-Ländercodes; andere Werte gehen unverändert in die Prüfung
+const COUNTRY_CODES: Record<string, string> = {
+  deutschland: "DE",
+  germany: "DE",
+  d: "DE",
+  österreich: "AT",
+  oesterreich: "AT",
+  austria: "AT",
+  a: "AT",
+  schweiz: "CH",
+  switzerland: "CH",
+  suisse: "CH",
+};
+
+const CONTACT_FIELDS = [
+  field("email", "E-Mail", ["email", "mail", "emailadresse"]),
+  field("phone", "Telefon", ["telefon", "tel", "phone", "telefonnummer", "mobil"]),
+  field("department", "Abteilung", ["abteilung", "department", "bereich"]),
+  field("position", "Position", ["position", "funktion", "rolle", "titel"]),
+];
+
+export const IMPORT_FIELDS: Record<AddressEntity, ImportField[]> = {
+  customers: [field("name", "Name", ["name", "kunde", "kundenname", "auftraggeber", "customer"], true), ...ADDRESS_FIELDS],
+  companies: [
+    field("name", "Name", ["name", "firma", "firmenname", "unternehmen", "company"], true),
+    ...ADDRESS_FIELDS,
+    field("website", "Website", ["website", "webseite", "homepage", "internet", "url"]),
+  ],
+  "customer-contacts": [
+    field("parent", "Kunde", ["kunde", "kundenname", "auftraggeber", "customer"], true),
+    field("name", "Name", ["name", "ansprechpartner", "kontakt", "contact"], true),
+    ...CONTACT_FIELDS,
+  ],
+  "company-contacts": [
+    field("parent", "Firma", ["firma", "firmenname", "unternehmen", "company"], true),
+    field("name", "Name", ["name", "ansprechpartner", "kontakt", "contact"], true),
+    ...CONTACT_FIELDS,
+  ],
+};
+
+export const ENTITY_LABELS: Record<AddressEntity, string> = {
+  customers: "Kunden",
+  companies: "Firmen",
+  "customer-contacts": "Kunden-Ansprechpartner",
+  "company-contacts": "Firmen-Ansprechpartner",
+};
+
+const SCHEMAS: { [E in AddressEntity]: z.ZodType<AddressRecords[E], z.ZodTypeDef, unknown> } = {
+  customers: insertCustomerSchema.superRefine(refinePostalCode),
+  companies: insertCompanySchema.superRefine(refinePostalCode),
+  "customer-contacts": insertCustomerContactSchema,
+  "company-contacts": insertCompanyContactSchema,
+};
+
+export function isAddressEntity(value: unknown): value is AddressEntity {
+  return ADDRESS_ENTITIES.includes(value as AddressEntity);
+}
+
+export function isContactEntity(entity: AddressEntity): boolean {
+  return entity === "customer-contacts" || entity === "company-contacts";
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/ß/g, "ss").replace(/[^a-z0-9äöü]/g, "");
+}
+
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/ß/g, "ss").replace(/[^a-z0-9äöü]+/g, " ").trim();
+}
+
+/**
+ * Ordnet Spalten anhand ihrer Überschrift zu (deutsche und englische Bezeichnungen, auch die eigenen Exportspalten)
+ */
+export function suggestColumnMapping(entity: AddressEntity, headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+  for (const importField of IMPORT_FIELDS[entity]) {
+    const names = [normalizeHeader(importField.label), ...importField.aliases];
+    const index = normalized.findIndex((header, column) => !used.has(column) && names.includes(header));
+    mapping[importField.key] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+  return mapping;
+}
+
+/**
+ * CSV nach RFC 4180 mit Anführungszeichen; Trennzeichen Semikolon (Excel DE), Komma oder Tab anhand der Kopfzeile
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [";", ",", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ";");
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+  if (value !== "" || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function toSheet(table: string[][]): ImportSheet {
+  const [headers = [], ...body] = table;
+  const rows = body
+    .map((values, index) => ({ row: index + 2, values: values.map((value) => value.trim()) }))
+    .filter((entry) => entry.values.some(Boolean));
+  if (headers.every((header) => !header.trim())) {
+    throw new AddressImportError("Die Datei enthält keine Kopfzeile");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new AddressImportError(`Es können höchstens ${MAX_IMPORT_ROWS} Zeilen auf einmal importiert werden`);
+  }
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+/**
+ * Liest die erste Tabelle einer CSV- oder XLSX-Datei; CSV ohne gültiges UTF-8 wird als Windows-1252 gelesen
+ */
+export async function readImportFile(buffer: Buffer, fileName: string): Promise<ImportSheet> {
+  const extension = extname(fileName).toLowerCase();
+  if (extension === ".csv" || extension === ".txt") {
+    const utf8 = buffer.toString("utf8");
+    return toSheet(parseCsv(utf8.includes("\uFFFD") ? new TextDecoder("windows-1252").decode(buffer) : utf8));
+  }
+  if (extension !== ".xlsx") {
+    throw new AddressImportError("Es werden nur CSV- und XLSX-Dateien unterstützt");
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.read(Readable.from([buffer]));
+  } catch {
+    throw new AddressImportError("Die Excel-Datei konnte nicht gelesen werden");
+  }
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new AddressImportError("Die Excel-Datei enthält kein Tabellenblatt");
+  }
+  const table: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    table.push(Array.from({ length: worksheet.columnCount }, (_, column) => row.getCell(column + 1).text ?? ""));
+  }
+  return toSheet(table);
+}
+
+function duplicateKeys(entity: AddressEntity, record: { name: string; email?: string | null; postalCode?: string | null }, parentId?: number) {
+  const scope = isContactEntity(entity) ? `${parentId}|` : "";
+  const keys: Array<{ key: string; reason: ImportDuplicate["reason"] }> = [];
+  if (record.email) keys.push({ key: `${scope}email:${record.email.toLowerCase()}`, reason: "email" });
+  keys.push(isContactEntity(entity)
+    ? { key: `${scope}name:${normalizeName(record.name)}`, reason: "name" }
+    : { key: `name:${normalizeName(record.name)}|${record.postalCode ?? ""}`, reason: "name_postal_code" });
+  return keys;
+}
+
+/**
+ * Prüft jede Zeile gegen das Eingabeschema und sucht Dubletten (E-Mail oder Name + PLZ, bei Ansprechpartnern
+ * E-Mail oder Name innerhalb desselben Kunden bzw. derselben Firma) im Bestand und in früheren Zeilen der Datei
+ */
+export function buildImportPreview<E extends AddressEntity>(
+  entity: E,
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  existing: DuplicateCandidate[],
+  parents: Array<{ id: number; name: string }> = [],
+): ImportPreviewRow<E>[] {
+  const fields = IMPORT_FIELDS[entity];
+  const missing = fields.filter((importField) => importField.required && (mapping[importField.key] ?? null) === null);
+  if (missing.length > 0) {
+    throw new AddressImportError(`Pflichtspalte nicht zugeordnet: ${missing.map((importField) => importField.label).join(", ")}`);
+  }
+
+  const known = new Map<string, ImportDuplicate>();
+  for (const candidate of existing) {
+    for (const { key, reason } of duplicateKeys(entity, candidate, candidate.parentId)) {
+      if (!known.has(key)) known.set(key, { reason, existingId: candidate.id, row: null, name: candidate.name });
+    }
+  }
+  const parentsByName = new Map(parents.map((parent) => [normalizeName(parent.name), parent.id]));
+  const parentKey = entity === "customer-contacts" ? "customerId" : "companyId";
+
+  return sheet.rows.map(({ row, values: cells }) => {
+    const values: Record<string, string> = {};
+    for (const importField of fields) {
+      const column = mapping[importField.key];
+      values[importField.key] = column === null || column === undefined ? "" : cells[column] ?? "";
+    }
+
+    if (values.country) values.country = COUNTRY_CODES[normalizeHeader(values.country)] ?? values.country;
+    // Excel speichert PLZ gern als Zahl und verliert dabei die führende Null (01067 → 1067); vierstellig sind nur
+    // österreichische und Schweizer PLZ, daher nur bei deutschen Adressen (auch ohne Land) ergänzen
+    if ((values.country || "DE").toUpperCase() === "DE" && /^\d{4}$/.test(values.postalCode ?? "")) {
+      values.postalCode = `0${values.postalCode}`;
+    }
+
+    const errors: string[] = [];
+    const { parent, ...data } = values as Record<string, string> & { parent?: string };
+    let parentId: number | undefined;
+    if (isContactEntity(entity)) {
+      parentId = parent ? parentsByName.get(normalizeName(parent)) : undefined;
+      if (!parentId) {
+        errors.push(parent ? `${entity === "customer-contacts" ? "Kunde" : "Firma"} "${parent}" nicht gefunden` : "Zuordnung fehlt");
+      }
+    }
+
+    const schema: z.ZodType<AddressRecords[E], z.ZodTypeDef, unknown> = SCHEMAS[entity];
+    const parsed = schema.safeParse(isContactEntity(entity) ? { ...data, [parentKey]: parentId ?? 0 } : data);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const label = fields.find((importField) => importField.key === issue.path[0])?.label;
+        if (label) errors.push(`${label}: ${issue.message}`);
+      }
+    }
+
+    if (errors.length > 0 || !parsed.success) {
+      return { row, values, errors, duplicate: null, record: null };
+    }
+
+    const record = parsed.data;
+    const keys = duplicateKeys(entity, record, parentId);
+    const duplicate = keys.map(({ key }) => known.get(key)).find(Boolean) ?? null;
+    for (const { key, reason } of keys) {
+      if (!known.has(key)) known.set(key, { reason, existingId: null, row, name: record.name });
+    }
+    return { row, values, errors, duplicate, record };
+  });
+}
+
+export function summarizeImportPreview(rows: ImportPreviewRow[]) {
+  return {
+    total: rows.length,
+    valid: rows.filter((row) => row.record && !row.duplicate).length,
+    invalid: rows.filter((row) => row.errors.length > 0).length,
+    duplicates: rows.filter((row) => row.duplicate).length,
+  };
+}
+
+/**
+ * Exportspalten entsprechen den Importfeldern, damit eine exportierte Datei ohne Zuordnung wieder eingelesen werden kann
+ */
+export function buildAddressExport(
+  entity: AddressEntity,
+  records: Array<Record<string, any>>,
+  parents: Array<{ id: number; name: string }> = [],
+): { headers: string[]; rows: string[][] } {
+  const fields = IMPORT_FIELDS[entity];
+  const parentNames = new Map(parents.map((parent) => [parent.id, parent.name]));
+  const parentKey = entity === "customer-contacts" ? "customerId" : "companyId";
+  return {
+    headers: fields.map((importField) => importField.label),
+    rows: records.map((record) => fields.map((importField) =>
+      importField.key === "parent" ? parentNames.get(record[parentKey]) ?? "" : String(record[importField.key] ?? ""))),
+  };
+}
+
+// Tabellenprogramme werten =, @ und +/- gefolgt von Text als Formel aus; Telefonnummern wie +49 bleiben unverändert
+function escapeCsvValue(value: string): string {
+  const safe = /^[=@\t\r]/.test(value) || /^[+-](?![\d\s()/-]*$)/.test(value) ? `'${value}` : value;
+  return /[;"\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * CSV mit Semikolon und BOM, damit Excel Umlaute und Spalten ohne Importdialog richtig erkennt
+ */
+export function toCsv(headers: string[], rows: string[][]): string {
+  return "\uFEFF" + [headers, ...rows].map((row) => row.map(escapeCsvValue).join(";")).join("\r\n") + "\r\n";
+}
+
+export async function toXlsx(sheetName: string, headers: string[], rows: string[][]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName);
+  worksheet.addRow(headers).font = { bold: true };
+  rows.forEach((row) => worksheet.addRow(row));
+  worksheet.columns.forEach((column, index) => {
+    column.width = Math.min(40, Math.max(headers[index].length, ...rows.map((row) => row[index]?.length ?? 0)) + 2);
+  });
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Bestand für die Dublettenprüfung (inklusive archivierter Einträge) und Zuordnungsziele für Ansprechpartner
+ */
+export async function loadImportContext(entity: AddressEntity) {
+  const { storage } = await import("./storage");
+  if (entity === "customers") {
+    return { existing: await storage.getCustomers(), parents: [] };
+  }
+  if (entity === "companies") {
+    return { existing: await storage.getCompanies(), parents: [] };
+  }
+  if (entity === "customer-contacts") {
+    const [contacts, parents] = await Promise.all([storage.getAllCustomerContacts(), storage.getCustomers(false)]);
+    return { existing: contacts.map((contact) => ({ ...contact, parentId: contact.customerId })), parents };
+  }
+  const [contacts, parents] = await Promise.all([storage.getAllCompanyContacts(), storage.getCompanies(false)]);
+  return { existing: contacts.map((contact) => ({ ...contact, parentId: contact.companyId })), parents };
+}
+
+/**
+ * Legt alle gültigen Zeilen in einem Schritt an; Dubletten nur, wenn sie ausdrücklich mit importiert werden sollen
+ */
+export async function importAddressRows<E extends AddressEntity>(entity: E, rows: ImportPreviewRow<E>[], includeDuplicates: boolean) {
+  const { storage } = await import("./storage");
+  const create: { [T in AddressEntity]: (records: AddressRecords[T][]) => Promise<unknown[]> } = {
+    customers: (records) => storage.createCustomers(records),
+    companies: (records) => storage.createCompanies(records),
+    "customer-contacts": (records) => storage.createCustomerContacts(records),
+    "company-contacts": (records) => storage.createCompanyContacts(records),
+  };
+  const records = rows.flatMap((row) => (row.record && (includeDuplicates || !row.duplicate) ? [row.record] : []));
+  const created = await create[entity](records);
+  const summary = summarizeImportPreview(rows);
+  return {
+    created: created.length,
+    skippedInvalid: summary.invalid,
+    skippedDuplicates: includeDuplicates ? 0 : summary.duplicates,
+  };
+}
+
+/**
+ * Exportiert aktive oder archivierte Einträge; Ansprechpartner nur von Kunden bzw. Firmen der gewählten Liste
+ */
+export async function loadAddressExport(entity: AddressEntity, archived: boolean) {
+  const { storage } = await import("./storage");
+  if (entity === "customers") {
+    return buildAddressExport(entity, await storage.getCustomers(archived));
+  }
+  if (entity === "companies") {
+    return buildAddressExport(entity, await storage.getCompanies(archived));
+  }
+  if (entity === "customer-contacts") {
+    const [contacts, parents] = await Promise.all([storage.getAllCustomerContacts(), storage.getCustomers(archived)]);
+    const parentIds = new Set(parents.map((parent) => parent.id));
+    return buildAddressExport(entity, contacts.filter((contact) => parentIds.has(contact.customerId)), parents);
+  }
+  const [contacts, parents] = await Promise.all([storage.getAllCompanyContacts(), storage.getCompanies(archived)]);
+  const parentIds = new Set(parents.map((parent) => parent.id));
+  return buildAddressExport(entity, contacts.filter((contact) => parentIds.has(contact.companyId)), parents);
+}
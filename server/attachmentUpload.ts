@@ -0,0 +1,320 @@
+import { randomUUID } from "crypto";
+import { createReadStream } from "fs";
+import { mkdir, open, readFile, readdir, rm, stat, writeFile } from "fs/promises";
+import { connect } from "net";
+import { tmpdir } from "os";
+import { extname, join } from "path";
+import { Readable } from "stream";
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// Direkte Multipart-Uploads werden im Speicher gehalten, größere Pläne laufen über Chunk-Uploads
+export const MAX_DIRECT_UPLOAD_BYTES = 50 * MB;
+export const MAX_CHUNKED_UPLOAD_BYTES = 2 * GB;
+export const UPLOAD_CHUNK_BYTES = 5 * MB;
+
+// Unvollständige Chunk-Uploads werden nach einem Tag verworfen
+const UPLOAD_SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Zulässige Dateiendungen mit ihrem kanonischen MIME-Typ und den Typen, die Browser dafür senden
+ */
+const ERLAUBTE_DATEITYPEN: Record<string, { mimeType: string; aliases: string[]; chunked?: boolean }> = {
+  ".pdf": { mimeType: "application/pdf", aliases: [], chunked: true },
+  ".dwg": { mimeType: "image/vnd.dwg", aliases: ["application/acad", "application/x-acad", "application/dwg", "application/x-dwg", "image/x-dwg"], chunked: true },
+  ".dxf": { mimeType: "image/vnd.dxf", aliases: ["application/dxf", "application/x-dxf", "image/x-dxf"] },
+  ".jpg": { mimeType: "image/jpeg", aliases: [] },
+  ".jpeg": { mimeType: "image/jpeg", aliases: [] },
+  ".png": { mimeType: "image/png", aliases: [] },
+  ".gif": { mimeType: "image/gif", aliases: [] },
+  ".webp": { mimeType: "image/webp", aliases: [] },
+  ".heic": { mimeType: "image/heic", aliases: [] },
+  ".doc": { mimeType: "application/msword", aliases: [] },
+  ".docx": { mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document", aliases: [] },
+  ".xls": { mimeType: "application/vnd.ms-excel", aliases: [] },
+  ".xlsx": { mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", aliases: [] },
+  ".ppt": { mimeType: "application/vnd.ms-powerpoint", aliases: [] },
+  ".pptx": { mimeType: "application/vnd.openxmlformats-officedocument.presentationml.presentation", aliases: [] },
+  ".txt": { mimeType: "text/plain", aliases: [] },
+  ".csv": { mimeType: "text/csv", aliases: ["application/vnd.ms-excel", "text/plain"] },
+  ".zip": { mimeType: "application/zip", aliases: ["application/x-zip-compressed"] },
+};
+
+// Dateisignaturen für Typen, bei denen sich ein Abgleich mit dem Inhalt lohnt
+const DATEISIGNATUREN: Record<string, Buffer[]> = {
+  "application/pdf": [Buffer.from("%PDF-")],
+  "image/vnd.dwg": [Buffer.from("AC10")],
+  "image/jpeg": [Buffer.from([0xff, 0xd8, 0xff])],
+  "image/png": [Buffer.from([0x89, 0x50, 0x4e, 0x47])],
+  "application/zip": [Buffer.from("PK")],
+};
+
+export class AttachmentUploadError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+/**
+ * Prüft Dateiendung, MIME-Typ und Größe und liefert den kanonischen MIME-Typ
+ */
+export function validateAttachmentFile(
+  file: { fileName: string; mimeType?: string | null; size: number },
+  options: { chunked?: boolean } = {},
+): string {
+  const typ = ERLAUBTE_DATEITYPEN[extname(file.fileName).toLowerCase()];
+  if (!typ) {
+    throw new AttachmentUploadError(`Dateityp ${extname(file.fileName) || "(ohne Endung)"} ist nicht erlaubt`, 415);
+  }
+
+  // Unbekannte Typen (z.B. DWG) melden Browser als application/octet-stream
+  const mimeType = (file.mimeType || "application/octet-stream").toLowerCase();
+  if (mimeType !== "application/octet-stream" && mimeType !== typ.mimeType && !typ.aliases.includes(mimeType)) {
+    throw new AttachmentUploadError(`MIME-Typ ${mimeType} passt nicht zur Dateiendung`, 415);
+  }
+
+  if (options.chunked && !typ.chunked) {
+    throw new AttachmentUploadError("Chunk-Uploads sind nur für PDF- und DWG-Pläne vorgesehen", 415);
+  }
+
+  const maxBytes = options.chunked ? MAX_CHUNKED_UPLOAD_BYTES : MAX_DIRECT_UPLOAD_BYTES;
+  if (file.size <= 0) {
+    throw new AttachmentUploadError("Die Datei ist leer");
+  }
+  if (file.size > maxBytes) {
+    throw new AttachmentUploadError(`Die Datei überschreitet die maximale Größe von ${Math.round(maxBytes / MB)} MB`, 413);
+  }
+
+  return typ.mimeType;
+}
+
+/**
+ * Vergleicht die ersten Bytes mit der erwarteten Dateisignatur (sofern für den Typ bekannt)
+ */
+export function matchesFileSignature(mimeType: string, head: Buffer): boolean {
+  const signaturen = DATEISIGNATUREN[mimeType];
+  if (!signaturen) return true;
+  return signaturen.some((signatur) => head.subarray(0, signatur.length).equals(signatur));
+}
+
+/**
+ * Speicherlimit der Lizenz in Bytes; null bedeutet unbegrenzt
+ */
+export function getStorageLimitBytes(plan?: { storageLimit: number | null } | null): number | null {
+  return plan?.storageLimit ? plan.storageLimit * GB : null;
+}
+
+export function assertStorageQuota(usedBytes: number, additionalBytes: number, limitBytes: number | null): void {
+  if (limitBytes !== null && usedBytes + additionalBytes > limitBytes) {
+    throw new AttachmentUploadError(
+      `Speicherlimit Ihrer Lizenz überschritten (${(usedBytes / GB).toFixed(2)} von ${(limitBytes / GB).toFixed(0)} GB belegt)`,
+      413,
+    );
+  }
+}
+
+// Virenscan
+
+export type VirusScanResult = { clean: boolean; signature?: string };
+export type VirusScanner = (source: Readable, fileName: string) => Promise<VirusScanResult>;
+
+let virusScanner: VirusScanner | null = null;
+
+/**
+ * Registriert den Scanner, der jede hochgeladene Datei vor dem Speichern prüft
+ */
+export function registerVirusScanner(scanner: VirusScanner | null): void {
+  virusScanner = scanner;
+}
+
+/**
+ * Prüft eine Datei mit dem registrierten Scanner; ohne Scanner gilt jede Datei als sauber
+ */
+export async function scanForViruses(source: Buffer | string, fileName: string): Promise<VirusScanResult> {
+  if (!virusScanner) return { clean: true };
+  const stream = typeof source === "string" ? createReadStream(source) : Readable.from([source]);
+  return await virusScanner(stream, fileName);
+}
+
+/**
+ * Scanner für einen ClamAV-Daemon (clamd) über das INSTREAM-Protokoll
+ */
+export function createClamdScanner(host: string, port: number = 3310): VirusScanner {
+  return (source) => new Promise((resolve, reject) => {
+    const socket = connect(port, host);
+    let antwort = "";
+
+    socket.setTimeout(60000, () => socket.destroy(new Error("ClamAV-Zeitüberschreitung")));
+    socket.on("error", reject);
+    socket.on("data", (data) => {
+      antwort += data.toString();
+    });
+    socket.on("end", () => {
+      const ergebnis = antwort.replace(/\0/g, "").trim();
+      const fund = ergebnis.match(/^stream: (.+) FOUND$/);
+      if (fund) return resolve({ clean: false, signature: fund[1] });
+      if (ergebnis.endsWith("OK")) return resolve({ clean: true });
+      reject(new Error(`Unerwartete ClamAV-Antwort: ${ergebnis}`));
+    });
+
+    socket.write("zINSTREAM\0");
+    source.on("data", (chunk: Buffer) => {
+      const laenge = Buffer.alloc(4);
+      laenge.writeUInt32BE(chunk.length);
+      socket.write(Buffer.concat([laenge, chunk]));
+    });
+    source.on("error", (error) => socket.destroy(error));
+    source.on("end", () => socket.write(Buffer.alloc(4)));
+  });
+}
+
+if (process.env.CLAMAV_HOST) {
+  registerVirusScanner(createClamdScanner(process.env.CLAMAV_HOST, parseInt(process.env.CLAMAV_PORT || "3310")));
+}
+
+// Fortsetzbare Chunk-Uploads: Metadaten und Teildatei liegen im Temp-Verzeichnis und überstehen Neustarts
+
+export interface UploadSession {
+  id: string;
+  userId: string;
+  projectId: number | null;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  receivedBytes: number;
+  createdAt: string;
+}
+
+const UPLOAD_TMP_DIR = process.env.UPLOAD_TMP_DIR || join(tmpdir(), "bau-structura-uploads");
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function sessionPaths(id: string) {
+  if (!UPLOAD_ID_PATTERN.test(id)) {
+    throw new AttachmentUploadError("Upload nicht gefunden", 404);
+  }
+  return { meta: join(UPLOAD_TMP_DIR, `${id}.json`), part: join(UPLOAD_TMP_DIR, `${id}.part`) };
+}
+
+export async function createUploadSession(
+  data: Omit<UploadSession, "id" | "receivedBytes" | "createdAt">,
+): Promise<UploadSession> {
+  await mkdir(UPLOAD_TMP_DIR, { recursive: true });
+  await cleanupUploadSessions();
+
+  const session: UploadSession = { ...data, id: randomUUID(), receivedBytes: 0, createdAt: new Date().toISOString() };
+  const paths = sessionPaths(session.id);
+  await writeFile(paths.part, Buffer.alloc(0));
+  await writeFile(paths.meta, JSON.stringify(session));
+  return session;
+}
+
+/**
+ * Lädt einen Upload; der Fortschritt ergibt sich aus der Größe der Teildatei
+ */
+export async function getUploadSession(id: string, userId: string): Promise<UploadSession> {
+  const paths = sessionPaths(id);
+  let session: UploadSession;
+  try {
+    session = JSON.parse(await readFile(paths.meta, "utf8"));
+  } catch {
+    throw new AttachmentUploadError("Upload nicht gefunden", 404);
+  }
+  if (session.userId !== userId) {
+    throw new AttachmentUploadError("Upload nicht gefunden", 404);
+  }
+  return { ...session, receivedBytes: (await stat(paths.part)).size };
+}
+
+// Chunks desselben Uploads werden nacheinander geschrieben, damit wiederholte oder parallele Anfragen nicht doppelt anhängen
+const uploadLocks = new Map<string, Promise<unknown>>();
+
+function withUploadLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = uploadLocks.get(id) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  uploadLocks.set(id, current);
+  const release = () => {
+    if (uploadLocks.get(id) === current) uploadLocks.delete(id);
+  };
+  current.then(release, release);
+  return current;
+}
+
+/**
+ * Hängt einen Chunk an; der Offset muss dem tatsächlichen Stand der Teildatei entsprechen
+ */
+export function appendUploadChunk(
+  session: UploadSession,
+  offset: number,
+  chunk: Buffer,
+): Promise<UploadSession> {
+  return withUploadLock(session.id, () => writeUploadChunk(session, offset, chunk));
+}
+
+async function writeUploadChunk(session: UploadSession, offset: number, chunk: Buffer): Promise<UploadSession> {
+  const part = sessionPaths(session.id).part;
+  const receivedBytes = (await stat(part)).size;
+  if (offset !== receivedBytes) {
+    throw new AttachmentUploadError(`Offset ${offset} passt nicht zum Upload-Stand ${receivedBytes}`, 409);
+  }
+  if (chunk.length === 0 || chunk.length > UPLOAD_CHUNK_BYTES) {
+    throw new AttachmentUploadError(`Chunks müssen zwischen 1 Byte und ${UPLOAD_CHUNK_BYTES / MB} MB groß sein`);
+  }
+  if (offset + chunk.length > session.fileSize) {
+    throw new AttachmentUploadError("Chunk überschreitet die angekündigte Dateigröße", 413);
+  }
+  if (offset === 0 && !matchesFileSignature(session.mimeType, chunk)) {
+    throw new AttachmentUploadError("Dateiinhalt entspricht nicht dem angegebenen Dateityp", 415);
+  }
+
+  const file = await open(part, "r+");
+  try {
+    await file.write(chunk, 0, chunk.length, offset);
+  } finally {
+    await file.close();
+  }
+  return { ...session, receivedBytes: (await stat(part)).size };
+}
+
+/**
+ * Pfad der vollständig empfangenen Datei
+ */
+export function getUploadFilePath(session: UploadSession): string {
+  if (session.receivedBytes !== session.fileSize) {
+    throw new AttachmentUploadError(`Upload unvollständig (${session.receivedBytes} von ${session.fileSize} Bytes)`, 409);
+  }
+  return sessionPaths(session.id).part;
+}
+
+export async function removeUploadSession(id: string): Promise<void> {
+  const paths = sessionPaths(id);
+  await rm(paths.meta, { force: true });
+  await rm(paths.part, { force: true });
+}
+
+/**
+ * Entfernt verwaiste Uploads, die älter als einen Tag sind
+ */
+export async function cleanupUploadSessions(now: Date = new Date()): Promise<number> {
+  let entfernt = 0;
+  let dateien: string[];
+  try {
+    dateien = await readdir(UPLOAD_TMP_DIR);
+  } catch {
+    return 0;
+  }
+
+  for (const datei of dateien.filter((name) => name.endsWith(".json"))) {
+    const id = datei.slice(0, -".json".length);
+    try {
+      const session: UploadSession = JSON.parse(await readFile(join(UPLOAD_TMP_DIR, datei), "utf8"));
+      if (now.getTime() - new Date(session.createdAt).getTime() > UPLOAD_SESSION_MAX_AGE_MS) {
+        await removeUploadSession(id);
+        entfernt++;
+      }
+    } catch (error) {
+      console.error(`Fehler beim Aufräumen des Uploads ${id}:`, error);
+    }
+  }
+  return entfernt;
+}
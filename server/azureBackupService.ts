@@ -1,5 +1,18 @@
 import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
 
+/**
+ * Erstellt den Blob-Service-Client aus AZURE_STORAGE_CONNECTION_STRING (geteilt von Backups und Dateiablage)
+ */
+export function createAzureBlobServiceClient(): BlobServiceClient {
+  const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
+
+  if (!connectionString) {
+    throw new Error('AZURE_STORAGE_CONNECTION_STRING environment variable is required');
+  }
+
+  return BlobServiceClient.fromConnectionString(connectionString);
+}
+
 export class AzureBackupService {
   private blobServiceClient: BlobServiceClient;
   private containerClient: ContainerClient;
@@ -7,14 +20,8 @@ export class AzureBackupService {
 
   constructor() {
     // Azure Storage-Konfiguration
-    const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
     this.containerName = process.env.AZURE_BACKUP_CONTAINER || 'bau-structura-backups';
-
-    if (!connectionString) {
-      throw new Error('AZURE_STORAGE_CONNECTION_STRING environment variable is required');
-    }
-
-    this.blobServiceClient = BlobServiceClient.fromConnectionString(connectionString);
+    this.blobServiceClient = createAzureBlobServiceClient();
     this.containerClient = this.blobServiceClient.getContainerClient(this.containerName);
   }
 
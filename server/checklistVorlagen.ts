@@ -0,0 +1,127 @@
+import { z } from "zod";
+import type { ChecklistVorlage, InsertChecklistVorlageAufgabe } from "@shared/schema";
+import {
+  CHECKLIST_PFLICHTFELDER,
+  CHECKLIST_TYPEN,
+  CHECKLIST_TYP_TEXT,
+  STANDARD_CHECKLIST_AUFGABEN,
+  isChecklistTyp,
+  type ChecklistAufgabenVorlage,
+  type ChecklistTyp,
+} from "./floodProtection";
+
+const vorlageAufgabeSchema = z.union([
+  z.string().trim().min(1).transform((beschreibung) => ({ beschreibung, pflichtfelder: [] })),
+  z.object({
+    beschreibung: z.string().trim().min(1),
+    pflichtfelder: z.array(z.enum(CHECKLIST_PFLICHTFELDER)).default([]),
+  }),
+]);
+
+/**
+ * JSON-Format einer Checklisten-Vorlage; entspricht dem Export, Aufgaben werden je Abschnitt in Reihenfolge nummeriert
+ */
+export const checklistVorlageImportSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    title: z.string().trim().min(1).optional(),
+    typ: z.enum(CHECKLIST_TYPEN).optional(),
+    beschreibung: z.string().optional(),
+    abschnitte: z.object({
+      beginn: z.array(vorlageAufgabeSchema).default([]),
+      ende: z.array(vorlageAufgabeSchema).default([]),
+    }),
+  })
+  .refine((daten) => daten.abschnitte.beginn.length + daten.abschnitte.ende.length > 0, {
+    message: "Die Vorlage muss mindestens eine Aufgabe enthalten",
+    path: ["abschnitte"],
+  });
+
+export type ChecklistVorlageDaten = z.infer<typeof checklistVorlageImportSchema>;
+
+export class ChecklistVorlageError extends Error {}
+
+/**
+ * Liest eine Vorlage aus JSON-Text oder einem bereits geparsten Objekt
+ */
+export function parseChecklistVorlage(jsonData: unknown): ChecklistVorlageDaten {
+  let daten = jsonData;
+  if (typeof jsonData === "string") {
+    try {
+      daten = JSON.parse(jsonData);
+    } catch {
+      throw new ChecklistVorlageError("Die Vorlage ist kein gültiges JSON");
+    }
+  }
+  return checklistVorlageImportSchema.parse(daten);
+}
+
+/**
+ * Nummeriert die Aufgaben einer Vorlage je Abschnitt fortlaufend ab 1
+ */
+export function getVorlageAufgaben(daten: ChecklistVorlageDaten): Omit<InsertChecklistVorlageAufgabe, "vorlageId">[] {
+  return (["beginn", "ende"] as const).flatMap((abschnitt) =>
+    daten.abschnitte[abschnitt].map((aufgabe, index) => ({
+      abschnitt,
+      nr: index + 1,
+      beschreibung: aufgabe.beschreibung,
+      pflichtfelder: aufgabe.pflichtfelder,
+    })),
+  );
+}
+
+/**
+ * Speichert eine Vorlage als neue, aktive Version ihres Checklisten-Typs
+ */
+export async function speichereChecklistVorlage(
+  daten: ChecklistVorlageDaten,
+  optionen: { typ?: string; erstelltVon?: string } = {},
+): Promise<ChecklistVorlage> {
+  const { storage } = await import("./storage");
+
+  const typ = optionen.typ ?? daten.typ;
+  if (!isChecklistTyp(typ)) {
+    throw new ChecklistVorlageError(`Unbekannter Checklisten-Typ: ${typ ?? "keiner"}`);
+  }
+  if (daten.typ && daten.typ !== typ) {
+    throw new ChecklistVorlageError(`Die Vorlage ist für den Typ "${daten.typ}" bestimmt, nicht für "${typ}"`);
+  }
+
+  return await storage.createChecklistVorlage(
+    {
+      typ,
+      name: daten.name ?? daten.title ?? CHECKLIST_TYP_TEXT[typ],
+      beschreibung: daten.beschreibung || null,
+      erstelltVon: optionen.erstelltVon,
+    },
+    getVorlageAufgaben(daten),
+  );
+}
+
+/**
+ * Ermittelt die Aufgaben für eine neue Checkliste: gewählte Vorlage, sonst aktive Vorlage des Typs, sonst Standardaufgaben
+ */
+export async function ladeChecklistAufgaben(
+  typ: string,
+  vorlageId?: number,
+): Promise<{ vorlage: ChecklistVorlage | null; aufgaben: ChecklistAufgabenVorlage[] }> {
+  const { storage } = await import("./storage");
+
+  const vorlage = vorlageId !== undefined
+    ? await storage.getChecklistVorlage(vorlageId)
+    : await storage.getAktiveChecklistVorlage(typ);
+
+  if (vorlageId !== undefined && (!vorlage || vorlage.typ !== typ)) {
+    throw new ChecklistVorlageError("Vorlage nicht gefunden oder für einen anderen Checklisten-Typ bestimmt");
+  }
+
+  if (vorlage) {
+    const aufgaben = await storage.getChecklistVorlageAufgaben([vorlage.id]);
+    return {
+      vorlage,
+      aufgaben: aufgaben.map(({ abschnitt, nr, beschreibung, pflichtfelder }) => ({ abschnitt, nr, beschreibung, pflichtfelder })),
+    };
+  }
+
+  return { vorlage: null, aufgaben: STANDARD_CHECKLIST_AUFGABEN[typ as ChecklistTyp] ?? STANDARD_CHECKLIST_AUFGABEN.hochwasser };
+}
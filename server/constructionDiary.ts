@@ -0,0 +1,83 @@
+import type { ConstructionDiaryEntry, DiaryStaffEntry } from "@shared/schema";
+
+export const DIARY_WEATHER = ["sunny", "cloudy", "rain", "snow", "frost", "storm"] as const;
+
+export const DIARY_WEATHER_LABELS: Record<string, string> = {
+  sunny: "Sonnig",
+  cloudy: "Bewölkt",
+  rain: "Regen",
+  snow: "Schnee",
+  frost: "Frost",
+  storm: "Sturm",
+};
+
+export class ConstructionDiaryError extends Error {}
+
+const DIARY_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isDiaryDate(value: unknown): value is string {
+  return typeof value === "string" && DIARY_DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00`).getTime());
+}
+
+/**
+ * Kalendertag (YYYY-MM-DD) in lokaler Zeit, wie er als Datum des Tagesberichts gespeichert wird
+ */
+export function toDiaryDate(value: Date): string {
+  const month = String(value.getMonth() + 1).padStart(2, "0");
+  const day = String(value.getDate()).padStart(2, "0");
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Fotos bzw. Sprachaufnahmen, die am Tag des Eintrags entstanden sind (Vorschlag für die Verknüpfung)
+ */
+export function getMediaOfDay<T extends { createdAt: Date | null }>(items: T[], entryDate: string): T[] {
+  return items.filter((item) => item.createdAt && toDiaryDate(new Date(item.createdAt)) === entryDate);
+}
+
+export function summarizeDiaryStaff(staff: DiaryStaffEntry[]) {
+  return {
+    workers: staff.reduce((sum, row) => sum + row.count, 0),
+    hours: staff.reduce((sum, row) => sum + row.count * (row.hours ?? 0), 0),
+  };
+}
+
+/**
+ * Lists everything that still prevents the Bauleiter from signing off an entry
+ */
+export function getDiarySignProblems(
+  entry: Pick<ConstructionDiaryEntry, "entryDate" | "weather" | "workPerformed">,
+  now: Date = new Date(),
+): string[] {
+  const problems: string[] = [];
+
+  if (entry.entryDate > toDiaryDate(now)) {
+    problems.push("Einträge für künftige Tage können nicht abgezeichnet werden");
+  }
+  if (!entry.weather) {
+    problems.push("Wetter fehlt");
+  }
+  if (!entry.workPerformed?.trim()) {
+    problems.push("Ausgeführte Arbeiten fehlen");
+  }
+
+  return problems;
+}
+
+/**
+ * Prüft, dass verknüpfte Fotos und Sprachaufnahmen existieren und zum Projekt des Eintrags gehören
+ */
+export async function assertDiaryMedia(projectId: number, photoIds: number[] = [], audioRecordIds: number[] = []) {
+  const { storage } = await import("./storage");
+
+  const [photos, audioRecords] = await Promise.all([
+    storage.getPhotosByIds(photoIds),
+    storage.getAudioRecordsByIds(audioRecordIds),
+  ]);
+  if (photos.length !== new Set(photoIds).size || photos.some((photo) => photo.projectId !== projectId)) {
+    throw new ConstructionDiaryError("Unknown photos or photos of another project");
+  }
+  if (audioRecords.length !== new Set(audioRecordIds).size || audioRecords.some((record) => record.projectId !== projectId)) {
+    throw new ConstructionDiaryError("Unknown audio records or audio records of another project");
+  }
+}
@@ -0,0 +1,340 @@
+import type { CompanyContact, CustomerContact, Person } from "@shared/schema";
+import { splitName, type VCardContact } from "./vcard";
+
+export class ContactMergeError extends Error {}
+
+export const CONTACT_KINDS = ["person", "customer-contact", "company-contact"] as const;
+export type ContactKind = (typeof CONTACT_KINDS)[number];
+
+/**
+ * Gemeinsame Sicht auf Personen sowie Ansprechpartner von Kunden und Firmen; parentId ist die Firma bzw. der Kunde
+ */
+export interface ContactRecord {
+  kind: ContactKind;
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  parentId: number | null;
+  parentName: string | null;
+}
+
+export type DuplicateReason = "email" | "phone" | "name";
+
+export interface DuplicateGroup {
+  members: ContactRecord[];
+  reasons: DuplicateReason[];
+}
+
+export function isContactKind(value: unknown): value is ContactKind {
+  return CONTACT_KINDS.includes(value as ContactKind);
+}
+
+const NAME_PREFIXES = new Set(["herr", "frau", "hr", "fr", "dr", "prof", "dipl", "ing"]);
+
+/**
+ * Vergleichbare Namensform: Umlaute ausgeschrieben, Anreden und Titel entfernt, Reihenfolge egal ("Müller, Max" = "Max Mueller")
+ */
+export function normalizePersonName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ä/g, "ae").replace(/ö/g, "oe").replace(/ü/g, "ue").replace(/ß/g, "ss")
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z]+/)
+    .filter((token) => token && !NAME_PREFIXES.has(token))
+    .sort()
+    .join(" ");
+}
+
+/**
+ * Rufnummer ohne Formatierung und Ländervorwahl +49/0049/0, damit "+49 9352 123" und "09352/123" gleich sind
+ */
+export function normalizePhone(phone: string | null): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/^\s*\+/, "00").replace(/\D/g, "").replace(/^0049/, "").replace(/^0(?=[1-9])/, "");
+  return digits.length >= 6 ? digits : null;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Ähnlichkeit zweier Namen zwischen 0 und 1 auf Basis der Editierdistanz der normalisierten Form
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizePersonName(a);
+  const right = normalizePersonName(b);
+  if (!left || !right) return 0;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * Gleiche E-Mail reicht; gleiche Telefonnummer nur bei ähnlichem Namen (Zentralen teilen sich Nummern);
+ * sehr ähnliche Namen nur, wenn keine unterschiedlichen E-Mail-Adressen dagegen sprechen
+ */
+export function getDuplicateReasons(a: ContactRecord, b: ContactRecord): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  const similarity = nameSimilarity(a.name, b.name);
+  const emailA = a.email?.trim().toLowerCase();
+  const emailB = b.email?.trim().toLowerCase();
+  const phoneA = normalizePhone(a.phone);
+
+  if (emailA && emailA === emailB) reasons.push("email");
+  if (phoneA && phoneA === normalizePhone(b.phone) && similarity >= 0.6) reasons.push("phone");
+  if (similarity >= 0.85 && (!emailA || !emailB || emailA === emailB)) reasons.push("name");
+  return reasons;
+}
+
+// Kunden-Ansprechpartner hängen am Kunden und lassen sich nicht in eine Person überführen; sie werden daher nur
+// untereinander verglichen, damit jede angezeigte Gruppe auch zusammengeführt werden kann
+function canShareGroup(a: ContactKind, b: ContactKind): boolean {
+  return a === b || (a !== "customer-contact" && b !== "customer-contact");
+}
+
+// Vergleicht nur Kandidaten mit gemeinsamer E-Mail, Rufnummer oder gleichem Anfang eines Namensteils
+function blockingKeys(record: ContactRecord): string[] {
+  const keys = normalizePersonName(record.name).split(" ").filter(Boolean).map((token) => `n:${token.slice(0, 3)}`);
+  if (record.email) keys.push(`e:${record.email.trim().toLowerCase()}`);
+  const phone = normalizePhone(record.phone);
+  if (phone) keys.push(`p:${phone}`);
+  return keys;
+}
+
+/**
+ * Gruppiert mögliche Dubletten unter Personen und Firmen-Ansprechpartnern sowie unter Kunden-Ansprechpartnern;
+ * Gruppen entstehen transitiv über paarweise Treffer
+ */
+export function findDuplicateGroups(records: ContactRecord[]): DuplicateGroup[] {
+  const parent = records.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const reasons = new Map<number, Set<DuplicateReason>>();
+
+  const buckets = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    for (const key of Array.from(new Set(blockingKeys(record)))) {
+      buckets.set(key, [...(buckets.get(key) ?? []), index]);
+    }
+  });
+
+  const compared = new Set<string>();
+  for (const indexes of Array.from(buckets.values())) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const pair = `${indexes[i]}:${indexes[j]}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+        if (!canShareGroup(records[indexes[i]].kind, records[indexes[j]].kind)) continue;
+
+        const found = getDuplicateReasons(records[indexes[i]], records[indexes[j]]);
+        if (found.length === 0) continue;
+        const root = find(indexes[i]);
+        const other = find(indexes[j]);
+        const merged = new Set([...Array.from(reasons.get(root) ?? []), ...Array.from(reasons.get(other) ?? []), ...found]);
+        parent[other] = root;
+        reasons.set(root, merged);
+      }
+    }
+  }
+
+  const groups = new Map<number, ContactRecord[]>();
+  records.forEach((record, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), record]);
+  });
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ members, reasons: Array.from(reasons.get(root) ?? []) }));
+}
+
+/**
+ * Personen nehmen Personen und Firmen-Ansprechpartner derselben Firma auf; Ansprechpartner werden sonst nur
+ * innerhalb ihrer Art und beim selben Kunden bzw. derselben Firma zusammengeführt
+ */
+export function getMergeProblem(survivor: ContactRecord, duplicates: ContactRecord[]): string | null {
+  if (duplicates.length === 0) {
+    return "Keine Dubletten ausgewählt";
+  }
+  if (duplicates.some((duplicate) => duplicate.kind === survivor.kind && duplicate.id === survivor.id)) {
+    return "Ein Datensatz kann nicht mit sich selbst zusammengeführt werden";
+  }
+  if (survivor.kind === "company-contact" && duplicates.some((duplicate) => duplicate.kind === "person")) {
+    return "Firmen-Ansprechpartner werden in die Person übernommen, bitte die Person als verbleibenden Datensatz wählen";
+  }
+  if (duplicates.some((duplicate) => duplicate.kind !== survivor.kind && (survivor.kind !== "person" || duplicate.kind !== "company-contact"))) {
+    return "Kunden-Ansprechpartner können nur mit Ansprechpartnern desselben Kunden zusammengeführt werden";
+  }
+  if (survivor.kind === "person") {
+    const companyIds = new Set([survivor, ...duplicates].map((record) => record.parentId).filter((id) => id !== null));
+    return companyIds.size > 1 ? "Die Personen gehören zu verschiedenen Firmen" : null;
+  }
+  if (duplicates.some((duplicate) => duplicate.parentId !== survivor.parentId)) {
+    return survivor.kind === "customer-contact"
+      ? "Ansprechpartner verschiedener Kunden können nicht zusammengeführt werden"
+      : "Ansprechpartner verschiedener Firmen können nicht zusammengeführt werden";
+  }
+  return null;
+}
+
+/**
+ * Leere Felder des verbleibenden Datensatzes werden aus den Dubletten ergänzt, vorhandene Werte bleiben
+ */
+export function fillMissingFields<T extends Record<string, unknown>>(survivor: T, duplicates: T[], fields: Array<keyof T>): Partial<T> {
+  const updates: Partial<T> = {};
+  for (const field of fields) {
+    if (survivor[field] !== null && survivor[field] !== undefined && survivor[field] !== "") continue;
+    const value = duplicates.map((duplicate) => duplicate[field]).find((candidate) => candidate !== null && candidate !== undefined && candidate !== "");
+    if (value !== undefined) updates[field] = value;
+  }
+  return updates;
+}
+
+export function personToRecord(person: Person, companyName: string | null = null): ContactRecord {
+  return {
+    kind: "person",
+    id: person.id,
+    name: `${person.firstName} ${person.lastName}`.trim(),
+    email: person.email,
+    phone: person.phone,
+    parentId: person.companyId,
+    parentName: companyName,
+  };
+}
+
+export function contactToRecord(
+  kind: "customer-contact" | "company-contact",
+  contact: CustomerContact | CompanyContact,
+  parentName: string | null = null,
+): ContactRecord {
+  return {
+    kind,
+    id: contact.id,
+    name: contact.name,
+    email: contact.email,
+    phone: contact.phone,
+    parentId: "customerId" in contact ? contact.customerId : contact.companyId,
+    parentName,
+  };
+}
+
+/**
+ * Alle Kontakte als einheitliche Liste; Namen von Firmen und Kunden für die Anzeige in der Dublettenliste
+ */
+export async function loadContactRecords(): Promise<ContactRecord[]> {
+  const { storage } = await import("./storage");
+  const [persons, customerContacts, companyContacts, customers, companies] = await Promise.all([
+    storage.getPersons(),
+    storage.getAllCustomerContacts(),
+    storage.getAllCompanyContacts(),
+    storage.getCustomers(),
+    storage.getCompanies(),
+  ]);
+  const customerNames = new Map(customers.map((customer) => [customer.id, customer.name]));
+  const companyNames = new Map(companies.map((company) => [company.id, company.name]));
+  return [
+    ...persons.map((person) => personToRecord(person, person.companyId ? companyNames.get(person.companyId) ?? null : null)),
+    ...customerContacts.map((contact) => contactToRecord("customer-contact", contact, customerNames.get(contact.customerId) ?? null)),
+    ...companyContacts.map((contact) => contactToRecord("company-contact", contact, companyNames.get(contact.companyId) ?? null)),
+  ];
+}
+
+/**
+ * Lädt einen Kontakt für den vCard-Export samt Firmen- bzw. Kundennamen als Organisation
+ */
+export async function loadVCardContact(kind: ContactKind, id: number): Promise<VCardContact | undefined> {
+  const { storage } = await import("./storage");
+  if (kind === "person") {
+    const person = await storage.getPerson(id);
+    if (!person) return undefined;
+    const company = person.companyId ? await storage.getCompany(person.companyId) : undefined;
+    return {
+      firstName: person.firstName,
+      lastName: person.lastName,
+      email: person.email,
+      phone: person.phone,
+      organization: company?.name ?? null,
+      department: null,
+      title: person.position,
+    };
+  }
+
+  const contact = kind === "customer-contact" ? await storage.getCustomerContact(id) : await storage.getCompanyContact(id);
+  if (!contact) return undefined;
+  const parent = "customerId" in contact ? await storage.getCustomer(contact.customerId) : await storage.getCompany(contact.companyId);
+  return {
+    ...splitName(contact.name),
+    email: contact.email,
+    phone: contact.phone,
+    organization: parent?.name ?? null,
+    department: contact.department,
+    title: contact.position,
+  };
+}
+
+type PersonFields = Pick<Person, "email" | "phone" | "position" | "companyId">;
+
+// Lädt alle Datensätze einer Art; undefined, sobald einer fehlt
+async function loadAll<T>(ids: number[], load: (id: number) => Promise<T | undefined>): Promise<T[] | undefined> {
+  const records: Array<T | undefined> = await Promise.all(Array.from(new Set(ids)).map(load));
+  return records.every((record): record is T => record !== undefined) ? records : undefined;
+}
+
+/**
+ * Prüft die Auswahl und führt zusammen; Verweise auf Personen (Kunden, Firmenzuordnungen, Schäden, Deichwachen)
+ * zeigen danach auf den verbleibenden Datensatz. Firmen-Ansprechpartner gehen in der Person auf, deren Firma sie
+ * übernimmt, falls die Person noch keiner Firma zugeordnet ist
+ */
+export async function mergeContacts(kind: ContactKind, survivorId: number, duplicates: Array<{ kind: ContactKind; id: number }>) {
+  const { storage } = await import("./storage");
+  const idsOf = (target: ContactKind) => duplicates.filter((duplicate) => duplicate.kind === target).map((duplicate) => duplicate.id);
+  const [persons, customerContacts, companyContacts] = await Promise.all([
+    loadAll(idsOf("person"), (id) => storage.getPerson(id)),
+    loadAll(idsOf("customer-contact"), (id) => storage.getCustomerContact(id)),
+    loadAll(idsOf("company-contact"), (id) => storage.getCompanyContact(id)),
+  ]);
+  if (!persons || !customerContacts || !companyContacts) return undefined;
+
+  const records = [
+    ...persons.map((person) => personToRecord(person)),
+    ...customerContacts.map((contact) => contactToRecord("customer-contact", contact)),
+    ...companyContacts.map((contact) => contactToRecord("company-contact", contact)),
+  ];
+  const assertMergeable = (survivor: ContactRecord) => {
+    const problem = getMergeProblem(survivor, records);
+    if (problem) throw new ContactMergeError(problem);
+  };
+
+  if (kind === "person") {
+    const survivor = await storage.getPerson(survivorId);
+    if (!survivor) return undefined;
+    assertMergeable(personToRecord(survivor));
+    const sources: PersonFields[] = [
+      ...persons,
+      ...companyContacts.map((contact) => ({ email: contact.email, phone: contact.phone, position: contact.position, companyId: contact.companyId })),
+    ];
+    const updates = fillMissingFields<PersonFields>(survivor, sources, ["email", "phone", "position", "companyId"]);
+    return storage.mergePersons(survivorId, persons.map((person) => person.id), updates, companyContacts.map((contact) => contact.id));
+  }
+
+  if (kind === "customer-contact") {
+    const survivor = await storage.getCustomerContact(survivorId);
+    if (!survivor) return undefined;
+    assertMergeable(contactToRecord(kind, survivor));
+    const updates = fillMissingFields<CustomerContact>(survivor, customerContacts, ["email", "phone", "department", "position"]);
+    return storage.mergeCustomerContacts(survivorId, customerContacts.map((contact) => contact.id), updates);
+  }
+
+  const survivor = await storage.getCompanyContact(survivorId);
+  if (!survivor) return undefined;
+  assertMergeable(contactToRecord(kind, survivor));
+  const updates = fillMissingFields<CompanyContact>(survivor, companyContacts, ["email", "phone", "department", "position"]);
+  return storage.mergeCompanyContacts(survivorId, companyContacts.map((contact) => contact.id), updates);
+}
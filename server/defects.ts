@@ -0,0 +1,198 @@
+import type { Defect, DefectWithDetails } from "@shared/schema";
+import { toDiaryDate } from "./constructionDiary";
+
+export const DEFECT_STATUSES = ["open", "in_progress", "resolved", "accepted"] as const;
+
+export const DEFECT_STATUS_LABELS: Record<string, string> = {
+  open: "Offen",
+  in_progress: "In Behebung",
+  resolved: "Behoben",
+  accepted: "Abgenommen",
+};
+
+// Zulässige Statuswechsel; eine als behoben gemeldete Behebung kann bei der Abnahme zurückgewiesen werden
+const DEFECT_TRANSITIONS: Record<string, string[]> = {
+  open: ["in_progress", "resolved"],
+  in_progress: ["resolved"],
+  resolved: ["accepted", "in_progress"],
+  accepted: [],
+};
+
+// Vorlaufzeit, mit der die verantwortliche Firma an die Frist erinnert wird
+export const DEFECT_REMINDER_LEAD_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DefectError extends Error {}
+
+export function getDefectStatusLabel(status: string): string {
+  return DEFECT_STATUS_LABELS[status] || status;
+}
+
+/**
+ * Prüft einen Statuswechsel gegen den Workflow und gibt bei Verstößen die Fehlermeldung zurück
+ */
+export function getDefectTransitionError(defect: Pick<Defect, "status">, toStatus: string): string | null {
+  if (!(DEFECT_STATUSES as readonly string[]).includes(toStatus)) {
+    return "Ungültiger Status";
+  }
+  if (!(DEFECT_TRANSITIONS[defect.status] || []).includes(toStatus)) {
+    return `Statuswechsel von "${getDefectStatusLabel(defect.status)}" nach "${getDefectStatusLabel(toStatus)}" ist nicht zulässig`;
+  }
+  return null;
+}
+
+/**
+ * Noch nicht behobene Mängel, deren Frist vor dem heutigen Tag abgelaufen ist
+ */
+export function isDefectOverdue(defect: Pick<Defect, "status" | "deadline">, now: Date = new Date()): boolean {
+  return !!defect.deadline && ["open", "in_progress"].includes(defect.status) && defect.deadline < toDiaryDate(now);
+}
+
+/**
+ * GPS-Koordinaten und Plan-Pin müssen jeweils vollständig angegeben sein
+ */
+export function getDefectLocationError(
+  location: Partial<Pick<Defect, "latitude" | "longitude" | "planAttachmentId" | "pinX" | "pinY">>,
+): string | null {
+  const isSet = (value: unknown) => value !== null && value !== undefined;
+  if (isSet(location.latitude) !== isSet(location.longitude)) {
+    return "GPS-Position benötigt Breiten- und Längengrad";
+  }
+  if (isSet(location.planAttachmentId) !== (isSet(location.pinX) && isSet(location.pinY))) {
+    return "Pin benötigt einen Plan und eine Position auf dem Plan";
+  }
+  if (isSet(location.pinX) !== isSet(location.pinY)) {
+    return "Pin benötigt eine Position auf dem Plan";
+  }
+  return null;
+}
+
+export function formatDefectLocation(defect: Pick<DefectWithDetails, "latitude" | "longitude" | "planFileName">): string | null {
+  const parts: string[] = [];
+  if (defect.planFileName) parts.push(`Plan ${defect.planFileName}`);
+  if (defect.latitude && defect.longitude) {
+    parts.push(`GPS ${Number(defect.latitude).toFixed(6)}, ${Number(defect.longitude).toFixed(6)}`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+export function summarizeDefects(defects: Pick<Defect, "status" | "deadline">[], now: Date = new Date()) {
+  return {
+    total: defects.length,
+    byStatus: Object.fromEntries(DEFECT_STATUSES.map((status) => [status, defects.filter((defect) => defect.status === status).length])),
+    overdue: defects.filter((defect) => isDefectOverdue(defect, now)).length,
+  };
+}
+
+// Planformate, die der Planviewer darstellen kann; DWG/DXF und HEIC rendert der Browser nicht
+export const DEFECT_PLAN_MIME_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf"] as const;
+
+/**
+ * Prüft, dass Plan und Fotos existieren und zum Projekt des Mangels gehören; Pins sind nur auf darstellbaren Plänen möglich
+ */
+export async function assertDefectReferences(projectId: number, planAttachmentId?: number | null, photoIds: number[] = []) {
+  const { storage } = await import("./storage");
+  if (planAttachmentId) {
+    const plan = await storage.getAttachment(planAttachmentId);
+    if (!plan || plan.projectId !== projectId) {
+      throw new DefectError("Unbekannter Plan oder Plan eines anderen Projekts");
+    }
+    if (!(DEFECT_PLAN_MIME_TYPES as readonly string[]).includes(plan.mimeType ?? "")) {
+      throw new DefectError("Mängel können nur auf Plänen im Format PDF, JPG, PNG, GIF oder WebP verortet werden");
+    }
+  }
+  const photos = await storage.getPhotosByIds(photoIds);
+  if (photos.length !== new Set(photoIds).size || photos.some((photo) => photo.projectId !== projectId)) {
+    throw new DefectError("Unbekannte Fotos oder Fotos eines anderen Projekts");
+  }
+}
+
+/**
+ * Sammel-E-Mail an die verantwortliche Firma; protokolliert die Erinnerung im Verlauf jedes Mangels
+ */
+export async function sendDefectReminderToCompany(
+  defects: DefectWithDetails[],
+  projectName: string,
+  now: Date = new Date(),
+  userId: string | null = null,
+) {
+  const { storage } = await import("./storage");
+  const { emailService } = await import("./emailService");
+  const [{ companyEmail, companyName }] = defects;
+  if (!companyEmail) {
+    throw new DefectError("Die verantwortliche Firma hat keine E-Mail-Adresse");
+  }
+
+  await emailService.sendDefectReminderEmail({
+    to: companyEmail,
+    companyName: companyName || companyEmail,
+    projectName,
+    defects: defects.map((defect) => ({
+      number: defect.number,
+      title: defect.title,
+      description: defect.description,
+      location: formatDefectLocation(defect),
+      deadline: defect.deadline ? new Date(`${defect.deadline}T00:00:00`) : null,
+      overdue: isDefectOverdue(defect, now),
+    })),
+  });
+
+  for (const defect of defects) {
+    await storage.updateDefect(
+      defect.id,
+      {
+        reminderSentAt: defect.reminderSentAt ?? now,
+        overdueNotifiedAt: isDefectOverdue(defect, now) ? now : defect.overdueNotifiedAt,
+      },
+      [{ type: "reminder", text: `Erinnerung an ${companyEmail} gesendet`, userId }],
+    );
+  }
+}
+
+/**
+ * Erinnert je Projekt und Firma an bald fällige und (einmalig) an überfällige Mängel
+ */
+export async function sendDefectReminders(
+  leadDays: number = DEFECT_REMINDER_LEAD_DAYS,
+  now: Date = new Date(),
+): Promise<{ sent: number; defects: number; withoutEmail: number; failed: number }> {
+  const { storage } = await import("./storage");
+  const result = { sent: 0, defects: 0, withoutEmail: 0, failed: 0 };
+
+  const due = await storage.getDefectsForReminder(toDiaryDate(now), toDiaryDate(new Date(now.getTime() + leadDays * DAY_MS)));
+  const groups = new Map<string, DefectWithDetails[]>();
+  for (const defect of due) {
+    const key = `${defect.projectId}:${defect.companyId}`;
+    groups.set(key, [...(groups.get(key) || []), defect]);
+  }
+
+  for (const defects of Array.from(groups.values())) {
+    if (!defects[0].companyEmail) {
+      result.withoutEmail += defects.length;
+      continue;
+    }
+    try {
+      const project = await storage.getProject(defects[0].projectId);
+      await sendDefectReminderToCompany(defects, project?.name || `Projekt ${defects[0].projectId}`, now);
+      result.sent++;
+      result.defects += defects.length;
+    } catch (error) {
+      console.error(`Mängel-Erinnerung an ${defects[0].companyEmail} fehlgeschlagen:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Startet die periodische Prüfung auf fällige Mängel
+ */
+export function startDefectReminders(intervalMs: number = 60 * 60 * 1000): NodeJS.Timeout {
+  return setInterval(() => {
+    sendDefectReminders().catch((error) => {
+      console.error("Fehler beim Versand der Mängel-Erinnerungen:", error);
+    });
+  }, intervalMs);
+}
@@ -0,0 +1,56 @@
+import { storage } from "./storage";
+import { toDeichwacheResponse } from "./floodProtection";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Vorlaufzeit, mit der eingeteilte Deichwachen an ihre Schicht erinnert werden
+export const DEICHWACHE_ERINNERUNG_VORLAUF_STUNDEN = 12;
+
+/**
+ * Versendet Erinnerungen für alle Schichten, die innerhalb der Vorlaufzeit beginnen und noch nicht erinnert wurden
+ */
+export async function sendDeichwacheErinnerungen(
+  vorlaufStunden: number = DEICHWACHE_ERINNERUNG_VORLAUF_STUNDEN,
+  now: Date = new Date(),
+): Promise<{ gesendet: number; ohneEmail: number; fehlgeschlagen: number }> {
+  const { emailService } = await import("./emailService");
+  const wachen = await storage.getDeichwachenOhneErinnerung(now, new Date(now.getTime() + vorlaufStunden * HOUR_MS));
+  const ergebnis = { gesendet: 0, ohneEmail: 0, fehlgeschlagen: 0 };
+
+  for (const wache of wachen) {
+    if (!wache.personEmail) {
+      ergebnis.ohneEmail++;
+      continue;
+    }
+
+    try {
+      const response = toDeichwacheResponse(wache);
+      await emailService.sendDeichwacheReminderEmail({
+        to: wache.personEmail,
+        name: response.name,
+        bereich: response.bereich,
+        schichtBeginn: wache.schichtBeginn,
+        schichtEnde: wache.schichtEnde,
+        bemerkung: response.bemerkung,
+      });
+      await storage.markDeichwacheErinnert(wache.id);
+      ergebnis.gesendet++;
+    } catch (error) {
+      console.error(`Deichwachen-Erinnerung für Schicht ${wache.id} fehlgeschlagen:`, error);
+      ergebnis.fehlgeschlagen++;
+    }
+  }
+
+  return ergebnis;
+}
+
+/**
+ * Startet die periodische Prüfung auf anstehende Deichwachen-Schichten
+ */
+export function startDeichwacheErinnerungen(intervalMs: number = 15 * 60 * 1000): NodeJS.Timeout {
+  return setInterval(() => {
+    sendDeichwacheErinnerungen().catch((error) => {
+      console.error("Fehler beim Versand der Deichwachen-Erinnerungen:", error);
+    });
+  }, intervalMs);
+}
@@ -156,7 +156,7 @@ ${schieber.map((s: any) => `- Nr. ${s.nummer}: ${s.bezeichnung} (${s.status})`).
 
 ${schaeden && schaeden.length > 0 ? `
 Schadensfälle:
-${schaeden.map((schaden: any) => `- Schieber ${schaden.absperrschieber_nummer}: ${schaden.problem_beschreibung} (${schaden.status})`).join('\n')}
+${schaeden.map((schaden: any) => `- Schieber ${schaden.absperrschieber_nummer ?? '–'}: ${schaden.problem_beschreibung} (${schaden.status})`).join('\n')}
 ` : ''}
 
 ${wachen && wachen.length > 0 ? `
@@ -191,6 +191,108 @@ Support: ${this.config.senderEmail}
     }
   }
 
+  async sendDeichwacheReminderEmail(reminderData: {
+    to: string;
+    name: string;
+    bereich: string;
+    schichtBeginn: Date;
+    schichtEnde: Date;
+    bemerkung?: string;
+  }) {
+    const mailOptions = {
+      from: `"${this.config.senderName}" <${this.config.senderEmail}>`,
+      to: reminderData.to,
+      subject: `Erinnerung Deichwache: ${this.formatSchicht(reminderData.schichtBeginn, reminderData.schichtEnde)}`,
+      html: this.generateDeichwacheReminderHtml(reminderData),
+      text: this.generateDeichwacheReminderText(reminderData)
+    };
+
+    try {
+      const response = await this.transporter.sendMail(mailOptions);
+      console.log('Deichwachen-Erinnerung erfolgreich versendet:', response.messageId);
+      return response;
+    } catch (error) {
+      console.error('Fehler beim Versand der Deichwachen-Erinnerung:', error);
+      throw error;
+    }
+  }
+
+  async sendPegelAlarmEmail(alarmData: {
+    to: string;
+    pegel: string;
+    gewaesser?: string | null;
+    meldestufe: number;
+    wasserstandCm: number;
+    gemessenAm: Date;
+    checklisteTitel?: string | null;
+  }) {
+    const mailOptions = {
+      from: `"${this.config.senderName}" <${this.config.senderEmail}>`,
+      to: alarmData.to,
+      subject: `Pegel-Alarm: ${alarmData.pegel} hat Meldestufe ${alarmData.meldestufe} erreicht`,
+      html: this.generatePegelAlarmHtml(alarmData),
+      text: this.generatePegelAlarmText(alarmData)
+    };
+
+    try {
+      const response = await this.transporter.sendMail(mailOptions);
+      console.log('Pegel-Alarm erfolgreich versendet:', response.messageId);
+      return response;
+    } catch (error) {
+      console.error('Fehler beim Versand des Pegel-Alarms:', error);
+      throw error;
+    }
+  }
+
+  async sendWartungsErinnerungEmail(erinnerungData: {
+    to: string;
+    schutzanlage: string;
+    aufgaben: { bauteil: string; massnahme: string; faelligAm: Date; ueberfaellig: boolean }[];
+  }) {
+    const ueberfaellig = erinnerungData.aufgaben.filter((aufgabe) => aufgabe.ueberfaellig).length;
+    const mailOptions = {
+      from: `"${this.config.senderName}" <${this.config.senderEmail}>`,
+      to: erinnerungData.to,
+      subject: `Wartung ${erinnerungData.schutzanlage}: ${erinnerungData.aufgaben.length} Aufgaben fällig${ueberfaellig > 0 ? `, davon ${ueberfaellig} überfällig` : ''}`,
+      html: this.generateWartungsErinnerungHtml(erinnerungData),
+      text: this.generateWartungsErinnerungText(erinnerungData)
+    };
+
+    try {
+      const response = await this.transporter.sendMail(mailOptions);
+      console.log('Wartungs-Erinnerung erfolgreich versendet:', response.messageId);
+      return response;
+    } catch (error) {
+      console.error('Fehler beim Versand der Wartungs-Erinnerung:', error);
+      throw error;
+    }
+  }
+
+  async sendDefectReminderEmail(reminderData: {
+    to: string;
+    companyName: string;
+    projectName: string;
+    defects: { number: number; title: string; description?: string | null; location?: string | null; deadline: Date | null; overdue: boolean }[];
+  }) {
+    const overdue = reminderData.defects.filter((defect) => defect.overdue).length;
+    const mailOptions = {
+      from: `"${this.config.senderName}" <${this.config.senderEmail}>`,
+      to: reminderData.to,
+      subject: `Mängelbeseitigung ${reminderData.projectName}: ${reminderData.defects.length} Mängel${overdue > 0 ? `, davon ${overdue} überfällig` : ''}`,
+      html: this.generateDefectReminderHtml(reminderData),
+      text: this.generateDefectReminderText(reminderData)
+    };
+
+    try {
+      const response = await this.transporter.sendMail(mailOptions);
+      console.log('Mängel-Erinnerung erfolgreich versendet:', response.messageId);
+      return response;
+    } catch (error) {
+      console.error('Fehler beim Versand der Mängel-Erinnerung:', error);
+      throw error;
+    }
+  }
+
   private generateTicketEmailHtml(ticketData: any): string {
     return `
     <!DOCTYPE html>
@@ -498,9 +600,9 @@ Viel Erfolg mit Bau-Structura!`;
                         <tbody>
                             ${schaeden.map((schaden: any) => `
                                 <tr>
-                                    <td>Nr. ${schaden.absperrschieber_nummer}</td>
+                                    <td>${schaden.absperrschieber_nummer ? `Nr. ${schaden.absperrschieber_nummer}` : '–'}</td>
                                     <td>${schaden.problem_beschreibung}</td>
-                                    <td>${schaden.status}</td>
+                                    <td>${schaden.status_text || schaden.status}</td>
                                 </tr>
                             `).join('')}
                         </tbody>
@@ -542,6 +644,232 @@ Viel Erfolg mit Bau-Structura!`;
     </html>`;
   }
 
+  private formatSchicht(beginn: Date, ende: Date): string {
+    const datum = (zeit: Date) => zeit.toLocaleDateString('de-DE', { timeZone: 'Europe/Berlin' });
+    const uhrzeit = (zeit: Date) => zeit.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Berlin' });
+    return datum(beginn) === datum(ende)
+      ? `${datum(beginn)} ${uhrzeit(beginn)} - ${uhrzeit(ende)} Uhr`
+      : `${datum(beginn)} ${uhrzeit(beginn)} - ${datum(ende)} ${uhrzeit(ende)} Uhr`;
+  }
+
+  private generateDeichwacheReminderHtml(reminderData: any): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #3B82F6, #1D4ED8); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+            .content { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; }
+            .shift-info { background: white; padding: 15px; border-radius: 6px; margin: 15px 0; border-left: 4px solid #3B82F6; }
+            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>🌊 Erinnerung Deichwache</h1>
+            </div>
+            <div class="content">
+                <p>Hallo ${reminderData.name},</p>
+                <p>Sie sind für die folgende Deichwache eingeteilt:</p>
+                <div class="shift-info">
+                    <p><strong>Schicht:</strong> ${this.formatSchicht(reminderData.schichtBeginn, reminderData.schichtEnde)}</p>
+                    <p><strong>Bereich:</strong> ${reminderData.bereich}</p>
+                    ${reminderData.bemerkung ? `<p><strong>Bemerkung:</strong> ${reminderData.bemerkung}</p>` : ''}
+                </div>
+                <p>Bitte melden Sie sich bei der Einsatzleitung, falls Sie die Schicht nicht antreten können.</p>
+            </div>
+            <div class="footer">
+                <p>Diese E-Mail wurde automatisch vom Bau-Structura Hochwasserschutz-System generiert.</p>
+            </div>
+        </div>
+    </body>
+    </html>`;
+  }
+
+  private generateDeichwacheReminderText(reminderData: any): string {
+    return `
+ERINNERUNG DEICHWACHE
+
+Hallo ${reminderData.name},
+
+Sie sind für die folgende Deichwache eingeteilt:
+
+Schicht: ${this.formatSchicht(reminderData.schichtBeginn, reminderData.schichtEnde)}
+Bereich: ${reminderData.bereich}
+${reminderData.bemerkung ? `Bemerkung: ${reminderData.bemerkung}` : ''}
+
+Bitte melden Sie sich bei der Einsatzleitung, falls Sie die Schicht nicht antreten können.
+
+Diese E-Mail wurde automatisch vom Bau-Structura Hochwasserschutz-System generiert.
+    `;
+  }
+
+  private generatePegelAlarmHtml(alarmData: any): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #EF4444, #B91C1C); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+            .content { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; }
+            .alarm-info { background: white; padding: 15px; border-radius: 6px; margin: 15px 0; border-left: 4px solid #EF4444; }
+            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>🌊 Pegel-Alarm – Meldestufe ${alarmData.meldestufe}</h1>
+            </div>
+            <div class="content">
+                <div class="alarm-info">
+                    <p><strong>Pegel:</strong> ${alarmData.pegel}${alarmData.gewaesser ? ` (${alarmData.gewaesser})` : ''}</p>
+                    <p><strong>Wasserstand:</strong> ${alarmData.wasserstandCm} cm</p>
+                    <p><strong>Gemessen:</strong> ${alarmData.gemessenAm.toLocaleString('de-DE')}</p>
+                </div>
+                ${alarmData.checklisteTitel ? `<p>Die Checkliste <strong>${alarmData.checklisteTitel}</strong> wurde für den Einsatz angelegt.</p>` : ''}
+                <p>Bitte prüfen Sie die Lage und leiten Sie die vorgesehenen Maßnahmen ein.</p>
+            </div>
+            <div class="footer">
+                <p>Diese E-Mail wurde automatisch vom Bau-Structura Hochwasserschutz-System generiert.</p>
+            </div>
+        </div>
+    </body>
+    </html>`;
+  }
+
+  private generatePegelAlarmText(alarmData: any): string {
+    return `
+PEGEL-ALARM – MELDESTUFE ${alarmData.meldestufe}
+
+Pegel: ${alarmData.pegel}${alarmData.gewaesser ? ` (${alarmData.gewaesser})` : ''}
+Wasserstand: ${alarmData.wasserstandCm} cm
+Gemessen: ${alarmData.gemessenAm.toLocaleString('de-DE')}
+${alarmData.checklisteTitel ? `Angelegte Checkliste: ${alarmData.checklisteTitel}` : ''}
+
+Bitte prüfen Sie die Lage und leiten Sie die vorgesehenen Maßnahmen ein.
+
+Diese E-Mail wurde automatisch vom Bau-Structura Hochwasserschutz-System generiert.
+    `;
+  }
+
+  private generateWartungsErinnerungHtml(erinnerungData: any): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #3B82F6, #1E40AF); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+            .content { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; }
+            .aufgabe { background: white; padding: 12px 15px; border-radius: 6px; margin: 10px 0; border-left: 4px solid #3B82F6; }
+            .aufgabe.ueberfaellig { border-left-color: #EF4444; }
+            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>🌊 Wartung ${erinnerungData.schutzanlage}</h1>
+            </div>
+            <div class="content">
+                <p>Folgende Wartungsaufgaben sind fällig:</p>
+                ${erinnerungData.aufgaben.map((aufgabe: any) => `
+                <div class="aufgabe${aufgabe.ueberfaellig ? ' ueberfaellig' : ''}">
+                    <p><strong>${aufgabe.bauteil}</strong></p>
+                    <p>${aufgabe.massnahme}</p>
+                    <p><strong>${aufgabe.ueberfaellig ? 'Überfällig seit' : 'Fällig bis'}:</strong> ${aufgabe.faelligAm.toLocaleDateString('de-DE')}</p>
+                </div>`).join('')}
+                <p>Bitte dokumentieren Sie die Durchführung im Wartungsplan.</p>
+            </div>
+            <div class="footer">
+                <p>Diese E-Mail wurde automatisch vom Bau-Structura Hochwasserschutz-System generiert.</p>
+            </div>
+        </div>
+    </body>
+    </html>`;
+  }
+
+  private generateWartungsErinnerungText(erinnerungData: any): string {
+    return `
+WARTUNG ${erinnerungData.schutzanlage.toUpperCase()}
+
+Folgende Wartungsaufgaben sind fällig:
+
+${erinnerungData.aufgaben.map((aufgabe: any) => `- ${aufgabe.bauteil}: ${aufgabe.massnahme} (${aufgabe.ueberfaellig ? 'überfällig seit' : 'fällig bis'} ${aufgabe.faelligAm.toLocaleDateString('de-DE')})`).join('\n')}
+
+Bitte dokumentieren Sie die Durchführung im Wartungsplan.
+
+Diese E-Mail wurde automatisch vom Bau-Structura Hochwasserschutz-System generiert.
+    `;
+  }
+
+  private generateDefectReminderHtml(reminderData: any): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #F97316, #C2410C); color: white; padding: 20px; border-radius: 8px 8px 0 0; }
+            .content { background: #f8f9fa; padding: 20px; border-radius: 0 0 8px 8px; }
+            .mangel { background: white; padding: 12px 15px; border-radius: 6px; margin: 10px 0; border-left: 4px solid #F97316; }
+            .mangel.ueberfaellig { border-left-color: #EF4444; }
+            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>🚧 Mängelbeseitigung ${reminderData.projectName}</h1>
+            </div>
+            <div class="content">
+                <p>Sehr geehrte Damen und Herren der Firma ${reminderData.companyName},</p>
+                <p>wir bitten Sie, folgende Mängel fristgerecht zu beseitigen:</p>
+                ${reminderData.defects.map((defect: any) => `
+                <div class="mangel${defect.overdue ? ' ueberfaellig' : ''}">
+                    <p><strong>Mangel Nr. ${defect.number}: ${defect.title}</strong></p>
+                    ${defect.description ? `<p>${defect.description}</p>` : ''}
+                    ${defect.location ? `<p><strong>Ort:</strong> ${defect.location}</p>` : ''}
+                    ${defect.deadline ? `<p><strong>${defect.overdue ? 'Frist abgelaufen am' : 'Frist bis'}:</strong> ${defect.deadline.toLocaleDateString('de-DE')}</p>` : ''}
+                </div>`).join('')}
+                <p>Bitte melden Sie die Beseitigung an die Bauleitung.</p>
+            </div>
+            <div class="footer">
+                <p>Diese E-Mail wurde automatisch vom Bau-Structura Mängelmanagement generiert.</p>
+            </div>
+        </div>
+    </body>
+    </html>`;
+  }
+
+  private generateDefectReminderText(reminderData: any): string {
+    return `
+MÄNGELBESEITIGUNG ${reminderData.projectName.toUpperCase()}
+
+Sehr geehrte Damen und Herren der Firma ${reminderData.companyName},
+
+wir bitten Sie, folgende Mängel fristgerecht zu beseitigen:
+
+${reminderData.defects.map((defect: any) => `- Nr. ${defect.number}: ${defect.title}${defect.location ? ` (${defect.location})` : ''}${defect.deadline ? ` – ${defect.overdue ? 'Frist abgelaufen am' : 'Frist bis'} ${defect.deadline.toLocaleDateString('de-DE')}` : ''}`).join('\n')}
+
+Bitte melden Sie die Beseitigung an die Bauleitung.
+
+Diese E-Mail wurde automatisch vom Bau-Structura Mängelmanagement generiert.
+    `;
+  }
+
   private getRoleLabel(role: string): string {
     switch (role) {
       case 'admin': return 'Administrator';
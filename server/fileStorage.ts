@@ -0,0 +1,217 @@
+import { createHash } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { access, mkdir, unlink, writeFile } from "fs/promises";
+import { dirname, join, normalize, sep } from "path";
+import type { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ContainerClient } from "@azure/storage-blob";
+
+/**
+ * Ablage für Dateiinhalte von Fotos, Audioaufnahmen und Anhängen.
+ * Schlüssel sind relative Pfade wie "ab/abcdef..." (siehe getContentKey).
+ */
+export interface FileStorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  putStream(key: string, source: Readable, contentType?: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export class FileNotFoundError extends Error {}
+
+export class LocalFileStorage implements FileStorageDriver {
+  readonly name = "local";
+
+  // Standardmäßig UPLOADS_DIR bzw. ./uploads im Arbeitsverzeichnis
+  constructor(private rootDir: string = process.env.UPLOADS_DIR || join(process.cwd(), "uploads")) {}
+
+  private resolve(key: string): string {
+    const resolved = normalize(join(this.rootDir, key));
+    if (!resolved.startsWith(normalize(this.rootDir) + sep)) {
+      throw new Error(`Ungültiger Dateischlüssel: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, data);
+  }
+
+  async putStream(key: string, source: Readable): Promise<void> {
+    const target = this.resolve(key);
+    await mkdir(dirname(target), { recursive: true });
+    await pipeline(source, createWriteStream(target));
+  }
+
+  async get(key: string): Promise<Readable> {
+    if (!(await this.exists(key))) {
+      throw new FileNotFoundError(`Datei nicht gefunden: ${key}`);
+    }
+    return createReadStream(this.resolve(key));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+  }
+}
+
+export class AzureBlobFileStorage implements FileStorageDriver {
+  readonly name = "azure";
+  private containerReady: Promise<unknown> | null = null;
+
+  constructor(private containerClient: ContainerClient) {}
+
+  private ensureContainer() {
+    if (!this.containerReady) {
+      this.containerReady = this.containerClient.createIfNotExists();
+    }
+    return this.containerReady;
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.ensureContainer();
+    await this.containerClient.getBlockBlobClient(key).uploadData(data, {
+      blobHTTPHeaders: contentType ? { blobContentType: contentType } : undefined,
+      metadata: { source: "Bau-Structura-System" },
+    });
+  }
+
+  async putStream(key: string, source: Readable, contentType?: string): Promise<void> {
+    await this.ensureContainer();
+    await this.containerClient.getBlockBlobClient(key).uploadStream(source, undefined, undefined, {
+      blobHTTPHeaders: contentType ? { blobContentType: contentType } : undefined,
+      metadata: { source: "Bau-Structura-System" },
+    });
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const response = await this.containerClient.getBlobClient(key).download();
+      return response.readableStreamBody as Readable;
+    } catch (error: any) {
+      if (error?.statusCode === 404) {
+        throw new FileNotFoundError(`Datei nicht gefunden: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return await this.containerClient.getBlobClient(key).exists();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.containerClient.getBlobClient(key).deleteIfExists();
+  }
+}
+
+let fileStorage: Promise<FileStorageDriver> | null = null;
+
+/**
+ * Liefert den über FILE_STORAGE_DRIVER ("local" oder "azure") konfigurierten Treiber
+ */
+export function getFileStorage(): Promise<FileStorageDriver> {
+  if (!fileStorage) {
+    fileStorage = (async () => {
+      if (process.env.FILE_STORAGE_DRIVER === "azure") {
+        const { createAzureBlobServiceClient } = await import("./azureBackupService");
+        return new AzureBlobFileStorage(
+          createAzureBlobServiceClient().getContainerClient(process.env.AZURE_FILES_CONTAINER || "bau-structura-files"),
+        );
+      }
+      return new LocalFileStorage();
+    })();
+  }
+  return fileStorage;
+}
+
+/**
+ * Liest einen gespeicherten Dateiinhalt vollständig in den Speicher (z.B. für PDF-Berichte oder Spracherkennung)
+ */
+export async function readStoredFile(key: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await (await getFileStorage()).get(key)) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * SHA-256 des Dateiinhalts, dient gleichzeitig der Deduplizierung
+ */
+export function hashContent(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Inhaltsadressierter Schlüssel; gleiche Inhalte landen unter demselben Schlüssel
+ */
+export function getContentKey(contentHash: string): string {
+  return `${contentHash.slice(0, 2)}/${contentHash}`;
+}
+
+/**
+ * Speichert einen Dateiinhalt, sofern er nicht bereits unter seinem Hash abgelegt ist
+ */
+export async function storeFile(data: Buffer, contentType?: string): Promise<{
+  key: string;
+  contentHash: string;
+  size: number;
+  deduplicated: boolean;
+}> {
+  const driver = await getFileStorage();
+  const contentHash = hashContent(data);
+  const key = getContentKey(contentHash);
+  const deduplicated = await driver.exists(key);
+
+  if (!deduplicated) {
+    await driver.put(key, data, contentType);
+  }
+
+  return { key, contentHash, size: data.length, deduplicated };
+}
+
+/**
+ * Wie storeFile, aber für große Dateien auf der Platte (z.B. zusammengesetzte Chunk-Uploads), ohne sie komplett zu laden
+ */
+export async function storeLocalFile(filePath: string, contentType?: string): Promise<{
+  key: string;
+  contentHash: string;
+  size: number;
+  deduplicated: boolean;
+}> {
+  const hash = createHash("sha256");
+  let size = 0;
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+
+  const driver = await getFileStorage();
+  const contentHash = hash.digest("hex");
+  const key = getContentKey(contentHash);
+  const deduplicated = await driver.exists(key);
+
+  if (!deduplicated) {
+    await driver.putStream(key, createReadStream(filePath), contentType);
+  }
+
+  return { key, contentHash, size, deduplicated };
+}
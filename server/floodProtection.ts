@@ -0,0 +1,659 @@
+import type {
+  ChecklistWithProgress,
+  ChecklistTask,
+  InsertChecklistTask,
+  ChecklistVorlage,
+  ChecklistVorlageAufgabe,
+  AbsperrschieberWithStatus,
+  SchieberPruefung,
+  SchadensfallWithDetails,
+  SchadensfallEreignis,
+  Photo,
+  Deichabschnitt,
+  DeichwacheWithDetails,
+  Pegel,
+  PegelMesswert,
+  PegelAlarm,
+  Wartungsanweisung,
+  Wartungsbauteil,
+  Wartungsplan,
+  WartungsaufgabeWithDetails,
+} from "@shared/schema";
+
+export const SCHIEBER_FUNKTIONSSTATUS = ["funktionsfähig", "wartung_erforderlich", "defekt"] as const;
+
+export const SCHADENSFALL_STATUS = ["gemeldet", "in_bearbeitung", "behoben", "geprueft"] as const;
+
+// Zulässige Statuswechsel eines Schadensfalls; "behoben" kann bei der Prüfung zurückgewiesen werden
+const SCHADENSFALL_UEBERGAENGE: Record<string, string[]> = {
+  gemeldet: ["in_bearbeitung"],
+  in_bearbeitung: ["behoben"],
+  behoben: ["geprueft", "in_bearbeitung"],
+  geprueft: [],
+};
+
+const SCHADENSFALL_STATUS_TEXT: Record<string, string> = {
+  gemeldet: "Gemeldet",
+  in_bearbeitung: "In Bearbeitung",
+  behoben: "Behoben",
+  geprueft: "Geprüft",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CHECKLIST_TYPEN = ["hochwasser", "uebung", "starkregen"] as const;
+
+export type ChecklistTyp = (typeof CHECKLIST_TYPEN)[number];
+
+export const CHECKLIST_TYP_TEXT: Record<ChecklistTyp, string> = {
+  hochwasser: "Hochwasserereignis",
+  uebung: "Übung",
+  starkregen: "Starkregen",
+};
+
+// Felder, die eine Vorlage je Aufgabe als Pflichtangabe vor dem Abhaken verlangen kann
+export const CHECKLIST_PFLICHTFELDER = ["datum", "pegelstand", "foto", "bemerkung"] as const;
+
+export type ChecklistPflichtfeld = (typeof CHECKLIST_PFLICHTFELDER)[number];
+
+export const CHECKLIST_PFLICHTFELD_TEXT: Record<ChecklistPflichtfeld, string> = {
+  datum: "Datum",
+  pegelstand: "Pegelstand",
+  foto: "Foto",
+  bemerkung: "Bemerkung",
+};
+
+export type ChecklistAufgabenVorlage = Pick<InsertChecklistTask, "abschnitt" | "nr" | "beschreibung" | "pflichtfelder">;
+
+// Standardaufgaben einer Hochwasserschutz-Checkliste (Beginn + Ende des Betriebes), solange keine Vorlage gepflegt ist
+export const DEFAULT_CHECKLIST_TASKS: ChecklistAufgabenVorlage[] = [
+  { abschnitt: "beginn", nr: 1, beschreibung: "Pegelstand dokumentieren und melden", pflichtfelder: ["datum", "pegelstand"] },
+  { abschnitt: "beginn", nr: 2, beschreibung: "Einsatzleitung informieren" },
+  { abschnitt: "beginn", nr: 3, beschreibung: "Absperrschieber auf Funktionsfähigkeit prüfen" },
+  { abschnitt: "beginn", nr: 4, beschreibung: "Notfallausrüstung überprüfen" },
+  { abschnitt: "beginn", nr: 5, beschreibung: "Deichwachen einteilen und briefen" },
+  { abschnitt: "beginn", nr: 6, beschreibung: "Evakuierungspläne aktualisieren" },
+  { abschnitt: "ende", nr: 1, beschreibung: "Endpegelstand dokumentieren", pflichtfelder: ["datum", "pegelstand"] },
+  { abschnitt: "ende", nr: 2, beschreibung: "Absperrschieber zurücksetzen" },
+  { abschnitt: "ende", nr: 3, beschreibung: "Ausrüstung reinigen und verstauen" },
+  { abschnitt: "ende", nr: 4, beschreibung: "Schadensdokumentation erstellen", pflichtfelder: ["foto"] },
+  { abschnitt: "ende", nr: 5, beschreibung: "Abschlussbericht verfassen" },
+];
+
+export const STANDARD_CHECKLIST_AUFGABEN: Record<ChecklistTyp, ChecklistAufgabenVorlage[]> = {
+  hochwasser: DEFAULT_CHECKLIST_TASKS,
+  uebung: [
+    { abschnitt: "beginn", nr: 1, beschreibung: "Übungsbeginn und Übungsannahme dokumentieren", pflichtfelder: ["datum"] },
+    { abschnitt: "beginn", nr: 2, beschreibung: "Teilnehmer und Einsatzleitung informieren" },
+    { abschnitt: "beginn", nr: 3, beschreibung: "Absperrschieber probeweise schließen" },
+    { abschnitt: "beginn", nr: 4, beschreibung: "Mobile Elemente probeweise aufbauen", pflichtfelder: ["foto"] },
+    { abschnitt: "ende", nr: 1, beschreibung: "Absperrschieber öffnen und Gängigkeit prüfen" },
+    { abschnitt: "ende", nr: 2, beschreibung: "Mobile Elemente abbauen und einlagern" },
+    { abschnitt: "ende", nr: 3, beschreibung: "Mängel und Verbesserungen festhalten", pflichtfelder: ["bemerkung"] },
+  ],
+  starkregen: [
+    { abschnitt: "beginn", nr: 1, beschreibung: "Unwetterwarnung und Niederschlagsmenge dokumentieren", pflichtfelder: ["datum", "bemerkung"] },
+    { abschnitt: "beginn", nr: 2, beschreibung: "Einsatzleitung informieren" },
+    { abschnitt: "beginn", nr: 3, beschreibung: "Einläufe, Rechen und Durchlässe kontrollieren und freiräumen", pflichtfelder: ["foto"] },
+    { abschnitt: "beginn", nr: 4, beschreibung: "Pumpwerke und mobile Pumpen in Bereitschaft versetzen" },
+    { abschnitt: "beginn", nr: 5, beschreibung: "Gefährdete Unterführungen und Senken absperren" },
+    { abschnitt: "ende", nr: 1, beschreibung: "Abflusshindernisse und Ablagerungen beseitigen" },
+    { abschnitt: "ende", nr: 2, beschreibung: "Überflutete Bereiche und Schäden dokumentieren", pflichtfelder: ["foto"] },
+    { abschnitt: "ende", nr: 3, beschreibung: "Abschlussbericht verfassen" },
+  ],
+};
+
+export function isChecklistTyp(typ: unknown): typ is ChecklistTyp {
+  return CHECKLIST_TYPEN.includes(typ as ChecklistTyp);
+}
+
+/**
+ * Ermittelt die Pflichtfelder einer Aufgabe, die vor dem Abhaken noch fehlen
+ */
+export function getFehlendePflichtfelder(
+  task: Pick<ChecklistTask, "pflichtfelder" | "datum" | "pegelstandCm" | "fotoIds" | "bemerkung">,
+): ChecklistPflichtfeld[] {
+  const vorhanden: Record<ChecklistPflichtfeld, boolean> = {
+    datum: !!task.datum,
+    pegelstand: task.pegelstandCm != null,
+    foto: (task.fotoIds || []).length > 0,
+    bemerkung: !!task.bemerkung?.trim(),
+  };
+  return CHECKLIST_PFLICHTFELDER.filter((feld) => (task.pflichtfelder || []).includes(feld) && !vorhanden[feld]);
+}
+
+/**
+ * Leitet den Checklisten-Status aus dem Aufgabenfortschritt ab
+ */
+export function deriveChecklistStatus(aufgabenErledigt: number, aufgabenGesamt: number): string {
+  if (aufgabenGesamt > 0 && aufgabenErledigt >= aufgabenGesamt) return "abgeschlossen";
+  if (aufgabenErledigt > 0) return "in_bearbeitung";
+  return "offen";
+}
+
+/**
+ * Wandelt eine Checkliste in das API-Format der Hochwasserschutz-Seiten um
+ */
+export function toChecklistResponse(checklist: ChecklistWithProgress) {
+  const { aufgabenGesamt, aufgabenErledigt } = checklist;
+
+  return {
+    id: checklist.id,
+    titel: checklist.titel,
+    typ: checklist.typ,
+    status: checklist.status,
+    beschreibung: checklist.beschreibung || "",
+    beginn_pegelstand_cm: checklist.beginnPegelstandCm,
+    project_id: checklist.projectId,
+    vorlage_id: checklist.vorlageId,
+    vorlage_version: checklist.vorlageVersion,
+    erstellt_am: checklist.createdAt,
+    erstellt_von: checklist.erstelltVonName || checklist.erstelltVon,
+    fortschritt: aufgabenGesamt > 0 ? Math.round((aufgabenErledigt / aufgabenGesamt) * 100) : 0,
+    aufgaben_gesamt: aufgabenGesamt,
+    aufgaben_erledigt: aufgabenErledigt,
+  };
+}
+
+/**
+ * Wandelt eine Checklisten-Aufgabe in das API-Format um
+ */
+export function toChecklistTaskResponse(task: ChecklistTask, userNames: Map<string, string>) {
+  return {
+    id: task.id,
+    abschnitt: task.abschnitt,
+    nr: task.nr,
+    beschreibung: task.beschreibung,
+    erledigt: task.erledigt,
+    erledigt_am: task.erledigtAm,
+    erledigt_von: task.erledigtVon ? userNames.get(task.erledigtVon) || task.erledigtVon : null,
+    datum: task.datum,
+    pegelstand_cm: task.pegelstandCm,
+    bemerkung: task.bemerkung || "",
+    foto_ids: task.fotoIds || [],
+    pflichtfelder: task.pflichtfelder || [],
+  };
+}
+
+/**
+ * Wandelt eine Checklisten-Vorlage in das JSON-Format für API, Export und Import um
+ */
+export function toChecklistVorlageResponse(
+  vorlage: ChecklistVorlage,
+  aufgaben: Pick<ChecklistVorlageAufgabe, "abschnitt" | "nr" | "beschreibung" | "pflichtfelder">[],
+) {
+  const abschnitt = (name: string) =>
+    aufgaben
+      .filter((aufgabe) => aufgabe.abschnitt === name)
+      .sort((a, b) => a.nr - b.nr)
+      .map((aufgabe) => ({ beschreibung: aufgabe.beschreibung, pflichtfelder: aufgabe.pflichtfelder || [] }));
+
+  return {
+    id: vorlage.id,
+    name: vorlage.name,
+    typ: vorlage.typ,
+    version: vorlage.version,
+    beschreibung: vorlage.beschreibung || "",
+    aktiv: vorlage.aktiv,
+    erstellt_am: vorlage.createdAt,
+    aufgaben_gesamt: aufgaben.length,
+    abschnitte: {
+      beginn: abschnitt("beginn"),
+      ende: abschnitt("ende"),
+    },
+  };
+}
+
+/**
+ * Berechnet den nächsten Prüftermin eines Absperrschiebers aus der letzten Prüfung
+ */
+export function getNaechstePruefung(schieber: AbsperrschieberWithStatus): Date | null {
+  if (!schieber.letztePruefung) return null;
+  return new Date(schieber.letztePruefung.geprueftAm.getTime() + schieber.pruefintervallTage * DAY_MS);
+}
+
+/**
+ * Ein aktiver Schieber ist überfällig, wenn er nie oder zuletzt vor mehr als einem Prüfintervall geprüft wurde
+ */
+export function isPruefungUeberfaellig(schieber: AbsperrschieberWithStatus, now: Date = new Date()): boolean {
+  if (!schieber.aktiv) return false;
+  const naechstePruefung = getNaechstePruefung(schieber);
+  return !naechstePruefung || naechstePruefung.getTime() < now.getTime();
+}
+
+/**
+ * Wandelt einen Absperrschieber in das API-Format um; Status und letzte Prüfung stammen aus dem Prüfprotokoll
+ */
+export function toAbsperrschieberResponse(schieber: AbsperrschieberWithStatus, now: Date = new Date()) {
+  const status = schieber.letztePruefung?.funktionsstatus || "ungeprueft";
+
+  return {
+    id: schieber.id,
+    nummer: schieber.nummer,
+    bezeichnung: schieber.bezeichnung,
+    lage: schieber.lage || "",
+    beschreibung: schieber.beschreibung || "",
+    nennweite_dn: schieber.nennweiteDn,
+    koordinaten_lat: schieber.latitude ? parseFloat(schieber.latitude) : null,
+    koordinaten_lng: schieber.longitude ? parseFloat(schieber.longitude) : null,
+    project_id: schieber.projectId,
+    pruefintervall_tage: schieber.pruefintervallTage,
+    aktiv: schieber.aktiv,
+    status,
+    funktionsfaehig: status === "funktionsfähig",
+    letzte_pruefung: schieber.letztePruefung?.geprueftAm || null,
+    naechste_pruefung: getNaechstePruefung(schieber),
+    ueberfaellig: isPruefungUeberfaellig(schieber, now),
+  };
+}
+
+/**
+ * Wandelt einen Eintrag des Prüfprotokolls in das API-Format um
+ */
+export function toSchieberPruefungResponse(pruefung: SchieberPruefung, userNames: Map<string, string>) {
+  return {
+    id: pruefung.id,
+    absperrschieber_id: pruefung.absperrschieberId,
+    geprueft_am: pruefung.geprueftAm,
+    pruefer: pruefung.prueferId ? userNames.get(pruefung.prueferId) || pruefung.prueferId : null,
+    funktionsstatus: pruefung.funktionsstatus,
+    foto_ids: pruefung.fotoIds || [],
+    bemerkung: pruefung.bemerkung || "",
+  };
+}
+
+/**
+ * Liefert den lesbaren Text zu einem Schadensfall-Status
+ */
+export function getSchadensfallStatusText(status: string): string {
+  return SCHADENSFALL_STATUS_TEXT[status] || status;
+}
+
+/**
+ * Prüft einen Statuswechsel gegen den Workflow und gibt bei Verstößen die Fehlermeldung zurück
+ */
+export function getSchadensfallUebergangFehler(
+  schadensfall: { status: string; massnahme: string | null },
+  nachStatus: string,
+): string | null {
+  if (!(SCHADENSFALL_STATUS as readonly string[]).includes(nachStatus)) {
+    return "Ungültiger Status";
+  }
+  if (!(SCHADENSFALL_UEBERGAENGE[schadensfall.status] || []).includes(nachStatus)) {
+    return `Statuswechsel von "${getSchadensfallStatusText(schadensfall.status)}" nach "${getSchadensfallStatusText(nachStatus)}" ist nicht zulässig`;
+  }
+  if (nachStatus === "behoben" && !schadensfall.massnahme?.trim()) {
+    return "Vor dem Abschluss muss die ergriffene Maßnahme dokumentiert werden";
+  }
+  return null;
+}
+
+/**
+ * Wandelt einen Eintrag des Schadensfall-Verlaufs in das API-Format um
+ */
+export function toSchadensfallEreignisResponse(ereignis: SchadensfallEreignis, userNames: Map<string, string>) {
+  return {
+    id: ereignis.id,
+    typ: ereignis.typ,
+    von_status: ereignis.vonStatus,
+    nach_status: ereignis.nachStatus,
+    text: ereignis.text || "",
+    benutzer: ereignis.userId ? userNames.get(ereignis.userId) || ereignis.userId : null,
+    zeitpunkt: ereignis.createdAt,
+  };
+}
+
+/**
+ * Wandelt einen Schadensfall samt optionalem Verlauf in das API-Format um
+ */
+export function toSchadensfallResponse(
+  schadensfall: SchadensfallWithDetails,
+  ereignisse: SchadensfallEreignis[] = [],
+  userNames: Map<string, string> = new Map(),
+) {
+  return {
+    id: schadensfall.id,
+    absperrschieber_id: schadensfall.absperrschieberId,
+    absperrschieber_nummer: schadensfall.absperrschieberNummer,
+    project_id: schadensfall.projectId,
+    checklist_id: schadensfall.checklistId,
+    problem_beschreibung: schadensfall.problemBeschreibung,
+    status: schadensfall.status,
+    status_text: getSchadensfallStatusText(schadensfall.status),
+    prioritaet: schadensfall.prioritaet,
+    gemeldet_am: schadensfall.gemeldetAm,
+    gemeldet_von: schadensfall.gemeldetVonName || schadensfall.gemeldetVon,
+    zugewiesen_an_id: schadensfall.zugewiesenAn,
+    zugewiesen_an: schadensfall.zugewiesenAnName,
+    massnahme: schadensfall.massnahme || "",
+    foto_ids_vorher: schadensfall.fotoIdsVorher || [],
+    foto_ids_nachher: schadensfall.fotoIdsNachher || [],
+    behoben_am: schadensfall.behobenAm,
+    geprueft_am: schadensfall.geprueftAm,
+    verlauf: ereignisse
+      .filter((ereignis) => ereignis.schadensfallId === schadensfall.id)
+      .map((ereignis) => toSchadensfallEreignisResponse(ereignis, userNames)),
+  };
+}
+
+/**
+ * Wandelt ein Foto aus der Fototabelle in das Format der Schadensdokumentation um
+ */
+export function toSchadensfotoResponse(photo: Photo) {
+  return {
+    id: photo.id,
+    file_name: photo.fileName,
+    file_path: photo.filePath,
+    beschreibung: photo.description || "",
+    aufgenommen_am: photo.createdAt,
+  };
+}
+
+interface Schichtzeit {
+  schichtBeginn: Date;
+  schichtEnde: Date;
+}
+
+/**
+ * Formatiert eine Kilometrierung im deutschen Format, z.B. "2,5"
+ */
+export function formatKm(km: string | number): string {
+  const wert = typeof km === "number" ? km : parseFloat(km);
+  return (Number.isInteger(wert) ? wert.toFixed(1) : wert.toString()).replace(".", ",");
+}
+
+/**
+ * Zwei Schichten überschneiden sich, wenn sich ihre Zeiträume echt überlappen (Übergabe zur gleichen Minute ist erlaubt)
+ */
+export function schichtenUeberschneidenSich(a: Schichtzeit, b: Schichtzeit): boolean {
+  return a.schichtBeginn.getTime() < b.schichtEnde.getTime() && b.schichtBeginn.getTime() < a.schichtEnde.getTime();
+}
+
+/**
+ * Findet Personen, die zur gleichen Zeit für mehrere Schichten eingeteilt sind
+ */
+export function findSchichtUeberschneidungen<T extends Schichtzeit & { id: number; personId: number }>(
+  schichten: T[],
+): [T, T][] {
+  const sortiert = [...schichten].sort((a, b) => a.schichtBeginn.getTime() - b.schichtBeginn.getTime());
+  const konflikte: [T, T][] = [];
+
+  sortiert.forEach((schicht, index) => {
+    for (const andere of sortiert.slice(index + 1)) {
+      if (andere.schichtBeginn.getTime() >= schicht.schichtEnde.getTime()) break;
+      if (andere.personId === schicht.personId && schichtenUeberschneidenSich(schicht, andere)) {
+        konflikte.push([schicht, andere]);
+      }
+    }
+  });
+
+  return konflikte;
+}
+
+/**
+ * Ermittelt Zeitfenster innerhalb von [von, bis), in denen ein Abschnitt unter der Mindestbesetzung liegt
+ */
+export function findUnbesetzteZeitfenster(
+  schichten: Schichtzeit[],
+  von: Date,
+  bis: Date,
+  mindestBesetzung = 1,
+): { von: Date; bis: Date; besetzung: number }[] {
+  const start = von.getTime();
+  const ende = bis.getTime();
+  const grenzen = Array.from(
+    new Set([
+      start,
+      ende,
+      ...schichten.flatMap((schicht) => [schicht.schichtBeginn.getTime(), schicht.schichtEnde.getTime()]),
+    ]),
+  )
+    .filter((zeit) => zeit >= start && zeit <= ende)
+    .sort((a, b) => a - b);
+
+  const luecken: { von: Date; bis: Date; besetzung: number }[] = [];
+  for (let i = 0; i < grenzen.length - 1; i++) {
+    const [fensterVon, fensterBis] = [grenzen[i], grenzen[i + 1]];
+    const besetzung = schichten.filter(
+      (schicht) => schicht.schichtBeginn.getTime() <= fensterVon && schicht.schichtEnde.getTime() >= fensterBis,
+    ).length;
+    if (besetzung >= mindestBesetzung) continue;
+
+    const letzte = luecken[luecken.length - 1];
+    if (letzte && letzte.bis.getTime() === fensterVon) {
+      letzte.bis = new Date(fensterBis);
+      letzte.besetzung = Math.min(letzte.besetzung, besetzung);
+    } else {
+      luecken.push({ von: new Date(fensterVon), bis: new Date(fensterBis), besetzung });
+    }
+  }
+
+  return luecken;
+}
+
+/**
+ * Beschriftung eines Deichabschnitts inklusive Kilometrierung, z.B. "Deichabschnitt A (km 0,0 - 2,5)"
+ */
+export function getDeichabschnittBereich(abschnitt: { bezeichnung: string; kmVon: string; kmBis: string }): string {
+  return `${abschnitt.bezeichnung} (km ${formatKm(abschnitt.kmVon)} - ${formatKm(abschnitt.kmBis)})`;
+}
+
+/**
+ * Wandelt einen Deichabschnitt in das API-Format um
+ */
+export function toDeichabschnittResponse(abschnitt: Deichabschnitt) {
+  return {
+    id: abschnitt.id,
+    bezeichnung: abschnitt.bezeichnung,
+    km_von: parseFloat(abschnitt.kmVon),
+    km_bis: parseFloat(abschnitt.kmBis),
+    bereich: getDeichabschnittBereich(abschnitt),
+    beschreibung: abschnitt.beschreibung || "",
+    project_id: abschnitt.projectId,
+    mindest_besetzung: abschnitt.mindestBesetzung,
+    aktiv: abschnitt.aktiv,
+  };
+}
+
+/**
+ * Wandelt eine Deichwachen-Schicht in das API-Format der Hochwasserschutz-Seiten um
+ */
+export function toDeichwacheResponse(wache: DeichwacheWithDetails) {
+  return {
+    id: wache.id,
+    deichabschnitt_id: wache.deichabschnittId,
+    person_id: wache.personId,
+    checklist_id: wache.checklistId,
+    name: wache.personName,
+    telefon: wache.personTelefon || "",
+    email: wache.personEmail || "",
+    bereich: getDeichabschnittBereich({
+      bezeichnung: wache.deichabschnittBezeichnung,
+      kmVon: wache.kmVon,
+      kmBis: wache.kmBis,
+    }),
+    schicht_beginn: wache.schichtBeginn,
+    schicht_ende: wache.schichtEnde,
+    bemerkung: wache.bemerkung || "",
+    erinnerung_gesendet_am: wache.erinnerungGesendetAm,
+  };
+}
+
+type PegelSchwellen = Pick<Pegel, "meldestufe1Cm" | "meldestufe2Cm" | "meldestufe3Cm" | "meldestufe4Cm">;
+
+/**
+ * Schwellen der Meldestufen 1–4 in cm (null = Stufe nicht festgelegt)
+ */
+export function getMeldestufenSchwellen(pegel: Partial<PegelSchwellen>): (number | null)[] {
+  return [pegel.meldestufe1Cm, pegel.meldestufe2Cm, pegel.meldestufe3Cm, pegel.meldestufe4Cm].map((wert) => wert ?? null);
+}
+
+/**
+ * Höchste Meldestufe, deren Schwelle der Wasserstand erreicht (0 = unterhalb aller Stufen)
+ */
+export function getMeldestufe(wasserstandCm: number, pegel: PegelSchwellen): number {
+  let stufe = 0;
+  getMeldestufenSchwellen(pegel).forEach((schwelle, index) => {
+    if (schwelle !== null && wasserstandCm >= schwelle) {
+      stufe = index + 1;
+    }
+  });
+  return stufe;
+}
+
+/**
+ * Prüft, dass festgelegte Meldestufen-Schwellen mit der Stufe ansteigen; liefert sonst eine Fehlermeldung
+ */
+export function getMeldestufenFehler(pegel: Partial<PegelSchwellen>): string | null {
+  let vorherige: { stufe: number; cm: number } | null = null;
+  const schwellen = getMeldestufenSchwellen(pegel);
+  for (let i = 0; i < schwellen.length; i++) {
+    const cm = schwellen[i];
+    if (cm === null) continue;
+    if (vorherige && cm <= vorherige.cm) {
+      return `Meldestufe ${i + 1} muss über Meldestufe ${vorherige.stufe} (${vorherige.cm} cm) liegen`;
+    }
+    vorherige = { stufe: i + 1, cm };
+  }
+  return null;
+}
+
+/**
+ * Wandelt einen Pegel in das API-Format der Hochwasserschutz-Seiten um
+ */
+export function toPegelResponse(pegel: Pegel) {
+  return {
+    id: pegel.id,
+    bezeichnung: pegel.bezeichnung,
+    pegelnummer: pegel.pegelnummer,
+    gewaesser: pegel.gewaesser || "",
+    project_id: pegel.projectId,
+    meldestufen_cm: getMeldestufenSchwellen(pegel),
+    quelle: pegel.quelle,
+    quelle_url: pegel.quelleUrl,
+    abrufintervall_minuten: pegel.abrufintervallMinuten,
+    alarm_empfaenger: pegel.alarmEmpfaenger || [],
+    aktuelle_meldestufe: pegel.aktuelleMeldestufe,
+    wasserstand_cm: pegel.letzterWasserstandCm,
+    gemessen_am: pegel.letzteMessungAm,
+    letzter_abruf_am: pegel.letzterAbrufAm,
+    letzter_abruf_fehler: pegel.letzterAbrufFehler,
+    aktiv: pegel.aktiv,
+  };
+}
+
+export function toPegelMesswertResponse(messwert: PegelMesswert) {
+  return {
+    gemessen_am: messwert.gemessenAm,
+    wasserstand_cm: messwert.wasserstandCm,
+    quelle: messwert.quelle,
+  };
+}
+
+export function toPegelAlarmResponse(alarm: PegelAlarm) {
+  return {
+    id: alarm.id,
+    pegel_id: alarm.pegelId,
+    meldestufe: alarm.meldestufe,
+    vorherige_meldestufe: alarm.vorherigeMeldestufe,
+    wasserstand_cm: alarm.wasserstandCm,
+    gemessen_am: alarm.gemessenAm,
+    checklist_id: alarm.checklistId,
+    benachrichtigt: alarm.benachrichtigt,
+  };
+}
+
+// Vorlaufzeit, ab der eine Wartungsaufgabe als fällig gilt und erinnert wird
+export const WARTUNG_VORLAUF_TAGE = 14;
+
+export type Wartungsstatus = "geplant" | "faellig" | "ueberfaellig" | "erledigt";
+
+/**
+ * Status einer Wartungsaufgabe: überfällig nach dem Fälligkeitstag, fällig innerhalb der Vorlaufzeit
+ */
+export function getWartungsstatus(
+  aufgabe: { status: string; faelligAm: Date },
+  now: Date = new Date(),
+  vorlaufTage: number = WARTUNG_VORLAUF_TAGE,
+): Wartungsstatus {
+  if (aufgabe.status === "erledigt") return "erledigt";
+  if (aufgabe.faelligAm.getTime() < now.getTime()) return "ueberfaellig";
+  if (aufgabe.faelligAm.getTime() <= now.getTime() + vorlaufTage * DAY_MS) return "faellig";
+  return "geplant";
+}
+
+export function toWartungsaufgabeResponse(aufgabe: WartungsaufgabeWithDetails, now: Date = new Date()) {
+  return {
+    id: aufgabe.id,
+    plan_id: aufgabe.planId,
+    anweisung_id: aufgabe.anweisungId,
+    schutzanlage: aufgabe.schutzanlage,
+    bauteil_id: aufgabe.bauteilId,
+    bauteil_nummer: aufgabe.bauteilNummer,
+    bauteil: aufgabe.bauteilStandort,
+    bauteilbeschreibung: aufgabe.bauteilBeschreibung || "",
+    massnahme: aufgabe.massnahme,
+    turnus: aufgabe.turnus || "",
+    anlass: aufgabe.anlass,
+    faellig_am: aufgabe.faelligAm,
+    status: getWartungsstatus(aufgabe, now),
+    erledigt_am: aufgabe.erledigtAm,
+    erledigt_von: aufgabe.erledigtVonName,
+    bemerkung: aufgabe.bemerkung || "",
+    erinnerung_gesendet_am: aufgabe.erinnerungGesendetAm,
+  };
+}
+
+/**
+ * Wandelt eine Wartungsanweisung in das Format der importierten Anweisung um (title, bauteile[].wartung, footer),
+ * ergänzt um die Wartungspläne und die jeweils nächste offene Aufgabe
+ */
+export function toWartungsanweisungResponse(
+  anweisung: Wartungsanweisung,
+  bauteile: Wartungsbauteil[] = [],
+  plaene: Wartungsplan[] = [],
+  offeneAufgaben: WartungsaufgabeWithDetails[] = [],
+  now: Date = new Date(),
+) {
+  return {
+    id: anweisung.id,
+    schutzanlage: anweisung.schutzanlage,
+    title: anweisung.titel,
+    version: anweisung.version || "",
+    project_id: anweisung.projectId,
+    erinnerung_empfaenger: anweisung.erinnerungEmpfaenger || [],
+    bauteile: bauteile.map((bauteil) => {
+      const bauteilPlaene = plaene.filter((plan) => plan.bauteilId === bauteil.id && plan.aktiv);
+      return {
+        id: bauteil.id,
+        nummer: bauteil.nummer,
+        bauteil: bauteil.standort,
+        bauteilbeschreibung: bauteil.beschreibung || "",
+        unterlagen: bauteil.unterlagen || "",
+        wartung: {
+          massnahme: bauteilPlaene.map((plan) => plan.massnahme),
+          turnus: Array.from(new Set(bauteilPlaene.map((plan) => plan.turnus).filter(Boolean))).join(", "),
+          zuständigkeit: bauteil.zustaendigkeit || "",
+        },
+        plaene: bauteilPlaene.map((plan) => {
+          const naechste = offeneAufgaben.find((aufgabe) => aufgabe.planId === plan.id);
+          return {
+            id: plan.id,
+            massnahme: plan.massnahme,
+            turnus: plan.turnus || "",
+            intervall_monate: plan.intervallMonate,
+            monate: plan.monate || [],
+            nach_hochwasser: plan.nachHochwasser,
+            naechste_aufgabe: naechste ? toWartungsaufgabeResponse(naechste, now) : null,
+          };
+        }),
+      };
+    }),
+    sonstige_bauwerke: { ohne_wartung: anweisung.sonstigeBauwerke || [] },
+    footer: {
+      title: anweisung.schutzanlage,
+      anlage: anweisung.anlage || "",
+      aufgestellt: anweisung.aufgestelltVon || "",
+    },
+  };
+}
@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startDeichwacheErinnerungen } from "./deichwacheReminder";
+import { startSftpSync } from "./sftpSync";
+import { startPegelAbruf } from "./pegel";
+import { startWartungsErinnerungen } from "./wartung";
+import { startDefectReminders } from "./defects";
 
 const app = express();
 app.use(express.json());
@@ -66,5 +71,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startDeichwacheErinnerungen();
+    startSftpSync();
+    startPegelAbruf();
+    startWartungsErinnerungen();
+    startDefectReminders();
   });
 })();
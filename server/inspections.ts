@@ -0,0 +1,277 @@
+import { z } from "zod";
+import type { InspectionItem, InspectionTemplate, InsertInspectionTemplateItem } from "@shared/schema";
+
+export const INSPECTION_TYPES = ["sigeko", "excavation", "equipment"] as const;
+
+export type InspectionType = (typeof INSPECTION_TYPES)[number];
+
+export const INSPECTION_TYPE_LABELS: Record<InspectionType, string> = {
+  sigeko: "SiGeKo-Begehung",
+  excavation: "Baugruben-/Grabenabnahme",
+  equipment: "Geräteprüfung",
+};
+
+export const INSPECTION_RESULTS = ["pass", "fail", "na"] as const;
+
+export const INSPECTION_RESULT_LABELS: Record<string, string> = {
+  pass: "i. O.",
+  fail: "n. i. O.",
+  na: "entfällt",
+};
+
+export const PHOTO_REQUIREMENTS = ["none", "always", "on_fail"] as const;
+
+export const SIGNATURE_ROLES = ["inspector", "contractor", "client"] as const;
+
+export const SIGNATURE_ROLE_LABELS: Record<string, string> = {
+  inspector: "Prüfer",
+  contractor: "Auftragnehmer",
+  client: "Bauherr",
+};
+
+// Obergrenze für eine als PNG-Data-URL übermittelte Unterschrift
+const MAX_SIGNATURE_LENGTH = 500_000;
+
+const SIGNATURE_PATTERN = /^data:image\/png;base64,[A-Za-z0-9+/]+={0,2}$/;
+
+export class InspectionError extends Error {}
+
+const templateItemSchema = z.union([
+  z.string().trim().min(1).transform((question) => ({ question, photo: "none" as const })),
+  z.object({
+    question: z.string().trim().min(1),
+    photo: z.enum(PHOTO_REQUIREMENTS).default("none"),
+  }),
+]);
+
+/**
+ * JSON format of an inspection template; items are numbered in order across all sections
+ */
+export const inspectionTemplateSchema = z.object({
+  name: z.string().trim().min(1),
+  type: z.enum(INSPECTION_TYPES).optional(),
+  description: z.string().optional(),
+  requiredSignatures: z.array(z.enum(SIGNATURE_ROLES)).default([]),
+  sections: z.array(z.object({
+    title: z.string().trim().min(1),
+    items: z.array(templateItemSchema).min(1),
+  })).min(1),
+});
+
+export type InspectionTemplateData = z.infer<typeof inspectionTemplateSchema>;
+
+type TemplateDefinition = z.input<typeof inspectionTemplateSchema>;
+
+// Built-in templates, used until a project team maintains its own version
+export const STANDARD_INSPECTION_TEMPLATES: Record<InspectionType, TemplateDefinition> = {
+  sigeko: {
+    name: "SiGeKo-Begehung",
+    requiredSignatures: ["inspector", "contractor"],
+    sections: [
+      {
+        title: "Baustelleneinrichtung",
+        items: [
+          "Baustelle abgesperrt und beschildert",
+          "Verkehrswege frei und ausreichend beleuchtet",
+          "Erste-Hilfe-Einrichtungen und Sanitärräume vorhanden",
+        ],
+      },
+      {
+        title: "Absturzsicherung",
+        items: [
+          { question: "Seitenschutz an Absturzkanten vorhanden", photo: "on_fail" },
+          { question: "Gerüste geprüft und gekennzeichnet", photo: "on_fail" },
+          { question: "Öffnungen in Decken gesichert", photo: "on_fail" },
+        ],
+      },
+      {
+        title: "Persönliche Schutzausrüstung",
+        items: ["Helm, Sicherheitsschuhe und Warnkleidung werden getragen", "Gehör- und Augenschutz bei Bedarf vorhanden"],
+      },
+      {
+        title: "Unterlagen",
+        items: ["SiGe-Plan aktuell und ausgehängt", "Unterweisungen der Beschäftigten dokumentiert"],
+      },
+    ],
+  },
+  excavation: {
+    name: "Baugruben-/Grabenabnahme",
+    requiredSignatures: ["inspector", "contractor"],
+    sections: [
+      {
+        title: "Verbau und Böschung",
+        items: [
+          { question: "Böschungswinkel entsprechend DIN 4124", photo: "always" },
+          { question: "Verbau fachgerecht eingebaut und verkeilt", photo: "on_fail" },
+          { question: "Lastfreier Schutzstreifen von mind. 0,60 m an der Grabenkante", photo: "on_fail" },
+        ],
+      },
+      {
+        title: "Zugang und Sicherung",
+        items: ["Sichere Zugänge (Leitern, Treppen) vorhanden", "Grabenkante abgesperrt bzw. gegen Absturz gesichert"],
+      },
+      {
+        title: "Leitungen und Wasser",
+        items: [
+          { question: "Vorhandene Leitungen erkundet, freigelegt und gesichert", photo: "on_fail" },
+          "Wasserhaltung funktionsfähig",
+        ],
+      },
+      {
+        title: "Sohle",
+        items: [{ question: "Grabensohle tragfähig und frei von Wasser", photo: "always" }],
+      },
+    ],
+  },
+  equipment: {
+    name: "Geräteprüfung",
+    requiredSignatures: ["inspector"],
+    sections: [
+      {
+        title: "Kennzeichnung und Unterlagen",
+        items: [{ question: "Typenschild und gültige Prüfplakette vorhanden", photo: "always" }, "Betriebsanleitung am Gerät"],
+      },
+      {
+        title: "Sicherheitseinrichtungen",
+        items: [
+          { question: "Schutzeinrichtungen vollständig und funktionsfähig", photo: "on_fail" },
+          "Not-Aus funktionsfähig",
+          "Beleuchtung und Warneinrichtungen funktionsfähig",
+        ],
+      },
+      {
+        title: "Zustand",
+        items: [
+          { question: "Keine Leckagen an Hydraulik, Kraftstoff- und Ölsystem", photo: "on_fail" },
+          "Bereifung bzw. Laufwerk in Ordnung",
+          "Anbaugeräte sicher verriegelt",
+        ],
+      },
+    ],
+  },
+};
+
+export function isInspectionType(type: unknown): type is InspectionType {
+  return INSPECTION_TYPES.includes(type as InspectionType);
+}
+
+/**
+ * Flattens the sections of a template into numbered check items
+ */
+export function getTemplateItems(data: InspectionTemplateData): Omit<InsertInspectionTemplateItem, "templateId">[] {
+  let position = 0;
+  return data.sections.flatMap((section) =>
+    section.items.map((item) => ({
+      section: section.title,
+      position: ++position,
+      question: item.question,
+      photoRequirement: item.photo,
+    })),
+  );
+}
+
+export function isPhotoRequired(item: Pick<InspectionItem, "photoRequirement" | "result">): boolean {
+  return item.photoRequirement === "always" || (item.photoRequirement === "on_fail" && item.result === "fail");
+}
+
+export function summarizeInspection(items: Pick<InspectionItem, "result">[]) {
+  return {
+    total: items.length,
+    pass: items.filter((item) => item.result === "pass").length,
+    fail: items.filter((item) => item.result === "fail").length,
+    na: items.filter((item) => item.result === "na").length,
+    open: items.filter((item) => !item.result).length,
+  };
+}
+
+/**
+ * Lists everything that still prevents completing an inspection: open items, missing photos and signatures
+ */
+export function getInspectionProblems(
+  items: Pick<InspectionItem, "position" | "question" | "result" | "photoRequirement" | "photoIds">[],
+  signatures: { role: string }[],
+  requiredSignatures: string[],
+): string[] {
+  const problems: string[] = [];
+
+  const open = items.filter((item) => !item.result);
+  if (open.length > 0) {
+    problems.push(`${open.length} Prüfpunkt(e) noch nicht beantwortet`);
+  }
+  for (const item of items) {
+    if (isPhotoRequired(item) && (item.photoIds || []).length === 0) {
+      problems.push(`Foto fehlt bei Prüfpunkt ${item.position}: ${item.question}`);
+    }
+  }
+  for (const role of requiredSignatures) {
+    if (!signatures.some((signature) => signature.role === role)) {
+      problems.push(`Unterschrift fehlt: ${SIGNATURE_ROLE_LABELS[role] || role}`);
+    }
+  }
+
+  return problems;
+}
+
+export function isSignatureImage(value: unknown): value is string {
+  return typeof value === "string" && value.length <= MAX_SIGNATURE_LENGTH && SIGNATURE_PATTERN.test(value);
+}
+
+export function decodeSignatureImage(dataUrl: string): Buffer {
+  return Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+}
+
+/**
+ * Stores a template as the new active version of its inspection type
+ */
+export async function saveInspectionTemplate(
+  data: InspectionTemplateData,
+  options: { type?: string; createdBy?: string } = {},
+): Promise<InspectionTemplate> {
+  const { storage } = await import("./storage");
+
+  const type = options.type ?? data.type;
+  if (!isInspectionType(type)) {
+    throw new InspectionError(`Unknown inspection type: ${type ?? "none"}`);
+  }
+
+  return await storage.createInspectionTemplate(
+    {
+      type,
+      name: data.name,
+      description: data.description || null,
+      requiredSignatures: data.requiredSignatures,
+      createdBy: options.createdBy,
+    },
+    getTemplateItems(data),
+  );
+}
+
+/**
+ * Resolves the items for a new inspection: chosen template, else the active one of the type, else the built-in template
+ */
+export async function loadInspectionTemplate(
+  type: InspectionType,
+  templateId?: number,
+): Promise<{ template: InspectionTemplate | null; requiredSignatures: string[]; items: Omit<InsertInspectionTemplateItem, "templateId">[] }> {
+  const { storage } = await import("./storage");
+
+  const template = templateId !== undefined
+    ? await storage.getInspectionTemplate(templateId)
+    : await storage.getActiveInspectionTemplate(type);
+
+  if (templateId !== undefined && (!template || template.type !== type)) {
+    throw new InspectionError("Template not found or intended for another inspection type");
+  }
+
+  if (template) {
+    const items = await storage.getInspectionTemplateItems([template.id]);
+    return {
+      template,
+      requiredSignatures: template.requiredSignatures,
+      items: items.map(({ section, position, question, photoRequirement }) => ({ section, position, question, photoRequirement })),
+    };
+  }
+
+  const standard = inspectionTemplateSchema.parse(STANDARD_INSPECTION_TEMPLATES[type]);
+  return { template: null, requiredSignatures: standard.requiredSignatures, items: getTemplateItems(standard) };
+}
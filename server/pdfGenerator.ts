@@ -1,4 +1,104 @@
-// Einfacher PDF-Generator - gibt gut formatiertes HTML zurück das als PDF gespeichert wird
+import type { AcceptanceProtocol, Attachment, AudioRecord, ConstructionDiaryEntryWithAuthor, Customer, DefectWithDetails, InspectionItem, InspectionSignature, InspectionWithDetails, Project, ProjectLocation } from "@shared/schema";
+import { PdfReport, formatDate, getCompanyHeader, type PdfPhoto } from "./pdfReport";
+import {
+  INSPECTION_RESULT_LABELS,
+  INSPECTION_TYPE_LABELS,
+  SIGNATURE_ROLE_LABELS,
+  decodeSignatureImage,
+  summarizeInspection,
+  type InspectionType,
+} from "./inspections";
+import { DIARY_WEATHER_LABELS, summarizeDiaryStaff } from "./constructionDiary";
+import { DEFECT_STATUSES, formatDefectLocation, getDefectStatusLabel, isDefectOverdue, summarizeDefects } from "./defects";
+import { ACCEPTANCE_RESULT_LABELS, ACCEPTANCE_SIGNATURE_LABELS } from "./acceptance";
+
+const PROJEKT_STATUS: Record<string, string> = {
+  planning: "In Planung",
+  active: "Aktiv",
+  completed: "Abgeschlossen",
+  cancelled: "Abgebrochen",
+};
+
+function formatEuro(value: string | number | null | undefined): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  return Number(value).toLocaleString("de-DE", { style: "currency", currency: "EUR" });
+}
+
+function formatFileSize(bytes: number | null | undefined): string | null {
+  if (!bytes) return null;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Projektbericht mit Stammdaten, Standorten, Dokumentliste und Fotodokumentation
+ */
+export async function generateProjectPDF(data: {
+  project: Project;
+  customer?: Customer | null;
+  locations?: ProjectLocation[];
+  attachments?: Attachment[];
+  photos?: PdfPhoto[];
+  exportedBy?: string;
+}): Promise<Buffer> {
+  const { project, customer, locations = [], attachments = [], photos = [], exportedBy } = data;
+
+  const report = new PdfReport({
+    title: `Projekt: ${project.name}`,
+    subtitle: `Projektbericht${exportedBy ? ` · erstellt von ${exportedBy}` : ""}`,
+    author: exportedBy,
+    company: await getCompanyHeader(),
+  });
+
+  report.heading("Projektdaten").keyValues([
+    ["Projekt-ID", project.id],
+    ["Name", project.name],
+    ["Status", PROJEKT_STATUS[project.status] ?? project.status],
+    ["Budget", formatEuro(project.budget) ?? "Nicht festgelegt"],
+    ["Startdatum", project.startDate ? formatDate(project.startDate) : "Nicht festgelegt"],
+    ["Enddatum", project.endDate ? formatDate(project.endDate) : "Nicht festgelegt"],
+    ["Fortschritt", `${project.completionPercentage || 0} %`],
+    ["Adresse", project.address],
+    ["Koordinaten", project.latitude && project.longitude ? `${project.latitude}, ${project.longitude}` : null],
+  ]);
+
+  if (project.description) {
+    report.heading("Beschreibung").paragraph(project.description);
+  }
+
+  if (customer) {
+    report.heading("Kunde").keyValues([
+      ["Name", customer.name],
+      ["Anschrift", [[customer.street, customer.houseNumber].filter(Boolean).join(" "), [customer.postalCode, customer.city].filter(Boolean).join(" ")].filter(Boolean).join(", ")],
+      ["E-Mail", customer.email],
+      ["Telefon", customer.phone],
+    ]);
+  }
+
+  if (locations.length > 0) {
+    report.heading("Standorte").table(
+      [{ header: "Bezeichnung", width: 2 }, { header: "Adresse", width: 3 }, { header: "Breitengrad", width: 1.5 }, { header: "Längengrad", width: 1.5 }],
+      locations.map((location) => [location.name, location.address, location.latitude, location.longitude]),
+    );
+  }
+
+  if (attachments.length > 0) {
+    report.heading("Dokumente").table(
+      [{ header: "Datei", width: 4 }, { header: "Größe", width: 1, align: "right" }, { header: "Hochgeladen", width: 1.5 }],
+      attachments.map((attachment) => [attachment.fileName, formatFileSize(attachment.fileSize), formatDate(attachment.createdAt)]),
+    );
+  }
+
+  if (photos.length > 0) {
+    report.heading(`Fotodokumentation (${photos.length})`).photos(photos);
+  }
+
+  return await report.end();
+}
+
+/**
+ * Bericht zu einer Hochwasserschutz-Checkliste mit Absperrschiebern, Schadensfällen und Deichwachen
+ */
 export async function generateFloodProtectionPDF(data: {
   checklist: any;
   schieber: any[];
@@ -6,307 +106,489 @@ export async function generateFloodProtectionPDF(data: {
   wachen?: any[];
   exportedAt: string;
   exportedBy: string;
+  photos?: PdfPhoto[];
+}): Promise<Buffer> {
+  const { checklist, schieber, schaeden = [], wachen = [], exportedAt, exportedBy, photos = [] } = data;
+
+  const report = new PdfReport({
+    title: "Hochwasserschutz-Checkliste",
+    subtitle: `${checklist.titel} · exportiert am ${exportedAt} von ${exportedBy}`,
+    author: exportedBy,
+    company: await getCompanyHeader(),
+  });
+
+  report.heading("Checkliste").keyValues([
+    ["Titel", checklist.titel],
+    ["Typ", checklist.typ],
+    ["Status", checklist.status],
+    ["Erstellt von", checklist.erstellt_von],
+    ["Erstellt am", checklist.erstellt_am ? formatDate(checklist.erstellt_am) : null],
+    ["Pegelstand", checklist.beginn_pegelstand_cm ? `${checklist.beginn_pegelstand_cm} cm` : null],
+    ["Vorlage", checklist.vorlage_version ? `Version ${checklist.vorlage_version}` : null],
+    ["Fortschritt", `${checklist.aufgaben_erledigt || 0} von ${checklist.aufgaben_gesamt ?? checklist.aufgaben?.length ?? 0} Aufgaben (${checklist.fortschritt || 0} %)`],
+  ]);
+
+  const aufgaben: any[] = checklist.aufgaben || [];
+  for (const [abschnitt, titel] of [["beginn", "Beginn des Betriebes"], ["ende", "Ende des Betriebes"]]) {
+    const abschnittAufgaben = aufgaben.filter((aufgabe) => aufgabe.abschnitt === abschnitt);
+    if (abschnittAufgaben.length === 0) continue;
+    report.heading(titel).table(
+      [
+        { header: "Nr.", width: 0.5, align: "center" },
+        { header: "Aufgabe", width: 3 },
+        { header: "Erledigt", width: 1.6 },
+        { header: "Datum", width: 1 },
+        { header: "Pegel", width: 0.8, align: "right" },
+        { header: "Bemerkung", width: 2 },
+      ],
+      abschnittAufgaben.map((aufgabe) => [
+        aufgabe.nr,
+        aufgabe.beschreibung,
+        aufgabe.erledigt ? [aufgabe.erledigt_am ? formatDate(aufgabe.erledigt_am) : "ja", aufgabe.erledigt_von].filter(Boolean).join(" · ") : "offen",
+        aufgabe.datum ? formatDate(aufgabe.datum) : null,
+        aufgabe.pegelstand_cm != null ? `${aufgabe.pegelstand_cm} cm` : null,
+        [aufgabe.bemerkung, aufgabe.foto_ids?.length ? `${aufgabe.foto_ids.length} Foto(s)` : null].filter(Boolean).join(" · "),
+      ]),
+    );
+  }
+
+  report.heading("Absperrschieber").table(
+    [
+      { header: "Nr.", width: 0.6, align: "center" },
+      { header: "Bezeichnung", width: 3 },
+      { header: "Lage", width: 2 },
+      { header: "Status", width: 2 },
+      { header: "Letzte Prüfung", width: 1.5 },
+    ],
+    schieber.map((s) => [
+      s.nummer,
+      s.bezeichnung,
+      s.lage,
+      s.funktionsfaehig ? "Funktionsfähig" : "Wartung erforderlich",
+      s.letzte_pruefung ? formatDate(s.letzte_pruefung) : "Nicht geprüft",
+    ]),
+  );
+
+  if (schaeden.length > 0) {
+    report.heading("Schadensfälle").table(
+      [
+        { header: "Schieber", width: 0.8, align: "center" },
+        { header: "Problem", width: 3 },
+        { header: "Status", width: 1.3 },
+        { header: "Priorität", width: 1 },
+        { header: "Zuständig", width: 1.5 },
+        { header: "Maßnahme", width: 2.5 },
+      ],
+      schaeden.map((schaden) => [
+        schaden.absperrschieber_nummer,
+        schaden.problem_beschreibung,
+        schaden.status_text || schaden.status,
+        `Stufe ${schaden.prioritaet}`,
+        schaden.zugewiesen_an,
+        schaden.massnahme,
+      ]),
+    );
+
+    for (const schaden of schaeden.filter((s) => s.verlauf?.length > 0)) {
+      report.paragraph(`Verlauf: ${schaden.problem_beschreibung}`, { size: 9 });
+      report.table(
+        [{ header: "Zeitpunkt", width: 1.4 }, { header: "Ereignis", width: 3 }, { header: "Benutzer", width: 1.4 }],
+        schaden.verlauf.map((ereignis: any) => [
+          formatDate(ereignis.zeitpunkt, true),
+          [ereignis.nach_status ? `Status: ${ereignis.nach_status}` : ereignis.typ, ereignis.text].filter(Boolean).join(": "),
+          ereignis.benutzer,
+        ]),
+      );
+    }
+  }
+
+  if (wachen.length > 0) {
+    report.heading("Deichwachen").table(
+      [
+        { header: "Name", width: 2 },
+        { header: "Telefon", width: 1.5 },
+        { header: "Schicht", width: 2.2 },
+        { header: "Bereich", width: 1.5 },
+        { header: "Bemerkung", width: 2 },
+      ],
+      wachen.map((wache) => [
+        wache.name,
+        wache.telefon,
+        `${formatDate(wache.schicht_beginn, true)} bis ${new Date(wache.schicht_ende).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" })}`,
+        wache.bereich,
+        wache.bemerkung,
+      ]),
+    );
+  }
+
+  if (photos.length > 0) {
+    report.heading(`Fotodokumentation Schadensfälle (${photos.length})`).photos(photos);
+  }
+
+  report.paragraph("Diese Checkliste dient der systematischen Überwachung und Wartung von Hochwasserschutzanlagen.", { size: 8, color: "#6b7280" });
+
+  return await report.end();
+}
+
+/**
+ * Prüfprotokoll einer Projektprüfung mit Ergebnis je Prüfpunkt, Fotodokumentation und Unterschriften
+ */
+export async function generateInspectionPDF(data: {
+  inspection: InspectionWithDetails;
+  project: Project;
+  items: InspectionItem[];
+  signatures: InspectionSignature[];
+  photos?: PdfPhoto[];
+  exportedBy?: string;
 }): Promise<Buffer> {
-  const { checklist, schieber, schaeden, wachen, exportedAt, exportedBy } = data;
-
-  // Generiere professionelle HTML-Vorlage, die Browser als PDF drucken können
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <title>Hochwasserschutz-Checkliste</title>
-      <style>
-        body { 
-          font-family: Arial, sans-serif; 
-          margin: 20px; 
-          line-height: 1.4;
-          color: #333;
-        }
-        .header { 
-          border-bottom: 3px solid #1f2937; 
-          padding-bottom: 15px; 
-          margin-bottom: 25px;
-          text-align: center;
-        }
-        .header h1 {
-          color: #1f2937;
-          margin: 0 0 15px 0;
-          font-size: 28px;
-        }
-        .info-grid {
-          display: grid;
-          grid-template-columns: 1fr 1fr;
-          gap: 15px;
-          margin-bottom: 20px;
-        }
-        .info-item {
-          background: #f9fafb;
-          padding: 10px;
-          border-left: 4px solid #3b82f6;
-          border-radius: 4px;
-        }
-        .info-label {
-          font-weight: bold;
-          color: #374151;
-          margin-bottom: 3px;
-        }
-        .section { 
-          margin-bottom: 30px; 
-          page-break-inside: avoid;
-        }
-        .section h2 {
-          color: #1f2937;
-          border-bottom: 2px solid #e5e7eb;
-          padding-bottom: 8px;
-          margin-bottom: 15px;
-          font-size: 20px;
-        }
-        table { 
-          width: 100%; 
-          border-collapse: collapse; 
-          margin-top: 15px;
-          font-size: 12px;
-        }
-        th, td { 
-          border: 1px solid #d1d5db; 
-          padding: 10px 8px; 
-          text-align: left;
-          vertical-align: top;
-        }
-        th { 
-          background-color: #f3f4f6; 
-          font-weight: bold;
-          color: #374151;
-        }
-        .status-ok { color: #16a34a; font-weight: bold; }
-        .status-warning { color: #ea580c; font-weight: bold; }
-        .priority { font-weight: bold; }
-        .priority-1 { color: #dc2626; }
-        .priority-2 { color: #ea580c; }
-        .priority-3 { color: #ca8a04; }
-        .footer {
-          margin-top: 40px;
-          padding-top: 20px;
-          border-top: 1px solid #d1d5db;
-          font-size: 11px;
-          color: #6b7280;
-          text-align: center;
-        }
-        
-        /* Print-optimierte Styles für PDF-Export */
-        @media print {
-          body { margin: 0; }
-          .header, .section { page-break-inside: avoid; }
-          table { page-break-inside: auto; }
-          tr { page-break-inside: avoid; page-break-after: auto; }
-        }
-        
-        /* Automatische Print-Funktionalität */
-        @page { size: A4; margin: 2cm; }
-        
-        /* Button zum manuellen PDF-Export */
-        .print-button {
-          position: fixed;
-          top: 20px;
-          right: 20px;
-          background: #3b82f6;
-          color: white;
-          border: none;
-          padding: 12px 20px;
-          border-radius: 6px;
-          cursor: pointer;
-          font-weight: bold;
-          box-shadow: 0 2px 10px rgba(0,0,0,0.1);
-          z-index: 1000;
-        }
-        
-        @media print {
-          .print-button { display: none; }
-        }
-        .progress-bar {
-          width: 100%;
-          height: 20px;
-          background-color: #e5e7eb;
-          border-radius: 10px;
-          overflow: hidden;
-          margin: 10px 0;
-        }
-        .progress-fill {
-          height: 100%;
-          background-color: #10b981;
-          width: ${checklist.fortschritt || 0}%;
-          transition: width 0.3s ease;
-        }
-      </style>
-      <script>
-        // Automatischer Print-Dialog beim Laden der Seite
-        window.onload = function() {
-          setTimeout(function() {
-            window.print();
-          }, 1000);
+  const { inspection, project, items, signatures, photos = [], exportedBy } = data;
+  const typeLabel = INSPECTION_TYPE_LABELS[inspection.type as InspectionType] || inspection.type;
+  const summary = summarizeInspection(items);
+
+  const report = new PdfReport({
+    title: `Prüfprotokoll ${typeLabel}`,
+    subtitle: `${inspection.title} · ${project.name}`,
+    author: exportedBy,
+    company: await getCompanyHeader(),
+  });
+
+  report.heading("Prüfung").keyValues([
+    ["Projekt", project.name],
+    ["Prüfung", inspection.title],
+    ["Art", typeLabel],
+    ["Ort", inspection.location],
+    ["Geprüft am", formatDate(inspection.inspectedAt, true)],
+    ["Prüfer", inspection.inspectorName],
+    ["Vorlage", inspection.templateVersion ? `Version ${inspection.templateVersion}` : "Standardvorlage"],
+    ["Status", inspection.status === "completed" ? `Abgeschlossen am ${formatDate(inspection.completedAt, true)}` : "Entwurf"],
+    ["Ergebnis", `${summary.pass} i. O., ${summary.fail} n. i. O., ${summary.na} entfällt, ${summary.open} offen`],
+  ]);
+
+  const sections = Array.from(new Set(items.map((item) => item.section)));
+  for (const section of sections) {
+    report.heading(section).table(
+      [
+        { header: "Nr.", width: 0.5, align: "center" },
+        { header: "Prüfpunkt", width: 3.5 },
+        { header: "Ergebnis", width: 1, align: "center" },
+        { header: "Bemerkung", width: 2.5 },
+        { header: "Fotos", width: 0.6, align: "center" },
+      ],
+      items
+        .filter((item) => item.section === section)
+        .map((item) => [
+          item.position,
+          item.question,
+          item.result ? INSPECTION_RESULT_LABELS[item.result] : "offen",
+          item.comment,
+          (item.photoIds || []).length || null,
+        ]),
+    );
+  }
+
+  if (inspection.notes) {
+    report.heading("Bemerkungen").paragraph(inspection.notes);
+  }
+
+  if (photos.length > 0) {
+    report.heading(`Fotodokumentation (${photos.length})`).photos(photos);
+  }
+
+  const roles = Array.from(new Set([...inspection.requiredSignatures, ...signatures.map((signature) => signature.role)]));
+  if (roles.length > 0) {
+    report.heading("Unterschriften").signatures(
+      roles.map((role) => {
+        const signature = signatures.find((s) => s.role === role);
+        return {
+          label: SIGNATURE_ROLE_LABELS[role] || role,
+          name: signature?.name,
+          signedAt: signature?.signedAt,
+          image: signature ? decodeSignatureImage(signature.image) : null,
         };
-        
-        function printDocument() {
-          window.print();
-        }
-      </script>
-    </head>
-    <body>
-      <button class="print-button" onclick="printDocument()">📄 Als PDF speichern</button>
-      <div class="header">
-        <h1>🏗️ Hochwasserschutz-Checkliste</h1>
-        <div style="font-size: 14px; color: #6b7280;">
-          Sachverständigenbüro Justiti • Hochwasservorsorge & -schutz
-        </div>
-      </div>
-
-      <div class="info-grid">
-        <div class="info-item">
-          <div class="info-label">Checklist-Titel</div>
-          <div>${checklist.titel}</div>
-        </div>
-        <div class="info-item">
-          <div class="info-label">Typ</div>
-          <div>${checklist.typ}</div>
-        </div>
-        <div class="info-item">
-          <div class="info-label">Status</div>
-          <div style="text-transform: capitalize; font-weight: bold;">${checklist.status}</div>
-        </div>
-        <div class="info-item">
-          <div class="info-label">Erstellt von</div>
-          <div>${checklist.erstellt_von}</div>
-        </div>
-        <div class="info-item">
-          <div class="info-label">Erstellt am</div>
-          <div>${new Date(checklist.erstellt_am).toLocaleDateString('de-DE', { 
-            year: 'numeric', 
-            month: 'long', 
-            day: 'numeric' 
-          })}</div>
-        </div>
-        ${checklist.beginn_pegelstand_cm ? `
-        <div class="info-item">
-          <div class="info-label">Pegelstand</div>
-          <div>${checklist.beginn_pegelstand_cm} cm</div>
-        </div>
-        ` : ''}
-      </div>
-
-      <div class="section">
-        <h2>📊 Fortschritt</h2>
-        <div style="margin: 15px 0;">
-          <div style="display: flex; justify-content: space-between; margin-bottom: 8px;">
-            <span><strong>Aufgaben erledigt:</strong> ${checklist.aufgaben_erledigt || 0} von ${checklist.aufgaben_gesamt || 11}</span>
-            <span><strong>${checklist.fortschritt || 0}% abgeschlossen</strong></span>
-          </div>
-          <div class="progress-bar">
-            <div class="progress-fill"></div>
-          </div>
-        </div>
-      </div>
-
-      <div class="section">
-        <h2>🔧 Absperrschieber-Status</h2>
-        <table>
-          <thead>
-            <tr>
-              <th>Nr.</th>
-              <th>Bezeichnung</th>
-              <th>Lage</th>
-              <th>Status</th>
-              <th>Letzte Prüfung</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${schieber.map(s => `
-              <tr>
-                <td><strong>${s.nummer}</strong></td>
-                <td>${s.bezeichnung}</td>
-                <td>${s.lage}</td>
-                <td class="${s.funktionsfaehig ? 'status-ok' : 'status-warning'}">
-                  ${s.funktionsfaehig ? '✓ Funktionsfähig' : '⚠ Wartung erforderlich'}
-                </td>
-                <td>${new Date(s.letzte_pruefung).toLocaleDateString('de-DE')}</td>
-              </tr>
-            `).join('')}
-          </tbody>
-        </table>
-      </div>
-
-      ${schaeden && schaeden.length > 0 ? `
-      <div class="section">
-        <h2>🚨 Schadensfälle</h2>
-        <table>
-          <thead>
-            <tr>
-              <th>Schieber Nr.</th>
-              <th>Problem</th>
-              <th>Status</th>
-              <th>Priorität</th>
-              <th>Gemeldet von</th>
-              <th>Maßnahme</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${schaeden.map(schaden => `
-              <tr>
-                <td><strong>${schaden.absperrschieber_nummer}</strong></td>
-                <td>${schaden.problem_beschreibung}</td>
-                <td style="text-transform: capitalize;">${schaden.status}</td>
-                <td class="priority priority-${schaden.prioritaet}">Stufe ${schaden.prioritaet}</td>
-                <td>${schaden.gemeldet_von}</td>
-                <td>${schaden.massnahme}</td>
-              </tr>
-            `).join('')}
-          </tbody>
-        </table>
-      </div>
-      ` : ''}
-
-      ${wachen && wachen.length > 0 ? `
-      <div class="section">
-        <h2>👥 Deichwachen</h2>
-        <table>
-          <thead>
-            <tr>
-              <th>Name</th>
-              <th>Telefon</th>
-              <th>Schicht</th>
-              <th>Bereich</th>
-              <th>Bemerkung</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${wachen.map(wache => `
-              <tr>
-                <td><strong>${wache.name}</strong></td>
-                <td>${wache.telefon}</td>
-                <td>
-                  ${new Date(wache.schicht_beginn).toLocaleDateString('de-DE')} ${new Date(wache.schicht_beginn).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}
-                  <br>
-                  bis ${new Date(wache.schicht_ende).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}
-                </td>
-                <td>${wache.bereich}</td>
-                <td>${wache.bemerkung || '-'}</td>
-              </tr>
-            `).join('')}
-          </tbody>
-        </table>
-      </div>
-      ` : ''}
-
-      <div class="footer">
-        <p><strong>Exportiert am:</strong> ${exportedAt} <strong>von:</strong> ${exportedBy}</p>
-        <p>Bau-Structura Hochwasserschutz-Management System • Sachverständigenbüro Justiti</p>
-        <p>Diese Checkliste dient der systematischen Überwachung und Wartung von Hochwasserschutzanlagen.</p>
-      </div>
-    </body>
-    </html>
-  `;
-
-  // Erstelle eine druckoptimierte HTML-Datei, die Browser als PDF speichern können
-  // Diese Lösung funktioniert ohne externe Browser-Dependencies
-  return Buffer.from(htmlContent, 'utf-8');
-}
\ No newline at end of file
+      }),
+    );
+  }
+
+  return await report.end();
+}
+
+/**
+ * Bautagebuch nach VOB: je Tagesbericht eine Seite mit Wetter, Personal, Geräten, Leistungen,
+ * Behinderungen, Anordnungen, Sprachnotizen, Fotos und Abzeichnung durch den Bauleiter
+ */
+export async function generateConstructionDiaryPDF(data: {
+  project: Project;
+  entries: Array<{ entry: ConstructionDiaryEntryWithAuthor; photos?: PdfPhoto[]; audioRecords?: AudioRecord[] }>;
+  exportedBy?: string;
+}): Promise<Buffer> {
+  const { project, entries, exportedBy } = data;
+  const dates = entries.map(({ entry }) => entry.entryDate).sort();
+  const formatDay = (entryDate: string) =>
+    new Date(`${entryDate}T00:00:00`).toLocaleDateString("de-DE", { weekday: "long", day: "2-digit", month: "2-digit", year: "numeric" });
+
+  const report = new PdfReport({
+    title: `Bautagebuch ${project.name}`,
+    subtitle: dates.length > 1
+      ? `Tagesberichte vom ${formatDate(`${dates[0]}T00:00:00`)} bis ${formatDate(`${dates[dates.length - 1]}T00:00:00`)}`
+      : dates.length === 1 ? `Tagesbericht vom ${formatDay(dates[0])}` : "Keine Tagesberichte im gewählten Zeitraum",
+    author: exportedBy,
+    company: await getCompanyHeader(),
+  });
+
+  entries.forEach(({ entry, photos = [], audioRecords = [] }, index) => {
+    if (index > 0) report.pageBreak();
+
+    const temperature = [entry.temperatureMin, entry.temperatureMax].filter((value) => value !== null).map((value) => `${value} °C`).join(" bis ");
+    report.heading(`Tagesbericht Nr. ${entry.reportNumber}`).keyValues([
+      ["Projekt", project.name],
+      ["Datum", formatDay(entry.entryDate)],
+      ["Wetter", [entry.weather ? DIARY_WEATHER_LABELS[entry.weather] ?? entry.weather : null, temperature].filter(Boolean).join(", ") || null],
+      ["Witterung", entry.weatherNotes],
+      ["Verfasser", entry.authorName],
+      ["Status", entry.status === "signed" ? `Abgezeichnet am ${formatDate(entry.signedAt, true)}` : "Entwurf (nicht abgezeichnet)"],
+    ]);
+
+    const staff = summarizeDiaryStaff(entry.staff);
+    report.heading("Personal").table(
+      [{ header: "Firma", width: 3 }, { header: "Gewerk", width: 2 }, { header: "Anzahl", width: 1, align: "right" }, { header: "Stunden je AK", width: 1.2, align: "right" }],
+      [
+        ...entry.staff.map((row) => [row.company, row.trade, row.count, row.hours]),
+        ["Gesamt", null, staff.workers, staff.hours ? `${staff.hours} Std. gesamt` : null],
+      ],
+    );
+
+    if (entry.equipment.length > 0) {
+      report.heading("Geräte").table(
+        [{ header: "Gerät", width: 4 }, { header: "Anzahl", width: 1, align: "right" }, { header: "Einsatzstunden", width: 1.2, align: "right" }],
+        entry.equipment.map((row) => [row.name, row.count, row.hours]),
+      );
+    }
+
+    // Leere Angaben werden ausdrücklich als "Keine" dokumentiert
+    report.heading("Leistungen und Vorkommnisse").table(
+      [{ header: "Angabe", width: 2 }, { header: "Beschreibung", width: 5 }],
+      [
+        ["Ausgeführte Arbeiten", entry.workPerformed],
+        ["Materiallieferungen", entry.deliveries],
+        ["Behinderungen / Unterbrechungen", entry.hindrances],
+        ["Anordnungen des Auftraggebers", entry.instructions],
+        ["Besondere Vorkommnisse", entry.incidents],
+      ].map(([label, text]) => [label, text?.trim() || "Keine"]),
+    );
+
+    if (audioRecords.length > 0) {
+      report.heading("Sprachnotizen").table(
+        [{ header: "Uhrzeit", width: 1 }, { header: "Beschreibung", width: 2 }, { header: "Transkription", width: 5 }],
+        audioRecords.map((record) => [
+          record.createdAt ? new Date(record.createdAt).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" }) : null,
+          record.description || record.fileName,
+          record.transcription,
+        ]),
+      );
+    }
+
+    if (photos.length > 0) {
+      report.heading(`Fotodokumentation (${photos.length})`).photos(photos);
+    }
+
+    report.heading("Abzeichnung").signatures([
+      {
+        label: "Bauleiter",
+        name: entry.signerName,
+        signedAt: entry.signedAt,
+        image: entry.signature ? decodeSignatureImage(entry.signature) : null,
+      },
+      { label: "Auftraggeber / Bauüberwachung" },
+    ]);
+  });
+
+  return await report.end();
+}
+
+export async function generateDefectListPDF(data: {
+  project: Project;
+  defects: DefectWithDetails[];
+  // Bildpläne, auf denen Mängel markiert sind
+  plans?: Array<{ attachmentId: number; fileName: string; mimeType: string | null; data: Buffer }>;
+  photos?: PdfPhoto[];
+  exportedBy?: string;
+  now?: Date;
+}): Promise<Buffer> {
+  const { project, defects, plans = [], photos = [], exportedBy, now = new Date() } = data;
+  const summary = summarizeDefects(defects, now);
+
+  const report = new PdfReport({
+    title: `Mängelliste ${project.name}`,
+    subtitle: `Stand ${formatDate(now)}`,
+    author: exportedBy,
+    company: await getCompanyHeader(),
+  });
+
+  report.keyValues([
+    ["Projekt", project.name],
+    ["Mängel", summary.total],
+    ["Status", DEFECT_STATUSES.map((status) => `${getDefectStatusLabel(status)}: ${summary.byStatus[status]}`).join(" · ")],
+    ["Frist überschritten", summary.overdue],
+  ]);
+
+  if (defects.length === 0) {
+    report.paragraph("Keine Mängel erfasst.");
+  } else {
+    report.heading("Mängel").table(
+      [
+        { header: "Nr.", width: 0.6, align: "right" },
+        { header: "Mangel", width: 4 },
+        { header: "Verantwortlich", width: 2 },
+        { header: "Frist", width: 1.4 },
+        { header: "Status", width: 1.4 },
+        { header: "Ort", width: 2.4 },
+      ],
+      defects.map((defect) => [
+        defect.number,
+        [defect.title, defect.description].filter(Boolean).join("\n"),
+        defect.companyName,
+        defect.deadline ? `${formatDate(`${defect.deadline}T00:00:00`)}${isDefectOverdue(defect, now) ? " (überschritten)" : ""}` : null,
+        defect.status === "accepted" && defect.acceptedAt ? `Abgenommen am ${formatDate(defect.acceptedAt)}` : getDefectStatusLabel(defect.status),
+        formatDefectLocation(defect),
+      ]),
+    );
+  }
+
+  for (const plan of plans) {
+    const pins = defects
+      .filter((defect) => defect.planAttachmentId === plan.attachmentId && defect.pinX !== null && defect.pinY !== null)
+      .map((defect) => ({ x: Number(defect.pinX), y: Number(defect.pinY), label: String(defect.number) }));
+    if (pins.length === 0) continue;
+    // PDF-Pläne lassen sich nicht als Bild einbetten; die markierten Mängel werden dann aufgelistet
+    if (plan.mimeType === "application/pdf") {
+      report.heading(`Plan: ${plan.fileName}`).paragraph(`PDF-Plan mit markierten Mängeln Nr. ${pins.map((pin) => pin.label).join(", ")}`);
+      continue;
+    }
+    report.heading(`Plan: ${plan.fileName}`).planWithPins(plan.data, pins);
+  }
+
+  if (photos.length > 0) {
+    report.heading(`Fotodokumentation (${photos.length})`).photos(photos);
+  }
+
+  return await report.end();
+}
+
+export async function generateAcceptancePDF(data: {
+  project: Project;
+  customer?: Customer | null;
+  protocol: AcceptanceProtocol;
+  exportedBy?: string;
+  createdAt?: Date;
+}): Promise<Buffer> {
+  const { project, customer, protocol, exportedBy, createdAt } = data;
+  const { snapshot } = protocol;
+  const acceptanceDate = formatDate(`${protocol.acceptanceDate}T00:00:00`);
+
+  const report = new PdfReport({
+    title: `Abnahmeprotokoll ${project.name}`,
+    subtitle: protocol.status === "signed"
+      ? `Protokoll Nr. ${protocol.id} · Abnahme am ${acceptanceDate}`
+      : `ENTWURF – nicht unterzeichnet · Abnahmetermin ${acceptanceDate}`,
+    author: exportedBy,
+    company: await getCompanyHeader(),
+    createdAt,
+  });
+
+  report.keyValues([
+    ["Projekt", project.name],
+    ["Baustelle", project.address],
+    ["Auftraggeber", customer?.name],
+    ["Abnahmetermin", acceptanceDate],
+    ["Teilnehmer", protocol.participants],
+    ["Ergebnis", ACCEPTANCE_RESULT_LABELS[protocol.result] ?? protocol.result],
+    ["Datenstand", formatDate(snapshot.createdAt, true)],
+  ]);
+
+  report.heading(protocol.result === "refused" ? "Festgestellte Mängel" : "Vorbehaltene Mängel");
+  if (snapshot.defects.length === 0) {
+    report.paragraph("Zum Zeitpunkt der Abnahme sind keine offenen Mängel erfasst.");
+  } else {
+    report.table(
+      [
+        { header: "Nr.", width: 0.6, align: "right" },
+        { header: "Mangel", width: 4 },
+        { header: "Verantwortlich", width: 2 },
+        { header: "Frist", width: 1.3 },
+        { header: "Status", width: 1.4 },
+        { header: "Ort", width: 2.4 },
+      ],
+      snapshot.defects.map((defect) => [
+        defect.number,
+        [defect.title, defect.description].filter(Boolean).join("\n"),
+        defect.companyName,
+        defect.deadline ? formatDate(`${defect.deadline}T00:00:00`) : null,
+        getDefectStatusLabel(defect.status),
+        defect.location,
+      ]),
+    );
+  }
+
+  report.heading("Prüfungen");
+  if (snapshot.inspections.length === 0) {
+    report.paragraph("Für das Projekt sind keine Prüfungen dokumentiert.");
+  } else {
+    report.table(
+      [
+        { header: "Prüfung", width: 4 },
+        { header: "Datum", width: 1.3 },
+        { header: "Status", width: 1.4 },
+        { header: "i.O.", width: 0.8, align: "right" },
+        { header: "n.i.O.", width: 0.8, align: "right" },
+        { header: "entfällt", width: 0.9, align: "right" },
+        { header: "offen", width: 0.8, align: "right" },
+      ],
+      snapshot.inspections.map((inspection) => [
+        `${INSPECTION_TYPE_LABELS[inspection.type as InspectionType] ?? inspection.type}: ${inspection.title}`,
+        formatDate(inspection.inspectedAt),
+        inspection.status === "completed" ? "Abgeschlossen" : "In Bearbeitung",
+        inspection.pass,
+        inspection.fail,
+        inspection.na,
+        inspection.open,
+      ]),
+    );
+
+    const failed = snapshot.inspections.flatMap((inspection) => inspection.failedItems.map((item) => [inspection.title, item.question, item.comment]));
+    if (failed.length > 0) {
+      report.heading("Nicht in Ordnung befundene Prüfpunkte").table(
+        [{ header: "Prüfung", width: 2 }, { header: "Prüfpunkt", width: 4 }, { header: "Bemerkung", width: 3 }],
+        failed,
+      );
+    }
+  }
+
+  if (protocol.remarks?.trim()) {
+    report.heading("Bemerkungen").paragraph(protocol.remarks.trim());
+  }
+
+  report.heading("Unterschriften").signatures([
+    {
+      label: ACCEPTANCE_SIGNATURE_LABELS.customer,
+      name: protocol.customerName,
+      signedAt: protocol.customerSignedAt,
+      image: protocol.customerSignature ? decodeSignatureImage(protocol.customerSignature) : null,
+    },
+    {
+      label: ACCEPTANCE_SIGNATURE_LABELS.contractor,
+      name: protocol.contractorName,
+      signedAt: protocol.contractorSignedAt,
+      image: protocol.contractorSignature ? decodeSignatureImage(protocol.contractorSignature) : null,
+    },
+  ]);
+
+  if (protocol.status === "signed") {
+    report.paragraph(
+      "Dieses Protokoll wurde nach der Unterzeichnung unveränderlich abgelegt. Die SHA-256-Prüfsumme der Datei ist in Bau-Structura hinterlegt; " +
+        "jede nachträgliche Änderung des Dokuments lässt sich durch Vergleich der Prüfsumme feststellen.",
+      { size: 8, color: "#6b7280" },
+    );
+  }
+
+  return await report.end();
+}
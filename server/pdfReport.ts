@@ -0,0 +1,452 @@
+import { readFile } from "fs/promises";
+import PDFDocument from "pdfkit";
+
+/**
+ * Gemeinsames Layout aller PDF-Berichte (Projekt, Hochwasserschutz, Protokolle):
+ * Firmenkopf auf jeder Seite, Abschnitte, Tabellen, Fotos und Seitenzahlen.
+ * Reines JavaScript (pdfkit), kein Headless-Browser nötig.
+ */
+
+export interface CompanyHeader {
+  name: string;
+  addressLines: string[];
+  contact: string | null;
+  logo: Buffer | null;
+}
+
+export interface PdfReportOptions {
+  title: string;
+  subtitle?: string;
+  author?: string;
+  company?: CompanyHeader;
+  createdAt?: Date;
+}
+
+export interface PdfTableColumn {
+  header: string;
+  // Relative Breite; die Spalten teilen sich die Seitenbreite im Verhältnis
+  width?: number;
+  align?: "left" | "center" | "right";
+}
+
+export interface PdfPhoto {
+  data: Buffer;
+  caption?: string;
+}
+
+export interface PdfPlanPin {
+  // Position relativ zur Planbreite bzw. -höhe (0-1)
+  x: number;
+  y: number;
+  label: string;
+}
+
+export interface PdfSignature {
+  // Rolle unter der Linie, z.B. "Prüfer" oder "Auftragnehmer"
+  label: string;
+  name?: string | null;
+  signedAt?: Date | string | null;
+  image?: Buffer | null;
+}
+
+const FARBEN = {
+  text: "#1f2937",
+  grau: "#6b7280",
+  linie: "#d1d5db",
+  tabellenkopf: "#f3f4f6",
+  zebra: "#f9fafb",
+  akzent: "#2563eb",
+  markierung: "#dc2626",
+};
+
+const SEITENRAND = { top: 95, bottom: 60, left: 50, right: 50 };
+
+// Die PDF-Standardschriften kennen nur WinAnsi; alles andere wird ersetzt statt verstümmelt
+const WIN_ANSI_EXTRA = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+const ERSATZZEICHEN: Record<string, string> = { "✓": "OK", "✔": "OK", "✗": "X", "⚠": "!", "→": "->", "≥": ">=", "≤": "<=" };
+
+export function toWinAnsi(text: string): string {
+  return Array.from(text.normalize("NFC"))
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (char === "\n" || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRA.includes(char)) {
+        return char;
+      }
+      return ERSATZZEICHEN[char] ?? (/\s/.test(char) ? " " : "");
+    })
+    .join("");
+}
+
+export function formatDate(value: string | Date | null | undefined, withTime = false): string {
+  if (!value) return "–";
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "–";
+  return withTime
+    ? `${date.toLocaleDateString("de-DE")} ${date.toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" })}`
+    : date.toLocaleDateString("de-DE");
+}
+
+/**
+ * Firmenkopf aus PDF_COMPANY_NAME, PDF_COMPANY_ADDRESS (Zeilen durch "|" getrennt), PDF_COMPANY_CONTACT und PDF_COMPANY_LOGO (PNG/JPEG)
+ */
+export async function getCompanyHeader(): Promise<CompanyHeader> {
+  let logo: Buffer | null = null;
+  if (process.env.PDF_COMPANY_LOGO) {
+    try {
+      logo = await readFile(process.env.PDF_COMPANY_LOGO);
+    } catch (error) {
+      console.error("PDF-Logo konnte nicht gelesen werden:", error);
+    }
+  }
+
+  return {
+    name: process.env.PDF_COMPANY_NAME || "Sachverständigenbüro Justiti",
+    addressLines: (process.env.PDF_COMPANY_ADDRESS || "").split("|").map((line) => line.trim()).filter(Boolean),
+    contact: process.env.PDF_COMPANY_CONTACT || null,
+    logo,
+  };
+}
+
+export class PdfReport {
+  private doc: PDFKit.PDFDocument;
+  private chunks: Buffer[] = [];
+  private finished: Promise<Buffer>;
+  private company: CompanyHeader;
+  private createdAt: Date;
+
+  constructor(private options: PdfReportOptions) {
+    this.company = options.company ?? { name: "Sachverständigenbüro Justiti", addressLines: [], contact: null, logo: null };
+    this.createdAt = options.createdAt ?? new Date();
+    this.doc = new PDFDocument({
+      size: "A4",
+      margins: SEITENRAND,
+      bufferPages: true,
+      info: {
+        Title: toWinAnsi(options.title),
+        Author: toWinAnsi(options.author || this.company.name),
+        Creator: "Bau-Structura",
+        CreationDate: this.createdAt,
+      },
+    });
+    this.finished = new Promise((resolve, reject) => {
+      this.doc.on("data", (chunk: Buffer) => this.chunks.push(chunk));
+      this.doc.on("end", () => resolve(Buffer.concat(this.chunks)));
+      this.doc.on("error", reject);
+    });
+
+    this.doc.on("pageAdded", () => this.drawPageHeader());
+    this.drawPageHeader();
+    this.drawTitle();
+  }
+
+  get contentWidth(): number {
+    return this.doc.page.width - SEITENRAND.left - SEITENRAND.right;
+  }
+
+  private get bottom(): number {
+    return this.doc.page.height - SEITENRAND.bottom;
+  }
+
+  private drawPageHeader() {
+    const { doc, company } = this;
+    const top = 30;
+    let textLeft = SEITENRAND.left;
+
+    if (company.logo) {
+      try {
+        doc.image(company.logo, SEITENRAND.left, top, { fit: [90, 40] });
+        textLeft += 100;
+      } catch (error) {
+        console.error("PDF-Logo konnte nicht eingebettet werden:", error);
+      }
+    }
+
+    doc.font("Helvetica-Bold").fontSize(11).fillColor(FARBEN.text)
+      .text(toWinAnsi(company.name), textLeft, top, { lineBreak: false });
+    const details = [...company.addressLines, company.contact].filter(Boolean).join(" · ");
+    if (details) {
+      doc.font("Helvetica").fontSize(8).fillColor(FARBEN.grau)
+        .text(toWinAnsi(details), textLeft, top + 15, { width: this.contentWidth - (textLeft - SEITENRAND.left) - 150, lineBreak: false, ellipsis: true });
+    }
+    doc.font("Helvetica").fontSize(8).fillColor(FARBEN.grau)
+      .text(toWinAnsi(this.options.title), doc.page.width - SEITENRAND.right - 150, top + 2, { width: 150, align: "right", lineBreak: false, ellipsis: true });
+
+    doc.moveTo(SEITENRAND.left, 75).lineTo(doc.page.width - SEITENRAND.right, 75)
+      .lineWidth(1.5).strokeColor(FARBEN.akzent).stroke();
+
+    doc.x = SEITENRAND.left;
+    doc.y = SEITENRAND.top;
+    doc.fillColor(FARBEN.text);
+  }
+
+  private drawTitle() {
+    this.doc.font("Helvetica-Bold").fontSize(18).fillColor(FARBEN.text)
+      .text(toWinAnsi(this.options.title), { width: this.contentWidth });
+    if (this.options.subtitle) {
+      this.doc.font("Helvetica").fontSize(10).fillColor(FARBEN.grau)
+        .text(toWinAnsi(this.options.subtitle), { width: this.contentWidth });
+    }
+    this.doc.moveDown(0.8);
+  }
+
+  /**
+   * Beginnt eine neue Seite, wenn weniger als height Punkte Platz sind
+   */
+  ensureSpace(height: number) {
+    if (this.doc.y + height > this.bottom) {
+      this.doc.addPage();
+    }
+  }
+
+  /**
+   * Erzwingt eine neue Seite, z.B. für jeden Tagesbericht eines Bautagebuchs
+   */
+  pageBreak() {
+    this.doc.addPage();
+    return this;
+  }
+
+  heading(text: string) {
+    this.ensureSpace(50);
+    this.doc.moveDown(0.5);
+    this.doc.font("Helvetica-Bold").fontSize(13).fillColor(FARBEN.text)
+      .text(toWinAnsi(text), SEITENRAND.left, this.doc.y, { width: this.contentWidth });
+    const y = this.doc.y + 2;
+    this.doc.moveTo(SEITENRAND.left, y).lineTo(SEITENRAND.left + this.contentWidth, y)
+      .lineWidth(0.5).strokeColor(FARBEN.linie).stroke();
+    this.doc.y = y + 8;
+    return this;
+  }
+
+  paragraph(text: string, options: { color?: string; size?: number } = {}) {
+    this.doc.font("Helvetica").fontSize(options.size ?? 10).fillColor(options.color ?? FARBEN.text)
+      .text(toWinAnsi(text), SEITENRAND.left, this.doc.y, { width: this.contentWidth });
+    this.doc.moveDown(0.5);
+    return this;
+  }
+
+  /**
+   * Zweispaltige Liste "Bezeichnung: Wert"; leere Werte werden ausgelassen
+   */
+  keyValues(rows: Array<[string, string | number | null | undefined]>) {
+    const labelWidth = 140;
+    const valueWidth = this.contentWidth - labelWidth;
+
+    for (const [label, value] of rows) {
+      if (value === null || value === undefined || value === "") continue;
+      const valueText = toWinAnsi(String(value));
+      this.doc.font("Helvetica").fontSize(10);
+      const height = Math.max(this.doc.heightOfString(valueText, { width: valueWidth }), 12);
+      this.ensureSpace(height + 4);
+
+      const y = this.doc.y;
+      this.doc.font("Helvetica-Bold").fillColor(FARBEN.grau)
+        .text(toWinAnsi(label), SEITENRAND.left, y, { width: labelWidth - 10 });
+      this.doc.font("Helvetica").fillColor(FARBEN.text)
+        .text(valueText, SEITENRAND.left + labelWidth, y, { width: valueWidth });
+      this.doc.y = y + height + 4;
+    }
+    this.doc.x = SEITENRAND.left;
+    this.doc.moveDown(0.5);
+    return this;
+  }
+
+  /**
+   * Tabelle mit Rahmen; der Tabellenkopf wird nach jedem Seitenumbruch wiederholt
+   */
+  table(columns: PdfTableColumn[], rows: Array<Array<string | number | null | undefined>>) {
+    const padding = 4;
+    const totalWeight = columns.reduce((sum, column) => sum + (column.width ?? 1), 0);
+    const widths = columns.map((column) => (this.contentWidth * (column.width ?? 1)) / totalWeight);
+
+    const rowHeight = (cells: string[], font: string) => {
+      this.doc.font(font).fontSize(9);
+      return Math.max(...cells.map((cell, i) => this.doc.heightOfString(cell, { width: widths[i] - 2 * padding }))) + 2 * padding;
+    };
+
+    const drawRow = (cells: string[], font: string, fill: string | null) => {
+      const height = rowHeight(cells, font);
+      const y = this.doc.y;
+      let x = SEITENRAND.left;
+      cells.forEach((cell, i) => {
+        if (fill) {
+          this.doc.rect(x, y, widths[i], height).fill(fill);
+        }
+        this.doc.rect(x, y, widths[i], height).lineWidth(0.5).strokeColor(FARBEN.linie).stroke();
+        this.doc.font(font).fontSize(9).fillColor(FARBEN.text)
+          .text(cell, x + padding, y + padding, { width: widths[i] - 2 * padding, align: columns[i].align ?? "left" });
+        x += widths[i];
+      });
+      this.doc.x = SEITENRAND.left;
+      this.doc.y = y + height;
+    };
+
+    const header = columns.map((column) => toWinAnsi(column.header));
+    this.ensureSpace(rowHeight(header, "Helvetica-Bold") * 2);
+    drawRow(header, "Helvetica-Bold", FARBEN.tabellenkopf);
+
+    rows.forEach((row, index) => {
+      const cells = columns.map((_, i) => toWinAnsi(row[i] === null || row[i] === undefined || row[i] === "" ? "–" : String(row[i])));
+      if (this.doc.y + rowHeight(cells, "Helvetica") > this.bottom) {
+        this.doc.addPage();
+        drawRow(header, "Helvetica-Bold", FARBEN.tabellenkopf);
+      }
+      drawRow(cells, "Helvetica", index % 2 === 1 ? FARBEN.zebra : null);
+    });
+
+    this.doc.moveDown(0.8);
+    return this;
+  }
+
+  /**
+   * Fotos im Raster (Standard: zwei pro Zeile) mit Bildunterschrift; nicht lesbare Bilder werden übersprungen
+   */
+  photos(photos: PdfPhoto[], columnCount = 2) {
+    const gap = 12;
+    const width = (this.contentWidth - gap * (columnCount - 1)) / columnCount;
+    const imageHeight = width * 0.75;
+    const cellHeight = imageHeight + 30;
+    let column = 0;
+    let rowTop = this.doc.y;
+
+    for (const photo of photos) {
+      if (column === 0) {
+        this.ensureSpace(cellHeight);
+        rowTop = this.doc.y;
+      }
+      const x = SEITENRAND.left + column * (width + gap);
+
+      try {
+        this.doc.image(photo.data, x, rowTop, { fit: [width, imageHeight], align: "center", valign: "center" });
+      } catch (error) {
+        console.error("Foto konnte nicht in das PDF eingebettet werden:", error);
+        continue;
+      }
+      this.doc.rect(x, rowTop, width, imageHeight).lineWidth(0.5).strokeColor(FARBEN.linie).stroke();
+      if (photo.caption) {
+        this.doc.font("Helvetica").fontSize(8).fillColor(FARBEN.grau)
+          .text(toWinAnsi(photo.caption), x, rowTop + imageHeight + 4, { width, height: 24, ellipsis: true });
+      }
+
+      column = (column + 1) % columnCount;
+      if (column === 0) {
+        this.doc.y = rowTop + cellHeight;
+      }
+    }
+
+    if (column !== 0) {
+      this.doc.y = rowTop + cellHeight;
+    }
+    this.doc.x = SEITENRAND.left;
+    this.doc.moveDown(0.5);
+    return this;
+  }
+
+  /**
+   * Plan (Bild) in voller Breite mit nummerierten Markierungen; ein nicht lesbarer Plan wird übersprungen
+   */
+  planWithPins(image: Buffer, pins: PdfPlanPin[], maxHeight = 480) {
+    // openImage fehlt in den Typdefinitionen von pdfkit, liefert aber die Bildgröße für die Lage der Markierungen
+    let plan: { width: number; height: number };
+    try {
+      plan = (this.doc as PDFKit.PDFDocument & { openImage(src: Buffer): { width: number; height: number } }).openImage(image);
+    } catch (error) {
+      console.error("Plan konnte nicht in das PDF eingebettet werden:", error);
+      return this;
+    }
+
+    const scale = Math.min(this.contentWidth / plan.width, maxHeight / plan.height);
+    const width = plan.width * scale;
+    const height = plan.height * scale;
+    this.ensureSpace(height + 10);
+    const x = SEITENRAND.left + (this.contentWidth - width) / 2;
+    const top = this.doc.y;
+
+    this.doc.image(image, x, top, { width, height });
+    this.doc.rect(x, top, width, height).lineWidth(0.5).strokeColor(FARBEN.linie).stroke();
+    for (const pin of pins) {
+      const pinX = x + pin.x * width;
+      const pinY = top + pin.y * height;
+      this.doc.circle(pinX, pinY, 7).fillColor(FARBEN.markierung).fill();
+      this.doc.font("Helvetica-Bold").fontSize(7).fillColor("#ffffff")
+        .text(toWinAnsi(pin.label), pinX - 7, pinY - 3, { width: 14, align: "center", lineBreak: false });
+    }
+
+    this.doc.x = SEITENRAND.left;
+    this.doc.y = top + height + 10;
+    this.doc.fillColor(FARBEN.text);
+    return this;
+  }
+
+  /**
+   * Unterschriftenfelder nebeneinander (bis zu drei je Zeile); fehlende Unterschriften bleiben als leere Linie stehen
+   */
+  signatures(signatures: PdfSignature[]) {
+    const columnCount = Math.min(3, Math.max(signatures.length, 2));
+    const gap = 20;
+    const width = (this.contentWidth - gap * (columnCount - 1)) / columnCount;
+    const imageHeight = 50;
+    const cellHeight = imageHeight + 40;
+
+    for (let start = 0; start < signatures.length; start += columnCount) {
+      this.ensureSpace(cellHeight);
+      const top = this.doc.y;
+
+      signatures.slice(start, start + columnCount).forEach((signature, index) => {
+        const x = SEITENRAND.left + index * (width + gap);
+        if (signature.image) {
+          try {
+            this.doc.image(signature.image, x, top, { fit: [width, imageHeight], valign: "bottom" });
+          } catch (error) {
+            console.error("Unterschrift konnte nicht in das PDF eingebettet werden:", error);
+          }
+        }
+        const lineY = top + imageHeight + 2;
+        this.doc.moveTo(x, lineY).lineTo(x + width, lineY).lineWidth(0.5).strokeColor(FARBEN.text).stroke();
+        this.doc.font("Helvetica-Bold").fontSize(8).fillColor(FARBEN.text)
+          .text(toWinAnsi([signature.label, signature.name].filter(Boolean).join(": ")), x, lineY + 4, { width, lineBreak: false, ellipsis: true });
+        this.doc.font("Helvetica").fontSize(8).fillColor(FARBEN.grau)
+          .text(signature.signedAt ? `Unterschrieben am ${formatDate(signature.signedAt, true)}` : "Ort, Datum, Unterschrift", x, lineY + 15, { width, lineBreak: false });
+      });
+
+      this.doc.y = top + cellHeight;
+    }
+
+    this.doc.x = SEITENRAND.left;
+    this.doc.moveDown(0.5);
+    return this;
+  }
+
+  /**
+   * Seitenzahlen und Fußzeile auf alle Seiten schreiben und das PDF abschließen
+   */
+  async end(): Promise<Buffer> {
+    const range = this.doc.bufferedPageRange();
+    const footerY = this.doc.page.height - 40;
+
+    for (let i = range.start; i < range.start + range.count; i++) {
+      this.doc.switchToPage(i);
+      // Unterhalb des Seitenrands schreiben, ohne einen automatischen Seitenumbruch auszulösen
+      const bottomMargin = this.doc.page.margins.bottom;
+      this.doc.page.margins.bottom = 0;
+
+      this.doc.moveTo(SEITENRAND.left, footerY - 6).lineTo(this.doc.page.width - SEITENRAND.right, footerY - 6)
+        .lineWidth(0.5).strokeColor(FARBEN.linie).stroke();
+      this.doc.font("Helvetica").fontSize(8).fillColor(FARBEN.grau);
+      this.doc.text(toWinAnsi(`${this.company.name} · Erstellt am ${formatDate(this.createdAt, true)}`), SEITENRAND.left, footerY, {
+        width: this.contentWidth / 2,
+        lineBreak: false,
+      });
+      this.doc.text(`Seite ${i - range.start + 1} von ${range.count}`, SEITENRAND.left + this.contentWidth / 2, footerY, {
+        width: this.contentWidth / 2,
+        align: "right",
+        lineBreak: false,
+      });
+
+      this.doc.page.margins.bottom = bottomMargin;
+    }
+
+    this.doc.end();
+    return this.finished;
+  }
+}
@@ -0,0 +1,404 @@
+import { mkdir, readdir, readFile, rename } from "fs/promises";
+import { basename, extname, join } from "path";
+import type { Pegel, PegelAlarm } from "@shared/schema";
+import { getMeldestufe } from "./floodProtection";
+import { ladeChecklistAufgaben } from "./checklistVorlagen";
+
+/**
+ * Ein Messwert aus einem Pegel-Datenfeed (Dateiablage, HTTP-Abruf oder manuelle Eingabe)
+ */
+export interface PegelMessung {
+  pegelnummer: string | null;
+  gemessenAm: Date;
+  wasserstandCm: number;
+}
+
+/**
+ * Datenquelle für Pegelstände; bestaetigen() wird nach erfolgreicher Verarbeitung aufgerufen
+ */
+export interface PegelFeedAdapter {
+  readonly name: string;
+  abrufen(): Promise<PegelMessung[]>;
+  bestaetigen?(): Promise<void>;
+}
+
+export class PegelImportError extends Error {}
+
+const SPALTEN = {
+  pegelnummer: ["pegelnummer", "pegel", "messstelle", "messstellennummer", "station"],
+  zeitpunkt: ["zeitpunkt", "datum", "timestamp", "zeit", "messzeitpunkt"],
+  uhrzeit: ["uhrzeit"],
+  wasserstand: ["wasserstand_cm", "wasserstand", "w", "wert", "value"],
+};
+
+/**
+ * Liest ISO-Zeitpunkte, Unix-Millisekunden und deutsche Angaben wie "14.07.2025 09:30"
+ */
+export function parseZeitpunkt(value: unknown): Date | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? new Date(value) : null;
+  }
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const deutsch = value.trim().match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (deutsch) {
+    const [, tag, monat, jahr, stunde = "0", minute = "0", sekunde = "0"] = deutsch;
+    return new Date(Number(jahr), Number(monat) - 1, Number(tag), Number(stunde), Number(minute), Number(sekunde));
+  }
+
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseWasserstand(value: unknown): number | null {
+  const zahl = typeof value === "number" ? value : parseFloat(String(value ?? "").trim().replace(",", "."));
+  return Number.isFinite(zahl) ? Math.round(zahl) : null;
+}
+
+function findeSpalte(kopf: string[], namen: string[]): number {
+  return kopf.findIndex((spalte) => namen.includes(spalte.trim().toLowerCase()));
+}
+
+/**
+ * CSV mit Semikolon oder Komma; mit Kopfzeile (Pegelnummer, Zeitpunkt bzw. Datum + Uhrzeit, Wasserstand)
+ * oder ohne als "pegelnummer;zeitpunkt;wasserstand" bzw. "zeitpunkt;wasserstand"
+ */
+export function parsePegelCsv(text: string, standardPegelnummer: string | null = null): PegelMessung[] {
+  const zeilen = text.replace(/^﻿/, "").split(/\r?\n/).filter((zeile) => zeile.trim() && !zeile.trim().startsWith("#"));
+  if (zeilen.length === 0) return [];
+
+  const trenner = zeilen[0].includes(";") ? ";" : ",";
+  const ersteZeile = zeilen[0].split(trenner);
+  const hatKopf = findeSpalte(ersteZeile, SPALTEN.wasserstand) !== -1;
+
+  let spalten: { pegelnummer: number; zeitpunkt: number; uhrzeit: number; wasserstand: number };
+  if (hatKopf) {
+    spalten = {
+      pegelnummer: findeSpalte(ersteZeile, SPALTEN.pegelnummer),
+      zeitpunkt: findeSpalte(ersteZeile, SPALTEN.zeitpunkt),
+      uhrzeit: findeSpalte(ersteZeile, SPALTEN.uhrzeit),
+      wasserstand: findeSpalte(ersteZeile, SPALTEN.wasserstand),
+    };
+    if (spalten.zeitpunkt === -1) {
+      throw new PegelImportError("CSV-Kopfzeile enthält keine Spalte für den Zeitpunkt");
+    }
+  } else {
+    spalten = ersteZeile.length >= 3
+      ? { pegelnummer: 0, zeitpunkt: 1, uhrzeit: -1, wasserstand: 2 }
+      : { pegelnummer: -1, zeitpunkt: 0, uhrzeit: -1, wasserstand: 1 };
+  }
+
+  return zeilen.slice(hatKopf ? 1 : 0).map((zeile, index) => {
+    const zeilenNr = index + (hatKopf ? 2 : 1);
+    const werte = zeile.split(trenner).map((wert) => wert.trim().replace(/^"(.*)"$/, "$1"));
+    const zeitText = spalten.uhrzeit !== -1 ? `${werte[spalten.zeitpunkt]} ${werte[spalten.uhrzeit]}` : werte[spalten.zeitpunkt];
+    const gemessenAm = parseZeitpunkt(zeitText);
+    const wasserstandCm = parseWasserstand(werte[spalten.wasserstand]);
+
+    if (!gemessenAm) {
+      throw new PegelImportError(`Zeile ${zeilenNr}: ungültiger Zeitpunkt "${zeitText}"`);
+    }
+    if (wasserstandCm === null) {
+      throw new PegelImportError(`Zeile ${zeilenNr}: ungültiger Wasserstand "${werte[spalten.wasserstand]}"`);
+    }
+
+    return {
+      pegelnummer: (spalten.pegelnummer !== -1 && werte[spalten.pegelnummer]) || standardPegelnummer,
+      gemessenAm,
+      wasserstandCm,
+    };
+  });
+}
+
+function feld(objekt: Record<string, unknown>, namen: string[]): unknown {
+  const schluessel = Object.keys(objekt).find((key) => namen.includes(key.toLowerCase()));
+  return schluessel !== undefined ? objekt[schluessel] : undefined;
+}
+
+/**
+ * JSON als Liste von Messwerten oder als Objekt(e) { pegelnummer, messwerte: [...] }
+ */
+export function parsePegelJson(data: unknown, standardPegelnummer: string | null = null): PegelMessung[] {
+  if (Array.isArray(data)) {
+    return data.flatMap((eintrag) => parsePegelJson(eintrag, standardPegelnummer));
+  }
+  if (!data || typeof data !== "object") {
+    throw new PegelImportError("JSON muss ein Objekt oder eine Liste von Messwerten enthalten");
+  }
+
+  const objekt = data as Record<string, unknown>;
+  const pegelnummer = feld(objekt, SPALTEN.pegelnummer);
+  const nummer = typeof pegelnummer === "string" || typeof pegelnummer === "number" ? String(pegelnummer) : standardPegelnummer;
+  const messwerte = feld(objekt, ["messwerte", "werte", "data", "pegel"]);
+  if (Array.isArray(messwerte)) {
+    return parsePegelJson(messwerte, nummer);
+  }
+
+  const zeitpunkt = feld(objekt, SPALTEN.zeitpunkt);
+  const gemessenAm = parseZeitpunkt(zeitpunkt);
+  const wasserstandCm = parseWasserstand(feld(objekt, SPALTEN.wasserstand));
+  if (!gemessenAm || wasserstandCm === null) {
+    throw new PegelImportError(`Ungültiger Messwert: ${JSON.stringify(objekt)}`);
+  }
+  return [{ pegelnummer: nummer, gemessenAm, wasserstandCm }];
+}
+
+/**
+ * Erkennt JSON oder CSV am Inhalt
+ */
+export function parsePegelDaten(text: string, standardPegelnummer: string | null = null): PegelMessung[] {
+  const inhalt = text.replace(/^﻿/, "").trim();
+  if (inhalt.startsWith("{") || inhalt.startsWith("[")) {
+    try {
+      return parsePegelJson(JSON.parse(inhalt), standardPegelnummer);
+    } catch (error) {
+      if (error instanceof PegelImportError) throw error;
+      throw new PegelImportError(`Ungültiges JSON: ${(error as Error).message}`);
+    }
+  }
+  return parsePegelCsv(inhalt, standardPegelnummer);
+}
+
+/**
+ * Liest CSV-/JSON-Dateien aus einem Ablageordner (PEGEL_IMPORT_DIR). Verarbeitete Dateien wandern nach
+ * "verarbeitet/", nicht lesbare nach "fehlerhaft/". Ohne Pegelnummer in der Datei gilt der Dateiname bis zum ersten "_".
+ */
+export class DateiAblageAdapter implements PegelFeedAdapter {
+  readonly name = "datei";
+  private gelesen: string[] = [];
+
+  constructor(private verzeichnis: string) {}
+
+  async abrufen(): Promise<PegelMessung[]> {
+    const dateien = (await readdir(this.verzeichnis, { withFileTypes: true }))
+      .filter((eintrag) => eintrag.isFile() && [".csv", ".json"].includes(extname(eintrag.name).toLowerCase()))
+      .map((eintrag) => eintrag.name)
+      .sort();
+
+    const messungen: PegelMessung[] = [];
+    this.gelesen = [];
+    for (const datei of dateien) {
+      const pfad = join(this.verzeichnis, datei);
+      try {
+        const standardNummer = basename(datei, extname(datei)).split("_")[0] || null;
+        messungen.push(...parsePegelDaten(await readFile(pfad, "utf8"), standardNummer));
+        this.gelesen.push(datei);
+      } catch (error) {
+        console.error(`Pegeldatei ${datei} konnte nicht gelesen werden:`, error);
+        await this.verschieben(datei, "fehlerhaft");
+      }
+    }
+    return messungen;
+  }
+
+  async bestaetigen(): Promise<void> {
+    for (const datei of this.gelesen) {
+      await this.verschieben(datei, "verarbeitet");
+    }
+    this.gelesen = [];
+  }
+
+  private async verschieben(datei: string, ordner: string) {
+    await mkdir(join(this.verzeichnis, ordner), { recursive: true });
+    await rename(join(this.verzeichnis, datei), join(this.verzeichnis, ordner, datei));
+  }
+}
+
+/**
+ * Fragt einen HTTP-Endpunkt ab (z.B. den Hochwassernachrichtendienst oder einen lokalen Ersatz), der JSON oder CSV liefert
+ */
+export class HttpPegelAdapter implements PegelFeedAdapter {
+  readonly name = "http";
+
+  constructor(private url: string, private pegelnummer: string | null = null, private timeoutMs: number = 10000) {}
+
+  async abrufen(): Promise<PegelMessung[]> {
+    const response = await fetch(this.url, {
+      headers: { Accept: "application/json, text/csv;q=0.9, */*;q=0.5" },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} von ${this.url}`);
+    }
+    return parsePegelDaten(await response.text(), this.pegelnummer);
+  }
+}
+
+/**
+ * Speichert Messwerte, aktualisiert den Pegelstand und löst beim Erreichen einer höheren Meldestufe einen Alarm aus
+ */
+export async function verarbeitePegelMessungen(
+  messungen: PegelMessung[],
+  quelle: string,
+): Promise<{ gespeichert: number; unbekanntePegel: string[]; alarme: PegelAlarm[] }> {
+  const { storage } = await import("./storage");
+  const ergebnis = { gespeichert: 0, unbekanntePegel: [] as string[], alarme: [] as PegelAlarm[] };
+
+  const nachPegel = new Map<string, PegelMessung[]>();
+  for (const messung of messungen) {
+    if (!messung.pegelnummer) continue;
+    nachPegel.set(messung.pegelnummer, [...(nachPegel.get(messung.pegelnummer) || []), messung]);
+  }
+
+  for (const [pegelnummer, werte] of Array.from(nachPegel.entries())) {
+    const pegel = await storage.getPegelByNummer(pegelnummer);
+    if (!pegel || !pegel.aktiv) {
+      ergebnis.unbekanntePegel.push(pegelnummer);
+      continue;
+    }
+
+    const neu = await storage.addPegelMesswerte(werte.map((wert) => ({
+      pegelId: pegel.id,
+      gemessenAm: wert.gemessenAm,
+      wasserstandCm: wert.wasserstandCm,
+      quelle,
+    })));
+    ergebnis.gespeichert += neu.length;
+
+    // Nur ein neuerer Messwert verändert den aktuellen Stand (Nachlieferungen älterer Werte nicht)
+    const letzte = werte.reduce((a, b) => (b.gemessenAm > a.gemessenAm ? b : a));
+    if (pegel.letzteMessungAm && letzte.gemessenAm <= pegel.letzteMessungAm) continue;
+
+    const meldestufe = getMeldestufe(letzte.wasserstandCm, pegel);
+    await storage.updatePegel(pegel.id, {
+      letzterWasserstandCm: letzte.wasserstandCm,
+      letzteMessungAm: letzte.gemessenAm,
+      aktuelleMeldestufe: meldestufe,
+    });
+
+    if (meldestufe > pegel.aktuelleMeldestufe) {
+      ergebnis.alarme.push(await loesePegelAlarmAus(pegel, meldestufe, letzte));
+    }
+  }
+
+  return ergebnis;
+}
+
+/**
+ * Legt (sofern keine offene Alarm-Checkliste des Pegels existiert) eine Hochwasser-Checkliste an
+ * und benachrichtigt die Alarmempfänger sowie den Projektleiter per E-Mail
+ */
+async function loesePegelAlarmAus(pegel: Pegel, meldestufe: number, messung: PegelMessung): Promise<PegelAlarm> {
+  const { storage } = await import("./storage");
+  const { emailService } = await import("./emailService");
+
+  const [letzterAlarm] = await storage.getPegelAlarme({ pegelId: pegel.id, limit: 1 });
+  const offeneCheckliste = letzterAlarm?.checklistId ? await storage.getChecklist(letzterAlarm.checklistId) : undefined;
+
+  let checkliste = offeneCheckliste && offeneCheckliste.status !== "abgeschlossen" ? offeneCheckliste : undefined;
+  if (!checkliste) {
+    const { vorlage, aufgaben } = await ladeChecklistAufgaben("hochwasser");
+    const angelegt = await storage.createChecklist({
+      titel: `Hochwasser ${pegel.bezeichnung} – Meldestufe ${meldestufe}`,
+      typ: "hochwasser",
+      status: "offen",
+      beschreibung: `Automatisch angelegt: Pegel ${pegel.bezeichnung} (${pegel.pegelnummer}) hat am ${messung.gemessenAm.toLocaleString("de-DE")} mit ${messung.wasserstandCm} cm die Meldestufe ${meldestufe} erreicht.`,
+      beginnPegelstandCm: messung.wasserstandCm,
+      projectId: pegel.projectId,
+      vorlageId: vorlage?.id ?? null,
+    }, aufgaben);
+    checkliste = await storage.getChecklist(angelegt.id);
+  }
+
+  const empfaenger = new Set<string>(pegel.alarmEmpfaenger || []);
+  if (pegel.projectId) {
+    const project = await storage.getProject(pegel.projectId);
+    const manager = project?.managerId ? await storage.getUser(project.managerId) : undefined;
+    if (manager?.email) empfaenger.add(manager.email);
+  }
+
+  let benachrichtigt = 0;
+  for (const to of Array.from(empfaenger)) {
+    try {
+      await emailService.sendPegelAlarmEmail({
+        to,
+        pegel: pegel.bezeichnung,
+        gewaesser: pegel.gewaesser,
+        meldestufe,
+        wasserstandCm: messung.wasserstandCm,
+        gemessenAm: messung.gemessenAm,
+        checklisteTitel: checkliste?.titel ?? null,
+      });
+      benachrichtigt++;
+    } catch (error) {
+      console.error(`Pegel-Alarm an ${to} konnte nicht versendet werden:`, error);
+    }
+  }
+
+  return await storage.createPegelAlarm({
+    pegelId: pegel.id,
+    meldestufe,
+    vorherigeMeldestufe: pegel.aktuelleMeldestufe,
+    wasserstandCm: messung.wasserstandCm,
+    gemessenAm: messung.gemessenAm,
+    checklistId: checkliste?.id ?? null,
+    benachrichtigt,
+  });
+}
+
+let abrufLaeuft = false;
+
+/**
+ * Liest die Dateiablage und fragt alle fälligen HTTP-Pegel ab
+ */
+export async function runPegelAbruf(now: Date = new Date()): Promise<{ messwerte: number; alarme: number; fehler: number }> {
+  const ergebnis = { messwerte: 0, alarme: 0, fehler: 0 };
+  if (abrufLaeuft) return ergebnis;
+  abrufLaeuft = true;
+
+  try {
+    const { storage } = await import("./storage");
+
+    if (process.env.PEGEL_IMPORT_DIR) {
+      const adapter = new DateiAblageAdapter(process.env.PEGEL_IMPORT_DIR);
+      try {
+        const verarbeitet = await verarbeitePegelMessungen(await adapter.abrufen(), adapter.name);
+        await adapter.bestaetigen();
+        ergebnis.messwerte += verarbeitet.gespeichert;
+        ergebnis.alarme += verarbeitet.alarme.length;
+      } catch (error) {
+        console.error("Fehler beim Einlesen der Pegel-Dateiablage:", error);
+        ergebnis.fehler++;
+      }
+    }
+
+    const faellig = (await storage.getPegelListe()).filter((pegel) =>
+      pegel.aktiv
+      && pegel.quelle === "http"
+      && pegel.quelleUrl
+      && (!pegel.letzterAbrufAm || now.getTime() - pegel.letzterAbrufAm.getTime() >= pegel.abrufintervallMinuten * 60 * 1000)
+    );
+
+    for (const pegel of faellig) {
+      const adapter = new HttpPegelAdapter(pegel.quelleUrl!, pegel.pegelnummer);
+      try {
+        const verarbeitet = await verarbeitePegelMessungen(await adapter.abrufen(), adapter.name);
+        await storage.updatePegel(pegel.id, { letzterAbrufAm: now, letzterAbrufFehler: null });
+        ergebnis.messwerte += verarbeitet.gespeichert;
+        ergebnis.alarme += verarbeitet.alarme.length;
+      } catch (error) {
+        console.error(`Abruf von Pegel ${pegel.pegelnummer} fehlgeschlagen:`, error);
+        await storage.updatePegel(pegel.id, {
+          letzterAbrufAm: now,
+          letzterAbrufFehler: error instanceof Error ? error.message : String(error),
+        });
+        ergebnis.fehler++;
+      }
+    }
+  } finally {
+    abrufLaeuft = false;
+  }
+
+  return ergebnis;
+}
+
+/**
+ * Startet den minütlichen Pegelabruf; die Abrufintervalle der einzelnen Pegel werden dabei berücksichtigt
+ */
+export function startPegelAbruf(intervalMs: number = 60 * 1000): NodeJS.Timeout {
+  return setInterval(() => {
+    runPegelAbruf().catch((error) => {
+      console.error("Fehler beim Pegelabruf:", error);
+    });
+  }, intervalMs);
+}
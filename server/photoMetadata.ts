@@ -0,0 +1,135 @@
+import exifr from "exifr";
+import sharp from "sharp";
+
+export const THUMBNAIL_SIZE = 320;
+// Fotos weiter als 2 km vom nächsten Projektstandort werden keinem Projekt vorgeschlagen
+export const MAX_PROJECT_SUGGESTION_METERS = 2000;
+
+export interface PhotoMetadata {
+  capturedAt: string | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+  orientation: number | null;
+  width: number | null;
+  height: number | null;
+  gps: { latitude: number; longitude: number; altitude: number | null } | null;
+}
+
+export interface ProjectGeoPoint {
+  projectId: number;
+  projectName: string;
+  latitude: number;
+  longitude: number;
+  // Projektkoordinaten selbst oder ein zusätzlicher Standort aus project_locations
+  source: "project" | "location";
+  locationName?: string | null;
+}
+
+export interface ProjectSuggestion {
+  projectId: number;
+  projectName: string;
+  distanceMeters: number;
+  source: "project" | "location";
+  locationName?: string | null;
+}
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.replace(/\0/g, "").trim() : null;
+}
+
+function number(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Liest Aufnahmezeit, Kamera, Ausrichtung und GPS-Position aus den EXIF-Daten eines Fotos
+ */
+export async function extractPhotoMetadata(image: Buffer): Promise<PhotoMetadata> {
+  let exif: Record<string, any> | undefined;
+  try {
+    exif = await exifr.parse(image, { tiff: true, exif: true, gps: true, translateValues: false });
+  } catch {
+    // Bilder ohne oder mit beschädigtem EXIF-Block (z.B. Canvas-Aufnahmen der Kamera-Seite)
+    exif = undefined;
+  }
+
+  let width = number(exif?.ExifImageWidth) ?? number(exif?.ImageWidth);
+  let height = number(exif?.ExifImageHeight) ?? number(exif?.ImageHeight);
+  if (width === null || height === null) {
+    try {
+      const info = await sharp(image).metadata();
+      width = info.width ?? null;
+      height = info.height ?? null;
+    } catch {
+      // Kein von sharp lesbares Bildformat
+    }
+  }
+
+  const capturedAt = exif?.DateTimeOriginal ?? exif?.CreateDate ?? exif?.ModifyDate;
+  const latitude = number(exif?.latitude);
+  const longitude = number(exif?.longitude);
+
+  return {
+    capturedAt: capturedAt instanceof Date && !isNaN(capturedAt.getTime()) ? capturedAt.toISOString() : null,
+    cameraMake: text(exif?.Make),
+    cameraModel: text(exif?.Model),
+    orientation: number(exif?.Orientation),
+    width,
+    height,
+    gps: latitude !== null && longitude !== null && !(latitude === 0 && longitude === 0)
+      ? { latitude, longitude, altitude: number(exif?.GPSAltitude) }
+      : null,
+  };
+}
+
+/**
+ * Verkleinertes, gemäß EXIF-Ausrichtung gedrehtes JPEG für die Galerie
+ */
+export async function createThumbnail(image: Buffer, size: number = THUMBNAIL_SIZE): Promise<Buffer> {
+  return await sharp(image)
+    .rotate()
+    .resize(size, size, { fit: "cover" })
+    .jpeg({ quality: 75 })
+    .toBuffer();
+}
+
+/**
+ * Entfernung zweier Koordinaten in Metern (Haversine)
+ */
+export function distanceMeters(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number },
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Nächstgelegenes Projekt zur Aufnahmeposition, sofern innerhalb von maxMeters
+ */
+export function findNearestProject(
+  position: { latitude: number; longitude: number },
+  candidates: ProjectGeoPoint[],
+  maxMeters: number = MAX_PROJECT_SUGGESTION_METERS,
+): ProjectSuggestion | null {
+  let nearest: ProjectSuggestion | null = null;
+
+  for (const candidate of candidates) {
+    const distance = distanceMeters(position, candidate);
+    if (distance <= maxMeters && (!nearest || distance < nearest.distanceMeters)) {
+      nearest = {
+        projectId: candidate.projectId,
+        projectName: candidate.projectName,
+        distanceMeters: Math.round(distance),
+        source: candidate.source,
+        locationName: candidate.locationName ?? null,
+      };
+    }
+  }
+
+  return nearest;
+}
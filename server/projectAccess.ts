@@ -0,0 +1,94 @@
+import type { Project, ProjectMemberRole, User } from "@shared/schema";
+
+export const PROJECT_ROLES = ["bauleiter", "polier", "gast"] as const satisfies readonly ProjectMemberRole[];
+
+export const PROJECT_ROLE_LABELS: Record<ProjectMemberRole, string> = {
+  bauleiter: "Bauleiter",
+  polier: "Polier",
+  gast: "Gast",
+};
+
+/**
+ * view: Projekt und Inhalte lesen; edit: Fotos, Anhänge, Prüfungen erfassen; manage: Projektdaten und Team verwalten
+ */
+export type ProjectPermission = "view" | "edit" | "manage";
+
+const ROLE_PERMISSIONS: Record<ProjectMemberRole, ProjectPermission[]> = {
+  bauleiter: ["view", "edit", "manage"],
+  polier: ["view", "edit"],
+  gast: ["view"],
+};
+
+export class ProjectAccessError extends Error {
+  constructor(message: string, public status: number = 403) {
+    super(message);
+  }
+}
+
+/**
+ * Rolle eines Benutzers im Projekt: Administratoren und der Projektleiter gelten als Bauleiter, sonst zählt die Mitgliedschaft
+ */
+export function resolveProjectRole(
+  user: Pick<User, "id" | "role">,
+  project: Pick<Project, "managerId">,
+  membership?: { role: ProjectMemberRole } | null,
+): ProjectMemberRole | null {
+  if (user.role === "admin" || project.managerId === user.id) {
+    return "bauleiter";
+  }
+  return membership?.role ?? null;
+}
+
+export function hasProjectPermission(role: ProjectMemberRole | null, permission: ProjectPermission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function getProjectPermissions(role: ProjectMemberRole | null): ProjectPermission[] {
+  return role ? ROLE_PERMISSIONS[role] : [];
+}
+
+/**
+ * Lädt das Projekt und prüft die Berechtigung des Benutzers; wirft 404, wenn das Projekt fehlt, sonst 403
+ */
+export async function assertProjectAccess(
+  userId: string,
+  projectId: number,
+  permission: ProjectPermission = "view",
+): Promise<{ project: Project; role: ProjectMemberRole }> {
+  const { storage } = await import("./storage");
+
+  const [user, project] = await Promise.all([storage.getUser(userId), storage.getProject(projectId)]);
+  if (!project) {
+    throw new ProjectAccessError("Project not found", 404);
+  }
+  if (!user) {
+    throw new ProjectAccessError("User not found", 401);
+  }
+
+  const membership = user.role === "admin" || project.managerId === user.id
+    ? null
+    : await storage.getProjectMember(projectId, userId);
+  const role = resolveProjectRole(user, project, membership);
+
+  if (!role) {
+    throw new ProjectAccessError("No access to this project");
+  }
+  if (!hasProjectPermission(role, permission)) {
+    throw new ProjectAccessError("Insufficient project permissions");
+  }
+
+  return { project, role };
+}
+
+/**
+ * Projekte, deren Inhalte der Benutzer sehen darf; undefined steht für alle Projekte (Administratoren)
+ */
+export async function getProjectScope(userId: string): Promise<number[] | undefined> {
+  const { storage } = await import("./storage");
+
+  const user = await storage.getUser(userId);
+  if (user?.role === "admin") {
+    return undefined;
+  }
+  return user ? await storage.getProjectIdsForUser(userId) : [];
+}
@@ -0,0 +1,107 @@
+import type { Project, ProjectCost } from "@shared/schema";
+
+export const COST_CATEGORIES = ["material", "labor", "subcontractor", "equipment", "fees", "other"] as const;
+
+export const COST_CATEGORY_LABELS: Record<string, string> = {
+  material: "Material",
+  labor: "Lohn",
+  subcontractor: "Nachunternehmer",
+  equipment: "Geräte",
+  fees: "Gebühren",
+  other: "Sonstiges",
+};
+
+export const COST_STATUSES = ["committed", "actual"] as const;
+
+// Ab diesem Anteil gebundener Mittel wird gewarnt
+export const BUDGET_WARNING_THRESHOLD = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type BudgetProject = Pick<Project, "budget" | "startDate" | "endDate">;
+type BudgetCost = Pick<ProjectCost, "category" | "status" | "amount" | "costDate">;
+
+export type BudgetWarning = { level: "warning" | "critical"; message: string };
+
+// Beträge werden in Cent summiert, damit sich keine Rundungsfehler aufaddieren
+function toCents(value: string | number | null | undefined): number {
+  return Math.round(Number(value || 0) * 100);
+}
+
+function formatEuro(cents: number): string {
+  return (cents / 100).toLocaleString("de-DE", { style: "currency", currency: "EUR" });
+}
+
+function startOfDay(value: Date | string): number {
+  const date = typeof value === "string" ? new Date(`${value.slice(0, 10)}T00:00:00`) : value;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Budget, Obligo (beauftragt, nicht abgerechnet), Ist-Kosten, Prognose nach Mittelabfluss und Warnungen
+ */
+export function getBudgetSummary(project: BudgetProject, costs: BudgetCost[], now: Date = new Date()) {
+  const budget = project.budget !== null && project.budget !== undefined ? toCents(project.budget) : null;
+  const committed = costs.filter((cost) => cost.status === "committed").reduce((sum, cost) => sum + toCents(cost.amount), 0);
+  const actualCosts = costs.filter((cost) => cost.status === "actual");
+  const actual = actualCosts.reduce((sum, cost) => sum + toCents(cost.amount), 0);
+  const bound = committed + actual;
+
+  // Mittelabfluss je Tag seit Baubeginn bzw. seit der ersten Rechnung
+  const firstCostDay = actualCosts.length > 0 ? Math.min(...actualCosts.map((cost) => startOfDay(cost.costDate))) : null;
+  const periodStart = project.startDate ? startOfDay(project.startDate) : firstCostDay;
+  // Vor Baubeginn gibt es keinen Mittelabfluss; vorab gebuchte Kosten ergäben sonst eine Tagesrate über einen Tag
+  const hasStarted = periodStart === null || startOfDay(now) >= periodStart;
+  const elapsedDays = periodStart !== null && hasStarted ? Math.round((startOfDay(now) - periodStart) / DAY_MS) + 1 : null;
+  const burnRatePerDay = actual > 0 && elapsedDays ? actual / elapsedDays : 0;
+
+  const remainingDays = project.endDate ? Math.max(0, Math.round((startOfDay(project.endDate) - startOfDay(now)) / DAY_MS)) : null;
+  // Beauftragte Leistungen werden in jedem Fall fällig, die Prognose liegt daher nie unter Ist + Obligo
+  const forecast = remainingDays !== null && hasStarted ? Math.max(Math.round(actual + burnRatePerDay * remainingDays), bound) : null;
+
+  const exhaustedAt = budget !== null && burnRatePerDay > 0 && actual < budget
+    ? new Date(startOfDay(now) + Math.ceil((budget - actual) / burnRatePerDay) * DAY_MS)
+    : null;
+
+  const warnings: BudgetWarning[] = [];
+  if (budget !== null) {
+    if (bound > budget) {
+      warnings.push({ level: "critical", message: `Budget um ${formatEuro(bound - budget)} überschritten (Ist-Kosten und Obligo)` });
+    } else if (budget > 0 && (bound / budget) * 100 >= BUDGET_WARNING_THRESHOLD) {
+      warnings.push({ level: "warning", message: `${Math.round((bound / budget) * 100)} % des Budgets sind gebunden` });
+    }
+    if (forecast !== null && forecast > budget && forecast > bound) {
+      warnings.push({
+        level: "warning",
+        message: `Prognose zum Bauende ${formatEuro(forecast)} liegt ${formatEuro(forecast - budget)} über dem Budget` +
+          (exhaustedAt ? `; Budget voraussichtlich am ${exhaustedAt.toLocaleDateString("de-DE")} aufgebraucht` : ""),
+      });
+    }
+  }
+
+  const byCategory = COST_CATEGORIES
+    .map((category) => {
+      const entries = costs.filter((cost) => cost.category === category);
+      return {
+        category,
+        committed: entries.filter((cost) => cost.status === "committed").reduce((sum, cost) => sum + toCents(cost.amount), 0) / 100,
+        actual: entries.filter((cost) => cost.status === "actual").reduce((sum, cost) => sum + toCents(cost.amount), 0) / 100,
+      };
+    })
+    .filter((row) => row.committed > 0 || row.actual > 0);
+
+  return {
+    budget: budget !== null ? budget / 100 : null,
+    committed: committed / 100,
+    actual: actual / 100,
+    remaining: budget !== null ? (budget - bound) / 100 : null,
+    usedPercent: budget ? Math.round((bound / budget) * 100) : null,
+    burnRatePerDay: Math.round(burnRatePerDay) / 100,
+    forecastAtCompletion: forecast !== null ? forecast / 100 : null,
+    budgetExhaustedAt: exhaustedAt,
+    isOverBudget: budget !== null && bound > budget,
+    isForecastOverBudget: budget !== null && forecast !== null && forecast > budget,
+    byCategory,
+    warnings,
+  };
+}
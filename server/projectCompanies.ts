@@ -0,0 +1,75 @@
+import type { Person, ProjectCompany } from "@shared/schema";
+import { toDiaryDate } from "./constructionDiary";
+
+type AssignmentPeriod = Pick<ProjectCompany, "startDate" | "endDate">;
+
+export class ProjectCompanyError extends Error {}
+
+/**
+ * Einsatzzeitraum auf der Baustelle: das Ende darf nicht vor dem Beginn liegen
+ */
+export function getAssignmentPeriodError(period: Partial<AssignmentPeriod>): string | null {
+  if (period.startDate && period.endDate && period.endDate < period.startDate) {
+    return "Das Einsatzende liegt vor dem Einsatzbeginn";
+  }
+  return null;
+}
+
+/**
+ * Eine Firma gilt als auf der Baustelle, sobald der Einsatz begonnen hat und bis einschließlich zum Einsatzende
+ */
+export function isCompanyOnSite(period: AssignmentPeriod, now: Date = new Date()): boolean {
+  const today = toDiaryDate(now);
+  return !!period.startDate && period.startDate <= today && (!period.endDate || period.endDate >= today);
+}
+
+export function summarizeProjectCompanies(
+  assignments: Array<Pick<ProjectCompany, "companyId" | "contractValue"> & AssignmentPeriod>,
+  now: Date = new Date(),
+) {
+  // Beträge in Cent summieren, damit sich keine Rundungsfehler aufaddieren
+  const contractCents = assignments.reduce((sum, assignment) => sum + Math.round(Number(assignment.contractValue || 0) * 100), 0);
+  return {
+    companies: new Set(assignments.map((assignment) => assignment.companyId)).size,
+    onSite: new Set(assignments.filter((assignment) => isCompanyOnSite(assignment, now)).map((assignment) => assignment.companyId)).size,
+    contractValue: (contractCents / 100).toFixed(2),
+  };
+}
+
+/**
+ * Ansprechpartner müssen zur beauftragten Firma gehören, sofern sie einer Firma zugeordnet sind
+ */
+export function getContactPersonError(person: Pick<Person, "companyId"> | undefined, companyId: number): string | null {
+  if (!person) {
+    return "Unbekannter Ansprechpartner";
+  }
+  if (person.companyId && person.companyId !== companyId) {
+    return "Der Ansprechpartner gehört zu einer anderen Firma";
+  }
+  return null;
+}
+
+/**
+ * Prüft Firma, Ansprechpartner und Einsatzzeitraum einer Zuordnung; archivierte Firmen können nicht neu zugeordnet werden
+ */
+export async function assertProjectCompanyReferences(
+  assignment: Pick<ProjectCompany, "companyId"> & Partial<Pick<ProjectCompany, "contactPersonId">> & Partial<AssignmentPeriod>,
+  currentCompanyId?: number,
+) {
+  const { storage } = await import("./storage");
+  const company = await storage.getCompany(assignment.companyId);
+  if (!company) {
+    throw new ProjectCompanyError("Unbekannte Firma");
+  }
+  if (company.archivedAt && company.id !== currentCompanyId) {
+    throw new ProjectCompanyError("Archivierte Firmen können keinen Projekten zugeordnet werden");
+  }
+  if (assignment.contactPersonId) {
+    const problem = getContactPersonError(await storage.getPerson(assignment.contactPersonId), assignment.companyId);
+    if (problem) throw new ProjectCompanyError(problem);
+  }
+  const periodError = getAssignmentPeriodError(assignment);
+  if (periodError) {
+    throw new ProjectCompanyError(periodError);
+  }
+}
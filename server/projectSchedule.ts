@@ -0,0 +1,148 @@
+import type { ProjectPhase } from "@shared/schema";
+
+export const PHASE_KINDS = ["phase", "milestone"] as const;
+
+export type PhaseStatus = "planned" | "in_progress" | "done" | "delayed";
+
+export class ProjectScheduleError extends Error {}
+
+type SchedulePhase = Pick<
+  ProjectPhase,
+  "id" | "kind" | "name" | "weight" | "progress" | "plannedStart" | "plannedEnd" | "actualStart" | "actualEnd" | "dependsOn"
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Kalendertage zwischen zwei Zeitpunkten, unabhängig von der Uhrzeit
+function daysBetween(from: Date, to: Date): number {
+  const start = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end - start) / DAY_MS);
+}
+
+/**
+ * Fortschritt eines Vorgangs in Prozent; abgeschlossene Vorgänge zählen voll, offene Meilensteine gar nicht
+ */
+export function getPhaseProgress(phase: Pick<SchedulePhase, "kind" | "progress" | "actualEnd">): number {
+  if (phase.actualEnd) return 100;
+  if (phase.kind === "milestone") return 0;
+  return Math.min(100, Math.max(0, phase.progress));
+}
+
+/**
+ * Gewichteter Fertigstellungsgrad des Projekts; null, wenn keine gewichteten Vorgänge vorhanden sind
+ */
+export function calculateWeightedCompletion(phases: Pick<SchedulePhase, "kind" | "weight" | "progress" | "actualEnd">[]): number | null {
+  const totalWeight = phases.reduce((sum, phase) => sum + Math.max(0, phase.weight), 0);
+  if (totalWeight === 0) return null;
+  const weighted = phases.reduce((sum, phase) => sum + Math.max(0, phase.weight) * getPhaseProgress(phase), 0);
+  return Math.round(weighted / totalWeight);
+}
+
+/**
+ * Verzug in Tagen: verspätetes Ende (abgeschlossen oder überfällig) bzw. verspäteter Beginn noch nicht begonnener Phasen
+ */
+export function getPhaseDelayDays(phase: SchedulePhase, now: Date = new Date()): number {
+  if (phase.actualEnd) {
+    return Math.max(0, daysBetween(phase.plannedEnd, phase.actualEnd));
+  }
+
+  let delay = Math.max(0, daysBetween(phase.plannedEnd, now));
+  if (phase.kind === "phase" && phase.plannedStart && !phase.actualStart) {
+    delay = Math.max(delay, daysBetween(phase.plannedStart, now));
+  }
+  return delay;
+}
+
+export function getPhaseStatus(phase: SchedulePhase, now: Date = new Date()): PhaseStatus {
+  if (phase.actualEnd) return "done";
+  if (getPhaseDelayDays(phase, now) > 0) return "delayed";
+  if (phase.actualStart || phase.progress > 0) return "in_progress";
+  return "planned";
+}
+
+/**
+ * Vorgänge, die laut Plan beginnen (bzw. bei Meilensteinen enden), bevor ein Vorgänger fertig sein soll
+ */
+export function findDependencyConflicts(phases: SchedulePhase[]): { phaseId: number; dependsOnId: number; message: string }[] {
+  const byId = new Map(phases.map((phase) => [phase.id, phase]));
+  const conflicts: { phaseId: number; dependsOnId: number; message: string }[] = [];
+
+  for (const phase of phases) {
+    const start = phase.kind === "milestone" ? phase.plannedEnd : phase.plannedStart ?? phase.plannedEnd;
+    for (const predecessorId of phase.dependsOn) {
+      const predecessor = byId.get(predecessorId);
+      if (predecessor && start < predecessor.plannedEnd) {
+        conflicts.push({
+          phaseId: phase.id,
+          dependsOnId: predecessor.id,
+          message: `„${phase.name}“ ist vor dem Ende von „${predecessor.name}“ geplant`,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Prüft Abhängigkeiten eines (neuen) Vorgangs: nur Vorgänge desselben Projekts, keine Selbstbezüge, keine Zyklen
+ */
+export function assertValidDependencies(phases: Pick<SchedulePhase, "id" | "dependsOn">[], phaseId: number | null, dependsOn: number[]) {
+  const known = new Set(phases.map((phase) => phase.id));
+  for (const id of dependsOn) {
+    if (id === phaseId) {
+      throw new ProjectScheduleError("A phase cannot depend on itself");
+    }
+    if (!known.has(id)) {
+      throw new ProjectScheduleError(`Unknown predecessor: ${id}`);
+    }
+  }
+  if (phaseId === null) return;
+
+  // Tiefensuche über die Vorgänger: erreicht sie den Vorgang selbst, entstünde ein Zyklus
+  const predecessors = new Map(phases.map((phase) => [phase.id, phase.id === phaseId ? dependsOn : phase.dependsOn]));
+  const visited = new Set<number>();
+  const stack = [...dependsOn];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === phaseId) {
+      throw new ProjectScheduleError("Dependencies must not form a cycle");
+    }
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(predecessors.get(id) ?? []));
+  }
+}
+
+/**
+ * Kennzahlen für Projektkopf und Dashboard
+ */
+export function getScheduleSummary(phases: SchedulePhase[], now: Date = new Date()) {
+  const delays = phases.map((phase) => getPhaseDelayDays(phase, now)).filter((days) => days > 0);
+  const openDelays = phases
+    .filter((phase) => !phase.actualEnd)
+    .map((phase) => getPhaseDelayDays(phase, now))
+    .filter((days) => days > 0);
+
+  return {
+    completion: calculateWeightedCompletion(phases),
+    delayedPhases: delays.length,
+    delayDays: delays.length > 0 ? Math.max(...delays) : 0,
+    // Als verzögert gilt ein Projekt, solange ein offener Vorgang hinter dem Plan liegt
+    isDelayed: openDelays.length > 0,
+  };
+}
+
+/**
+ * Übernimmt den gewichteten Fortschritt in projects.completionPercentage, sobald Vorgänge gepflegt sind
+ */
+export async function refreshProjectCompletion(projectId: number): Promise<number | null> {
+  const { storage } = await import("./storage");
+
+  const completion = calculateWeightedCompletion(await storage.getProjectPhases(projectId));
+  if (completion !== null) {
+    await storage.updateProject(projectId, { completionPercentage: completion });
+  }
+  return completion;
+}
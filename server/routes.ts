@@ -1,8 +1,71 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
+import multer from "multer";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupLocalAuth, isAuthenticated } from "./localAuth";
-import { insertProjectSchema, insertCustomerSchema, insertCompanySchema, insertPersonSchema } from "@shared/schema";
+import { insertProjectSchema, insertCustomerSchema, insertCompanySchema, insertPersonSchema, insertChecklistSchema, insertAbsperrschieberSchema, insertSchieberPruefungSchema, insertSchadensfallSchema, insertDeichabschnittSchema, insertDeichwacheSchema, insertPegelSchema, insertInspectionSchema, insertProjectPhaseSchema, insertConstructionDiaryEntrySchema, insertProjectCostSchema, insertDefectSchema, insertAcceptanceProtocolSchema, insertProjectCompanySchema, insertCustomerContactSchema, insertCompanyContactSchema, refinePostalCode, type ChecklistTask, type InsertChecklistTask, type InsertSchadensfallEreignis, type SchadensfallWithDetails, type Photo, type ChecklistVorlage, type AcceptanceProtocol } from "@shared/schema";
+import {
+  CHECKLIST_PFLICHTFELD_TEXT,
+  CHECKLIST_TYP_TEXT,
+  SCHIEBER_FUNKTIONSSTATUS,
+  STANDARD_CHECKLIST_AUFGABEN,
+  deriveChecklistStatus,
+  findSchichtUeberschneidungen,
+  findUnbesetzteZeitfenster,
+  getDeichabschnittBereich,
+  getFehlendePflichtfelder,
+  getMeldestufenFehler,
+  getSchadensfallUebergangFehler,
+  isChecklistTyp,
+  isPruefungUeberfaellig,
+  toAbsperrschieberResponse,
+  toChecklistResponse,
+  toChecklistTaskResponse,
+  toChecklistVorlageResponse,
+  toDeichabschnittResponse,
+  toDeichwacheResponse,
+  toPegelAlarmResponse,
+  toPegelMesswertResponse,
+  toPegelResponse,
+  toSchadensfallEreignisResponse,
+  toSchadensfallResponse,
+  toSchadensfotoResponse,
+  toSchieberPruefungResponse,
+  toWartungsanweisungResponse,
+  toWartungsaufgabeResponse,
+} from "./floodProtection";
+import {
+  SftpAccessError,
+  SftpConfigError,
+  getSftpErrorStatus,
+  resolveSftpPath,
+  testSftpConnection,
+  withSftpSession,
+} from "./sftpService";
+import { SFTP_BACKUP_STATUS, syncSftpBackups } from "./sftpSync";
+import { FileNotFoundError, getFileStorage, readStoredFile, storeFile, storeLocalFile } from "./fileStorage";
+import {
+  AttachmentUploadError,
+  MAX_DIRECT_UPLOAD_BYTES,
+  UPLOAD_CHUNK_BYTES,
+  appendUploadChunk,
+  assertStorageQuota,
+  createUploadSession,
+  getStorageLimitBytes,
+  getUploadFilePath,
+  getUploadSession,
+  matchesFileSignature,
+  removeUploadSession,
+  scanForViruses,
+  validateAttachmentFile,
+} from "./attachmentUpload";
+import { getTranscriptionProvider, TranscriptionError, type TranscriptionResult } from "./transcription";
+import { formatDate as formatPdfDate } from "./pdfReport";
+import { createThumbnail, extractPhotoMetadata, findNearestProject } from "./photoMetadata";
+import { PROJECT_ROLES, ProjectAccessError, assertProjectAccess, getProjectPermissions, getProjectScope, type ProjectPermission } from "./projectAccess";
+import type { AddressEntity } from "./addressImport";
+import { posix } from "path";
+import { pipeline } from "stream/promises";
 import { z } from "zod";
 import Stripe from "stripe";
 
@@ -72,6 +135,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // SFTP: echte Verbindungen über ssh2 mit den Zugangsdaten aus dem Benutzerprofil
+  const sendSftpError = (res: any, error: unknown, message: string) => {
+    console.error(`${message}:`, error);
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    res.status(getSftpErrorStatus(error)).json({
+      message: error instanceof SftpConfigError || error instanceof SftpAccessError ? error.message : message,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  };
+
+  const sftpNameSchema = z.string().min(1).refine(
+    (name) => !name.includes('/') && name !== '.' && name !== '..',
+    { message: "Invalid file name" }
+  );
+
+  // Wiederholte Query-Parameter (?path=a&path=b) kommen als Array an; zulässig ist nur ein einzelner Pfad
+  const readSftpPath = (res: any, value: unknown): string | null => {
+    if (value === undefined || typeof value === "string") {
+      return resolveSftpPath('/', value);
+    }
+    res.status(400).json({ message: "Invalid path" });
+    return null;
+  };
+
   app.post('/api/profile/test-sftp', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -81,12 +170,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "SFTP configuration incomplete" });
       }
 
-      // In a real implementation, you would test the SFTP connection here
-      // For now, we'll simulate a successful test
-      res.json({ message: "SFTP connection successful", connected: true });
+      const entries = await testSftpConnection(user);
+      res.json({ message: "SFTP connection successful", connected: true, entries });
     } catch (error) {
       console.error("Error testing SFTP:", error);
-      res.status(500).json({ message: "SFTP connection failed" });
+      res.status(getSftpErrorStatus(error) === 404 ? 404 : 502).json({
+        message: "SFTP connection failed",
+        connected: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
   });
 
@@ -96,97 +188,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
       
-      if (user?.role === "user") {
+      if (!user || user.role === "user") {
         return res.status(403).json({ message: "SFTP access requires manager or admin role" });
       }
+
+      const path = readSftpPath(res, req.query.path);
+      if (path === null) return;
+      const files = await withSftpSession(user, 'list', (session) => session.list(path));
+
+      res.json({ path, files });
+    } catch (error) {
+      sendSftpError(res, error, "Failed to list SFTP files");
+    }
+  });
+
+  app.get('/api/sftp/download', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
       
-      if (!user?.sftpHost || !user?.sftpUsername) {
-        return res.status(400).json({ message: "SFTP configuration incomplete" });
+      if (!user || user.role === "user") {
+        return res.status(403).json({ message: "SFTP access requires manager or admin role" });
       }
 
-      const path = req.query.path || user.sftpPath || '/';
-      
-      // Mock SFTP file listing for demonstration - in production use ssh2-sftp-client
-      const mockFiles = [
-        {
-          name: 'projects',
-          type: 'directory',
-          size: 0,
-          modified: new Date('2025-06-01'),
-          permissions: 'drwxr-xr-x'
-        },
-        {
-          name: 'documents',
-          type: 'directory', 
-          size: 0,
-          modified: new Date('2025-06-15'),
-          permissions: 'drwxr-xr-x'
-        },
-        {
-          name: 'projekt_muenchen_bahnhof.pdf',
-          type: 'file',
-          size: 2457600,
-          modified: new Date('2025-06-20'),
-          permissions: '-rw-r--r--'
-        },
-        {
-          name: 'checkliste_hochwasser.xlsx',
-          type: 'file',
-          size: 524288,
-          modified: new Date('2025-06-18'),
-          permissions: '-rw-r--r--'
-        },
-        {
-          name: 'backup_2025-06-29.zip',
-          type: 'file',
-          size: 15728640,
-          modified: new Date('2025-06-29'),
-          permissions: '-rw-r--r--'
+      const path = readSftpPath(res, req.query.path);
+      if (path === null) return;
+      await withSftpSession(user, 'download', async (session) => {
+        const stats = await session.stat(path);
+        if (stats.isDirectory()) {
+          return res.status(400).json({ message: "Directories cannot be downloaded" });
         }
-      ];
 
-      res.json({ path, files: mockFiles });
-    } catch (error) {
-      console.error("SFTP list files failed:", error);
-      res.status(500).json({ 
-        message: "Failed to list SFTP files", 
-        error: error instanceof Error ? error.message : 'Unknown error'
+        res.setHeader('Content-Type', 'application/octet-stream');
+        res.setHeader('Content-Length', stats.size);
+        res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(posix.basename(path))}"`);
+        await session.download(path, res);
       });
+    } catch (error) {
+      sendSftpError(res, error, "Failed to download file");
     }
   });
 
+  // Der Dateiinhalt wird als application/octet-stream gesendet und direkt zum SFTP-Server gestreamt
   app.post('/api/sftp/upload', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
       
-      if (user?.role === "user") {
+      if (!user || user.role === "user") {
         return res.status(403).json({ message: "SFTP upload requires manager or admin role" });
       }
       
-      const { fileName, path, fileSize } = req.body;
-      
-      if (!fileName) {
+      const fileName = sftpNameSchema.safeParse(req.query.fileName);
+      if (!fileName.success) {
         return res.status(400).json({ message: "File name is required" });
       }
 
-      // Mock upload response - in production handle actual file upload via SFTP
-      const uploadResult = {
+      const path = readSftpPath(res, req.query.path);
+      if (path === null) return;
+      const filePath = posix.join(path, fileName.data);
+      const size = await withSftpSession(user, 'upload', async (session) => {
+        await session.upload(filePath, req);
+        return (await session.stat(filePath)).size;
+      });
+
+      res.status(201).json({
         success: true,
-        fileName,
-        path: path || user?.sftpPath || '/',
-        size: fileSize || 0,
+        fileName: fileName.data,
+        path,
+        size,
         uploadedAt: new Date(),
         message: "File uploaded successfully"
-      };
+      });
+    } catch (error) {
+      sendSftpError(res, error, "Failed to upload file");
+    }
+  });
 
-      res.json(uploadResult);
+  app.post('/api/sftp/rename', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (!user || user.role === "user") {
+        return res.status(403).json({ message: "SFTP rename requires manager or admin role" });
+      }
+
+      const { path, oldName, newName } = z.object({
+        path: z.string().optional(),
+        oldName: sftpNameSchema,
+        newName: sftpNameSchema,
+      }).parse(req.body);
+
+      const directory = resolveSftpPath('/', path);
+      await withSftpSession(user, 'rename', (session) =>
+        session.rename(posix.join(directory, oldName), posix.join(directory, newName))
+      );
+
+      res.json({ success: true, message: `Renamed ${oldName} to ${newName}`, path: directory });
     } catch (error) {
-      console.error("SFTP upload failed:", error);
-      res.status(500).json({ 
-        message: "Failed to upload file", 
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      sendSftpError(res, error, "Failed to rename file");
     }
   });
 
@@ -195,25 +299,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
       
-      if (user?.role === "user") {
+      if (!user || user.role === "user") {
         return res.status(403).json({ message: "SFTP delete requires manager or admin role" });
       }
       
-      const fileName = req.params.fileName;
-      const path = req.query.path || user?.sftpPath || '/';
-      
-      // Mock delete response - in production delete the actual file via SFTP
+      const fileName = sftpNameSchema.safeParse(req.params.fileName);
+      if (!fileName.success) {
+        return res.status(400).json({ message: "Invalid file name" });
+      }
+
+      const path = readSftpPath(res, req.query.path);
+      if (path === null) return;
+      await withSftpSession(user, 'delete', (session) => session.delete(posix.join(path, fileName.data)));
+
       res.json({ 
         success: true, 
-        message: `File ${fileName} deleted successfully from ${path}`,
+        message: `File ${fileName.data} deleted successfully from ${path}`,
         deletedAt: new Date()
       });
     } catch (error) {
-      console.error("SFTP delete failed:", error);
-      res.status(500).json({ 
-        message: "Failed to delete file", 
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendSftpError(res, error, "Failed to delete file");
     }
   });
 
@@ -222,32 +327,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
       
-      if (user?.role === "user") {
+      if (!user || user.role === "user") {
         return res.status(403).json({ message: "SFTP folder creation requires manager or admin role" });
       }
       
-      const { folderName, path } = req.body;
-      
-      if (!folderName) {
+      const folderName = sftpNameSchema.safeParse(req.body.folderName);
+      if (!folderName.success) {
         return res.status(400).json({ message: "Folder name is required" });
       }
 
-      // Mock folder creation response - in production create actual folder via SFTP
-      res.json({ 
+      const directory = readSftpPath(res, req.body.path);
+      if (directory === null) return;
+      const folderPath = posix.join(directory, folderName.data);
+      await withSftpSession(user, 'mkdir', (session) => session.mkdir(folderPath));
+
+      res.status(201).json({ 
         success: true, 
-        message: `Folder ${folderName} created successfully`,
-        path: `${path || user?.sftpPath || '/'}/${folderName}`,
+        message: `Folder ${folderName.data} created successfully`,
+        path: folderPath,
         createdAt: new Date()
       });
     } catch (error) {
-      console.error("SFTP create folder failed:", error);
-      res.status(500).json({ 
-        message: "Failed to create folder", 
-        error: error instanceof Error ? error.message : 'Unknown error'
+      sendSftpError(res, error, "Failed to create folder");
+    }
+  });
+
+  // SFTP-Spiegelung von Anhängen, Fotos und Audioaufnahmen
+  app.get('/api/sftp/sync/status', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user || user.role === "user") {
+        return res.status(403).json({ message: "SFTP access requires manager or admin role" });
+      }
+
+      // Manager sehen nur die Dateien ihrer eigenen Projekte
+      const managerId = user.role === "admin" ? undefined : user.id;
+      const [counts, pending, failed] = await Promise.all([
+        storage.getSftpBackupCounts(managerId),
+        storage.getSftpBackupItems({ status: SFTP_BACKUP_STATUS.PENDING, managerId, limit: 200 }),
+        storage.getSftpBackupItems({ status: SFTP_BACKUP_STATUS.FAILED, managerId, limit: 50 }),
+      ]);
+
+      const totals = { pending: 0, synced: 0, failed: 0 };
+      const byKind: Record<string, { pending: number; synced: number; failed: number }> = {
+        attachment: { pending: 0, synced: 0, failed: 0 },
+        photo: { pending: 0, synced: 0, failed: 0 },
+        audio: { pending: 0, synced: 0, failed: 0 },
+      };
+      for (const { kind, status, count } of counts) {
+        if (status in totals) {
+          totals[status as keyof typeof totals] += count;
+          byKind[kind][status as keyof typeof totals] += count;
+        }
+      }
+
+      res.json({
+        totals,
+        byKind,
+        issues: [...failed, ...pending.filter((item) => item.sftpBackupError)].map((item) => ({
+          kind: item.kind,
+          id: item.id,
+          fileName: item.fileName,
+          projectName: item.projectName,
+          status: item.sftpBackupStatus,
+          attempts: item.sftpBackupAttempts,
+          error: item.sftpBackupError,
+          nextAttemptAt: item.sftpBackupNextAttemptAt,
+        })),
       });
+    } catch (error) {
+      console.error("Error fetching SFTP sync status:", error);
+      res.status(500).json({ message: "Failed to fetch SFTP sync status" });
+    }
+  });
+
+  app.post('/api/sftp/sync/retry', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user || user.role === "user") {
+        return res.status(403).json({ message: "SFTP access requires manager or admin role" });
+      }
+
+      const reset = await storage.resetSftpBackups(
+        SFTP_BACKUP_STATUS.FAILED,
+        user.role === "admin" ? undefined : user.id,
+      );
+      const result = await syncSftpBackups();
+      res.json({ reset, ...result });
+    } catch (error) {
+      console.error("Error retrying SFTP sync:", error);
+      res.status(500).json({ message: "Failed to retry SFTP sync" });
     }
   });
 
+  // Projektrechte prüfen; bei fehlendem Zugriff wird 404/403 gesendet und null geliefert
+  const requireProjectAccess = async (req: any, res: any, projectId: number, permission: ProjectPermission = "view") => {
+    try {
+      return await assertProjectAccess(req.user.id, projectId, permission);
+    } catch (error) {
+      if (error instanceof ProjectAccessError) {
+        res.status(error.status).json({ message: error.message });
+        return null;
+      }
+      throw error;
+    }
+  };
+
   // Project routes
   app.get("/api/projects", isAuthenticated, async (req: any, res) => {
     try {
@@ -258,10 +443,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (user?.role === "admin") {
         projects = await storage.getProjects();
       } else {
-        projects = await storage.getProjectsByManager(userId);
+        projects = await storage.getProjectsForUser(userId);
       }
-      
-      res.json(projects);
+
+      // Verzug aus dem Bauzeitenplan und Budgetüberschreitung für die Kennzeichnung im Dashboard
+      const { getScheduleSummary } = await import("./projectSchedule");
+      const projectIds = projects.map((project) => project.id);
+      const [phases, costTotals] = await Promise.all([
+        storage.getPhasesForProjects(projectIds),
+        storage.getCostTotalsForProjects(projectIds),
+      ]);
+      res.json(projects.map((project) => {
+        const { isDelayed, delayDays } = getScheduleSummary(phases.filter((phase) => phase.projectId === project.id));
+        const totals = costTotals.find((total) => total.projectId === project.id);
+        const isOverBudget = !!project.budget && !!totals && Number(totals.committed) + Number(totals.actual) > Number(project.budget);
+        return { ...project, isDelayed, delayDays, isOverBudget };
+      }));
     } catch (error) {
       console.error("Error fetching projects:", error);
       res.status(500).json({ message: "Failed to fetch projects" });
@@ -271,19 +468,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/projects/:id", isAuthenticated, async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
+      const access = await requireProjectAccess(req, res, projectId);
+      if (!access) return;
       
-      res.json(project);
+      res.json({ ...access.project, projectRole: access.role, projectPermissions: getProjectPermissions(access.role) });
     } catch (error) {
       console.error("Error fetching project:", error);
       res.status(500).json({ message: "Failed to fetch project" });
     }
   });
 
+  // Archived customers stay visible on their projects but cannot be assigned to further ones
+  const isActiveCustomer = async (customerId: number) => {
+    const customer = await storage.getCustomer(customerId);
+    return !!customer && !customer.archivedAt;
+  };
+
   app.post("/api/projects", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -297,6 +497,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         managerId: userId,
       });
+      if (projectData.customerId && !(await isActiveCustomer(projectData.customerId))) {
+        return res.status(400).json({ message: "Unknown or archived customer" });
+      }
+      // Ein neues Projekt hat noch kein Abnahmeprotokoll und kann daher nicht bereits abgeschlossen sein
+      if (projectData.status === "completed") {
+        return res.status(400).json({ message: "A project can only be completed after the acceptance protocol has been signed" });
+      }
       
       const project = await storage.createProject(projectData);
       res.status(201).json(project);
@@ -309,46 +516,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Fotos für PDF-Berichte laden; fehlende Inhalte werden übersprungen
+  const MAX_PDF_PHOTOS = 24;
+  const loadPdfPhotos = async (photoRecords: Photo[]) => {
+    const loaded = await Promise.all(photoRecords.slice(0, MAX_PDF_PHOTOS).map(async (photo) => {
+      try {
+        return {
+          data: await readStoredFile(photo.filePath),
+          caption: [photo.description, formatPdfDate(photo.createdAt)].filter(Boolean).join(' · '),
+        };
+      } catch (error) {
+        console.error(`Photo ${photo.id} could not be loaded for PDF:`, error);
+        return null;
+      }
+    }));
+    return loaded.filter((photo): photo is { data: Buffer; caption: string } => photo !== null);
+  };
+
   // PDF Export for Projects
   app.post("/api/projects/:id/export-pdf", isAuthenticated, async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const project = await storage.getProject(projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-
-      const { generateSimplePDF } = await import('./simplePdfGenerator');
-      
-      const pdfData = {
-        title: `Projekt: ${project.name}`,
-        content: `
-Projektdetails
-
-Projekt-ID: ${project.id}
-Name: ${project.name}
-Beschreibung: ${project.description || 'Keine Beschreibung verfügbar'}
-Status: ${project.status}
-Budget: ${project.budget ? `€${Number(project.budget).toLocaleString()}` : 'Nicht festgelegt'}
-Startdatum: ${project.startDate ? new Date(project.startDate).toLocaleDateString('de-DE') : 'Nicht festgelegt'}
-Enddatum: ${project.endDate ? new Date(project.endDate).toLocaleDateString('de-DE') : 'Nicht festgelegt'}
-Fortschritt: ${project.completionPercentage || 0}%
-
-${project.latitude && project.longitude ? `
-Standort:
-Breitengrad: ${project.latitude}
-Längengrad: ${project.longitude}
-` : ''}
-
-Erstellt am: ${new Date().toLocaleDateString('de-DE')}
-        `
-      };
+      const access = await requireProjectAccess(req, res, projectId);
+      if (!access) return;
+      const { project } = access;
 
-      const pdfBuffer = generateSimplePDF(pdfData);
+      const { generateProjectPDF } = await import('./pdfGenerator');
+      const user = await storage.getUser(req.user.id);
+      const [customer, locations, attachments, projectPhotos] = await Promise.all([
+        project.customerId ? storage.getCustomer(project.customerId) : Promise.resolve(undefined),
+        storage.getProjectLocations(projectId),
+        storage.getAttachments(projectId),
+        storage.getPhotos(projectId),
+      ]);
+
+      const pdfBuffer = await generateProjectPDF({
+        project,
+        customer,
+        locations,
+        attachments,
+        photos: await loadPdfPhotos(projectPhotos),
+        exportedBy: user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || undefined : undefined,
+      });
       
       res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${project.name}_Details.pdf"`);
+      res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(project.name)}_Details.pdf"`);
       res.send(pdfBuffer);
     } catch (error) {
       console.error("Error generating project PDF:", error);
@@ -359,14 +571,20 @@ Erstellt am: ${new Date().toLocaleDateString('de-DE')}
   app.put("/api/projects/:id", isAuthenticated, async (req: any, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role === "user") {
-        return res.status(403).json({ message: "Insufficient permissions" });
-      }
+      const access = await requireProjectAccess(req, res, projectId, "manage");
+      if (!access) return;
       
       const projectData = insertProjectSchema.partial().parse(req.body);
+      if (projectData.customerId && projectData.customerId !== access.project.customerId && !(await isActiveCustomer(projectData.customerId))) {
+        return res.status(400).json({ message: "Unknown or archived customer" });
+      }
+      // Der Abschluss eines Projekts setzt ein unterzeichnetes Abnahmeprotokoll voraus
+      if (projectData.status === "completed" && access.project.status !== "completed") {
+        const { isProjectAccepted } = await import("./acceptance");
+        if (!isProjectAccepted(await storage.getLatestSignedAcceptanceProtocol(projectId))) {
+          return res.status(409).json({ message: "A project can only be completed after the acceptance protocol has been signed" });
+        }
+      }
       const project = await storage.updateProject(projectId, projectData);
       
       res.json(project);
@@ -397,137 +615,3395 @@ Erstellt am: ${new Date().toLocaleDateString('de-DE')}
     }
   });
 
-  // Customer routes
-  app.get("/api/customers", isAuthenticated, async (req: any, res) => {
+  // Project team routes (Bauleiter, Polier, Gast); the project manager is listed separately and always counts as Bauleiter
+  app.get("/api/projects/:id/members", isAuthenticated, async (req: any, res) => {
     try {
-      const customers = await storage.getCustomers();
-      res.json(customers);
+      const projectId = parseInt(req.params.id);
+      const access = await requireProjectAccess(req, res, projectId);
+      if (!access) return;
+
+      const manager = access.project.managerId ? await storage.getUser(access.project.managerId) : undefined;
+      res.json({
+        manager: manager
+          ? { id: manager.id, firstName: manager.firstName, lastName: manager.lastName, email: manager.email }
+          : null,
+        members: await storage.getProjectMembers(projectId),
+      });
     } catch (error) {
-      console.error("Error fetching customers:", error);
-      res.status(500).json({ message: "Failed to fetch customers" });
+      console.error("Error fetching project members:", error);
+      res.status(500).json({ message: "Failed to fetch project members" });
     }
   });
 
-  app.get("/api/customers/:id", isAuthenticated, async (req: any, res) => {
+  app.post("/api/projects/:id/members", isAuthenticated, async (req: any, res) => {
     try {
-      const customerId = parseInt(req.params.id);
-      const customer = await storage.getCustomer(customerId);
-      
-      if (!customer) {
-        return res.status(404).json({ message: "Customer not found" });
+      const projectId = parseInt(req.params.id);
+      const access = await requireProjectAccess(req, res, projectId, "manage");
+      if (!access) return;
+
+      const { email, role } = z.object({
+        email: z.string().trim().email(),
+        role: z.enum(PROJECT_ROLES),
+      }).parse(req.body);
+
+      const member = await storage.getUserByEmail(email);
+      if (!member) {
+        return res.status(404).json({ message: "No user with this e-mail address" });
       }
-      
-      res.json(customer);
+      if (member.id === access.project.managerId) {
+        return res.status(409).json({ message: "The project manager is already Bauleiter of this project" });
+      }
+      if (await storage.getProjectMember(projectId, member.id)) {
+        return res.status(409).json({ message: "User is already a member of this project" });
+      }
+
+      const created = await storage.addProjectMember({ projectId, userId: member.id, role, addedBy: req.user.id });
+      res.status(201).json(created);
     } catch (error) {
-      console.error("Error fetching customer:", error);
-      res.status(500).json({ message: "Failed to fetch customer" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid member data", errors: error.errors });
+      }
+      console.error("Error adding project member:", error);
+      res.status(500).json({ message: "Failed to add project member" });
     }
   });
 
-  app.post("/api/customers", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/projects/:id/members/:memberId", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role === "user") {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      const projectId = parseInt(req.params.id);
+      const memberId = parseInt(req.params.memberId);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const { role } = z.object({
+        role: z.enum(PROJECT_ROLES),
+      }).parse(req.body);
+
+      const members = await storage.getProjectMembers(projectId);
+      if (!members.some((member) => member.id === memberId)) {
+        return res.status(404).json({ message: "Project member not found" });
       }
-      
-      const customerData = insertCustomerSchema.parse(req.body);
-      const customer = await storage.createCustomer(customerData);
-      res.status(201).json(customer);
+
+      res.json(await storage.updateProjectMember(memberId, role));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid customer data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid member data", errors: error.errors });
       }
-      console.error("Error creating customer:", error);
-      res.status(500).json({ message: "Failed to create customer" });
+      console.error("Error updating project member:", error);
+      res.status(500).json({ message: "Failed to update project member" });
     }
   });
 
-  app.put("/api/customers/:id", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/projects/:id/members/:memberId", isAuthenticated, async (req: any, res) => {
     try {
-      const customerId = parseInt(req.params.id);
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role === "user") {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      const projectId = parseInt(req.params.id);
+      const memberId = parseInt(req.params.memberId);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const members = await storage.getProjectMembers(projectId);
+      if (!members.some((member) => member.id === memberId)) {
+        return res.status(404).json({ message: "Project member not found" });
       }
-      
-      const customerData = insertCustomerSchema.partial().parse(req.body);
-      const customer = await storage.updateCustomer(customerId, customerData);
-      
-      res.json(customer);
+
+      await storage.removeProjectMember(memberId);
+      res.status(204).send();
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid customer data", errors: error.errors });
-      }
-      console.error("Error updating customer:", error);
-      res.status(500).json({ message: "Failed to update customer" });
+      console.error("Error removing project member:", error);
+      res.status(500).json({ message: "Failed to remove project member" });
     }
   });
 
-  // Company routes
-  app.get("/api/companies", isAuthenticated, async (req: any, res) => {
+  // Project schedule routes (phases and milestones with dependencies, planned vs. actual dates)
+  const PHASE_PLAN_FIELDS = ["kind", "name", "position", "weight", "plannedStart", "plannedEnd", "dependsOn"];
+
+  app.get("/api/projects/:id/phases", isAuthenticated, async (req: any, res) => {
     try {
-      const companies = await storage.getCompanies();
-      res.json(companies);
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId))) return;
+
+      const { findDependencyConflicts, getPhaseDelayDays, getPhaseProgress, getPhaseStatus, getScheduleSummary } = await import("./projectSchedule");
+      const phases = await storage.getProjectPhases(projectId);
+      const now = new Date();
+
+      res.json({
+        phases: phases.map((phase) => ({
+          ...phase,
+          status: getPhaseStatus(phase, now),
+          delayDays: getPhaseDelayDays(phase, now),
+          effectiveProgress: getPhaseProgress(phase),
+        })),
+        summary: getScheduleSummary(phases, now),
+        conflicts: findDependencyConflicts(phases),
+      });
     } catch (error) {
-      console.error("Error fetching companies:", error);
-      res.status(500).json({ message: "Failed to fetch companies" });
+      console.error("Error fetching project phases:", error);
+      res.status(500).json({ message: "Failed to fetch project phases" });
     }
   });
 
-  app.get("/api/companies/:id", isAuthenticated, async (req: any, res) => {
+  app.post("/api/projects/:id/phases", isAuthenticated, async (req: any, res) => {
     try {
-      const companyId = parseInt(req.params.id);
-      const company = await storage.getCompany(companyId);
-      
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const { ProjectScheduleError, assertValidDependencies, refreshProjectCompletion } = await import("./projectSchedule");
+      const phaseData = insertProjectPhaseSchema.parse({ ...req.body, projectId });
+      if (phaseData.kind === "milestone") {
+        phaseData.plannedStart = null;
       }
-      
-      res.json(company);
+      if (phaseData.plannedStart && phaseData.plannedStart > phaseData.plannedEnd) {
+        return res.status(400).json({ message: "Planned start must not be after planned end" });
+      }
+
+      const existing = await storage.getProjectPhases(projectId);
+      try {
+        assertValidDependencies(existing, null, phaseData.dependsOn ?? []);
+      } catch (error) {
+        if (error instanceof ProjectScheduleError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      const phase = await storage.createProjectPhase({
+        ...phaseData,
+        position: phaseData.position ?? existing.length,
+      });
+      await refreshProjectCompletion(projectId);
+      res.status(201).json(phase);
     } catch (error) {
-      console.error("Error fetching company:", error);
-      res.status(500).json({ message: "Failed to fetch company" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid phase data", errors: error.errors });
+      }
+      console.error("Error creating project phase:", error);
+      res.status(500).json({ message: "Failed to create project phase" });
     }
   });
 
-  app.post("/api/companies", isAuthenticated, async (req: any, res) => {
+  // Poliere melden Fortschritt und Ist-Termine; Planänderungen bleiben dem Bauleiter vorbehalten
+  app.patch("/api/projects/:id/phases/:phaseId", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role === "user") {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      const projectId = parseInt(req.params.id);
+      const phaseId = parseInt(req.params.phaseId);
+      const changesPlan = Object.keys(req.body).some((field) => PHASE_PLAN_FIELDS.includes(field));
+      if (!(await requireProjectAccess(req, res, projectId, changesPlan ? "manage" : "edit"))) return;
+
+      const phase = await storage.getProjectPhase(phaseId);
+      if (!phase || phase.projectId !== projectId) {
+        return res.status(404).json({ message: "Project phase not found" });
       }
-      
-      const companyData = insertCompanySchema.parse(req.body);
-      const company = await storage.createCompany(companyData);
-      res.status(201).json(company);
+
+      const { ProjectScheduleError, assertValidDependencies, refreshProjectCompletion } = await import("./projectSchedule");
+      const phaseData = insertProjectPhaseSchema.omit({ projectId: true }).partial().parse(req.body);
+      const kind = phaseData.kind ?? phase.kind;
+      if (kind === "milestone") {
+        phaseData.plannedStart = null;
+      }
+      const plannedStart = phaseData.plannedStart !== undefined ? phaseData.plannedStart : phase.plannedStart;
+      if (plannedStart && plannedStart > (phaseData.plannedEnd ?? phase.plannedEnd)) {
+        return res.status(400).json({ message: "Planned start must not be after planned end" });
+      }
+
+      if (phaseData.dependsOn) {
+        try {
+          assertValidDependencies(await storage.getProjectPhases(projectId), phaseId, phaseData.dependsOn);
+        } catch (error) {
+          if (error instanceof ProjectScheduleError) {
+            return res.status(400).json({ message: error.message });
+          }
+          throw error;
+        }
+      }
+
+      const updated = await storage.updateProjectPhase(phaseId, phaseData);
+      await refreshProjectCompletion(projectId);
+      res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid company data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid phase data", errors: error.errors });
       }
-      console.error("Error creating company:", error);
-      res.status(500).json({ message: "Failed to create company" });
+      console.error("Error updating project phase:", error);
+      res.status(500).json({ message: "Failed to update project phase" });
     }
   });
 
-  // Person routes
+  app.delete("/api/projects/:id/phases/:phaseId", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const phaseId = parseInt(req.params.phaseId);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const phase = await storage.getProjectPhase(phaseId);
+      if (!phase || phase.projectId !== projectId) {
+        return res.status(404).json({ message: "Project phase not found" });
+      }
+
+      const { refreshProjectCompletion } = await import("./projectSchedule");
+      await storage.deleteProjectPhase(phaseId);
+      await refreshProjectCompletion(projectId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting project phase:", error);
+      res.status(500).json({ message: "Failed to delete project phase" });
+    }
+  });
+
+  // Project cost routes (budget tracking with committed and actual costs)
+  const isKnownCompany = async (companyId: number | null | undefined) =>
+    !companyId || !!(await storage.getCompany(companyId));
+
+  app.get("/api/projects/:id/costs", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const access = await requireProjectAccess(req, res, projectId);
+      if (!access) return;
+
+      const { getBudgetSummary } = await import("./projectBudget");
+      const costs = await storage.getProjectCosts(projectId);
+      res.json({ costs, summary: getBudgetSummary(access.project, costs) });
+    } catch (error) {
+      console.error("Error fetching project costs:", error);
+      res.status(500).json({ message: "Failed to fetch project costs" });
+    }
+  });
+
+  app.post("/api/projects/:id/costs", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const costData = insertProjectCostSchema.parse({ ...req.body, projectId, createdBy: req.user.id });
+      if (!(await isKnownCompany(costData.companyId))) {
+        return res.status(400).json({ message: "Unknown company" });
+      }
+
+      const cost = await storage.createProjectCost(costData);
+      res.status(201).json(cost);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cost entry", errors: error.errors });
+      }
+      console.error("Error creating project cost:", error);
+      res.status(500).json({ message: "Failed to create cost entry" });
+    }
+  });
+
+  app.patch("/api/projects/:id/costs/:costId", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const costId = parseInt(req.params.costId);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const existing = await storage.getProjectCost(costId);
+      if (!existing || existing.projectId !== projectId) {
+        return res.status(404).json({ message: "Cost entry not found" });
+      }
+
+      const costData = insertProjectCostSchema.omit({ projectId: true, createdBy: true }).partial().parse(req.body);
+      if (!(await isKnownCompany(costData.companyId))) {
+        return res.status(400).json({ message: "Unknown company" });
+      }
+
+      const cost = await storage.updateProjectCost(costId, costData);
+      res.json(cost);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cost entry", errors: error.errors });
+      }
+      console.error("Error updating project cost:", error);
+      res.status(500).json({ message: "Failed to update cost entry" });
+    }
+  });
+
+  app.delete("/api/projects/:id/costs/:costId", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const costId = parseInt(req.params.costId);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const existing = await storage.getProjectCost(costId);
+      if (!existing || existing.projectId !== projectId) {
+        return res.status(404).json({ message: "Cost entry not found" });
+      }
+
+      await storage.deleteProjectCost(costId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting project cost:", error);
+      res.status(500).json({ message: "Failed to delete cost entry" });
+    }
+  });
+
+  // Project company routes (subcontractors with trade, contract value and time on site)
+  const isDuplicateAssignment = async (projectId: number, companyId: number, trade: string, exceptId?: number) =>
+    (await storage.getProjectCompanies(projectId)).some((assignment) =>
+      assignment.id !== exceptId && assignment.companyId === companyId && assignment.trade.toLowerCase() === trade.toLowerCase());
+
+  app.get("/api/projects/:id/companies", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId))) return;
+
+      const { isCompanyOnSite, summarizeProjectCompanies } = await import("./projectCompanies");
+      const assignments = await storage.getProjectCompanies(projectId);
+      res.json({
+        assignments: assignments.map((assignment) => ({ ...assignment, isOnSite: isCompanyOnSite(assignment) })),
+        summary: summarizeProjectCompanies(assignments),
+      });
+    } catch (error) {
+      console.error("Error fetching project companies:", error);
+      res.status(500).json({ message: "Failed to fetch project companies" });
+    }
+  });
+
+  app.post("/api/projects/:id/companies", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const { assertProjectCompanyReferences, ProjectCompanyError } = await import("./projectCompanies");
+      const assignmentData = insertProjectCompanySchema.parse({ ...req.body, projectId, createdBy: req.user.id });
+      try {
+        await assertProjectCompanyReferences(assignmentData);
+      } catch (error) {
+        if (error instanceof ProjectCompanyError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+      if (await isDuplicateAssignment(projectId, assignmentData.companyId, assignmentData.trade)) {
+        return res.status(409).json({ message: "The company is already assigned to this project for this trade" });
+      }
+
+      const assignment = await storage.createProjectCompany(assignmentData);
+      res.status(201).json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid company assignment", errors: error.errors });
+      }
+      console.error("Error creating project company:", error);
+      res.status(500).json({ message: "Failed to assign company" });
+    }
+  });
+
+  app.patch("/api/projects/:id/companies/:assignmentId", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const assignmentId = parseInt(req.params.assignmentId);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const existing = await storage.getProjectCompany(assignmentId);
+      if (!existing || existing.projectId !== projectId) {
+        return res.status(404).json({ message: "Company assignment not found" });
+      }
+
+      const { assertProjectCompanyReferences, ProjectCompanyError } = await import("./projectCompanies");
+      const assignmentData = insertProjectCompanySchema.omit({ projectId: true, createdBy: true }).partial().parse(req.body);
+      const merged = { ...existing, ...assignmentData };
+      try {
+        await assertProjectCompanyReferences(merged, existing.companyId);
+      } catch (error) {
+        if (error instanceof ProjectCompanyError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+      if (await isDuplicateAssignment(projectId, merged.companyId, merged.trade, assignmentId)) {
+        return res.status(409).json({ message: "The company is already assigned to this project for this trade" });
+      }
+
+      const assignment = await storage.updateProjectCompany(assignmentId, assignmentData);
+      res.json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid company assignment", errors: error.errors });
+      }
+      console.error("Error updating project company:", error);
+      res.status(500).json({ message: "Failed to update company assignment" });
+    }
+  });
+
+  app.delete("/api/projects/:id/companies/:assignmentId", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const assignmentId = parseInt(req.params.assignmentId);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const existing = await storage.getProjectCompany(assignmentId);
+      if (!existing || existing.projectId !== projectId) {
+        return res.status(404).json({ message: "Company assignment not found" });
+      }
+
+      await storage.deleteProjectCompany(assignmentId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting project company:", error);
+      res.status(500).json({ message: "Failed to remove company assignment" });
+    }
+  });
+
+  // Address book routes (customers, companies and their contacts); managers and admins maintain them
+  const requireAddressBookWrite = async (req: any, res: any, adminOnly = false) => {
+    const user = await storage.getUser(req.user.id);
+    if (adminOnly ? user?.role !== "admin" : user?.role === "user") {
+      res.status(403).json({ message: "Insufficient permissions" });
+      return false;
+    }
+    return true;
+  };
+
+  // Customer routes; ?archived=true lists the archive instead of the active customers
+  app.get("/api/customers", isAuthenticated, async (req: any, res) => {
+    try {
+      const { parseArchivedFilter } = await import("./addressBook");
+      const customers = await storage.getCustomers(parseArchivedFilter(req.query.archived));
+      res.json(customers);
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      res.status(500).json({ message: "Failed to fetch customers" });
+    }
+  });
+
+  app.get("/api/customers/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      const customer = await storage.getCustomer(customerId);
+      
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      res.json(customer);
+    } catch (error) {
+      console.error("Error fetching customer:", error);
+      res.status(500).json({ message: "Failed to fetch customer" });
+    }
+  });
+
+  app.post("/api/customers", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!(await requireAddressBookWrite(req, res))) return;
+      
+      const customerData = insertCustomerSchema.superRefine(refinePostalCode).parse(req.body);
+      const customer = await storage.createCustomer(customerData);
+      res.status(201).json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid customer data", errors: error.errors });
+      }
+      console.error("Error creating customer:", error);
+      res.status(500).json({ message: "Failed to create customer" });
+    }
+  });
+
+  app.put("/api/customers/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res))) return;
+      const existing = await storage.getCustomer(customerId);
+      if (!existing) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      // Postleitzahl und Land werden zusammen mit den gespeicherten Werten geprüft
+      const customerData = insertCustomerSchema
+        .partial()
+        .superRefine((data, ctx) => refinePostalCode({ postalCode: existing.postalCode, country: existing.country, ...data }, ctx))
+        .parse(req.body);
+      const customer = await storage.updateCustomer(customerId, customerData);
+      
+      res.json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid customer data", errors: error.errors });
+      }
+      console.error("Error updating customer:", error);
+      res.status(500).json({ message: "Failed to update customer" });
+    }
+  });
+
+  app.post("/api/customers/:id/archive", isAuthenticated, async (req: any, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res))) return;
+      if (!(await storage.getCustomer(customerId))) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      res.json(await storage.setCustomerArchived(customerId, true));
+    } catch (error) {
+      console.error("Error archiving customer:", error);
+      res.status(500).json({ message: "Failed to archive customer" });
+    }
+  });
+
+  app.post("/api/customers/:id/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res))) return;
+      if (!(await storage.getCustomer(customerId))) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      res.json(await storage.setCustomerArchived(customerId, false));
+    } catch (error) {
+      console.error("Error restoring customer:", error);
+      res.status(500).json({ message: "Failed to restore customer" });
+    }
+  });
+
+  // Hard delete; customers that are still referenced by projects can only be archived
+  app.delete("/api/customers/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const customerId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res, true))) return;
+      if (!(await storage.getCustomer(customerId))) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const { getCustomerDeleteBlockers } = await import("./addressBook");
+      const blockers = getCustomerDeleteBlockers(await storage.getCustomerReferences(customerId));
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: "Customer is still referenced and can only be archived", blockers });
+      }
+
+      await storage.deleteCustomer(customerId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting customer:", error);
+      res.status(500).json({ message: "Failed to delete customer" });
+    }
+  });
+
+  // Company routes; ?archived=true lists the archive instead of the active companies
+  app.get("/api/companies", isAuthenticated, async (req: any, res) => {
+    try {
+      const { parseArchivedFilter } = await import("./addressBook");
+      const companies = await storage.getCompanies(parseArchivedFilter(req.query.archived));
+      res.json(companies);
+    } catch (error) {
+      console.error("Error fetching companies:", error);
+      res.status(500).json({ message: "Failed to fetch companies" });
+    }
+  });
+
+  app.get("/api/companies/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      const company = await storage.getCompany(companyId);
+      
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      
+      res.json(company);
+    } catch (error) {
+      console.error("Error fetching company:", error);
+      res.status(500).json({ message: "Failed to fetch company" });
+    }
+  });
+
+  // Projects a (sub)contractor works on, limited to the projects visible to the user
+  app.get("/api/companies/:id/projects", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const companyId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+
+      if (!(await storage.getCompany(companyId))) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+
+      const { isCompanyOnSite } = await import("./projectCompanies");
+      const projectIds = user?.role === "admin" ? undefined : await storage.getProjectIdsForUser(userId);
+      const assignments = await storage.getCompanyProjects(companyId, projectIds);
+      res.json(assignments.map((assignment) => ({ ...assignment, isOnSite: isCompanyOnSite(assignment) })));
+    } catch (error) {
+      console.error("Error fetching company projects:", error);
+      res.status(500).json({ message: "Failed to fetch company projects" });
+    }
+  });
+
+  app.post("/api/companies", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!(await requireAddressBookWrite(req, res))) return;
+      
+      const companyData = insertCompanySchema.superRefine(refinePostalCode).parse(req.body);
+      const company = await storage.createCompany(companyData);
+      res.status(201).json(company);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid company data", errors: error.errors });
+      }
+      console.error("Error creating company:", error);
+      res.status(500).json({ message: "Failed to create company" });
+    }
+  });
+
+  app.patch("/api/companies/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res))) return;
+      const existing = await storage.getCompany(companyId);
+      if (!existing) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+
+      // Postleitzahl und Land werden zusammen mit den gespeicherten Werten geprüft
+      const companyData = insertCompanySchema
+        .partial()
+        .superRefine((data, ctx) => refinePostalCode({ postalCode: existing.postalCode, country: existing.country, ...data }, ctx))
+        .parse(req.body);
+      const company = await storage.updateCompany(companyId, companyData);
+      res.json(company);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid company data", errors: error.errors });
+      }
+      console.error("Error updating company:", error);
+      res.status(500).json({ message: "Failed to update company" });
+    }
+  });
+
+  app.post("/api/companies/:id/archive", isAuthenticated, async (req: any, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res))) return;
+      if (!(await storage.getCompany(companyId))) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+
+      res.json(await storage.setCompanyArchived(companyId, true));
+    } catch (error) {
+      console.error("Error archiving company:", error);
+      res.status(500).json({ message: "Failed to archive company" });
+    }
+  });
+
+  app.post("/api/companies/:id/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res))) return;
+      if (!(await storage.getCompany(companyId))) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+
+      res.json(await storage.setCompanyArchived(companyId, false));
+    } catch (error) {
+      console.error("Error restoring company:", error);
+      res.status(500).json({ message: "Failed to restore company" });
+    }
+  });
+
+  // Hard delete; companies with project assignments, costs, defects or persons can only be archived
+  app.delete("/api/companies/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res, true))) return;
+      if (!(await storage.getCompany(companyId))) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+
+      const { getCompanyDeleteBlockers } = await import("./addressBook");
+      const blockers = getCompanyDeleteBlockers(await storage.getCompanyReferences(companyId));
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: "Company is still referenced and can only be archived", blockers });
+      }
+
+      await storage.deleteCompany(companyId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting company:", error);
+      res.status(500).json({ message: "Failed to delete company" });
+    }
+  });
+
+  // Address book import (CSV/XLSX, vCard): preview validates and finds duplicates, import creates all valid rows at once
+  const addressImportUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024, files: 1 },
+  });
+
+  const receiveAddressImport = (req: any, res: any, next: any) => {
+    addressImportUpload.single("file")(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(error.code === "LIMIT_FILE_SIZE" ? 413 : 400).json({
+          message: error.code === "LIMIT_FILE_SIZE" ? "Die Datei überschreitet die maximale Größe von 5 MB" : error.message
+        });
+      }
+      next(error);
+    });
+  };
+
+  const addressImportMappingSchema = z.record(z.number().int().min(0).nullable());
+
+  const prepareAddressImport = async (req: any, entity: AddressEntity) => {
+    const { readImportFile, suggestColumnMapping, buildImportPreview, loadImportContext, AddressImportError } = await import("./addressImport");
+    if (!req.file) {
+      throw new AddressImportError("File is required");
+    }
+    // multer liefert Dateinamen als latin1
+    const fileName = Buffer.from(req.file.originalname, "latin1").toString("utf8");
+    const sheet = await readImportFile(req.file.buffer, fileName);
+    const mapping = req.body.mapping
+      ? addressImportMappingSchema.parse(JSON.parse(req.body.mapping))
+      : suggestColumnMapping(entity, sheet.headers);
+    const { existing, parents } = await loadImportContext(entity);
+    return { fileName, sheet, mapping, rows: buildImportPreview(entity, sheet, mapping, existing, parents) };
+  };
+
+  const sendAddressImportError = async (res: any, error: unknown, message: string) => {
+    const { AddressImportError } = await import("./addressImport");
+    if (error instanceof AddressImportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return res.status(400).json({ message: "Invalid import data", errors: error instanceof z.ZodError ? error.errors : undefined });
+    }
+    console.error(`${message}:`, error);
+    res.status(500).json({ message });
+  };
+
+  app.post("/api/address-book/:entity/import/preview", isAuthenticated, receiveAddressImport, async (req: any, res) => {
+    try {
+      const { isAddressEntity, IMPORT_FIELDS, summarizeImportPreview } = await import("./addressImport");
+      const entity: unknown = req.params.entity;
+      if (!isAddressEntity(entity)) {
+        return res.status(404).json({ message: "Unknown address book entity" });
+      }
+      if (!(await requireAddressBookWrite(req, res))) return;
+
+      const { fileName, sheet, mapping, rows } = await prepareAddressImport(req, entity);
+      res.json({
+        fileName,
+        headers: sheet.headers,
+        fields: IMPORT_FIELDS[entity],
+        mapping,
+        rows,
+        summary: summarizeImportPreview(rows),
+      });
+    } catch (error) {
+      await sendAddressImportError(res, error, "Failed to preview import");
+    }
+  });
+
+  app.post("/api/address-book/:entity/import", isAuthenticated, receiveAddressImport, async (req: any, res) => {
+    try {
+      const { isAddressEntity, importAddressRows } = await import("./addressImport");
+      const entity: unknown = req.params.entity;
+      if (!isAddressEntity(entity)) {
+        return res.status(404).json({ message: "Unknown address book entity" });
+      }
+      if (!(await requireAddressBookWrite(req, res))) return;
+
+      const { rows } = await prepareAddressImport(req, entity);
+      const result = await importAddressRows(entity, rows, req.body.includeDuplicates === "true");
+      res.status(201).json(result);
+    } catch (error) {
+      await sendAddressImportError(res, error, "Failed to import address data");
+    }
+  });
+
+  // Export as CSV (Excel-compatible, semicolon) or XLSX; ?archived=true exports the archive
+  app.get("/api/address-book/:entity/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const { isAddressEntity, loadAddressExport, toCsv, toXlsx, ENTITY_LABELS } = await import("./addressImport");
+      const { parseArchivedFilter } = await import("./addressBook");
+      const entity: unknown = req.params.entity;
+      if (!isAddressEntity(entity)) {
+        return res.status(404).json({ message: "Unknown address book entity" });
+      }
+      const format = req.query.format === "xlsx" ? "xlsx" : "csv";
+      const archived = parseArchivedFilter(req.query.archived);
+      const { headers, rows } = await loadAddressExport(entity, archived);
+      const label = ENTITY_LABELS[entity];
+      const fileName = `${label.toLowerCase()}${archived ? "-archiv" : ""}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      if (format === "xlsx") {
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+        return res.send(await toXlsx(label, headers, rows));
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(toCsv(headers, rows));
+    } catch (error) {
+      console.error("Error exporting address data:", error);
+      res.status(500).json({ message: "Failed to export address data" });
+    }
+  });
+
+  // Duplicate finder across persons, customer contacts and company contacts
+  app.get("/api/address-book/duplicates", isAuthenticated, async (req: any, res) => {
+    try {
+      const { findDuplicateGroups, loadContactRecords } = await import("./contactDuplicates");
+      res.json(findDuplicateGroups(await loadContactRecords()));
+    } catch (error) {
+      console.error("Error finding duplicate contacts:", error);
+      res.status(500).json({ message: "Failed to find duplicate contacts" });
+    }
+  });
+
+  const contactMergeSchema = z.object({
+    kind: z.enum(["person", "customer-contact", "company-contact"]),
+    survivorId: z.number().int().positive(),
+    duplicates: z.array(z.object({
+      kind: z.enum(["person", "customer-contact", "company-contact"]),
+      id: z.number().int().positive(),
+    })).min(1),
+  });
+
+  app.post("/api/address-book/merge", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!(await requireAddressBookWrite(req, res))) return;
+      const { kind, survivorId, duplicates } = contactMergeSchema.parse(req.body);
+
+      const { mergeContacts } = await import("./contactDuplicates");
+      const survivor = await mergeContacts(kind, survivorId, duplicates);
+      if (!survivor) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      res.json(survivor);
+    } catch (error) {
+      const { ContactMergeError } = await import("./contactDuplicates");
+      if (error instanceof ContactMergeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid merge data", errors: error.errors });
+      }
+      console.error("Error merging contacts:", error);
+      res.status(500).json({ message: "Failed to merge contacts" });
+    }
+  });
+
+  // vCard per contact; ?version=4.0 for vCard 4, otherwise 3.0
+  app.get("/api/address-book/contacts/:kind/:id/vcard", isAuthenticated, async (req: any, res) => {
+    try {
+      const { isContactKind, loadVCardContact } = await import("./contactDuplicates");
+      const { toVCard } = await import("./vcard");
+      const kind: unknown = req.params.kind;
+      const contact = isContactKind(kind) ? await loadVCardContact(kind, parseInt(req.params.id)) : undefined;
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const fileName = [contact.firstName, contact.lastName].filter(Boolean).join("_") || "kontakt";
+      res.setHeader("Content-Type", "text/vcard; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(fileName)}.vcf"`);
+      res.send(toVCard(contact, req.query.version === "4.0" ? "4.0" : "3.0"));
+    } catch (error) {
+      console.error("Error exporting vCard:", error);
+      res.status(500).json({ message: "Failed to export vCard" });
+    }
+  });
+
+  const vCardImportSchema = z.object({
+    target: z.enum(["persons", "customer-contacts", "company-contacts"]),
+    parentId: z.coerce.number().int().positive().optional(),
+  });
+
+  app.post("/api/address-book/vcard", isAuthenticated, receiveAddressImport, async (req: any, res) => {
+    try {
+      if (!(await requireAddressBookWrite(req, res))) return;
+      if (!req.file) {
+        return res.status(400).json({ message: "File is required" });
+      }
+      const { target, parentId } = vCardImportSchema.parse(req.body);
+
+      const { parseVCards, importVCards } = await import("./vcard");
+      const result = await importVCards(target, parseVCards(req.file.buffer.toString("utf8")), parentId);
+      res.status(201).json(result);
+    } catch (error) {
+      const { VCardError } = await import("./vcard");
+      if (error instanceof VCardError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid vCard import", errors: error.errors });
+      }
+      console.error("Error importing vCards:", error);
+      res.status(500).json({ message: "Failed to import vCards" });
+    }
+  });
+
+  // Person routes
   app.get("/api/persons", isAuthenticated, async (req: any, res) => {
     try {
-      const persons = await storage.getPersons();
-      res.json(persons);
+      const persons = await storage.getPersons();
+      res.json(persons);
+    } catch (error) {
+      console.error("Error fetching persons:", error);
+      res.status(500).json({ message: "Failed to fetch persons" });
+    }
+  });
+
+  app.post("/api/persons", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      
+      const personData = insertPersonSchema.parse(req.body);
+      const person = await storage.createPerson(personData);
+      res.status(201).json(person);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid person data", errors: error.errors });
+      }
+      console.error("Error creating person:", error);
+      res.status(500).json({ message: "Failed to create person" });
+    }
+  });
+
+  // Gespeicherte Dateiinhalte werden nur über authentifizierte Routen ausgeliefert
+  const sendStoredFile = async (
+    req: any,
+    res: any,
+    record: { fileName: string; filePath: string; contentHash: string | null },
+    contentType: string,
+  ) => {
+    if (record.contentHash && req.headers['if-none-match'] === `"${record.contentHash}"`) {
+      return res.status(304).end();
+    }
+
+    try {
+      const stream = await (await getFileStorage()).get(record.filePath);
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.setHeader(
+        'Content-Disposition',
+        `${req.query.download ? 'attachment' : 'inline'}; filename="${encodeURIComponent(record.fileName)}"`
+      );
+      if (record.contentHash) {
+        res.setHeader('ETag', `"${record.contentHash}"`);
+      }
+      await pipeline(stream, res);
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return res.status(404).json({ message: "File content not found" });
+      }
+      throw error;
+    }
+  };
+
+  // Löscht den Dateiinhalt, sobald kein Datensatz mehr darauf verweist (Inhalte werden per Hash geteilt)
+  const releaseStoredFile = async (record: { filePath: string; contentHash: string | null }) => {
+    if (record.contentHash && await storage.isContentHashReferenced(record.contentHash)) {
+      return;
+    }
+    try {
+      await (await getFileStorage()).delete(record.filePath);
+    } catch (error) {
+      console.error(`Error deleting stored file ${record.filePath}:`, error);
+    }
+  };
+
+  // Attachment routes
+  app.get("/api/attachments", isAuthenticated, async (req: any, res) => {
+    try {
+      const attachments = await storage.getAllAttachments(await getProjectScope(req.user.id));
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.get("/api/projects/:id/attachments", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId))) return;
+      const attachments = await storage.getAttachments(projectId);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  // Uploads: direkt per multipart/form-data (Feld "file") oder fortsetzbar in Chunks für große PDF/DWG-Pläne
+  const attachmentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_DIRECT_UPLOAD_BYTES, files: 1 },
+  });
+
+  const sendUploadError = (res: any, error: unknown, message: string) => {
+    if (error instanceof AttachmentUploadError || error instanceof ProjectAccessError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    console.error(`${message}:`, error);
+    res.status(500).json({ message });
+  };
+
+  const uploadTargetSchema = z.object({
+    projectId: z.coerce.number().int().positive(),
+  });
+
+  const assertUploadAllowed = async (userId: string, projectId: number, additionalBytes: number) => {
+    await assertProjectAccess(userId, projectId, "edit");
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new AttachmentUploadError("User not found", 401);
+    }
+    const plan = await storage.getLicensePlan(user.licenseType || "basic");
+    assertStorageQuota(await storage.getAttachmentStorageUsage(user.id), additionalBytes, getStorageLimitBytes(plan));
+  };
+
+  const assertVirusFree = async (source: Buffer | string, fileName: string) => {
+    const result = await scanForViruses(source, fileName);
+    if (!result.clean) {
+      throw new AttachmentUploadError(`Die Datei wurde vom Virenscanner abgelehnt (${result.signature || "unbekannt"})`, 422);
+    }
+  };
+
+  app.post("/api/attachments", isAuthenticated, (req: any, res, next) => {
+    attachmentUpload.single("file")(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(error.code === "LIMIT_FILE_SIZE" ? 413 : 400).json({
+          message: error.code === "LIMIT_FILE_SIZE"
+            ? `Die Datei überschreitet die maximale Größe von ${MAX_DIRECT_UPLOAD_BYTES / (1024 * 1024)} MB`
+            : error.message
+        });
+      }
+      next(error);
+    });
+  }, async (req: any, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "File is required" });
+      }
+
+      const { projectId } = uploadTargetSchema.parse(req.body);
+      // multer liefert Dateinamen als latin1
+      const fileName = Buffer.from(file.originalname, "latin1").toString("utf8");
+      const mimeType = validateAttachmentFile({ fileName, mimeType: file.mimetype, size: file.size });
+      if (!matchesFileSignature(mimeType, file.buffer)) {
+        throw new AttachmentUploadError("Dateiinhalt entspricht nicht dem angegebenen Dateityp", 415);
+      }
+
+      await assertUploadAllowed(req.user.id, projectId, file.size);
+      await assertVirusFree(file.buffer, fileName);
+
+      const stored = await storeFile(file.buffer, mimeType);
+      const attachment = await storage.createAttachment({
+        fileName,
+        filePath: stored.key,
+        contentHash: stored.contentHash,
+        fileSize: stored.size,
+        mimeType,
+        projectId,
+        uploadedBy: req.user.id,
+      });
+
+      res.status(201).json(attachment);
+    } catch (error) {
+      sendUploadError(res, error, "Failed to upload attachment");
+    }
+  });
+
+  app.post("/api/attachments/uploads", isAuthenticated, async (req: any, res) => {
+    try {
+      const data = uploadTargetSchema.extend({
+        fileName: z.string().min(1).max(255),
+        fileSize: z.number().int().positive(),
+        mimeType: z.string().optional(),
+      }).parse(req.body);
+
+      const mimeType = validateAttachmentFile({ fileName: data.fileName, mimeType: data.mimeType, size: data.fileSize }, { chunked: true });
+      await assertUploadAllowed(req.user.id, data.projectId, data.fileSize);
+
+      const session = await createUploadSession({
+        userId: req.user.id,
+        projectId: data.projectId,
+        fileName: data.fileName,
+        mimeType,
+        fileSize: data.fileSize,
+      });
+
+      res.status(201).json({ ...session, chunkSize: UPLOAD_CHUNK_BYTES });
+    } catch (error) {
+      sendUploadError(res, error, "Failed to start upload");
+    }
+  });
+
+  app.get("/api/attachments/uploads/:uploadId", isAuthenticated, async (req: any, res) => {
+    try {
+      const session = await getUploadSession(req.params.uploadId, req.user.id);
+      res.json({ ...session, chunkSize: UPLOAD_CHUNK_BYTES });
+    } catch (error) {
+      sendUploadError(res, error, "Failed to fetch upload");
+    }
+  });
+
+  app.put(
+    "/api/attachments/uploads/:uploadId",
+    isAuthenticated,
+    express.raw({ type: "application/octet-stream", limit: UPLOAD_CHUNK_BYTES }),
+    async (req: any, res) => {
+      try {
+        const offset = parseInt(req.query.offset);
+        if (isNaN(offset) || !Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "Offset query parameter and application/octet-stream body are required" });
+        }
+
+        const session = await getUploadSession(req.params.uploadId, req.user.id);
+        const updated = await appendUploadChunk(session, offset, req.body);
+        res.json({ id: updated.id, receivedBytes: updated.receivedBytes, fileSize: updated.fileSize });
+      } catch (error) {
+        sendUploadError(res, error, "Failed to store upload chunk");
+      }
+    }
+  );
+
+  app.post("/api/attachments/uploads/:uploadId/complete", isAuthenticated, async (req: any, res) => {
+    try {
+      const session = await getUploadSession(req.params.uploadId, req.user.id);
+      const filePath = getUploadFilePath(session);
+
+      // Kontingent erneut prüfen, da parallel andere Uploads abgeschlossen worden sein können
+      await assertUploadAllowed(req.user.id, session.projectId!, session.fileSize);
+      await assertVirusFree(filePath, session.fileName);
+
+      const stored = await storeLocalFile(filePath, session.mimeType);
+      const attachment = await storage.createAttachment({
+        fileName: session.fileName,
+        filePath: stored.key,
+        contentHash: stored.contentHash,
+        fileSize: stored.size,
+        mimeType: session.mimeType,
+        projectId: session.projectId,
+        uploadedBy: req.user.id,
+      });
+      await removeUploadSession(session.id);
+
+      res.status(201).json(attachment);
+    } catch (error) {
+      sendUploadError(res, error, "Failed to complete upload");
+    }
+  });
+
+  app.delete("/api/attachments/uploads/:uploadId", isAuthenticated, async (req: any, res) => {
+    try {
+      const session = await getUploadSession(req.params.uploadId, req.user.id);
+      await removeUploadSession(session.id);
+      res.json({ message: "Upload cancelled" });
+    } catch (error) {
+      sendUploadError(res, error, "Failed to cancel upload");
+    }
+  });
+
+  app.get("/api/attachments/:id/file", isAuthenticated, async (req: any, res) => {
+    try {
+      const attachment = await storage.getAttachment(parseInt(req.params.id));
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      if (attachment.projectId && !(await requireProjectAccess(req, res, attachment.projectId))) return;
+      await sendStoredFile(req, res, attachment, attachment.mimeType || 'application/octet-stream');
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to download attachment" });
+      }
+    }
+  });
+
+  app.delete("/api/attachments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const attachmentId = parseInt(req.params.id);
+      const existing = await storage.getAttachment(attachmentId);
+      if (!existing) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      if (existing.projectId) {
+        if (!(await requireProjectAccess(req, res, existing.projectId, "edit"))) return;
+      } else if (existing.uploadedBy !== req.user.id) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const attachment = await storage.deleteAttachment(attachmentId);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      await releaseStoredFile(attachment);
+
+      res.json({ message: "Attachment deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Photo routes
+  app.get("/api/projects/:id/photos", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId))) return;
+      const photos = await storage.getPhotos(projectId);
+      res.json(photos);
+    } catch (error) {
+      console.error("Error fetching photos:", error);
+      res.status(500).json({ message: "Failed to fetch photos" });
+    }
+  });
+
+  // Audio routes
+  app.get("/api/projects/:id/audio", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId))) return;
+      const audioRecords = await storage.getAudioRecords(projectId);
+      res.json(audioRecords);
+    } catch (error) {
+      console.error("Error fetching audio records:", error);
+      res.status(500).json({ message: "Failed to fetch audio records" });
+    }
+  });
+
+  // Inspection routes (SiGeKo, trench and equipment inspections built from versioned templates)
+  app.get("/api/inspection-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const templates = await storage.getInspectionTemplates({
+        type: req.query.type ? String(req.query.type) : undefined,
+        activeOnly: req.query.active === "true",
+      });
+      const items = await storage.getInspectionTemplateItems(templates.map((template) => template.id));
+      res.json(templates.map((template) => ({
+        ...template,
+        items: items.filter((item) => item.templateId === template.id),
+      })));
+    } catch (error) {
+      console.error("Error fetching inspection templates:", error);
+      res.status(500).json({ message: "Failed to fetch inspection templates" });
+    }
+  });
+
+  // Active template of a type; without a maintained template the built-in one is returned (id null, version 0)
+  app.get("/api/inspection-templates/active/:type", isAuthenticated, async (req: any, res) => {
+    try {
+      const { isInspectionType, loadInspectionTemplate, INSPECTION_TYPE_LABELS } = await import("./inspections");
+      const type = req.params.type;
+      if (!isInspectionType(type)) {
+        return res.status(400).json({ message: "Unknown inspection type" });
+      }
+
+      const { template, requiredSignatures, items } = await loadInspectionTemplate(type);
+      res.json({
+        id: template?.id ?? null,
+        type,
+        version: template?.version ?? 0,
+        name: template?.name ?? INSPECTION_TYPE_LABELS[type],
+        description: template?.description ?? null,
+        requiredSignatures,
+        items,
+      });
+    } catch (error) {
+      console.error("Error fetching inspection template:", error);
+      res.status(500).json({ message: "Failed to fetch inspection template" });
+    }
+  });
+
+  app.post("/api/inspection-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const { inspectionTemplateSchema, saveInspectionTemplate, InspectionError } = await import("./inspections");
+      try {
+        const template = await saveInspectionTemplate(inspectionTemplateSchema.parse(req.body), { createdBy: userId });
+        res.status(201).json({ ...template, items: await storage.getInspectionTemplateItems([template.id]) });
+      } catch (error) {
+        if (error instanceof InspectionError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inspection template", errors: error.errors });
+      }
+      console.error("Error creating inspection template:", error);
+      res.status(500).json({ message: "Failed to create inspection template" });
+    }
+  });
+
+  app.get("/api/projects/:id/inspections", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId))) return;
+      res.json(await storage.getInspections(projectId));
+    } catch (error) {
+      console.error("Error fetching inspections:", error);
+      res.status(500).json({ message: "Failed to fetch inspections" });
+    }
+  });
+
+  app.post("/api/projects/:id/inspections", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId, "edit"))) return;
+
+      const { isInspectionType, loadInspectionTemplate, INSPECTION_TYPE_LABELS, InspectionError } = await import("./inspections");
+      const { type, title, location, inspectedAt, templateId } = req.body;
+      if (!isInspectionType(type)) {
+        return res.status(400).json({ message: "Unknown inspection type" });
+      }
+
+      let template;
+      try {
+        template = await loadInspectionTemplate(type, templateId ? parseInt(templateId) : undefined);
+      } catch (error) {
+        if (error instanceof InspectionError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      const inspectionData = insertInspectionSchema.parse({
+        projectId,
+        templateId: template.template?.id ?? null,
+        type,
+        title: title || `${INSPECTION_TYPE_LABELS[type]} ${new Date().toLocaleDateString("de-DE")}`,
+        location: location || null,
+        inspectedAt: inspectedAt ? new Date(inspectedAt) : undefined,
+        inspectorId: userId,
+        requiredSignatures: template.requiredSignatures,
+      });
+
+      const created = await storage.createInspection(inspectionData, template.items);
+      res.status(201).json(await storage.getInspection(created.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inspection data", errors: error.errors });
+      }
+      console.error("Error creating inspection:", error);
+      res.status(500).json({ message: "Failed to create inspection" });
+    }
+  });
+
+  app.get("/api/inspections/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const inspectionId = parseInt(req.params.id);
+      const inspection = await storage.getInspection(inspectionId);
+      
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (!(await requireProjectAccess(req, res, inspection.projectId))) return;
+
+      const { getInspectionProblems } = await import("./inspections");
+      const [items, signatures] = await Promise.all([
+        storage.getInspectionItems(inspectionId),
+        storage.getInspectionSignatures(inspectionId),
+      ]);
+
+      res.json({
+        ...inspection,
+        items,
+        signatures,
+        problems: getInspectionProblems(items, signatures, inspection.requiredSignatures),
+      });
+    } catch (error) {
+      console.error("Error fetching inspection:", error);
+      res.status(500).json({ message: "Failed to fetch inspection" });
+    }
+  });
+
+  app.patch("/api/inspections/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const inspectionId = parseInt(req.params.id);
+      const inspection = await storage.getInspection(inspectionId);
+      
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (!(await requireProjectAccess(req, res, inspection.projectId, "edit"))) return;
+      if (inspection.status === "completed") {
+        return res.status(409).json({ message: "Completed inspections cannot be changed" });
+      }
+
+      const { title, location, notes, inspectedAt } = req.body;
+      const inspectionData = insertInspectionSchema.pick({ title: true, location: true, notes: true, inspectedAt: true }).partial().parse({
+        title,
+        location,
+        notes,
+        inspectedAt: inspectedAt ? new Date(inspectedAt) : undefined,
+      });
+
+      await storage.updateInspection(inspectionId, inspectionData);
+      res.json(await storage.getInspection(inspectionId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inspection data", errors: error.errors });
+      }
+      console.error("Error updating inspection:", error);
+      res.status(500).json({ message: "Failed to update inspection" });
+    }
+  });
+
+  app.patch("/api/inspections/:id/items/:itemId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const inspectionId = parseInt(req.params.id);
+      const itemId = parseInt(req.params.itemId);
+      const inspection = await storage.getInspection(inspectionId);
+      
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (!(await requireProjectAccess(req, res, inspection.projectId, "edit"))) return;
+      if (inspection.status === "completed") {
+        return res.status(409).json({ message: "Completed inspections cannot be changed" });
+      }
+
+      const items = await storage.getInspectionItems(inspectionId);
+      if (!items.some((item) => item.id === itemId)) {
+        return res.status(404).json({ message: "Inspection item not found" });
+      }
+
+      const { INSPECTION_RESULTS } = await import("./inspections");
+      const { result, comment, photoIds } = z.object({
+        result: z.enum(INSPECTION_RESULTS).nullable().optional(),
+        comment: z.string().nullable().optional(),
+        photoIds: z.array(z.number().int()).optional(),
+      }).parse(req.body);
+
+      if (await hasUnknownPhotos(userId, photoIds, inspection.projectId)) {
+        return res.status(400).json({ message: "Unknown photos" });
+      }
+
+      const item = await storage.updateInspectionItem(itemId, {
+        ...(result !== undefined && { result, answeredBy: result ? userId : null, answeredAt: result ? new Date() : null }),
+        ...(comment !== undefined && { comment }),
+        ...(photoIds !== undefined && { photoIds }),
+      });
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid inspection item", errors: error.errors });
+      }
+      console.error("Error updating inspection item:", error);
+      res.status(500).json({ message: "Failed to update inspection item" });
+    }
+  });
+
+  app.post("/api/inspections/:id/signatures", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const inspectionId = parseInt(req.params.id);
+      const inspection = await storage.getInspection(inspectionId);
+      
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (!(await requireProjectAccess(req, res, inspection.projectId, "edit"))) return;
+      if (inspection.status === "completed") {
+        return res.status(409).json({ message: "Completed inspections cannot be changed" });
+      }
+
+      const { SIGNATURE_ROLES, isSignatureImage } = await import("./inspections");
+      const { role, name, image } = z.object({
+        role: z.enum(SIGNATURE_ROLES),
+        name: z.string().trim().min(1),
+        image: z.string(),
+      }).parse(req.body);
+
+      if (!isSignatureImage(image)) {
+        return res.status(400).json({ message: "Signature must be a PNG image" });
+      }
+
+      const signature = await storage.upsertInspectionSignature({ inspectionId, role, name, image, signedBy: userId });
+      res.status(201).json(signature);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid signature", errors: error.errors });
+      }
+      console.error("Error saving inspection signature:", error);
+      res.status(500).json({ message: "Failed to save signature" });
+    }
+  });
+
+  // Completing locks the inspection; all items must be answered and required photos and signatures present
+  app.post("/api/inspections/:id/complete", isAuthenticated, async (req: any, res) => {
+    try {
+      const inspectionId = parseInt(req.params.id);
+      const inspection = await storage.getInspection(inspectionId);
+      
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (!(await requireProjectAccess(req, res, inspection.projectId, "edit"))) return;
+      if (inspection.status === "completed") {
+        return res.status(409).json({ message: "Inspection is already completed" });
+      }
+
+      const { getInspectionProblems } = await import("./inspections");
+      const [items, signatures] = await Promise.all([
+        storage.getInspectionItems(inspectionId),
+        storage.getInspectionSignatures(inspectionId),
+      ]);
+      const problems = getInspectionProblems(items, signatures, inspection.requiredSignatures);
+      if (problems.length > 0) {
+        return res.status(400).json({ message: "Inspection is incomplete", problems });
+      }
+
+      await storage.updateInspection(inspectionId, { status: "completed", completedAt: new Date() });
+      res.json(await storage.getInspection(inspectionId));
+    } catch (error) {
+      console.error("Error completing inspection:", error);
+      res.status(500).json({ message: "Failed to complete inspection" });
+    }
+  });
+
+  app.get("/api/inspections/:id/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const inspectionId = parseInt(req.params.id);
+      const inspection = await storage.getInspection(inspectionId);
+      
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      const access = await requireProjectAccess(req, res, inspection.projectId);
+      if (!access) return;
+
+      const [items, signatures, user] = await Promise.all([
+        storage.getInspectionItems(inspectionId),
+        storage.getInspectionSignatures(inspectionId),
+        storage.getUser(req.user.id),
+      ]);
+      const photoIds = Array.from(new Set(items.flatMap((item) => item.photoIds || [])));
+      const inspectionPhotos = await storage.getPhotosByIds(photoIds);
+
+      const { generateInspectionPDF } = await import('./pdfGenerator');
+      const pdfBuffer = await generateInspectionPDF({
+        inspection,
+        project: access.project,
+        items,
+        signatures,
+        photos: await loadPdfPhotos(inspectionPhotos),
+        exportedBy: user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || undefined : undefined,
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="Pruefprotokoll_${inspectionId}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating inspection PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
+  app.delete("/api/inspections/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const inspection = await storage.getInspection(parseInt(req.params.id));
+      
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (!(await requireProjectAccess(req, res, inspection.projectId, "manage"))) return;
+
+      await storage.deleteInspection(inspection.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting inspection:", error);
+      res.status(500).json({ message: "Failed to delete inspection" });
+    }
+  });
+
+  // Construction diary (Bautagebuch): one entry per project and day, signed off and locked by the Bauleiter
+  const diaryUpdateSchema = insertConstructionDiaryEntrySchema.omit({ projectId: true, entryDate: true, authorId: true }).partial();
+
+  const loadDiaryMedia = async (entry: { photoIds: number[]; audioRecordIds: number[] }) => {
+    const [photos, audioRecords] = await Promise.all([
+      storage.getPhotosByIds(entry.photoIds),
+      storage.getAudioRecordsByIds(entry.audioRecordIds),
+    ]);
+    return { photos, audioRecords };
+  };
+
+  const getExportedBy = async (userId: string) => {
+    const user = await storage.getUser(userId);
+    return user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || undefined : undefined;
+  };
+
+  app.get("/api/projects/:id/diary", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId))) return;
+
+      const { isDiaryDate } = await import("./constructionDiary");
+      const entries = await storage.getDiaryEntries(projectId, {
+        from: isDiaryDate(req.query.from) ? req.query.from : undefined,
+        to: isDiaryDate(req.query.to) ? req.query.to : undefined,
+      });
+      // Die Unterschrift wird nur in der Einzelansicht und im PDF gebraucht
+      res.json(entries.map(({ signature, ...entry }) => entry));
+    } catch (error) {
+      console.error("Error fetching diary entries:", error);
+      res.status(500).json({ message: "Failed to fetch diary entries" });
+    }
+  });
+
+  app.get("/api/projects/:id/diary/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const access = await requireProjectAccess(req, res, projectId);
+      if (!access) return;
+
+      const { isDiaryDate } = await import("./constructionDiary");
+      const entries = await storage.getDiaryEntries(projectId, {
+        from: isDiaryDate(req.query.from) ? req.query.from : undefined,
+        to: isDiaryDate(req.query.to) ? req.query.to : undefined,
+      });
+
+      const pdfEntries = [];
+      for (const entry of entries.reverse()) {
+        const { photos, audioRecords } = await loadDiaryMedia(entry);
+        pdfEntries.push({ entry, audioRecords, photos: await loadPdfPhotos(photos) });
+      }
+
+      const { generateConstructionDiaryPDF } = await import('./pdfGenerator');
+      const pdfBuffer = await generateConstructionDiaryPDF({
+        project: access.project,
+        entries: pdfEntries,
+        exportedBy: await getExportedBy(req.user.id),
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="Bautagebuch_${projectId}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating construction diary PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
+  app.post("/api/projects/:id/diary", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId, "edit"))) return;
+
+      const { isDiaryDate, toDiaryDate, getMediaOfDay, assertDiaryMedia, ConstructionDiaryError } = await import("./constructionDiary");
+      const entryDate = req.body.entryDate ?? toDiaryDate(new Date());
+      if (!isDiaryDate(entryDate)) {
+        return res.status(400).json({ message: "Invalid entry date" });
+      }
+
+      const existing = await storage.getDiaryEntryByDate(projectId, entryDate);
+      if (existing) {
+        return res.status(409).json({ message: "A diary entry already exists for this day", entryId: existing.id });
+      }
+
+      // Vorbelegung: Personal und Geräte vom letzten Eintrag, Fotos und Sprachnotizen des Tages
+      const [previous] = await storage.getDiaryEntries(projectId, { to: entryDate });
+      const [projectPhotos, projectAudio] = await Promise.all([
+        storage.getPhotos(projectId),
+        storage.getAudioRecords(projectId),
+      ]);
+
+      const entryData = insertConstructionDiaryEntrySchema.parse({
+        staff: previous?.staff,
+        equipment: previous?.equipment,
+        photoIds: getMediaOfDay(projectPhotos, entryDate).map((photo) => photo.id),
+        audioRecordIds: getMediaOfDay(projectAudio, entryDate).map((record) => record.id),
+        ...req.body,
+        projectId,
+        entryDate,
+        authorId: userId,
+      });
+
+      try {
+        await assertDiaryMedia(projectId, entryData.photoIds, entryData.audioRecordIds);
+      } catch (error) {
+        if (error instanceof ConstructionDiaryError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      const created = await storage.createDiaryEntry(entryData);
+      res.status(201).json(await storage.getDiaryEntry(created.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid diary entry", errors: error.errors });
+      }
+      console.error("Error creating diary entry:", error);
+      res.status(500).json({ message: "Failed to create diary entry" });
+    }
+  });
+
+  app.get("/api/diary-entries/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const entry = await storage.getDiaryEntry(parseInt(req.params.id));
+      
+      if (!entry) {
+        return res.status(404).json({ message: "Diary entry not found" });
+      }
+      if (!(await requireProjectAccess(req, res, entry.projectId))) return;
+
+      const { getDiarySignProblems } = await import("./constructionDiary");
+      res.json({
+        ...entry,
+        ...(await loadDiaryMedia(entry)),
+        problems: getDiarySignProblems(entry),
+      });
+    } catch (error) {
+      console.error("Error fetching diary entry:", error);
+      res.status(500).json({ message: "Failed to fetch diary entry" });
+    }
+  });
+
+  app.patch("/api/diary-entries/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const entry = await storage.getDiaryEntry(parseInt(req.params.id));
+      
+      if (!entry) {
+        return res.status(404).json({ message: "Diary entry not found" });
+      }
+      if (!(await requireProjectAccess(req, res, entry.projectId, "edit"))) return;
+      if (entry.status === "signed") {
+        return res.status(409).json({ message: "Signed diary entries cannot be changed" });
+      }
+
+      const { assertDiaryMedia, ConstructionDiaryError } = await import("./constructionDiary");
+      const entryData = diaryUpdateSchema.parse(req.body);
+      try {
+        await assertDiaryMedia(entry.projectId, entryData.photoIds, entryData.audioRecordIds);
+      } catch (error) {
+        if (error instanceof ConstructionDiaryError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      await storage.updateDiaryEntry(entry.id, entryData);
+      res.json(await storage.getDiaryEntry(entry.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid diary entry", errors: error.errors });
+      }
+      console.error("Error updating diary entry:", error);
+      res.status(500).json({ message: "Failed to update diary entry" });
+    }
+  });
+
+  // Only the Bauleiter signs off; the entry is locked afterwards
+  app.post("/api/diary-entries/:id/sign", isAuthenticated, async (req: any, res) => {
+    try {
+      const entry = await storage.getDiaryEntry(parseInt(req.params.id));
+      
+      if (!entry) {
+        return res.status(404).json({ message: "Diary entry not found" });
+      }
+      if (!(await requireProjectAccess(req, res, entry.projectId, "manage"))) return;
+      if (entry.status === "signed") {
+        return res.status(409).json({ message: "Diary entry is already signed" });
+      }
+
+      const { isSignatureImage } = await import("./inspections");
+      const { getDiarySignProblems } = await import("./constructionDiary");
+      const { name, image } = z.object({
+        name: z.string().trim().min(1),
+        image: z.string(),
+      }).parse(req.body);
+
+      if (!isSignatureImage(image)) {
+        return res.status(400).json({ message: "Signature must be a PNG image" });
+      }
+      const problems = getDiarySignProblems(entry);
+      if (problems.length > 0) {
+        return res.status(400).json({ message: "Diary entry is incomplete", problems });
+      }
+
+      await storage.updateDiaryEntry(entry.id, {
+        status: "signed",
+        signedBy: req.user.id,
+        signerName: name,
+        signature: image,
+        signedAt: new Date(),
+      });
+      res.json(await storage.getDiaryEntry(entry.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid signature", errors: error.errors });
+      }
+      console.error("Error signing diary entry:", error);
+      res.status(500).json({ message: "Failed to sign diary entry" });
+    }
+  });
+
+  app.get("/api/diary-entries/:id/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const entry = await storage.getDiaryEntry(parseInt(req.params.id));
+      
+      if (!entry) {
+        return res.status(404).json({ message: "Diary entry not found" });
+      }
+      const access = await requireProjectAccess(req, res, entry.projectId);
+      if (!access) return;
+
+      const { photos, audioRecords } = await loadDiaryMedia(entry);
+      const { generateConstructionDiaryPDF } = await import('./pdfGenerator');
+      const pdfBuffer = await generateConstructionDiaryPDF({
+        project: access.project,
+        entries: [{ entry, audioRecords, photos: await loadPdfPhotos(photos) }],
+        exportedBy: await getExportedBy(req.user.id),
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="Bautagebuch_${entry.projectId}_${entry.entryDate}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating diary entry PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
+  app.delete("/api/diary-entries/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const entry = await storage.getDiaryEntry(parseInt(req.params.id));
+      
+      if (!entry) {
+        return res.status(404).json({ message: "Diary entry not found" });
+      }
+      if (!(await requireProjectAccess(req, res, entry.projectId, "manage"))) return;
+      if (entry.status === "signed") {
+        return res.status(409).json({ message: "Signed diary entries cannot be deleted" });
+      }
+
+      await storage.deleteDiaryEntry(entry.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting diary entry:", error);
+      res.status(500).json({ message: "Failed to delete diary entry" });
+    }
+  });
+
+  // Defect (Mängel) routes
+  const defectUpdateSchema = insertDefectSchema.omit({ projectId: true, createdBy: true }).partial();
+
+  const getDefectsWithFlags = async (projectId: number, now: Date) => {
+    const { isDefectOverdue, summarizeDefects } = await import("./defects");
+    const defectList = await storage.getDefects(projectId);
+    return {
+      defects: defectList.map((defect) => ({ ...defect, isOverdue: isDefectOverdue(defect, now) })),
+      summary: summarizeDefects(defectList, now),
+    };
+  };
+
+  app.get("/api/projects/:id/defects", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId))) return;
+      res.json(await getDefectsWithFlags(projectId, new Date()));
+    } catch (error) {
+      console.error("Error fetching defects:", error);
+      res.status(500).json({ message: "Failed to fetch defects" });
+    }
+  });
+
+  // Optional ?status=open,in_progress restricts the list, e.g. to defects that are still to be fixed
+  app.get("/api/projects/:id/defects/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const access = await requireProjectAccess(req, res, projectId);
+      if (!access) return;
+
+      const statuses = typeof req.query.status === "string" ? req.query.status.split(",").filter(Boolean) : [];
+      const defectList = (await storage.getDefects(projectId))
+        .filter((defect) => statuses.length === 0 || statuses.includes(defect.status));
+
+      const plans = [];
+      const planIds = Array.from(new Set(defectList.map((defect) => defect.planAttachmentId).filter((id): id is number => id !== null)));
+      for (const planId of planIds) {
+        const attachment = await storage.getAttachment(planId);
+        if (!attachment) continue;
+        try {
+          plans.push({
+            attachmentId: attachment.id,
+            fileName: attachment.fileName,
+            mimeType: attachment.mimeType,
+            data: await readStoredFile(attachment.filePath),
+          });
+        } catch (error) {
+          console.error(`Plan ${attachment.id} could not be loaded for PDF:`, error);
+        }
+      }
+
+      const photos = [];
+      for (const defect of defectList) {
+        if (photos.length >= MAX_PDF_PHOTOS) break;
+        const defectPhotos = await loadPdfPhotos(await storage.getPhotosByIds(defect.photoIds));
+        photos.push(...defectPhotos.map((photo) => ({ ...photo, caption: [`Mangel Nr. ${defect.number}`, photo.caption].filter(Boolean).join(' · ') })));
+      }
+
+      const { generateDefectListPDF } = await import('./pdfGenerator');
+      const pdfBuffer = await generateDefectListPDF({
+        project: access.project,
+        defects: defectList,
+        plans,
+        photos: photos.slice(0, MAX_PDF_PHOTOS),
+        exportedBy: await getExportedBy(req.user.id),
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="Maengelliste_${projectId}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating defect list PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
+  app.post("/api/projects/:id/defects", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId, "edit"))) return;
+
+      const { assertDefectReferences, getDefectLocationError, DefectError } = await import("./defects");
+      const defectData = insertDefectSchema.parse({ ...req.body, projectId, createdBy: userId });
+      const locationError = getDefectLocationError(defectData);
+      if (locationError) {
+        return res.status(400).json({ message: locationError });
+      }
+      if (!(await isKnownCompany(defectData.companyId))) {
+        return res.status(400).json({ message: "Unknown company" });
+      }
+      try {
+        await assertDefectReferences(projectId, defectData.planAttachmentId, defectData.photoIds);
+      } catch (error) {
+        if (error instanceof DefectError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      const defect = await storage.createDefect(defectData, { type: "status", toStatus: "open", userId });
+      res.status(201).json(await storage.getDefect(defect.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid defect data", errors: error.errors });
+      }
+      console.error("Error creating defect:", error);
+      res.status(500).json({ message: "Failed to create defect" });
+    }
+  });
+
+  app.get("/api/defects/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const defect = await storage.getDefect(parseInt(req.params.id));
+      
+      if (!defect) {
+        return res.status(404).json({ message: "Defect not found" });
+      }
+      if (!(await requireProjectAccess(req, res, defect.projectId))) return;
+
+      const { isDefectOverdue } = await import("./defects");
+      const [events, photos] = await Promise.all([
+        storage.getDefectEvents(defect.id),
+        storage.getPhotosByIds(defect.photoIds),
+      ]);
+      const userNames = await getUserNames(events.map((event) => event.userId));
+      res.json({
+        ...defect,
+        isOverdue: isDefectOverdue(defect, new Date()),
+        photos,
+        events: events.map((event) => ({ ...event, userName: event.userId ? userNames.get(event.userId) ?? null : null })),
+      });
+    } catch (error) {
+      console.error("Error fetching defect:", error);
+      res.status(500).json({ message: "Failed to fetch defect" });
+    }
+  });
+
+  app.patch("/api/defects/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const defect = await storage.getDefect(parseInt(req.params.id));
+      
+      if (!defect) {
+        return res.status(404).json({ message: "Defect not found" });
+      }
+      if (!(await requireProjectAccess(req, res, defect.projectId, "edit"))) return;
+      if (defect.status === "accepted") {
+        return res.status(409).json({ message: "Accepted defects cannot be changed" });
+      }
+
+      const { assertDefectReferences, getDefectLocationError, DefectError } = await import("./defects");
+      const defectData = defectUpdateSchema.parse(req.body);
+      const locationError = getDefectLocationError({ ...defect, ...defectData });
+      if (locationError) {
+        return res.status(400).json({ message: locationError });
+      }
+      if (!(await isKnownCompany(defectData.companyId))) {
+        return res.status(400).json({ message: "Unknown company" });
+      }
+      try {
+        await assertDefectReferences(defect.projectId, defectData.planAttachmentId, defectData.photoIds);
+      } catch (error) {
+        if (error instanceof DefectError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      // A new deadline or company gets its own reminders
+      const remindAgain = (defectData.deadline !== undefined && defectData.deadline !== defect.deadline) ||
+        (defectData.companyId !== undefined && defectData.companyId !== defect.companyId);
+      await storage.updateDefect(defect.id, {
+        ...defectData,
+        ...(remindAgain ? { reminderSentAt: null, overdueNotifiedAt: null } : {}),
+      });
+      res.json(await storage.getDefect(defect.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid defect data", errors: error.errors });
+      }
+      console.error("Error updating defect:", error);
+      res.status(500).json({ message: "Failed to update defect" });
+    }
+  });
+
+  // Acceptance (Abnahme) of a resolved defect is reserved for the Bauleiter
+  app.post("/api/defects/:id/status", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const defect = await storage.getDefect(parseInt(req.params.id));
+      
+      if (!defect) {
+        return res.status(404).json({ message: "Defect not found" });
+      }
+      const { status, comment } = req.body;
+      if (!(await requireProjectAccess(req, res, defect.projectId, status === "accepted" ? "manage" : "edit"))) return;
+
+      const { getDefectTransitionError } = await import("./defects");
+      const transitionError = getDefectTransitionError(defect, status);
+      if (transitionError) {
+        return res.status(400).json({ message: transitionError });
+      }
+
+      const now = new Date();
+      await storage.updateDefect(
+        defect.id,
+        {
+          status,
+          resolvedAt: status === "resolved" ? now : status === "in_progress" ? null : defect.resolvedAt,
+          acceptedAt: status === "accepted" ? now : null,
+          acceptedBy: status === "accepted" ? userId : null,
+        },
+        [{ type: "status", fromStatus: defect.status, toStatus: status, text: comment?.trim() || null, userId }],
+      );
+      res.json(await storage.getDefect(defect.id));
+    } catch (error) {
+      console.error("Error changing defect status:", error);
+      res.status(500).json({ message: "Failed to change defect status" });
+    }
+  });
+
+  app.post("/api/defects/:id/comments", isAuthenticated, async (req: any, res) => {
+    try {
+      const defect = await storage.getDefect(parseInt(req.params.id));
+      
+      if (!defect) {
+        return res.status(404).json({ message: "Defect not found" });
+      }
+      if (!(await requireProjectAccess(req, res, defect.projectId, "edit"))) return;
+      if (!req.body.text?.trim()) {
+        return res.status(400).json({ message: "Comment must not be empty" });
+      }
+
+      await storage.updateDefect(defect.id, {}, [{ type: "comment", text: req.body.text.trim(), userId: req.user.id }]);
+      res.status(201).json(await storage.getDefectEvents(defect.id));
+    } catch (error) {
+      console.error("Error adding defect comment:", error);
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  // Sends a reminder to the responsible company right away, independent of the deadline
+  app.post("/api/defects/:id/remind", isAuthenticated, async (req: any, res) => {
+    try {
+      const defect = await storage.getDefect(parseInt(req.params.id));
+      
+      if (!defect) {
+        return res.status(404).json({ message: "Defect not found" });
+      }
+      const access = await requireProjectAccess(req, res, defect.projectId, "manage");
+      if (!access) return;
+      if (!["open", "in_progress"].includes(defect.status)) {
+        return res.status(409).json({ message: "Only open defects can be reminded" });
+      }
+      if (!defect.companyId) {
+        return res.status(400).json({ message: "No responsible company assigned" });
+      }
+
+      const { sendDefectReminderToCompany, DefectError } = await import("./defects");
+      try {
+        await sendDefectReminderToCompany([defect], access.project.name, new Date(), req.user.id);
+      } catch (error) {
+        if (error instanceof DefectError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+      res.json(await storage.getDefect(defect.id));
+    } catch (error) {
+      console.error("Error sending defect reminder:", error);
+      res.status(500).json({ message: "Failed to send reminder" });
+    }
+  });
+
+  app.delete("/api/defects/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const defect = await storage.getDefect(parseInt(req.params.id));
+      
+      if (!defect) {
+        return res.status(404).json({ message: "Defect not found" });
+      }
+      if (!(await requireProjectAccess(req, res, defect.projectId, "manage"))) return;
+
+      await storage.deleteDefect(defect.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting defect:", error);
+      res.status(500).json({ message: "Failed to delete defect" });
+    }
+  });
+
+  // Abnahmeprotokoll: Die Unterzeichnung friert das Protokoll als PDF ein und schließt das Projekt ab
+  const acceptanceUpdateSchema = insertAcceptanceProtocolSchema.omit({ projectId: true }).partial();
+
+  const withoutSignatureImages = ({ customerSignature, contractorSignature, ...protocol }: AcceptanceProtocol) => ({
+    ...protocol,
+    hasCustomerSignature: !!customerSignature,
+    hasContractorSignature: !!contractorSignature,
+  });
+
+  const generateAcceptancePdf = async (protocol: AcceptanceProtocol, userId: string, createdAt?: Date) => {
+    const project = await storage.getProject(protocol.projectId);
+    const customer = project?.customerId ? await storage.getCustomer(project.customerId) : undefined;
+    const { generateAcceptancePDF } = await import('./pdfGenerator');
+    return await generateAcceptancePDF({ project: project!, customer, protocol, exportedBy: await getExportedBy(userId), createdAt });
+  };
+
+  app.get("/api/projects/:id/acceptance", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId))) return;
+      const protocols = await storage.getAcceptanceProtocols(projectId);
+      res.json(protocols.map(withoutSignatureImages));
+    } catch (error) {
+      console.error("Error fetching acceptance protocols:", error);
+      res.status(500).json({ message: "Failed to fetch acceptance protocols" });
+    }
+  });
+
+  app.post("/api/projects/:id/acceptance", isAuthenticated, async (req: any, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await requireProjectAccess(req, res, projectId, "manage"))) return;
+
+      const protocols = await storage.getAcceptanceProtocols(projectId);
+      const draft = protocols.find((protocol) => protocol.status === "draft");
+      if (draft) {
+        return res.status(409).json({ message: "An acceptance protocol is already being prepared", protocolId: draft.id });
+      }
+      const { createAcceptanceSnapshot, isProjectAccepted } = await import("./acceptance");
+      if (protocols.some(isProjectAccepted)) {
+        return res.status(409).json({ message: "The project has already been accepted" });
+      }
+
+      const { toDiaryDate } = await import("./constructionDiary");
+      const snapshot = await createAcceptanceSnapshot(projectId);
+      const protocolData = insertAcceptanceProtocolSchema.parse({
+        result: snapshot.defects.length > 0 ? "accepted_with_reservations" : "accepted",
+        acceptanceDate: toDiaryDate(new Date()),
+        ...req.body,
+        projectId,
+      });
+      const protocol = await storage.createAcceptanceProtocol({ ...protocolData, snapshot, createdBy: req.user.id });
+      res.status(201).json(withoutSignatureImages(protocol));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid acceptance protocol", errors: error.errors });
+      }
+      console.error("Error creating acceptance protocol:", error);
+      res.status(500).json({ message: "Failed to create acceptance protocol" });
+    }
+  });
+
+  app.get("/api/acceptance-protocols/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const protocol = await storage.getAcceptanceProtocol(parseInt(req.params.id));
+      
+      if (!protocol) {
+        return res.status(404).json({ message: "Acceptance protocol not found" });
+      }
+      if (!(await requireProjectAccess(req, res, protocol.projectId))) return;
+
+      const { getAcceptanceSignProblems } = await import("./acceptance");
+      res.json({ ...protocol, problems: protocol.status === "draft" ? getAcceptanceSignProblems(protocol) : [] });
+    } catch (error) {
+      console.error("Error fetching acceptance protocol:", error);
+      res.status(500).json({ message: "Failed to fetch acceptance protocol" });
+    }
+  });
+
+  // Jede Änderung übernimmt den aktuellen Stand der Mängel und Prüfungen und verwirft Unterschriften auf dem vorherigen Inhalt
+  app.patch("/api/acceptance-protocols/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const protocol = await storage.getAcceptanceProtocol(parseInt(req.params.id));
+      
+      if (!protocol) {
+        return res.status(404).json({ message: "Acceptance protocol not found" });
+      }
+      if (!(await requireProjectAccess(req, res, protocol.projectId, "manage"))) return;
+      if (protocol.status === "signed") {
+        return res.status(409).json({ message: "Signed acceptance protocols cannot be changed" });
+      }
+
+      const { createAcceptanceSnapshot } = await import("./acceptance");
+      const protocolData = acceptanceUpdateSchema.parse(req.body);
+      await storage.updateAcceptanceProtocol(protocol.id, {
+        ...protocolData,
+        snapshot: await createAcceptanceSnapshot(protocol.projectId),
+        customerName: null,
+        customerSignature: null,
+        customerSignedAt: null,
+        contractorName: null,
+        contractorSignature: null,
+        contractorSignedAt: null,
+      });
+      res.json(withoutSignatureImages((await storage.getAcceptanceProtocol(protocol.id))!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid acceptance protocol", errors: error.errors });
+      }
+      console.error("Error updating acceptance protocol:", error);
+      res.status(500).json({ message: "Failed to update acceptance protocol" });
+    }
+  });
+
+  app.post("/api/acceptance-protocols/:id/signatures", isAuthenticated, async (req: any, res) => {
+    try {
+      const protocol = await storage.getAcceptanceProtocol(parseInt(req.params.id));
+      
+      if (!protocol) {
+        return res.status(404).json({ message: "Acceptance protocol not found" });
+      }
+      if (!(await requireProjectAccess(req, res, protocol.projectId, "manage"))) return;
+      if (protocol.status === "signed") {
+        return res.status(409).json({ message: "Signed acceptance protocols cannot be changed" });
+      }
+
+      const { ACCEPTANCE_SIGNATURE_ROLES } = await import("./acceptance");
+      const { isSignatureImage } = await import("./inspections");
+      const { role, name, image } = z.object({
+        role: z.enum(ACCEPTANCE_SIGNATURE_ROLES),
+        name: z.string().trim().min(1),
+        image: z.string(),
+      }).parse(req.body);
+
+      if (!isSignatureImage(image)) {
+        return res.status(400).json({ message: "Signature must be a PNG image" });
+      }
+
+      const signedAt = new Date();
+      await storage.updateAcceptanceProtocol(protocol.id, role === "customer"
+        ? { customerName: name, customerSignature: image, customerSignedAt: signedAt }
+        : { contractorName: name, contractorSignature: image, contractorSignedAt: signedAt });
+      res.status(201).json(withoutSignatureImages((await storage.getAcceptanceProtocol(protocol.id))!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid signature", errors: error.errors });
+      }
+      console.error("Error saving acceptance signature:", error);
+      res.status(500).json({ message: "Failed to save signature" });
+    }
+  });
+
+  app.post("/api/acceptance-protocols/:id/finalize", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const protocol = await storage.getAcceptanceProtocol(parseInt(req.params.id));
+      
+      if (!protocol) {
+        return res.status(404).json({ message: "Acceptance protocol not found" });
+      }
+      if (!(await requireProjectAccess(req, res, protocol.projectId, "manage"))) return;
+      if (protocol.status === "signed") {
+        return res.status(409).json({ message: "Acceptance protocol is already signed" });
+      }
+
+      const { getAcceptanceSignProblems } = await import("./acceptance");
+      const problems = getAcceptanceSignProblems(protocol);
+      if (problems.length > 0) {
+        return res.status(400).json({ message: "Acceptance protocol is incomplete", problems });
+      }
+
+      const signedAt = new Date();
+      const pdf = await generateAcceptancePdf({ ...protocol, status: "signed", signedAt, signedBy: userId }, userId, signedAt);
+      const stored = await storeFile(pdf, "application/pdf");
+      const signed = await storage.signAcceptanceProtocol(
+        protocol.id,
+        { pdfKey: stored.key, pdfHash: stored.contentHash, signedAt, signedBy: userId },
+        protocol.result !== "refused",
+      );
+      res.json(withoutSignatureImages(signed));
+    } catch (error) {
+      console.error("Error finalizing acceptance protocol:", error);
+      res.status(500).json({ message: "Failed to finalize acceptance protocol" });
+    }
+  });
+
+  // Unterzeichnete Protokolle werden unverändert ausgeliefert; eine veränderte Datei wird verweigert statt weitergegeben
+  app.get("/api/acceptance-protocols/:id/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const protocol = await storage.getAcceptanceProtocol(parseInt(req.params.id));
+      
+      if (!protocol) {
+        return res.status(404).json({ message: "Acceptance protocol not found" });
+      }
+      if (!(await requireProjectAccess(req, res, protocol.projectId))) return;
+
+      let pdfBuffer: Buffer;
+      if (protocol.status === "signed" && protocol.pdfKey) {
+        const { verifyAcceptancePdf } = await import("./acceptance");
+        pdfBuffer = await readStoredFile(protocol.pdfKey);
+        if (!verifyAcceptancePdf(pdfBuffer, protocol.pdfHash)) {
+          console.error(`Stored acceptance protocol ${protocol.id} does not match its hash`);
+          return res.status(409).json({ message: "The stored acceptance protocol does not match its checksum" });
+        }
+        res.setHeader('X-Content-SHA256', protocol.pdfHash!);
+      } else {
+        pdfBuffer = await generateAcceptancePdf(protocol, req.user.id);
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="Abnahmeprotokoll_${protocol.projectId}_${protocol.id}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating acceptance protocol PDF:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to generate PDF" });
+      }
+    }
+  });
+
+  app.get("/api/acceptance-protocols/:id/verify", isAuthenticated, async (req: any, res) => {
+    try {
+      const protocol = await storage.getAcceptanceProtocol(parseInt(req.params.id));
+      
+      if (!protocol) {
+        return res.status(404).json({ message: "Acceptance protocol not found" });
+      }
+      if (!(await requireProjectAccess(req, res, protocol.projectId))) return;
+      if (protocol.status !== "signed" || !protocol.pdfKey) {
+        return res.status(409).json({ message: "Acceptance protocol is not signed yet" });
+      }
+
+      const { verifyAcceptancePdf } = await import("./acceptance");
+      res.json({
+        valid: verifyAcceptancePdf(await readStoredFile(protocol.pdfKey), protocol.pdfHash),
+        pdfHash: protocol.pdfHash,
+        signedAt: protocol.signedAt,
+      });
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return res.json({ valid: false, pdfHash: null, signedAt: null });
+      }
+      console.error("Error verifying acceptance protocol:", error);
+      res.status(500).json({ message: "Failed to verify acceptance protocol" });
+    }
+  });
+
+  app.delete("/api/acceptance-protocols/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const protocol = await storage.getAcceptanceProtocol(parseInt(req.params.id));
+      
+      if (!protocol) {
+        return res.status(404).json({ message: "Acceptance protocol not found" });
+      }
+      if (!(await requireProjectAccess(req, res, protocol.projectId, "manage"))) return;
+      if (protocol.status === "signed") {
+        return res.status(409).json({ message: "Signed acceptance protocols cannot be deleted" });
+      }
+
+      await storage.deleteAcceptanceProtocol(protocol.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting acceptance protocol:", error);
+      res.status(500).json({ message: "Failed to delete acceptance protocol" });
+    }
+  });
+
+  // Support ticket routes
+  app.get("/api/support-tickets", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      
+      const tickets = await storage.getSupportTickets();
+      res.json(tickets);
+    } catch (error) {
+      console.error("Error fetching support tickets:", error);
+      res.status(500).json({ message: "Failed to fetch support tickets" });
+    }
+  });
+
+  // Flood protection routes
+  // Resolves user ids to display names for the flood protection API responses
+  const getUserNames = async (userIds: Array<string | null>): Promise<Map<string, string>> => {
+    const userNames = new Map<string, string>();
+    const uniqueIds = Array.from(new Set(userIds.filter(Boolean) as string[]));
+    for (const userId of uniqueIds) {
+      const user = await storage.getUser(userId);
+      if (user) {
+        userNames.set(userId, [user.firstName, user.lastName].filter(Boolean).join(" ") || user.id);
+      }
+    }
+    return userNames;
+  };
+
+  // Checklisten-Vorlagen: je Typ eine aktive Version, jede Änderung legt eine neue Version an
+  const getChecklistVorlageResponses = async (vorlagen: ChecklistVorlage[]) => {
+    const aufgaben = await storage.getChecklistVorlageAufgaben(vorlagen.map((vorlage) => vorlage.id));
+    return vorlagen.map((vorlage) =>
+      toChecklistVorlageResponse(vorlage, aufgaben.filter((aufgabe) => aufgabe.vorlageId === vorlage.id)),
+    );
+  };
+
+  app.get("/api/flood/checklist-vorlagen", isAuthenticated, async (req: any, res) => {
+    try {
+      const vorlagen = await storage.getChecklistVorlagen({
+        typ: req.query.typ ? String(req.query.typ) : undefined,
+        nurAktiv: req.query.aktiv === "true",
+      });
+      res.json(await getChecklistVorlageResponses(vorlagen));
+    } catch (error) {
+      console.error("Fehler beim Laden der Checklisten-Vorlagen:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Checklisten-Vorlagen" });
+    }
+  });
+
+  // Aktive Vorlage eines Typs; ohne gepflegte Vorlage werden die Standardaufgaben geliefert (id null, Version 0)
+  app.get("/api/flood/checklist-vorlagen/aktiv/:typ", isAuthenticated, async (req: any, res) => {
+    try {
+      const typ = req.params.typ;
+      if (!isChecklistTyp(typ)) {
+        return res.status(400).json({ message: "Unbekannter Checklisten-Typ" });
+      }
+
+      const vorlage = await storage.getAktiveChecklistVorlage(typ);
+      if (vorlage) {
+        const [response] = await getChecklistVorlageResponses([vorlage]);
+        return res.json(response);
+      }
+
+      res.json({
+        ...toChecklistVorlageResponse(
+          { id: 0, typ, version: 0, name: CHECKLIST_TYP_TEXT[typ], beschreibung: "Standardaufgaben", aktiv: true, erstelltVon: null, createdAt: null },
+          STANDARD_CHECKLIST_AUFGABEN[typ].map((aufgabe) => ({ ...aufgabe, pflichtfelder: aufgabe.pflichtfelder || [] })),
+        ),
+        id: null,
+      });
+    } catch (error) {
+      console.error("Fehler beim Laden der Checklisten-Vorlage:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Checklisten-Vorlage" });
+    }
+  });
+
+  app.get("/api/flood/checklist-vorlagen/:id/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const vorlage = await storage.getChecklistVorlage(parseInt(req.params.id));
+      if (!vorlage) {
+        return res.status(404).json({ message: "Vorlage nicht gefunden" });
+      }
+
+      const [{ id, aktiv, erstellt_am, aufgaben_gesamt, ...daten }] = await getChecklistVorlageResponses([vorlage]);
+      res.setHeader("Content-Disposition", `attachment; filename="Checklisten-Vorlage-${vorlage.typ}-v${vorlage.version}.json"`);
+      res.json(daten);
+    } catch (error) {
+      console.error("Fehler beim Export der Checklisten-Vorlage:", error);
+      res.status(500).json({ message: "Fehler beim Export der Checklisten-Vorlage" });
+    }
+  });
+
+  // Speichert eine im Editor bearbeitete Vorlage als neue Version
+  app.post("/api/flood/checklist-vorlagen", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const { parseChecklistVorlage, speichereChecklistVorlage, ChecklistVorlageError } = await import("./checklistVorlagen");
+      try {
+        const vorlage = await speichereChecklistVorlage(parseChecklistVorlage(req.body), { erstelltVon: userId });
+        const [response] = await getChecklistVorlageResponses([vorlage]);
+        res.status(201).json(response);
+      } catch (error) {
+        if (error instanceof ChecklistVorlageError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Checklisten-Vorlage", errors: error.errors });
+      }
+      console.error("Fehler beim Speichern der Checklisten-Vorlage:", error);
+      res.status(500).json({ message: "Fehler beim Speichern der Checklisten-Vorlage" });
+    }
+  });
+
+  // Ältere Version wieder als aktive Vorlage ihres Typs verwenden
+  app.post("/api/flood/checklist-vorlagen/:id/aktivieren", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const vorlage = await storage.aktiviereChecklistVorlage(parseInt(req.params.id));
+      if (!vorlage) {
+        return res.status(404).json({ message: "Vorlage nicht gefunden" });
+      }
+
+      const [response] = await getChecklistVorlageResponses([vorlage]);
+      res.json(response);
+    } catch (error) {
+      console.error("Fehler beim Aktivieren der Checklisten-Vorlage:", error);
+      res.status(500).json({ message: "Fehler beim Aktivieren der Checklisten-Vorlage" });
+    }
+  });
+
+  app.delete("/api/flood/checklist-vorlagen/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const vorlage = await storage.getChecklistVorlage(parseInt(req.params.id));
+      if (!vorlage) {
+        return res.status(404).json({ message: "Vorlage nicht gefunden" });
+      }
+      if (vorlage.aktiv) {
+        return res.status(409).json({ message: "Die aktive Vorlage kann nicht gelöscht werden" });
+      }
+
+      await storage.deleteChecklistVorlage(vorlage.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Fehler beim Löschen der Checklisten-Vorlage:", error);
+      res.status(500).json({ message: "Fehler beim Löschen der Checklisten-Vorlage" });
+    }
+  });
+
+  // JSON-Import einer Vorlage (Datei oder Text) als neue Version für den angegebenen Typ
+  app.post("/api/flood/import-checklist", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      const { jsonData, typ } = req.body;
+      
+      if (!jsonData || !typ) {
+        return res.status(400).json({ message: "JSON-Daten und Typ sind erforderlich" });
+      }
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const { parseChecklistVorlage, speichereChecklistVorlage, ChecklistVorlageError } = await import("./checklistVorlagen");
+      try {
+        const vorlage = await speichereChecklistVorlage(parseChecklistVorlage(jsonData), { typ, erstelltVon: userId });
+        const [response] = await getChecklistVorlageResponses([vorlage]);
+        res.status(201).json({ 
+          success: true, 
+          vorlage: response,
+          message: `Vorlage "${vorlage.name}" als Version ${vorlage.version} importiert` 
+        });
+      } catch (error) {
+        if (error instanceof ChecklistVorlageError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Checklisten-Vorlage", errors: error.errors });
+      }
+      console.error("Fehler beim Import der Checkliste:", error);
+      res.status(500).json({ message: "Fehler beim Import der Checkliste" });
+    }
+  });
+
+  app.get("/api/flood/checklists", isAuthenticated, async (req: any, res) => {
+    try {
+      const checklists = await storage.getChecklists(await getProjectScope(req.user.id));
+      res.json(checklists.map(toChecklistResponse));
+    } catch (error) {
+      console.error("Fehler beim Laden der Checklisten:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Checklisten" });
+    }
+  });
+
+  app.post("/api/flood/create-checklist", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { titel, typ, beginn_pegelstand_cm, beschreibung, project_id, vorlage_id } = req.body;
+      
+      if (!titel || !typ) {
+        return res.status(400).json({ message: "Titel und Typ sind erforderlich" });
+      }
+      if (project_id && !(await requireProjectAccess(req, res, parseInt(project_id), "edit"))) return;
+
+      const { ladeChecklistAufgaben, ChecklistVorlageError } = await import("./checklistVorlagen");
+      let vorlageAufgaben;
+      try {
+        vorlageAufgaben = await ladeChecklistAufgaben(typ, vorlage_id ? parseInt(vorlage_id) : undefined);
+      } catch (error) {
+        if (error instanceof ChecklistVorlageError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      const checklistData = insertChecklistSchema.parse({
+        titel,
+        typ,
+        status: "offen",
+        beschreibung: beschreibung || null,
+        beginnPegelstandCm: beginn_pegelstand_cm != null ? parseInt(beginn_pegelstand_cm) : null,
+        projectId: project_id ? parseInt(project_id) : null,
+        vorlageId: vorlageAufgaben.vorlage?.id ?? null,
+        erstelltVon: userId,
+      });
+
+      const created = await storage.createChecklist(checklistData, vorlageAufgaben.aufgaben);
+      const checklist = await storage.getChecklist(created.id);
+      
+      res.status(201).json({ 
+        success: true, 
+        checklist: toChecklistResponse(checklist!),
+        message: `Checkliste "${titel}" erfolgreich erstellt` 
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Checklisten-Daten", errors: error.errors });
+      }
+      console.error("Fehler beim Erstellen der Checkliste:", error);
+      res.status(500).json({ message: "Fehler beim Erstellen der Checkliste" });
+    }
+  });
+
+  app.delete("/api/flood/checklists/delete-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      // Löscht die Checklisten aller Projekte, daher nur für Administratoren und mit ausdrücklicher Bestätigung
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Only administrators can delete all checklists" });
+      }
+      if (req.query.confirm !== "ALLE LÖSCHEN") {
+        return res.status(400).json({ message: 'Confirmation "ALLE LÖSCHEN" is required' });
+      }
+
+      await storage.deleteAllChecklists();
+      
+      res.json({ 
+        success: true, 
+        message: "Alle Checklisten wurden gelöscht" 
+      });
+    } catch (error) {
+      console.error("Fehler beim Löschen aller Checklisten:", error);
+      res.status(500).json({ message: "Fehler beim Löschen aller Checklisten" });
+    }
+  });
+
+  app.post("/api/flood/checklists/duplicate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const checklistId = parseInt(req.body.checklistId);
+      const original = await storage.getChecklist(checklistId);
+      
+      if (!original) {
+        return res.status(404).json({ message: "Checkliste nicht gefunden" });
+      }
+      if (original.projectId && !(await requireProjectAccess(req, res, original.projectId, "edit"))) return;
+
+      const originalTasks = await storage.getChecklistTasks(checklistId);
+      const created = await storage.createChecklist(
+        {
+          titel: `Kopie - ${original.titel}`,
+          typ: original.typ,
+          status: "offen",
+          beschreibung: original.beschreibung,
+          beginnPegelstandCm: original.beginnPegelstandCm,
+          projectId: original.projectId,
+          vorlageId: original.vorlageId,
+          erstelltVon: userId,
+        },
+        originalTasks.map((task) => ({
+          abschnitt: task.abschnitt,
+          nr: task.nr,
+          beschreibung: task.beschreibung,
+          pflichtfelder: task.pflichtfelder,
+        })),
+      );
+      const duplicatedChecklist = await storage.getChecklist(created.id);
+      
+      res.status(201).json({ 
+        success: true, 
+        checklist: toChecklistResponse(duplicatedChecklist!),
+        message: "Checkliste wurde dupliziert" 
+      });
+    } catch (error) {
+      console.error("Fehler beim Duplizieren der Checkliste:", error);
+      res.status(500).json({ message: "Fehler beim Duplizieren der Checkliste" });
+    }
+  });
+
+  app.get("/api/flood/checklists/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const checklistId = parseInt(req.params.id);
+      const checklist = await storage.getChecklist(checklistId);
+      
+      if (!checklist) {
+        return res.status(404).json({ message: "Checkliste nicht gefunden" });
+      }
+      if (checklist.projectId && !(await requireProjectAccess(req, res, checklist.projectId))) return;
+
+      const tasks = await storage.getChecklistTasks(checklistId);
+      const userNames = await getUserNames(tasks.map((task) => task.erledigtVon));
+
+      res.json({
+        ...toChecklistResponse(checklist),
+        aufgaben: tasks.map((task) => toChecklistTaskResponse(task, userNames)),
+      });
+    } catch (error) {
+      console.error("Fehler beim Laden der Checkliste:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Checkliste" });
+    }
+  });
+
+  app.patch("/api/flood/checklists/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const checklistId = parseInt(req.params.id);
+      const { titel, typ, status, beschreibung, beginn_pegelstand_cm } = req.body;
+      const existing = await storage.getChecklist(checklistId);
+
+      if (!existing) {
+        return res.status(404).json({ message: "Checkliste nicht gefunden" });
+      }
+      if (existing.projectId && !(await requireProjectAccess(req, res, existing.projectId, "edit"))) return;
+      
+      const checklistData = insertChecklistSchema.partial().parse({
+        titel,
+        typ,
+        status,
+        beschreibung,
+        beginnPegelstandCm: beginn_pegelstand_cm != null ? parseInt(beginn_pegelstand_cm) : undefined,
+      });
+
+      await storage.updateChecklist(checklistId, checklistData);
+      const checklist = await storage.getChecklist(checklistId);
+      res.json(toChecklistResponse(checklist!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Checklisten-Daten", errors: error.errors });
+      }
+      console.error("Fehler beim Aktualisieren der Checkliste:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren der Checkliste" });
+    }
+  });
+
+  app.patch("/api/flood/checklists/:id/tasks/:taskId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const checklistId = parseInt(req.params.id);
+      const taskId = parseInt(req.params.taskId);
+      const { erledigt, datum, pegelstand_cm, bemerkung, foto_ids } = req.body;
+      const checklist = await storage.getChecklist(checklistId);
+
+      if (!checklist) {
+        return res.status(404).json({ message: "Checkliste nicht gefunden" });
+      }
+      if (checklist.projectId && !(await requireProjectAccess(req, res, checklist.projectId, "edit"))) return;
+
+      const tasks = await storage.getChecklistTasks(checklistId);
+      const task = tasks.find((t) => t.id === taskId);
+      
+      if (!task) {
+        return res.status(404).json({ message: "Aufgabe nicht gefunden" });
+      }
+
+      const taskData: Partial<InsertChecklistTask> = {};
+      if (erledigt !== undefined) {
+        taskData.erledigt = !!erledigt;
+        taskData.erledigtAm = erledigt ? new Date() : null;
+        taskData.erledigtVon = erledigt ? userId : null;
+      }
+      if (datum !== undefined) taskData.datum = datum || null;
+      if (pegelstand_cm !== undefined) {
+        taskData.pegelstandCm = pegelstand_cm === null || pegelstand_cm === "" ? null : parseInt(pegelstand_cm);
+      }
+      if (bemerkung !== undefined) taskData.bemerkung = bemerkung;
+      if (foto_ids !== undefined) {
+        const fotoIds = z.array(z.coerce.number().int()).safeParse(foto_ids);
+        if (!fotoIds.success || await hasUnknownPhotos(userId, fotoIds.data, checklist.projectId)) {
+          return res.status(400).json({ message: "Unbekannte Fotos" });
+        }
+        taskData.fotoIds = fotoIds.data;
+      }
+
+      // Pflichtfelder der Vorlage müssen vor dem Abhaken ausgefüllt sein
+      if (taskData.erledigt) {
+        const fehlend = getFehlendePflichtfelder({ ...task, ...taskData });
+        if (fehlend.length > 0) {
+          return res.status(400).json({
+            message: `Pflichtfelder fehlen: ${fehlend.map((feld) => CHECKLIST_PFLICHTFELD_TEXT[feld]).join(", ")}`,
+            fehlende_pflichtfelder: fehlend,
+          });
+        }
+      }
+
+      await storage.updateChecklistTask(taskId, taskData);
+
+      // Checklisten-Status anhand des Fortschritts nachführen
+      const updated = await storage.getChecklist(checklistId);
+      const status = deriveChecklistStatus(updated!.aufgabenErledigt, updated!.aufgabenGesamt);
+      if (status !== updated!.status) {
+        await storage.updateChecklist(checklistId, { status });
+
+        // Nach Abschluss eines Hochwassereinsatzes die Kontrollen "nach Hochwasser" einplanen
+        if (status === "abgeschlossen" && updated!.typ === "hochwasser") {
+          const { erzeugeNachHochwasserAufgaben } = await import("./wartung");
+          await erzeugeNachHochwasserAufgaben();
+        }
+      }
+
+      res.json({
+        success: true,
+        checklist: toChecklistResponse({ ...updated!, status }),
+        message: "Aufgabe aktualisiert",
+      });
+    } catch (error) {
+      console.error("Fehler beim Aktualisieren der Aufgabe:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren der Aufgabe" });
+    }
+  });
+
+  app.delete("/api/flood/checklists/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const checklistId = parseInt(req.params.id);
+      const checklist = await storage.getChecklist(checklistId);
+      
+      if (!checklist) {
+        return res.status(404).json({ message: "Checkliste nicht gefunden" });
+      }
+      if (checklist.projectId && !(await requireProjectAccess(req, res, checklist.projectId, "manage"))) return;
+
+      await storage.deleteChecklist(checklistId);
+      
+      res.json({ 
+        success: true, 
+        message: `Checkliste "${checklist.titel}" wurde gelöscht` 
+      });
+    } catch (error) {
+      console.error("Fehler beim Löschen der Checkliste:", error);
+      res.status(500).json({ message: "Fehler beim Löschen der Checkliste" });
+    }
+  });
+
+  app.get("/api/flood/absperrschieber", isAuthenticated, async (req: any, res) => {
+    try {
+      const schieberList = await storage.getAbsperrschieberList();
+      res.json(schieberList.map((schieber) => toAbsperrschieberResponse(schieber)));
+    } catch (error) {
+      console.error("Fehler beim Laden der Absperrschieber:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Absperrschieber" });
+    }
+  });
+
+  app.get("/api/flood/absperrschieber/ueberfaellig", isAuthenticated, async (req: any, res) => {
+    try {
+      const now = new Date();
+      const schieberList = await storage.getAbsperrschieberList();
+      res.json(
+        schieberList
+          .filter((schieber) => isPruefungUeberfaellig(schieber, now))
+          .map((schieber) => toAbsperrschieberResponse(schieber, now)),
+      );
+    } catch (error) {
+      console.error("Fehler beim Laden der überfälligen Absperrschieber:", error);
+      res.status(500).json({ message: "Fehler beim Laden der überfälligen Absperrschieber" });
+    }
+  });
+
+  app.get("/api/flood/absperrschieber/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const schieberId = parseInt(req.params.id);
+      const schieber = await storage.getAbsperrschieber(schieberId);
+      
+      if (!schieber) {
+        return res.status(404).json({ message: "Absperrschieber nicht gefunden" });
+      }
+
+      const pruefungen = await storage.getSchieberPruefungen(schieberId);
+      const userNames = await getUserNames(pruefungen.map((pruefung) => pruefung.prueferId));
+
+      res.json({
+        ...toAbsperrschieberResponse(schieber),
+        pruefungen: pruefungen.map((pruefung) => toSchieberPruefungResponse(pruefung, userNames)),
+      });
+    } catch (error) {
+      console.error("Fehler beim Laden des Absperrschiebers:", error);
+      res.status(500).json({ message: "Fehler beim Laden des Absperrschiebers" });
+    }
+  });
+
+  app.post("/api/flood/absperrschieber", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const schieberData = insertAbsperrschieberSchema.parse(req.body);
+      const schieber = await storage.createAbsperrschieber(schieberData);
+      const created = await storage.getAbsperrschieber(schieber.id);
+      
+      res.status(201).json(toAbsperrschieberResponse(created!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Schieber-Daten", errors: error.errors });
+      }
+      console.error("Fehler beim Anlegen des Absperrschiebers:", error);
+      res.status(500).json({ message: "Fehler beim Anlegen des Absperrschiebers" });
+    }
+  });
+
+  app.patch("/api/flood/absperrschieber/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const schieberId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const schieberData = insertAbsperrschieberSchema.partial().parse(req.body);
+      const schieber = await storage.updateAbsperrschieber(schieberId, schieberData);
+      
+      if (!schieber) {
+        return res.status(404).json({ message: "Absperrschieber nicht gefunden" });
+      }
+
+      const updated = await storage.getAbsperrschieber(schieberId);
+      res.json(toAbsperrschieberResponse(updated!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Schieber-Daten", errors: error.errors });
+      }
+      console.error("Fehler beim Aktualisieren des Absperrschiebers:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren des Absperrschiebers" });
+    }
+  });
+
+  app.delete("/api/flood/absperrschieber/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const schieberId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      await storage.deleteAbsperrschieber(schieberId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Fehler beim Löschen des Absperrschiebers:", error);
+      res.status(500).json({ message: "Fehler beim Löschen des Absperrschiebers" });
+    }
+  });
+
+  app.get("/api/flood/absperrschieber/:id/pruefungen", isAuthenticated, async (req: any, res) => {
+    try {
+      const schieberId = parseInt(req.params.id);
+      const pruefungen = await storage.getSchieberPruefungen(schieberId);
+      const userNames = await getUserNames(pruefungen.map((pruefung) => pruefung.prueferId));
+      res.json(pruefungen.map((pruefung) => toSchieberPruefungResponse(pruefung, userNames)));
+    } catch (error) {
+      console.error("Fehler beim Laden der Prüfungen:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Prüfungen" });
+    }
+  });
+
+  app.post("/api/flood/absperrschieber/:id/pruefungen", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const schieberId = parseInt(req.params.id);
+      const { geprueft_am, funktionsstatus, foto_ids, bemerkung } = req.body;
+      const schieber = await storage.getAbsperrschieber(schieberId);
+      
+      if (!schieber) {
+        return res.status(404).json({ message: "Absperrschieber nicht gefunden" });
+      }
+
+      if (!SCHIEBER_FUNKTIONSSTATUS.includes(funktionsstatus)) {
+        return res.status(400).json({ message: "Ungültiger Funktionsstatus" });
+      }
+
+      const pruefungData = insertSchieberPruefungSchema.parse({
+        absperrschieberId: schieberId,
+        geprueftAm: geprueft_am ? new Date(geprueft_am) : new Date(),
+        prueferId: userId,
+        funktionsstatus,
+        fotoIds: foto_ids || [],
+        bemerkung: bemerkung || null,
+      });
+
+      const pruefung = await storage.createSchieberPruefung(pruefungData);
+      const userNames = await getUserNames([userId]);
+      
+      res.status(201).json(toSchieberPruefungResponse(pruefung, userNames));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Prüfungsdaten", errors: error.errors });
+      }
+      console.error("Fehler beim Speichern der Prüfung:", error);
+      res.status(500).json({ message: "Fehler beim Speichern der Prüfung" });
+    }
+  });
+
+  // Flood damage case (Schadensfall) routes
+  // Maps the snake_case request body of the damage case API to the insert schema fields
+  const toSchadensfallData = (body: any) => {
+    const data: Record<string, unknown> = {};
+    if (body.absperrschieber_id !== undefined) data.absperrschieberId = body.absperrschieber_id;
+    if (body.project_id !== undefined) data.projectId = body.project_id;
+    if (body.checklist_id !== undefined) data.checklistId = body.checklist_id;
+    if (body.problem_beschreibung !== undefined) data.problemBeschreibung = body.problem_beschreibung;
+    if (body.prioritaet !== undefined) data.prioritaet = body.prioritaet;
+    if (body.zugewiesen_an !== undefined) data.zugewiesenAn = body.zugewiesen_an;
+    if (body.massnahme !== undefined) data.massnahme = body.massnahme;
+    if (body.foto_ids_vorher !== undefined) data.fotoIdsVorher = body.foto_ids_vorher;
+    if (body.foto_ids_nachher !== undefined) data.fotoIdsNachher = body.foto_ids_nachher;
+    return data;
+  };
+
+  // Fotos müssen existieren und aus dem Projekt des Eintrags oder einem für den Benutzer sichtbaren Projekt stammen
+  const hasUnknownPhotos = async (userId: string, fotoIds: number[] = [], projectId?: number | null) => {
+    const photos = await storage.getPhotosByIds(fotoIds);
+    if (photos.length !== new Set(fotoIds).size) return true;
+    const projectScope = await getProjectScope(userId);
+    return photos.some((photo) => !!photo.projectId && photo.projectId !== projectId && !!projectScope && !projectScope.includes(photo.projectId));
+  };
+
+  const getSchadensfallResponses = async (schadensfaelle: SchadensfallWithDetails[]) => {
+    const ereignisse = await storage.getSchadensfallEreignisse(schadensfaelle.map((schadensfall) => schadensfall.id));
+    const userNames = await getUserNames(ereignisse.map((ereignis) => ereignis.userId));
+    return schadensfaelle.map((schadensfall) => toSchadensfallResponse(schadensfall, ereignisse, userNames));
+  };
+
+  app.get("/api/flood/schadensfaelle", isAuthenticated, async (req: any, res) => {
+    try {
+      const { projectId, absperrschieberId } = req.query;
+      const filterProjectId = projectId ? parseInt(projectId as string) : undefined;
+      if (filterProjectId !== undefined && !(await requireProjectAccess(req, res, filterProjectId, "view"))) return;
+
+      const schadensfaelle = await storage.getSchadensfaelle({
+        projectId: filterProjectId,
+        // Ohne Projektfilter nur Schadensfälle aus den Projekten des Benutzers
+        projectIds: filterProjectId === undefined ? await getProjectScope(req.user.id) : undefined,
+        absperrschieberId: absperrschieberId ? parseInt(absperrschieberId as string) : undefined,
+      });
+      res.json(await getSchadensfallResponses(schadensfaelle));
+    } catch (error) {
+      console.error("Fehler beim Laden der Schadensfälle:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Schadensfälle" });
+    }
+  });
+
+  app.get("/api/flood/schadensfaelle/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const schadensfallId = parseInt(req.params.id);
+      const schadensfall = await storage.getSchadensfall(schadensfallId);
+      
+      if (!schadensfall) {
+        return res.status(404).json({ message: "Schadensfall nicht gefunden" });
+      }
+      if (schadensfall.projectId && !(await requireProjectAccess(req, res, schadensfall.projectId))) return;
+
+      const [response] = await getSchadensfallResponses([schadensfall]);
+      const fotos = await storage.getPhotosByIds([
+        ...(schadensfall.fotoIdsVorher || []),
+        ...(schadensfall.fotoIdsNachher || []),
+      ]);
+
+      res.json({
+        ...response,
+        fotos_vorher: fotos
+          .filter((foto) => schadensfall.fotoIdsVorher?.includes(foto.id))
+          .map(toSchadensfotoResponse),
+        fotos_nachher: fotos
+          .filter((foto) => schadensfall.fotoIdsNachher?.includes(foto.id))
+          .map(toSchadensfotoResponse),
+      });
+    } catch (error) {
+      console.error("Fehler beim Laden des Schadensfalls:", error);
+      res.status(500).json({ message: "Fehler beim Laden des Schadensfalls" });
+    }
+  });
+
+  app.post("/api/flood/schadensfaelle", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const schadensfallData = insertSchadensfallSchema.parse({
+        ...toSchadensfallData(req.body),
+        status: "gemeldet",
+        gemeldetVon: userId,
+      });
+      if (schadensfallData.projectId && !(await requireProjectAccess(req, res, schadensfallData.projectId, "edit"))) return;
+
+      if (await hasUnknownPhotos(userId, schadensfallData.fotoIdsVorher, schadensfallData.projectId)) {
+        return res.status(400).json({ message: "Unbekannte Foto-IDs" });
+      }
+
+      const schadensfall = await storage.createSchadensfall(schadensfallData, {
+        typ: "status",
+        nachStatus: "gemeldet",
+        text: "Schaden gemeldet",
+        userId,
+      });
+      const [response] = await getSchadensfallResponses([(await storage.getSchadensfall(schadensfall.id))!]);
+      
+      res.status(201).json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Schadensdaten", errors: error.errors });
+      }
+      console.error("Fehler beim Melden des Schadensfalls:", error);
+      res.status(500).json({ message: "Fehler beim Melden des Schadensfalls" });
+    }
+  });
+
+  app.patch("/api/flood/schadensfaelle/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const schadensfallId = parseInt(req.params.id);
+      const schadensfall = await storage.getSchadensfall(schadensfallId);
+      
+      if (!schadensfall) {
+        return res.status(404).json({ message: "Schadensfall nicht gefunden" });
+      }
+      if (schadensfall.projectId && !(await requireProjectAccess(req, res, schadensfall.projectId, "edit"))) return;
+
+      if (schadensfall.status === "geprueft") {
+        return res.status(409).json({ message: "Geprüfte Schadensfälle können nicht mehr geändert werden" });
+      }
+
+      const schadensfallData = insertSchadensfallSchema
+        .omit({ status: true, gemeldetVon: true, gemeldetAm: true, behobenAm: true, geprueftAm: true })
+        .partial()
+        .parse(toSchadensfallData(req.body));
+      // Beim Verschieben in ein anderes Projekt wird auch das Zielprojekt geprüft
+      if (
+        schadensfallData.projectId &&
+        schadensfallData.projectId !== schadensfall.projectId &&
+        !(await requireProjectAccess(req, res, schadensfallData.projectId, "edit"))
+      ) return;
+
+      const fotoIds = [...(schadensfallData.fotoIdsVorher || []), ...(schadensfallData.fotoIdsNachher || [])];
+      if (await hasUnknownPhotos(userId, fotoIds, schadensfallData.projectId !== undefined ? schadensfallData.projectId : schadensfall.projectId)) {
+        return res.status(400).json({ message: "Unbekannte Foto-IDs" });
+      }
+
+      // Änderungen an Zuständigkeit, Priorität, Maßnahme und Fotos im Verlauf festhalten
+      const ereignisse: Omit<InsertSchadensfallEreignis, "schadensfallId">[] = [];
+      if (schadensfallData.zugewiesenAn !== undefined && schadensfallData.zugewiesenAn !== schadensfall.zugewiesenAn) {
+        const person = schadensfallData.zugewiesenAn ? await storage.getPerson(schadensfallData.zugewiesenAn) : undefined;
+        if (schadensfallData.zugewiesenAn && !person) {
+          return res.status(400).json({ message: "Zuständige Person nicht gefunden" });
+        }
+        ereignisse.push({
+          typ: "zuweisung",
+          text: person ? `Zugewiesen an ${person.firstName} ${person.lastName}` : "Zuweisung aufgehoben",
+          userId,
+        });
+      }
+      if (schadensfallData.prioritaet !== undefined && schadensfallData.prioritaet !== schadensfall.prioritaet) {
+        ereignisse.push({
+          typ: "prioritaet",
+          text: `Priorität von ${schadensfall.prioritaet} auf ${schadensfallData.prioritaet} geändert`,
+          userId,
+        });
+      }
+      if (schadensfallData.massnahme !== undefined && (schadensfallData.massnahme || "") !== (schadensfall.massnahme || "")) {
+        ereignisse.push({ typ: "massnahme", text: schadensfallData.massnahme || "Maßnahme entfernt", userId });
+      }
+      if (schadensfallData.fotoIdsVorher !== undefined || schadensfallData.fotoIdsNachher !== undefined) {
+        ereignisse.push({ typ: "foto", text: "Fotodokumentation aktualisiert", userId });
+      }
+
+      await storage.updateSchadensfall(schadensfallId, schadensfallData, ereignisse);
+      const [response] = await getSchadensfallResponses([(await storage.getSchadensfall(schadensfallId))!]);
+      
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Schadensdaten", errors: error.errors });
+      }
+      console.error("Fehler beim Aktualisieren des Schadensfalls:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren des Schadensfalls" });
+    }
+  });
+
+  app.post("/api/flood/schadensfaelle/:id/status", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const schadensfallId = parseInt(req.params.id);
+      const { status, kommentar } = req.body;
+      const schadensfall = await storage.getSchadensfall(schadensfallId);
+      
+      if (!schadensfall) {
+        return res.status(404).json({ message: "Schadensfall nicht gefunden" });
+      }
+      if (schadensfall.projectId && !(await requireProjectAccess(req, res, schadensfall.projectId, "edit"))) return;
+
+      const fehler = getSchadensfallUebergangFehler(schadensfall, status);
+      if (fehler) {
+        return res.status(400).json({ message: fehler });
+      }
+
+      // Die Abnahme behobener Schäden ist Managern und Administratoren vorbehalten
+      if (status === "geprueft") {
+        const user = await storage.getUser(userId);
+        if (user?.role === "user") {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+      }
+
+      await storage.updateSchadensfall(
+        schadensfallId,
+        {
+          status,
+          behobenAm: status === "behoben" ? new Date() : status === "in_bearbeitung" ? null : schadensfall.behobenAm,
+          geprueftAm: status === "geprueft" ? new Date() : null,
+        },
+        [{
+          typ: "status",
+          vonStatus: schadensfall.status,
+          nachStatus: status,
+          text: kommentar || null,
+          userId,
+        }],
+      );
+      const [response] = await getSchadensfallResponses([(await storage.getSchadensfall(schadensfallId))!]);
+      
+      res.json(response);
+    } catch (error) {
+      console.error("Fehler beim Statuswechsel des Schadensfalls:", error);
+      res.status(500).json({ message: "Fehler beim Statuswechsel des Schadensfalls" });
+    }
+  });
+
+  app.post("/api/flood/schadensfaelle/:id/kommentare", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const schadensfallId = parseInt(req.params.id);
+      const { text } = req.body;
+      
+      if (!text?.trim()) {
+        return res.status(400).json({ message: "Kommentar darf nicht leer sein" });
+      }
+
+      const schadensfall = await storage.getSchadensfall(schadensfallId);
+      if (!schadensfall) {
+        return res.status(404).json({ message: "Schadensfall nicht gefunden" });
+      }
+      if (schadensfall.projectId && !(await requireProjectAccess(req, res, schadensfall.projectId, "edit"))) return;
+
+      const ereignis = await storage.createSchadensfallEreignis({
+        schadensfallId,
+        typ: "kommentar",
+        text: text.trim(),
+        userId,
+      });
+      const userNames = await getUserNames([userId]);
+      
+      res.status(201).json(toSchadensfallEreignisResponse(ereignis, userNames));
+    } catch (error) {
+      console.error("Fehler beim Speichern des Kommentars:", error);
+      res.status(500).json({ message: "Fehler beim Speichern des Kommentars" });
+    }
+  });
+
+  app.delete("/api/flood/schadensfaelle/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const schadensfall = await storage.getSchadensfall(parseInt(req.params.id));
+      if (!schadensfall) {
+        return res.status(404).json({ message: "Schadensfall nicht gefunden" });
+      }
+      if (schadensfall.projectId && !(await requireProjectAccess(req, res, schadensfall.projectId, "manage"))) return;
+
+      await storage.deleteSchadensfall(schadensfall.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Fehler beim Löschen des Schadensfalls:", error);
+      res.status(500).json({ message: "Fehler beim Löschen des Schadensfalls" });
+    }
+  });
+
+  // Dike watch (Deichwache) shift planning routes
+  app.get("/api/flood/deichabschnitte", isAuthenticated, async (req: any, res) => {
+    try {
+      const abschnitte = await storage.getDeichabschnitte();
+      res.json(abschnitte.map(toDeichabschnittResponse));
     } catch (error) {
-      console.error("Error fetching persons:", error);
-      res.status(500).json({ message: "Failed to fetch persons" });
+      console.error("Fehler beim Laden der Deichabschnitte:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Deichabschnitte" });
     }
   });
 
-  app.post("/api/persons", isAuthenticated, async (req: any, res) => {
+  app.post("/api/flood/deichabschnitte", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
@@ -535,301 +4011,698 @@ Erstellt am: ${new Date().toLocaleDateString('de-DE')}
       if (user?.role === "user") {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
+
+      const abschnittData = insertDeichabschnittSchema.parse(req.body);
+      if (parseFloat(abschnittData.kmBis) <= parseFloat(abschnittData.kmVon)) {
+        return res.status(400).json({ message: "Das Abschnittsende muss hinter dem Abschnittsbeginn liegen" });
+      }
+
+      const abschnitt = await storage.createDeichabschnitt(abschnittData);
+      res.status(201).json(toDeichabschnittResponse(abschnitt));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Abschnittsdaten", errors: error.errors });
+      }
+      console.error("Fehler beim Anlegen des Deichabschnitts:", error);
+      res.status(500).json({ message: "Fehler beim Anlegen des Deichabschnitts" });
+    }
+  });
+
+  app.patch("/api/flood/deichabschnitte/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const abschnittId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
       
-      const personData = insertPersonSchema.parse(req.body);
-      const person = await storage.createPerson(personData);
-      res.status(201).json(person);
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const existing = await storage.getDeichabschnitt(abschnittId);
+      if (!existing) {
+        return res.status(404).json({ message: "Deichabschnitt nicht gefunden" });
+      }
+
+      const abschnittData = insertDeichabschnittSchema.partial().parse(req.body);
+      if (parseFloat(abschnittData.kmBis ?? existing.kmBis) <= parseFloat(abschnittData.kmVon ?? existing.kmVon)) {
+        return res.status(400).json({ message: "Das Abschnittsende muss hinter dem Abschnittsbeginn liegen" });
+      }
+
+      const abschnitt = await storage.updateDeichabschnitt(abschnittId, abschnittData);
+      res.json(toDeichabschnittResponse(abschnitt));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid person data", errors: error.errors });
+        return res.status(400).json({ message: "Ungültige Abschnittsdaten", errors: error.errors });
       }
-      console.error("Error creating person:", error);
-      res.status(500).json({ message: "Failed to create person" });
+      console.error("Fehler beim Aktualisieren des Deichabschnitts:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren des Deichabschnitts" });
     }
   });
 
-  // Attachment routes
-  app.get("/api/attachments", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/flood/deichabschnitte/:id", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
       const user = await storage.getUser(userId);
       
-      // For now, return empty array as all attachments endpoint needs implementation
-      res.json([]);
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      await storage.deleteDeichabschnitt(parseInt(req.params.id));
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching attachments:", error);
-      res.status(500).json({ message: "Failed to fetch attachments" });
+      console.error("Fehler beim Löschen des Deichabschnitts:", error);
+      res.status(500).json({ message: "Fehler beim Löschen des Deichabschnitts" });
     }
   });
 
-  app.get("/api/projects/:id/attachments", isAuthenticated, async (req: any, res) => {
+  app.get("/api/flood/deichwachen", isAuthenticated, async (req: any, res) => {
     try {
-      const projectId = parseInt(req.params.id);
-      const attachments = await storage.getAttachments(projectId);
-      res.json(attachments);
+      const { von, bis, deichabschnittId } = req.query;
+      const wachen = await storage.getDeichwachen({
+        von: von ? new Date(von as string) : undefined,
+        bis: bis ? new Date(bis as string) : undefined,
+        deichabschnittId: deichabschnittId ? parseInt(deichabschnittId as string) : undefined,
+      });
+      res.json(wachen.map(toDeichwacheResponse));
     } catch (error) {
-      console.error("Error fetching attachments:", error);
-      res.status(500).json({ message: "Failed to fetch attachments" });
+      console.error("Fehler beim Laden der Deichwachen:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Deichwachen" });
     }
   });
 
-  app.delete("/api/attachments/:id", isAuthenticated, async (req: any, res) => {
+  // Überschneidungen je Person und unbesetzte Zeitfenster je Abschnitt im gewählten Zeitraum
+  app.get("/api/flood/deichwachen/konflikte", isAuthenticated, async (req: any, res) => {
+    try {
+      const von = req.query.von ? new Date(req.query.von as string) : new Date();
+      const bis = req.query.bis ? new Date(req.query.bis as string) : new Date(von.getTime() + 7 * 24 * 60 * 60 * 1000);
+      
+      if (isNaN(von.getTime()) || isNaN(bis.getTime()) || bis <= von) {
+        return res.status(400).json({ message: "Ungültiger Zeitraum" });
+      }
+
+      const wachen = await storage.getDeichwachen({ von, bis });
+      const abschnitte = (await storage.getDeichabschnitte()).filter((abschnitt) => abschnitt.aktiv);
+
+      res.json({
+        von,
+        bis,
+        ueberschneidungen: findSchichtUeberschneidungen(wachen).map(([a, b]) => ({
+          person_id: a.personId,
+          name: a.personName,
+          schichten: [toDeichwacheResponse(a), toDeichwacheResponse(b)],
+        })),
+        unbesetzt: abschnitte.flatMap((abschnitt) =>
+          findUnbesetzteZeitfenster(
+            wachen.filter((wache) => wache.deichabschnittId === abschnitt.id),
+            von,
+            bis,
+            abschnitt.mindestBesetzung,
+          ).map((luecke) => ({
+            deichabschnitt_id: abschnitt.id,
+            bereich: getDeichabschnittBereich(abschnitt),
+            von: luecke.von,
+            bis: luecke.bis,
+            besetzung: luecke.besetzung,
+            mindest_besetzung: abschnitt.mindestBesetzung,
+          })),
+        ),
+      });
+    } catch (error) {
+      console.error("Fehler bei der Konfliktprüfung der Deichwachen:", error);
+      res.status(500).json({ message: "Fehler bei der Konfliktprüfung der Deichwachen" });
+    }
+  });
+
+  // Manueller Versand der Schicht-Erinnerungen (zusätzlich zum zeitgesteuerten Versand)
+  app.post("/api/flood/deichwachen/erinnerungen", isAuthenticated, async (req: any, res) => {
     try {
-      const attachmentId = parseInt(req.params.id);
       const userId = req.user.id;
       const user = await storage.getUser(userId);
       
       if (user?.role === "user") {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
+
+      const { sendDeichwacheErinnerungen, DEICHWACHE_ERINNERUNG_VORLAUF_STUNDEN } = await import("./deichwacheReminder");
+      const ergebnis = await sendDeichwacheErinnerungen(
+        req.body.vorlauf_stunden ? parseInt(req.body.vorlauf_stunden) : DEICHWACHE_ERINNERUNG_VORLAUF_STUNDEN,
+      );
+      res.json(ergebnis);
+    } catch (error) {
+      console.error("Fehler beim Versand der Deichwachen-Erinnerungen:", error);
+      res.status(500).json({ message: "Fehler beim Versand der Deichwachen-Erinnerungen" });
+    }
+  });
+
+  // Prüft eine geplante Schicht auf Doppelbelegung der Person; liefert die kollidierende Schicht
+  const findPersonSchichtKonflikt = async (
+    personId: number,
+    schichtBeginn: Date,
+    schichtEnde: Date,
+    ignoreId?: number,
+  ) => {
+    const wachen = await storage.getDeichwachen({ von: schichtBeginn, bis: schichtEnde, personId });
+    return wachen.find((wache) => wache.id !== ignoreId);
+  };
+
+  app.post("/api/flood/deichwachen", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
       
-      // For now, simple success response until delete method is implemented
-      res.json({ message: "Attachment deleted successfully" });
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const wacheData = insertDeichwacheSchema.parse(req.body);
+      if (wacheData.schichtEnde <= wacheData.schichtBeginn) {
+        return res.status(400).json({ message: "Das Schichtende muss nach dem Schichtbeginn liegen" });
+      }
+
+      const konflikt = await findPersonSchichtKonflikt(wacheData.personId, wacheData.schichtBeginn, wacheData.schichtEnde);
+      if (konflikt) {
+        return res.status(409).json({
+          message: `${konflikt.personName} ist in diesem Zeitraum bereits eingeteilt`,
+          konflikt: toDeichwacheResponse(konflikt),
+        });
+      }
+
+      const wache = await storage.createDeichwache(wacheData);
+      res.status(201).json(toDeichwacheResponse((await storage.getDeichwache(wache.id))!));
     } catch (error) {
-      console.error("Error deleting attachment:", error);
-      res.status(500).json({ message: "Failed to delete attachment" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Schichtdaten", errors: error.errors });
+      }
+      console.error("Fehler beim Anlegen der Deichwache:", error);
+      res.status(500).json({ message: "Fehler beim Anlegen der Deichwache" });
     }
   });
 
-  // Photo routes
-  app.get("/api/projects/:id/photos", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/flood/deichwachen/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const projectId = parseInt(req.params.id);
-      const photos = await storage.getPhotos(projectId);
-      res.json(photos);
+      const wacheId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const existing = await storage.getDeichwache(wacheId);
+      if (!existing) {
+        return res.status(404).json({ message: "Deichwache nicht gefunden" });
+      }
+
+      const wacheData = insertDeichwacheSchema.partial().parse(req.body);
+      const schichtBeginn = wacheData.schichtBeginn ?? existing.schichtBeginn;
+      const schichtEnde = wacheData.schichtEnde ?? existing.schichtEnde;
+      if (schichtEnde <= schichtBeginn) {
+        return res.status(400).json({ message: "Das Schichtende muss nach dem Schichtbeginn liegen" });
+      }
+
+      const konflikt = await findPersonSchichtKonflikt(
+        wacheData.personId ?? existing.personId,
+        schichtBeginn,
+        schichtEnde,
+        wacheId,
+      );
+      if (konflikt) {
+        return res.status(409).json({
+          message: `${konflikt.personName} ist in diesem Zeitraum bereits eingeteilt`,
+          konflikt: toDeichwacheResponse(konflikt),
+        });
+      }
+
+      await storage.updateDeichwache(wacheId, wacheData);
+      res.json(toDeichwacheResponse((await storage.getDeichwache(wacheId))!));
     } catch (error) {
-      console.error("Error fetching photos:", error);
-      res.status(500).json({ message: "Failed to fetch photos" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Schichtdaten", errors: error.errors });
+      }
+      console.error("Fehler beim Aktualisieren der Deichwache:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren der Deichwache" });
     }
   });
 
-  // Audio routes
-  app.get("/api/projects/:id/audio", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/flood/deichwachen/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const projectId = parseInt(req.params.id);
-      const audioRecords = await storage.getAudioRecords(projectId);
-      res.json(audioRecords);
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      await storage.deleteDeichwache(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Fehler beim Löschen der Deichwache:", error);
+      res.status(500).json({ message: "Fehler beim Löschen der Deichwache" });
+    }
+  });
+
+  app.get("/api/flood/pegel", isAuthenticated, async (req: any, res) => {
+    try {
+      const pegelListe = await storage.getPegelListe();
+      res.json(pegelListe.map(toPegelResponse));
+    } catch (error) {
+      console.error("Fehler beim Laden der Pegel:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Pegel" });
+    }
+  });
+
+  app.get("/api/flood/pegel/alarme", isAuthenticated, async (req: any, res) => {
+    try {
+      const alarme = await storage.getPegelAlarme({
+        pegelId: req.query.pegelId ? parseInt(req.query.pegelId as string) : undefined,
+      });
+      res.json(alarme.map(toPegelAlarmResponse));
+    } catch (error) {
+      console.error("Fehler beim Laden der Pegel-Alarme:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Pegel-Alarme" });
+    }
+  });
+
+  app.post("/api/flood/pegel", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const pegelData = insertPegelSchema.parse(req.body);
+      const schwellenFehler = getMeldestufenFehler(pegelData);
+      if (schwellenFehler) {
+        return res.status(400).json({ message: schwellenFehler });
+      }
+      if (await storage.getPegelByNummer(pegelData.pegelnummer)) {
+        return res.status(409).json({ message: `Pegel ${pegelData.pegelnummer} ist bereits angelegt` });
+      }
+      if (pegelData.quelle === "http" && !pegelData.quelleUrl) {
+        return res.status(400).json({ message: "Für den HTTP-Abruf ist eine Quell-URL erforderlich" });
+      }
+
+      const pegel = await storage.createPegel(pegelData);
+      res.status(201).json(toPegelResponse(pegel));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Pegeldaten", errors: error.errors });
+      }
+      console.error("Fehler beim Anlegen des Pegels:", error);
+      res.status(500).json({ message: "Fehler beim Anlegen des Pegels" });
+    }
+  });
+
+  app.patch("/api/flood/pegel/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const pegelId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const existing = await storage.getPegel(pegelId);
+      if (!existing) {
+        return res.status(404).json({ message: "Pegel nicht gefunden" });
+      }
+
+      const pegelData = insertPegelSchema.partial().parse(req.body);
+      const schwellenFehler = getMeldestufenFehler({ ...existing, ...pegelData });
+      if (schwellenFehler) {
+        return res.status(400).json({ message: schwellenFehler });
+      }
+      if ((pegelData.quelle ?? existing.quelle) === "http" && !(pegelData.quelleUrl ?? existing.quelleUrl)) {
+        return res.status(400).json({ message: "Für den HTTP-Abruf ist eine Quell-URL erforderlich" });
+      }
+      if (pegelData.pegelnummer && pegelData.pegelnummer !== existing.pegelnummer && await storage.getPegelByNummer(pegelData.pegelnummer)) {
+        return res.status(409).json({ message: `Pegel ${pegelData.pegelnummer} ist bereits angelegt` });
+      }
+
+      const pegel = await storage.updatePegel(pegelId, pegelData);
+      res.json(toPegelResponse(pegel));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Pegeldaten", errors: error.errors });
+      }
+      console.error("Fehler beim Aktualisieren des Pegels:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren des Pegels" });
+    }
+  });
+
+  app.delete("/api/flood/pegel/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      await storage.deletePegel(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Fehler beim Löschen des Pegels:", error);
+      res.status(500).json({ message: "Fehler beim Löschen des Pegels" });
+    }
+  });
+
+  // Ganglinie eines Pegels; ohne Zeitraum die letzten 7 Tage
+  app.get("/api/flood/pegel/:id/messwerte", isAuthenticated, async (req: any, res) => {
+    try {
+      const pegelId = parseInt(req.params.id);
+      const bis = req.query.bis ? new Date(req.query.bis as string) : new Date();
+      const von = req.query.von ? new Date(req.query.von as string) : new Date(bis.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+      if (isNaN(von.getTime()) || isNaN(bis.getTime()) || bis <= von) {
+        return res.status(400).json({ message: "Ungültiger Zeitraum" });
+      }
+      if (!(await storage.getPegel(pegelId))) {
+        return res.status(404).json({ message: "Pegel nicht gefunden" });
+      }
+
+      const messwerte = await storage.getPegelMesswerte(pegelId, { von, bis });
+      res.json(messwerte.map(toPegelMesswertResponse));
+    } catch (error) {
+      console.error("Fehler beim Laden der Pegel-Messwerte:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Pegel-Messwerte" });
+    }
+  });
+
+  // Manuelle Ablesung (z.B. Lattenpegel vor Ort); löst bei Bedarf denselben Alarm aus wie der automatische Abruf
+  app.post("/api/flood/pegel/:id/messwerte", isAuthenticated, async (req: any, res) => {
+    try {
+      const pegel = await storage.getPegel(parseInt(req.params.id));
+      if (!pegel) {
+        return res.status(404).json({ message: "Pegel nicht gefunden" });
+      }
+      // Eine Ablesung kann Alarme, Checklisten und E-Mails auslösen: bei Projektpegeln Schreibrecht im Projekt,
+      // sonst dieselbe Rolle wie für die übrigen Änderungen an Pegeln
+      if (pegel.projectId) {
+        if (!(await requireProjectAccess(req, res, pegel.projectId, "edit"))) return;
+      } else {
+        const user = await storage.getUser(req.user.id);
+        if (!user || user.role === "user") {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+      }
+
+      const { wasserstandCm, gemessenAm } = z.object({
+        wasserstandCm: z.coerce.number().int(),
+        gemessenAm: z.coerce.date().optional(),
+      }).parse(req.body);
+
+      const { verarbeitePegelMessungen } = await import("./pegel");
+      const ergebnis = await verarbeitePegelMessungen(
+        [{ pegelnummer: pegel.pegelnummer, gemessenAm: gemessenAm ?? new Date(), wasserstandCm }],
+        "manuell",
+      );
+
+      res.status(201).json({
+        pegel: toPegelResponse((await storage.getPegel(pegel.id))!),
+        alarme: ergebnis.alarme.map(toPegelAlarmResponse),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültiger Messwert", errors: error.errors });
+      }
+      console.error("Fehler beim Speichern des Pegel-Messwerts:", error);
+      res.status(500).json({ message: "Fehler beim Speichern des Pegel-Messwerts" });
+    }
+  });
+
+  // Import einer CSV- oder JSON-Datei mit Messwerten (Inhalt als Text)
+  app.post("/api/flood/pegel/import", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const { daten, pegelnummer } = z.object({
+        daten: z.string().min(1),
+        pegelnummer: z.string().optional(),
+      }).parse(req.body);
+
+      const { parsePegelDaten, verarbeitePegelMessungen, PegelImportError } = await import("./pegel");
+      let messungen;
+      try {
+        messungen = parsePegelDaten(daten, pegelnummer ?? null);
+      } catch (error) {
+        if (error instanceof PegelImportError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      const ergebnis = await verarbeitePegelMessungen(messungen, "datei");
+      res.json({
+        gelesen: messungen.length,
+        gespeichert: ergebnis.gespeichert,
+        unbekannte_pegel: ergebnis.unbekanntePegel,
+        alarme: ergebnis.alarme.map(toPegelAlarmResponse),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Importdaten", errors: error.errors });
+      }
+      console.error("Fehler beim Import der Pegeldaten:", error);
+      res.status(500).json({ message: "Fehler beim Import der Pegeldaten" });
+    }
+  });
+
+  // Manueller Abruf aller fälligen Datenquellen (zusätzlich zum zeitgesteuerten Abruf)
+  app.post("/api/flood/pegel/abruf", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const { runPegelAbruf } = await import("./pegel");
+      res.json(await runPegelAbruf());
+    } catch (error) {
+      console.error("Fehler beim Abruf der Pegeldaten:", error);
+      res.status(500).json({ message: "Fehler beim Abruf der Pegeldaten" });
+    }
+  });
+
+  // Wartungs- und Unterhaltungsanweisungen mit den daraus erzeugten Wartungsterminen
+  const loadWartungsanweisungResponse = async (anweisungId: number) => {
+    const anweisung = await storage.getWartungsanweisung(anweisungId);
+    if (!anweisung) return undefined;
+    return toWartungsanweisungResponse(
+      anweisung,
+      await storage.getWartungsbauteile(anweisungId),
+      await storage.getWartungsplaene({ anweisungId }),
+      await storage.getWartungsaufgaben({ anweisungId, status: "offen" }),
+    );
+  };
+
+  app.get("/api/flood/wartung/anweisungen", isAuthenticated, async (req: any, res) => {
+    try {
+      const anweisungen = await storage.getWartungsanweisungen();
+      res.json(anweisungen.map((anweisung) => toWartungsanweisungResponse(anweisung)));
     } catch (error) {
-      console.error("Error fetching audio records:", error);
-      res.status(500).json({ message: "Failed to fetch audio records" });
+      console.error("Fehler beim Laden der Wartungsanweisungen:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Wartungsanweisungen" });
     }
   });
 
-  // Support ticket routes
-  app.get("/api/support-tickets", isAuthenticated, async (req: any, res) => {
+  app.get("/api/flood/wartung/anweisungen/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== "admin") {
-        return res.status(403).json({ message: "Insufficient permissions" });
+      const anweisung = await loadWartungsanweisungResponse(parseInt(req.params.id));
+      if (!anweisung) {
+        return res.status(404).json({ message: "Wartungsanweisung nicht gefunden" });
       }
-      
-      const tickets = await storage.getSupportTickets();
-      res.json(tickets);
+      res.json(anweisung);
     } catch (error) {
-      console.error("Error fetching support tickets:", error);
-      res.status(500).json({ message: "Failed to fetch support tickets" });
+      console.error("Fehler beim Laden der Wartungsanweisung:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Wartungsanweisung" });
     }
   });
 
-  // Flood protection routes
-  app.post("/api/flood/import-checklist", isAuthenticated, async (req: any, res) => {
+  // Import (oder erneuter Import einer neuen Version) der Anweisung einer Schutzanlage als JSON
+  app.post("/api/flood/wartung/anweisungen/import", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { jsonData, typ } = req.body;
+      const user = await storage.getUser(userId);
       
-      if (!jsonData || !typ) {
-        return res.status(400).json({ message: "JSON-Daten und Typ sind erforderlich" });
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
       }
 
-      // Create checklist with dummy data for now
-      const checklistId = Date.now().toString();
-      
-      res.status(201).json({ 
-        success: true, 
-        checklistId,
-        message: `Checkliste "${jsonData.title}" erfolgreich importiert` 
+      const { wartungsanweisungImportSchema, importiereWartungsanweisung } = await import("./wartung");
+      const { daten, schutzanlage, projectId } = z.object({
+        daten: wartungsanweisungImportSchema,
+        schutzanlage: z.string().min(1).optional(),
+        projectId: z.number().int().nullable().optional(),
+      }).parse(req.body);
+      if (projectId && !(await requireProjectAccess(req, res, projectId, "edit"))) return;
+
+      const ergebnis = await importiereWartungsanweisung(daten, { schutzanlage, projectId });
+      res.status(201).json({
+        anweisung: await loadWartungsanweisungResponse(ergebnis.anweisung.id),
+        bauteile: ergebnis.bauteile,
+        plaene_neu: ergebnis.plaeneNeu,
+        plaene_deaktiviert: ergebnis.plaeneDeaktiviert,
+        aufgaben_neu: ergebnis.aufgabenNeu,
       });
     } catch (error) {
-      console.error("Fehler beim Import der Checkliste:", error);
-      res.status(500).json({ message: "Fehler beim Import der Checkliste" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Wartungsanweisung", errors: error.errors });
+      }
+      console.error("Fehler beim Import der Wartungsanweisung:", error);
+      res.status(500).json({ message: "Fehler beim Import der Wartungsanweisung" });
     }
   });
 
-  app.get("/api/flood/checklists", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/flood/wartung/anweisungen/:id", isAuthenticated, async (req: any, res) => {
     try {
-      // Return demo data for now
-      const demoChecklists = [
-        {
-          id: "1",
-          titel: "Hochwasserereignis Mai 2025 (Beispielprojekt)",
-          typ: "hochwasser",
-          status: "in_bearbeitung",
-          erstellt_am: "2025-05-15T08:00:00Z",
-          erstellt_von: "Thomas Müller",
-          beginn_pegelstand_cm: 245,
-          fortschritt: 68,
-          aufgaben_gesamt: 11,
-          aufgaben_erledigt: 7
-        },
-        {
-          id: "2", 
-          titel: "Routineübung Frühjahr (Beispielprojekt)",
-          typ: "uebung",
-          status: "abgeschlossen",
-          erstellt_am: "2025-03-20T10:30:00Z",
-          erstellt_von: "Sarah Weber",
-          fortschritt: 100,
-          aufgaben_gesamt: 11,
-          aufgaben_erledigt: 11
-        }
-      ];
-      res.json(demoChecklists);
+      const anweisungId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      if (!(await storage.getWartungsanweisung(anweisungId))) {
+        return res.status(404).json({ message: "Wartungsanweisung nicht gefunden" });
+      }
+
+      const anweisungData = z.object({
+        erinnerungEmpfaenger: z.array(z.string().email()).optional(),
+        projectId: z.number().int().nullable().optional(),
+      }).parse(req.body);
+      if (anweisungData.projectId && !(await requireProjectAccess(req, res, anweisungData.projectId, "edit"))) return;
+
+      await storage.updateWartungsanweisung(anweisungId, anweisungData);
+      res.json(await loadWartungsanweisungResponse(anweisungId));
     } catch (error) {
-      console.error("Fehler beim Laden der Checklisten:", error);
-      res.status(500).json({ message: "Fehler beim Laden der Checklisten" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Angaben", errors: error.errors });
+      }
+      console.error("Fehler beim Aktualisieren der Wartungsanweisung:", error);
+      res.status(500).json({ message: "Fehler beim Aktualisieren der Wartungsanweisung" });
     }
   });
 
-  app.post("/api/flood/create-checklist", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/flood/wartung/anweisungen/:id", isAuthenticated, async (req: any, res) => {
     try {
-      console.log("=== CREATE CHECKLIST REQUEST ===");
-      console.log("User:", req.user?.id);
-      console.log("Authenticated:", req.isAuthenticated());
-      console.log("Body:", JSON.stringify(req.body, null, 2));
-      
       const userId = req.user.id;
-      const { titel, typ, beginn_pegelstand_cm, beschreibung } = req.body;
+      const user = await storage.getUser(userId);
       
-      if (!titel || !typ) {
-        console.log("Validation failed - missing titel or typ");
-        return res.status(400).json({ message: "Titel und Typ sind erforderlich" });
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
       }
 
-      // Erstelle neue Checkliste mit Demo-ID
-      const newChecklist = {
-        id: Date.now().toString(),
-        titel,
-        typ,
-        status: "offen",
-        erstellt_am: new Date().toISOString(),
-        erstellt_von: userId,
-        beginn_pegelstand_cm: beginn_pegelstand_cm || 0,
-        beschreibung: beschreibung || "",
-        fortschritt: 0,
-        aufgaben_gesamt: 11,
-        aufgaben_erledigt: 0
-      };
-      
-      console.log("=== CHECKLIST CREATED SUCCESSFULLY ===");
-      console.log("New checklist:", JSON.stringify(newChecklist, null, 2));
-      
-      res.status(201).json({ 
-        success: true, 
-        checklist: newChecklist,
-        message: `Checkliste "${titel}" erfolgreich erstellt` 
-      });
+      await storage.deleteWartungsanweisung(parseInt(req.params.id));
+      res.status(204).send();
     } catch (error) {
-      console.error("=== CHECKLIST CREATION ERROR ===");
-      console.error("Error:", error);
-      console.error("Error stack:", error instanceof Error ? error.stack : 'No stack');
-      res.status(500).json({ message: "Fehler beim Erstellen der Checkliste" });
+      console.error("Fehler beim Löschen der Wartungsanweisung:", error);
+      res.status(500).json({ message: "Fehler beim Löschen der Wartungsanweisung" });
     }
   });
 
-  app.delete("/api/flood/checklists/:id", isAuthenticated, async (req: any, res) => {
+  app.get("/api/flood/wartung/aufgaben", isAuthenticated, async (req: any, res) => {
     try {
-      const { id } = req.params;
-      
-      // In a real app, we would delete from database
-      // await db.delete(checklisten).where(eq(checklisten.id, id));
-      
-      res.json({ 
-        success: true, 
-        message: `Checkliste ${id} wurde gelöscht` 
+      const { anweisungId, status, tage } = req.query;
+      const aufgaben = await storage.getWartungsaufgaben({
+        anweisungId: anweisungId ? parseInt(anweisungId as string) : undefined,
+        status: status === "alle" ? undefined : (status as string) || "offen",
+        faelligBis: tage ? new Date(Date.now() + parseInt(tage as string) * 24 * 60 * 60 * 1000) : undefined,
       });
+      res.json(aufgaben.map((aufgabe) => toWartungsaufgabeResponse(aufgabe)));
     } catch (error) {
-      console.error("Fehler beim Löschen der Checkliste:", error);
-      res.status(500).json({ message: "Fehler beim Löschen der Checkliste" });
+      console.error("Fehler beim Laden der Wartungsaufgaben:", error);
+      res.status(500).json({ message: "Fehler beim Laden der Wartungsaufgaben" });
     }
   });
 
-  app.delete("/api/flood/checklists/delete-all", isAuthenticated, async (req: any, res) => {
+  app.post("/api/flood/wartung/aufgaben/:id/erledigen", isAuthenticated, async (req: any, res) => {
     try {
-      // In a real app, we would delete all checklists from database
-      // await db.delete(checklisten);
-      
-      res.json({ 
-        success: true, 
-        message: "Alle Checklisten wurden gelöscht" 
+      const aufgabe = await storage.getWartungsaufgabe(parseInt(req.params.id));
+      if (!aufgabe) {
+        return res.status(404).json({ message: "Wartungsaufgabe nicht gefunden" });
+      }
+      const user = await storage.getUser(req.user.id);
+      if (!user || user.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      // Schutzanlagen eines Projekts dürfen nur mit Schreibrecht im Projekt abgehakt werden
+      const anweisung = await storage.getWartungsanweisung(aufgabe.anweisungId);
+      if (anweisung?.projectId && !(await requireProjectAccess(req, res, anweisung.projectId, "edit"))) return;
+      if (aufgabe.status === "erledigt") {
+        return res.status(409).json({ message: "Die Wartungsaufgabe ist bereits erledigt" });
+      }
+
+      const { bemerkung, erledigtAm } = z.object({
+        bemerkung: z.string().nullable().optional(),
+        erledigtAm: z.coerce.date().optional(),
+      }).parse(req.body);
+
+      const { erledigeWartungsaufgabe } = await import("./wartung");
+      const ergebnis = await erledigeWartungsaufgabe(aufgabe, { userId: req.user.id, bemerkung, erledigtAm });
+      const folgeaufgabe = ergebnis.folgeaufgabe ? await storage.getWartungsaufgabe(ergebnis.folgeaufgabe.id) : undefined;
+
+      res.json({
+        aufgabe: toWartungsaufgabeResponse((await storage.getWartungsaufgabe(aufgabe.id))!),
+        folgeaufgabe: folgeaufgabe ? toWartungsaufgabeResponse(folgeaufgabe) : null,
       });
     } catch (error) {
-      console.error("Fehler beim Löschen aller Checklisten:", error);
-      res.status(500).json({ message: "Fehler beim Löschen aller Checklisten" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Ungültige Angaben", errors: error.errors });
+      }
+      console.error("Fehler beim Abschließen der Wartungsaufgabe:", error);
+      res.status(500).json({ message: "Fehler beim Abschließen der Wartungsaufgabe" });
     }
   });
 
-  app.post("/api/flood/checklists/duplicate", isAuthenticated, async (req: any, res) => {
+  // Kontrollen "nach Hochwasser" manuell einplanen (automatisch beim Abschluss einer Hochwasser-Checkliste)
+  app.post("/api/flood/wartung/nach-hochwasser", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { checklistId } = req.body;
-      
-      // In a real app, we would duplicate the checklist in database
-      const duplicatedChecklist = {
-        id: Date.now().toString(),
-        titel: `Kopie - Checkliste ${checklistId}`,
-        typ: "hochwasser",
-        status: "offen",
-        erstellt_am: new Date().toISOString(),
-        erstellt_von: userId,
-        beginn_pegelstand_cm: 0,
-        beschreibung: "Duplizierte Checkliste",
-        fortschritt: 0,
-        aufgaben_gesamt: 11,
-        aufgaben_erledigt: 0
-      };
+      const user = await storage.getUser(userId);
       
-      res.status(201).json({ 
-        success: true, 
-        checklist: duplicatedChecklist,
-        message: "Checkliste wurde dupliziert" 
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const { erzeugeNachHochwasserAufgaben } = await import("./wartung");
+      const aufgaben = await erzeugeNachHochwasserAufgaben({
+        anweisungId: req.body.anweisungId ? parseInt(req.body.anweisungId) : undefined,
       });
+      res.status(201).json({ angelegt: aufgaben.length });
     } catch (error) {
-      console.error("Fehler beim Duplizieren der Checkliste:", error);
-      res.status(500).json({ message: "Fehler beim Duplizieren der Checkliste" });
+      console.error("Fehler beim Einplanen der Kontrollen nach Hochwasser:", error);
+      res.status(500).json({ message: "Fehler beim Einplanen der Kontrollen nach Hochwasser" });
     }
   });
 
-  app.get("/api/flood/absperrschieber", isAuthenticated, async (req: any, res) => {
+  // Manueller Versand der Wartungs-Erinnerungen (zusätzlich zum zeitgesteuerten Versand)
+  app.post("/api/flood/wartung/erinnerungen", isAuthenticated, async (req: any, res) => {
     try {
-      // Return demo data for now - in production this would query the database
-      const demoSchieber = [
-        {
-          id: 1,
-          nummer: 1,
-          bezeichnung: "Absperrschieber DN 300",
-          lage: "Lohr km 1,470, Nähe Kupfermühle",
-          beschreibung: "Absperrschieber DN 300 mit Festspindel bis unter die Schachtdeckelunterkante",
-          funktionsfaehig: true,
-          letzte_pruefung: "2025-06-25T00:00:00Z",
-          aktiv: true
-        },
-        {
-          id: 2,
-          nummer: 2,
-          bezeichnung: "Absperrschütz bei ehem. Grundwehr", 
-          lage: "Lohr km 1,320",
-          beschreibung: "Absperrschütz bei ehem. Grundwehr",
-          funktionsfaehig: false,
-          letzte_pruefung: "2025-06-20T00:00:00Z",
-          aktiv: true
-        }
-      ];
-      res.json(demoSchieber);
+      const userId = req.user.id;
+      const user = await storage.getUser(userId);
+      
+      if (user?.role === "user") {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+
+      const { sendWartungsErinnerungen } = await import("./wartung");
+      res.json(await sendWartungsErinnerungen());
     } catch (error) {
-      console.error("Fehler beim Laden der Absperrschieber:", error);
-      res.status(500).json({ message: "Fehler beim Laden der Absperrschieber" });
+      console.error("Fehler beim Versand der Wartungs-Erinnerungen:", error);
+      res.status(500).json({ message: "Fehler beim Versand der Wartungs-Erinnerungen" });
     }
   });
 
@@ -837,23 +4710,56 @@ Erstellt am: ${new Date().toLocaleDateString('de-DE')}
   app.post("/api/flood-protection/export-pdf", isAuthenticated, async (req: any, res) => {
     try {
       const { checklist, schieber, schaeden, wachen, exportedAt, exportedBy } = req.body;
+      if (!checklist?.titel) {
+        return res.status(400).json({ message: "Checklist is required" });
+      }
+
+      // Gespeicherte Checkliste laden und Projektzugriff prüfen, bevor ihre Aufgaben in den Bericht gelangen
+      let aufgaben: ChecklistTask[] = [];
+      if (checklist.id !== undefined && checklist.id !== null) {
+        const checklistId = Number(checklist.id);
+        if (!Number.isInteger(checklistId)) {
+          return res.status(400).json({ message: "Invalid checklist ID" });
+        }
+        const gespeichert = await storage.getChecklist(checklistId);
+        if (!gespeichert) {
+          return res.status(404).json({ message: "Checkliste nicht gefunden" });
+        }
+        if (gespeichert.projectId && !(await requireProjectAccess(req, res, gespeichert.projectId))) return;
+        aufgaben = await storage.getChecklistTasks(checklistId);
+      }
       
       console.log('PDF-Export gestartet für Checkliste:', checklist.titel);
       
-      // Generiere echte PDF mit einfachem PDF-Generator
-      const { generateSimplePDF, generateMinimalPDF } = await import('./simplePdfGenerator');
-      
-      const textContent = generateSimplePDF({
-        checklist,
-        schieber,
-        schaeden,
+      // Schadensfälle und ihre Fotos (vorher/nachher) aus der Datenbank übernehmen; Einträge fremder Projekte entfallen
+      const projectScope = await getProjectScope(req.user.id);
+      const isVisible = (projectId: number | null) => !projectId || !projectScope || projectScope.includes(projectId);
+      const schadensfallIds = Array.from(new Set<number>((schaeden || []).map((schaden: any) => Number(schaden.id))))
+        .filter((id) => Number.isInteger(id));
+      const schadensfaelle = (await Promise.all(schadensfallIds.map((id) => storage.getSchadensfall(id))))
+        .filter((schadensfall): schadensfall is SchadensfallWithDetails => !!schadensfall && isVisible(schadensfall.projectId));
+      const fotos = (await storage.getPhotosByIds(schadensfaelle.flatMap((schadensfall) => [
+        ...(schadensfall.fotoIdsVorher || []),
+        ...(schadensfall.fotoIdsNachher || []),
+      ]))).filter((foto) => isVisible(foto.projectId));
+
+      // Aufgaben mit Pflichtangaben aus der gespeicherten Checkliste übernehmen
+      const userNames = await getUserNames(aufgaben.map((aufgabe) => aufgabe.erledigtVon));
+
+      const { generateFloodProtectionPDF } = await import('./pdfGenerator');
+      const pdfBuffer = await generateFloodProtectionPDF({
+        checklist: {
+          ...checklist,
+          aufgaben: aufgaben.length > 0 ? aufgaben.map((aufgabe) => toChecklistTaskResponse(aufgabe, userNames)) : checklist.aufgaben,
+        },
+        schieber: schieber || [],
+        schaeden: await getSchadensfallResponses(schadensfaelle),
         wachen,
         exportedAt,
-        exportedBy
+        exportedBy,
+        photos: await loadPdfPhotos(fotos),
       });
 
-      const pdfBuffer = generateMinimalPDF(textContent.toString());
-
       // Setze korrekte PDF-Headers
       res.setHeader('Content-Type', 'application/pdf');
       res.setHeader('Content-Disposition', `attachment; filename="Hochwasserschutz-Checkliste-${checklist.titel.replace(/[^a-zA-Z0-9]/g, '-')}-${new Date().toISOString().split('T')[0]}.pdf"`);
@@ -1243,7 +5149,7 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
       const updateData = req.body;
       
       // Validate update data
-      const allowedFields = ['firstName', 'lastName', 'email', 'role', 'emailNotificationsEnabled'];
+      const allowedFields = ['firstName', 'lastName', 'email', 'role', 'emailNotificationsEnabled', 'sftpAccessLevel'];
       const filteredData = Object.keys(updateData)
         .filter(key => allowedFields.includes(key))
         .reduce((obj: any, key) => {
@@ -1331,6 +5237,7 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
       const { generateRiskAssessment } = await import('./openai');
       const userId = req.user.id;
       const { name, location, budget, description, duration, projectId } = req.body;
+      if (projectId && !(await requireProjectAccess(req, res, parseInt(projectId)))) return;
 
       const result = await generateRiskAssessment(userId, {
         name,
@@ -1355,6 +5262,7 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
       const { aiProjectChat } = await import('./openai');
       const userId = req.user.id;
       const { question, projectContext, projectId } = req.body;
+      if (projectId && !(await requireProjectAccess(req, res, parseInt(projectId)))) return;
 
       const result = await aiProjectChat(userId, question, projectContext, projectId);
 
@@ -1388,17 +5296,13 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
     try {
       const projectId = req.query.projectId;
       if (projectId) {
+        if (!(await requireProjectAccess(req, res, parseInt(projectId)))) return;
         const photos = await storage.getPhotos(parseInt(projectId));
         res.json(photos);
       } else {
-        // Alle Fotos für den Benutzer
-        const projects = await storage.getProjects();
-        const allPhotos = [];
-        for (const project of projects) {
-          const photos = await storage.getPhotos(project.id);
-          allPhotos.push(...photos);
-        }
-        res.json(allPhotos);
+        // Alle Fotos aus den Projekten des Benutzers
+        const projectIds = await getProjectScope(req.user.id) ?? (await storage.getProjects()).map((project) => project.id);
+        res.json(await storage.getPhotosForProjects(projectIds));
       }
     } catch (error) {
       console.error("Error fetching photos:", error);
@@ -1406,34 +5310,84 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
     }
   });
 
+  // Projektvorschlag für eine Aufnahmeposition (nächstgelegener Projektstandort)
+  app.get('/api/photos/project-suggestion', isAuthenticated, async (req: any, res) => {
+    try {
+      const latitude = parseFloat(req.query.latitude);
+      const longitude = parseFloat(req.query.longitude);
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+        return res.status(400).json({ message: "latitude and longitude are required" });
+      }
+
+      const suggestion = findNearestProject({ latitude, longitude }, await storage.getProjectGeoPoints(await getProjectScope(req.user.id)));
+      res.json({ suggestedProject: suggestion });
+    } catch (error) {
+      console.error("Error suggesting project for photo:", error);
+      res.status(500).json({ message: "Failed to suggest project" });
+    }
+  });
+
   app.post('/api/photos', isAuthenticated, async (req: any, res) => {
     try {
       const { projectId, description, imageData, latitude, longitude } = req.body;
       const userId = req.user.id;
 
-      if (!projectId || !imageData) {
-        return res.status(400).json({ message: "Project ID and image data are required" });
+      if (!imageData) {
+        return res.status(400).json({ message: "Image data is required" });
       }
 
-      // Base64-Bild in Buffer konvertieren (für echte Implementierung)
-      // Hier würde normalerweise das Bild auf einem File-Server gespeichert
+      // Base64-Bild dekodieren und in der Dateiablage speichern (identische Inhalte nur einmal)
       const imageBuffer = Buffer.from(imageData.split(',')[1], 'base64');
       const fileName = `photo_${Date.now()}.jpg`;
-      
-      // Mock: Foto-URL (in echter Implementierung würde hier Cloud Storage verwendet)
-      const photoUrl = `/uploads/photos/${fileName}`;
+
+      // EXIF-Position hat Vorrang, sonst die vom Gerät mitgeschickte Position
+      const exif = await extractPhotoMetadata(imageBuffer);
+      const clientLatitude = parseFloat(latitude);
+      const clientLongitude = parseFloat(longitude);
+      const position = exif.gps
+        ?? (Number.isFinite(clientLatitude) && Number.isFinite(clientLongitude)
+          ? { latitude: clientLatitude, longitude: clientLongitude }
+          : null);
+      const suggestedProject = position
+        ? findNearestProject(position, await storage.getProjectGeoPoints(await getProjectScope(userId)))
+        : null;
+
+      const targetProjectId = projectId ? parseInt(projectId) : suggestedProject?.projectId;
+      if (!targetProjectId) {
+        return res.status(400).json({
+          message: position
+            ? "Project ID is required: no project found near the photo's position"
+            : "Project ID is required: the photo has no GPS position",
+        });
+      }
+      if (!(await requireProjectAccess(req, res, targetProjectId, "edit"))) return;
+
+      const stored = await storeFile(imageBuffer, 'image/jpeg');
+      let thumbnailPath: string | null = null;
+      try {
+        thumbnailPath = (await storeFile(await createThumbnail(imageBuffer), 'image/jpeg')).key;
+      } catch (error) {
+        console.error("Error creating photo thumbnail:", error);
+      }
 
       const photo = await storage.createPhoto({
-        projectId: parseInt(projectId),
+        projectId: targetProjectId,
         fileName,
-        filePath: photoUrl,
+        filePath: stored.key,
+        contentHash: stored.contentHash,
+        thumbnailPath,
         description: description || '',
-        gpsLatitude: latitude ? latitude.toString() : null,
-        gpsLongitude: longitude ? longitude.toString() : null,
+        gpsLatitude: position ? position.latitude.toString() : null,
+        gpsLongitude: position ? position.longitude.toString() : null,
+        metadata: {
+          ...exif,
+          gpsSource: exif.gps ? 'exif' : position ? 'device' : null,
+          suggestedProject,
+        },
         takenBy: userId,
       });
 
-      res.json({ ...photo, message: "Photo saved successfully" });
+      res.json({ ...photo, suggestedProject, message: "Photo saved successfully" });
     } catch (error) {
       console.error("Error saving photo:", error);
       res.status(500).json({ 
@@ -1443,22 +5397,106 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
     }
   });
 
+  app.get('/api/photos/:id/file', isAuthenticated, async (req: any, res) => {
+    try {
+      const photo = await storage.getPhoto(parseInt(req.params.id));
+      if (!photo) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      if (photo.projectId && !(await requireProjectAccess(req, res, photo.projectId))) return;
+      await sendStoredFile(req, res, photo, 'image/jpeg');
+    } catch (error) {
+      console.error("Error downloading photo:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to download photo" });
+      }
+    }
+  });
+
+  app.get('/api/photos/:id/thumbnail', isAuthenticated, async (req: any, res) => {
+    try {
+      const photo = await storage.getPhoto(parseInt(req.params.id));
+      if (!photo) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      if (photo.projectId && !(await requireProjectAccess(req, res, photo.projectId))) return;
+      // Ältere Fotos ohne Vorschaubild liefern das Original
+      const record = photo.thumbnailPath
+        ? { fileName: `thumb_${photo.fileName}`, filePath: photo.thumbnailPath, contentHash: null }
+        : photo;
+      await sendStoredFile(req, res, record, 'image/jpeg');
+    } catch (error) {
+      console.error("Error downloading photo thumbnail:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to download photo thumbnail" });
+      }
+    }
+  });
+
+  app.delete('/api/photos/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const photo = await storage.getPhoto(parseInt(req.params.id));
+      if (!photo) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      // Eigene Fotos dürfen alle Projektmitglieder mit Schreibrecht löschen, fremde nur der Bauleiter
+      if (photo.projectId) {
+        const permission = photo.takenBy === req.user.id ? "edit" : "manage";
+        if (!(await requireProjectAccess(req, res, photo.projectId, permission))) return;
+      } else if (photo.takenBy !== req.user.id) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      // Unterschriebene Bautagebucheinträge sind gesperrt, ihre Fotos dürfen sich nicht mehr ändern
+      const signedEntries = await storage.getSignedDiaryEntriesWithMedia({ photoId: photo.id });
+      if (signedEntries.length > 0) {
+        return res.status(409).json({
+          message: `Photo belongs to signed diary entries (${signedEntries.map((entry) => entry.entryDate).join(", ")})`,
+        });
+      }
+
+      await storage.deletePhoto(photo.id);
+      await releaseStoredFile(photo);
+      if (photo.thumbnailPath) {
+        // Das Vorschaubild hängt am selben Inhalt wie das Original
+        await releaseStoredFile({ filePath: photo.thumbnailPath, contentHash: photo.contentHash });
+      }
+      res.json({ message: "Photo deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting photo:", error);
+      res.status(500).json({ message: "Failed to delete photo" });
+    }
+  });
+
+  // Ergebnis der Spracherkennung in den Spalten der Audioaufnahme
+  const transcriptionFields = (result: TranscriptionResult) => ({
+    transcription: result.text,
+    transcriptionConfidence: result.confidence != null ? result.confidence.toString() : null,
+    transcriptionLanguage: result.language ?? null,
+    transcriptionSegments: result.segments ?? [],
+    transcriptionProvider: result.provider,
+    transcribedAt: new Date(),
+  });
+
+  const sendTranscriptionError = (res: any, error: unknown) => {
+    console.error("Error transcribing audio:", error);
+    res.status(error instanceof TranscriptionError ? error.status : 500).json({
+      message: "Failed to transcribe audio",
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  };
+
   // Audio Records routes
   app.get('/api/audio-records', isAuthenticated, async (req: any, res) => {
     try {
       const projectId = req.query.projectId;
       if (projectId) {
+        if (!(await requireProjectAccess(req, res, parseInt(projectId)))) return;
         const records = await storage.getAudioRecords(parseInt(projectId));
         res.json(records);
       } else {
-        // Alle Audio-Aufnahmen für den Benutzer
-        const projects = await storage.getProjects();
-        const allRecords = [];
-        for (const project of projects) {
-          const records = await storage.getAudioRecords(project.id);
-          allRecords.push(...records);
-        }
-        res.json(allRecords);
+        // Alle Audio-Aufnahmen aus den Projekten des Benutzers
+        const projectIds = await getProjectScope(req.user.id) ?? (await storage.getProjects()).map((project) => project.id);
+        res.json(await storage.getAudioRecordsForProjects(projectIds));
       }
     } catch (error) {
       console.error("Error fetching audio records:", error);
@@ -1468,28 +5506,29 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
 
   app.post('/api/audio-records', isAuthenticated, async (req: any, res) => {
     try {
-      const { projectId, description, audioData, duration, transcription, latitude, longitude } = req.body;
+      const { projectId, description, audioData, duration, transcription, transcriptionResult, latitude, longitude } = req.body;
       const userId = req.user.id;
 
       if (!projectId || !audioData) {
         return res.status(400).json({ message: "Project ID and audio data are required" });
       }
+      if (!(await requireProjectAccess(req, res, parseInt(projectId), "edit"))) return;
 
-      // Base64-Audio in Buffer konvertieren (für echte Implementierung)
-      // Hier würde normalerweise das Audio auf einem File-Server gespeichert
+      // Base64-Audio dekodieren und in der Dateiablage speichern (identische Inhalte nur einmal)
       const audioBuffer = Buffer.from(audioData.split(',')[1], 'base64');
       const fileName = `audio_${Date.now()}.webm`;
-      
-      // Mock: Audio-URL (in echter Implementierung würde hier Cloud Storage verwendet)
-      const audioUrl = `/uploads/audio/${fileName}`;
+      const stored = await storeFile(audioBuffer, 'audio/webm');
 
       const record = await storage.createAudioRecord({
         projectId: parseInt(projectId),
         fileName,
-        filePath: audioUrl,
+        filePath: stored.key,
+        contentHash: stored.contentHash,
         duration: duration || 0,
         description: description || '',
-        transcription: transcription || null,
+        // Vorab per /api/audio/transcribe erkanntes Ergebnis; der Text kann vom Nutzer korrigiert worden sein
+        ...(transcriptionResult ? transcriptionFields(transcriptionResult) : {}),
+        transcription: transcription || transcriptionResult?.text || null,
         gpsLatitude: latitude ? latitude.toString() : null,
         gpsLongitude: longitude ? longitude.toString() : null,
         recordedBy: userId,
@@ -1505,40 +5544,105 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
     }
   });
 
-  // Audio Transcription route (Mock - würde normalerweise OpenAI Whisper verwenden)
+  app.get('/api/audio-records/:id/file', isAuthenticated, async (req: any, res) => {
+    try {
+      const record = await storage.getAudioRecord(parseInt(req.params.id));
+      if (!record) {
+        return res.status(404).json({ message: "Audio record not found" });
+      }
+      if (record.projectId && !(await requireProjectAccess(req, res, record.projectId))) return;
+      await sendStoredFile(req, res, record, 'audio/webm');
+    } catch (error) {
+      console.error("Error downloading audio record:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to download audio record" });
+      }
+    }
+  });
+
+  app.delete('/api/audio-records/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const record = await storage.getAudioRecord(parseInt(req.params.id));
+      if (!record) {
+        return res.status(404).json({ message: "Audio record not found" });
+      }
+      if (record.projectId) {
+        const permission = record.recordedBy === req.user.id ? "edit" : "manage";
+        if (!(await requireProjectAccess(req, res, record.projectId, permission))) return;
+      } else if (record.recordedBy !== req.user.id) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const signedEntries = await storage.getSignedDiaryEntriesWithMedia({ audioRecordId: record.id });
+      if (signedEntries.length > 0) {
+        return res.status(409).json({
+          message: `Audio record belongs to signed diary entries (${signedEntries.map((entry) => entry.entryDate).join(", ")})`,
+        });
+      }
+
+      await storage.deleteAudioRecord(record.id);
+      await releaseStoredFile(record);
+      res.json({ message: "Audio record deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting audio record:", error);
+      res.status(500).json({ message: "Failed to delete audio record" });
+    }
+  });
+
+  // Spracherkennung über den konfigurierten Anbieter (OpenAI Whisper oder whisper.cpp)
   app.post('/api/audio/transcribe', isAuthenticated, async (req: any, res) => {
     try {
-      const { audioData } = req.body;
+      const { audioData, language } = req.body;
 
       if (!audioData) {
         return res.status(400).json({ message: "Audio data is required" });
       }
 
-      // Mock-Transkription (in echter Implementierung würde hier OpenAI Whisper API verwendet)
-      const mockTranscriptions = [
-        "Die Bauarbeiten am Fundament sind heute planmäßig vorangeschritten. Die Betonierung wurde erfolgreich abgeschlossen.",
-        "Heute wurde die Bewehrung für die Bodenplatte eingebaut. Qualitätsprüfung durch den Statiker erfolgt morgen.",
-        "Fortschritt bei der Rohrleitungsverlegung. Alle Anschlüsse sind fachgerecht ausgeführt worden.",
-        "Die Erdarbeiten sind abgeschlossen. Nächster Schritt ist die Verdichtung des Untergrunds.",
-        "Schalung für die Stützen wurde heute aufgestellt. Betonage ist für morgen geplant."
-      ];
+      const audioBuffer = Buffer.from(audioData.split(',')[1] ?? audioData, 'base64');
+      const result = await getTranscriptionProvider().transcribe(audioBuffer, {
+        fileName: 'aufnahme.webm',
+        mimeType: 'audio/webm',
+        language: language || 'de',
+      });
 
-      const randomTranscription = mockTranscriptions[Math.floor(Math.random() * mockTranscriptions.length)];
+      res.json({
+        transcription: result.text,
+        confidence: result.confidence,
+        language: result.language,
+        segments: result.segments,
+        provider: result.provider,
+      });
+    } catch (error) {
+      sendTranscriptionError(res, error);
+    }
+  });
 
-      // Simulation einer kleinen Verzögerung wie bei echter API
-      await new Promise(resolve => setTimeout(resolve, 2000));
+  // Bereits gespeicherte Aufnahme (nachträglich) transkribieren
+  app.post('/api/audio-records/:id/transcribe', isAuthenticated, async (req: any, res) => {
+    try {
+      const record = await storage.getAudioRecord(parseInt(req.params.id));
+      if (!record) {
+        return res.status(404).json({ message: "Audio record not found" });
+      }
+      if (record.projectId) {
+        const permission = record.recordedBy === req.user.id ? "edit" : "manage";
+        if (!(await requireProjectAccess(req, res, record.projectId, permission))) return;
+      } else if (record.recordedBy !== req.user.id) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
 
-      res.json({ 
-        transcription: randomTranscription,
-        confidence: 0.95,
-        language: "de"
+      const result = await getTranscriptionProvider().transcribe(await readStoredFile(record.filePath), {
+        fileName: record.fileName,
+        mimeType: 'audio/webm',
+        language: req.body?.language || 'de',
       });
+
+      const updated = await storage.updateAudioRecord(record.id, transcriptionFields(result));
+      res.json(updated);
     } catch (error) {
-      console.error("Error transcribing audio:", error);
-      res.status(500).json({ 
-        message: "Failed to transcribe audio", 
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      if (error instanceof FileNotFoundError) {
+        return res.status(404).json({ message: "File content not found" });
+      }
+      sendTranscriptionError(res, error);
     }
   });
 
@@ -1968,10 +6072,18 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
   app.post("/api/customers/:id/contacts", isAuthenticated, async (req: any, res) => {
     try {
       const customerId = parseInt(req.params.id);
-      const contactData = { ...req.body, customerId };
+      if (!(await requireAddressBookWrite(req, res))) return;
+      if (!(await storage.getCustomer(customerId))) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const contactData = insertCustomerContactSchema.parse({ ...req.body, customerId });
       const newContact = await storage.createCustomerContact(contactData);
       res.status(201).json(newContact);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
       console.error("Error creating customer contact:", error);
       res.status(500).json({ message: "Failed to create customer contact" });
     }
@@ -1979,10 +6091,22 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
 
   app.put("/api/customers/:customerId/contacts/:id", isAuthenticated, async (req: any, res) => {
     try {
+      const customerId = parseInt(req.params.customerId);
       const contactId = parseInt(req.params.id);
-      const updatedContact = await storage.updateCustomerContact(contactId, req.body);
+      if (!(await requireAddressBookWrite(req, res))) return;
+
+      const existing = await storage.getCustomerContact(contactId);
+      if (!existing || existing.customerId !== customerId) {
+        return res.status(404).json({ message: "Customer contact not found" });
+      }
+
+      const contactData = insertCustomerContactSchema.omit({ customerId: true }).partial().parse(req.body);
+      const updatedContact = await storage.updateCustomerContact(contactId, contactData);
       res.json(updatedContact);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
       console.error("Error updating customer contact:", error);
       res.status(500).json({ message: "Failed to update customer contact" });
     }
@@ -1990,7 +6114,15 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
 
   app.delete("/api/customers/:customerId/contacts/:id", isAuthenticated, async (req: any, res) => {
     try {
+      const customerId = parseInt(req.params.customerId);
       const contactId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res))) return;
+
+      const existing = await storage.getCustomerContact(contactId);
+      if (!existing || existing.customerId !== customerId) {
+        return res.status(404).json({ message: "Customer contact not found" });
+      }
+
       await storage.deleteCustomerContact(contactId);
       res.status(204).send();
     } catch (error) {
@@ -2011,32 +6143,63 @@ Diese E-Mail wurde automatisch generiert vom Bau-Structura Hochwasserschutz-Syst
     }
   });
 
-  app.post("/api/companies/:id/contacts", isAuthenticated, async (req: any, res) => {
+  const createCompanyContact = async (req: any, res: any, companyId: number) => {
     try {
-      const companyId = parseInt(req.params.id);
-      const contactData = { ...req.body, companyId };
+      if (!(await requireAddressBookWrite(req, res))) return;
+      if (!companyId || !(await storage.getCompany(companyId))) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+
+      const contactData = insertCompanyContactSchema.parse({ ...req.body, companyId });
       const newContact = await storage.createCompanyContact(contactData);
       res.status(201).json(newContact);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
       console.error("Error creating company contact:", error);
       res.status(500).json({ message: "Failed to create company contact" });
     }
-  });
+  };
+
+  app.post("/api/companies/:id/contacts", isAuthenticated, (req: any, res) =>
+    createCompanyContact(req, res, parseInt(req.params.id)));
 
-  app.put("/api/company-contacts/:id", isAuthenticated, async (req: any, res) => {
+  app.post("/api/company-contacts", isAuthenticated, (req: any, res) =>
+    createCompanyContact(req, res, parseInt(req.body?.companyId)));
+
+  const updateCompanyContact = async (req: any, res: any) => {
     try {
       const contactId = parseInt(req.params.id);
-      const updatedContact = await storage.updateCompanyContact(contactId, req.body);
+      if (!(await requireAddressBookWrite(req, res))) return;
+      if (!(await storage.getCompanyContact(contactId))) {
+        return res.status(404).json({ message: "Company contact not found" });
+      }
+
+      // Contacts stay with their company; moving them is done by creating a new contact
+      const contactData = insertCompanyContactSchema.omit({ companyId: true }).partial().parse(req.body);
+      const updatedContact = await storage.updateCompanyContact(contactId, contactData);
       res.json(updatedContact);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
       console.error("Error updating company contact:", error);
       res.status(500).json({ message: "Failed to update company contact" });
     }
-  });
+  };
+
+  app.put("/api/company-contacts/:id", isAuthenticated, updateCompanyContact);
+  app.patch("/api/company-contacts/:id", isAuthenticated, updateCompanyContact);
 
   app.delete("/api/company-contacts/:id", isAuthenticated, async (req: any, res) => {
     try {
       const contactId = parseInt(req.params.id);
+      if (!(await requireAddressBookWrite(req, res))) return;
+      if (!(await storage.getCompanyContact(contactId))) {
+        return res.status(404).json({ message: "Company contact not found" });
+      }
+
       await storage.deleteCompanyContact(contactId);
       res.status(204).send();
     } catch (error) {
@@ -0,0 +1,253 @@
+import { Client, type ConnectConfig, type SFTPWrapper, type Stats } from 'ssh2';
+import { posix } from 'path';
+import { pipeline } from 'stream/promises';
+import type { Readable, Writable } from 'stream';
+import type { User } from '@shared/schema';
+
+/**
+ * Zugriffsstufen aus users.sftpAccessLevel:
+ * 0 = nur lesen (auflisten, herunterladen), 1 = lesen und schreiben (hochladen, Ordner anlegen, umbenennen),
+ * 2 = Vollzugriff (zusätzlich löschen). Administratoren haben immer Vollzugriff.
+ */
+export const SFTP_ACCESS_LEVEL = {
+  READ: 0,
+  WRITE: 1,
+  FULL: 2,
+} as const;
+
+export type SftpOperation = 'list' | 'download' | 'upload' | 'mkdir' | 'rename' | 'delete';
+
+const REQUIRED_ACCESS_LEVEL: Record<SftpOperation, number> = {
+  list: SFTP_ACCESS_LEVEL.READ,
+  download: SFTP_ACCESS_LEVEL.READ,
+  upload: SFTP_ACCESS_LEVEL.WRITE,
+  mkdir: SFTP_ACCESS_LEVEL.WRITE,
+  rename: SFTP_ACCESS_LEVEL.WRITE,
+  delete: SFTP_ACCESS_LEVEL.FULL,
+};
+
+// SFTP-Statuscodes (RFC draft-ietf-secsh-filexfer), die auf HTTP-Status abgebildet werden
+const SFTP_STATUS_NO_SUCH_FILE = 2;
+const SFTP_STATUS_PERMISSION_DENIED = 3;
+
+export class SftpConfigError extends Error {}
+
+export class SftpAccessError extends Error {}
+
+export interface SftpFileEntry {
+  name: string;
+  type: 'file' | 'directory';
+  size: number;
+  modified: Date;
+  permissions: string;
+}
+
+type SftpUser = Pick<User, 'role' | 'sftpHost' | 'sftpPort' | 'sftpUsername' | 'sftpPassword' | 'sftpPath' | 'sftpAccessLevel'>;
+
+/**
+ * Prüft, ob ein Benutzer eine SFTP-Operation ausführen darf
+ */
+export function hasSftpAccess(user: Pick<User, 'role' | 'sftpAccessLevel'>, operation: SftpOperation): boolean {
+  if (user.role === 'admin') return true;
+  if (user.role === 'user') return false;
+  return (user.sftpAccessLevel ?? SFTP_ACCESS_LEVEL.READ) >= REQUIRED_ACCESS_LEVEL[operation];
+}
+
+/**
+ * Löst einen vom Client angegebenen Pfad relativ zum SFTP-Basisverzeichnis des Benutzers auf.
+ * ".."-Segmente können das Basisverzeichnis nicht verlassen.
+ */
+export function resolveSftpPath(basePath: string | null | undefined, requestedPath: string = '/'): string {
+  const relative = posix.normalize(posix.join('/', requestedPath || '/'));
+  return posix.join(basePath || '/', relative);
+}
+
+/**
+ * Wandelt den Dateimodus in die übliche ls-Darstellung um, z.B. "drwxr-xr-x"
+ */
+export function formatPermissions(mode: number, isDirectory: boolean): string {
+  const flags = ['r', 'w', 'x'];
+  let result = isDirectory ? 'd' : '-';
+  for (let bit = 8; bit >= 0; bit--) {
+    result += mode & (1 << bit) ? flags[(8 - bit) % 3] : '-';
+  }
+  return result;
+}
+
+/**
+ * Bildet Fehler der SFTP-Schicht auf HTTP-Statuscodes ab
+ */
+export function getSftpErrorStatus(error: unknown): number {
+  if (error instanceof SftpConfigError) return 400;
+  if (error instanceof SftpAccessError) return 403;
+  const code = (error as any)?.code;
+  if (code === SFTP_STATUS_NO_SUCH_FILE) return 404;
+  if (code === SFTP_STATUS_PERMISSION_DENIED) return 403;
+  // Verbindungs- und Authentifizierungsfehler des entfernten Servers
+  if (typeof code === 'string' || (error as any)?.level) return 502;
+  return 500;
+}
+
+/**
+ * Baut die ssh2-Verbindungsparameter aus dem Benutzerprofil
+ */
+export function getSftpConnectConfig(user: SftpUser): ConnectConfig {
+  if (!user.sftpHost || !user.sftpUsername) {
+    throw new SftpConfigError('SFTP configuration incomplete');
+  }
+
+  return {
+    host: user.sftpHost,
+    port: user.sftpPort || 22,
+    username: user.sftpUsername,
+    password: user.sftpPassword || undefined,
+    readyTimeout: 10000,
+  };
+}
+
+/**
+ * Eine geöffnete SFTP-Sitzung, deren Pfade relativ zum Basisverzeichnis des Benutzers sind
+ */
+export class SftpSession {
+  private constructor(
+    private client: Client,
+    private sftp: SFTPWrapper,
+    private basePath: string,
+  ) {}
+
+  static connect(config: ConnectConfig, basePath: string): Promise<SftpSession> {
+    return new Promise((resolve, reject) => {
+      const client = new Client();
+      client
+        .on('ready', () => {
+          client.sftp((error, sftp) => {
+            if (error) {
+              client.end();
+              return reject(error);
+            }
+            resolve(new SftpSession(client, sftp, basePath));
+          });
+        })
+        .on('error', reject)
+        .connect(config);
+    });
+  }
+
+  resolve(requestedPath: string): string {
+    return resolveSftpPath(this.basePath, requestedPath);
+  }
+
+  list(dirPath: string): Promise<SftpFileEntry[]> {
+    return new Promise((resolve, reject) => {
+      this.sftp.readdir(this.resolve(dirPath), (error, list) => {
+        if (error) return reject(error);
+        resolve(
+          list
+            .map((entry) => {
+              const isDirectory = entry.attrs.isDirectory();
+              return {
+                name: entry.filename,
+                type: isDirectory ? 'directory' as const : 'file' as const,
+                size: isDirectory ? 0 : entry.attrs.size,
+                modified: new Date(entry.attrs.mtime * 1000),
+                permissions: formatPermissions(entry.attrs.mode, isDirectory),
+              };
+            })
+            .sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1)),
+        );
+      });
+    });
+  }
+
+  stat(filePath: string): Promise<Stats> {
+    return new Promise((resolve, reject) => {
+      this.sftp.stat(this.resolve(filePath), (error, stats) => (error ? reject(error) : resolve(stats)));
+    });
+  }
+
+  async download(filePath: string, destination: Writable): Promise<void> {
+    await pipeline(this.sftp.createReadStream(this.resolve(filePath)), destination);
+  }
+
+  async upload(filePath: string, source: Readable): Promise<void> {
+    await pipeline(source, this.sftp.createWriteStream(this.resolve(filePath)));
+  }
+
+  rename(fromPath: string, toPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.sftp.rename(this.resolve(fromPath), this.resolve(toPath), (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  mkdir(dirPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.sftp.mkdir(this.resolve(dirPath), (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Legt ein Verzeichnis samt fehlender Elternverzeichnisse an (wie mkdir -p)
+   */
+  async ensureDir(dirPath: string): Promise<void> {
+    let current = '/';
+    for (const segment of this.resolve(dirPath).split('/').filter(Boolean)) {
+      current = posix.join(current, segment);
+      const exists = await new Promise<boolean>((resolve) => {
+        this.sftp.stat(current, (error) => resolve(!error));
+      });
+      if (!exists) {
+        await new Promise<void>((resolve, reject) => {
+          this.sftp.mkdir(current, (error) => (error ? reject(error) : resolve()));
+        });
+      }
+    }
+  }
+
+  async delete(targetPath: string): Promise<void> {
+    const stats = await this.stat(targetPath);
+    await new Promise<void>((resolve, reject) => {
+      const callback = (error?: Error | null) => (error ? reject(error) : resolve());
+      if (stats.isDirectory()) {
+        this.sftp.rmdir(this.resolve(targetPath), callback);
+      } else {
+        this.sftp.unlink(this.resolve(targetPath), callback);
+      }
+    });
+  }
+
+  end(): void {
+    this.client.end();
+  }
+}
+
+/**
+ * Öffnet eine SFTP-Sitzung mit den Zugangsdaten des Benutzers, prüft die Zugriffsstufe und schließt die Sitzung danach
+ */
+export async function withSftpSession<T>(
+  user: SftpUser,
+  operation: SftpOperation,
+  fn: (session: SftpSession) => Promise<T>,
+): Promise<T> {
+  if (!hasSftpAccess(user, operation)) {
+    throw new SftpAccessError(`SFTP access level does not permit ${operation}`);
+  }
+
+  const session = await SftpSession.connect(getSftpConnectConfig(user), user.sftpPath || '/');
+  try {
+    return await fn(session);
+  } finally {
+    session.end();
+  }
+}
+
+/**
+ * Verbindungstest für das Profil: Anmeldung und Auflisten des Basisverzeichnisses, unabhängig von der Zugriffsstufe
+ */
+export async function testSftpConnection(user: SftpUser): Promise<number> {
+  const session = await SftpSession.connect(getSftpConnectConfig(user), user.sftpPath || '/');
+  try {
+    return (await session.list('/')).length;
+  } finally {
+    session.end();
+  }
+}
@@ -0,0 +1,160 @@
+import { posix } from "path";
+import type { SftpBackupItem, SftpBackupKind } from "@shared/schema";
+import { SftpSession, getSftpConnectConfig } from "./sftpService";
+import { getFileStorage } from "./fileStorage";
+
+export const SFTP_BACKUP_STATUS = {
+  PENDING: "pending",
+  SYNCED: "synced",
+  FAILED: "failed",
+} as const;
+
+// Nach so vielen Fehlversuchen wird ein Eintrag als "failed" markiert und nur noch manuell erneut angestoßen
+export const SFTP_SYNC_MAX_VERSUCHE = 6;
+
+const SFTP_SYNC_BATCH_GROESSE = 100;
+const MINUTE_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * MINUTE_MS;
+
+const SFTP_BACKUP_ORDNER: Record<SftpBackupKind, string> = {
+  attachment: "dokumente",
+  photo: "fotos",
+  audio: "audio",
+};
+
+/**
+ * Wartezeit bis zum nächsten Versuch: 1, 2, 4, 8 ... Minuten, höchstens 6 Stunden
+ */
+export function getSftpSyncBackoffMs(versuche: number): number {
+  return Math.min(MINUTE_MS * Math.pow(2, Math.max(versuche - 1, 0)), MAX_BACKOFF_MS);
+}
+
+/**
+ * Dateisystemtauglicher Ordnername aus dem Projektnamen, z.B. "Brücke Süd" → "bruecke-sued"
+ */
+export function slugifyProjektName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50)
+    .replace(/-+$/, "");
+  return slug || "projekt";
+}
+
+/**
+ * Zielpfad relativ zum SFTP-Basisverzeichnis des Managers:
+ * /projekte/<id>-<name>/{dokumente|fotos|audio}/<eintrag-id>_<dateiname>
+ */
+export function getSftpBackupPath(item: Pick<SftpBackupItem, "kind" | "id" | "fileName" | "projectId" | "projectName">): string {
+  const projektOrdner = `${item.projectId}-${slugifyProjektName(item.projectName || "")}`;
+  const dateiName = posix.basename(item.fileName).replace(/[\\/]/g, "_");
+  return posix.join("/projekte", projektOrdner, SFTP_BACKUP_ORDNER[item.kind], `${item.id}_${dateiName}`);
+}
+
+type SyncErgebnis = { synchronisiert: number; erneutVersuchen: number; fehlgeschlagen: number };
+
+let syncLaeuft = false;
+
+/**
+ * Überträgt alle fälligen Einträge (Status "pending") in den SFTP-Ordner des jeweiligen Projektmanagers
+ */
+export async function syncSftpBackups(now: Date = new Date()): Promise<SyncErgebnis> {
+  const ergebnis: SyncErgebnis = { synchronisiert: 0, erneutVersuchen: 0, fehlgeschlagen: 0 };
+  if (syncLaeuft) return ergebnis;
+  syncLaeuft = true;
+
+  try {
+    const { storage } = await import("./storage");
+    const fileStorage = await getFileStorage();
+    const items = await storage.getSftpBackupItems({
+      status: SFTP_BACKUP_STATUS.PENDING,
+      faelligBis: now,
+      limit: SFTP_SYNC_BATCH_GROESSE,
+    });
+
+    const markFehler = async (item: SftpBackupItem, error: unknown) => {
+      const versuche = item.sftpBackupAttempts + 1;
+      const endgueltig = versuche >= SFTP_SYNC_MAX_VERSUCHE;
+      await storage.updateSftpBackup(item.kind, item.id, {
+        sftpBackupStatus: endgueltig ? SFTP_BACKUP_STATUS.FAILED : SFTP_BACKUP_STATUS.PENDING,
+        sftpBackupAttempts: versuche,
+        sftpBackupError: error instanceof Error ? error.message : String(error),
+        sftpBackupNextAttemptAt: endgueltig ? null : new Date(now.getTime() + getSftpSyncBackoffMs(versuche)),
+      });
+      if (endgueltig) {
+        ergebnis.fehlgeschlagen++;
+      } else {
+        ergebnis.erneutVersuchen++;
+      }
+    };
+
+    const nachManager = new Map<string, SftpBackupItem[]>();
+    for (const item of items) {
+      if (!item.projectId) {
+        await markFehler(item, new Error("Keinem Projekt zugeordnet"));
+      } else if (!item.managerId) {
+        await markFehler(item, new Error("Projekt hat keinen verantwortlichen Manager"));
+      } else {
+        nachManager.set(item.managerId, [...(nachManager.get(item.managerId) || []), item]);
+      }
+    }
+
+    for (const [managerId, managerItems] of Array.from(nachManager.entries())) {
+      let session: SftpSession;
+      try {
+        const manager = await storage.getUser(managerId);
+        if (!manager) throw new Error("Manager nicht gefunden");
+        session = await SftpSession.connect(getSftpConnectConfig(manager), manager.sftpPath || "/");
+      } catch (error) {
+        console.error(`SFTP-Verbindung für Manager ${managerId} fehlgeschlagen:`, error);
+        for (const item of managerItems) {
+          await markFehler(item, error);
+        }
+        continue;
+      }
+
+      try {
+        for (const item of managerItems) {
+          try {
+            const ziel = getSftpBackupPath(item);
+            await session.ensureDir(posix.dirname(ziel));
+            await session.upload(ziel, await fileStorage.get(item.filePath));
+            await storage.updateSftpBackup(item.kind, item.id, {
+              sftpPath: session.resolve(ziel),
+              sftpBackupStatus: SFTP_BACKUP_STATUS.SYNCED,
+              sftpBackupAttempts: item.sftpBackupAttempts + 1,
+              sftpBackupError: null,
+              sftpBackupNextAttemptAt: null,
+            });
+            ergebnis.synchronisiert++;
+          } catch (error) {
+            console.error(`SFTP-Spiegelung von ${item.kind} ${item.id} fehlgeschlagen:`, error);
+            await markFehler(item, error);
+          }
+        }
+      } finally {
+        session.end();
+      }
+    }
+
+    return ergebnis;
+  } finally {
+    syncLaeuft = false;
+  }
+}
+
+/**
+ * Startet die periodische Spiegelung neuer Anhänge, Fotos und Audioaufnahmen
+ */
+export function startSftpSync(intervalMs: number = 5 * 60 * 1000): NodeJS.Timeout {
+  return setInterval(() => {
+    syncSftpBackups().catch((error) => {
+      console.error("Fehler bei der SFTP-Spiegelung:", error);
+    });
+  }, intervalMs);
+}
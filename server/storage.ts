@@ -1,10 +1,12 @@
 import {
   users,
   projects,
+  projectMembers,
   customers,
   companies,
   persons,
   attachments,
+  licensePlans,
   projectLocations,
   audioRecords,
   photos,
@@ -12,10 +14,42 @@ import {
   aiLog,
   customerContacts,
   companyContacts,
+  checklists,
+  checklistTasks,
+  checklistVorlagen,
+  checklistVorlageAufgaben,
+  absperrschieber,
+  schieberPruefungen,
+  schadensfaelle,
+  schadensfallEreignisse,
+  deichabschnitte,
+  deichwachen,
+  pegel,
+  pegelMesswerte,
+  pegelAlarme,
+  wartungsanweisungen,
+  wartungsbauteile,
+  wartungsplaene,
+  wartungsaufgaben,
+  inspectionTemplates,
+  inspectionTemplateItems,
+  inspections,
+  inspectionItems,
+  inspectionSignatures,
+  projectPhases,
+  constructionDiaryEntries,
+  projectCosts,
+  defects,
+  defectEvents,
+  acceptanceProtocols,
+  projectCompanies,
   type User,
   type UpsertUser,
   type Project,
   type InsertProject,
+  type ProjectMember,
+  type InsertProjectMember,
+  type ProjectMemberWithUser,
   type Customer,
   type InsertCustomer,
   type Company,
@@ -23,6 +57,7 @@ import {
   type Person,
   type InsertPerson,
   type Attachment,
+  type LicensePlan,
   type InsertAttachment,
   type ProjectLocation,
   type InsertProjectLocation,
@@ -38,9 +73,83 @@ import {
   type InsertCustomerContact,
   type CompanyContact,
   type InsertCompanyContact,
+  type Checklist,
+  type InsertChecklist,
+  type ChecklistWithProgress,
+  type ChecklistTask,
+  type InsertChecklistTask,
+  type ChecklistVorlage,
+  type InsertChecklistVorlage,
+  type ChecklistVorlageAufgabe,
+  type InsertChecklistVorlageAufgabe,
+  type Absperrschieber,
+  type InsertAbsperrschieber,
+  type AbsperrschieberWithStatus,
+  type SchieberPruefung,
+  type InsertSchieberPruefung,
+  type Schadensfall,
+  type InsertSchadensfall,
+  type SchadensfallWithDetails,
+  type SchadensfallEreignis,
+  type InsertSchadensfallEreignis,
+  type Deichabschnitt,
+  type InsertDeichabschnitt,
+  type Deichwache,
+  type InsertDeichwache,
+  type DeichwacheWithDetails,
+  type Pegel,
+  type InsertPegel,
+  type PegelMesswert,
+  type InsertPegelMesswert,
+  type PegelAlarm,
+  type InsertPegelAlarm,
+  type Wartungsanweisung,
+  type InsertWartungsanweisung,
+  type Wartungsbauteil,
+  type InsertWartungsbauteil,
+  type Wartungsplan,
+  type InsertWartungsplan,
+  type Wartungsaufgabe,
+  type InsertWartungsaufgabe,
+  type WartungsaufgabeWithDetails,
+  type InspectionTemplate,
+  type InsertInspectionTemplate,
+  type InspectionTemplateItem,
+  type InsertInspectionTemplateItem,
+  type Inspection,
+  type InsertInspection,
+  type InspectionWithDetails,
+  type InspectionItem,
+  type InsertInspectionItem,
+  type InspectionSignature,
+  type InsertInspectionSignature,
+  type ProjectPhase,
+  type InsertProjectPhase,
+  type ConstructionDiaryEntry,
+  type InsertConstructionDiaryEntry,
+  type ConstructionDiaryEntryWithAuthor,
+  type ProjectCost,
+  type InsertProjectCost,
+  type ProjectCostWithCompany,
+  type Defect,
+  type InsertDefect,
+  type DefectWithDetails,
+  type DefectEvent,
+  type InsertDefectEvent,
+  type AcceptanceProtocol,
+  type InsertAcceptanceProtocol,
+  type ProjectCompany,
+  type InsertProjectCompany,
+  type ProjectCompanyWithDetails,
+  type CompanyProjectAssignment,
+  type SftpBackupKind,
+  type SftpBackupItem,
+  type SftpBackupUpdate,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import type { ProjectGeoPoint } from "./photoMetadata";
+import type { CompanyReferences, CustomerReferences } from "./addressBook";
+import { eq, and, or, asc, desc, gt, gte, lt, lte, inArray, isNull, isNotNull, sql, getTableColumns } from "drizzle-orm";
 
 export interface IStorage {
   // User operations (required for Auth)
@@ -56,42 +165,83 @@ export interface IStorage {
   // Project operations
   getProjects(): Promise<Project[]>;
   getProjectsByManager(managerId: string): Promise<Project[]>;
+  // Projects the user manages or belongs to as a member
+  getProjectsForUser(userId: string): Promise<Project[]>;
+  getProjectIdsForUser(userId: string): Promise<number[]>;
   getProject(id: number): Promise<Project | undefined>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: number, project: Partial<InsertProject>): Promise<Project>;
   deleteProject(id: number): Promise<void>;
+
+  // Project member operations
+  getProjectMembers(projectId: number): Promise<ProjectMemberWithUser[]>;
+  getProjectMember(projectId: number, userId: string): Promise<ProjectMember | undefined>;
+  addProjectMember(member: InsertProjectMember): Promise<ProjectMember>;
+  updateProjectMember(id: number, role: ProjectMember["role"]): Promise<ProjectMember | undefined>;
+  removeProjectMember(id: number): Promise<ProjectMember | undefined>;
   
-  // Customer operations
-  getCustomers(): Promise<Customer[]>;
+  // Customer operations; without `archived` all customers, otherwise only active or only archived ones
+  getCustomers(archived?: boolean): Promise<Customer[]>;
   getCustomer(id: number): Promise<Customer | undefined>;
   createCustomer(customer: InsertCustomer): Promise<Customer>;
+  createCustomers(customers: InsertCustomer[]): Promise<Customer[]>;
   updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer>;
+  setCustomerArchived(id: number, archived: boolean): Promise<Customer>;
+  getCustomerReferences(id: number): Promise<CustomerReferences>;
+  deleteCustomer(id: number): Promise<void>;
   
   // Company operations
-  getCompanies(): Promise<Company[]>;
+  getCompanies(archived?: boolean): Promise<Company[]>;
   getCompany(id: number): Promise<Company | undefined>;
   createCompany(company: InsertCompany): Promise<Company>;
+  createCompanies(companies: InsertCompany[]): Promise<Company[]>;
+  updateCompany(id: number, company: Partial<InsertCompany>): Promise<Company>;
+  setCompanyArchived(id: number, archived: boolean): Promise<Company>;
+  getCompanyReferences(id: number): Promise<CompanyReferences>;
+  deleteCompany(id: number): Promise<void>;
   
   // Person operations
   getPersons(): Promise<Person[]>;
   getPerson(id: number): Promise<Person | undefined>;
   createPerson(person: InsertPerson): Promise<Person>;
+  createPersons(persons: InsertPerson[]): Promise<Person[]>;
+  // Re-points all references to the surviving person and deletes the duplicates in one transaction
+  mergePersons(survivorId: number, duplicateIds: number[], updates: Partial<InsertPerson>, companyContactIds?: number[]): Promise<Person>;
   
   // Attachment operations
   getAttachments(projectId: number): Promise<Attachment[]>;
+  // Without projectIds all attachments (admins), otherwise only those of the given projects
+  getAllAttachments(projectIds?: number[]): Promise<Attachment[]>;
+  getAttachmentStorageUsage(userId: string): Promise<number>;
+  getLicensePlan(type: NonNullable<User["licenseType"]>): Promise<LicensePlan | undefined>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
   createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  deleteAttachment(id: number): Promise<Attachment | undefined>;
   
   // Project location operations
   getProjectLocations(projectId: number): Promise<ProjectLocation[]>;
   createProjectLocation(location: InsertProjectLocation): Promise<ProjectLocation>;
+  // Coordinates of all (or the given) projects and their additional locations, for GPS project suggestions
+  getProjectGeoPoints(projectIds?: number[]): Promise<ProjectGeoPoint[]>;
   
   // Audio record operations
   getAudioRecords(projectId: number): Promise<AudioRecord[]>;
+  getAudioRecordsForProjects(projectIds: number[]): Promise<AudioRecord[]>;
+  getAudioRecord(id: number): Promise<AudioRecord | undefined>;
+  getAudioRecordsByIds(ids: number[]): Promise<AudioRecord[]>;
   createAudioRecord(record: InsertAudioRecord): Promise<AudioRecord>;
+  updateAudioRecord(id: number, record: Partial<InsertAudioRecord>): Promise<AudioRecord | undefined>;
+  deleteAudioRecord(id: number): Promise<AudioRecord | undefined>;
   
   // Photo operations
   getPhotos(projectId: number): Promise<Photo[]>;
+  getPhotosForProjects(projectIds: number[]): Promise<Photo[]>;
+  getPhoto(id: number): Promise<Photo | undefined>;
   createPhoto(photo: InsertPhoto): Promise<Photo>;
+  deletePhoto(id: number): Promise<Photo | undefined>;
+
+  // Whether any attachment, photo or audio record still points at stored content
+  isContentHashReferenced(contentHash: string): Promise<boolean>;
   
   // Support ticket operations
   getSupportTickets(): Promise<SupportTicket[]>;
@@ -109,15 +259,237 @@ export interface IStorage {
 
   // Customer contact operations
   getCustomerContacts(customerId: number): Promise<CustomerContact[]>;
+  getAllCustomerContacts(): Promise<CustomerContact[]>;
+  getCustomerContact(id: number): Promise<CustomerContact | undefined>;
   createCustomerContact(contact: InsertCustomerContact): Promise<CustomerContact>;
+  createCustomerContacts(contacts: InsertCustomerContact[]): Promise<CustomerContact[]>;
+  mergeCustomerContacts(survivorId: number, duplicateIds: number[], updates: Partial<InsertCustomerContact>): Promise<CustomerContact>;
   updateCustomerContact(id: number, contact: Partial<InsertCustomerContact>): Promise<CustomerContact>;
   deleteCustomerContact(id: number): Promise<void>;
 
   // Company contact operations
   getCompanyContacts(companyId: number): Promise<CompanyContact[]>;
+  getAllCompanyContacts(): Promise<CompanyContact[]>;
+  getCompanyContact(id: number): Promise<CompanyContact | undefined>;
   createCompanyContact(contact: InsertCompanyContact): Promise<CompanyContact>;
+  createCompanyContacts(contacts: InsertCompanyContact[]): Promise<CompanyContact[]>;
+  mergeCompanyContacts(survivorId: number, duplicateIds: number[], updates: Partial<InsertCompanyContact>): Promise<CompanyContact>;
   updateCompanyContact(id: number, contact: Partial<InsertCompanyContact>): Promise<CompanyContact>;
   deleteCompanyContact(id: number): Promise<void>;
+
+  // Flood protection checklist operations
+  // Without projectIds all checklists (admins), otherwise those of the given projects and those without project
+  getChecklists(projectIds?: number[]): Promise<ChecklistWithProgress[]>;
+  getChecklist(id: number): Promise<ChecklistWithProgress | undefined>;
+  createChecklist(checklist: InsertChecklist, tasks: Omit<InsertChecklistTask, "checklistId">[]): Promise<Checklist>;
+  updateChecklist(id: number, checklist: Partial<InsertChecklist>): Promise<Checklist>;
+  deleteChecklist(id: number): Promise<void>;
+  deleteAllChecklists(): Promise<void>;
+  getChecklistTasks(checklistId: number): Promise<ChecklistTask[]>;
+  updateChecklistTask(id: number, task: Partial<InsertChecklistTask>): Promise<ChecklistTask>;
+
+  // Checklist template (Vorlage) operations
+  getChecklistVorlagen(filter?: { typ?: string; nurAktiv?: boolean }): Promise<ChecklistVorlage[]>;
+  getChecklistVorlage(id: number): Promise<ChecklistVorlage | undefined>;
+  getAktiveChecklistVorlage(typ: string): Promise<ChecklistVorlage | undefined>;
+  getChecklistVorlageAufgaben(vorlageIds: number[]): Promise<ChecklistVorlageAufgabe[]>;
+  createChecklistVorlage(
+    vorlage: Omit<InsertChecklistVorlage, "version" | "aktiv">,
+    aufgaben: Omit<InsertChecklistVorlageAufgabe, "vorlageId">[],
+  ): Promise<ChecklistVorlage>;
+  aktiviereChecklistVorlage(id: number): Promise<ChecklistVorlage>;
+  deleteChecklistVorlage(id: number): Promise<void>;
+
+  // Gate valve (Absperrschieber) operations
+  getAbsperrschieberList(): Promise<AbsperrschieberWithStatus[]>;
+  getAbsperrschieber(id: number): Promise<AbsperrschieberWithStatus | undefined>;
+  createAbsperrschieber(schieber: InsertAbsperrschieber): Promise<Absperrschieber>;
+  updateAbsperrschieber(id: number, schieber: Partial<InsertAbsperrschieber>): Promise<Absperrschieber>;
+  deleteAbsperrschieber(id: number): Promise<void>;
+  getSchieberPruefungen(absperrschieberId: number): Promise<SchieberPruefung[]>;
+  createSchieberPruefung(pruefung: InsertSchieberPruefung): Promise<SchieberPruefung>;
+
+  // Damage case (Schadensfall) operations
+  // projectIds limits the result to the given projects and damage cases without project (omitted for admins)
+  getSchadensfaelle(filter?: {
+    projectId?: number;
+    projectIds?: number[];
+    absperrschieberId?: number;
+  }): Promise<SchadensfallWithDetails[]>;
+  getSchadensfall(id: number): Promise<SchadensfallWithDetails | undefined>;
+  createSchadensfall(
+    schadensfall: InsertSchadensfall,
+    ereignis: Omit<InsertSchadensfallEreignis, "schadensfallId">,
+  ): Promise<Schadensfall>;
+  updateSchadensfall(
+    id: number,
+    schadensfall: Partial<InsertSchadensfall>,
+    ereignisse: Omit<InsertSchadensfallEreignis, "schadensfallId">[],
+  ): Promise<Schadensfall>;
+  deleteSchadensfall(id: number): Promise<void>;
+  getSchadensfallEreignisse(schadensfallIds: number[]): Promise<SchadensfallEreignis[]>;
+  createSchadensfallEreignis(ereignis: InsertSchadensfallEreignis): Promise<SchadensfallEreignis>;
+  getPhotosByIds(ids: number[]): Promise<Photo[]>;
+
+  // Dike watch (Deichwache) operations
+  getDeichabschnitte(): Promise<Deichabschnitt[]>;
+  getDeichabschnitt(id: number): Promise<Deichabschnitt | undefined>;
+  createDeichabschnitt(abschnitt: InsertDeichabschnitt): Promise<Deichabschnitt>;
+  updateDeichabschnitt(id: number, abschnitt: Partial<InsertDeichabschnitt>): Promise<Deichabschnitt>;
+  deleteDeichabschnitt(id: number): Promise<void>;
+  getDeichwachen(filter?: {
+    von?: Date;
+    bis?: Date;
+    deichabschnittId?: number;
+    personId?: number;
+  }): Promise<DeichwacheWithDetails[]>;
+  getDeichwache(id: number): Promise<DeichwacheWithDetails | undefined>;
+  createDeichwache(wache: InsertDeichwache): Promise<Deichwache>;
+  updateDeichwache(id: number, wache: Partial<InsertDeichwache>): Promise<Deichwache>;
+  deleteDeichwache(id: number): Promise<void>;
+  getDeichwachenOhneErinnerung(von: Date, bis: Date): Promise<DeichwacheWithDetails[]>;
+  markDeichwacheErinnert(id: number): Promise<void>;
+
+  // Water-level gauge (Pegel) operations
+  getPegelListe(): Promise<Pegel[]>;
+  getPegel(id: number): Promise<Pegel | undefined>;
+  getPegelByNummer(pegelnummer: string): Promise<Pegel | undefined>;
+  createPegel(data: InsertPegel): Promise<Pegel>;
+  updatePegel(
+    id: number,
+    data: Partial<InsertPegel> & Partial<Pick<Pegel, "aktuelleMeldestufe" | "letzterWasserstandCm" | "letzteMessungAm" | "letzterAbrufAm" | "letzterAbrufFehler">>,
+  ): Promise<Pegel>;
+  deletePegel(id: number): Promise<void>;
+  // Inserts readings, skipping timestamps that already exist; returns the newly stored ones
+  addPegelMesswerte(messwerte: InsertPegelMesswert[]): Promise<PegelMesswert[]>;
+  getPegelMesswerte(pegelId: number, filter?: { von?: Date; bis?: Date; limit?: number }): Promise<PegelMesswert[]>;
+  getPegelAlarme(filter?: { pegelId?: number; limit?: number }): Promise<PegelAlarm[]>;
+  createPegelAlarm(alarm: InsertPegelAlarm): Promise<PegelAlarm>;
+
+  // Maintenance (Wartung) operations
+  getWartungsanweisungen(): Promise<Wartungsanweisung[]>;
+  getWartungsanweisung(id: number): Promise<Wartungsanweisung | undefined>;
+  // Creates the instruction or updates the existing one of the same Schutzanlage
+  upsertWartungsanweisung(data: InsertWartungsanweisung): Promise<Wartungsanweisung>;
+  updateWartungsanweisung(id: number, data: Partial<InsertWartungsanweisung>): Promise<Wartungsanweisung>;
+  deleteWartungsanweisung(id: number): Promise<void>;
+  getWartungsbauteile(anweisungId: number): Promise<Wartungsbauteil[]>;
+  upsertWartungsbauteil(data: InsertWartungsbauteil): Promise<Wartungsbauteil>;
+  getWartungsplaene(filter?: { anweisungId?: number; bauteilId?: number; nurAktiv?: boolean }): Promise<Wartungsplan[]>;
+  getWartungsplan(id: number): Promise<Wartungsplan | undefined>;
+  createWartungsplan(data: InsertWartungsplan): Promise<Wartungsplan>;
+  updateWartungsplan(id: number, data: Partial<InsertWartungsplan>): Promise<Wartungsplan>;
+  // Only tasks of active plans
+  getWartungsaufgaben(filter?: {
+    anweisungId?: number;
+    planId?: number;
+    status?: string;
+    anlass?: string;
+    faelligBis?: Date;
+  }): Promise<WartungsaufgabeWithDetails[]>;
+  getWartungsaufgabe(id: number): Promise<WartungsaufgabeWithDetails | undefined>;
+  createWartungsaufgabe(data: InsertWartungsaufgabe): Promise<Wartungsaufgabe>;
+  updateWartungsaufgabe(id: number, data: Partial<InsertWartungsaufgabe>): Promise<Wartungsaufgabe>;
+  // Open tasks that are due within the lead time and not yet reminded, or overdue and not yet reported
+  getWartungsaufgabenZurErinnerung(now: Date, bis: Date): Promise<WartungsaufgabeWithDetails[]>;
+
+  // Inspection operations (templates versioned per type, project inspections with items and signatures)
+  getInspectionTemplates(filter?: { type?: string; activeOnly?: boolean }): Promise<InspectionTemplate[]>;
+  getInspectionTemplate(id: number): Promise<InspectionTemplate | undefined>;
+  getActiveInspectionTemplate(type: string): Promise<InspectionTemplate | undefined>;
+  getInspectionTemplateItems(templateIds: number[]): Promise<InspectionTemplateItem[]>;
+  createInspectionTemplate(
+    template: Omit<InsertInspectionTemplate, "version" | "active">,
+    items: Omit<InsertInspectionTemplateItem, "templateId">[],
+  ): Promise<InspectionTemplate>;
+  getInspections(projectId: number): Promise<InspectionWithDetails[]>;
+  getInspection(id: number): Promise<InspectionWithDetails | undefined>;
+  createInspection(inspection: InsertInspection, items: Omit<InsertInspectionItem, "inspectionId">[]): Promise<Inspection>;
+  updateInspection(id: number, data: Partial<InsertInspection> & { status?: string; completedAt?: Date | null }): Promise<Inspection>;
+  deleteInspection(id: number): Promise<void>;
+  getInspectionItems(inspectionId: number): Promise<InspectionItem[]>;
+  updateInspectionItem(id: number, data: Partial<InsertInspectionItem>): Promise<InspectionItem>;
+  getInspectionSignatures(inspectionId: number): Promise<InspectionSignature[]>;
+  upsertInspectionSignature(data: InsertInspectionSignature): Promise<InspectionSignature>;
+
+  // Project phase and milestone operations
+  getProjectPhases(projectId: number): Promise<ProjectPhase[]>;
+  getPhasesForProjects(projectIds: number[]): Promise<ProjectPhase[]>;
+  getProjectPhase(id: number): Promise<ProjectPhase | undefined>;
+  createProjectPhase(phase: InsertProjectPhase): Promise<ProjectPhase>;
+  updateProjectPhase(id: number, phase: Partial<InsertProjectPhase>): Promise<ProjectPhase | undefined>;
+  // Removes the phase and drops it from the dependencies of the remaining phases
+  deleteProjectPhase(id: number): Promise<ProjectPhase | undefined>;
+
+  // Construction diary operations (one entry per project and day)
+  getDiaryEntries(projectId: number, range?: { from?: string; to?: string }): Promise<ConstructionDiaryEntryWithAuthor[]>;
+  getDiaryEntry(id: number): Promise<ConstructionDiaryEntryWithAuthor | undefined>;
+  getDiaryEntryByDate(projectId: number, entryDate: string): Promise<ConstructionDiaryEntry | undefined>;
+  getSignedDiaryEntriesWithMedia(media: { photoId?: number; audioRecordId?: number }): Promise<ConstructionDiaryEntry[]>;
+  createDiaryEntry(entry: InsertConstructionDiaryEntry): Promise<ConstructionDiaryEntry>;
+  updateDiaryEntry(
+    id: number,
+    data: Partial<InsertConstructionDiaryEntry> & { status?: string; signedBy?: string; signerName?: string; signature?: string; signedAt?: Date },
+  ): Promise<ConstructionDiaryEntry>;
+  deleteDiaryEntry(id: number): Promise<void>;
+
+  // Project cost operations (budget tracking)
+  getProjectCosts(projectId: number): Promise<ProjectCostWithCompany[]>;
+  getProjectCost(id: number): Promise<ProjectCost | undefined>;
+  // Committed and actual totals per project for the project list
+  getCostTotalsForProjects(projectIds: number[]): Promise<{ projectId: number; committed: string; actual: string }[]>;
+  createProjectCost(cost: InsertProjectCost): Promise<ProjectCost>;
+  updateProjectCost(id: number, cost: Partial<InsertProjectCost>): Promise<ProjectCost>;
+  deleteProjectCost(id: number): Promise<void>;
+
+  // Defect (Mängel) operations; every status change or reminder is recorded as an event
+  getDefects(projectId: number): Promise<DefectWithDetails[]>;
+  getDefect(id: number): Promise<DefectWithDetails | undefined>;
+  // Open defects of a company with a deadline up to `until` that were not reminded yet, or overdue and not yet reported as such
+  getDefectsForReminder(today: string, until: string): Promise<DefectWithDetails[]>;
+  // Assigns the next running number of the project
+  createDefect(defect: InsertDefect, event: Omit<InsertDefectEvent, "defectId">): Promise<Defect>;
+  updateDefect(
+    id: number,
+    data: Partial<InsertDefect> & Partial<Pick<Defect, "status" | "reminderSentAt" | "overdueNotifiedAt" | "resolvedAt" | "acceptedAt" | "acceptedBy">>,
+    events?: Omit<InsertDefectEvent, "defectId">[],
+  ): Promise<Defect>;
+  deleteDefect(id: number): Promise<void>;
+  getDefectEvents(defectId: number): Promise<DefectEvent[]>;
+
+  // Acceptance protocol (Abnahme) operations
+  getAcceptanceProtocols(projectId: number): Promise<AcceptanceProtocol[]>;
+  getAcceptanceProtocol(id: number): Promise<AcceptanceProtocol | undefined>;
+  getLatestSignedAcceptanceProtocol(projectId: number): Promise<AcceptanceProtocol | undefined>;
+  createAcceptanceProtocol(protocol: InsertAcceptanceProtocol & Pick<AcceptanceProtocol, "snapshot" | "createdBy">): Promise<AcceptanceProtocol>;
+  updateAcceptanceProtocol(id: number, data: Partial<Omit<AcceptanceProtocol, "id" | "projectId" | "createdAt">>): Promise<AcceptanceProtocol>;
+  // Freezes the protocol and, unless the acceptance was refused, completes the project in the same transaction
+  signAcceptanceProtocol(
+    id: number,
+    data: Pick<AcceptanceProtocol, "pdfKey" | "pdfHash" | "signedAt" | "signedBy">,
+    completeProject: boolean,
+  ): Promise<AcceptanceProtocol>;
+  deleteAcceptanceProtocol(id: number): Promise<void>;
+
+  // Project company (subcontractor) assignments
+  getProjectCompanies(projectId: number): Promise<ProjectCompanyWithDetails[]>;
+  getProjectCompany(id: number): Promise<ProjectCompany | undefined>;
+  // Assignments of a company, limited to the given projects unless projectIds is omitted (admins)
+  getCompanyProjects(companyId: number, projectIds?: number[]): Promise<CompanyProjectAssignment[]>;
+  createProjectCompany(assignment: InsertProjectCompany): Promise<ProjectCompany>;
+  updateProjectCompany(id: number, assignment: Partial<InsertProjectCompany>): Promise<ProjectCompany>;
+  deleteProjectCompany(id: number): Promise<void>;
+
+  // SFTP backup (mirroring) operations for attachments, photos and audio records
+  getSftpBackupItems(filter?: {
+    status?: string;
+    faelligBis?: Date;
+    managerId?: string;
+    limit?: number;
+  }): Promise<SftpBackupItem[]>;
+  updateSftpBackup(kind: SftpBackupKind, id: number, data: SftpBackupUpdate): Promise<void>;
+  getSftpBackupCounts(managerId?: string): Promise<{ kind: SftpBackupKind; status: string; count: number }[]>;
+  resetSftpBackups(status: string, managerId?: string): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -172,6 +544,25 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(projects.createdAt));
   }
 
+  async getProjectsForUser(userId: string): Promise<Project[]> {
+    return await db
+      .select()
+      .from(projects)
+      .where(or(
+        eq(projects.managerId, userId),
+        inArray(projects.id, db.select({ id: projectMembers.projectId }).from(projectMembers).where(eq(projectMembers.userId, userId))),
+      ))
+      .orderBy(desc(projects.createdAt));
+  }
+
+  async getProjectIdsForUser(userId: string): Promise<number[]> {
+    const [managed, memberships] = await Promise.all([
+      db.select({ id: projects.id }).from(projects).where(eq(projects.managerId, userId)),
+      db.select({ id: projectMembers.projectId }).from(projectMembers).where(eq(projectMembers.userId, userId)),
+    ]);
+    return Array.from(new Set([...managed, ...memberships].map((row) => row.id)));
+  }
+
   async getProject(id: number): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
     return project;
@@ -195,9 +586,51 @@ export class DatabaseStorage implements IStorage {
     await db.delete(projects).where(eq(projects.id, id));
   }
 
+  // Project member operations
+  async getProjectMembers(projectId: number): Promise<ProjectMemberWithUser[]> {
+    return await db
+      .select({
+        ...getTableColumns(projectMembers),
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      })
+      .from(projectMembers)
+      .innerJoin(users, eq(projectMembers.userId, users.id))
+      .where(eq(projectMembers.projectId, projectId))
+      .orderBy(asc(projectMembers.role), asc(users.lastName), asc(users.firstName));
+  }
+
+  async getProjectMember(projectId: number, userId: string): Promise<ProjectMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+    return member;
+  }
+
+  async addProjectMember(member: InsertProjectMember): Promise<ProjectMember> {
+    const [newMember] = await db.insert(projectMembers).values(member).returning();
+    return newMember;
+  }
+
+  async updateProjectMember(id: number, role: ProjectMember["role"]): Promise<ProjectMember | undefined> {
+    const [updated] = await db.update(projectMembers).set({ role }).where(eq(projectMembers.id, id)).returning();
+    return updated;
+  }
+
+  async removeProjectMember(id: number): Promise<ProjectMember | undefined> {
+    const [deleted] = await db.delete(projectMembers).where(eq(projectMembers.id, id)).returning();
+    return deleted;
+  }
+
   // Customer operations
-  async getCustomers(): Promise<Customer[]> {
-    return await db.select().from(customers).orderBy(customers.name);
+  async getCustomers(archived?: boolean): Promise<Customer[]> {
+    return await db
+      .select()
+      .from(customers)
+      .where(archived === undefined ? undefined : archived ? isNotNull(customers.archivedAt) : isNull(customers.archivedAt))
+      .orderBy(customers.name);
   }
 
   async getCustomer(id: number): Promise<Customer | undefined> {
@@ -210,6 +643,12 @@ export class DatabaseStorage implements IStorage {
     return newCustomer;
   }
 
+  // Bulk import: a single insert statement, so either all rows are created or none
+  async createCustomers(newCustomers: InsertCustomer[]): Promise<Customer[]> {
+    if (newCustomers.length === 0) return [];
+    return db.insert(customers).values(newCustomers).returning();
+  }
+
   async updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer> {
     const [updatedCustomer] = await db
       .update(customers)
@@ -219,9 +658,31 @@ export class DatabaseStorage implements IStorage {
     return updatedCustomer;
   }
 
+  async setCustomerArchived(id: number, archived: boolean): Promise<Customer> {
+    const [updatedCustomer] = await db
+      .update(customers)
+      .set({ archivedAt: archived ? new Date() : null, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return updatedCustomer;
+  }
+
+  async getCustomerReferences(id: number): Promise<CustomerReferences> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(projects).where(eq(projects.customerId, id));
+    return { projects: count };
+  }
+
+  async deleteCustomer(id: number): Promise<void> {
+    await db.delete(customers).where(eq(customers.id, id));
+  }
+
   // Company operations
-  async getCompanies(): Promise<Company[]> {
-    return await db.select().from(companies).orderBy(companies.name);
+  async getCompanies(archived?: boolean): Promise<Company[]> {
+    return await db
+      .select()
+      .from(companies)
+      .where(archived === undefined ? undefined : archived ? isNotNull(companies.archivedAt) : isNull(companies.archivedAt))
+      .orderBy(companies.name);
   }
 
   async getCompany(id: number): Promise<Company | undefined> {
@@ -234,6 +695,44 @@ export class DatabaseStorage implements IStorage {
     return newCompany;
   }
 
+  async createCompanies(newCompanies: InsertCompany[]): Promise<Company[]> {
+    if (newCompanies.length === 0) return [];
+    return db.insert(companies).values(newCompanies).returning();
+  }
+
+  async updateCompany(id: number, company: Partial<InsertCompany>): Promise<Company> {
+    const [updatedCompany] = await db
+      .update(companies)
+      .set({ ...company, updatedAt: new Date() })
+      .where(eq(companies.id, id))
+      .returning();
+    return updatedCompany;
+  }
+
+  async setCompanyArchived(id: number, archived: boolean): Promise<Company> {
+    const [updatedCompany] = await db
+      .update(companies)
+      .set({ archivedAt: archived ? new Date() : null, updatedAt: new Date() })
+      .where(eq(companies.id, id))
+      .returning();
+    return updatedCompany;
+  }
+
+  async getCompanyReferences(id: number): Promise<CompanyReferences> {
+    const count = sql<number>`count(*)::int`;
+    const [[assignments], [costs], [defectRows], [personRows]] = await Promise.all([
+      db.select({ count }).from(projectCompanies).where(eq(projectCompanies.companyId, id)),
+      db.select({ count }).from(projectCosts).where(eq(projectCosts.companyId, id)),
+      db.select({ count }).from(defects).where(eq(defects.companyId, id)),
+      db.select({ count }).from(persons).where(eq(persons.companyId, id)),
+    ]);
+    return { projects: assignments.count, costs: costs.count, defects: defectRows.count, persons: personRows.count };
+  }
+
+  async deleteCompany(id: number): Promise<void> {
+    await db.delete(companies).where(eq(companies.id, id));
+  }
+
   // Person operations
   async getPersons(): Promise<Person[]> {
     return await db.select().from(persons).orderBy(persons.lastName, persons.firstName);
@@ -249,6 +748,34 @@ export class DatabaseStorage implements IStorage {
     return newPerson;
   }
 
+  async createPersons(newPersons: InsertPerson[]): Promise<Person[]> {
+    if (newPersons.length === 0) return [];
+    return db.insert(persons).values(newPersons).returning();
+  }
+
+  async mergePersons(
+    survivorId: number,
+    duplicateIds: number[],
+    updates: Partial<InsertPerson>,
+    companyContactIds: number[] = [],
+  ): Promise<Person> {
+    return await db.transaction(async (tx) => {
+      // In die Person übernommene Firmen-Ansprechpartner werden nirgends referenziert und entfallen
+      await tx.delete(companyContacts).where(inArray(companyContacts.id, companyContactIds));
+      await tx.update(customers).set({ contactPersonId: survivorId }).where(inArray(customers.contactPersonId, duplicateIds));
+      await tx.update(projectCompanies).set({ contactPersonId: survivorId }).where(inArray(projectCompanies.contactPersonId, duplicateIds));
+      await tx.update(schadensfaelle).set({ zugewiesenAn: survivorId }).where(inArray(schadensfaelle.zugewiesenAn, duplicateIds));
+      await tx.update(deichwachen).set({ personId: survivorId }).where(inArray(deichwachen.personId, duplicateIds));
+      await tx.delete(persons).where(inArray(persons.id, duplicateIds));
+      const [survivor] = await tx
+        .update(persons)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(persons.id, survivorId))
+        .returning();
+      return survivor;
+    });
+  }
+
   // Attachment operations
   async getAttachments(projectId: number): Promise<Attachment[]> {
     return await db
@@ -258,11 +785,43 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(attachments.createdAt));
   }
 
+  async getAllAttachments(projectIds?: number[]): Promise<Attachment[]> {
+    if (projectIds && projectIds.length === 0) return [];
+    return await db
+      .select()
+      .from(attachments)
+      .where(projectIds ? inArray(attachments.projectId, projectIds) : undefined)
+      .orderBy(desc(attachments.createdAt));
+  }
+
+  async getAttachmentStorageUsage(userId: string): Promise<number> {
+    const [usage] = await db
+      .select({ bytes: sql<number>`coalesce(sum(${attachments.fileSize}), 0)::bigint` })
+      .from(attachments)
+      .where(eq(attachments.uploadedBy, userId));
+    return Number(usage?.bytes ?? 0);
+  }
+
+  async getLicensePlan(type: NonNullable<User["licenseType"]>): Promise<LicensePlan | undefined> {
+    const [plan] = await db.select().from(licensePlans).where(eq(licensePlans.type, type));
+    return plan;
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment;
+  }
+
   async createAttachment(attachment: InsertAttachment): Promise<Attachment> {
     const [newAttachment] = await db.insert(attachments).values(attachment).returning();
     return newAttachment;
   }
 
+  async deleteAttachment(id: number): Promise<Attachment | undefined> {
+    const [deleted] = await db.delete(attachments).where(eq(attachments.id, id)).returning();
+    return deleted;
+  }
+
   // Project location operations
   async getProjectLocations(projectId: number): Promise<ProjectLocation[]> {
     return await db
@@ -276,6 +835,46 @@ export class DatabaseStorage implements IStorage {
     return newLocation;
   }
 
+  async getProjectGeoPoints(projectIds?: number[]): Promise<ProjectGeoPoint[]> {
+    if (projectIds && projectIds.length === 0) return [];
+    const projectFilter = projectIds ? inArray(projects.id, projectIds) : undefined;
+    const [projectRows, locationRows] = await Promise.all([
+      db
+        .select({ projectId: projects.id, projectName: projects.name, latitude: projects.latitude, longitude: projects.longitude })
+        .from(projects)
+        .where(and(sql`${projects.latitude} IS NOT NULL`, sql`${projects.longitude} IS NOT NULL`, projectFilter)),
+      db
+        .select({
+          projectId: projectLocations.projectId,
+          projectName: projects.name,
+          locationName: projectLocations.name,
+          latitude: projectLocations.latitude,
+          longitude: projectLocations.longitude,
+        })
+        .from(projectLocations)
+        .innerJoin(projects, eq(projectLocations.projectId, projects.id))
+        .where(projectFilter),
+    ]);
+
+    return [
+      ...projectRows.map((row) => ({
+        projectId: row.projectId,
+        projectName: row.projectName,
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        source: "project" as const,
+      })),
+      ...locationRows.map((row) => ({
+        projectId: row.projectId,
+        projectName: row.projectName,
+        locationName: row.locationName,
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        source: "location" as const,
+      })),
+    ];
+  }
+
   // Audio record operations
   async getAudioRecords(projectId: number): Promise<AudioRecord[]> {
     return await db
@@ -285,11 +884,44 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(audioRecords.createdAt));
   }
 
+  async getAudioRecordsForProjects(projectIds: number[]): Promise<AudioRecord[]> {
+    if (projectIds.length === 0) return [];
+    return await db
+      .select()
+      .from(audioRecords)
+      .where(inArray(audioRecords.projectId, projectIds))
+      .orderBy(desc(audioRecords.createdAt));
+  }
+
+  async getAudioRecord(id: number): Promise<AudioRecord | undefined> {
+    const [record] = await db.select().from(audioRecords).where(eq(audioRecords.id, id));
+    return record;
+  }
+
+  async getAudioRecordsByIds(ids: number[]): Promise<AudioRecord[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(audioRecords).where(inArray(audioRecords.id, ids));
+  }
+
   async createAudioRecord(record: InsertAudioRecord): Promise<AudioRecord> {
     const [newRecord] = await db.insert(audioRecords).values(record).returning();
     return newRecord;
   }
 
+  async updateAudioRecord(id: number, record: Partial<InsertAudioRecord>): Promise<AudioRecord | undefined> {
+    const [updated] = await db
+      .update(audioRecords)
+      .set({ ...record, updatedAt: new Date() })
+      .where(eq(audioRecords.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAudioRecord(id: number): Promise<AudioRecord | undefined> {
+    const [deleted] = await db.delete(audioRecords).where(eq(audioRecords.id, id)).returning();
+    return deleted;
+  }
+
   // Photo operations
   async getPhotos(projectId: number): Promise<Photo[]> {
     return await db
@@ -299,11 +931,39 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(photos.createdAt));
   }
 
+  async getPhotosForProjects(projectIds: number[]): Promise<Photo[]> {
+    if (projectIds.length === 0) return [];
+    return await db
+      .select()
+      .from(photos)
+      .where(inArray(photos.projectId, projectIds))
+      .orderBy(desc(photos.createdAt));
+  }
+
+  async getPhoto(id: number): Promise<Photo | undefined> {
+    const [photo] = await db.select().from(photos).where(eq(photos.id, id));
+    return photo;
+  }
+
   async createPhoto(photo: InsertPhoto): Promise<Photo> {
     const [newPhoto] = await db.insert(photos).values(photo).returning();
     return newPhoto;
   }
 
+  async deletePhoto(id: number): Promise<Photo | undefined> {
+    const [deleted] = await db.delete(photos).where(eq(photos.id, id)).returning();
+    return deleted;
+  }
+
+  async isContentHashReferenced(contentHash: string): Promise<boolean> {
+    const matches = await Promise.all([
+      db.select({ id: attachments.id }).from(attachments).where(eq(attachments.contentHash, contentHash)).limit(1),
+      db.select({ id: photos.id }).from(photos).where(eq(photos.contentHash, contentHash)).limit(1),
+      db.select({ id: audioRecords.id }).from(audioRecords).where(eq(audioRecords.contentHash, contentHash)).limit(1),
+    ]);
+    return matches.some((rows) => rows.length > 0);
+  }
+
   // Support ticket operations
   async getSupportTickets(): Promise<SupportTicket[]> {
     return await db.select().from(supportTickets).orderBy(desc(supportTickets.createdAt));
@@ -614,7 +1274,16 @@ SET standard_conforming_strings = on;
 
   // Customer contact operations
   async getCustomerContacts(customerId: number): Promise<CustomerContact[]> {
-    return db.select().from(customerContacts).where(eq(customerContacts.customerId, customerId));
+    return db.select().from(customerContacts).where(eq(customerContacts.customerId, customerId)).orderBy(customerContacts.name);
+  }
+
+  async getAllCustomerContacts(): Promise<CustomerContact[]> {
+    return db.select().from(customerContacts).orderBy(customerContacts.customerId, customerContacts.name);
+  }
+
+  async getCustomerContact(id: number): Promise<CustomerContact | undefined> {
+    const [contact] = await db.select().from(customerContacts).where(eq(customerContacts.id, id));
+    return contact;
   }
 
   async createCustomerContact(contact: InsertCustomerContact): Promise<CustomerContact> {
@@ -625,10 +1294,27 @@ SET standard_conforming_strings = on;
     return newContact;
   }
 
+  async createCustomerContacts(contacts: InsertCustomerContact[]): Promise<CustomerContact[]> {
+    if (contacts.length === 0) return [];
+    return db.insert(customerContacts).values(contacts).returning();
+  }
+
+  async mergeCustomerContacts(survivorId: number, duplicateIds: number[], updates: Partial<InsertCustomerContact>): Promise<CustomerContact> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(customerContacts).where(inArray(customerContacts.id, duplicateIds));
+      const [survivor] = await tx
+        .update(customerContacts)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(customerContacts.id, survivorId))
+        .returning();
+      return survivor;
+    });
+  }
+
   async updateCustomerContact(id: number, contact: Partial<InsertCustomerContact>): Promise<CustomerContact> {
     const [updatedContact] = await db
       .update(customerContacts)
-      .set(contact)
+      .set({ ...contact, updatedAt: new Date() })
       .where(eq(customerContacts.id, id))
       .returning();
     return updatedContact;
@@ -640,7 +1326,16 @@ SET standard_conforming_strings = on;
 
   // Company contact operations
   async getCompanyContacts(companyId: number): Promise<CompanyContact[]> {
-    return db.select().from(companyContacts).where(eq(companyContacts.companyId, companyId));
+    return db.select().from(companyContacts).where(eq(companyContacts.companyId, companyId)).orderBy(companyContacts.name);
+  }
+
+  async getAllCompanyContacts(): Promise<CompanyContact[]> {
+    return db.select().from(companyContacts).orderBy(companyContacts.companyId, companyContacts.name);
+  }
+
+  async getCompanyContact(id: number): Promise<CompanyContact | undefined> {
+    const [contact] = await db.select().from(companyContacts).where(eq(companyContacts.id, id));
+    return contact;
   }
 
   async createCompanyContact(contact: InsertCompanyContact): Promise<CompanyContact> {
@@ -651,10 +1346,27 @@ SET standard_conforming_strings = on;
     return newContact;
   }
 
+  async createCompanyContacts(contacts: InsertCompanyContact[]): Promise<CompanyContact[]> {
+    if (contacts.length === 0) return [];
+    return db.insert(companyContacts).values(contacts).returning();
+  }
+
+  async mergeCompanyContacts(survivorId: number, duplicateIds: number[], updates: Partial<InsertCompanyContact>): Promise<CompanyContact> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(companyContacts).where(inArray(companyContacts.id, duplicateIds));
+      const [survivor] = await tx
+        .update(companyContacts)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(companyContacts.id, survivorId))
+        .returning();
+      return survivor;
+    });
+  }
+
   async updateCompanyContact(id: number, contact: Partial<InsertCompanyContact>): Promise<CompanyContact> {
     const [updatedContact] = await db
       .update(companyContacts)
-      .set(contact)
+      .set({ ...contact, updatedAt: new Date() })
       .where(eq(companyContacts.id, id))
       .returning();
     return updatedContact;
@@ -663,6 +1375,1298 @@ SET standard_conforming_strings = on;
   async deleteCompanyContact(id: number): Promise<void> {
     await db.delete(companyContacts).where(eq(companyContacts.id, id));
   }
+
+  // Flood protection checklist operations
+  private checklistWithProgressQuery() {
+    return db
+      .select({
+        ...getTableColumns(checklists),
+        erstelltVonName: sql<string | null>`nullif(concat_ws(' ', ${users.firstName}, ${users.lastName}), '')`,
+        vorlageVersion: checklistVorlagen.version,
+        aufgabenGesamt: sql<number>`count(${checklistTasks.id})::int`,
+        aufgabenErledigt: sql<number>`count(${checklistTasks.id}) filter (where ${checklistTasks.erledigt})::int`,
+      })
+      .from(checklists)
+      .leftJoin(users, eq(checklists.erstelltVon, users.id))
+      .leftJoin(checklistVorlagen, eq(checklists.vorlageId, checklistVorlagen.id))
+      .leftJoin(checklistTasks, eq(checklistTasks.checklistId, checklists.id))
+      .groupBy(checklists.id, users.id, checklistVorlagen.id)
+      .$dynamic();
+  }
+
+  async getChecklists(projectIds?: number[]): Promise<ChecklistWithProgress[]> {
+    return await this.checklistWithProgressQuery()
+      .where(
+        projectIds
+          ? or(isNull(checklists.projectId), inArray(checklists.projectId, projectIds))
+          : undefined,
+      )
+      .orderBy(desc(checklists.createdAt));
+  }
+
+  async getChecklist(id: number): Promise<ChecklistWithProgress | undefined> {
+    const [checklist] = await this.checklistWithProgressQuery().where(eq(checklists.id, id));
+    return checklist;
+  }
+
+  async createChecklist(
+    checklist: InsertChecklist,
+    tasks: Omit<InsertChecklistTask, "checklistId">[],
+  ): Promise<Checklist> {
+    return await db.transaction(async (tx) => {
+      const [newChecklist] = await tx.insert(checklists).values(checklist).returning();
+      if (tasks.length > 0) {
+        await tx
+          .insert(checklistTasks)
+          .values(tasks.map((task) => ({ ...task, checklistId: newChecklist.id })));
+      }
+      return newChecklist;
+    });
+  }
+
+  async updateChecklist(id: number, checklist: Partial<InsertChecklist>): Promise<Checklist> {
+    const [updatedChecklist] = await db
+      .update(checklists)
+      .set({ ...checklist, updatedAt: new Date() })
+      .where(eq(checklists.id, id))
+      .returning();
+    return updatedChecklist;
+  }
+
+  async deleteChecklist(id: number): Promise<void> {
+    await db.delete(checklists).where(eq(checklists.id, id));
+  }
+
+  async deleteAllChecklists(): Promise<void> {
+    await db.delete(checklists);
+  }
+
+  async getChecklistTasks(checklistId: number): Promise<ChecklistTask[]> {
+    return await db
+      .select()
+      .from(checklistTasks)
+      .where(eq(checklistTasks.checklistId, checklistId))
+      .orderBy(asc(checklistTasks.abschnitt), asc(checklistTasks.nr));
+  }
+
+  async updateChecklistTask(id: number, task: Partial<InsertChecklistTask>): Promise<ChecklistTask> {
+    const [updatedTask] = await db
+      .update(checklistTasks)
+      .set({ ...task, updatedAt: new Date() })
+      .where(eq(checklistTasks.id, id))
+      .returning();
+    return updatedTask;
+  }
+
+  // Checklist template (Vorlage) operations
+  async getChecklistVorlagen(filter: { typ?: string; nurAktiv?: boolean } = {}): Promise<ChecklistVorlage[]> {
+    return await db
+      .select()
+      .from(checklistVorlagen)
+      .where(and(
+        filter.typ ? eq(checklistVorlagen.typ, filter.typ) : undefined,
+        filter.nurAktiv ? eq(checklistVorlagen.aktiv, true) : undefined,
+      ))
+      .orderBy(asc(checklistVorlagen.typ), desc(checklistVorlagen.version));
+  }
+
+  async getChecklistVorlage(id: number): Promise<ChecklistVorlage | undefined> {
+    const [vorlage] = await db.select().from(checklistVorlagen).where(eq(checklistVorlagen.id, id));
+    return vorlage;
+  }
+
+  async getAktiveChecklistVorlage(typ: string): Promise<ChecklistVorlage | undefined> {
+    const [vorlage] = await this.getChecklistVorlagen({ typ, nurAktiv: true });
+    return vorlage;
+  }
+
+  async getChecklistVorlageAufgaben(vorlageIds: number[]): Promise<ChecklistVorlageAufgabe[]> {
+    if (vorlageIds.length === 0) return [];
+    return await db
+      .select()
+      .from(checklistVorlageAufgaben)
+      .where(inArray(checklistVorlageAufgaben.vorlageId, vorlageIds))
+      .orderBy(asc(checklistVorlageAufgaben.vorlageId), asc(checklistVorlageAufgaben.abschnitt), asc(checklistVorlageAufgaben.nr));
+  }
+
+  // Legt die nächste Version einer Vorlage an und löst die bisher aktive Version desselben Typs ab
+  async createChecklistVorlage(
+    vorlage: Omit<InsertChecklistVorlage, "version" | "aktiv">,
+    aufgaben: Omit<InsertChecklistVorlageAufgabe, "vorlageId">[],
+  ): Promise<ChecklistVorlage> {
+    return await db.transaction(async (tx) => {
+      const [{ version }] = await tx
+        .select({ version: sql<number>`coalesce(max(${checklistVorlagen.version}), 0)::int` })
+        .from(checklistVorlagen)
+        .where(eq(checklistVorlagen.typ, vorlage.typ));
+      await tx
+        .update(checklistVorlagen)
+        .set({ aktiv: false })
+        .where(eq(checklistVorlagen.typ, vorlage.typ));
+      const [newVorlage] = await tx
+        .insert(checklistVorlagen)
+        .values({ ...vorlage, version: version + 1, aktiv: true })
+        .returning();
+      if (aufgaben.length > 0) {
+        await tx
+          .insert(checklistVorlageAufgaben)
+          .values(aufgaben.map((aufgabe) => ({ ...aufgabe, vorlageId: newVorlage.id })));
+      }
+      return newVorlage;
+    });
+  }
+
+  async aktiviereChecklistVorlage(id: number): Promise<ChecklistVorlage> {
+    return await db.transaction(async (tx) => {
+      const [vorlage] = await tx.select().from(checklistVorlagen).where(eq(checklistVorlagen.id, id));
+      if (!vorlage) return vorlage;
+      await tx
+        .update(checklistVorlagen)
+        .set({ aktiv: false })
+        .where(eq(checklistVorlagen.typ, vorlage.typ));
+      const [aktiviert] = await tx
+        .update(checklistVorlagen)
+        .set({ aktiv: true })
+        .where(eq(checklistVorlagen.id, id))
+        .returning();
+      return aktiviert;
+    });
+  }
+
+  async deleteChecklistVorlage(id: number): Promise<void> {
+    await db.delete(checklistVorlagen).where(eq(checklistVorlagen.id, id));
+  }
+
+  // Gate valve (Absperrschieber) operations
+  private async getLatestSchieberPruefungen(absperrschieberId?: number): Promise<Map<number, SchieberPruefung>> {
+    const latest = await db
+      .selectDistinctOn([schieberPruefungen.absperrschieberId])
+      .from(schieberPruefungen)
+      .where(absperrschieberId !== undefined ? eq(schieberPruefungen.absperrschieberId, absperrschieberId) : undefined)
+      .orderBy(schieberPruefungen.absperrschieberId, desc(schieberPruefungen.geprueftAm));
+    return new Map(latest.map((pruefung) => [pruefung.absperrschieberId, pruefung]));
+  }
+
+  async getAbsperrschieberList(): Promise<AbsperrschieberWithStatus[]> {
+    const schieberList = await db.select().from(absperrschieber).orderBy(asc(absperrschieber.nummer));
+    const latest = await this.getLatestSchieberPruefungen();
+    return schieberList.map((schieber) => ({
+      ...schieber,
+      letztePruefung: latest.get(schieber.id) || null,
+    }));
+  }
+
+  async getAbsperrschieber(id: number): Promise<AbsperrschieberWithStatus | undefined> {
+    const [schieber] = await db.select().from(absperrschieber).where(eq(absperrschieber.id, id));
+    if (!schieber) return undefined;
+    const latest = await this.getLatestSchieberPruefungen(id);
+    return { ...schieber, letztePruefung: latest.get(id) || null };
+  }
+
+  async createAbsperrschieber(schieber: InsertAbsperrschieber): Promise<Absperrschieber> {
+    const [newSchieber] = await db.insert(absperrschieber).values(schieber).returning();
+    return newSchieber;
+  }
+
+  async updateAbsperrschieber(id: number, schieber: Partial<InsertAbsperrschieber>): Promise<Absperrschieber> {
+    const [updatedSchieber] = await db
+      .update(absperrschieber)
+      .set({ ...schieber, updatedAt: new Date() })
+      .where(eq(absperrschieber.id, id))
+      .returning();
+    return updatedSchieber;
+  }
+
+  async deleteAbsperrschieber(id: number): Promise<void> {
+    await db.delete(absperrschieber).where(eq(absperrschieber.id, id));
+  }
+
+  async getSchieberPruefungen(absperrschieberId: number): Promise<SchieberPruefung[]> {
+    return await db
+      .select()
+      .from(schieberPruefungen)
+      .where(eq(schieberPruefungen.absperrschieberId, absperrschieberId))
+      .orderBy(desc(schieberPruefungen.geprueftAm));
+  }
+
+  async createSchieberPruefung(pruefung: InsertSchieberPruefung): Promise<SchieberPruefung> {
+    const [newPruefung] = await db.insert(schieberPruefungen).values(pruefung).returning();
+    return newPruefung;
+  }
+
+  // Damage case (Schadensfall) operations
+  private schadensfallWithDetailsQuery() {
+    return db
+      .select({
+        ...getTableColumns(schadensfaelle),
+        absperrschieberNummer: absperrschieber.nummer,
+        gemeldetVonName: sql<string | null>`nullif(concat_ws(' ', ${users.firstName}, ${users.lastName}), '')`,
+        zugewiesenAnName: sql<string | null>`nullif(concat_ws(' ', ${persons.firstName}, ${persons.lastName}), '')`,
+      })
+      .from(schadensfaelle)
+      .leftJoin(absperrschieber, eq(schadensfaelle.absperrschieberId, absperrschieber.id))
+      .leftJoin(users, eq(schadensfaelle.gemeldetVon, users.id))
+      .leftJoin(persons, eq(schadensfaelle.zugewiesenAn, persons.id))
+      .$dynamic();
+  }
+
+  async getSchadensfaelle(
+    filter: { projectId?: number; projectIds?: number[]; absperrschieberId?: number } = {},
+  ): Promise<SchadensfallWithDetails[]> {
+    return await this.schadensfallWithDetailsQuery()
+      .where(
+        and(
+          filter.projectId !== undefined ? eq(schadensfaelle.projectId, filter.projectId) : undefined,
+          filter.projectIds
+            ? or(isNull(schadensfaelle.projectId), inArray(schadensfaelle.projectId, filter.projectIds))
+            : undefined,
+          filter.absperrschieberId !== undefined
+            ? eq(schadensfaelle.absperrschieberId, filter.absperrschieberId)
+            : undefined,
+        ),
+      )
+      .orderBy(asc(schadensfaelle.prioritaet), desc(schadensfaelle.gemeldetAm));
+  }
+
+  async getSchadensfall(id: number): Promise<SchadensfallWithDetails | undefined> {
+    const [schadensfall] = await this.schadensfallWithDetailsQuery().where(eq(schadensfaelle.id, id));
+    return schadensfall;
+  }
+
+  async createSchadensfall(
+    schadensfall: InsertSchadensfall,
+    ereignis: Omit<InsertSchadensfallEreignis, "schadensfallId">,
+  ): Promise<Schadensfall> {
+    return await db.transaction(async (tx) => {
+      const [newSchadensfall] = await tx.insert(schadensfaelle).values(schadensfall).returning();
+      await tx.insert(schadensfallEreignisse).values({ ...ereignis, schadensfallId: newSchadensfall.id });
+      return newSchadensfall;
+    });
+  }
+
+  async updateSchadensfall(
+    id: number,
+    schadensfall: Partial<InsertSchadensfall>,
+    ereignisse: Omit<InsertSchadensfallEreignis, "schadensfallId">[],
+  ): Promise<Schadensfall> {
+    return await db.transaction(async (tx) => {
+      const [updatedSchadensfall] = await tx
+        .update(schadensfaelle)
+        .set({ ...schadensfall, updatedAt: new Date() })
+        .where(eq(schadensfaelle.id, id))
+        .returning();
+      if (ereignisse.length > 0) {
+        await tx
+          .insert(schadensfallEreignisse)
+          .values(ereignisse.map((ereignis) => ({ ...ereignis, schadensfallId: id })));
+      }
+      return updatedSchadensfall;
+    });
+  }
+
+  async deleteSchadensfall(id: number): Promise<void> {
+    await db.delete(schadensfaelle).where(eq(schadensfaelle.id, id));
+  }
+
+  async getSchadensfallEreignisse(schadensfallIds: number[]): Promise<SchadensfallEreignis[]> {
+    if (schadensfallIds.length === 0) return [];
+    return await db
+      .select()
+      .from(schadensfallEreignisse)
+      .where(inArray(schadensfallEreignisse.schadensfallId, schadensfallIds))
+      .orderBy(asc(schadensfallEreignisse.createdAt), asc(schadensfallEreignisse.id));
+  }
+
+  async createSchadensfallEreignis(ereignis: InsertSchadensfallEreignis): Promise<SchadensfallEreignis> {
+    const [newEreignis] = await db.insert(schadensfallEreignisse).values(ereignis).returning();
+    return newEreignis;
+  }
+
+  async getPhotosByIds(ids: number[]): Promise<Photo[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(photos).where(inArray(photos.id, ids));
+  }
+
+  // Dike watch (Deichwache) operations
+  async getDeichabschnitte(): Promise<Deichabschnitt[]> {
+    return await db.select().from(deichabschnitte).orderBy(asc(deichabschnitte.kmVon));
+  }
+
+  async getDeichabschnitt(id: number): Promise<Deichabschnitt | undefined> {
+    const [abschnitt] = await db.select().from(deichabschnitte).where(eq(deichabschnitte.id, id));
+    return abschnitt;
+  }
+
+  async createDeichabschnitt(abschnitt: InsertDeichabschnitt): Promise<Deichabschnitt> {
+    const [newAbschnitt] = await db.insert(deichabschnitte).values(abschnitt).returning();
+    return newAbschnitt;
+  }
+
+  async updateDeichabschnitt(id: number, abschnitt: Partial<InsertDeichabschnitt>): Promise<Deichabschnitt> {
+    const [updatedAbschnitt] = await db
+      .update(deichabschnitte)
+      .set({ ...abschnitt, updatedAt: new Date() })
+      .where(eq(deichabschnitte.id, id))
+      .returning();
+    return updatedAbschnitt;
+  }
+
+  async deleteDeichabschnitt(id: number): Promise<void> {
+    await db.delete(deichabschnitte).where(eq(deichabschnitte.id, id));
+  }
+
+  private deichwacheWithDetailsQuery() {
+    return db
+      .select({
+        ...getTableColumns(deichwachen),
+        personName: sql<string>`concat_ws(' ', ${persons.firstName}, ${persons.lastName})`,
+        personEmail: persons.email,
+        personTelefon: persons.phone,
+        deichabschnittBezeichnung: deichabschnitte.bezeichnung,
+        kmVon: deichabschnitte.kmVon,
+        kmBis: deichabschnitte.kmBis,
+      })
+      .from(deichwachen)
+      .innerJoin(persons, eq(deichwachen.personId, persons.id))
+      .innerJoin(deichabschnitte, eq(deichwachen.deichabschnittId, deichabschnitte.id))
+      .$dynamic();
+  }
+
+  async getDeichwachen(
+    filter: { von?: Date; bis?: Date; deichabschnittId?: number; personId?: number } = {},
+  ): Promise<DeichwacheWithDetails[]> {
+    // Schichten, die das Zeitfenster [von, bis) berühren
+    return await this.deichwacheWithDetailsQuery()
+      .where(
+        and(
+          filter.von ? gt(deichwachen.schichtEnde, filter.von) : undefined,
+          filter.bis ? lt(deichwachen.schichtBeginn, filter.bis) : undefined,
+          filter.deichabschnittId !== undefined ? eq(deichwachen.deichabschnittId, filter.deichabschnittId) : undefined,
+          filter.personId !== undefined ? eq(deichwachen.personId, filter.personId) : undefined,
+        ),
+      )
+      .orderBy(asc(deichwachen.schichtBeginn), asc(deichabschnitte.kmVon));
+  }
+
+  async getDeichwache(id: number): Promise<DeichwacheWithDetails | undefined> {
+    const [wache] = await this.deichwacheWithDetailsQuery().where(eq(deichwachen.id, id));
+    return wache;
+  }
+
+  async createDeichwache(wache: InsertDeichwache): Promise<Deichwache> {
+    const [newWache] = await db.insert(deichwachen).values(wache).returning();
+    return newWache;
+  }
+
+  async updateDeichwache(id: number, wache: Partial<InsertDeichwache>): Promise<Deichwache> {
+    const [updatedWache] = await db
+      .update(deichwachen)
+      .set({ ...wache, updatedAt: new Date() })
+      .where(eq(deichwachen.id, id))
+      .returning();
+    return updatedWache;
+  }
+
+  async deleteDeichwache(id: number): Promise<void> {
+    await db.delete(deichwachen).where(eq(deichwachen.id, id));
+  }
+
+  async getDeichwachenOhneErinnerung(von: Date, bis: Date): Promise<DeichwacheWithDetails[]> {
+    return await this.deichwacheWithDetailsQuery()
+      .where(
+        and(
+          gte(deichwachen.schichtBeginn, von),
+          lte(deichwachen.schichtBeginn, bis),
+          isNull(deichwachen.erinnerungGesendetAm),
+        ),
+      )
+      .orderBy(asc(deichwachen.schichtBeginn));
+  }
+
+  async markDeichwacheErinnert(id: number): Promise<void> {
+    await db.update(deichwachen).set({ erinnerungGesendetAm: new Date() }).where(eq(deichwachen.id, id));
+  }
+
+  // Water-level gauge (Pegel) operations
+  async getPegelListe(): Promise<Pegel[]> {
+    return await db.select().from(pegel).orderBy(asc(pegel.bezeichnung));
+  }
+
+  async getPegel(id: number): Promise<Pegel | undefined> {
+    const [result] = await db.select().from(pegel).where(eq(pegel.id, id));
+    return result;
+  }
+
+  async getPegelByNummer(pegelnummer: string): Promise<Pegel | undefined> {
+    const [result] = await db.select().from(pegel).where(eq(pegel.pegelnummer, pegelnummer));
+    return result;
+  }
+
+  async createPegel(data: InsertPegel): Promise<Pegel> {
+    const [newPegel] = await db.insert(pegel).values(data).returning();
+    return newPegel;
+  }
+
+  async updatePegel(
+    id: number,
+    data: Partial<InsertPegel> & Partial<Pick<Pegel, "aktuelleMeldestufe" | "letzterWasserstandCm" | "letzteMessungAm" | "letzterAbrufAm" | "letzterAbrufFehler">>,
+  ): Promise<Pegel> {
+    const [updatedPegel] = await db
+      .update(pegel)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(pegel.id, id))
+      .returning();
+    return updatedPegel;
+  }
+
+  async deletePegel(id: number): Promise<void> {
+    await db.delete(pegel).where(eq(pegel.id, id));
+  }
+
+  async addPegelMesswerte(messwerte: InsertPegelMesswert[]): Promise<PegelMesswert[]> {
+    if (messwerte.length === 0) return [];
+    return await db.insert(pegelMesswerte).values(messwerte).onConflictDoNothing().returning();
+  }
+
+  async getPegelMesswerte(
+    pegelId: number,
+    filter: { von?: Date; bis?: Date; limit?: number } = {},
+  ): Promise<PegelMesswert[]> {
+    return await db
+      .select()
+      .from(pegelMesswerte)
+      .where(
+        and(
+          eq(pegelMesswerte.pegelId, pegelId),
+          filter.von ? gte(pegelMesswerte.gemessenAm, filter.von) : undefined,
+          filter.bis ? lte(pegelMesswerte.gemessenAm, filter.bis) : undefined,
+        ),
+      )
+      .orderBy(asc(pegelMesswerte.gemessenAm))
+      .limit(filter.limit ?? 5000);
+  }
+
+  async getPegelAlarme(filter: { pegelId?: number; limit?: number } = {}): Promise<PegelAlarm[]> {
+    return await db
+      .select()
+      .from(pegelAlarme)
+      .where(filter.pegelId !== undefined ? eq(pegelAlarme.pegelId, filter.pegelId) : undefined)
+      .orderBy(desc(pegelAlarme.gemessenAm))
+      .limit(filter.limit ?? 100);
+  }
+
+  async createPegelAlarm(alarm: InsertPegelAlarm): Promise<PegelAlarm> {
+    const [newAlarm] = await db.insert(pegelAlarme).values(alarm).returning();
+    return newAlarm;
+  }
+
+  // Maintenance (Wartung) operations
+  async getWartungsanweisungen(): Promise<Wartungsanweisung[]> {
+    return await db.select().from(wartungsanweisungen).orderBy(asc(wartungsanweisungen.schutzanlage));
+  }
+
+  async getWartungsanweisung(id: number): Promise<Wartungsanweisung | undefined> {
+    const [anweisung] = await db.select().from(wartungsanweisungen).where(eq(wartungsanweisungen.id, id));
+    return anweisung;
+  }
+
+  async upsertWartungsanweisung(data: InsertWartungsanweisung): Promise<Wartungsanweisung> {
+    const [anweisung] = await db
+      .insert(wartungsanweisungen)
+      .values(data)
+      .onConflictDoUpdate({
+        target: wartungsanweisungen.schutzanlage,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return anweisung;
+  }
+
+  async updateWartungsanweisung(id: number, data: Partial<InsertWartungsanweisung>): Promise<Wartungsanweisung> {
+    const [anweisung] = await db
+      .update(wartungsanweisungen)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(wartungsanweisungen.id, id))
+      .returning();
+    return anweisung;
+  }
+
+  async deleteWartungsanweisung(id: number): Promise<void> {
+    await db.delete(wartungsanweisungen).where(eq(wartungsanweisungen.id, id));
+  }
+
+  async getWartungsbauteile(anweisungId: number): Promise<Wartungsbauteil[]> {
+    return await db
+      .select()
+      .from(wartungsbauteile)
+      .where(eq(wartungsbauteile.anweisungId, anweisungId))
+      .orderBy(asc(wartungsbauteile.nummer));
+  }
+
+  async upsertWartungsbauteil(data: InsertWartungsbauteil): Promise<Wartungsbauteil> {
+    const [bauteil] = await db
+      .insert(wartungsbauteile)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [wartungsbauteile.anweisungId, wartungsbauteile.nummer],
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return bauteil;
+  }
+
+  async getWartungsplaene(
+    filter: { anweisungId?: number; bauteilId?: number; nurAktiv?: boolean } = {},
+  ): Promise<Wartungsplan[]> {
+    return await db
+      .select(getTableColumns(wartungsplaene))
+      .from(wartungsplaene)
+      .innerJoin(wartungsbauteile, eq(wartungsplaene.bauteilId, wartungsbauteile.id))
+      .where(
+        and(
+          filter.anweisungId !== undefined ? eq(wartungsbauteile.anweisungId, filter.anweisungId) : undefined,
+          filter.bauteilId !== undefined ? eq(wartungsplaene.bauteilId, filter.bauteilId) : undefined,
+          filter.nurAktiv ? eq(wartungsplaene.aktiv, true) : undefined,
+        ),
+      )
+      .orderBy(asc(wartungsbauteile.nummer), asc(wartungsplaene.position));
+  }
+
+  async getWartungsplan(id: number): Promise<Wartungsplan | undefined> {
+    const [plan] = await db.select().from(wartungsplaene).where(eq(wartungsplaene.id, id));
+    return plan;
+  }
+
+  async createWartungsplan(data: InsertWartungsplan): Promise<Wartungsplan> {
+    const [plan] = await db.insert(wartungsplaene).values(data).returning();
+    return plan;
+  }
+
+  async updateWartungsplan(id: number, data: Partial<InsertWartungsplan>): Promise<Wartungsplan> {
+    const [plan] = await db
+      .update(wartungsplaene)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(wartungsplaene.id, id))
+      .returning();
+    return plan;
+  }
+
+  private wartungsaufgabeWithDetailsQuery() {
+    return db
+      .select({
+        ...getTableColumns(wartungsaufgaben),
+        massnahme: wartungsplaene.massnahme,
+        turnus: wartungsplaene.turnus,
+        bauteilId: wartungsbauteile.id,
+        bauteilNummer: wartungsbauteile.nummer,
+        bauteilStandort: wartungsbauteile.standort,
+        bauteilBeschreibung: wartungsbauteile.beschreibung,
+        anweisungId: wartungsanweisungen.id,
+        schutzanlage: wartungsanweisungen.schutzanlage,
+        erledigtVonName: sql<string | null>`nullif(concat_ws(' ', ${users.firstName}, ${users.lastName}), '')`,
+      })
+      .from(wartungsaufgaben)
+      .innerJoin(wartungsplaene, eq(wartungsaufgaben.planId, wartungsplaene.id))
+      .innerJoin(wartungsbauteile, eq(wartungsplaene.bauteilId, wartungsbauteile.id))
+      .innerJoin(wartungsanweisungen, eq(wartungsbauteile.anweisungId, wartungsanweisungen.id))
+      .leftJoin(users, eq(wartungsaufgaben.erledigtVon, users.id))
+      .$dynamic();
+  }
+
+  async getWartungsaufgaben(
+    filter: { anweisungId?: number; planId?: number; status?: string; anlass?: string; faelligBis?: Date } = {},
+  ): Promise<WartungsaufgabeWithDetails[]> {
+    return await this.wartungsaufgabeWithDetailsQuery()
+      .where(
+        and(
+          eq(wartungsplaene.aktiv, true),
+          filter.anweisungId !== undefined ? eq(wartungsbauteile.anweisungId, filter.anweisungId) : undefined,
+          filter.planId !== undefined ? eq(wartungsaufgaben.planId, filter.planId) : undefined,
+          filter.status ? eq(wartungsaufgaben.status, filter.status) : undefined,
+          filter.anlass ? eq(wartungsaufgaben.anlass, filter.anlass) : undefined,
+          filter.faelligBis ? lte(wartungsaufgaben.faelligAm, filter.faelligBis) : undefined,
+        ),
+      )
+      .orderBy(asc(wartungsaufgaben.faelligAm), asc(wartungsbauteile.nummer), asc(wartungsplaene.position));
+  }
+
+  async getWartungsaufgabe(id: number): Promise<WartungsaufgabeWithDetails | undefined> {
+    const [aufgabe] = await this.wartungsaufgabeWithDetailsQuery().where(eq(wartungsaufgaben.id, id));
+    return aufgabe;
+  }
+
+  async createWartungsaufgabe(data: InsertWartungsaufgabe): Promise<Wartungsaufgabe> {
+    const [aufgabe] = await db.insert(wartungsaufgaben).values(data).returning();
+    return aufgabe;
+  }
+
+  async updateWartungsaufgabe(id: number, data: Partial<InsertWartungsaufgabe>): Promise<Wartungsaufgabe> {
+    const [aufgabe] = await db
+      .update(wartungsaufgaben)
+      .set(data)
+      .where(eq(wartungsaufgaben.id, id))
+      .returning();
+    return aufgabe;
+  }
+
+  async getWartungsaufgabenZurErinnerung(now: Date, bis: Date): Promise<WartungsaufgabeWithDetails[]> {
+    return await this.wartungsaufgabeWithDetailsQuery()
+      .where(
+        and(
+          eq(wartungsplaene.aktiv, true),
+          eq(wartungsaufgaben.status, "offen"),
+          or(
+            and(isNull(wartungsaufgaben.erinnerungGesendetAm), lte(wartungsaufgaben.faelligAm, bis)),
+            and(isNull(wartungsaufgaben.ueberfaelligGemeldetAm), lt(wartungsaufgaben.faelligAm, now)),
+          ),
+        ),
+      )
+      .orderBy(asc(wartungsaufgaben.faelligAm), asc(wartungsbauteile.nummer));
+  }
+
+  // Inspection operations
+  async getInspectionTemplates(filter: { type?: string; activeOnly?: boolean } = {}): Promise<InspectionTemplate[]> {
+    return await db
+      .select()
+      .from(inspectionTemplates)
+      .where(and(
+        filter.type ? eq(inspectionTemplates.type, filter.type) : undefined,
+        filter.activeOnly ? eq(inspectionTemplates.active, true) : undefined,
+      ))
+      .orderBy(asc(inspectionTemplates.type), desc(inspectionTemplates.version));
+  }
+
+  async getInspectionTemplate(id: number): Promise<InspectionTemplate | undefined> {
+    const [template] = await db.select().from(inspectionTemplates).where(eq(inspectionTemplates.id, id));
+    return template;
+  }
+
+  async getActiveInspectionTemplate(type: string): Promise<InspectionTemplate | undefined> {
+    const [template] = await this.getInspectionTemplates({ type, activeOnly: true });
+    return template;
+  }
+
+  async getInspectionTemplateItems(templateIds: number[]): Promise<InspectionTemplateItem[]> {
+    if (templateIds.length === 0) return [];
+    return await db
+      .select()
+      .from(inspectionTemplateItems)
+      .where(inArray(inspectionTemplateItems.templateId, templateIds))
+      .orderBy(asc(inspectionTemplateItems.templateId), asc(inspectionTemplateItems.position));
+  }
+
+  // Creates the next version of a template and retires the active version of the same type
+  async createInspectionTemplate(
+    template: Omit<InsertInspectionTemplate, "version" | "active">,
+    items: Omit<InsertInspectionTemplateItem, "templateId">[],
+  ): Promise<InspectionTemplate> {
+    return await db.transaction(async (tx) => {
+      const [{ version }] = await tx
+        .select({ version: sql<number>`coalesce(max(${inspectionTemplates.version}), 0)::int` })
+        .from(inspectionTemplates)
+        .where(eq(inspectionTemplates.type, template.type));
+      await tx
+        .update(inspectionTemplates)
+        .set({ active: false })
+        .where(eq(inspectionTemplates.type, template.type));
+      const [newTemplate] = await tx
+        .insert(inspectionTemplates)
+        .values({ ...template, version: version + 1, active: true })
+        .returning();
+      if (items.length > 0) {
+        await tx
+          .insert(inspectionTemplateItems)
+          .values(items.map((item) => ({ ...item, templateId: newTemplate.id })));
+      }
+      return newTemplate;
+    });
+  }
+
+  private inspectionWithDetailsQuery() {
+    return db
+      .select({
+        ...getTableColumns(inspections),
+        inspectorName: sql<string | null>`nullif(concat_ws(' ', ${users.firstName}, ${users.lastName}), '')`,
+        templateVersion: inspectionTemplates.version,
+        itemsTotal: sql<number>`count(${inspectionItems.id})::int`,
+        itemsAnswered: sql<number>`count(${inspectionItems.id}) filter (where ${inspectionItems.result} is not null)::int`,
+        itemsFailed: sql<number>`count(${inspectionItems.id}) filter (where ${inspectionItems.result} = 'fail')::int`,
+      })
+      .from(inspections)
+      .leftJoin(users, eq(inspections.inspectorId, users.id))
+      .leftJoin(inspectionTemplates, eq(inspections.templateId, inspectionTemplates.id))
+      .leftJoin(inspectionItems, eq(inspectionItems.inspectionId, inspections.id))
+      .groupBy(inspections.id, users.id, inspectionTemplates.id)
+      .$dynamic();
+  }
+
+  async getInspections(projectId: number): Promise<InspectionWithDetails[]> {
+    return await this.inspectionWithDetailsQuery()
+      .where(eq(inspections.projectId, projectId))
+      .orderBy(desc(inspections.inspectedAt));
+  }
+
+  async getInspection(id: number): Promise<InspectionWithDetails | undefined> {
+    const [inspection] = await this.inspectionWithDetailsQuery().where(eq(inspections.id, id));
+    return inspection;
+  }
+
+  async createInspection(
+    inspection: InsertInspection,
+    items: Omit<InsertInspectionItem, "inspectionId">[],
+  ): Promise<Inspection> {
+    return await db.transaction(async (tx) => {
+      const [newInspection] = await tx.insert(inspections).values(inspection).returning();
+      if (items.length > 0) {
+        await tx
+          .insert(inspectionItems)
+          .values(items.map((item) => ({ ...item, inspectionId: newInspection.id })));
+      }
+      return newInspection;
+    });
+  }
+
+  async updateInspection(
+    id: number,
+    data: Partial<InsertInspection> & { status?: string; completedAt?: Date | null },
+  ): Promise<Inspection> {
+    const [inspection] = await db
+      .update(inspections)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(inspections.id, id))
+      .returning();
+    return inspection;
+  }
+
+  async deleteInspection(id: number): Promise<void> {
+    await db.delete(inspections).where(eq(inspections.id, id));
+  }
+
+  async getInspectionItems(inspectionId: number): Promise<InspectionItem[]> {
+    return await db
+      .select()
+      .from(inspectionItems)
+      .where(eq(inspectionItems.inspectionId, inspectionId))
+      .orderBy(asc(inspectionItems.position));
+  }
+
+  async updateInspectionItem(id: number, data: Partial<InsertInspectionItem>): Promise<InspectionItem> {
+    const [item] = await db
+      .update(inspectionItems)
+      .set(data)
+      .where(eq(inspectionItems.id, id))
+      .returning();
+    return item;
+  }
+
+  async getInspectionSignatures(inspectionId: number): Promise<InspectionSignature[]> {
+    return await db
+      .select()
+      .from(inspectionSignatures)
+      .where(eq(inspectionSignatures.inspectionId, inspectionId))
+      .orderBy(asc(inspectionSignatures.signedAt));
+  }
+
+  // A role signs once per inspection; signing again replaces the previous signature
+  async upsertInspectionSignature(data: InsertInspectionSignature): Promise<InspectionSignature> {
+    const [signature] = await db
+      .insert(inspectionSignatures)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [inspectionSignatures.inspectionId, inspectionSignatures.role],
+        set: { name: data.name, image: data.image, signedBy: data.signedBy, signedAt: new Date() },
+      })
+      .returning();
+    return signature;
+  }
+
+  // Project phase and milestone operations
+  async getProjectPhases(projectId: number): Promise<ProjectPhase[]> {
+    return await db
+      .select()
+      .from(projectPhases)
+      .where(eq(projectPhases.projectId, projectId))
+      .orderBy(asc(projectPhases.position), asc(projectPhases.plannedEnd), asc(projectPhases.id));
+  }
+
+  async getPhasesForProjects(projectIds: number[]): Promise<ProjectPhase[]> {
+    if (projectIds.length === 0) return [];
+    return await db
+      .select()
+      .from(projectPhases)
+      .where(inArray(projectPhases.projectId, projectIds))
+      .orderBy(asc(projectPhases.position), asc(projectPhases.id));
+  }
+
+  async getProjectPhase(id: number): Promise<ProjectPhase | undefined> {
+    const [phase] = await db.select().from(projectPhases).where(eq(projectPhases.id, id));
+    return phase;
+  }
+
+  async createProjectPhase(phase: InsertProjectPhase): Promise<ProjectPhase> {
+    const [created] = await db.insert(projectPhases).values(phase).returning();
+    return created;
+  }
+
+  async updateProjectPhase(id: number, phase: Partial<InsertProjectPhase>): Promise<ProjectPhase | undefined> {
+    const [updated] = await db
+      .update(projectPhases)
+      .set({ ...phase, updatedAt: new Date() })
+      .where(eq(projectPhases.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteProjectPhase(id: number): Promise<ProjectPhase | undefined> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(projectPhases).where(eq(projectPhases.id, id)).returning();
+      if (!deleted) return undefined;
+
+      const successors = await tx
+        .select()
+        .from(projectPhases)
+        .where(and(eq(projectPhases.projectId, deleted.projectId), sql`${projectPhases.dependsOn} @> ${JSON.stringify([id])}::jsonb`));
+      for (const successor of successors) {
+        await tx
+          .update(projectPhases)
+          .set({ dependsOn: successor.dependsOn.filter((predecessorId) => predecessorId !== id), updatedAt: new Date() })
+          .where(eq(projectPhases.id, successor.id));
+      }
+      return deleted;
+    });
+  }
+
+  // Construction diary operations
+  private diaryEntryQuery() {
+    return db
+      .select({
+        ...getTableColumns(constructionDiaryEntries),
+        authorName: sql<string | null>`nullif(concat_ws(' ', ${users.firstName}, ${users.lastName}), '')`,
+        reportNumber: sql<number>`(
+          select count(*) from construction_diary_entries earlier
+          where earlier.project_id = ${constructionDiaryEntries.projectId} and earlier.entry_date <= ${constructionDiaryEntries.entryDate}
+        )::int`,
+      })
+      .from(constructionDiaryEntries)
+      .leftJoin(users, eq(constructionDiaryEntries.authorId, users.id))
+      .$dynamic();
+  }
+
+  async getDiaryEntries(projectId: number, range: { from?: string; to?: string } = {}): Promise<ConstructionDiaryEntryWithAuthor[]> {
+    const conditions = [eq(constructionDiaryEntries.projectId, projectId)];
+    if (range.from) conditions.push(gte(constructionDiaryEntries.entryDate, range.from));
+    if (range.to) conditions.push(lte(constructionDiaryEntries.entryDate, range.to));
+
+    return await this.diaryEntryQuery()
+      .where(and(...conditions))
+      .orderBy(desc(constructionDiaryEntries.entryDate));
+  }
+
+  async getDiaryEntry(id: number): Promise<ConstructionDiaryEntryWithAuthor | undefined> {
+    const [entry] = await this.diaryEntryQuery().where(eq(constructionDiaryEntries.id, id));
+    return entry;
+  }
+
+  async getDiaryEntryByDate(projectId: number, entryDate: string): Promise<ConstructionDiaryEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(constructionDiaryEntries)
+      .where(and(eq(constructionDiaryEntries.projectId, projectId), eq(constructionDiaryEntries.entryDate, entryDate)));
+    return entry;
+  }
+
+  async getSignedDiaryEntriesWithMedia(media: { photoId?: number; audioRecordId?: number }): Promise<ConstructionDiaryEntry[]> {
+    const references = [];
+    if (media.photoId !== undefined) {
+      references.push(sql`${constructionDiaryEntries.photoIds} @> ${JSON.stringify([media.photoId])}::jsonb`);
+    }
+    if (media.audioRecordId !== undefined) {
+      references.push(sql`${constructionDiaryEntries.audioRecordIds} @> ${JSON.stringify([media.audioRecordId])}::jsonb`);
+    }
+    if (references.length === 0) return [];
+
+    return await db
+      .select()
+      .from(constructionDiaryEntries)
+      .where(and(eq(constructionDiaryEntries.status, "signed"), or(...references)))
+      .orderBy(constructionDiaryEntries.entryDate);
+  }
+
+  async createDiaryEntry(entry: InsertConstructionDiaryEntry): Promise<ConstructionDiaryEntry> {
+    const [newEntry] = await db.insert(constructionDiaryEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async updateDiaryEntry(
+    id: number,
+    data: Partial<InsertConstructionDiaryEntry> & { status?: string; signedBy?: string; signerName?: string; signature?: string; signedAt?: Date },
+  ): Promise<ConstructionDiaryEntry> {
+    const [entry] = await db
+      .update(constructionDiaryEntries)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(constructionDiaryEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async deleteDiaryEntry(id: number): Promise<void> {
+    await db.delete(constructionDiaryEntries).where(eq(constructionDiaryEntries.id, id));
+  }
+
+  // Project cost operations
+  async getProjectCosts(projectId: number): Promise<ProjectCostWithCompany[]> {
+    return await db
+      .select({ ...getTableColumns(projectCosts), companyName: companies.name })
+      .from(projectCosts)
+      .leftJoin(companies, eq(projectCosts.companyId, companies.id))
+      .where(eq(projectCosts.projectId, projectId))
+      .orderBy(desc(projectCosts.costDate), desc(projectCosts.id));
+  }
+
+  async getProjectCost(id: number): Promise<ProjectCost | undefined> {
+    const [cost] = await db.select().from(projectCosts).where(eq(projectCosts.id, id));
+    return cost;
+  }
+
+  async getCostTotalsForProjects(projectIds: number[]): Promise<{ projectId: number; committed: string; actual: string }[]> {
+    if (projectIds.length === 0) return [];
+    return await db
+      .select({
+        projectId: projectCosts.projectId,
+        committed: sql<string>`coalesce(sum(${projectCosts.amount}) filter (where ${projectCosts.status} = 'committed'), 0)`,
+        actual: sql<string>`coalesce(sum(${projectCosts.amount}) filter (where ${projectCosts.status} = 'actual'), 0)`,
+      })
+      .from(projectCosts)
+      .where(inArray(projectCosts.projectId, projectIds))
+      .groupBy(projectCosts.projectId);
+  }
+
+  async createProjectCost(cost: InsertProjectCost): Promise<ProjectCost> {
+    const [newCost] = await db.insert(projectCosts).values(cost).returning();
+    return newCost;
+  }
+
+  async updateProjectCost(id: number, cost: Partial<InsertProjectCost>): Promise<ProjectCost> {
+    const [updated] = await db
+      .update(projectCosts)
+      .set({ ...cost, updatedAt: new Date() })
+      .where(eq(projectCosts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteProjectCost(id: number): Promise<void> {
+    await db.delete(projectCosts).where(eq(projectCosts.id, id));
+  }
+
+  // Defect operations
+  private defectWithDetailsQuery() {
+    return db
+      .select({
+        ...getTableColumns(defects),
+        companyName: companies.name,
+        companyEmail: companies.email,
+        planFileName: attachments.fileName,
+      })
+      .from(defects)
+      .leftJoin(companies, eq(defects.companyId, companies.id))
+      .leftJoin(attachments, eq(defects.planAttachmentId, attachments.id))
+      .$dynamic();
+  }
+
+  async getDefects(projectId: number): Promise<DefectWithDetails[]> {
+    return await this.defectWithDetailsQuery()
+      .where(eq(defects.projectId, projectId))
+      .orderBy(asc(defects.number));
+  }
+
+  async getDefect(id: number): Promise<DefectWithDetails | undefined> {
+    const [defect] = await this.defectWithDetailsQuery().where(eq(defects.id, id));
+    return defect;
+  }
+
+  async getDefectsForReminder(today: string, until: string): Promise<DefectWithDetails[]> {
+    return await this.defectWithDetailsQuery()
+      .where(
+        and(
+          inArray(defects.status, ["open", "in_progress"]),
+          isNotNull(defects.companyId),
+          or(
+            and(isNull(defects.reminderSentAt), lte(defects.deadline, until)),
+            and(isNull(defects.overdueNotifiedAt), lt(defects.deadline, today)),
+          ),
+        ),
+      )
+      .orderBy(asc(defects.projectId), asc(defects.companyId), asc(defects.number));
+  }
+
+  async createDefect(defect: InsertDefect, event: Omit<InsertDefectEvent, "defectId">): Promise<Defect> {
+    return await db.transaction(async (tx) => {
+      const [{ next }] = await tx
+        .select({ next: sql<number>`coalesce(max(${defects.number}), 0) + 1` })
+        .from(defects)
+        .where(eq(defects.projectId, defect.projectId));
+      const [newDefect] = await tx.insert(defects).values({ ...defect, number: Number(next) }).returning();
+      await tx.insert(defectEvents).values({ ...event, defectId: newDefect.id });
+      return newDefect;
+    });
+  }
+
+  async updateDefect(
+    id: number,
+    data: Partial<InsertDefect> & Partial<Pick<Defect, "status" | "reminderSentAt" | "overdueNotifiedAt" | "resolvedAt" | "acceptedAt" | "acceptedBy">>,
+    events: Omit<InsertDefectEvent, "defectId">[] = [],
+  ): Promise<Defect> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(defects)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(defects.id, id))
+        .returning();
+      if (events.length > 0) {
+        await tx.insert(defectEvents).values(events.map((event) => ({ ...event, defectId: id })));
+      }
+      return updated;
+    });
+  }
+
+  async deleteDefect(id: number): Promise<void> {
+    await db.delete(defects).where(eq(defects.id, id));
+  }
+
+  async getDefectEvents(defectId: number): Promise<DefectEvent[]> {
+    return await db
+      .select()
+      .from(defectEvents)
+      .where(eq(defectEvents.defectId, defectId))
+      .orderBy(asc(defectEvents.createdAt), asc(defectEvents.id));
+  }
+
+  // Acceptance protocol operations
+  async getAcceptanceProtocols(projectId: number): Promise<AcceptanceProtocol[]> {
+    return await db
+      .select()
+      .from(acceptanceProtocols)
+      .where(eq(acceptanceProtocols.projectId, projectId))
+      .orderBy(desc(acceptanceProtocols.createdAt), desc(acceptanceProtocols.id));
+  }
+
+  async getAcceptanceProtocol(id: number): Promise<AcceptanceProtocol | undefined> {
+    const [protocol] = await db.select().from(acceptanceProtocols).where(eq(acceptanceProtocols.id, id));
+    return protocol;
+  }
+
+  async getLatestSignedAcceptanceProtocol(projectId: number): Promise<AcceptanceProtocol | undefined> {
+    const [protocol] = await db
+      .select()
+      .from(acceptanceProtocols)
+      .where(and(eq(acceptanceProtocols.projectId, projectId), eq(acceptanceProtocols.status, "signed")))
+      .orderBy(desc(acceptanceProtocols.signedAt))
+      .limit(1);
+    return protocol;
+  }
+
+  async createAcceptanceProtocol(
+    protocol: InsertAcceptanceProtocol & Pick<AcceptanceProtocol, "snapshot" | "createdBy">,
+  ): Promise<AcceptanceProtocol> {
+    const [newProtocol] = await db.insert(acceptanceProtocols).values(protocol).returning();
+    return newProtocol;
+  }
+
+  async updateAcceptanceProtocol(
+    id: number,
+    data: Partial<Omit<AcceptanceProtocol, "id" | "projectId" | "createdAt">>,
+  ): Promise<AcceptanceProtocol> {
+    const [protocol] = await db
+      .update(acceptanceProtocols)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(acceptanceProtocols.id, id))
+      .returning();
+    return protocol;
+  }
+
+  async signAcceptanceProtocol(
+    id: number,
+    data: Pick<AcceptanceProtocol, "pdfKey" | "pdfHash" | "signedAt" | "signedBy">,
+    completeProject: boolean,
+  ): Promise<AcceptanceProtocol> {
+    return await db.transaction(async (tx) => {
+      const [protocol] = await tx
+        .update(acceptanceProtocols)
+        .set({ ...data, status: "signed", updatedAt: new Date() })
+        .where(eq(acceptanceProtocols.id, id))
+        .returning();
+      if (completeProject) {
+        await tx
+          .update(projects)
+          .set({ status: "completed", updatedAt: new Date() })
+          .where(eq(projects.id, protocol.projectId));
+      }
+      return protocol;
+    });
+  }
+
+  async deleteAcceptanceProtocol(id: number): Promise<void> {
+    await db.delete(acceptanceProtocols).where(eq(acceptanceProtocols.id, id));
+  }
+
+  // Project company assignments
+  async getProjectCompanies(projectId: number): Promise<ProjectCompanyWithDetails[]> {
+    return await db
+      .select({
+        ...getTableColumns(projectCompanies),
+        companyName: companies.name,
+        contactPersonName: sql<string | null>`nullif(concat_ws(' ', ${persons.firstName}, ${persons.lastName}), '')`,
+        contactPersonEmail: persons.email,
+        contactPersonPhone: persons.phone,
+      })
+      .from(projectCompanies)
+      .innerJoin(companies, eq(projectCompanies.companyId, companies.id))
+      .leftJoin(persons, eq(projectCompanies.contactPersonId, persons.id))
+      .where(eq(projectCompanies.projectId, projectId))
+      .orderBy(projectCompanies.trade, companies.name);
+  }
+
+  async getProjectCompany(id: number): Promise<ProjectCompany | undefined> {
+    const [assignment] = await db.select().from(projectCompanies).where(eq(projectCompanies.id, id));
+    return assignment;
+  }
+
+  async getCompanyProjects(companyId: number, projectIds?: number[]): Promise<CompanyProjectAssignment[]> {
+    if (projectIds && projectIds.length === 0) return [];
+    const conditions = [eq(projectCompanies.companyId, companyId)];
+    if (projectIds) {
+      conditions.push(inArray(projectCompanies.projectId, projectIds));
+    }
+    return await db
+      .select({
+        ...getTableColumns(projectCompanies),
+        projectName: projects.name,
+        projectStatus: projects.status,
+        projectAddress: projects.address,
+      })
+      .from(projectCompanies)
+      .innerJoin(projects, eq(projectCompanies.projectId, projects.id))
+      .where(and(...conditions))
+      .orderBy(desc(projectCompanies.startDate), projects.name);
+  }
+
+  async createProjectCompany(assignment: InsertProjectCompany): Promise<ProjectCompany> {
+    const [newAssignment] = await db.insert(projectCompanies).values(assignment).returning();
+    return newAssignment;
+  }
+
+  async updateProjectCompany(id: number, assignment: Partial<InsertProjectCompany>): Promise<ProjectCompany> {
+    const [updated] = await db
+      .update(projectCompanies)
+      .set({ ...assignment, updatedAt: new Date() })
+      .where(eq(projectCompanies.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteProjectCompany(id: number): Promise<void> {
+    await db.delete(projectCompanies).where(eq(projectCompanies.id, id));
+  }
+
+  // SFTP backup (mirroring) operations
+  private sftpBackupTables = {
+    attachment: attachments,
+    photo: photos,
+    audio: audioRecords,
+  } as const;
+
+  async getSftpBackupItems(filter: {
+    status?: string;
+    faelligBis?: Date;
+    managerId?: string;
+    limit?: number;
+  } = {}): Promise<SftpBackupItem[]> {
+    const kinds = Object.keys(this.sftpBackupTables) as SftpBackupKind[];
+    const results = await Promise.all(kinds.map(async (kind) => {
+      const table = this.sftpBackupTables[kind];
+      const conditions = [];
+      if (filter.status) conditions.push(eq(table.sftpBackupStatus, filter.status));
+      if (filter.faelligBis) {
+        conditions.push(sql`(${table.sftpBackupNextAttemptAt} is null or ${table.sftpBackupNextAttemptAt} <= ${filter.faelligBis})`);
+      }
+      if (filter.managerId) conditions.push(eq(projects.managerId, filter.managerId));
+
+      const rows = await db
+        .select({
+          id: table.id,
+          fileName: table.fileName,
+          filePath: table.filePath,
+          projectId: table.projectId,
+          projectName: projects.name,
+          managerId: projects.managerId,
+          sftpPath: table.sftpPath,
+          sftpBackupStatus: table.sftpBackupStatus,
+          sftpBackupAttempts: table.sftpBackupAttempts,
+          sftpBackupError: table.sftpBackupError,
+          sftpBackupNextAttemptAt: table.sftpBackupNextAttemptAt,
+          createdAt: table.createdAt,
+        })
+        .from(table)
+        .leftJoin(projects, eq(table.projectId, projects.id))
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(asc(table.createdAt))
+        .limit(filter.limit ?? 1000);
+
+      return rows.map(({ createdAt, ...row }) => ({ kind, ...row, createdAt }));
+    }));
+
+    return results
+      .flat()
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))
+      .slice(0, filter.limit ?? 1000)
+      .map(({ createdAt, ...item }) => item);
+  }
+
+  async updateSftpBackup(kind: SftpBackupKind, id: number, data: SftpBackupUpdate): Promise<void> {
+    const table = this.sftpBackupTables[kind];
+    await db.update(table).set({ ...data, updatedAt: new Date() }).where(eq(table.id, id));
+  }
+
+  async getSftpBackupCounts(managerId?: string): Promise<{ kind: SftpBackupKind; status: string; count: number }[]> {
+    const kinds = Object.keys(this.sftpBackupTables) as SftpBackupKind[];
+    const results = await Promise.all(kinds.map(async (kind) => {
+      const table = this.sftpBackupTables[kind];
+      const rows = await db
+        .select({ status: table.sftpBackupStatus, count: sql<number>`count(*)::int` })
+        .from(table)
+        .leftJoin(projects, eq(table.projectId, projects.id))
+        .where(managerId ? eq(projects.managerId, managerId) : undefined)
+        .groupBy(table.sftpBackupStatus);
+      return rows.map((row) => ({ kind, status: row.status ?? "pending", count: row.count }));
+    }));
+    return results.flat();
+  }
+
+  async resetSftpBackups(status: string, managerId?: string): Promise<number> {
+    const kinds = Object.keys(this.sftpBackupTables) as SftpBackupKind[];
+    let count = 0;
+    for (const kind of kinds) {
+      const table = this.sftpBackupTables[kind];
+      const conditions = [eq(table.sftpBackupStatus, status)];
+      if (managerId) {
+        conditions.push(inArray(table.projectId, db.select({ id: projects.id }).from(projects).where(eq(projects.managerId, managerId))));
+      }
+      const updated = await db
+        .update(table)
+        .set({
+          sftpBackupStatus: "pending",
+          sftpBackupAttempts: 0,
+          sftpBackupError: null,
+          sftpBackupNextAttemptAt: null,
+          updatedAt: new Date(),
+        })
+        .where(and(...conditions))
+        .returning({ id: table.id });
+      count += updated.length;
+    }
+    return count;
+  }
 }
 
 export const storage = new DatabaseStorage();
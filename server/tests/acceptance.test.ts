@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { buildAcceptanceSnapshot, getAcceptanceSignProblems, isProjectAccepted, verifyAcceptancePdf } from '../acceptance'
+import { hashContent } from '../fileStorage'
+
+const now = new Date(2025, 5, 2, 10, 0)
+
+const defect = (number: number, status: string) => ({
+  id: number, projectId: 7, number, title: `Mangel ${number}`, description: null, status,
+  companyId: 3, companyName: 'Tiefbau Muster GmbH', companyEmail: null, deadline: '2025-06-30',
+  latitude: null, longitude: null, planAttachmentId: null, planFileName: 'Lageplan.png', pinX: '0.5', pinY: '0.5',
+  photoIds: [], createdBy: null, reminderSentAt: null, overdueNotifiedAt: null, resolvedAt: null,
+  acceptedAt: null, acceptedBy: null, createdAt: now, updatedAt: now,
+})
+
+const inspection = {
+  id: 4, projectId: 7, templateId: null, type: 'dichtheit', title: 'Dichtheitsprüfung Haltung 1', status: 'completed',
+  location: null, notes: null, inspectedAt: now, inspectorId: null, requiredSignatures: [], completedAt: now,
+  createdAt: now, updatedAt: now, inspectorName: null, templateVersion: null, itemsTotal: 3, itemsAnswered: 3, itemsFailed: 1,
+}
+
+const signed = {
+  customerName: 'Stadtwerke Lohr', customerSignature: 'data:image/png;base64,AAAA',
+  contractorName: 'Tiefbau Muster GmbH', contractorSignature: 'data:image/png;base64,BBBB',
+}
+
+describe('Acceptance', () => {
+  describe('Snapshot', () => {
+    it('should freeze defects that are not accepted yet and the inspection results', () => {
+      const snapshot = buildAcceptanceSnapshot(
+        [defect(1, 'open'), defect(2, 'accepted'), defect(3, 'resolved')],
+        [{
+          inspection,
+          items: [
+            { question: 'Prüfdruck gehalten', result: 'pass', comment: null },
+            { question: 'Muffe dicht', result: 'fail', comment: 'Tropfen an Muffe 3' },
+            { question: 'Protokoll beigefügt', result: 'na', comment: null },
+          ],
+        }],
+        now,
+      )
+
+      expect(snapshot.defects.map((entry) => entry.number)).toEqual([1, 3])
+      expect(snapshot.defects[0].location).toBe('Plan Lageplan.png')
+      expect(snapshot.inspections[0]).toMatchObject({ id: 4, pass: 1, fail: 1, na: 1, open: 0 })
+      expect(snapshot.inspections[0].failedItems).toEqual([{ question: 'Muffe dicht', comment: 'Tropfen an Muffe 3' }])
+      expect(snapshot.createdAt).toBe(now.toISOString())
+    })
+  })
+
+  describe('Signing', () => {
+    const snapshot = buildAcceptanceSnapshot([defect(1, 'open')], [], now)
+
+    it('should require both signatures', () => {
+      expect(getAcceptanceSignProblems({ result: 'accepted_with_reservations', snapshot, ...signed })).toEqual([])
+      expect(getAcceptanceSignProblems({ result: 'accepted_with_reservations', snapshot, ...signed, customerSignature: null }))
+        .toEqual(['Unterschrift fehlt: Auftraggeber'])
+      expect(getAcceptanceSignProblems({ result: 'refused', snapshot, ...signed, contractorName: null }))
+        .toEqual(['Unterschrift fehlt: Auftragnehmer'])
+    })
+
+    it('should not allow an acceptance without reservation of known defects', () => {
+      expect(getAcceptanceSignProblems({ result: 'accepted', snapshot, ...signed })).toHaveLength(1)
+      expect(getAcceptanceSignProblems({ result: 'accepted', snapshot: { ...snapshot, defects: [] }, ...signed })).toEqual([])
+    })
+
+    it('should only complete projects with a signed, not refused acceptance', () => {
+      expect(isProjectAccepted({ status: 'signed', result: 'accepted_with_reservations' })).toBe(true)
+      expect(isProjectAccepted({ status: 'signed', result: 'refused' })).toBe(false)
+      expect(isProjectAccepted({ status: 'draft', result: 'accepted' })).toBe(false)
+      expect(isProjectAccepted(undefined)).toBe(false)
+    })
+  })
+
+  describe('Tamper evidence', () => {
+    it('should detect changed protocol files', () => {
+      const pdf = Buffer.from('%PDF-1.3 Abnahmeprotokoll')
+      const hash = hashContent(pdf)
+
+      expect(verifyAcceptancePdf(pdf, hash)).toBe(true)
+      expect(verifyAcceptancePdf(Buffer.from('%PDF-1.3 Abnahmeprotokol1'), hash)).toBe(false)
+      expect(verifyAcceptancePdf(pdf, null)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { getCompanyDeleteBlockers, getCustomerDeleteBlockers, parseArchivedFilter } from '../addressBook'
+import { insertCompanyContactSchema, insertCustomerSchema, refinePostalCode } from '../../shared/schema'
+
+describe('Address Book', () => {
+  describe('Delete blockers', () => {
+    it('should only allow deleting customers without projects', () => {
+      expect(getCustomerDeleteBlockers({ projects: 0 })).toEqual([])
+      expect(getCustomerDeleteBlockers({ projects: 2 })).toEqual(['2 Projekt(e) sind dem Kunden zugeordnet'])
+    })
+
+    it('should list every reference that keeps a company', () => {
+      expect(getCompanyDeleteBlockers({ projects: 0, costs: 0, defects: 0, persons: 0 })).toEqual([])
+      expect(getCompanyDeleteBlockers({ projects: 1, costs: 0, defects: 3, persons: 0 }))
+        .toEqual(['1 Projektzuordnung(en)', '3 Mangel/Mängel'])
+    })
+  })
+
+  describe('Archive filter', () => {
+    it('should only show archived entries when requested', () => {
+      expect(parseArchivedFilter('true')).toBe(true)
+      expect(parseArchivedFilter('1')).toBe(true)
+      expect(parseArchivedFilter('false')).toBe(false)
+      expect(parseArchivedFilter(undefined)).toBe(false)
+    })
+  })
+
+  describe('Validation', () => {
+    it('should require a name and a postal code matching the country', () => {
+      const schema = insertCustomerSchema.superRefine(refinePostalCode)
+
+      expect(schema.safeParse({ name: '  ' }).success).toBe(false)
+      expect(schema.safeParse({ name: 'Stadtwerke Lohr', postalCode: '9781' }).success).toBe(false)
+      expect(schema.safeParse({ name: 'Stadtwerke Lohr', postalCode: '97816' }).success).toBe(true)
+      expect(schema.safeParse({ name: 'Gemeinde Lech', postalCode: '6764', country: 'at' }).data).toMatchObject({ country: 'AT' })
+      expect(schema.safeParse({ name: 'Stadt Zürich', postalCode: '80010', country: 'CH' }).success).toBe(false)
+      expect(schema.safeParse({ name: 'Gemeente Venlo', postalCode: '5911 AA', country: 'NL' }).success).toBe(true)
+      expect(schema.safeParse({ name: 'Stadtwerke Lohr', country: 'Deutschland' }).success).toBe(false)
+    })
+
+    it('should store empty contact fields as null', () => {
+      const contact = insertCompanyContactSchema.parse({ companyId: 3, name: 'Max Muster', email: '', phone: '' })
+
+      expect(contact).toMatchObject({ email: null, phone: null })
+      expect(insertCompanyContactSchema.safeParse({ companyId: 3, name: 'Max Muster', email: 'kein-mail' }).success).toBe(false)
+    })
+  })
+})
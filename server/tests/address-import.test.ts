@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import {
+  AddressImportError,
+  buildAddressExport,
+  buildImportPreview,
+  parseCsv,
+  readImportFile,
+  suggestColumnMapping,
+  summarizeImportPreview,
+  toCsv,
+  toXlsx,
+} from '../addressImport'
+
+const sheet = (headers: string[], ...rows: string[][]) => ({
+  headers,
+  rows: rows.map((values, index) => ({ row: index + 2, values })),
+})
+
+describe('Address Import', () => {
+  describe('Reading files', () => {
+    it('should parse Excel CSV with semicolons, quotes and line breaks', () => {
+      const rows = parseCsv('\uFEFFName;Straße;Notiz\r\n"Müller; Söhne GmbH";Hauptstr.;"Zeile 1\nZeile ""2"""\r\n')
+
+      expect(rows).toEqual([
+        ['Name', 'Straße', 'Notiz'],
+        ['Müller; Söhne GmbH', 'Hauptstr.', 'Zeile 1\nZeile "2"'],
+      ])
+      expect(parseCsv('name,email\nA,a@example.de')).toEqual([['name', 'email'], ['A', 'a@example.de']])
+    })
+
+    it('should fall back to Windows-1252 and skip empty rows', async () => {
+      const buffer = Buffer.from([...Buffer.from('Name;Ort\r\nB'), 0xe4, ...Buffer.from('cker;K'), 0xf6, ...Buffer.from('ln\r\n;\r\n')])
+      const result = await readImportFile(buffer, 'kunden.csv')
+
+      expect(result).toEqual({ headers: ['Name', 'Ort'], rows: [{ row: 2, values: ['Bäcker', 'Köln'] }] })
+      await expect(readImportFile(buffer, 'kunden.pdf')).rejects.toThrow(AddressImportError)
+    })
+
+    it('should read the XLSX export back', async () => {
+      const buffer = await toXlsx('Kunden', ['Name', 'PLZ'], [['Stadtwerke Lohr', '97816']])
+      const result = await readImportFile(buffer, 'kunden.xlsx')
+
+      expect(result).toEqual({ headers: ['Name', 'PLZ'], rows: [{ row: 2, values: ['Stadtwerke Lohr', '97816'] }] })
+    })
+  })
+
+  describe('Column mapping', () => {
+    it('should recognize German and English headers', () => {
+      expect(suggestColumnMapping('customers', ['Kundenname', 'E-Mail-Adresse', 'Strasse', 'Postleitzahl', 'Stadt', 'Fax'])).toEqual({
+        name: 0, email: 1, phone: null, street: 2, houseNumber: null, postalCode: 3, city: 4, country: null,
+      })
+      expect(suggestColumnMapping('company-contacts', ['Firma', 'Ansprechpartner', 'Mobil'])).toMatchObject({
+        parent: 0, name: 1, phone: 2,
+      })
+    })
+  })
+
+  describe('Preview', () => {
+    const headers = ['Name', 'E-Mail', 'PLZ']
+    const mapping = suggestColumnMapping('customers', headers)
+    const existing = [{ id: 9, name: 'Stadtwerke Lohr', email: 'info@stadtwerke-lohr.de', postalCode: '97816' }]
+
+    it('should report validation errors per row', () => {
+      const rows = buildImportPreview('customers', sheet(headers,
+        ['', 'kein-mail', ''],
+        ['Gemeinde Frammersbach', '', '1067'],
+        ['Markt Partenstein', '', '123'],
+      ), mapping, [])
+
+      expect(rows[0].errors).toEqual(['Name: Name fehlt', 'E-Mail: Ungültige E-Mail-Adresse'])
+      expect(rows[1]).toMatchObject({ errors: [], record: { name: 'Gemeinde Frammersbach', email: null, postalCode: '01067' } })
+      expect(rows[2].errors).toEqual(['PLZ: Deutsche Postleitzahlen sind fünfstellig'])
+    })
+
+    it('should validate postal codes per country and only restore leading zeros for Germany', () => {
+      const countryHeaders = ['Name', 'PLZ', 'Land']
+      const rows = buildImportPreview('customers', sheet(countryHeaders,
+        ['Gemeinde Lech', '6764', 'Österreich'],
+        ['Stadt Zürich', '8001', 'ch'],
+        ['Stadt Dresden', '1067', 'Deutschland'],
+        ['Stadt Salzburg', '50200', 'AT'],
+      ), suggestColumnMapping('customers', countryHeaders), [])
+
+      expect(rows[0]).toMatchObject({ errors: [], record: { postalCode: '6764', country: 'AT' } })
+      expect(rows[1]).toMatchObject({ errors: [], record: { postalCode: '8001', country: 'CH' } })
+      expect(rows[2]).toMatchObject({ errors: [], record: { postalCode: '01067', country: 'DE' } })
+      expect(rows[3].errors).toEqual(['PLZ: Österreichische Postleitzahlen sind vierstellig'])
+    })
+
+    it('should detect duplicates by email or name and postal code', () => {
+      const rows = buildImportPreview('customers', sheet(headers,
+        ['Stadtwerke Lohr GmbH', 'INFO@stadtwerke-lohr.de', ''],
+        ['stadtwerke  lohr', '', '97816'],
+        ['Markt Partenstein', '', '97846'],
+        ['Markt Partenstein', '', '97846'],
+        ['Markt Partenstein', '', '97847'],
+      ), mapping, existing)
+
+      expect(rows.map((row) => row.duplicate && [row.duplicate.reason, row.duplicate.existingId, row.duplicate.row])).toEqual([
+        ['email', 9, null],
+        ['name_postal_code', 9, null],
+        null,
+        ['name_postal_code', null, 4],
+        null,
+      ])
+      expect(summarizeImportPreview(rows)).toEqual({ total: 5, valid: 2, invalid: 0, duplicates: 3 })
+    })
+
+    it('should resolve contacts by company name and require mapped key columns', () => {
+      const contactHeaders = ['Firma', 'Name', 'E-Mail']
+      const rows = buildImportPreview('company-contacts', sheet(contactHeaders,
+        ['Tiefbau Muster GmbH', 'Max Muster', 'max@muster.de'],
+        ['Unbekannt AG', 'Erika Muster', ''],
+      ), suggestColumnMapping('company-contacts', contactHeaders), [], [{ id: 3, name: 'Tiefbau Muster GmbH' }])
+
+      expect(rows[0].record).toMatchObject({ companyId: 3, name: 'Max Muster' })
+      expect(rows[1].errors).toEqual(['Firma "Unbekannt AG" nicht gefunden'])
+      expect(() => buildImportPreview('customers', sheet(['E-Mail']), { name: null, email: 0 }, [])).toThrow('Pflichtspalte nicht zugeordnet: Name')
+    })
+  })
+
+  describe('Export', () => {
+    it('should export importable columns and neutralize formulas', () => {
+      const { headers, rows } = buildAddressExport('customer-contacts',
+        [{ customerId: 9, name: '=HYPERLINK("x")', email: null, phone: '+49 9352 123', department: 'Bau; Planung', position: '-Leitung' }],
+        [{ id: 9, name: 'Stadtwerke Lohr' }])
+      const csv = toCsv(headers, rows)
+
+      expect(headers).toEqual(['Kunde', 'Name', 'E-Mail', 'Telefon', 'Abteilung', 'Position'])
+      expect(csv).toBe('\uFEFFKunde;Name;E-Mail;Telefon;Abteilung;Position\r\n'
+        + 'Stadtwerke Lohr;"\'=HYPERLINK(""x"")";;+49 9352 123;"Bau; Planung";\'-Leitung\r\n')
+      expect(suggestColumnMapping('customer-contacts', headers)).toEqual({
+        parent: 0, name: 1, email: 2, phone: 3, department: 4, position: 5,
+      })
+    })
+  })
+})
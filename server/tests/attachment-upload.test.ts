@@ -0,0 +1,183 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { createServer } from 'net'
+import { readFileSync } from 'fs'
+import {
+  AttachmentUploadError,
+  MAX_DIRECT_UPLOAD_BYTES,
+  appendUploadChunk,
+  assertStorageQuota,
+  createClamdScanner,
+  createUploadSession,
+  getStorageLimitBytes,
+  getUploadFilePath,
+  getUploadSession,
+  matchesFileSignature,
+  registerVirusScanner,
+  removeUploadSession,
+  scanForViruses,
+  validateAttachmentFile
+} from '../attachmentUpload'
+
+const GB = 1024 * 1024 * 1024
+
+function expectUploadError(fn: () => unknown, status: number) {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(AttachmentUploadError)
+    expect((error as AttachmentUploadError).status).toBe(status)
+    return
+  }
+  throw new Error('expected AttachmentUploadError')
+}
+
+describe('Attachment Upload', () => {
+  afterEach(() => {
+    registerVirusScanner(null)
+  })
+
+  describe('Validation', () => {
+    it('should normalize MIME types by file extension', () => {
+      expect(validateAttachmentFile({ fileName: 'Plan.PDF', mimeType: 'application/pdf', size: 100 })).toBe('application/pdf')
+      expect(validateAttachmentFile({ fileName: 'grundriss.dwg', mimeType: 'application/octet-stream', size: 100 })).toBe('image/vnd.dwg')
+      expect(validateAttachmentFile({ fileName: 'grundriss.dwg', mimeType: 'application/acad', size: 100 })).toBe('image/vnd.dwg')
+    })
+
+    it('should reject unknown types and mismatching MIME types', () => {
+      expectUploadError(() => validateAttachmentFile({ fileName: 'setup.exe', mimeType: 'application/x-msdownload', size: 100 }), 415)
+      expectUploadError(() => validateAttachmentFile({ fileName: 'plan.pdf', mimeType: 'text/html', size: 100 }), 415)
+    })
+
+    it('should enforce size limits and restrict chunked uploads to plans', () => {
+      expectUploadError(() => validateAttachmentFile({ fileName: 'plan.pdf', size: MAX_DIRECT_UPLOAD_BYTES + 1 }), 413)
+      expect(validateAttachmentFile({ fileName: 'plan.pdf', size: MAX_DIRECT_UPLOAD_BYTES + 1 }, { chunked: true })).toBe('application/pdf')
+      expectUploadError(() => validateAttachmentFile({ fileName: 'foto.jpg', size: 100 }, { chunked: true }), 415)
+      expectUploadError(() => validateAttachmentFile({ fileName: 'leer.pdf', size: 0 }), 400)
+    })
+
+    it('should check file signatures', () => {
+      expect(matchesFileSignature('application/pdf', Buffer.from('%PDF-1.7\n'))).toBe(true)
+      expect(matchesFileSignature('application/pdf', Buffer.from('<html>'))).toBe(false)
+      expect(matchesFileSignature('image/vnd.dwg', Buffer.from('AC1032'))).toBe(true)
+      expect(matchesFileSignature('text/plain', Buffer.from('beliebig'))).toBe(true)
+    })
+  })
+
+  describe('Storage Quota', () => {
+    it('should derive the limit from the license plan', () => {
+      expect(getStorageLimitBytes({ storageLimit: 10 })).toBe(10 * GB)
+      expect(getStorageLimitBytes({ storageLimit: null })).toBeNull()
+      expect(getStorageLimitBytes(undefined)).toBeNull()
+    })
+
+    it('should reject uploads beyond the limit', () => {
+      expect(() => assertStorageQuota(GB, GB, 2 * GB)).not.toThrow()
+      expectUploadError(() => assertStorageQuota(GB, GB + 1, 2 * GB), 413)
+      expect(() => assertStorageQuota(100 * GB, GB, null)).not.toThrow()
+    })
+  })
+
+  describe('Virus Scan Hook', () => {
+    it('should treat files as clean without a scanner', async () => {
+      expect(await scanForViruses(Buffer.from('x'), 'a.txt')).toEqual({ clean: true })
+    })
+
+    it('should use the registered scanner', async () => {
+      registerVirusScanner(async (source, fileName) => {
+        const chunks: Buffer[] = []
+        for await (const chunk of source) chunks.push(chunk)
+        return Buffer.concat(chunks).toString().includes('EICAR') ? { clean: false, signature: `Test in ${fileName}` } : { clean: true }
+      })
+      expect(await scanForViruses(Buffer.from('X5O!P%@AP EICAR'), 'virus.txt')).toEqual({ clean: false, signature: 'Test in virus.txt' })
+      expect(await scanForViruses(Buffer.from('harmlos'), 'ok.txt')).toEqual({ clean: true })
+    })
+
+    it('should speak the clamd INSTREAM protocol', async () => {
+      const server = createServer((socket) => {
+        let received = Buffer.alloc(0)
+        socket.on('data', (data) => {
+          received = Buffer.concat([received, data])
+          if (received.subarray(-4).equals(Buffer.alloc(4))) {
+            const found = received.includes(Buffer.from('EICAR'))
+            socket.end(found ? 'stream: Eicar-Test-Signature FOUND\0' : 'stream: OK\0')
+          }
+        })
+      })
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+      const scanner = createClamdScanner('127.0.0.1', (server.address() as any).port)
+
+      registerVirusScanner(scanner)
+      expect(await scanForViruses(Buffer.from('EICAR-STANDARD'), 'virus.txt')).toEqual({ clean: false, signature: 'Eicar-Test-Signature' })
+      expect(await scanForViruses(Buffer.from('Bauplan'), 'plan.txt')).toEqual({ clean: true })
+      server.close()
+    })
+  })
+
+  describe('Chunked Uploads', () => {
+    it('should append chunks in order and resume from the stored offset', async () => {
+      const content = Buffer.from('%PDF-1.7 Bauplan Erdgeschoss')
+      const session = await createUploadSession({
+        userId: 'u1',
+        projectId: 3,
+        fileName: 'eg.pdf',
+        mimeType: 'application/pdf',
+        fileSize: content.length
+      })
+
+      try {
+        let current = await appendUploadChunk(session, 0, content.subarray(0, 10))
+        await expect(appendUploadChunk(current, 0, content.subarray(0, 10))).rejects.toMatchObject({ status: 409 })
+
+        // Fortsetzen nach einem Abbruch: Stand kommt aus der Teildatei
+        current = await getUploadSession(session.id, 'u1')
+        expect(current.receivedBytes).toBe(10)
+        expect(() => getUploadFilePath(current)).toThrow(AttachmentUploadError)
+
+        current = await appendUploadChunk(current, 10, content.subarray(10))
+        expect(readFileSync(getUploadFilePath(current))).toEqual(content)
+
+        await expect(getUploadSession(session.id, 'fremd')).rejects.toMatchObject({ status: 404 })
+      } finally {
+        await removeUploadSession(session.id)
+      }
+      await expect(getUploadSession(session.id, 'u1')).rejects.toMatchObject({ status: 404 })
+    })
+
+    it('should accept only one of several requests for the same offset', async () => {
+      const content = Buffer.from('%PDF-1.7 Bauplan Erdgeschoss')
+      const session = await createUploadSession({
+        userId: 'u1',
+        projectId: 3,
+        fileName: 'eg.pdf',
+        mimeType: 'application/pdf',
+        fileSize: content.length
+      })
+
+      try {
+        const results = await Promise.allSettled([0, 1, 2].map(() => appendUploadChunk(session, 0, content.subarray(0, 10))))
+
+        expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1)
+        expect(results.filter((result) => result.status === 'rejected').map((result) => (result as PromiseRejectedResult).reason.status)).toEqual([409, 409])
+        expect((await getUploadSession(session.id, 'u1')).receivedBytes).toBe(10)
+      } finally {
+        await removeUploadSession(session.id)
+      }
+    })
+
+    it('should reject content that does not match the file type', async () => {
+      const session = await createUploadSession({
+        userId: 'u1',
+        projectId: 3,
+        fileName: 'fake.pdf',
+        mimeType: 'application/pdf',
+        fileSize: 20
+      })
+      try {
+        await expect(appendUploadChunk(session, 0, Buffer.from('<html>kein pdf'))).rejects.toMatchObject({ status: 415 })
+        await expect(appendUploadChunk(session, 0, Buffer.alloc(30))).rejects.toMatchObject({ status: 413 })
+      } finally {
+        await removeUploadSession(session.id)
+      }
+    })
+  })
+})
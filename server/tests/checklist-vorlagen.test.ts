@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { ChecklistVorlageError, getVorlageAufgaben, parseChecklistVorlage } from '../checklistVorlagen'
+import { CHECKLIST_TYPEN, STANDARD_CHECKLIST_AUFGABEN, getFehlendePflichtfelder, toChecklistVorlageResponse } from '../floodProtection'
+
+const aufgabe = { pflichtfelder: [], datum: null, pegelstandCm: null, fotoIds: [], bemerkung: null }
+
+describe('Checklisten-Vorlagen', () => {
+  describe('Import', () => {
+    it('should number tasks per section in the given order', () => {
+      const daten = parseChecklistVorlage(JSON.stringify({
+        name: 'Starkregen Innenstadt',
+        typ: 'starkregen',
+        abschnitte: {
+          beginn: ['Warnung dokumentieren', { beschreibung: 'Einläufe kontrollieren', pflichtfelder: ['foto'] }],
+          ende: [{ beschreibung: 'Bericht verfassen' }],
+        },
+      }))
+
+      expect(getVorlageAufgaben(daten)).toEqual([
+        { abschnitt: 'beginn', nr: 1, beschreibung: 'Warnung dokumentieren', pflichtfelder: [] },
+        { abschnitt: 'beginn', nr: 2, beschreibung: 'Einläufe kontrollieren', pflichtfelder: ['foto'] },
+        { abschnitt: 'ende', nr: 1, beschreibung: 'Bericht verfassen', pflichtfelder: [] },
+      ])
+    })
+
+    it('should reject invalid JSON, unknown required fields and empty templates', () => {
+      expect(() => parseChecklistVorlage('{ kein json')).toThrow(ChecklistVorlageError)
+      expect(() => parseChecklistVorlage({ abschnitte: { beginn: [{ beschreibung: 'A', pflichtfelder: ['unterschrift'] }] } })).toThrow()
+      expect(() => parseChecklistVorlage({ name: 'Leer', abschnitte: { beginn: [], ende: [] } })).toThrow('mindestens eine Aufgabe')
+    })
+
+    it('should re-import its own export', () => {
+      const vorlage = { id: 3, typ: 'uebung', version: 2, name: 'Übung', beschreibung: null, aktiv: true, erstelltVon: null, createdAt: null }
+      const aufgaben = STANDARD_CHECKLIST_AUFGABEN.uebung.map((a) => ({ ...a, pflichtfelder: a.pflichtfelder || [] }))
+      const { id, aktiv, erstellt_am, aufgaben_gesamt, ...exportiert } = toChecklistVorlageResponse(vorlage, aufgaben)
+
+      expect(getVorlageAufgaben(parseChecklistVorlage(JSON.stringify(exportiert)))).toEqual(aufgaben)
+    })
+  })
+
+  describe('Standardaufgaben', () => {
+    it('should provide tasks for every checklist type', () => {
+      for (const typ of CHECKLIST_TYPEN) {
+        expect(STANDARD_CHECKLIST_AUFGABEN[typ].length).toBeGreaterThan(0)
+      }
+      expect(STANDARD_CHECKLIST_AUFGABEN.hochwasser[0].pflichtfelder).toContain('pegelstand')
+    })
+  })
+
+  describe('Pflichtfelder', () => {
+    it('should list missing required fields', () => {
+      expect(getFehlendePflichtfelder({ ...aufgabe, pflichtfelder: ['datum', 'pegelstand', 'foto'] })).toEqual(['datum', 'pegelstand', 'foto'])
+      expect(getFehlendePflichtfelder({ ...aufgabe, pflichtfelder: ['pegelstand', 'foto'], pegelstandCm: 0, fotoIds: [7] })).toEqual([])
+      expect(getFehlendePflichtfelder({ ...aufgabe, pflichtfelder: ['bemerkung'], bemerkung: '  ' })).toEqual(['bemerkung'])
+      expect(getFehlendePflichtfelder(aufgabe)).toEqual([])
+    })
+  })
+})
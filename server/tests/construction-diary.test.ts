@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { getDiarySignProblems, getMediaOfDay, isDiaryDate, summarizeDiaryStaff, toDiaryDate } from '../constructionDiary'
+
+describe('Construction Diary', () => {
+  describe('Dates', () => {
+    it('should accept calendar days only', () => {
+      expect(isDiaryDate('2025-03-04')).toBe(true)
+      expect(isDiaryDate('04.03.2025')).toBe(false)
+      expect(isDiaryDate('2025-13-40')).toBe(false)
+      expect(isDiaryDate(undefined)).toBe(false)
+    })
+
+    it('should assign photos and audio records to the local day they were taken', () => {
+      expect(toDiaryDate(new Date(2025, 2, 4, 23, 30))).toBe('2025-03-04')
+
+      const media = [
+        { id: 1, createdAt: new Date(2025, 2, 4, 7, 15) },
+        { id: 2, createdAt: new Date(2025, 2, 5, 0, 5) },
+        { id: 3, createdAt: null },
+      ]
+      expect(getMediaOfDay(media, '2025-03-04').map((item) => item.id)).toEqual([1])
+    })
+  })
+
+  describe('Sign-off', () => {
+    const now = new Date(2025, 2, 4, 16, 0)
+
+    it('should require weather and work performed', () => {
+      expect(getDiarySignProblems({ entryDate: '2025-03-04', weather: null, workPerformed: '  ' }, now)).toEqual([
+        'Wetter fehlt',
+        'Ausgeführte Arbeiten fehlen',
+      ])
+      expect(getDiarySignProblems({ entryDate: '2025-03-04', weather: 'rain', workPerformed: 'Kanal verlegt' }, now)).toEqual([])
+    })
+
+    it('should not allow signing off future days', () => {
+      expect(getDiarySignProblems({ entryDate: '2025-03-05', weather: 'sunny', workPerformed: 'Aushub' }, now)).toHaveLength(1)
+    })
+  })
+
+  it('should total workers and working hours', () => {
+    expect(summarizeDiaryStaff([
+      { company: 'Tiefbau Muster', trade: 'Kanalbau', count: 4, hours: 8 },
+      { company: 'Elektro Huber', count: 2, hours: null },
+    ])).toEqual({ workers: 6, hours: 32 })
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  fillMissingFields,
+  findDuplicateGroups,
+  getMergeProblem,
+  nameSimilarity,
+  normalizePhone,
+  type ContactRecord,
+} from '../contactDuplicates'
+import { parseVCards, splitName, toVCard, VCardError } from '../vcard'
+
+const record = (kind: ContactRecord['kind'], id: number, name: string, extra: Partial<ContactRecord> = {}): ContactRecord => ({
+  kind, id, name, email: null, phone: null, parentId: null, parentName: null, ...extra,
+})
+
+describe('Contacts', () => {
+  describe('vCard', () => {
+    const contact = {
+      firstName: 'Jürgen', lastName: 'Müller', email: 'j.mueller@tiefbau-muster.de', phone: '+49 9352 123-45',
+      organization: 'Tiefbau Muster GmbH; Co. KG', department: 'Kalkulation', title: 'Bauleiter',
+    }
+
+    it('should round-trip vCard 3.0 and 4.0', () => {
+      expect(parseVCards(toVCard(contact))).toEqual([contact])
+      expect(parseVCards(toVCard(contact, '4.0'))).toEqual([{ ...contact, phone: '+49935212345' }])
+      expect(toVCard(contact, '4.0')).toContain('TEL;VALUE=uri;TYPE="work,voice":tel:+49935212345\r\n')
+    })
+
+    it('should read folded lines, groups, preferred values and several cards', () => {
+      const cards = parseVCards([
+        'BEGIN:VCARD', 'VERSION:3.0', 'FN:Erika Muster', 'item1.EMAIL;TYPE=INTERNET:privat@example.de',
+        'EMAIL;TYPE=INTERNET,PREF:erika@stadt', ' werke-lohr.de', 'END:VCARD',
+        'BEGIN:VCARD', 'VERSION:4.0', 'N:;;;;', 'FN:Muster\\, Max', 'END:VCARD',
+        'BEGIN:VCARD', 'VERSION:4.0', 'ORG:Ohne Namen', 'END:VCARD',
+      ].join('\r\n'))
+
+      expect(cards.map((card) => [card.firstName, card.lastName, card.email])).toEqual([
+        ['Erika', 'Muster', 'erika@stadtwerke-lohr.de'],
+        ['Max', 'Muster', null],
+      ])
+      expect(() => parseVCards('Name;E-Mail')).toThrow(VCardError)
+    })
+
+    it('should fold long lines without splitting characters', () => {
+      const lines = toVCard({ ...contact, organization: 'Ä'.repeat(60) }).split('\r\n')
+
+      expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true)
+      expect(parseVCards(lines.join('\r\n'))[0].organization).toBe('Ä'.repeat(60))
+      expect(splitName('Muster, Max')).toEqual({ firstName: 'Max', lastName: 'Muster' })
+    })
+  })
+
+  describe('Duplicate finder', () => {
+    it('should match names fuzzily and phone numbers in any notation', () => {
+      expect(nameSimilarity('Dr. Jürgen Müller', 'Mueller, Juergen')).toBe(1)
+      expect(nameSimilarity('Jürgen Müller', 'Jürgen Mülller')).toBeGreaterThan(0.9)
+      expect(nameSimilarity('Jürgen Müller', 'Erika Muster')).toBeLessThan(0.5)
+      expect(normalizePhone('+49 (9352) 123-45')).toBe(normalizePhone('09352/12345'))
+      expect(normalizePhone('0049 9352 12345')).toBe('935212345')
+    })
+
+    it('should group persons with company contacts but customer contacts only among themselves', () => {
+      const groups = findDuplicateGroups([
+        record('person', 1, 'Jürgen Müller', { email: 'j.mueller@tiefbau-muster.de', phone: '+49 9352 12345' }),
+        record('company-contact', 4, 'J. Müller', { email: 'J.Mueller@tiefbau-muster.de' }),
+        record('company-contact', 7, 'Juergen Mueller', { email: 'bauleitung@tiefbau-muster.de', phone: '09352 12345' }),
+        record('customer-contact', 8, 'Jürgen Müller', { email: 'j.mueller@tiefbau-muster.de' }),
+        record('person', 2, 'Jürgen Müller', { email: 'juergen@andere-firma.de' }),
+        record('person', 3, 'Erika Muster', { phone: '09352 12345' }),
+      ])
+
+      expect(groups).toHaveLength(1)
+      expect(groups[0].members.map((member) => `${member.kind}:${member.id}`)).toEqual(['person:1', 'company-contact:4', 'company-contact:7'])
+      expect(groups[0].reasons.sort()).toEqual(['email', 'phone'])
+    })
+  })
+
+  describe('Merge', () => {
+    it('should merge company contacts into persons of the same company', () => {
+      const survivor = record('person', 1, 'Jürgen Müller', { parentId: 3 })
+
+      expect(getMergeProblem(survivor, [record('person', 2, 'J. Müller', { parentId: null })])).toBeNull()
+      expect(getMergeProblem(survivor, [record('person', 2, 'J. Müller', { parentId: 4 })])).toBe('Die Personen gehören zu verschiedenen Firmen')
+      expect(getMergeProblem(survivor, [record('company-contact', 2, 'J. Müller', { parentId: 3 })])).toBeNull()
+      expect(getMergeProblem(survivor, [record('company-contact', 2, 'J. Müller', { parentId: 4 })])).toBe('Die Personen gehören zu verschiedenen Firmen')
+      expect(getMergeProblem(record('company-contact', 2, 'J. Müller', { parentId: 3 }), [survivor]))
+        .toBe('Firmen-Ansprechpartner werden in die Person übernommen, bitte die Person als verbleibenden Datensatz wählen')
+    })
+
+    it('should merge customer contacts only within the same customer', () => {
+      const survivor = record('person', 1, 'Jürgen Müller', { parentId: 3 })
+
+      expect(getMergeProblem(survivor, [record('customer-contact', 2, 'J. Müller', { parentId: 3 })]))
+        .toBe('Kunden-Ansprechpartner können nur mit Ansprechpartnern desselben Kunden zusammengeführt werden')
+      expect(getMergeProblem(survivor, [survivor])).toBe('Ein Datensatz kann nicht mit sich selbst zusammengeführt werden')
+      expect(getMergeProblem(record('customer-contact', 1, 'A', { parentId: 1 }), [record('customer-contact', 2, 'A', { parentId: 2 })]))
+        .toBe('Ansprechpartner verschiedener Kunden können nicht zusammengeführt werden')
+    })
+
+    it('should keep values of the surviving record and fill the gaps', () => {
+      const updates = fillMissingFields(
+        { email: 'j.mueller@tiefbau-muster.de', phone: null, position: '', companyId: null },
+        [
+          { email: 'alt@example.de', phone: null, position: 'Polier', companyId: null },
+          { email: null, phone: '09352 12345', position: 'Bauleiter', companyId: 3 },
+        ],
+        ['email', 'phone', 'position', 'companyId'],
+      )
+
+      expect(updates).toEqual({ phone: '09352 12345', position: 'Polier', companyId: 3 })
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest'
+import { assertDefectReferences, formatDefectLocation, getDefectLocationError, getDefectTransitionError, isDefectOverdue, summarizeDefects } from '../defects'
+
+const attachments: Record<number, { id: number; projectId: number; mimeType: string }> = {
+  4: { id: 4, projectId: 1, mimeType: 'image/png' },
+  5: { id: 5, projectId: 1, mimeType: 'application/pdf' },
+  6: { id: 6, projectId: 1, mimeType: 'image/vnd.dwg' },
+}
+
+vi.mock('../storage', () => ({
+  storage: {
+    getAttachment: async (id: number) => attachments[id],
+    getPhotosByIds: async () => [],
+  },
+}))
+
+describe('Defects', () => {
+  describe('Workflow', () => {
+    it('should follow offen → in Behebung → behoben → abgenommen', () => {
+      expect(getDefectTransitionError({ status: 'open' }, 'in_progress')).toBeNull()
+      expect(getDefectTransitionError({ status: 'in_progress' }, 'resolved')).toBeNull()
+      expect(getDefectTransitionError({ status: 'resolved' }, 'accepted')).toBeNull()
+      expect(getDefectTransitionError({ status: 'open' }, 'accepted')).toBe('Statuswechsel von "Offen" nach "Abgenommen" ist nicht zulässig')
+      expect(getDefectTransitionError({ status: 'accepted' }, 'open')).not.toBeNull()
+      expect(getDefectTransitionError({ status: 'open' }, 'erledigt')).toBe('Ungültiger Status')
+    })
+
+    it('should allow rejecting a reported fix', () => {
+      expect(getDefectTransitionError({ status: 'resolved' }, 'in_progress')).toBeNull()
+    })
+  })
+
+  describe('Deadlines', () => {
+    const now = new Date(2025, 2, 10, 9, 0)
+
+    it('should flag unresolved defects after the deadline day', () => {
+      expect(isDefectOverdue({ status: 'open', deadline: '2025-03-09' }, now)).toBe(true)
+      expect(isDefectOverdue({ status: 'in_progress', deadline: '2025-03-10' }, now)).toBe(false)
+      expect(isDefectOverdue({ status: 'resolved', deadline: '2025-03-01' }, now)).toBe(false)
+      expect(isDefectOverdue({ status: 'open', deadline: null }, now)).toBe(false)
+    })
+
+    it('should count defects per status', () => {
+      const summary = summarizeDefects([
+        { status: 'open', deadline: '2025-03-01' },
+        { status: 'open', deadline: null },
+        { status: 'accepted', deadline: '2025-03-01' },
+      ], now)
+
+      expect(summary).toEqual({ total: 3, byStatus: { open: 2, in_progress: 0, resolved: 0, accepted: 1 }, overdue: 1 })
+    })
+  })
+
+  describe('Location', () => {
+    it('should require complete GPS coordinates and plan pins', () => {
+      expect(getDefectLocationError({ latitude: '49.98', longitude: '9.58' })).toBeNull()
+      expect(getDefectLocationError({ planAttachmentId: 4, pinX: '0.25', pinY: '0.75' })).toBeNull()
+      expect(getDefectLocationError({})).toBeNull()
+      expect(getDefectLocationError({ latitude: '49.98', longitude: null })).not.toBeNull()
+      expect(getDefectLocationError({ planAttachmentId: 4, pinX: null, pinY: null })).not.toBeNull()
+      expect(getDefectLocationError({ planAttachmentId: null, pinX: '0.5', pinY: '0.5' })).not.toBeNull()
+    })
+
+    it('should describe plan and GPS position', () => {
+      expect(formatDefectLocation({ latitude: '49.98765432', longitude: '9.58', planFileName: 'Lageplan.png' }))
+        .toBe('Plan Lageplan.png · GPS 49.987654, 9.580000')
+      expect(formatDefectLocation({ latitude: null, longitude: null, planFileName: null })).toBeNull()
+    })
+
+    it('should allow pins on image and PDF plans', async () => {
+      await expect(assertDefectReferences(1, 4)).resolves.toBeUndefined()
+      await expect(assertDefectReferences(1, 5)).resolves.toBeUndefined()
+    })
+
+    it('should reject pins on plans the viewer cannot render', async () => {
+      await expect(assertDefectReferences(1, 6)).rejects.toThrow('Mängel können nur auf Plänen im Format PDF, JPG, PNG, GIF oder WebP verortet werden')
+      await expect(assertDefectReferences(2, 5)).rejects.toThrow('Unbekannter Plan oder Plan eines anderen Projekts')
+    })
+  })
+})
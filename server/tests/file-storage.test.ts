@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtempSync, rmSync, existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { Readable } from 'stream'
+import { FileNotFoundError, LocalFileStorage, getContentKey, hashContent } from '../fileStorage'
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+describe('File Storage', () => {
+  let rootDir: string
+
+  beforeAll(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'file-storage-test-'))
+    process.env.UPLOADS_DIR = rootDir
+  })
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  describe('Content Hashing', () => {
+    it('should derive a sharded key from the SHA-256 hash', () => {
+      const hash = hashContent(Buffer.from('Bautagebuch'))
+      expect(hash).toMatch(/^[0-9a-f]{64}$/)
+      expect(hashContent(Buffer.from('Bautagebuch'))).toBe(hash)
+      expect(getContentKey(hash)).toBe(`${hash.slice(0, 2)}/${hash}`)
+    })
+  })
+
+  describe('Local Driver', () => {
+    it('should store, read and delete files', async () => {
+      const driver = new LocalFileStorage(rootDir)
+      await driver.put('ab/abc', Buffer.from('Foto-Inhalt'))
+
+      expect(await driver.exists('ab/abc')).toBe(true)
+      expect(await readAll(await driver.get('ab/abc'))).toBe('Foto-Inhalt')
+
+      await driver.delete('ab/abc')
+      await driver.delete('ab/abc')
+      expect(existsSync(join(rootDir, 'ab', 'abc'))).toBe(false)
+      await expect(driver.get('ab/abc')).rejects.toBeInstanceOf(FileNotFoundError)
+    })
+
+    it('should reject keys outside the storage directory', async () => {
+      const driver = new LocalFileStorage(rootDir)
+      await expect(driver.put('../ausserhalb.txt', Buffer.from('x'))).rejects.toThrow()
+    })
+  })
+
+  describe('Deduplication', () => {
+    it('should store identical content only once', async () => {
+      const { storeFile } = await import('../fileStorage')
+      const first = await storeFile(Buffer.from('gleicher Inhalt'))
+      const second = await storeFile(Buffer.from('gleicher Inhalt'))
+
+      expect(first.deduplicated).toBe(false)
+      expect(second.deduplicated).toBe(true)
+      expect(second.key).toBe(first.key)
+      expect(existsSync(join(rootDir, first.key))).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,278 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_CHECKLIST_TASKS,
+  deriveChecklistStatus,
+  findSchichtUeberschneidungen,
+  findUnbesetzteZeitfenster,
+  formatKm,
+  getSchadensfallUebergangFehler,
+  isPruefungUeberfaellig,
+  toAbsperrschieberResponse,
+  toChecklistResponse,
+  toChecklistTaskResponse,
+  toSchadensfallResponse
+} from '../floodProtection'
+
+describe('Flood Protection Checklists', () => {
+  describe('Default Tasks', () => {
+    it('should provide 6 start and 5 end tasks', () => {
+      expect(DEFAULT_CHECKLIST_TASKS.filter(t => t.abschnitt === 'beginn')).toHaveLength(6)
+      expect(DEFAULT_CHECKLIST_TASKS.filter(t => t.abschnitt === 'ende')).toHaveLength(5)
+    })
+  })
+
+  describe('Status Derivation', () => {
+    it('should derive status from task progress', () => {
+      expect(deriveChecklistStatus(0, 11)).toBe('offen')
+      expect(deriveChecklistStatus(4, 11)).toBe('in_bearbeitung')
+      expect(deriveChecklistStatus(11, 11)).toBe('abgeschlossen')
+    })
+
+    it('should keep empty checklists open', () => {
+      expect(deriveChecklistStatus(0, 0)).toBe('offen')
+    })
+  })
+
+  describe('Response Mapping', () => {
+    const checklist = {
+      id: 7,
+      titel: 'Hochwasserereignis Juni 2025',
+      typ: 'hochwasser',
+      status: 'in_bearbeitung',
+      beschreibung: null,
+      beginnPegelstandCm: 245,
+      projectId: null,
+      erstelltVon: 'user-1',
+      erstelltVonName: 'Lea Zimmer',
+      createdAt: new Date('2025-06-29T17:35:00Z'),
+      updatedAt: new Date('2025-06-29T17:35:00Z'),
+      aufgabenGesamt: 11,
+      aufgabenErledigt: 5
+    }
+
+    it('should map checklists to the snake_case API format', () => {
+      const response = toChecklistResponse(checklist)
+      expect(response.beginn_pegelstand_cm).toBe(245)
+      expect(response.erstellt_von).toBe('Lea Zimmer')
+      expect(response.aufgaben_erledigt).toBe(5)
+      expect(response.fortschritt).toBe(45)
+    })
+
+    it('should resolve the completing user name for tasks', () => {
+      const task = {
+        id: 1,
+        checklistId: 7,
+        abschnitt: 'beginn',
+        nr: 1,
+        beschreibung: 'Pegelstand dokumentieren und melden',
+        erledigt: true,
+        erledigtAm: new Date('2025-06-29T17:40:00Z'),
+        erledigtVon: 'user-1',
+        datum: '2025-06-29',
+        pegelstandCm: 245,
+        bemerkung: null,
+        createdAt: null,
+        updatedAt: null
+      }
+
+      const response = toChecklistTaskResponse(task, new Map([['user-1', 'Lea Zimmer']]))
+      expect(response.erledigt_von).toBe('Lea Zimmer')
+      expect(response.pegelstand_cm).toBe(245)
+      expect(response.bemerkung).toBe('')
+    })
+  })
+})
+
+describe('Flood Protection Absperrschieber', () => {
+  const now = new Date('2025-07-01T12:00:00Z')
+  const schieber = {
+    id: 1,
+    nummer: 1,
+    bezeichnung: 'Absperrschieber Nord',
+    lage: 'Hauptstraße 15',
+    beschreibung: null,
+    nennweiteDn: 300,
+    latitude: '48.13710000',
+    longitude: null,
+    projectId: null,
+    pruefintervallTage: 90,
+    aktiv: true,
+    createdAt: null,
+    updatedAt: null,
+    letztePruefung: null
+  }
+  const pruefung = (geprueftAm: string, funktionsstatus = 'funktionsfähig') => ({
+    id: 3,
+    absperrschieberId: 1,
+    geprueftAm: new Date(geprueftAm),
+    prueferId: 'user-1',
+    funktionsstatus,
+    fotoIds: [],
+    bemerkung: null,
+    createdAt: null
+  })
+
+  describe('Overdue Detection', () => {
+    it('should flag valves that were never inspected', () => {
+      expect(isPruefungUeberfaellig(schieber, now)).toBe(true)
+    })
+
+    it('should flag valves whose inspection interval has expired', () => {
+      expect(isPruefungUeberfaellig({ ...schieber, letztePruefung: pruefung('2025-06-01T12:00:00Z') }, now)).toBe(false)
+      expect(isPruefungUeberfaellig({ ...schieber, letztePruefung: pruefung('2025-03-01T12:00:00Z') }, now)).toBe(true)
+    })
+
+    it('should ignore inactive valves', () => {
+      expect(isPruefungUeberfaellig({ ...schieber, aktiv: false }, now)).toBe(false)
+    })
+  })
+
+  describe('Response Mapping', () => {
+    it('should report uninspected valves', () => {
+      const response = toAbsperrschieberResponse(schieber, now)
+      expect(response.status).toBe('ungeprueft')
+      expect(response.funktionsfaehig).toBe(false)
+      expect(response.koordinaten_lat).toBe(48.1371)
+      expect(response.koordinaten_lng).toBeNull()
+    })
+
+    it('should take status and next inspection from the latest inspection', () => {
+      const response = toAbsperrschieberResponse({ ...schieber, letztePruefung: pruefung('2025-06-01T12:00:00Z', 'wartung_erforderlich') }, now)
+      expect(response.status).toBe('wartung_erforderlich')
+      expect(response.naechste_pruefung).toEqual(new Date('2025-08-30T12:00:00Z'))
+      expect(response.ueberfaellig).toBe(false)
+    })
+  })
+})
+
+describe('Flood Protection Schadensfälle', () => {
+  describe('Workflow', () => {
+    it('should follow gemeldet → in Bearbeitung → behoben → geprüft', () => {
+      expect(getSchadensfallUebergangFehler({ status: 'gemeldet', massnahme: null }, 'in_bearbeitung')).toBeNull()
+      expect(getSchadensfallUebergangFehler({ status: 'in_bearbeitung', massnahme: 'Rechen geräumt' }, 'behoben')).toBeNull()
+      expect(getSchadensfallUebergangFehler({ status: 'behoben', massnahme: 'Rechen geräumt' }, 'geprueft')).toBeNull()
+    })
+
+    it('should reject skipped or unknown states', () => {
+      expect(getSchadensfallUebergangFehler({ status: 'gemeldet', massnahme: null }, 'behoben')).toContain('nicht zulässig')
+      expect(getSchadensfallUebergangFehler({ status: 'geprueft', massnahme: 'x' }, 'in_bearbeitung')).toContain('nicht zulässig')
+      expect(getSchadensfallUebergangFehler({ status: 'gemeldet', massnahme: null }, 'erledigt')).toBe('Ungültiger Status')
+    })
+
+    it('should allow rejecting a fix during inspection', () => {
+      expect(getSchadensfallUebergangFehler({ status: 'behoben', massnahme: 'x' }, 'in_bearbeitung')).toBeNull()
+    })
+
+    it('should require documented measures before closing', () => {
+      expect(getSchadensfallUebergangFehler({ status: 'in_bearbeitung', massnahme: '  ' }, 'behoben')).toContain('Maßnahme')
+    })
+  })
+
+  describe('Response Mapping', () => {
+    it('should attach the matching timeline entries', () => {
+      const ereignis = (id: number, schadensfallId: number) => ({
+        id,
+        schadensfallId,
+        typ: 'status',
+        vonStatus: null,
+        nachStatus: 'gemeldet',
+        text: 'Schaden gemeldet',
+        userId: 'user-1',
+        createdAt: new Date('2025-06-28T11:30:00Z')
+      })
+      const response = toSchadensfallResponse({
+        id: 2,
+        absperrschieberId: 5,
+        absperrschieberNummer: 2,
+        projectId: null,
+        checklistId: null,
+        problemBeschreibung: 'Kein Zulauf in Mühlgraben',
+        status: 'gemeldet',
+        prioritaet: 1,
+        gemeldetVon: 'user-1',
+        gemeldetVonName: 'Anna Schmidt',
+        gemeldetAm: new Date('2025-06-28T11:30:00Z'),
+        zugewiesenAn: null,
+        zugewiesenAnName: null,
+        massnahme: null,
+        fotoIdsVorher: [4],
+        fotoIdsNachher: null,
+        behobenAm: null,
+        geprueftAm: null,
+        createdAt: null,
+        updatedAt: null
+      }, [ereignis(1, 1), ereignis(2, 2)], new Map([['user-1', 'Anna Schmidt']]))
+
+      expect(response.absperrschieber_nummer).toBe(2)
+      expect(response.status_text).toBe('Gemeldet')
+      expect(response.foto_ids_nachher).toEqual([])
+      expect(response.verlauf).toHaveLength(1)
+      expect(response.verlauf[0].benutzer).toBe('Anna Schmidt')
+    })
+  })
+})
+
+describe('Flood Protection Deichwachen', () => {
+  const schicht = (id: number, personId: number, beginn: string, ende: string) => ({
+    id,
+    personId,
+    schichtBeginn: new Date(`2025-06-29T${beginn}:00Z`),
+    schichtEnde: new Date(`2025-06-29T${ende}:00Z`)
+  })
+
+  describe('Overlap Detection', () => {
+    it('should detect a person assigned to overlapping shifts', () => {
+      const konflikte = findSchichtUeberschneidungen([
+        schicht(1, 1, '06:00', '14:00'),
+        schicht(2, 2, '06:00', '14:00'),
+        schicht(3, 1, '12:00', '20:00')
+      ])
+      expect(konflikte).toHaveLength(1)
+      expect(konflikte[0].map(s => s.id)).toEqual([1, 3])
+    })
+
+    it('should allow a handover at the same minute', () => {
+      expect(findSchichtUeberschneidungen([
+        schicht(1, 1, '06:00', '14:00'),
+        schicht(2, 1, '14:00', '22:00')
+      ])).toHaveLength(0)
+    })
+  })
+
+  describe('Coverage Gaps', () => {
+    const von = new Date('2025-06-29T06:00:00Z')
+    const bis = new Date('2025-06-29T22:00:00Z')
+
+    it('should report uncovered windows', () => {
+      const luecken = findUnbesetzteZeitfenster([
+        schicht(1, 1, '06:00', '10:00'),
+        schicht(2, 2, '12:00', '22:00')
+      ], von, bis)
+      expect(luecken).toHaveLength(1)
+      expect(luecken[0].von.toISOString()).toBe('2025-06-29T10:00:00.000Z')
+      expect(luecken[0].bis.toISOString()).toBe('2025-06-29T12:00:00.000Z')
+      expect(luecken[0].besetzung).toBe(0)
+    })
+
+    it('should report the whole window when nobody is assigned', () => {
+      expect(findUnbesetzteZeitfenster([], von, bis)).toEqual([{ von, bis, besetzung: 0 }])
+    })
+
+    it('should merge adjacent windows below the minimum staffing', () => {
+      const luecken = findUnbesetzteZeitfenster([
+        schicht(1, 1, '06:00', '14:00'),
+        schicht(2, 2, '10:00', '22:00')
+      ], von, bis, 2)
+      expect(luecken).toEqual([
+        { von, bis: new Date('2025-06-29T10:00:00Z'), besetzung: 1 },
+        { von: new Date('2025-06-29T14:00:00Z'), bis, besetzung: 1 }
+      ])
+    })
+  })
+
+  it('should format kilometres in German notation', () => {
+    expect(formatKm('0.000')).toBe('0,0')
+    expect(formatKm('2.500')).toBe('2,5')
+    expect(formatKm(1.47)).toBe('1,47')
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  STANDARD_INSPECTION_TEMPLATES,
+  getInspectionProblems,
+  getTemplateItems,
+  inspectionTemplateSchema,
+  isPhotoRequired,
+  isSignatureImage,
+  summarizeInspection,
+} from '../inspections'
+
+describe('Inspections', () => {
+  describe('Templates', () => {
+    it('should number items across sections and default the photo rule', () => {
+      const items = getTemplateItems(inspectionTemplateSchema.parse({
+        name: 'Kranprüfung',
+        sections: [
+          { title: 'Unterlagen', items: ['Prüfbuch vorhanden'] },
+          { title: 'Zustand', items: [{ question: 'Seile ohne Drahtbrüche', photo: 'always' }, 'Endschalter funktionsfähig'] },
+        ],
+      }))
+
+      expect(items).toEqual([
+        { section: 'Unterlagen', position: 1, question: 'Prüfbuch vorhanden', photoRequirement: 'none' },
+        { section: 'Zustand', position: 2, question: 'Seile ohne Drahtbrüche', photoRequirement: 'always' },
+        { section: 'Zustand', position: 3, question: 'Endschalter funktionsfähig', photoRequirement: 'none' },
+      ])
+    })
+
+    it('should accept the built-in templates and reject empty sections', () => {
+      for (const template of Object.values(STANDARD_INSPECTION_TEMPLATES)) {
+        expect(getTemplateItems(inspectionTemplateSchema.parse(template)).length).toBeGreaterThan(0)
+      }
+      expect(() => inspectionTemplateSchema.parse({ name: 'Leer', sections: [{ title: 'A', items: [] }] })).toThrow()
+      expect(() => inspectionTemplateSchema.parse({ name: 'Falsch', requiredSignatures: ['polier'], sections: [{ title: 'A', items: ['x'] }] })).toThrow()
+    })
+  })
+
+  describe('Completion', () => {
+    const items = [
+      { position: 1, question: 'Böschungswinkel', result: 'pass', photoRequirement: 'always', photoIds: [4] },
+      { position: 2, question: 'Verbau', result: 'fail', photoRequirement: 'on_fail', photoIds: [] },
+      { position: 3, question: 'Zugang', result: null, photoRequirement: 'none', photoIds: [] },
+      { position: 4, question: 'Wasserhaltung', result: 'na', photoRequirement: 'on_fail', photoIds: [] },
+    ]
+
+    it('should require photos always or only for failed items', () => {
+      expect(isPhotoRequired({ photoRequirement: 'always', result: 'na' })).toBe(true)
+      expect(isPhotoRequired({ photoRequirement: 'on_fail', result: 'fail' })).toBe(true)
+      expect(isPhotoRequired({ photoRequirement: 'on_fail', result: 'pass' })).toBe(false)
+      expect(isPhotoRequired({ photoRequirement: 'none', result: 'fail' })).toBe(false)
+    })
+
+    it('should summarize answers', () => {
+      expect(summarizeInspection(items)).toEqual({ total: 4, pass: 1, fail: 1, na: 1, open: 1 })
+    })
+
+    it('should list open items, missing photos and missing signatures', () => {
+      expect(getInspectionProblems(items, [{ role: 'inspector' }], ['inspector', 'contractor'])).toEqual([
+        '1 Prüfpunkt(e) noch nicht beantwortet',
+        'Foto fehlt bei Prüfpunkt 2: Verbau',
+        'Unterschrift fehlt: Auftragnehmer',
+      ])
+      expect(getInspectionProblems(items.slice(0, 1), [], [])).toEqual([])
+    })
+  })
+
+  describe('Signatures', () => {
+    it('should only accept PNG data URLs', () => {
+      expect(isSignatureImage('data:image/png;base64,iVBORw0KGgo=')).toBe(true)
+      expect(isSignatureImage('data:image/svg+xml;base64,PHN2Zz4=')).toBe(false)
+      expect(isSignatureImage('https://example.de/unterschrift.png')).toBe(false)
+      expect(isSignatureImage(`data:image/png;base64,${'A'.repeat(600_000)}`)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest'
+import sharp from 'sharp'
+import { PdfReport, toWinAnsi } from '../pdfReport'
+import { generateAcceptancePDF, generateConstructionDiaryPDF, generateDefectListPDF, generateFloodProtectionPDF, generateInspectionPDF, generateProjectPDF } from '../pdfGenerator'
+
+function countPages(pdf: Buffer): number {
+  return (pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length
+}
+
+const company = { name: 'Tiefbau Muster GmbH', addressLines: ['Hauptstraße 1', '97816 Lohr'], contact: 'info@example.de', logo: null }
+
+describe('PDF Reports', () => {
+  describe('Text Encoding', () => {
+    it('should keep German characters and replace unsupported symbols', () => {
+      expect(toWinAnsi('Prüfung Größe €')).toBe('Prüfung Größe €')
+      expect(toWinAnsi('✓ Funktionsfähig')).toBe('OK Funktionsfähig')
+      expect(toWinAnsi('🏗️ Baustelle')).toBe(' Baustelle')
+    })
+  })
+
+  describe('Layout', () => {
+    it('should produce a valid PDF', async () => {
+      const report = new PdfReport({ title: 'Testbericht', company })
+      report.heading('Abschnitt').paragraph('Inhalt').keyValues([['Status', 'Aktiv'], ['Leer', null]])
+
+      const pdf = await report.end()
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+      expect(pdf.subarray(-6).toString()).toContain('%%EOF')
+      expect(countPages(pdf)).toBe(1)
+    })
+
+    it('should continue long tables on further pages', async () => {
+      const report = new PdfReport({ title: 'Lange Tabelle', company })
+      report.table(
+        [{ header: 'Nr.', width: 1 }, { header: 'Bezeichnung', width: 4 }],
+        Array.from({ length: 120 }, (_, i) => [i + 1, `Position ${i + 1}`]),
+      )
+
+      expect(countPages(await report.end())).toBeGreaterThan(2)
+    })
+
+    it('should embed photos and skip unreadable images', async () => {
+      const photo = await sharp({ create: { width: 400, height: 300, channels: 3, background: '#8899aa' } }).jpeg().toBuffer()
+      const report = new PdfReport({ title: 'Fotos', company })
+      report.photos([{ data: photo, caption: 'Baugrube' }, { data: Buffer.from('kaputt') }, { data: photo }])
+
+      const pdf = (await report.end()).toString('latin1')
+
+      expect((pdf.match(/\/Subtype \/Image/g) || []).length).toBe(2)
+    })
+  })
+
+  describe('Report Types', () => {
+    it('should render a project report with photos', async () => {
+      const photo = await sharp({ create: { width: 320, height: 240, channels: 3, background: '#556677' } }).jpeg().toBuffer()
+      const pdf = await generateProjectPDF({
+        project: {
+          id: 7, name: 'Kanalsanierung Lohr', description: 'Erneuerung DN 300', status: 'active', budget: '125000.00',
+          startDate: new Date('2025-05-01'), endDate: null, customerId: null, managerId: null, latitude: '49.99', longitude: '9.57',
+          address: 'Lohr a. Main', mapZoomLevel: 15, boundaryPolygon: null, completionPercentage: 40, floodRiskLevel: 0,
+          createdAt: new Date(), updatedAt: new Date(),
+        },
+        photos: [{ data: photo, caption: 'Baustelleneinrichtung' }],
+      })
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+      expect(pdf.toString('latin1')).toContain('/Subtype /Image')
+    })
+
+    it('should render a flood protection report', async () => {
+      const pdf = await generateFloodProtectionPDF({
+        checklist: { titel: 'Hochwasser Juli', typ: 'hochwasser', status: 'aktiv', erstellt_von: 'Einsatzleitung', erstellt_am: '2025-07-01T08:00:00Z' },
+        schieber: [{ nummer: 1, bezeichnung: 'Absperrschieber DN 300', lage: 'Lohr km 1,470', funktionsfaehig: true }],
+        schaeden: [{ absperrschieber_nummer: 1, problem_beschreibung: 'Undicht', status: 'offen', prioritaet: 1, verlauf: [
+          { zeitpunkt: '2025-07-01T09:00:00Z', typ: 'kommentar', text: 'Gemeldet', benutzer: 'Wache 1' },
+        ] }],
+        wachen: [],
+        exportedAt: '01.07.2025',
+        exportedBy: 'Test',
+      })
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+      expect(countPages(pdf)).toBeGreaterThanOrEqual(1)
+    })
+
+    it('should render an inspection protocol with signatures', async () => {
+      const signature = await sharp({ create: { width: 300, height: 100, channels: 4, background: '#ffffff' } }).png().toBuffer()
+      const now = new Date('2025-07-14T09:30:00Z')
+      const pdf = await generateInspectionPDF({
+        inspection: {
+          id: 3, projectId: 7, templateId: null, type: 'excavation', title: 'Grabenabnahme Abschnitt 2', status: 'completed',
+          location: 'Hauptstraße', notes: null, inspectedAt: now, inspectorId: null, requiredSignatures: ['inspector', 'contractor'],
+          completedAt: now, createdAt: now, updatedAt: now, inspectorName: 'M. Muster', templateVersion: null,
+          itemsTotal: 2, itemsAnswered: 2, itemsFailed: 1,
+        },
+        project: {
+          id: 7, name: 'Kanalsanierung Lohr', description: null, status: 'active', budget: null, startDate: null, endDate: null,
+          customerId: null, managerId: null, latitude: null, longitude: null, address: null, mapZoomLevel: 15, boundaryPolygon: null,
+          completionPercentage: 0, floodRiskLevel: 0, createdAt: now, updatedAt: now,
+        },
+        items: [
+          { id: 1, inspectionId: 3, section: 'Verbau', position: 1, question: 'Verbau verkeilt', photoRequirement: 'on_fail', result: 'fail', comment: 'Nachkeilen', photoIds: [], answeredBy: null, answeredAt: now },
+          { id: 2, inspectionId: 3, section: 'Sohle', position: 2, question: 'Sohle tragfähig', photoRequirement: 'none', result: 'pass', comment: null, photoIds: [], answeredBy: null, answeredAt: now },
+        ],
+        signatures: [
+          { id: 1, inspectionId: 3, role: 'inspector', name: 'M. Muster', image: `data:image/png;base64,${signature.toString('base64')}`, signedBy: null, signedAt: now },
+        ],
+      })
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+      expect(pdf.toString('latin1')).toContain('/Subtype /Image')
+    })
+
+    it('should render one page per construction diary entry', async () => {
+      const now = new Date()
+      const signature = await sharp({ create: { width: 200, height: 80, channels: 4, background: '#ffffff' } }).png().toBuffer()
+      const entry = (id: number, entryDate: string, signed: boolean) => ({
+        id, projectId: 7, entryDate, weather: 'rain', temperatureMin: 4, temperatureMax: 9, weatherNotes: null,
+        staff: [{ company: 'Tiefbau Muster GmbH', trade: 'Kanalbau', count: 4, hours: 8 }],
+        equipment: [{ name: 'Mobilbagger 14 t', count: 1, hours: 6 }],
+        workPerformed: 'Kanal DN 300 verlegt', deliveries: null, hindrances: 'Starkregen 10–12 Uhr', instructions: null, incidents: null,
+        photoIds: [], audioRecordIds: [], authorId: null, authorName: 'M. Muster', reportNumber: id,
+        status: signed ? 'signed' : 'draft', signedBy: null, signerName: signed ? 'M. Muster' : null,
+        signature: signed ? `data:image/png;base64,${signature.toString('base64')}` : null, signedAt: signed ? now : null,
+        createdAt: now, updatedAt: now,
+      })
+
+      const pdf = await generateConstructionDiaryPDF({
+        project: {
+          id: 7, name: 'Kanalsanierung Lohr', description: null, status: 'active', budget: null, startDate: null, endDate: null,
+          customerId: null, managerId: null, latitude: null, longitude: null, address: null, mapZoomLevel: 15, boundaryPolygon: null,
+          completionPercentage: 0, floodRiskLevel: 0, createdAt: now, updatedAt: now,
+        },
+        entries: [{ entry: entry(1, '2025-03-03', true) }, { entry: entry(2, '2025-03-04', false) }],
+      })
+
+      expect(countPages(pdf)).toBe(2)
+      expect(pdf.toString('latin1')).toContain('/Subtype /Image')
+    })
+    it('should render a defect list with pins on the plan', async () => {
+      const now = new Date()
+      const plan = await sharp({ create: { width: 800, height: 500, channels: 3, background: '#ffffff' } }).png().toBuffer()
+      const defect = (id: number, status: string, pinned: boolean) => ({
+        id, projectId: 7, number: id, title: `Mangel ${id}`, description: 'Riss in der Schachtwand', status,
+        companyId: 3, companyName: 'Tiefbau Muster GmbH', companyEmail: null, deadline: '2025-03-01',
+        latitude: null, longitude: null, planAttachmentId: pinned ? 11 : null, planFileName: pinned ? 'Lageplan.png' : null,
+        pinX: pinned ? '0.25000' : null, pinY: pinned ? '0.40000' : null, photoIds: [], createdBy: null,
+        reminderSentAt: null, overdueNotifiedAt: null, resolvedAt: null, acceptedAt: null, acceptedBy: null,
+        createdAt: now, updatedAt: now,
+      })
+
+      const pdf = await generateDefectListPDF({
+        project: {
+          id: 7, name: 'Kanalsanierung Lohr', description: null, status: 'active', budget: null, startDate: null, endDate: null,
+          customerId: null, managerId: null, latitude: null, longitude: null, address: null, mapZoomLevel: 15, boundaryPolygon: null,
+          completionPercentage: 0, floodRiskLevel: 0, createdAt: now, updatedAt: now,
+        },
+        defects: [defect(1, 'open', true), defect(2, 'accepted', false)],
+        plans: [{ attachmentId: 11, fileName: 'Lageplan.png', mimeType: 'image/png', data: plan }],
+        now,
+      })
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+      expect((pdf.toString('latin1').match(/\/Subtype \/Image/g) || []).length).toBe(1)
+    })
+
+    it('should render a signed acceptance protocol with reserved defects and both signatures', async () => {
+      const now = new Date()
+      const signature = `data:image/png;base64,${(await sharp({ create: { width: 300, height: 100, channels: 3, background: '#ffffff' } }).png().toBuffer()).toString('base64')}`
+      const pdf = await generateAcceptancePDF({
+        project: {
+          id: 7, name: 'Kanalsanierung Lohr', description: null, status: 'active', budget: null, startDate: null, endDate: null,
+          customerId: null, managerId: null, latitude: null, longitude: null, address: null, mapZoomLevel: 15, boundaryPolygon: null,
+          completionPercentage: 0, floodRiskLevel: 0, createdAt: now, updatedAt: now,
+        },
+        protocol: {
+          id: 2, projectId: 7, status: 'signed', result: 'accepted_with_reservations', acceptanceDate: '2025-06-02',
+          participants: 'Stadtwerke Lohr, Tiefbau Muster GmbH', remarks: 'Restarbeiten bis KW 26',
+          snapshot: {
+            defects: [{ number: 1, title: 'Riss in Schacht 4', description: null, status: 'open', companyName: 'Tiefbau Muster GmbH', deadline: '2025-06-30', location: null }],
+            inspections: [{
+              id: 4, title: 'Dichtheitsprüfung', type: 'dichtheit', status: 'completed', inspectedAt: now.toISOString(),
+              pass: 2, fail: 1, na: 0, open: 0, failedItems: [{ question: 'Muffe dicht', comment: 'Tropfen an Muffe 3' }],
+            }],
+            createdAt: now.toISOString(),
+          },
+          customerName: 'Frau Schmidt', customerSignature: signature, customerSignedAt: now,
+          contractorName: 'Herr Müller', contractorSignature: signature, contractorSignedAt: now,
+          pdfKey: null, pdfHash: null, signedAt: now, signedBy: null, createdBy: null, createdAt: now, updatedAt: now,
+        },
+        createdAt: now,
+      })
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+      expect((pdf.toString('latin1').match(/\/Subtype \/Image/g) || []).length).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DateiAblageAdapter, HttpPegelAdapter, PegelImportError, parsePegelCsv, parsePegelDaten, parseZeitpunkt } from '../pegel'
+import { getMeldestufe, getMeldestufenFehler } from '../floodProtection'
+
+const schwellen = { meldestufe1Cm: 400, meldestufe2Cm: 500, meldestufe3Cm: 600, meldestufe4Cm: null }
+
+describe('Pegel', () => {
+  describe('Meldestufen', () => {
+    it('should return the highest stage reached', () => {
+      expect(getMeldestufe(350, schwellen)).toBe(0)
+      expect(getMeldestufe(400, schwellen)).toBe(1)
+      expect(getMeldestufe(599, schwellen)).toBe(2)
+      expect(getMeldestufe(900, schwellen)).toBe(3)
+    })
+
+    it('should reject thresholds that do not ascend', () => {
+      expect(getMeldestufenFehler(schwellen)).toBeNull()
+      expect(getMeldestufenFehler({ meldestufe1Cm: 400, meldestufe2Cm: null, meldestufe3Cm: 380 })).toContain('Meldestufe 3')
+    })
+  })
+
+  describe('Parser', () => {
+    it('should read German timestamps as local time', () => {
+      expect(parseZeitpunkt('14.07.2025 09:30')).toEqual(new Date(2025, 6, 14, 9, 30))
+      expect(parseZeitpunkt('2025-07-14T07:30:00Z')).toEqual(new Date('2025-07-14T07:30:00Z'))
+      expect(parseZeitpunkt('gestern')).toBeNull()
+    })
+
+    it('should parse CSV with header, separate time column and decimal comma', () => {
+      const messungen = parsePegelCsv('Datum;Uhrzeit;Wasserstand\n14.07.2025;09:00;412,6\n14.07.2025;09:15;415\n', '24211005')
+
+      expect(messungen).toEqual([
+        { pegelnummer: '24211005', gemessenAm: new Date(2025, 6, 14, 9, 0), wasserstandCm: 413 },
+        { pegelnummer: '24211005', gemessenAm: new Date(2025, 6, 14, 9, 15), wasserstandCm: 415 },
+      ])
+    })
+
+    it('should parse CSV without header and report the failing line', () => {
+      expect(parsePegelCsv('24211005,2025-07-14T07:00:00Z,380')[0].pegelnummer).toBe('24211005')
+      expect(() => parsePegelCsv('2025-07-14T07:00:00Z;380\nkaputt;390')).toThrow('Zeile 2')
+    })
+
+    it('should parse nested JSON feeds', () => {
+      const messungen = parsePegelDaten(JSON.stringify({
+        pegel: [{ pegelnummer: 24211005, messwerte: [{ timestamp: '2025-07-14T07:00:00Z', value: 401 }] }],
+      }))
+
+      expect(messungen).toEqual([{ pegelnummer: '24211005', gemessenAm: new Date('2025-07-14T07:00:00Z'), wasserstandCm: 401 }])
+      expect(() => parsePegelDaten('[{"zeitpunkt": "x"}]')).toThrow(PegelImportError)
+    })
+  })
+
+  describe('Adapter', () => {
+    let verzeichnis: string
+
+    beforeEach(async () => {
+      verzeichnis = await mkdtemp(join(tmpdir(), 'pegel-'))
+    })
+
+    afterEach(async () => {
+      await rm(verzeichnis, { recursive: true, force: true })
+    })
+
+    it('should read the drop folder and move files after confirmation', async () => {
+      await writeFile(join(verzeichnis, '24211005_juli.csv'), '2025-07-14T07:00:00Z;380\n')
+      await writeFile(join(verzeichnis, 'defekt.json'), '{ kein json')
+      await writeFile(join(verzeichnis, 'notiz.txt'), 'ignorieren')
+
+      const adapter = new DateiAblageAdapter(verzeichnis)
+      const messungen = await adapter.abrufen()
+      await adapter.bestaetigen()
+
+      expect(messungen).toEqual([{ pegelnummer: '24211005', gemessenAm: new Date('2025-07-14T07:00:00Z'), wasserstandCm: 380 }])
+      expect(await readdir(join(verzeichnis, 'verarbeitet'))).toEqual(['24211005_juli.csv'])
+      expect(await readdir(join(verzeichnis, 'fehlerhaft'))).toEqual(['defekt.json'])
+      expect((await readdir(verzeichnis)).sort()).toEqual(['fehlerhaft', 'notiz.txt', 'verarbeitet'])
+    })
+
+    describe('HTTP', () => {
+      let server: Server
+      let baseUrl: string
+
+      beforeEach(async () => {
+        server = createServer((req, res) => {
+          if (req.url === '/pegel/24211005') {
+            res.setHeader('Content-Type', 'application/json')
+            res.end(JSON.stringify([{ zeitpunkt: '2025-07-14T07:00:00Z', wasserstand_cm: 512 }]))
+          } else {
+            res.statusCode = 404
+            res.end()
+          }
+        })
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      })
+
+      afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve))
+      })
+
+      it('should fetch readings and assign the gauge number', async () => {
+        const messungen = await new HttpPegelAdapter(`${baseUrl}/pegel/24211005`, '24211005').abrufen()
+
+        expect(messungen).toEqual([{ pegelnummer: '24211005', gemessenAm: new Date('2025-07-14T07:00:00Z'), wasserstandCm: 512 }])
+      })
+
+      it('should fail on HTTP errors', async () => {
+        await expect(new HttpPegelAdapter(`${baseUrl}/unbekannt`).abrufen()).rejects.toThrow('HTTP 404')
+      })
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import sharp from 'sharp'
+import {
+  createThumbnail,
+  distanceMeters,
+  extractPhotoMetadata,
+  findNearestProject,
+  THUMBNAIL_SIZE,
+  type ProjectGeoPoint,
+} from '../photoMetadata'
+
+async function createJpeg(exif?: Record<string, Record<string, string>>, width = 640, height = 480) {
+  const image = sharp({ create: { width, height, channels: 3, background: '#7a8b9c' } }).jpeg()
+  return await (exif ? image.withExif(exif) : image).toBuffer()
+}
+
+describe('Photo Metadata', () => {
+  describe('EXIF Extraction', () => {
+    it('should read capture time, camera and GPS position', async () => {
+      const image = await createJpeg({
+        IFD0: { Make: 'Canon', Model: 'EOS 90D' },
+        IFD2: { DateTimeOriginal: '2025:07:14 09:30:00' },
+        IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '49/1 27/1 0/1', GPSLongitudeRef: 'E', GPSLongitude: '11/1 4/1 48/1' },
+      })
+
+      const metadata = await extractPhotoMetadata(image)
+
+      expect(metadata.cameraMake).toBe('Canon')
+      expect(metadata.cameraModel).toBe('EOS 90D')
+      expect(metadata.capturedAt).toBe(new Date(2025, 6, 14, 9, 30).toISOString())
+      expect(metadata.width).toBe(640)
+      expect(metadata.height).toBe(480)
+      expect(metadata.gps?.latitude).toBeCloseTo(49.45, 5)
+      expect(metadata.gps?.longitude).toBeCloseTo(11.08, 5)
+    })
+
+    it('should return empty metadata for photos without EXIF', async () => {
+      const metadata = await extractPhotoMetadata(await createJpeg())
+
+      expect(metadata.capturedAt).toBeNull()
+      expect(metadata.cameraMake).toBeNull()
+      expect(metadata.gps).toBeNull()
+      expect(metadata.width).toBe(640)
+    })
+
+    it('should not fail on data that is not an image', async () => {
+      const metadata = await extractPhotoMetadata(Buffer.from('kein Bild'))
+
+      expect(metadata.gps).toBeNull()
+      expect(metadata.width).toBeNull()
+    })
+  })
+
+  describe('Thumbnails', () => {
+    it('should create a square JPEG thumbnail', async () => {
+      const thumbnail = await createThumbnail(await createJpeg(undefined, 1920, 1080))
+      const info = await sharp(thumbnail).metadata()
+
+      expect(info.format).toBe('jpeg')
+      expect(info.width).toBe(THUMBNAIL_SIZE)
+      expect(info.height).toBe(THUMBNAIL_SIZE)
+    })
+  })
+
+  describe('Project Suggestion', () => {
+    const candidates: ProjectGeoPoint[] = [
+      { projectId: 1, projectName: 'Kanalsanierung Nürnberg', latitude: 49.4521, longitude: 11.0767, source: 'project' },
+      { projectId: 2, projectName: 'Brücke Fürth', latitude: 49.4771, longitude: 10.9887, source: 'project' },
+      { projectId: 2, projectName: 'Brücke Fürth', latitude: 49.4500, longitude: 11.0810, source: 'location', locationName: 'Lagerplatz' },
+    ]
+
+    it('should calculate distances in meters', () => {
+      const distance = distanceMeters({ latitude: 49.4521, longitude: 11.0767 }, { latitude: 49.4771, longitude: 10.9887 })
+      expect(distance).toBeGreaterThan(6900)
+      expect(distance).toBeLessThan(7000)
+    })
+
+    it('should suggest the project with the nearest location', () => {
+      const suggestion = findNearestProject({ latitude: 49.45, longitude: 11.08 }, candidates)
+
+      expect(suggestion?.projectId).toBe(2)
+      expect(suggestion?.source).toBe('location')
+      expect(suggestion?.locationName).toBe('Lagerplatz')
+      expect(suggestion?.distanceMeters).toBeLessThan(100)
+    })
+
+    it('should not suggest projects that are too far away', () => {
+      expect(findNearestProject({ latitude: 52.52, longitude: 13.405 }, candidates)).toBeNull()
+      expect(findNearestProject({ latitude: 49.45, longitude: 11.08 }, [])).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { getProjectPermissions, hasProjectPermission, resolveProjectRole } from '../projectAccess'
+
+describe('Project Access', () => {
+  const project = { managerId: 'leitung' }
+
+  describe('Roles', () => {
+    it('should treat admins and the project manager as Bauleiter', () => {
+      expect(resolveProjectRole({ id: 'admin-1', role: 'admin' }, project)).toBe('bauleiter')
+      expect(resolveProjectRole({ id: 'leitung', role: 'user' }, project)).toBe('bauleiter')
+    })
+
+    it('should use the membership role of other users', () => {
+      expect(resolveProjectRole({ id: 'polier-1', role: 'user' }, project, { role: 'polier' })).toBe('polier')
+      expect(resolveProjectRole({ id: 'gast-1', role: 'manager' }, project, { role: 'gast' })).toBe('gast')
+    })
+
+    it('should deny users without membership', () => {
+      expect(resolveProjectRole({ id: 'fremd', role: 'manager' }, project)).toBeNull()
+      expect(resolveProjectRole({ id: 'fremd', role: 'user' }, { managerId: null }, null)).toBeNull()
+    })
+  })
+
+  describe('Permissions', () => {
+    it('should grant permissions by role', () => {
+      expect(getProjectPermissions('bauleiter')).toEqual(['view', 'edit', 'manage'])
+      expect(hasProjectPermission('polier', 'edit')).toBe(true)
+      expect(hasProjectPermission('polier', 'manage')).toBe(false)
+      expect(hasProjectPermission('gast', 'view')).toBe(true)
+      expect(hasProjectPermission('gast', 'edit')).toBe(false)
+      expect(hasProjectPermission(null, 'view')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { getBudgetSummary } from '../projectBudget'
+
+const cost = (amount: string, status = 'actual', category = 'material', costDate = '2025-03-01') => ({ amount, status, category, costDate })
+
+describe('Project Budget', () => {
+  const now = new Date(2025, 2, 10, 12, 0)
+
+  it('should sum committed and actual costs without rounding errors', () => {
+    const summary = getBudgetSummary(
+      { budget: '1000.00', startDate: null, endDate: null },
+      [cost('0.10'), cost('0.20'), cost('250.00', 'committed', 'subcontractor')],
+      now,
+    )
+
+    expect(summary.actual).toBe(0.3)
+    expect(summary.committed).toBe(250)
+    expect(summary.remaining).toBe(749.7)
+    expect(summary.byCategory).toEqual([
+      { category: 'material', committed: 0, actual: 0.3 },
+      { category: 'subcontractor', committed: 250, actual: 0 },
+    ])
+  })
+
+  it('should forecast the costs at completion from the burn rate', () => {
+    // 10 Tage seit Baubeginn, 10.000 € Ist-Kosten: 1.000 € pro Tag, noch 20 Tage bis Bauende
+    const summary = getBudgetSummary(
+      { budget: '25000', startDate: new Date(2025, 2, 1), endDate: new Date(2025, 2, 30) },
+      [cost('10000')],
+      now,
+    )
+
+    expect(summary.burnRatePerDay).toBe(1000)
+    expect(summary.forecastAtCompletion).toBe(30000)
+    expect(summary.isForecastOverBudget).toBe(true)
+    expect(summary.isOverBudget).toBe(false)
+    expect(summary.budgetExhaustedAt).toEqual(new Date(2025, 2, 25))
+    expect(summary.warnings).toHaveLength(1)
+    expect(summary.warnings[0].level).toBe('warning')
+  })
+
+  it('should never forecast less than actual plus committed costs', () => {
+    const summary = getBudgetSummary(
+      { budget: '50000', startDate: new Date(2025, 2, 1), endDate: new Date(2025, 2, 12) },
+      [cost('1000'), cost('30000', 'committed')],
+      now,
+    )
+
+    expect(summary.forecastAtCompletion).toBe(31000)
+  })
+
+  it('should not forecast before the project has started', () => {
+    // Anzahlung vor Baubeginn am 01.04.
+    const summary = getBudgetSummary(
+      { budget: '20000', startDate: new Date(2025, 3, 1), endDate: new Date(2025, 5, 30) },
+      [cost('5000', 'actual', 'material', '2025-03-05')],
+      now,
+    )
+
+    expect(summary.burnRatePerDay).toBe(0)
+    expect(summary.forecastAtCompletion).toBeNull()
+    expect(summary.isForecastOverBudget).toBe(false)
+    expect(summary.budgetExhaustedAt).toBeNull()
+    expect(summary.warnings).toEqual([])
+  })
+
+  it('should warn when the budget is nearly used up or exceeded', () => {
+    const project = { budget: '10000', startDate: null, endDate: null }
+
+    expect(getBudgetSummary(project, [cost('9200')], now).warnings).toEqual([
+      { level: 'warning', message: '92 % des Budgets sind gebunden' },
+    ])
+
+    const exceeded = getBudgetSummary(project, [cost('8000'), cost('3000', 'committed')], now)
+    expect(exceeded.isOverBudget).toBe(true)
+    expect(exceeded.warnings[0].level).toBe('critical')
+  })
+
+  it('should not warn or forecast without budget and end date', () => {
+    const summary = getBudgetSummary({ budget: null, startDate: null, endDate: null }, [cost('500')], now)
+
+    expect(summary.usedPercent).toBeNull()
+    expect(summary.forecastAtCompletion).toBeNull()
+    expect(summary.warnings).toEqual([])
+  })
+})
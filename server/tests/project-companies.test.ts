@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { getAssignmentPeriodError, getContactPersonError, isCompanyOnSite, summarizeProjectCompanies } from '../projectCompanies'
+
+describe('Project Companies', () => {
+  const now = new Date(2025, 4, 14, 7, 30)
+
+  describe('Time on site', () => {
+    it('should count the first and last day of the assignment', () => {
+      expect(isCompanyOnSite({ startDate: '2025-05-14', endDate: '2025-05-14' }, now)).toBe(true)
+      expect(isCompanyOnSite({ startDate: '2025-05-01', endDate: null }, now)).toBe(true)
+      expect(isCompanyOnSite({ startDate: '2025-05-15', endDate: null }, now)).toBe(false)
+      expect(isCompanyOnSite({ startDate: '2025-04-01', endDate: '2025-05-13' }, now)).toBe(false)
+      expect(isCompanyOnSite({ startDate: null, endDate: '2025-06-01' }, now)).toBe(false)
+    })
+
+    it('should reject an end before the start', () => {
+      expect(getAssignmentPeriodError({ startDate: '2025-05-01', endDate: '2025-04-30' })).toBe('Das Einsatzende liegt vor dem Einsatzbeginn')
+      expect(getAssignmentPeriodError({ startDate: '2025-05-01', endDate: '2025-05-01' })).toBeNull()
+      expect(getAssignmentPeriodError({ startDate: null, endDate: '2025-04-30' })).toBeNull()
+    })
+  })
+
+  describe('Summary', () => {
+    it('should count companies once across trades and sum contract values', () => {
+      const summary = summarizeProjectCompanies([
+        { companyId: 1, contractValue: '120000.10', startDate: '2025-05-01', endDate: null },
+        { companyId: 1, contractValue: '0.20', startDate: '2025-06-01', endDate: null },
+        { companyId: 2, contractValue: null, startDate: '2025-05-10', endDate: '2025-05-20' },
+        { companyId: 3, contractValue: '5000', startDate: null, endDate: null },
+      ], now)
+
+      expect(summary).toEqual({ companies: 3, onSite: 2, contractValue: '125000.30' })
+    })
+  })
+
+  describe('Contact person', () => {
+    it('should only accept contacts of the assigned company or without company', () => {
+      expect(getContactPersonError({ companyId: 4 }, 4)).toBeNull()
+      expect(getContactPersonError({ companyId: null }, 4)).toBeNull()
+      expect(getContactPersonError({ companyId: 5 }, 4)).toBe('Der Ansprechpartner gehört zu einer anderen Firma')
+      expect(getContactPersonError(undefined, 4)).toBe('Unbekannter Ansprechpartner')
+    })
+  })
+})
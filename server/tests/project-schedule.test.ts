@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assertValidDependencies,
+  calculateWeightedCompletion,
+  findDependencyConflicts,
+  getPhaseDelayDays,
+  getPhaseStatus,
+  getScheduleSummary,
+  ProjectScheduleError,
+} from '../projectSchedule'
+
+// Lokale Mitternacht, damit die Kalendertage unabhängig von der Zeitzone stimmen
+const day = (date: string) => new Date(`${date}T00:00:00`)
+
+const phase = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  kind: 'phase',
+  name: 'Erdarbeiten',
+  weight: 1,
+  progress: 0,
+  plannedStart: day('2025-03-01'),
+  plannedEnd: day('2025-03-20'),
+  actualStart: null,
+  actualEnd: null,
+  dependsOn: [] as number[],
+  ...overrides,
+}) as any
+
+describe('Project Schedule', () => {
+  const now = new Date('2025-03-25T10:00:00')
+
+  describe('Completion', () => {
+    it('should weight phase progress and count finished phases fully', () => {
+      const phases = [
+        phase({ weight: 3, progress: 50 }),
+        phase({ id: 2, weight: 1, progress: 20, actualEnd: day('2025-03-18') }),
+      ]
+      expect(calculateWeightedCompletion(phases)).toBe(63)
+    })
+
+    it('should ignore open milestones and return null without weights', () => {
+      expect(calculateWeightedCompletion([phase({ kind: 'milestone', progress: 80 })])).toBe(0)
+      expect(calculateWeightedCompletion([phase({ weight: 0, progress: 80 })])).toBeNull()
+    })
+  })
+
+  describe('Delays', () => {
+    it('should measure overdue and late finished phases in calendar days', () => {
+      expect(getPhaseDelayDays(phase({ actualStart: day('2025-03-01') }), now)).toBe(5)
+      expect(getPhaseDelayDays(phase({ actualEnd: day('2025-03-22') }), now)).toBe(2)
+      expect(getPhaseDelayDays(phase({ actualEnd: day('2025-03-15') }), now)).toBe(0)
+    })
+
+    it('should flag phases that have not started on time', () => {
+      const late = phase({ plannedStart: day('2025-03-20'), plannedEnd: day('2025-04-10') })
+      expect(getPhaseDelayDays(late, now)).toBe(5)
+      expect(getPhaseStatus(late, now)).toBe('delayed')
+      expect(getPhaseStatus(phase({ plannedStart: day('2025-03-24'), plannedEnd: day('2025-04-10'), actualStart: day('2025-03-24') }), now)).toBe('in_progress')
+    })
+
+    it('should only mark the project as delayed while late phases are open', () => {
+      const finishedLate = phase({ actualEnd: day('2025-03-22') })
+      expect(getScheduleSummary([finishedLate], now)).toMatchObject({ delayDays: 2, isDelayed: false })
+      expect(getScheduleSummary([finishedLate, phase({ id: 2, actualStart: day('2025-03-01') })], now)).toMatchObject({
+        delayedPhases: 2,
+        delayDays: 5,
+        isDelayed: true,
+      })
+    })
+  })
+
+  describe('Dependencies', () => {
+    it('should report successors planned before their predecessor ends', () => {
+      const phases = [
+        phase(),
+        phase({ id: 2, name: 'Kanalbau', plannedStart: day('2025-03-15'), plannedEnd: day('2025-04-15'), dependsOn: [1] }),
+        phase({ id: 3, kind: 'milestone', name: 'Abnahme', plannedStart: null, plannedEnd: day('2025-04-20'), dependsOn: [2] }),
+      ]
+      const conflicts = findDependencyConflicts(phases)
+      expect(conflicts).toHaveLength(1)
+      expect(conflicts[0]).toMatchObject({ phaseId: 2, dependsOnId: 1 })
+    })
+
+    it('should reject unknown predecessors, self references and cycles', () => {
+      const phases = [phase(), phase({ id: 2, dependsOn: [1] }), phase({ id: 3, dependsOn: [2] })]
+      expect(() => assertValidDependencies(phases, null, [99])).toThrow(ProjectScheduleError)
+      expect(() => assertValidDependencies(phases, 2, [2])).toThrow(ProjectScheduleError)
+      expect(() => assertValidDependencies(phases, 1, [3])).toThrow('cycle')
+      expect(() => assertValidDependencies(phases, 3, [1, 2])).not.toThrow()
+    })
+  })
+})
@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { Server, utils } from 'ssh2'
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, existsSync, rmSync } from 'fs'
+import fs from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { PassThrough, Readable } from 'stream'
+import {
+  SftpAccessError,
+  formatPermissions,
+  getSftpErrorStatus,
+  hasSftpAccess,
+  resolveSftpPath,
+  testSftpConnection,
+  withSftpSession
+} from '../sftpService'
+import { getSftpBackupPath, getSftpSyncBackoffMs, slugifyProjektName } from '../sftpSync'
+
+const { STATUS_CODE } = utils.sftp
+
+// Minimaler SFTP-Server über ssh2, der ein temporäres Verzeichnis bereitstellt
+function startSftpServer(rootDir: string): Promise<{ server: Server; port: number }> {
+  const hostKey = utils.generateKeyPairSync('ed25519').private
+
+  const server = new Server({ hostKeys: [hostKey] }, (client) => {
+    client.on('authentication', (ctx) => {
+      if (ctx.method === 'password' && ctx.username === 'bau' && ctx.password === 'geheim') {
+        return ctx.accept()
+      }
+      ctx.reject(['password'])
+    })
+
+    client.on('ready', () => {
+      client.on('session', (acceptSession) => {
+        acceptSession().on('sftp', (acceptSftp) => {
+          const sftp = acceptSftp()
+          const handles = new Map<number, { fd?: number; dir?: string; listed?: boolean }>()
+          let nextHandle = 0
+
+          const local = (remotePath: string) => join(rootDir, remotePath)
+          const toHandle = (entry: { fd?: number; dir?: string }) => {
+            const id = nextHandle++
+            handles.set(id, entry)
+            const buffer = Buffer.alloc(4)
+            buffer.writeUInt32BE(id)
+            return buffer
+          }
+          const fromHandle = (buffer: Buffer) => handles.get(buffer.readUInt32BE(0))
+          const toAttrs = (stats: fs.Stats) => ({
+            mode: stats.mode,
+            uid: stats.uid,
+            gid: stats.gid,
+            size: stats.size,
+            atime: Math.floor(stats.atimeMs / 1000),
+            mtime: Math.floor(stats.mtimeMs / 1000)
+          })
+          const fail = (reqid: number, error: any) =>
+            sftp.status(reqid, error?.code === 'ENOENT' ? STATUS_CODE.NO_SUCH_FILE : STATUS_CODE.FAILURE)
+          const run = (reqid: number, fn: () => void) => {
+            try {
+              fn()
+              sftp.status(reqid, STATUS_CODE.OK)
+            } catch (error) {
+              fail(reqid, error)
+            }
+          }
+
+          sftp.on('OPEN', (reqid, filename, flags) => {
+            try {
+              const fd = fs.openSync(local(filename), utils.sftp.flagsToString(flags) as string)
+              sftp.handle(reqid, toHandle({ fd }))
+            } catch (error) {
+              fail(reqid, error)
+            }
+          })
+          sftp.on('READ', (reqid, handle, offset, length) => {
+            const entry = fromHandle(handle)
+            const buffer = Buffer.alloc(length)
+            const bytesRead = fs.readSync(entry!.fd!, buffer, 0, length, offset)
+            if (bytesRead === 0) return sftp.status(reqid, STATUS_CODE.EOF)
+            sftp.data(reqid, buffer.subarray(0, bytesRead))
+          })
+          sftp.on('WRITE', (reqid, handle, offset, data) => {
+            run(reqid, () => fs.writeSync(fromHandle(handle)!.fd!, data, 0, data.length, offset))
+          })
+          sftp.on('FSTAT', (reqid, handle) => {
+            sftp.attrs(reqid, toAttrs(fs.fstatSync(fromHandle(handle)!.fd!)))
+          })
+          sftp.on('CLOSE', (reqid, handle) => {
+            const entry = fromHandle(handle)
+            if (entry?.fd !== undefined) fs.closeSync(entry.fd)
+            handles.delete(handle.readUInt32BE(0))
+            sftp.status(reqid, STATUS_CODE.OK)
+          })
+          sftp.on('OPENDIR', (reqid, dirPath) => {
+            if (!existsSync(local(dirPath))) return sftp.status(reqid, STATUS_CODE.NO_SUCH_FILE)
+            sftp.handle(reqid, toHandle({ dir: dirPath }))
+          })
+          sftp.on('READDIR', (reqid, handle) => {
+            const entry = fromHandle(handle)!
+            if (entry.listed) return sftp.status(reqid, STATUS_CODE.EOF)
+            entry.listed = true
+            sftp.name(reqid, fs.readdirSync(local(entry.dir!)).map((filename) => {
+              const stats = fs.statSync(join(local(entry.dir!), filename))
+              return { filename, longname: filename, attrs: toAttrs(stats) }
+            }))
+          })
+          const stat = (reqid: number, remotePath: string) => {
+            try {
+              sftp.attrs(reqid, toAttrs(fs.statSync(local(remotePath))))
+            } catch (error) {
+              fail(reqid, error)
+            }
+          }
+          sftp.on('STAT', stat)
+          sftp.on('LSTAT', stat)
+          sftp.on('REALPATH', (reqid, remotePath) => {
+            sftp.name(reqid, [{ filename: remotePath, longname: remotePath, attrs: {} as any }])
+          })
+          sftp.on('MKDIR', (reqid, dirPath) => run(reqid, () => mkdirSync(local(dirPath))))
+          sftp.on('RMDIR', (reqid, dirPath) => run(reqid, () => fs.rmdirSync(local(dirPath))))
+          sftp.on('REMOVE', (reqid, filePath) => run(reqid, () => fs.unlinkSync(local(filePath))))
+          sftp.on('RENAME', (reqid, oldPath, newPath) => run(reqid, () => fs.renameSync(local(oldPath), local(newPath))))
+        })
+      })
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as any).port }))
+  })
+}
+
+describe('SFTP Service', () => {
+  let rootDir: string
+  let server: Server
+  let sftpUser: any
+
+  beforeAll(async () => {
+    rootDir = mkdtempSync(join(tmpdir(), 'sftp-test-'))
+    mkdirSync(join(rootDir, 'home'))
+    mkdirSync(join(rootDir, 'home', 'projects'))
+    writeFileSync(join(rootDir, 'home', 'plan.pdf'), 'PDF-Inhalt')
+    writeFileSync(join(rootDir, 'geheim.txt'), 'außerhalb')
+
+    const started = await startSftpServer(rootDir)
+    server = started.server
+    sftpUser = {
+      role: 'manager',
+      sftpHost: '127.0.0.1',
+      sftpPort: started.port,
+      sftpUsername: 'bau',
+      sftpPassword: 'geheim',
+      sftpPath: '/home',
+      sftpAccessLevel: 2
+    }
+  })
+
+  afterAll(() => {
+    server?.close()
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  describe('Access Levels', () => {
+    it('should grant operations by access level', () => {
+      const reader = { role: 'manager', sftpAccessLevel: 0 }
+      expect(hasSftpAccess(reader, 'list')).toBe(true)
+      expect(hasSftpAccess(reader, 'upload')).toBe(false)
+      expect(hasSftpAccess({ role: 'manager', sftpAccessLevel: 1 }, 'rename')).toBe(true)
+      expect(hasSftpAccess({ role: 'manager', sftpAccessLevel: 1 }, 'delete')).toBe(false)
+      expect(hasSftpAccess({ role: 'admin', sftpAccessLevel: 0 }, 'delete')).toBe(true)
+      expect(hasSftpAccess({ role: 'user', sftpAccessLevel: 2 }, 'list')).toBe(false)
+    })
+
+    it('should reject operations above the access level before connecting', async () => {
+      const error = await withSftpSession({ ...sftpUser, sftpAccessLevel: 0 }, 'delete', async () => 'nie')
+        .catch((e) => e)
+      expect(error).toBeInstanceOf(SftpAccessError)
+      expect(getSftpErrorStatus(error)).toBe(403)
+    })
+  })
+
+  describe('Paths', () => {
+    it('should keep paths inside the base directory', () => {
+      expect(resolveSftpPath('/home', '/projects')).toBe('/home/projects')
+      expect(resolveSftpPath('/home', '../../etc/passwd')).toBe('/home/etc/passwd')
+      expect(resolveSftpPath('/home', '')).toBe('/home/')
+      expect(resolveSftpPath(null, 'a/../b')).toBe('/b')
+    })
+
+    it('should format permissions like ls', () => {
+      expect(formatPermissions(0o755, true)).toBe('drwxr-xr-x')
+      expect(formatPermissions(0o644, false)).toBe('-rw-r--r--')
+    })
+  })
+
+  describe('Operations', () => {
+    it('should test the connection', async () => {
+      expect(await testSftpConnection(sftpUser)).toBe(2)
+    })
+
+    it('should fail with bad credentials', async () => {
+      const error = await testSftpConnection({ ...sftpUser, sftpPassword: 'falsch' }).catch((e) => e)
+      expect(error).toBeInstanceOf(Error)
+      expect(getSftpErrorStatus(error)).toBe(502)
+    })
+
+    it('should list directories first', async () => {
+      const files = await withSftpSession(sftpUser, 'list', (session) => session.list('/'))
+      expect(files.map((f) => [f.name, f.type])).toEqual([['projects', 'directory'], ['plan.pdf', 'file']])
+      expect(files[1].size).toBe(Buffer.byteLength('PDF-Inhalt'))
+      expect(files[0].permissions.startsWith('d')).toBe(true)
+    })
+
+    it('should stream uploads and downloads', async () => {
+      await withSftpSession(sftpUser, 'upload', (session) =>
+        session.upload('/projects/bericht.txt', Readable.from([Buffer.from('Bautagebuch '), Buffer.from('Tag 1')]))
+      )
+      expect(readFileSync(join(rootDir, 'home', 'projects', 'bericht.txt'), 'utf8')).toBe('Bautagebuch Tag 1')
+
+      const sink = new PassThrough()
+      const chunks: Buffer[] = []
+      sink.on('data', (chunk) => chunks.push(chunk))
+      await withSftpSession(sftpUser, 'download', (session) => session.download('/projects/bericht.txt', sink))
+      expect(Buffer.concat(chunks).toString('utf8')).toBe('Bautagebuch Tag 1')
+    })
+
+    it('should not escape the base directory', async () => {
+      const error = await withSftpSession(sftpUser, 'download', (session) =>
+        session.download('../geheim.txt', new PassThrough())
+      ).catch((e) => e)
+      expect(getSftpErrorStatus(error)).toBe(404)
+    })
+
+    it('should create, rename and delete entries', async () => {
+      await withSftpSession(sftpUser, 'mkdir', (session) => session.mkdir('/archiv'))
+      expect(existsSync(join(rootDir, 'home', 'archiv'))).toBe(true)
+
+      await withSftpSession(sftpUser, 'rename', (session) => session.rename('/plan.pdf', '/archiv/plan_alt.pdf'))
+      expect(existsSync(join(rootDir, 'home', 'archiv', 'plan_alt.pdf'))).toBe(true)
+
+      await withSftpSession(sftpUser, 'delete', async (session) => {
+        await session.delete('/archiv/plan_alt.pdf')
+        await session.delete('/archiv')
+      })
+      expect(existsSync(join(rootDir, 'home', 'archiv'))).toBe(false)
+    })
+
+    it('should create nested directories for mirrored files', async () => {
+      await withSftpSession(sftpUser, 'upload', async (session) => {
+        await session.ensureDir('/projekte/7-deich-nord/fotos')
+        await session.ensureDir('/projekte/7-deich-nord/fotos')
+      })
+      expect(existsSync(join(rootDir, 'home', 'projekte', '7-deich-nord', 'fotos'))).toBe(true)
+    })
+  })
+
+  describe('Mirroring Layout', () => {
+    it('should build per-project directories by file kind', () => {
+      expect(slugifyProjektName('Brücke Süd / Bauabschnitt 2')).toBe('bruecke-sued-bauabschnitt-2')
+      expect(slugifyProjektName('***')).toBe('projekt')
+      expect(getSftpBackupPath({ kind: 'photo', id: 12, fileName: 'photo_1.jpg', projectId: 7, projectName: 'Deich Nord' }))
+        .toBe('/projekte/7-deich-nord/fotos/12_photo_1.jpg')
+      expect(getSftpBackupPath({ kind: 'attachment', id: 3, fileName: '../plan.pdf', projectId: 7, projectName: 'Deich Nord' }))
+        .toBe('/projekte/7-deich-nord/dokumente/3_plan.pdf')
+    })
+
+    it('should back off exponentially up to six hours', () => {
+      expect(getSftpSyncBackoffMs(1)).toBe(60 * 1000)
+      expect(getSftpSyncBackoffMs(3)).toBe(4 * 60 * 1000)
+      expect(getSftpSyncBackoffMs(20)).toBe(6 * 60 * 60 * 1000)
+    })
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  getOverallConfidence,
+  getTranscriptionProvider,
+  LocalWhisperProvider,
+  OpenAiWhisperProvider,
+  parseWhisperCppJson,
+  parseWhisperVerboseJson,
+  TranscriptionError,
+} from '../transcription'
+
+const whisperCppOutput = {
+  result: { language: 'de' },
+  transcription: [
+    {
+      offsets: { from: 0, to: 4200 },
+      text: ' Die Schalung für die Stützen steht.',
+      tokens: [
+        { text: '[_BEG_]', p: 0.1 },
+        { text: ' Die', p: 0.9 },
+        { text: ' Schalung', p: 0.8 },
+      ],
+    },
+    {
+      offsets: { from: 4200, to: 6000 },
+      text: ' Betonage morgen.',
+      tokens: [{ text: ' Betonage', p: 0.5 }],
+    },
+  ],
+}
+
+describe('Transcription', () => {
+  describe('Result Parsing', () => {
+    it('should convert whisper.cpp output into timed segments', () => {
+      const result = parseWhisperCppJson(whisperCppOutput)
+
+      expect(result.text).toBe('Die Schalung für die Stützen steht. Betonage morgen.')
+      expect(result.language).toBe('de')
+      expect(result.segments).toEqual([
+        { start: 0, end: 4.2, text: 'Die Schalung für die Stützen steht.', confidence: 0.85 },
+        { start: 4.2, end: 6, text: 'Betonage morgen.', confidence: 0.5 },
+      ])
+      expect(result.confidence).toBe(0.745)
+    })
+
+    it('should derive segment confidence from Whisper log probabilities', () => {
+      const result = parseWhisperVerboseJson({
+        text: ' Erdarbeiten abgeschlossen. ',
+        language: 'german',
+        segments: [{ start: 0, end: 2.5, text: ' Erdarbeiten abgeschlossen.', avg_logprob: -0.1, no_speech_prob: 0.02 }],
+      })
+
+      expect(result.text).toBe('Erdarbeiten abgeschlossen.')
+      expect(result.segments[0].confidence).toBeCloseTo(Math.exp(-0.1) * 0.98, 3)
+      expect(result.confidence).toBe(result.segments[0].confidence)
+    })
+
+    it('should return no confidence when no segment has one', () => {
+      expect(getOverallConfidence([{ start: 0, end: 1, text: 'Hallo', confidence: null }])).toBeNull()
+      expect(getOverallConfidence([])).toBeNull()
+    })
+  })
+
+  describe('Local Provider', () => {
+    let binDir: string
+
+    beforeAll(() => {
+      binDir = mkdtempSync(join(tmpdir(), 'transcription-test-'))
+      // ffmpeg-Ersatz: kopiert die Eingabe (-i) auf die letzte Argumentposition
+      writeFileSync(join(binDir, 'ffmpeg'), '#!/bin/sh\nwhile [ "$1" != "-i" ]; do shift; done\nin="$2"\nfor last; do :; done\ncp "$in" "$last"\n')
+      // whisper.cpp-Ersatz: schreibt eine feste JSON-Ausgabe nach <-of>.json
+      writeFileSync(join(binDir, 'output.json'), JSON.stringify(whisperCppOutput))
+      writeFileSync(
+        join(binDir, 'whisper'),
+        `#!/bin/sh\nwhile [ "$1" != "-of" ]; do shift; done\ncp "${join(binDir, 'output.json')}" "$2.json"\n`,
+      )
+      chmodSync(join(binDir, 'ffmpeg'), 0o755)
+      chmodSync(join(binDir, 'whisper'), 0o755)
+    })
+
+    afterAll(() => {
+      rmSync(binDir, { recursive: true, force: true })
+    })
+
+    it('should transcribe via ffmpeg and whisper.cpp', async () => {
+      const provider = new LocalWhisperProvider({
+        binary: join(binDir, 'whisper'),
+        model: 'ggml-base.bin',
+        ffmpeg: join(binDir, 'ffmpeg'),
+      })
+
+      const result = await provider.transcribe(Buffer.from('webm'), { fileName: 'a.webm', mimeType: 'audio/webm', language: 'de' })
+
+      expect(result.provider).toBe('whisper.cpp')
+      expect(result.segments).toHaveLength(2)
+    })
+
+    it('should report failing binaries as transcription errors', async () => {
+      const provider = new LocalWhisperProvider({
+        binary: join(binDir, 'fehlt'),
+        model: 'ggml-base.bin',
+        ffmpeg: join(binDir, 'ffmpeg'),
+      })
+
+      await expect(provider.transcribe(Buffer.from('webm'), { fileName: 'a.webm', mimeType: 'audio/webm' }))
+        .rejects.toBeInstanceOf(TranscriptionError)
+    })
+  })
+
+  describe('OpenAI Provider', () => {
+    it('should request segment timestamps from the Whisper API', async () => {
+      let request: any
+      const client = {
+        audio: {
+          transcriptions: {
+            create: async (params: any) => {
+              request = params
+              return { text: 'Rohrleitung verlegt.', language: 'german', segments: [
+                { start: 0, end: 1.5, text: 'Rohrleitung verlegt.', avg_logprob: -0.2, no_speech_prob: 0 },
+              ] }
+            },
+          },
+        },
+      }
+
+      const provider = new OpenAiWhisperProvider(client as any, 'whisper-1')
+      const result = await provider.transcribe(Buffer.from('webm'), { fileName: 'a.webm', mimeType: 'audio/webm', language: 'de' })
+
+      expect(request.response_format).toBe('verbose_json')
+      expect(request.timestamp_granularities).toEqual(['segment'])
+      expect(request.language).toBe('de')
+      expect(result.provider).toBe('openai-whisper')
+      expect(result.segments[0].end).toBe(1.5)
+    })
+
+    it('should reject audio above the API limit', async () => {
+      const provider = new OpenAiWhisperProvider({} as any)
+
+      await expect(provider.transcribe(Buffer.alloc(26 * 1024 * 1024), { fileName: 'a.webm', mimeType: 'audio/webm' }))
+        .rejects.toMatchObject({ status: 413 })
+    })
+  })
+
+  describe('Provider Selection', () => {
+    it('should fail with 503 when no provider is configured', () => {
+      const env = { ...process.env }
+      delete process.env.TRANSCRIPTION_PROVIDER
+      delete process.env.OPENAI_API_KEY
+      delete process.env.WHISPER_CPP_MODEL
+      try {
+        expect(() => getTranscriptionProvider()).toThrow(expect.objectContaining({ status: 503 }))
+      } finally {
+        process.env = env
+      }
+    })
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import lohr from '../../shared/wartungsanweisungen/hochwasserschutz-lohr.json'
+import {
+  berechneNaechsteFaelligkeit,
+  getMassnahmenMitTurnus,
+  parseTurnus,
+  splitTurnus,
+  wartungsanweisungImportSchema,
+} from '../wartung'
+import { getWartungsstatus } from '../floodProtection'
+
+describe('Wartung', () => {
+  describe('Turnus', () => {
+    it('should split at commas outside of parentheses', () => {
+      expect(splitTurnus('Jährlich, 2 x jährlich (Frühjahr, Herbst), Jährlich')).toEqual([
+        'Jährlich',
+        '2 x jährlich (Frühjahr, Herbst)',
+        'Jährlich',
+      ])
+    })
+
+    it('should derive interval, fixed months and flood follow-up', () => {
+      expect(parseTurnus('Jährlich im Oktober')).toEqual({ intervallMonate: 12, monate: [10], nachHochwasser: false })
+      expect(parseTurnus('Vierteljährlich und nach Hochwasser')).toEqual({ intervallMonate: 3, monate: [], nachHochwasser: true })
+      expect(parseTurnus('2 x jährlich (Frühjahr, Herbst)')).toEqual({ intervallMonate: 6, monate: [4, 10], nachHochwasser: false })
+      expect(parseTurnus('1 x jährlich und nach Hochwasser, Jährlich im Oktober')).toEqual({ intervallMonate: 12, monate: [], nachHochwasser: true })
+      expect(parseTurnus('')).toEqual({ intervallMonate: null, monate: [], nachHochwasser: false })
+    })
+
+    it('should assign the stated Turnus to each measure in order', () => {
+      const [kupfermuehle] = lohr.bauteile
+
+      expect(getMassnahmenMitTurnus(kupfermuehle.wartung).map((eintrag) => eintrag.turnus)).toEqual([
+        'Vierteljährlich und nach Hochwasser',
+        'Jährlich im Oktober',
+        'Vierteljährlich und nach Hochwasser',
+        'Vierteljährlich und nach Hochwasser',
+      ])
+      expect(getMassnahmenMitTurnus({ massnahme: 'Sichtkontrolle', turnus: 'Jährlich, nach Hochwasser' })).toEqual([
+        { massnahme: 'Sichtkontrolle', turnus: 'Jährlich, nach Hochwasser' },
+      ])
+    })
+  })
+
+  describe('Fälligkeit', () => {
+    it('should schedule fixed months at the end of the next matching month', () => {
+      const oktober = { intervallMonate: 12, monate: [10] }
+      const termin = berechneNaechsteFaelligkeit(oktober, new Date(2025, 6, 14))
+
+      expect(termin).toEqual(new Date(2025, 9, 31, 23, 59, 59, 999))
+      expect(berechneNaechsteFaelligkeit(oktober, termin!)).toEqual(new Date(2026, 9, 31, 23, 59, 59, 999))
+      expect(berechneNaechsteFaelligkeit({ intervallMonate: 6, monate: [4, 10] }, new Date(2025, 4, 10)))
+        .toEqual(new Date(2025, 9, 31, 23, 59, 59, 999))
+    })
+
+    it('should add intervals and clamp to the end of shorter months', () => {
+      expect(berechneNaechsteFaelligkeit({ intervallMonate: 3, monate: [] }, new Date(2025, 10, 30)))
+        .toEqual(new Date(2026, 1, 28, 23, 59, 59, 999))
+      expect(berechneNaechsteFaelligkeit({ intervallMonate: null, monate: [] }, new Date())).toBeNull()
+    })
+
+    it('should classify due, overdue and planned tasks', () => {
+      const now = new Date(2025, 6, 14)
+
+      expect(getWartungsstatus({ status: 'offen', faelligAm: new Date(2025, 6, 1) }, now)).toBe('ueberfaellig')
+      expect(getWartungsstatus({ status: 'offen', faelligAm: new Date(2025, 6, 20) }, now)).toBe('faellig')
+      expect(getWartungsstatus({ status: 'offen', faelligAm: new Date(2025, 9, 31) }, now)).toBe('geplant')
+      expect(getWartungsstatus({ status: 'erledigt', faelligAm: new Date(2025, 6, 1) }, now)).toBe('erledigt')
+    })
+  })
+
+  describe('Import', () => {
+    it('should accept the Lohr maintenance instruction', () => {
+      const daten = wartungsanweisungImportSchema.parse(lohr)
+
+      expect(daten.bauteile).toHaveLength(12)
+      expect(daten.footer?.anlage).toBe('Anlage 3.1')
+    })
+
+    it('should reject instructions without components', () => {
+      expect(() => wartungsanweisungImportSchema.parse({ title: 'Leer', bauteile: [] })).toThrow()
+    })
+  })
+})
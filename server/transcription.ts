@@ -0,0 +1,228 @@
+import { execFile } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { promisify } from "util";
+import OpenAI, { toFile } from "openai";
+
+const execFileAsync = promisify(execFile);
+
+// Obergrenze der OpenAI-Transkriptions-API
+export const MAX_TRANSCRIPTION_BYTES = 25 * 1024 * 1024;
+const LOCAL_TRANSCRIPTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface TranscriptionSegment {
+  start: number; // Sekunden
+  end: number;
+  text: string;
+  confidence: number | null;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language: string | null;
+  confidence: number | null;
+  segments: TranscriptionSegment[];
+  provider: string;
+}
+
+export interface TranscriptionOptions {
+  fileName: string;
+  mimeType: string;
+  language?: string;
+}
+
+/**
+ * Spracherkennung für Audioaufnahmen der Baustelle
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string, public status: number = 502) {
+    super(message);
+  }
+}
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Gesamtkonfidenz als nach Segmentdauer gewichtetes Mittel
+ */
+export function getOverallConfidence(segments: TranscriptionSegment[]): number | null {
+  let weighted = 0;
+  let total = 0;
+  for (const segment of segments) {
+    if (segment.confidence === null) continue;
+    const weight = Math.max(segment.end - segment.start, 0.01);
+    weighted += segment.confidence * weight;
+    total += weight;
+  }
+  return total > 0 ? round(weighted / total) : null;
+}
+
+/**
+ * Wandelt eine verbose_json-Antwort von Whisper um; die Konfidenz ergibt sich aus avg_logprob und no_speech_prob
+ */
+export function parseWhisperVerboseJson(response: {
+  text: string;
+  language?: string;
+  segments?: Array<{ start: number; end: number; text: string; avg_logprob: number; no_speech_prob: number }>;
+}): Omit<TranscriptionResult, "provider"> {
+  const segments = (response.segments || []).map((segment) => ({
+    start: round(segment.start, 2),
+    end: round(segment.end, 2),
+    text: segment.text.trim(),
+    confidence: round(Math.min(1, Math.exp(segment.avg_logprob)) * (1 - segment.no_speech_prob)),
+  }));
+
+  return {
+    text: response.text.trim(),
+    language: response.language || null,
+    confidence: getOverallConfidence(segments),
+    segments,
+  };
+}
+
+/**
+ * Wandelt die JSON-Ausgabe von whisper.cpp (-ojf) um; die Konfidenz ist die mittlere Token-Wahrscheinlichkeit
+ */
+export function parseWhisperCppJson(output: {
+  result?: { language?: string };
+  transcription?: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: Array<{ text: string; p?: number }>;
+  }>;
+}): Omit<TranscriptionResult, "provider"> {
+  const segments = (output.transcription || [])
+    .map((segment) => {
+      // Sondertokens wie [_BEG_] oder [_TT_50] fließen nicht in die Konfidenz ein
+      const probabilities = (segment.tokens || [])
+        .filter((token) => typeof token.p === "number" && !/^\[_.*\]$/.test(token.text.trim()))
+        .map((token) => token.p as number);
+      return {
+        start: round(segment.offsets.from / 1000, 2),
+        end: round(segment.offsets.to / 1000, 2),
+        text: segment.text.trim(),
+        confidence: probabilities.length
+          ? round(probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length)
+          : null,
+      };
+    })
+    .filter((segment) => segment.text);
+
+  return {
+    text: segments.map((segment) => segment.text).join(" "),
+    language: output.result?.language || null,
+    confidence: getOverallConfidence(segments),
+    segments,
+  };
+}
+
+/**
+ * OpenAI Whisper API (whisper-1) mit Segment-Zeitstempeln
+ */
+export class OpenAiWhisperProvider implements TranscriptionProvider {
+  readonly name = "openai-whisper";
+
+  constructor(
+    private client: OpenAI = new OpenAI({ apiKey: process.env.OPENAI_API_KEY }),
+    private model: string = process.env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1",
+  ) {}
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    if (audio.length > MAX_TRANSCRIPTION_BYTES) {
+      throw new TranscriptionError("Audio file is too large for transcription (max. 25 MB)", 413);
+    }
+
+    try {
+      const response = await this.client.audio.transcriptions.create({
+        file: await toFile(audio, options.fileName, { type: options.mimeType }),
+        model: this.model,
+        language: options.language,
+        response_format: "verbose_json",
+        timestamp_granularities: ["segment"],
+      });
+      return { ...parseWhisperVerboseJson(response), provider: this.name };
+    } catch (error) {
+      throw new TranscriptionError(`Whisper API error: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+}
+
+/**
+ * Offline-Erkennung mit whisper.cpp; die Aufnahme wird vorher per ffmpeg in 16-kHz-Mono-WAV umgewandelt
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name = "whisper.cpp";
+
+  constructor(
+    private config: { binary: string; model: string; ffmpeg: string } = {
+      binary: process.env.WHISPER_CPP_BINARY || "whisper-cli",
+      model: process.env.WHISPER_CPP_MODEL || "",
+      ffmpeg: process.env.FFMPEG_BINARY || "ffmpeg",
+    },
+  ) {}
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const workDir = await mkdtemp(join(tmpdir(), "bau-structura-transcription-"));
+    try {
+      const input = join(workDir, "input");
+      const wav = join(workDir, "audio.wav");
+      const outputBase = join(workDir, "transcript");
+      await writeFile(input, audio);
+
+      await execFileAsync(
+        this.config.ffmpeg,
+        ["-y", "-loglevel", "error", "-i", input, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wav],
+        { timeout: LOCAL_TRANSCRIPTION_TIMEOUT_MS },
+      );
+      await execFileAsync(
+        this.config.binary,
+        ["-m", this.config.model, "-f", wav, "-l", options.language || "auto", "-ojf", "-of", outputBase, "-np"],
+        { timeout: LOCAL_TRANSCRIPTION_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 },
+      );
+
+      const output = JSON.parse(await readFile(`${outputBase}.json`, "utf8"));
+      return { ...parseWhisperCppJson(output), provider: this.name };
+    } catch (error) {
+      throw new TranscriptionError(`Local transcription failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+let transcriptionProvider: TranscriptionProvider | null = null;
+
+/**
+ * Liefert den über TRANSCRIPTION_PROVIDER ("openai" oder "local") gewählten Anbieter;
+ * ohne Angabe OpenAI, falls ein API-Key vorhanden ist, sonst whisper.cpp, falls ein Modell konfiguriert ist
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!transcriptionProvider) {
+    const configured = process.env.TRANSCRIPTION_PROVIDER
+      || (process.env.OPENAI_API_KEY ? "openai" : process.env.WHISPER_CPP_MODEL ? "local" : "");
+
+    if (configured === "openai") {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new TranscriptionError("OPENAI_API_KEY is required for transcription", 503);
+      }
+      transcriptionProvider = new OpenAiWhisperProvider();
+    } else if (configured === "local") {
+      if (!process.env.WHISPER_CPP_MODEL) {
+        throw new TranscriptionError("WHISPER_CPP_MODEL is required for local transcription", 503);
+      }
+      transcriptionProvider = new LocalWhisperProvider();
+    } else {
+      throw new TranscriptionError("No transcription provider configured", 503);
+    }
+  }
+  return transcriptionProvider;
+}
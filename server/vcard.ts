@@ -0,0 +1,230 @@
+import type { z } from "zod";
+import {
+  insertCompanyContactSchema,
+  insertCustomerContactSchema,
+  insertPersonSchema,
+  type InsertCompanyContact,
+  type InsertCustomerContact,
+  type InsertPerson,
+} from "@shared/schema";
+
+export class VCardError extends Error {}
+
+export type VCardVersion = "3.0" | "4.0";
+
+/**
+ * Kontaktdaten, wie sie zwischen vCard und Personen bzw. Ansprechpartnern übertragen werden
+ */
+export interface VCardContact {
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  organization: string | null;
+  department: string | null;
+  title: string | null;
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+function escapeValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/([,;])/g, "\\$1");
+}
+
+// Strukturierte Werte (N, ORG) sind durch nicht maskierte Semikolons getrennt
+function splitStructured(value: string): string[] {
+  return value.split(/(?<!\\);/).map((part) => unescapeValue(part).trim());
+}
+
+/**
+ * Teilt einen einzelnen Namen in Vor- und Nachname; "Muster, Max" wird wie "Max Muster" behandelt
+ */
+export function splitName(name: string): { firstName: string; lastName: string } {
+  const trimmed = name.trim().replace(/\s+/g, " ");
+  if (trimmed.includes(",")) {
+    const [lastName, firstName] = trimmed.split(",", 2).map((part) => part.trim());
+    return { firstName, lastName };
+  }
+  const index = trimmed.lastIndexOf(" ");
+  return index === -1
+    ? { firstName: "", lastName: trimmed }
+    : { firstName: trimmed.slice(0, index), lastName: trimmed.slice(index + 1) };
+}
+
+/**
+ * Liest alle Karten einer .vcf-Datei (vCard 3.0 und 4.0); Karten ohne Namen werden übersprungen
+ */
+export function parseVCards(text: string): VCardContact[] {
+  // Gefaltete Zeilen beginnen mit Leerzeichen oder Tab und gehören zur vorherigen Zeile
+  const lines = text.replace(/^\uFEFF/, "").replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const contacts: VCardContact[] = [];
+  let card: Map<string, Array<{ params: string[]; value: string }>> | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const [property, ...params] = line.slice(0, separator).split(";");
+    // Gruppenpräfixe wie "item1.EMAIL" ignorieren
+    const name = property.replace(/^[^.]*\./, "").toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === "BEGIN" && value.trim().toUpperCase() === "VCARD") {
+      card = new Map();
+    } else if (name === "END" && value.trim().toUpperCase() === "VCARD" && card) {
+      const contact = toContact(card);
+      if (contact) contacts.push(contact);
+      card = null;
+    } else if (card) {
+      card.set(name, [...(card.get(name) ?? []), { params: params.map((param) => param.toUpperCase()), value }]);
+    }
+  }
+
+  if (contacts.length === 0 && !/BEGIN:VCARD/i.test(text)) {
+    throw new VCardError("Die Datei enthält keine vCard");
+  }
+  return contacts;
+}
+
+// Bevorzugt Einträge mit PREF bzw. TYPE=pref, sonst den ersten
+function preferred(entries: Array<{ params: string[]; value: string }> | undefined): string | null {
+  if (!entries?.length) return null;
+  const entry = entries.find((candidate) => candidate.params.some((param) => /PREF/.test(param))) ?? entries[0];
+  const value = unescapeValue(entry.value).trim();
+  return value.replace(/^(tel|mailto):/i, "") || null;
+}
+
+function toContact(card: Map<string, Array<{ params: string[]; value: string }>>): VCardContact | null {
+  const [lastName = "", firstName = ""] = card.get("N") ? splitStructured(card.get("N")![0].value) : [];
+  const fullName = preferred(card.get("FN"));
+  const name = lastName || firstName ? { firstName, lastName } : fullName ? splitName(fullName) : null;
+  if (!name) return null;
+
+  const [organization = "", department = ""] = card.get("ORG") ? splitStructured(card.get("ORG")![0].value) : [];
+  return {
+    ...name,
+    email: preferred(card.get("EMAIL")),
+    phone: preferred(card.get("TEL")),
+    organization: organization || null,
+    department: department || null,
+    title: preferred(card.get("TITLE")) ?? preferred(card.get("ROLE")),
+  };
+}
+
+// Zeilen werden nach 75 Oktetten gefaltet, ohne UTF-8-Zeichen zu trennen
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  for (const char of Array.from(line)) {
+    if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Erzeugt eine vCard 3.0 (Standard für Outlook und ältere Telefone) oder 4.0
+ */
+export function toVCard(contact: VCardContact, version: VCardVersion = "3.0"): string {
+  const fullName = [contact.firstName, contact.lastName].filter(Boolean).join(" ");
+  const lines = [
+    "BEGIN:VCARD",
+    `VERSION:${version}`,
+    `N:${escapeValue(contact.lastName)};${escapeValue(contact.firstName)};;;`,
+    `FN:${escapeValue(fullName)}`,
+  ];
+  if (contact.organization) {
+    lines.push(`ORG:${escapeValue(contact.organization)}${contact.department ? `;${escapeValue(contact.department)}` : ""}`);
+  }
+  if (contact.title) lines.push(`TITLE:${escapeValue(contact.title)}`);
+  if (contact.email) {
+    lines.push(version === "4.0" ? `EMAIL;TYPE=work:${contact.email}` : `EMAIL;TYPE=INTERNET,WORK:${contact.email}`);
+  }
+  if (contact.phone) {
+    lines.push(version === "4.0"
+      ? `TEL;VALUE=uri;TYPE="work,voice":tel:${contact.phone.replace(/[^\d+]/g, "")}`
+      : `TEL;TYPE=WORK,VOICE:${escapeValue(contact.phone)}`);
+  }
+  lines.push("END:VCARD");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export const VCARD_IMPORT_TARGETS = ["persons", "customer-contacts", "company-contacts"] as const;
+export type VCardImportTarget = (typeof VCARD_IMPORT_TARGETS)[number];
+
+/**
+ * Legt Personen bzw. Ansprechpartner aus vCards an; Karten mit bereits vorhandener E-Mail werden übersprungen.
+ * Personen werden über ORG einer aktiven Firma zugeordnet, Ansprechpartner dem gewählten Kunden bzw. der Firma
+ */
+export async function importVCards(target: VCardImportTarget, contacts: VCardContact[], parentId?: number) {
+  const { storage } = await import("./storage");
+  const skipped: Array<{ name: string; reason: string }> = [];
+  const fullName = (contact: VCardContact) => [contact.firstName, contact.lastName].filter(Boolean).join(" ");
+
+  let existing: Array<{ email: string | null }>;
+  if (target === "persons") {
+    existing = await storage.getPersons();
+  } else {
+    const parent = parentId && (target === "customer-contacts" ? await storage.getCustomer(parentId) : await storage.getCompany(parentId));
+    if (!parent) {
+      throw new VCardError(target === "customer-contacts" ? "Unbekannter Kunde" : "Unbekannte Firma");
+    }
+    existing = target === "customer-contacts" ? await storage.getCustomerContacts(parent.id) : await storage.getCompanyContacts(parent.id);
+  }
+  const emails = new Set(existing.map((entry) => entry.email?.toLowerCase()).filter(Boolean));
+  const companies = target === "persons" ? await storage.getCompanies(false) : [];
+  const companyIds = new Map(companies.map((company) => [company.name.trim().toLowerCase(), company.id]));
+
+  const fresh = contacts.filter((contact) => {
+    const email = contact.email?.toLowerCase();
+    if (email && emails.has(email)) {
+      skipped.push({ name: fullName(contact), reason: "E-Mail bereits vorhanden" });
+      return false;
+    }
+    if (email) emails.add(email);
+    return true;
+  });
+
+  // Karten, die das Eingabeschema verletzen, werden mit der Meldung übersprungen
+  const parseAll = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, toInput: (contact: VCardContact) => unknown): T[] =>
+    fresh.flatMap((contact) => {
+      const parsed = schema.safeParse(toInput(contact));
+      if (!parsed.success) {
+        skipped.push({ name: fullName(contact), reason: parsed.error.issues.map((issue) => issue.message).join(", ") });
+        return [];
+      }
+      return [parsed.data];
+    });
+  const contactInput = (contact: VCardContact) => ({
+    name: fullName(contact),
+    email: contact.email,
+    phone: contact.phone,
+    department: contact.department,
+    position: contact.title,
+  });
+
+  let created: unknown[];
+  if (target === "persons") {
+    const records: InsertPerson[] = parseAll(insertPersonSchema, (contact) => ({
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      email: contact.email,
+      phone: contact.phone,
+      position: contact.title,
+      companyId: contact.organization ? companyIds.get(contact.organization.trim().toLowerCase()) ?? null : null,
+    }));
+    created = await storage.createPersons(records);
+  } else if (target === "customer-contacts") {
+    const records: InsertCustomerContact[] = parseAll(insertCustomerContactSchema, (contact) => ({ ...contactInput(contact), customerId: parentId }));
+    created = await storage.createCustomerContacts(records);
+  } else {
+    const records: InsertCompanyContact[] = parseAll(insertCompanyContactSchema, (contact) => ({ ...contactInput(contact), companyId: parentId }));
+    created = await storage.createCompanyContacts(records);
+  }
+  return { created: created.length, skipped };
+}
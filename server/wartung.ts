@@ -0,0 +1,362 @@
+import { z } from "zod";
+import type { Wartungsaufgabe, WartungsaufgabeWithDetails, Wartungsanweisung, Wartungsplan } from "@shared/schema";
+import { WARTUNG_VORLAUF_TAGE } from "./floodProtection";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Frist für die Kontrolle der Bauteile mit Turnus "nach Hochwasser" nach Ende eines Einsatzes
+export const NACH_HOCHWASSER_FRIST_TAGE = 14;
+
+const MONATSNAMEN: Record<string, number> = {
+  januar: 1, februar: 2, märz: 3, maerz: 3, april: 4, mai: 5, juni: 6, juli: 7, august: 8,
+  september: 9, oktober: 10, november: 11, dezember: 12,
+  frühjahr: 4, fruehjahr: 4, sommer: 7, herbst: 10, winter: 1,
+};
+
+/**
+ * Aufbau einer Wartungs- und Unterhaltungsanweisung (wie die Anlage 3.1 des Hochwasserschutzes Lohr)
+ */
+export const wartungsanweisungImportSchema = z.object({
+  title: z.string().min(1),
+  version: z.union([z.string(), z.number()]).optional(),
+  bauteile: z.array(z.object({
+    nummer: z.coerce.number().int(),
+    bauteil: z.string().min(1),
+    bauteilbeschreibung: z.string().optional(),
+    unterlagen: z.string().optional(),
+    wartung: z.object({
+      massnahme: z.union([z.string(), z.array(z.string())]),
+      turnus: z.union([z.string(), z.array(z.string())]).optional(),
+      zuständigkeit: z.string().optional(),
+    }),
+  })).min(1),
+  sonstige_bauwerke: z.object({
+    ohne_wartung: z.array(z.record(z.unknown())).optional(),
+  }).passthrough().optional(),
+  footer: z.object({
+    title: z.string().optional(),
+    anlage: z.string().optional(),
+    aufgestellt: z.string().optional(),
+  }).passthrough().optional(),
+});
+
+export type WartungsanweisungDaten = z.infer<typeof wartungsanweisungImportSchema>;
+
+export interface Turnusregel {
+  intervallMonate: number | null;
+  monate: number[];
+  nachHochwasser: boolean;
+}
+
+/**
+ * Trennt eine Turnus-Angabe an Kommas außerhalb von Klammern: "Jährlich, 2 x jährlich (Frühjahr, Herbst)"
+ */
+export function splitTurnus(turnus: string): string[] {
+  const teile: string[] = [];
+  let tiefe = 0;
+  let aktuell = "";
+  for (const zeichen of turnus) {
+    if (zeichen === "(") tiefe++;
+    if (zeichen === ")") tiefe = Math.max(0, tiefe - 1);
+    if (zeichen === "," && tiefe === 0) {
+      teile.push(aktuell);
+      aktuell = "";
+    } else {
+      aktuell += zeichen;
+    }
+  }
+  teile.push(aktuell);
+  return teile.map((teil) => teil.trim()).filter(Boolean);
+}
+
+function parseTurnusTeil(text: string): Turnusregel {
+  const t = text.toLowerCase();
+  let intervallMonate: number | null = null;
+
+  const alleJahre = t.match(/alle\s+(\d+)\s+jahre/);
+  const alleMonate = t.match(/alle\s+(\d+)\s+monate/);
+  if (alleJahre) intervallMonate = parseInt(alleJahre[1]) * 12;
+  else if (alleMonate) intervallMonate = parseInt(alleMonate[1]);
+  else if (t.includes("vierteljährlich") || t.includes("quartal")) intervallMonate = 3;
+  else if (t.includes("halbjährlich") || /(2\s*x|zweimal)\s*jährlich/.test(t)) intervallMonate = 6;
+  else if (t.includes("monatlich")) intervallMonate = 1;
+  else if (t.includes("jährlich")) intervallMonate = 12;
+
+  const monate = Array.from(new Set(
+    (t.match(/[a-zäöü]+/g) || []).map((wort) => MONATSNAMEN[wort]).filter((monat): monat is number => !!monat),
+  )).sort((a, b) => a - b);
+
+  return { intervallMonate, monate, nachHochwasser: /nach\s+(einem\s+)?hochwasser/.test(t) };
+}
+
+/**
+ * Leitet aus einer Turnus-Angabe Intervall, feste Monate und die Kontrolle nach Hochwasser ab.
+ * Bei mehreren Angaben gilt die häufigste (kürzestes Intervall); "nach Hochwasser" gilt, sobald es eine Angabe enthält.
+ */
+export function parseTurnus(turnus: string | null | undefined): Turnusregel {
+  const teile = splitTurnus(turnus || "").map(parseTurnusTeil);
+  const haeufigste = teile
+    .filter((teil) => teil.intervallMonate !== null)
+    .sort((a, b) => a.intervallMonate! - b.intervallMonate!)[0];
+
+  return {
+    intervallMonate: haeufigste?.intervallMonate ?? null,
+    monate: haeufigste?.monate ?? [],
+    nachHochwasser: teile.some((teil) => teil.nachHochwasser),
+  };
+}
+
+/**
+ * Ordnet jeder Maßnahme eines Bauteils ihren Turnus zu. Die Turnus-Angaben stehen in der Reihenfolge der Maßnahmen;
+ * fehlende Angaben übernehmen die letzte, eine einzelne Maßnahme erhält alle Angaben.
+ */
+export function getMassnahmenMitTurnus(
+  wartung: WartungsanweisungDaten["bauteile"][number]["wartung"],
+): { massnahme: string; turnus: string }[] {
+  const massnahmen = (Array.isArray(wartung.massnahme) ? wartung.massnahme : [wartung.massnahme])
+    .map((massnahme) => massnahme.trim())
+    .filter(Boolean);
+  const turnusListe = Array.isArray(wartung.turnus) ? wartung.turnus : splitTurnus(wartung.turnus || "");
+
+  if (massnahmen.length === 1) {
+    return [{ massnahme: massnahmen[0], turnus: turnusListe.join(", ") }];
+  }
+  return massnahmen.map((massnahme, index) => ({
+    massnahme,
+    turnus: turnusListe[index] ?? turnusListe[turnusListe.length - 1] ?? "",
+  }));
+}
+
+function tagesende(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+/**
+ * Nächster Fälligkeitstermin ab dem Basiszeitpunkt: Ende des nächsten festen Monats nach der Basis
+ * bzw. Basis plus Intervall; null, wenn der Turnus keinen Termin ergibt
+ */
+export function berechneNaechsteFaelligkeit(
+  regel: { intervallMonate: number | null; monate: number[] | null },
+  basis: Date,
+): Date | null {
+  const monate = regel.monate || [];
+  if (monate.length > 0) {
+    const kandidaten = [basis.getFullYear(), basis.getFullYear() + 1].flatMap((jahr) =>
+      monate.map((monat) => new Date(jahr, monat, 0, 23, 59, 59, 999)),
+    );
+    return kandidaten.filter((termin) => termin > basis).sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+  }
+
+  if (regel.intervallMonate) {
+    const ziel = new Date(basis.getFullYear(), basis.getMonth() + regel.intervallMonate, 1);
+    const letzterTag = new Date(ziel.getFullYear(), ziel.getMonth() + 1, 0).getDate();
+    return tagesende(new Date(ziel.getFullYear(), ziel.getMonth(), Math.min(basis.getDate(), letzterTag)));
+  }
+
+  return null;
+}
+
+/**
+ * Legt für einen Plan mit festem Turnus die nächste offene Aufgabe an, falls noch keine existiert
+ */
+async function stelleTurnusAufgabeSicher(plan: Wartungsplan, basis: Date): Promise<Wartungsaufgabe | null> {
+  const { storage } = await import("./storage");
+  const offen = await storage.getWartungsaufgaben({ planId: plan.id, status: "offen", anlass: "turnus" });
+  if (offen.length > 0) return null;
+
+  const faelligAm = berechneNaechsteFaelligkeit(plan, basis);
+  if (!faelligAm) return null;
+  return await storage.createWartungsaufgabe({ planId: plan.id, faelligAm, anlass: "turnus" });
+}
+
+/**
+ * Übernimmt eine Wartungsanweisung: Bauteile werden über ihre Nummer, Maßnahmen über ihren Text abgeglichen,
+ * sodass ein erneuter Import (neue Version) die Historie erledigter Aufgaben erhält. Entfallene Maßnahmen werden deaktiviert.
+ */
+export async function importiereWartungsanweisung(
+  daten: WartungsanweisungDaten,
+  optionen: { schutzanlage?: string; projectId?: number | null } = {},
+  now: Date = new Date(),
+): Promise<{ anweisung: Wartungsanweisung; bauteile: number; plaeneNeu: number; plaeneDeaktiviert: number; aufgabenNeu: number }> {
+  const { storage } = await import("./storage");
+
+  const anweisung = await storage.upsertWartungsanweisung({
+    schutzanlage: optionen.schutzanlage || daten.footer?.title || daten.title,
+    titel: daten.title,
+    version: daten.version !== undefined ? String(daten.version) : null,
+    anlage: daten.footer?.anlage ?? null,
+    aufgestelltVon: daten.footer?.aufgestellt ?? null,
+    sonstigeBauwerke: daten.sonstige_bauwerke?.ohne_wartung ?? [],
+    projectId: optionen.projectId,
+  });
+
+  const vorhandenePlaene = await storage.getWartungsplaene({ anweisungId: anweisung.id });
+  const uebernommen = new Set<number>();
+  const ergebnis = { anweisung, bauteile: 0, plaeneNeu: 0, plaeneDeaktiviert: 0, aufgabenNeu: 0 };
+
+  for (const eintrag of daten.bauteile) {
+    const bauteil = await storage.upsertWartungsbauteil({
+      anweisungId: anweisung.id,
+      nummer: eintrag.nummer,
+      standort: eintrag.bauteil,
+      beschreibung: eintrag.bauteilbeschreibung ?? null,
+      unterlagen: eintrag.unterlagen ?? null,
+      zustaendigkeit: eintrag.wartung.zuständigkeit ?? null,
+    });
+    ergebnis.bauteile++;
+
+    const massnahmen = getMassnahmenMitTurnus(eintrag.wartung);
+    for (let position = 0; position < massnahmen.length; position++) {
+      const { massnahme, turnus } = massnahmen[position];
+      const regel = parseTurnus(turnus);
+      const planDaten = { position, massnahme, turnus: turnus || null, ...regel, aktiv: true };
+
+      const vorhanden = vorhandenePlaene.find((plan) =>
+        plan.bauteilId === bauteil.id && plan.massnahme === massnahme && !uebernommen.has(plan.id)
+      );
+      const plan = vorhanden
+        ? await storage.updateWartungsplan(vorhanden.id, planDaten)
+        : await storage.createWartungsplan({ bauteilId: bauteil.id, ...planDaten });
+      uebernommen.add(plan.id);
+      if (!vorhanden) ergebnis.plaeneNeu++;
+
+      if (await stelleTurnusAufgabeSicher(plan, now)) ergebnis.aufgabenNeu++;
+    }
+  }
+
+  for (const plan of vorhandenePlaene.filter((plan) => plan.aktiv && !uebernommen.has(plan.id))) {
+    await storage.updateWartungsplan(plan.id, { aktiv: false });
+    ergebnis.plaeneDeaktiviert++;
+  }
+
+  return ergebnis;
+}
+
+/**
+ * Schließt eine Wartungsaufgabe ab und legt bei Turnus-Aufgaben den Folgetermin an.
+ * Feste Monate zählen ab dem bisherigen Termin (eine verfrühte Oktober-Wartung gilt für diesen Oktober), Intervalle ab der Durchführung.
+ */
+export async function erledigeWartungsaufgabe(
+  aufgabe: WartungsaufgabeWithDetails,
+  erledigung: { userId: string; bemerkung?: string | null; erledigtAm?: Date },
+): Promise<{ aufgabe: Wartungsaufgabe; folgeaufgabe: Wartungsaufgabe | null }> {
+  const { storage } = await import("./storage");
+  const erledigtAm = erledigung.erledigtAm ?? new Date();
+
+  const erledigt = await storage.updateWartungsaufgabe(aufgabe.id, {
+    status: "erledigt",
+    erledigtAm,
+    erledigtVon: erledigung.userId,
+    bemerkung: erledigung.bemerkung ?? null,
+  });
+
+  let folgeaufgabe: Wartungsaufgabe | null = null;
+  const plan = await storage.getWartungsplan(aufgabe.planId);
+  if (aufgabe.anlass === "turnus" && plan?.aktiv) {
+    const basis = plan.monate?.length && aufgabe.faelligAm > erledigtAm ? aufgabe.faelligAm : erledigtAm;
+    folgeaufgabe = await stelleTurnusAufgabeSicher(plan, basis);
+  }
+
+  return { aufgabe: erledigt, folgeaufgabe };
+}
+
+/**
+ * Legt nach einem Hochwasser für alle Maßnahmen mit Turnus "nach Hochwasser" eine Kontrollaufgabe an
+ */
+export async function erzeugeNachHochwasserAufgaben(
+  optionen: { anweisungId?: number; anlassAm?: Date } = {},
+): Promise<Wartungsaufgabe[]> {
+  const { storage } = await import("./storage");
+  const anlassAm = optionen.anlassAm ?? new Date();
+  const faelligAm = tagesende(new Date(anlassAm.getTime() + NACH_HOCHWASSER_FRIST_TAGE * DAY_MS));
+
+  const plaene = (await storage.getWartungsplaene({ anweisungId: optionen.anweisungId, nurAktiv: true }))
+    .filter((plan) => plan.nachHochwasser);
+  const offen = new Set(
+    (await storage.getWartungsaufgaben({ anweisungId: optionen.anweisungId, status: "offen", anlass: "hochwasser" }))
+      .map((aufgabe) => aufgabe.planId),
+  );
+
+  const angelegt: Wartungsaufgabe[] = [];
+  for (const plan of plaene.filter((plan) => !offen.has(plan.id))) {
+    angelegt.push(await storage.createWartungsaufgabe({ planId: plan.id, faelligAm, anlass: "hochwasser" }));
+  }
+  return angelegt;
+}
+
+/**
+ * Versendet je Wartungsanweisung eine Sammel-Erinnerung über bald fällige und (einmalig) überfällige Aufgaben
+ * an die hinterlegten Empfänger und den Projektleiter
+ */
+export async function sendWartungsErinnerungen(
+  vorlaufTage: number = WARTUNG_VORLAUF_TAGE,
+  now: Date = new Date(),
+): Promise<{ gesendet: number; aufgaben: number; ohneEmpfaenger: number; fehlgeschlagen: number }> {
+  const { storage } = await import("./storage");
+  const { emailService } = await import("./emailService");
+  const ergebnis = { gesendet: 0, aufgaben: 0, ohneEmpfaenger: 0, fehlgeschlagen: 0 };
+
+  const aufgaben = await storage.getWartungsaufgabenZurErinnerung(now, new Date(now.getTime() + vorlaufTage * DAY_MS));
+  const nachAnweisung = new Map<number, WartungsaufgabeWithDetails[]>();
+  for (const aufgabe of aufgaben) {
+    nachAnweisung.set(aufgabe.anweisungId, [...(nachAnweisung.get(aufgabe.anweisungId) || []), aufgabe]);
+  }
+
+  for (const [anweisungId, anweisungAufgaben] of Array.from(nachAnweisung.entries())) {
+    const anweisung = await storage.getWartungsanweisung(anweisungId);
+    const empfaenger = new Set<string>(anweisung?.erinnerungEmpfaenger || []);
+    if (anweisung?.projectId) {
+      const project = await storage.getProject(anweisung.projectId);
+      const manager = project?.managerId ? await storage.getUser(project.managerId) : undefined;
+      if (manager?.email) empfaenger.add(manager.email);
+    }
+
+    if (empfaenger.size === 0) {
+      ergebnis.ohneEmpfaenger += anweisungAufgaben.length;
+      continue;
+    }
+
+    let versendet = false;
+    for (const to of Array.from(empfaenger)) {
+      try {
+        await emailService.sendWartungsErinnerungEmail({
+          to,
+          schutzanlage: anweisung!.schutzanlage,
+          aufgaben: anweisungAufgaben.map((aufgabe) => ({
+            bauteil: `Bauteil ${aufgabe.bauteilNummer} – ${aufgabe.bauteilBeschreibung || aufgabe.bauteilStandort}`,
+            massnahme: aufgabe.massnahme,
+            faelligAm: aufgabe.faelligAm,
+            ueberfaellig: aufgabe.faelligAm < now,
+          })),
+        });
+        versendet = true;
+        ergebnis.gesendet++;
+      } catch (error) {
+        console.error(`Wartungs-Erinnerung an ${to} fehlgeschlagen:`, error);
+        ergebnis.fehlgeschlagen++;
+      }
+    }
+
+    if (!versendet) continue;
+    for (const aufgabe of anweisungAufgaben) {
+      await storage.updateWartungsaufgabe(aufgabe.id, {
+        erinnerungGesendetAm: aufgabe.erinnerungGesendetAm ?? now,
+        ueberfaelligGemeldetAm: aufgabe.faelligAm < now ? now : aufgabe.ueberfaelligGemeldetAm,
+      });
+      ergebnis.aufgaben++;
+    }
+  }
+
+  return ergebnis;
+}
+
+/**
+ * Startet die periodische Prüfung auf fällige Wartungsaufgaben
+ */
+export function startWartungsErinnerungen(intervalMs: number = 60 * 60 * 1000): NodeJS.Timeout {
+  return setInterval(() => {
+    sendWartungsErinnerungen().catch((error) => {
+      console.error("Fehler beim Versand der Wartungs-Erinnerungen:", error);
+    });
+  }, intervalMs);
+}
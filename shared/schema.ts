@@ -10,6 +10,8 @@ import {
   decimal,
   boolean,
   pgEnum,
+  uniqueIndex,
+  date,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -30,6 +32,7 @@ export const sessions = pgTable(
 export const userRoleEnum = pgEnum("user_role", ["admin", "manager", "user"]);
 export const projectStatusEnum = pgEnum("project_status", ["planning", "active", "completed", "cancelled"]);
 export const licenseTypeEnum = pgEnum("license_type", ["basic", "professional", "enterprise"]);
+export const projectMemberRoleEnum = pgEnum("project_member_role", ["bauleiter", "polier", "gast"]);
 
 // User storage table (required for Replit Auth)
 export const users = pgTable("users", {
@@ -48,6 +51,11 @@ export const users = pgTable("users", {
   sftpAccessLevel: integer("sftp_access_level").default(0),
   emailNotificationsEnabled: boolean("email_notifications_enabled").default(true),
   floodProtectionCertified: boolean("flood_protection_certified").default(false),
+  licenseType: licenseTypeEnum("license_type").default("basic"),
+  paymentStatus: varchar("payment_status", { length: 50 }).default("unpaid"),
+  lastPaymentDate: timestamp("last_payment_date"),
+  licenseExpiresAt: timestamp("license_expires_at"),
+  stripeCustomerId: varchar("stripe_customer_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -74,6 +82,18 @@ export const projects = pgTable("projects", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Project members table (Projektteam; the project manager is implicitly Bauleiter)
+export const projectMembers = pgTable("project_members", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  role: projectMemberRoleEnum("role").default("gast").notNull(),
+  addedBy: varchar("added_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_project_members_project_user").on(table.projectId, table.userId),
+]);
+
 // Customers table
 export const customers = pgTable("customers", {
   id: serial("id").primaryKey(),
@@ -84,7 +104,9 @@ export const customers = pgTable("customers", {
   houseNumber: varchar("house_number", { length: 20 }),
   postalCode: varchar("postal_code", { length: 10 }),
   city: varchar("city", { length: 100 }),
+  country: varchar("country", { length: 2 }).notNull().default("DE"), // ISO 3166-1 alpha-2
   contactPersonId: integer("contact_person_id").references(() => persons.id),
+  archivedAt: timestamp("archived_at"), // soft delete; archived customers are hidden from selection lists
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -99,7 +121,9 @@ export const companies = pgTable("companies", {
   houseNumber: varchar("house_number", { length: 20 }),
   postalCode: varchar("postal_code", { length: 10 }),
   city: varchar("city", { length: 100 }),
+  country: varchar("country", { length: 2 }).notNull().default("DE"), // ISO 3166-1 alpha-2
   website: varchar("website", { length: 255 }),
+  archivedAt: timestamp("archived_at"), // soft delete; archived companies are hidden from selection lists
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -117,11 +141,38 @@ export const persons = pgTable("persons", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Contacts (Ansprechpartner) of a customer
+export const customerContacts = pgTable("customer_contacts", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  email: varchar("email", { length: 255 }),
+  phone: varchar("phone", { length: 50 }),
+  department: varchar("department", { length: 100 }),
+  position: varchar("position", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Contacts (Ansprechpartner) of a company
+export const companyContacts = pgTable("company_contacts", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  email: varchar("email", { length: 255 }),
+  phone: varchar("phone", { length: 50 }),
+  department: varchar("department", { length: 100 }),
+  position: varchar("position", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Attachments table
 export const attachments = pgTable("attachments", {
   id: serial("id").primaryKey(),
   fileName: varchar("file_name", { length: 255 }).notNull(),
   filePath: text("file_path").notNull(),
+  contentHash: varchar("content_hash", { length: 64 }),
   fileSize: integer("file_size"),
   mimeType: varchar("mime_type", { length: 100 }),
   projectId: integer("project_id").references(() => projects.id),
@@ -130,6 +181,9 @@ export const attachments = pgTable("attachments", {
   gpsLongitude: decimal("gps_longitude", { precision: 11, scale: 8 }),
   sftpPath: text("sftp_path"),
   sftpBackupStatus: varchar("sftp_backup_status", { length: 50 }).default("pending"),
+  sftpBackupAttempts: integer("sftp_backup_attempts").default(0).notNull(),
+  sftpBackupError: text("sftp_backup_error"),
+  sftpBackupNextAttemptAt: timestamp("sftp_backup_next_attempt_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -153,13 +207,24 @@ export const audioRecords = pgTable("audio_records", {
   id: serial("id").primaryKey(),
   fileName: varchar("file_name", { length: 255 }).notNull(),
   filePath: text("file_path").notNull(),
+  contentHash: varchar("content_hash", { length: 64 }),
   duration: integer("duration"),
   description: text("description"),
   transcription: text("transcription"),
+  transcriptionConfidence: decimal("transcription_confidence", { precision: 4, scale: 3 }),
+  transcriptionLanguage: varchar("transcription_language", { length: 10 }),
+  transcriptionSegments: jsonb("transcription_segments"),
+  transcriptionProvider: varchar("transcription_provider", { length: 50 }),
+  transcribedAt: timestamp("transcribed_at"),
   projectId: integer("project_id").references(() => projects.id),
   recordedBy: varchar("recorded_by").references(() => users.id),
   gpsLatitude: decimal("gps_latitude", { precision: 10, scale: 8 }),
   gpsLongitude: decimal("gps_longitude", { precision: 11, scale: 8 }),
+  sftpPath: text("sftp_path"),
+  sftpBackupStatus: varchar("sftp_backup_status", { length: 50 }).default("pending"),
+  sftpBackupAttempts: integer("sftp_backup_attempts").default(0).notNull(),
+  sftpBackupError: text("sftp_backup_error"),
+  sftpBackupNextAttemptAt: timestamp("sftp_backup_next_attempt_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -169,12 +234,19 @@ export const photos = pgTable("photos", {
   id: serial("id").primaryKey(),
   fileName: varchar("file_name", { length: 255 }).notNull(),
   filePath: text("file_path").notNull(),
+  contentHash: varchar("content_hash", { length: 64 }),
+  thumbnailPath: text("thumbnail_path"),
   projectId: integer("project_id").references(() => projects.id),
   takenBy: varchar("taken_by").references(() => users.id),
   gpsLatitude: decimal("gps_latitude", { precision: 10, scale: 8 }),
   gpsLongitude: decimal("gps_longitude", { precision: 11, scale: 8 }),
   metadata: jsonb("metadata"),
   description: text("description"),
+  sftpPath: text("sftp_path"),
+  sftpBackupStatus: varchar("sftp_backup_status", { length: 50 }).default("pending"),
+  sftpBackupAttempts: integer("sftp_backup_attempts").default(0).notNull(),
+  sftpBackupError: text("sftp_backup_error"),
+  sftpBackupNextAttemptAt: timestamp("sftp_backup_next_attempt_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -247,11 +319,534 @@ export const licensePlans = pgTable("license_plans", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Versioned checklist templates (Vorlagen); one active version per checklist type
+export const checklistVorlagen = pgTable(
+  "checklist_vorlagen",
+  {
+    id: serial("id").primaryKey(),
+    typ: varchar("typ", { length: 50 }).notNull(), // "hochwasser" | "uebung" | "starkregen"
+    version: integer("version").notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    beschreibung: text("beschreibung"),
+    aktiv: boolean("aktiv").default(true).notNull(),
+    erstelltVon: varchar("erstellt_von").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_checklist_vorlagen_typ_version").on(table.typ, table.version)],
+);
+
+// Tasks of a checklist template, ordered per section
+export const checklistVorlageAufgaben = pgTable("checklist_vorlage_aufgaben", {
+  id: serial("id").primaryKey(),
+  vorlageId: integer("vorlage_id").references(() => checklistVorlagen.id, { onDelete: "cascade" }).notNull(),
+  abschnitt: varchar("abschnitt", { length: 20 }).notNull(), // "beginn" | "ende"
+  nr: integer("nr").notNull(),
+  beschreibung: text("beschreibung").notNull(),
+  pflichtfelder: jsonb("pflichtfelder").$type<string[]>().default([]).notNull(), // "datum" | "pegelstand" | "foto" | "bemerkung"
+});
+
+// Flood protection checklists table
+export const checklists = pgTable("checklists", {
+  id: serial("id").primaryKey(),
+  titel: varchar("titel", { length: 255 }).notNull(),
+  typ: varchar("typ", { length: 50 }).notNull(),
+  status: varchar("status", { length: 50 }).default("offen").notNull(),
+  beschreibung: text("beschreibung"),
+  beginnPegelstandCm: integer("beginn_pegelstand_cm"),
+  projectId: integer("project_id").references(() => projects.id),
+  vorlageId: integer("vorlage_id").references(() => checklistVorlagen.id, { onDelete: "set null" }),
+  erstelltVon: varchar("erstellt_von").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Flood protection checklist tasks table
+export const checklistTasks = pgTable("checklist_tasks", {
+  id: serial("id").primaryKey(),
+  checklistId: integer("checklist_id").references(() => checklists.id, { onDelete: "cascade" }).notNull(),
+  abschnitt: varchar("abschnitt", { length: 20 }).notNull(), // "beginn" | "ende"
+  nr: integer("nr").notNull(),
+  beschreibung: text("beschreibung").notNull(),
+  erledigt: boolean("erledigt").default(false).notNull(),
+  erledigtAm: timestamp("erledigt_am"),
+  erledigtVon: varchar("erledigt_von").references(() => users.id),
+  datum: varchar("datum", { length: 10 }), // YYYY-MM-DD
+  pegelstandCm: integer("pegelstand_cm"),
+  bemerkung: text("bemerkung"),
+  fotoIds: jsonb("foto_ids").$type<number[]>().default([]),
+  pflichtfelder: jsonb("pflichtfelder").$type<string[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Gate valve (Absperrschieber) registry table
+export const absperrschieber = pgTable("absperrschieber", {
+  id: serial("id").primaryKey(),
+  nummer: integer("nummer").notNull(),
+  bezeichnung: varchar("bezeichnung", { length: 255 }).notNull(),
+  lage: text("lage"),
+  beschreibung: text("beschreibung"),
+  nennweiteDn: integer("nennweite_dn"),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  projectId: integer("project_id").references(() => projects.id),
+  pruefintervallTage: integer("pruefintervall_tage").default(90).notNull(),
+  aktiv: boolean("aktiv").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Gate valve inspection log table
+export const schieberPruefungen = pgTable("schieber_pruefungen", {
+  id: serial("id").primaryKey(),
+  absperrschieberId: integer("absperrschieber_id").references(() => absperrschieber.id, { onDelete: "cascade" }).notNull(),
+  geprueftAm: timestamp("geprueft_am").defaultNow().notNull(),
+  prueferId: varchar("pruefer_id").references(() => users.id),
+  funktionsstatus: varchar("funktionsstatus", { length: 50 }).notNull(), // "funktionsfähig" | "wartung_erforderlich" | "defekt"
+  fotoIds: jsonb("foto_ids").$type<number[]>().default([]),
+  bemerkung: text("bemerkung"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Flood damage case (Schadensfall) table
+export const schadensfaelle = pgTable("schadensfaelle", {
+  id: serial("id").primaryKey(),
+  absperrschieberId: integer("absperrschieber_id").references(() => absperrschieber.id, { onDelete: "set null" }),
+  projectId: integer("project_id").references(() => projects.id),
+  checklistId: integer("checklist_id").references(() => checklists.id, { onDelete: "set null" }),
+  problemBeschreibung: text("problem_beschreibung").notNull(),
+  status: varchar("status", { length: 50 }).default("gemeldet").notNull(), // "gemeldet" | "in_bearbeitung" | "behoben" | "geprueft"
+  prioritaet: integer("prioritaet").default(3).notNull(), // 1 (sehr hoch) bis 5 (niedrig)
+  gemeldetVon: varchar("gemeldet_von").references(() => users.id),
+  gemeldetAm: timestamp("gemeldet_am").defaultNow().notNull(),
+  zugewiesenAn: integer("zugewiesen_an").references(() => persons.id, { onDelete: "set null" }),
+  massnahme: text("massnahme"),
+  fotoIdsVorher: jsonb("foto_ids_vorher").$type<number[]>().default([]),
+  fotoIdsNachher: jsonb("foto_ids_nachher").$type<number[]>().default([]),
+  behobenAm: timestamp("behoben_am"),
+  geprueftAm: timestamp("geprueft_am"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Damage case timeline table (status changes, assignments, comments)
+export const schadensfallEreignisse = pgTable("schadensfall_ereignisse", {
+  id: serial("id").primaryKey(),
+  schadensfallId: integer("schadensfall_id").references(() => schadensfaelle.id, { onDelete: "cascade" }).notNull(),
+  typ: varchar("typ", { length: 50 }).notNull(), // "status" | "zuweisung" | "prioritaet" | "massnahme" | "foto" | "kommentar"
+  vonStatus: varchar("von_status", { length: 50 }),
+  nachStatus: varchar("nach_status", { length: 50 }),
+  text: text("text"),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Dike section (Deichabschnitt) table, defined by a kilometre range
+export const deichabschnitte = pgTable("deichabschnitte", {
+  id: serial("id").primaryKey(),
+  bezeichnung: varchar("bezeichnung", { length: 255 }).notNull(),
+  kmVon: decimal("km_von", { precision: 8, scale: 3 }).notNull(),
+  kmBis: decimal("km_bis", { precision: 8, scale: 3 }).notNull(),
+  beschreibung: text("beschreibung"),
+  projectId: integer("project_id").references(() => projects.id),
+  mindestBesetzung: integer("mindest_besetzung").default(1).notNull(),
+  aktiv: boolean("aktiv").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Dike watch shift (Deichwache) table
+export const deichwachen = pgTable("deichwachen", {
+  id: serial("id").primaryKey(),
+  deichabschnittId: integer("deichabschnitt_id").references(() => deichabschnitte.id, { onDelete: "cascade" }).notNull(),
+  personId: integer("person_id").references(() => persons.id, { onDelete: "cascade" }).notNull(),
+  checklistId: integer("checklist_id").references(() => checklists.id, { onDelete: "set null" }),
+  schichtBeginn: timestamp("schicht_beginn").notNull(),
+  schichtEnde: timestamp("schicht_ende").notNull(),
+  bemerkung: text("bemerkung"),
+  erinnerungGesendetAm: timestamp("erinnerung_gesendet_am"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Water-level gauge (Pegel) with alarm thresholds for Meldestufe 1–4
+export const pegel = pgTable("pegel", {
+  id: serial("id").primaryKey(),
+  bezeichnung: varchar("bezeichnung", { length: 255 }).notNull(),
+  // Kennung der Messstelle im Datenfeed, z.B. die Pegelnummer des Hochwassernachrichtendienstes
+  pegelnummer: varchar("pegelnummer", { length: 50 }).notNull().unique(),
+  gewaesser: varchar("gewaesser", { length: 255 }),
+  projectId: integer("project_id").references(() => projects.id),
+  meldestufe1Cm: integer("meldestufe_1_cm"),
+  meldestufe2Cm: integer("meldestufe_2_cm"),
+  meldestufe3Cm: integer("meldestufe_3_cm"),
+  meldestufe4Cm: integer("meldestufe_4_cm"),
+  quelle: varchar("quelle", { length: 20 }).default("datei").notNull(), // "datei" | "http" | "manuell"
+  quelleUrl: text("quelle_url"),
+  abrufintervallMinuten: integer("abrufintervall_minuten").default(15).notNull(),
+  alarmEmpfaenger: jsonb("alarm_empfaenger").$type<string[]>().default([]),
+  aktuelleMeldestufe: integer("aktuelle_meldestufe").default(0).notNull(),
+  letzterWasserstandCm: integer("letzter_wasserstand_cm"),
+  letzteMessungAm: timestamp("letzte_messung_am"),
+  letzterAbrufAm: timestamp("letzter_abruf_am"),
+  letzterAbrufFehler: text("letzter_abruf_fehler"),
+  aktiv: boolean("aktiv").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Gauge readings (time series)
+export const pegelMesswerte = pgTable(
+  "pegel_messwerte",
+  {
+    id: serial("id").primaryKey(),
+    pegelId: integer("pegel_id").references(() => pegel.id, { onDelete: "cascade" }).notNull(),
+    gemessenAm: timestamp("gemessen_am").notNull(),
+    wasserstandCm: integer("wasserstand_cm").notNull(),
+    quelle: varchar("quelle", { length: 20 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_pegel_messwerte_zeitpunkt").on(table.pegelId, table.gemessenAm)],
+);
+
+// Alarms raised when a gauge reaches a higher Meldestufe
+export const pegelAlarme = pgTable("pegel_alarme", {
+  id: serial("id").primaryKey(),
+  pegelId: integer("pegel_id").references(() => pegel.id, { onDelete: "cascade" }).notNull(),
+  meldestufe: integer("meldestufe").notNull(),
+  vorherigeMeldestufe: integer("vorherige_meldestufe").notNull(),
+  wasserstandCm: integer("wasserstand_cm").notNull(),
+  gemessenAm: timestamp("gemessen_am").notNull(),
+  checklistId: integer("checklist_id").references(() => checklists.id, { onDelete: "set null" }),
+  benachrichtigt: integer("benachrichtigt").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Maintenance instructions (Wartungs- und Unterhaltungsanweisung) per protection scheme
+export const wartungsanweisungen = pgTable("wartungsanweisungen", {
+  id: serial("id").primaryKey(),
+  schutzanlage: varchar("schutzanlage", { length: 255 }).notNull().unique(),
+  titel: varchar("titel", { length: 500 }).notNull(),
+  version: varchar("version", { length: 50 }),
+  anlage: varchar("anlage", { length: 100 }),
+  aufgestelltVon: varchar("aufgestellt_von", { length: 255 }),
+  projectId: integer("project_id").references(() => projects.id),
+  sonstigeBauwerke: jsonb("sonstige_bauwerke").$type<Record<string, unknown>[]>().default([]),
+  erinnerungEmpfaenger: jsonb("erinnerung_empfaenger").$type<string[]>().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Components (Bauteile) listed in a maintenance instruction
+export const wartungsbauteile = pgTable(
+  "wartungsbauteile",
+  {
+    id: serial("id").primaryKey(),
+    anweisungId: integer("anweisung_id").references(() => wartungsanweisungen.id, { onDelete: "cascade" }).notNull(),
+    nummer: integer("nummer").notNull(),
+    standort: text("standort").notNull(),
+    beschreibung: text("beschreibung"),
+    unterlagen: text("unterlagen"),
+    zustaendigkeit: text("zustaendigkeit"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_wartungsbauteile_nummer").on(table.anweisungId, table.nummer)],
+);
+
+// Recurring maintenance measure of a component, derived from the stated Turnus
+export const wartungsplaene = pgTable("wartungsplaene", {
+  id: serial("id").primaryKey(),
+  bauteilId: integer("bauteil_id").references(() => wartungsbauteile.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").default(0).notNull(),
+  massnahme: text("massnahme").notNull(),
+  turnus: varchar("turnus", { length: 255 }),
+  intervallMonate: integer("intervall_monate"),
+  monate: jsonb("monate").$type<number[]>().default([]), // feste Monate (1-12), z.B. "Jährlich im Oktober"
+  nachHochwasser: boolean("nach_hochwasser").default(false).notNull(),
+  aktiv: boolean("aktiv").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Individual maintenance deadlines generated from the plans
+export const wartungsaufgaben = pgTable("wartungsaufgaben", {
+  id: serial("id").primaryKey(),
+  planId: integer("plan_id").references(() => wartungsplaene.id, { onDelete: "cascade" }).notNull(),
+  faelligAm: timestamp("faellig_am").notNull(),
+  anlass: varchar("anlass", { length: 20 }).default("turnus").notNull(), // "turnus" | "hochwasser"
+  status: varchar("status", { length: 20 }).default("offen").notNull(), // "offen" | "erledigt"
+  erledigtAm: timestamp("erledigt_am"),
+  erledigtVon: varchar("erledigt_von").references(() => users.id),
+  bemerkung: text("bemerkung"),
+  erinnerungGesendetAm: timestamp("erinnerung_gesendet_am"),
+  ueberfaelligGemeldetAm: timestamp("ueberfaellig_gemeldet_am"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Inspection templates (SiGeKo, trench, equipment), versioned per type like the checklist templates
+export const inspectionTemplates = pgTable(
+  "inspection_templates",
+  {
+    id: serial("id").primaryKey(),
+    type: varchar("type", { length: 50 }).notNull(), // "sigeko" | "excavation" | "equipment"
+    version: integer("version").notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description"),
+    requiredSignatures: jsonb("required_signatures").$type<string[]>().default([]).notNull(), // "inspector" | "contractor" | "client"
+    active: boolean("active").default(true).notNull(),
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_inspection_templates_type_version").on(table.type, table.version)],
+);
+
+// Check items of an inspection template, grouped into sections
+export const inspectionTemplateItems = pgTable("inspection_template_items", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").references(() => inspectionTemplates.id, { onDelete: "cascade" }).notNull(),
+  section: varchar("section", { length: 255 }).notNull(),
+  position: integer("position").notNull(),
+  question: text("question").notNull(),
+  photoRequirement: varchar("photo_requirement", { length: 20 }).default("none").notNull(), // "none" | "always" | "on_fail"
+});
+
+// Project inspections built from a template; locked once completed
+export const inspections = pgTable("inspections", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  templateId: integer("template_id").references(() => inspectionTemplates.id, { onDelete: "set null" }),
+  type: varchar("type", { length: 50 }).notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  status: varchar("status", { length: 20 }).default("draft").notNull(), // "draft" | "completed"
+  location: text("location"),
+  notes: text("notes"),
+  inspectedAt: timestamp("inspected_at").defaultNow().notNull(),
+  inspectorId: varchar("inspector_id").references(() => users.id),
+  requiredSignatures: jsonb("required_signatures").$type<string[]>().default([]).notNull(),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Answered check items of an inspection (copied from the template)
+export const inspectionItems = pgTable("inspection_items", {
+  id: serial("id").primaryKey(),
+  inspectionId: integer("inspection_id").references(() => inspections.id, { onDelete: "cascade" }).notNull(),
+  section: varchar("section", { length: 255 }).notNull(),
+  position: integer("position").notNull(),
+  question: text("question").notNull(),
+  photoRequirement: varchar("photo_requirement", { length: 20 }).default("none").notNull(),
+  result: varchar("result", { length: 10 }), // "pass" | "fail" | "na"
+  comment: text("comment"),
+  photoIds: jsonb("photo_ids").$type<number[]>().default([]).notNull(),
+  answeredBy: varchar("answered_by").references(() => users.id),
+  answeredAt: timestamp("answered_at"),
+});
+
+// Handwritten signatures (PNG data URL) per signing role of an inspection
+export const inspectionSignatures = pgTable(
+  "inspection_signatures",
+  {
+    id: serial("id").primaryKey(),
+    inspectionId: integer("inspection_id").references(() => inspections.id, { onDelete: "cascade" }).notNull(),
+    role: varchar("role", { length: 50 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    image: text("image").notNull(),
+    signedBy: varchar("signed_by").references(() => users.id),
+    signedAt: timestamp("signed_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("UQ_inspection_signatures_role").on(table.inspectionId, table.role)],
+);
+
+// Project phases and milestones (Bauzeitenplan); milestones have no duration, only planned/actual end
+export const projectPhases = pgTable("project_phases", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  kind: varchar("kind", { length: 20 }).default("phase").notNull(), // phase, milestone
+  name: varchar("name", { length: 255 }).notNull(),
+  position: integer("position").default(0).notNull(),
+  weight: integer("weight").default(1).notNull(),
+  progress: integer("progress").default(0).notNull(), // 0-100
+  plannedStart: timestamp("planned_start"),
+  plannedEnd: timestamp("planned_end").notNull(),
+  actualStart: timestamp("actual_start"),
+  actualEnd: timestamp("actual_end"),
+  // IDs of phases/milestones of the same project that must be finished first
+  dependsOn: jsonb("depends_on").$type<number[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Staff and equipment rows of a construction diary entry
+export type DiaryStaffEntry = { company: string; trade?: string | null; count: number; hours?: number | null };
+export type DiaryEquipmentEntry = { name: string; count: number; hours?: number | null };
+
+// Construction diary (Bautagebuch): one entry per project and day, locked after the Bauleiter signed it off
+export const constructionDiaryEntries = pgTable(
+  "construction_diary_entries",
+  {
+    id: serial("id").primaryKey(),
+    projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+    entryDate: date("entry_date", { mode: "string" }).notNull(),
+    weather: varchar("weather", { length: 50 }), // sunny, cloudy, rain, snow, frost, storm
+    temperatureMin: integer("temperature_min"),
+    temperatureMax: integer("temperature_max"),
+    weatherNotes: text("weather_notes"),
+    staff: jsonb("staff").$type<DiaryStaffEntry[]>().default([]).notNull(),
+    equipment: jsonb("equipment").$type<DiaryEquipmentEntry[]>().default([]).notNull(),
+    workPerformed: text("work_performed"),
+    deliveries: text("deliveries"),
+    hindrances: text("hindrances"), // Behinderungen/Unterbrechungen (VOB/B § 6)
+    instructions: text("instructions"), // Anordnungen des Auftraggebers
+    incidents: text("incidents"),
+    photoIds: jsonb("photo_ids").$type<number[]>().default([]).notNull(),
+    audioRecordIds: jsonb("audio_record_ids").$type<number[]>().default([]).notNull(),
+    authorId: varchar("author_id").references(() => users.id),
+    status: varchar("status", { length: 20 }).default("draft").notNull(), // draft, signed
+    signedBy: varchar("signed_by").references(() => users.id),
+    signerName: varchar("signer_name", { length: 255 }),
+    signature: text("signature"), // PNG data URL
+    signedAt: timestamp("signed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_construction_diary_project_date").on(table.projectId, table.entryDate)],
+);
+
+// Project cost entries: committed = order placed, not yet invoiced; actual = invoiced
+export const projectCosts = pgTable("project_costs", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  category: varchar("category", { length: 30 }).notNull(), // material, labor, subcontractor, equipment, fees, other
+  status: varchar("status", { length: 20 }).default("actual").notNull(), // committed, actual
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
+  description: text("description"),
+  invoiceNumber: varchar("invoice_number", { length: 100 }),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  costDate: date("cost_date", { mode: "string" }).notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Construction defects (Mängel); located by GPS and/or a pin on an uploaded plan (pinX/pinY relative 0-1)
+export const defects = pgTable(
+  "defects",
+  {
+    id: serial("id").primaryKey(),
+    projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+    number: integer("number").notNull(), // running number within the project
+    title: varchar("title", { length: 255 }).notNull(),
+    description: text("description"),
+    status: varchar("status", { length: 20 }).default("open").notNull(), // open, in_progress, resolved, accepted
+    companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
+    deadline: date("deadline", { mode: "string" }),
+    latitude: decimal("latitude", { precision: 10, scale: 8 }),
+    longitude: decimal("longitude", { precision: 11, scale: 8 }),
+    planAttachmentId: integer("plan_attachment_id").references(() => attachments.id, { onDelete: "set null" }),
+    pinX: decimal("pin_x", { precision: 6, scale: 5 }),
+    pinY: decimal("pin_y", { precision: 6, scale: 5 }),
+    photoIds: jsonb("photo_ids").$type<number[]>().default([]).notNull(),
+    createdBy: varchar("created_by").references(() => users.id),
+    reminderSentAt: timestamp("reminder_sent_at"),
+    overdueNotifiedAt: timestamp("overdue_notified_at"),
+    resolvedAt: timestamp("resolved_at"),
+    acceptedAt: timestamp("accepted_at"),
+    acceptedBy: varchar("accepted_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_defects_project_number").on(table.projectId, table.number)],
+);
 
+// Defect history (status changes, reminders, comments)
+export const defectEvents = pgTable("defect_events", {
+  id: serial("id").primaryKey(),
+  defectId: integer("defect_id").references(() => defects.id, { onDelete: "cascade" }).notNull(),
+  type: varchar("type", { length: 20 }).notNull(), // status, reminder, comment
+  fromStatus: varchar("from_status", { length: 20 }),
+  toStatus: varchar("to_status", { length: 20 }),
+  text: text("text"),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Frozen content of an acceptance protocol: defects not yet accepted and results of the project's inspections
+export type AcceptanceSnapshot = {
+  defects: {
+    number: number;
+    title: string;
+    description: string | null;
+    status: string;
+    companyName: string | null;
+    deadline: string | null;
+    location: string | null;
+  }[];
+  inspections: {
+    id: number;
+    title: string;
+    type: string;
+    status: string;
+    inspectedAt: string;
+    pass: number;
+    fail: number;
+    na: number;
+    open: number;
+    failedItems: { question: string; comment: string | null }[];
+  }[];
+  createdAt: string;
+};
+
+// Acceptance protocol (Abnahmeprotokoll); signing freezes it as a PDF whose SHA-256 is stored for later verification
+export const acceptanceProtocols = pgTable("acceptance_protocols", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  status: varchar("status", { length: 20 }).default("draft").notNull(), // draft, signed
+  result: varchar("result", { length: 30 }).default("accepted_with_reservations").notNull(), // accepted, accepted_with_reservations, refused
+  acceptanceDate: date("acceptance_date", { mode: "string" }).notNull(),
+  participants: text("participants"),
+  remarks: text("remarks"),
+  snapshot: jsonb("snapshot").$type<AcceptanceSnapshot>().notNull(),
+  customerName: varchar("customer_name", { length: 255 }),
+  customerSignature: text("customer_signature"), // PNG data URL
+  customerSignedAt: timestamp("customer_signed_at"),
+  contractorName: varchar("contractor_name", { length: 255 }),
+  contractorSignature: text("contractor_signature"), // PNG data URL
+  contractorSignedAt: timestamp("contractor_signed_at"),
+  pdfKey: text("pdf_key"),
+  pdfHash: varchar("pdf_hash", { length: 64 }),
+  signedAt: timestamp("signed_at"),
+  signedBy: varchar("signed_by").references(() => users.id),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Subcontractor assignments (Nachunternehmer); a company may work on a project in several trades
+export const projectCompanies = pgTable(
+  "project_companies",
+  {
+    id: serial("id").primaryKey(),
+    projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+    companyId: integer("company_id").references(() => companies.id, { onDelete: "cascade" }).notNull(),
+    trade: varchar("trade", { length: 100 }).notNull(), // Gewerk, e.g. Kanalbau, Elektro
+    contractValue: decimal("contract_value", { precision: 12, scale: 2 }),
+    contactPersonId: integer("contact_person_id").references(() => persons.id, { onDelete: "set null" }),
+    startDate: date("start_date", { mode: "string" }), // on site from
+    endDate: date("end_date", { mode: "string" }), // on site until
+    notes: text("notes"),
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_project_companies_project_company_trade").on(table.projectId, table.companyId, table.trade)],
+);
 
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   projects: many(projects),
+  projectMemberships: many(projectMembers),
   attachments: many(attachments),
   audioRecords: many(audioRecords),
   photos: many(photos),
@@ -273,6 +868,24 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
   locations: many(projectLocations),
   audioRecords: many(audioRecords),
   photos: many(photos),
+  members: many(projectMembers),
+  phases: many(projectPhases),
+  diaryEntries: many(constructionDiaryEntries),
+  costs: many(projectCosts),
+  defects: many(defects),
+  acceptanceProtocols: many(acceptanceProtocols),
+  companies: many(projectCompanies),
+}));
+
+export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMembers.projectId],
+    references: [projects.id],
+  }),
+  user: one(users, {
+    fields: [projectMembers.userId],
+    references: [users.id],
+  }),
 }));
 
 export const customersRelations = relations(customers, ({ one, many }) => ({
@@ -281,10 +894,15 @@ export const customersRelations = relations(customers, ({ one, many }) => ({
     references: [persons.id],
   }),
   projects: many(projects),
+  contacts: many(customerContacts),
 }));
 
 export const companiesRelations = relations(companies, ({ many }) => ({
   persons: many(persons),
+  contacts: many(companyContacts),
+  costs: many(projectCosts),
+  defects: many(defects),
+  projects: many(projectCompanies),
 }));
 
 export const personsRelations = relations(persons, ({ one, many }) => ({
@@ -295,6 +913,323 @@ export const personsRelations = relations(persons, ({ one, many }) => ({
   customers: many(customers),
 }));
 
+export const customerContactsRelations = relations(customerContacts, ({ one }) => ({
+  customer: one(customers, {
+    fields: [customerContacts.customerId],
+    references: [customers.id],
+  }),
+}));
+
+export const companyContactsRelations = relations(companyContacts, ({ one }) => ({
+  company: one(companies, {
+    fields: [companyContacts.companyId],
+    references: [companies.id],
+  }),
+}));
+
+export const checklistVorlagenRelations = relations(checklistVorlagen, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [checklistVorlagen.erstelltVon],
+    references: [users.id],
+  }),
+  aufgaben: many(checklistVorlageAufgaben),
+  checklists: many(checklists),
+}));
+
+export const checklistVorlageAufgabenRelations = relations(checklistVorlageAufgaben, ({ one }) => ({
+  vorlage: one(checklistVorlagen, {
+    fields: [checklistVorlageAufgaben.vorlageId],
+    references: [checklistVorlagen.id],
+  }),
+}));
+
+export const checklistsRelations = relations(checklists, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [checklists.projectId],
+    references: [projects.id],
+  }),
+  vorlage: one(checklistVorlagen, {
+    fields: [checklists.vorlageId],
+    references: [checklistVorlagen.id],
+  }),
+  creator: one(users, {
+    fields: [checklists.erstelltVon],
+    references: [users.id],
+  }),
+  tasks: many(checklistTasks),
+}));
+
+export const checklistTasksRelations = relations(checklistTasks, ({ one }) => ({
+  checklist: one(checklists, {
+    fields: [checklistTasks.checklistId],
+    references: [checklists.id],
+  }),
+}));
+
+export const absperrschieberRelations = relations(absperrschieber, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [absperrschieber.projectId],
+    references: [projects.id],
+  }),
+  pruefungen: many(schieberPruefungen),
+}));
+
+export const schieberPruefungenRelations = relations(schieberPruefungen, ({ one }) => ({
+  absperrschieber: one(absperrschieber, {
+    fields: [schieberPruefungen.absperrschieberId],
+    references: [absperrschieber.id],
+  }),
+  pruefer: one(users, {
+    fields: [schieberPruefungen.prueferId],
+    references: [users.id],
+  }),
+}));
+
+export const schadensfaelleRelations = relations(schadensfaelle, ({ one, many }) => ({
+  absperrschieber: one(absperrschieber, {
+    fields: [schadensfaelle.absperrschieberId],
+    references: [absperrschieber.id],
+  }),
+  project: one(projects, {
+    fields: [schadensfaelle.projectId],
+    references: [projects.id],
+  }),
+  checklist: one(checklists, {
+    fields: [schadensfaelle.checklistId],
+    references: [checklists.id],
+  }),
+  melder: one(users, {
+    fields: [schadensfaelle.gemeldetVon],
+    references: [users.id],
+  }),
+  zustaendig: one(persons, {
+    fields: [schadensfaelle.zugewiesenAn],
+    references: [persons.id],
+  }),
+  ereignisse: many(schadensfallEreignisse),
+}));
+
+export const deichabschnitteRelations = relations(deichabschnitte, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [deichabschnitte.projectId],
+    references: [projects.id],
+  }),
+  wachen: many(deichwachen),
+}));
+
+export const deichwachenRelations = relations(deichwachen, ({ one }) => ({
+  deichabschnitt: one(deichabschnitte, {
+    fields: [deichwachen.deichabschnittId],
+    references: [deichabschnitte.id],
+  }),
+  person: one(persons, {
+    fields: [deichwachen.personId],
+    references: [persons.id],
+  }),
+  checklist: one(checklists, {
+    fields: [deichwachen.checklistId],
+    references: [checklists.id],
+  }),
+}));
+
+export const pegelRelations = relations(pegel, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [pegel.projectId],
+    references: [projects.id],
+  }),
+  messwerte: many(pegelMesswerte),
+  alarme: many(pegelAlarme),
+}));
+
+export const pegelMesswerteRelations = relations(pegelMesswerte, ({ one }) => ({
+  pegel: one(pegel, {
+    fields: [pegelMesswerte.pegelId],
+    references: [pegel.id],
+  }),
+}));
+
+export const pegelAlarmeRelations = relations(pegelAlarme, ({ one }) => ({
+  pegel: one(pegel, {
+    fields: [pegelAlarme.pegelId],
+    references: [pegel.id],
+  }),
+  checklist: one(checklists, {
+    fields: [pegelAlarme.checklistId],
+    references: [checklists.id],
+  }),
+}));
+
+export const wartungsanweisungenRelations = relations(wartungsanweisungen, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [wartungsanweisungen.projectId],
+    references: [projects.id],
+  }),
+  bauteile: many(wartungsbauteile),
+}));
+
+export const wartungsbauteileRelations = relations(wartungsbauteile, ({ one, many }) => ({
+  anweisung: one(wartungsanweisungen, {
+    fields: [wartungsbauteile.anweisungId],
+    references: [wartungsanweisungen.id],
+  }),
+  plaene: many(wartungsplaene),
+}));
+
+export const wartungsplaeneRelations = relations(wartungsplaene, ({ one, many }) => ({
+  bauteil: one(wartungsbauteile, {
+    fields: [wartungsplaene.bauteilId],
+    references: [wartungsbauteile.id],
+  }),
+  aufgaben: many(wartungsaufgaben),
+}));
+
+export const wartungsaufgabenRelations = relations(wartungsaufgaben, ({ one }) => ({
+  plan: one(wartungsplaene, {
+    fields: [wartungsaufgaben.planId],
+    references: [wartungsplaene.id],
+  }),
+  erledigtVonUser: one(users, {
+    fields: [wartungsaufgaben.erledigtVon],
+    references: [users.id],
+  }),
+}));
+
+export const inspectionTemplatesRelations = relations(inspectionTemplates, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [inspectionTemplates.createdBy],
+    references: [users.id],
+  }),
+  items: many(inspectionTemplateItems),
+  inspections: many(inspections),
+}));
+
+export const inspectionTemplateItemsRelations = relations(inspectionTemplateItems, ({ one }) => ({
+  template: one(inspectionTemplates, {
+    fields: [inspectionTemplateItems.templateId],
+    references: [inspectionTemplates.id],
+  }),
+}));
+
+export const inspectionsRelations = relations(inspections, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [inspections.projectId],
+    references: [projects.id],
+  }),
+  template: one(inspectionTemplates, {
+    fields: [inspections.templateId],
+    references: [inspectionTemplates.id],
+  }),
+  inspector: one(users, {
+    fields: [inspections.inspectorId],
+    references: [users.id],
+  }),
+  items: many(inspectionItems),
+  signatures: many(inspectionSignatures),
+}));
+
+export const inspectionItemsRelations = relations(inspectionItems, ({ one }) => ({
+  inspection: one(inspections, {
+    fields: [inspectionItems.inspectionId],
+    references: [inspections.id],
+  }),
+}));
+
+export const inspectionSignaturesRelations = relations(inspectionSignatures, ({ one }) => ({
+  inspection: one(inspections, {
+    fields: [inspectionSignatures.inspectionId],
+    references: [inspections.id],
+  }),
+}));
+
+export const projectPhasesRelations = relations(projectPhases, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectPhases.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const constructionDiaryEntriesRelations = relations(constructionDiaryEntries, ({ one }) => ({
+  project: one(projects, {
+    fields: [constructionDiaryEntries.projectId],
+    references: [projects.id],
+  }),
+  author: one(users, {
+    fields: [constructionDiaryEntries.authorId],
+    references: [users.id],
+  }),
+}));
+export const projectCostsRelations = relations(projectCosts, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectCosts.projectId],
+    references: [projects.id],
+  }),
+  company: one(companies, {
+    fields: [projectCosts.companyId],
+    references: [companies.id],
+  }),
+}));
+
+export const defectsRelations = relations(defects, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [defects.projectId],
+    references: [projects.id],
+  }),
+  company: one(companies, {
+    fields: [defects.companyId],
+    references: [companies.id],
+  }),
+  planAttachment: one(attachments, {
+    fields: [defects.planAttachmentId],
+    references: [attachments.id],
+  }),
+  events: many(defectEvents),
+}));
+
+export const defectEventsRelations = relations(defectEvents, ({ one }) => ({
+  defect: one(defects, {
+    fields: [defectEvents.defectId],
+    references: [defects.id],
+  }),
+  user: one(users, {
+    fields: [defectEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const acceptanceProtocolsRelations = relations(acceptanceProtocols, ({ one }) => ({
+  project: one(projects, {
+    fields: [acceptanceProtocols.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const projectCompaniesRelations = relations(projectCompanies, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectCompanies.projectId],
+    references: [projects.id],
+  }),
+  company: one(companies, {
+    fields: [projectCompanies.companyId],
+    references: [companies.id],
+  }),
+  contactPerson: one(persons, {
+    fields: [projectCompanies.contactPersonId],
+    references: [persons.id],
+  }),
+}));
+
+
+export const schadensfallEreignisseRelations = relations(schadensfallEreignisse, ({ one }) => ({
+  schadensfall: one(schadensfaelle, {
+    fields: [schadensfallEreignisse.schadensfallId],
+    references: [schadensfaelle.id],
+  }),
+  user: one(users, {
+    fields: [schadensfallEreignisse.userId],
+    references: [users.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -308,13 +1243,87 @@ export const insertProjectSchema = createInsertSchema(projects).omit({
   updatedAt: true,
 });
 
-export const insertCustomerSchema = createInsertSchema(customers).omit({
+export const insertProjectMemberSchema = createInsertSchema(projectMembers).omit({
   id: true,
   createdAt: true,
+});
+
+// Address book forms and imports send empty strings for blank optional fields; messages are shown per import row
+const optionalText = (max: number) =>
+  z.preprocess(
+    (value) => (typeof value === "string" && value.trim() === "" ? null : value),
+    z.string().trim().max(max, `Höchstens ${max} Zeichen`).nullable().optional(),
+  );
+
+const optionalEmail = z.preprocess(
+  (value) => (typeof value === "string" && value.trim() === "" ? null : value),
+  z.string().trim().email("Ungültige E-Mail-Adresse").max(255, "Höchstens 255 Zeichen").nullable().optional(),
+);
+
+const requiredName = z.string().trim().min(1, "Name fehlt").max(255, "Höchstens 255 Zeichen");
+
+const addressFields = {
+  name: requiredName,
+  email: optionalEmail,
+  phone: optionalText(50),
+  street: optionalText(255),
+  houseNumber: optionalText(20),
+  postalCode: z.preprocess(
+    (value) => (typeof value === "string" && value.trim() === "" ? null : value),
+    z.string().trim().regex(/^[0-9A-Za-z][0-9A-Za-z -]{1,9}$/, "Ungültige Postleitzahl").nullable().optional(),
+  ),
+  city: optionalText(100),
+  country: z.preprocess(
+    (value) => (typeof value === "string" && value.trim() === "" ? undefined : value),
+    z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Land als zweistelliger Ländercode (z. B. DE, AT, CH)").optional(),
+  ),
+};
+
+// Postleitzahlformate der Länder, aus denen Kunden und Firmen üblicherweise stammen; andere Länder nur in allgemeiner Form
+const POSTAL_CODE_FORMATS: Record<string, { pattern: RegExp; message: string }> = {
+  DE: { pattern: /^\d{5}$/, message: "Deutsche Postleitzahlen sind fünfstellig" },
+  AT: { pattern: /^\d{4}$/, message: "Österreichische Postleitzahlen sind vierstellig" },
+  CH: { pattern: /^\d{4}$/, message: "Schweizer Postleitzahlen sind vierstellig" },
+};
+
+// Für superRefine: die Postleitzahl wird gegen das Land der Adresse geprüft (ohne Land gilt Deutschland)
+export const refinePostalCode = (address: { postalCode?: string | null; country?: string | null }, ctx: z.RefinementCtx) => {
+  const format = POSTAL_CODE_FORMATS[address.country ?? "DE"];
+  if (address.postalCode && format && !format.pattern.test(address.postalCode)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["postalCode"], message: format.message });
+  }
+};
+
+// Archiving goes through the archive/restore routes, not through updates
+export const insertCustomerSchema = createInsertSchema(customers, addressFields).omit({
+  id: true,
+  archivedAt: true,
+  createdAt: true,
   updatedAt: true,
 });
 
-export const insertCompanySchema = createInsertSchema(companies).omit({
+export const insertCompanySchema = createInsertSchema(companies, { ...addressFields, website: optionalText(255) }).omit({
+  id: true,
+  archivedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const contactFields = {
+  name: requiredName,
+  email: optionalEmail,
+  phone: optionalText(50),
+  department: optionalText(100),
+  position: optionalText(100),
+};
+
+export const insertCustomerContactSchema = createInsertSchema(customerContacts, contactFields).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCompanyContactSchema = createInsertSchema(companyContacts, contactFields).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -361,6 +1370,69 @@ export const insertAILogSchema = createInsertSchema(aiLog).omit({
   createdAt: true,
 });
 
+export const insertChecklistSchema = createInsertSchema(checklists).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertChecklistTaskSchema = createInsertSchema(checklistTasks, {
+  fotoIds: z.array(z.number().int()).optional(),
+  pflichtfelder: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAbsperrschieberSchema = createInsertSchema(absperrschieber).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSchieberPruefungSchema = createInsertSchema(schieberPruefungen, {
+  fotoIds: z.array(z.number().int()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSchadensfallSchema = createInsertSchema(schadensfaelle, {
+  prioritaet: z.number().int().min(1).max(5).optional(),
+  fotoIdsVorher: z.array(z.number().int()).optional(),
+  fotoIdsNachher: z.array(z.number().int()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSchadensfallEreignisSchema = createInsertSchema(schadensfallEreignisse).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDeichabschnittSchema = createInsertSchema(deichabschnitte, {
+  kmVon: z.coerce.string(),
+  kmBis: z.coerce.string(),
+  mindestBesetzung: z.number().int().min(1).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDeichwacheSchema = createInsertSchema(deichwachen, {
+  schichtBeginn: z.coerce.date(),
+  schichtEnde: z.coerce.date(),
+}).omit({
+  id: true,
+  erinnerungGesendetAm: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -369,11 +1441,26 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 
+export type ProjectMember = typeof projectMembers.$inferSelect;
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+export type ProjectMemberRole = ProjectMember["role"];
+
+// Project member with the user's name and e-mail for the team list
+export type ProjectMemberWithUser = ProjectMember & {
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+};
+
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type CustomerContact = typeof customerContacts.$inferSelect;
+export type InsertCustomerContact = z.infer<typeof insertCustomerContactSchema>;
 
 export type Company = typeof companies.$inferSelect;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
+export type CompanyContact = typeof companyContacts.$inferSelect;
+export type InsertCompanyContact = z.infer<typeof insertCompanyContactSchema>;
 
 export type Person = typeof persons.$inferSelect;
 export type InsertPerson = z.infer<typeof insertPersonSchema>;
@@ -390,8 +1477,304 @@ export type InsertAudioRecord = z.infer<typeof insertAudioRecordSchema>;
 export type Photo = typeof photos.$inferSelect;
 export type InsertPhoto = z.infer<typeof insertPhotoSchema>;
 
+export type LicensePlan = typeof licensePlans.$inferSelect;
+
 export type SupportTicket = typeof supportTickets.$inferSelect;
 export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
 
 export type AILog = typeof aiLog.$inferSelect;
 export type InsertAILog = z.infer<typeof insertAILogSchema>;
+
+export type Checklist = typeof checklists.$inferSelect;
+export type InsertChecklist = z.infer<typeof insertChecklistSchema>;
+export type ChecklistWithProgress = Checklist & {
+  erstelltVonName: string | null;
+  vorlageVersion: number | null;
+  aufgabenGesamt: number;
+  aufgabenErledigt: number;
+};
+
+export type ChecklistTask = typeof checklistTasks.$inferSelect;
+export type InsertChecklistTask = z.infer<typeof insertChecklistTaskSchema>;
+
+export type ChecklistVorlage = typeof checklistVorlagen.$inferSelect;
+export type InsertChecklistVorlage = typeof checklistVorlagen.$inferInsert;
+export type ChecklistVorlageAufgabe = typeof checklistVorlageAufgaben.$inferSelect;
+export type InsertChecklistVorlageAufgabe = typeof checklistVorlageAufgaben.$inferInsert;
+
+export type Absperrschieber = typeof absperrschieber.$inferSelect;
+export type InsertAbsperrschieber = z.infer<typeof insertAbsperrschieberSchema>;
+export type AbsperrschieberWithStatus = Absperrschieber & {
+  letztePruefung: SchieberPruefung | null;
+};
+
+export const insertPegelSchema = createInsertSchema(pegel, {
+  bezeichnung: z.string().min(1),
+  pegelnummer: z.string().min(1),
+  quelle: z.enum(["datei", "http", "manuell"]).optional(),
+  quelleUrl: z.string().url().nullable().optional(),
+  abrufintervallMinuten: z.number().int().min(1).optional(),
+  alarmEmpfaenger: z.array(z.string().email()).optional(),
+}).omit({
+  id: true,
+  aktuelleMeldestufe: true,
+  letzterWasserstandCm: true,
+  letzteMessungAm: true,
+  letzterAbrufAm: true,
+  letzterAbrufFehler: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertInspectionSchema = createInsertSchema(inspections, {
+  title: z.string().min(1),
+  requiredSignatures: z.array(z.string()).optional(),
+}).omit({
+  id: true,
+  status: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProjectPhaseSchema = createInsertSchema(projectPhases, {
+  kind: z.enum(["phase", "milestone"]),
+  name: z.string().trim().min(1),
+  weight: z.number().int().min(0).max(100),
+  progress: z.number().int().min(0).max(100),
+  plannedStart: z.coerce.date().nullable().optional(),
+  plannedEnd: z.coerce.date(),
+  actualStart: z.coerce.date().nullable().optional(),
+  actualEnd: z.coerce.date().nullable().optional(),
+  dependsOn: z.array(z.number().int()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const diaryStaffSchema = z.object({
+  company: z.string().trim().min(1),
+  trade: z.string().trim().nullable().optional(),
+  count: z.number().int().min(0),
+  hours: z.number().min(0).max(24).nullable().optional(),
+});
+
+const diaryEquipmentSchema = z.object({
+  name: z.string().trim().min(1),
+  count: z.number().int().min(1),
+  hours: z.number().min(0).max(24).nullable().optional(),
+});
+
+export const insertConstructionDiaryEntrySchema = createInsertSchema(constructionDiaryEntries, {
+  entryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  temperatureMin: z.number().int().min(-50).max(60).nullable().optional(),
+  temperatureMax: z.number().int().min(-50).max(60).nullable().optional(),
+  staff: z.array(diaryStaffSchema).optional(),
+  equipment: z.array(diaryEquipmentSchema).optional(),
+  photoIds: z.array(z.number().int()).optional(),
+  audioRecordIds: z.array(z.number().int()).optional(),
+}).omit({
+  id: true,
+  status: true,
+  signedBy: true,
+  signerName: true,
+  signature: true,
+  signedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProjectCostSchema = createInsertSchema(projectCosts, {
+  category: z.enum(["material", "labor", "subcontractor", "equipment", "fees", "other"]),
+  status: z.enum(["committed", "actual"]),
+  amount: z.coerce.number().positive().max(9_999_999_999.99).transform((amount) => amount.toFixed(2)),
+  costDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  invoiceNumber: z.string().trim().max(100).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Status, number and tracking fields are set by the workflow, not by the client
+export const insertDefectSchema = createInsertSchema(defects, {
+  title: z.string().trim().min(1).max(255),
+  deadline: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  latitude: z.coerce.number().min(-90).max(90).transform(String).nullable().optional(),
+  longitude: z.coerce.number().min(-180).max(180).transform(String).nullable().optional(),
+  pinX: z.coerce.number().min(0).max(1).transform(String).nullable().optional(),
+  pinY: z.coerce.number().min(0).max(1).transform(String).nullable().optional(),
+  photoIds: z.array(z.number().int()).optional(),
+}).omit({
+  id: true,
+  number: true,
+  status: true,
+  reminderSentAt: true,
+  overdueNotifiedAt: true,
+  resolvedAt: true,
+  acceptedAt: true,
+  acceptedBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Only the editable header of a draft; snapshot, signatures and the frozen PDF are set by the workflow
+export const insertAcceptanceProtocolSchema = createInsertSchema(acceptanceProtocols, {
+  result: z.enum(["accepted", "accepted_with_reservations", "refused"]),
+  acceptanceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+}).pick({
+  projectId: true,
+  result: true,
+  acceptanceDate: true,
+  participants: true,
+  remarks: true,
+});
+
+export const insertProjectCompanySchema = createInsertSchema(projectCompanies, {
+  trade: z.string().trim().min(1).max(100),
+  contractValue: z.coerce.number().nonnegative().max(9_999_999_999.99).transform((value) => value.toFixed(2)).nullable().optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type SchieberPruefung = typeof schieberPruefungen.$inferSelect;
+export type InsertSchieberPruefung = z.infer<typeof insertSchieberPruefungSchema>;
+
+export type Schadensfall = typeof schadensfaelle.$inferSelect;
+export type InsertSchadensfall = z.infer<typeof insertSchadensfallSchema>;
+export type SchadensfallWithDetails = Schadensfall & {
+  absperrschieberNummer: number | null;
+  gemeldetVonName: string | null;
+  zugewiesenAnName: string | null;
+};
+
+export type SchadensfallEreignis = typeof schadensfallEreignisse.$inferSelect;
+export type InsertSchadensfallEreignis = z.infer<typeof insertSchadensfallEreignisSchema>;
+
+export type Deichabschnitt = typeof deichabschnitte.$inferSelect;
+export type InsertDeichabschnitt = z.infer<typeof insertDeichabschnittSchema>;
+
+export type Deichwache = typeof deichwachen.$inferSelect;
+export type InsertDeichwache = z.infer<typeof insertDeichwacheSchema>;
+export type DeichwacheWithDetails = Deichwache & {
+  personName: string;
+  personEmail: string | null;
+  personTelefon: string | null;
+  deichabschnittBezeichnung: string;
+  kmVon: string;
+  kmBis: string;
+};
+
+export type Pegel = typeof pegel.$inferSelect;
+export type InsertPegel = z.infer<typeof insertPegelSchema>;
+export type PegelMesswert = typeof pegelMesswerte.$inferSelect;
+export type InsertPegelMesswert = typeof pegelMesswerte.$inferInsert;
+export type PegelAlarm = typeof pegelAlarme.$inferSelect;
+export type InsertPegelAlarm = typeof pegelAlarme.$inferInsert;
+
+export type Wartungsanweisung = typeof wartungsanweisungen.$inferSelect;
+export type InsertWartungsanweisung = typeof wartungsanweisungen.$inferInsert;
+export type Wartungsbauteil = typeof wartungsbauteile.$inferSelect;
+export type InsertWartungsbauteil = typeof wartungsbauteile.$inferInsert;
+export type Wartungsplan = typeof wartungsplaene.$inferSelect;
+export type InsertWartungsplan = typeof wartungsplaene.$inferInsert;
+export type Wartungsaufgabe = typeof wartungsaufgaben.$inferSelect;
+export type InsertWartungsaufgabe = typeof wartungsaufgaben.$inferInsert;
+export type WartungsaufgabeWithDetails = Wartungsaufgabe & {
+  massnahme: string;
+  turnus: string | null;
+  bauteilId: number;
+  bauteilNummer: number;
+  bauteilStandort: string;
+  bauteilBeschreibung: string | null;
+  anweisungId: number;
+  schutzanlage: string;
+  erledigtVonName: string | null;
+};
+
+export type InspectionTemplate = typeof inspectionTemplates.$inferSelect;
+export type InsertInspectionTemplate = typeof inspectionTemplates.$inferInsert;
+export type InspectionTemplateItem = typeof inspectionTemplateItems.$inferSelect;
+export type InsertInspectionTemplateItem = typeof inspectionTemplateItems.$inferInsert;
+export type Inspection = typeof inspections.$inferSelect;
+export type InsertInspection = z.infer<typeof insertInspectionSchema>;
+export type InspectionWithDetails = Inspection & {
+  inspectorName: string | null;
+  templateVersion: number | null;
+  itemsTotal: number;
+  itemsAnswered: number;
+  itemsFailed: number;
+};
+export type InspectionItem = typeof inspectionItems.$inferSelect;
+export type InsertInspectionItem = typeof inspectionItems.$inferInsert;
+export type InspectionSignature = typeof inspectionSignatures.$inferSelect;
+export type InsertInspectionSignature = typeof inspectionSignatures.$inferInsert;
+
+export type ProjectPhase = typeof projectPhases.$inferSelect;
+export type InsertProjectPhase = z.infer<typeof insertProjectPhaseSchema>;
+
+export type ConstructionDiaryEntry = typeof constructionDiaryEntries.$inferSelect;
+export type InsertConstructionDiaryEntry = z.infer<typeof insertConstructionDiaryEntrySchema>;
+export type ConstructionDiaryEntryWithAuthor = ConstructionDiaryEntry & {
+  authorName: string | null;
+  // Running number of the daily report within the project
+  reportNumber: number;
+};
+
+export type ProjectCost = typeof projectCosts.$inferSelect;
+export type InsertProjectCost = z.infer<typeof insertProjectCostSchema>;
+export type ProjectCostWithCompany = ProjectCost & { companyName: string | null };
+
+export type Defect = typeof defects.$inferSelect;
+export type InsertDefect = z.infer<typeof insertDefectSchema>;
+export type DefectWithDetails = Defect & {
+  companyName: string | null;
+  companyEmail: string | null;
+  planFileName: string | null;
+};
+export type DefectEvent = typeof defectEvents.$inferSelect;
+export type InsertDefectEvent = typeof defectEvents.$inferInsert;
+
+export type AcceptanceProtocol = typeof acceptanceProtocols.$inferSelect;
+export type InsertAcceptanceProtocol = z.infer<typeof insertAcceptanceProtocolSchema>;
+
+export type ProjectCompany = typeof projectCompanies.$inferSelect;
+export type InsertProjectCompany = z.infer<typeof insertProjectCompanySchema>;
+export type ProjectCompanyWithDetails = ProjectCompany & {
+  companyName: string;
+  contactPersonName: string | null;
+  contactPersonEmail: string | null;
+  contactPersonPhone: string | null;
+};
+export type CompanyProjectAssignment = ProjectCompany & {
+  projectName: string;
+  projectStatus: Project["status"];
+  projectAddress: string | null;
+};
+
+export type SftpBackupKind = "attachment" | "photo" | "audio";
+
+export type SftpBackupItem = {
+  kind: SftpBackupKind;
+  id: number;
+  fileName: string;
+  filePath: string;
+  projectId: number | null;
+  projectName: string | null;
+  managerId: string | null;
+  sftpPath: string | null;
+  sftpBackupStatus: string | null;
+  sftpBackupAttempts: number;
+  sftpBackupError: string | null;
+  sftpBackupNextAttemptAt: Date | null;
+};
+
+export type SftpBackupUpdate = Pick<
+  SftpBackupItem,
+  "sftpBackupStatus" | "sftpBackupAttempts" | "sftpBackupError" | "sftpBackupNextAttemptAt"
+> & { sftpPath?: string | null };